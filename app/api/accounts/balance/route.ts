@@ -1,6 +1,7 @@
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { json } from "@/app/lib/transactions";
+import { Money } from "@/lib/money";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -43,6 +44,7 @@ export async function GET(request: Request) {
         id: true,
         account_number: true,
         balance: true,
+        available_balance: true,
         created_at: true,
       },
       orderBy: {
@@ -55,7 +57,8 @@ export async function GET(request: Request) {
         ? accounts.map((acc) => ({
             id: acc.id,
             account_number: acc.account_number,
-            balance: Number(acc.balance),
+            balance: Money.from(acc.balance),
+            available_balance: Money.from(acc.available_balance),
             created_at: acc.created_at.toISOString(),
           }))
         : [],
@@ -0,0 +1,121 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { json } from "@/app/lib/transactions";
+import { getAccountLimits, getLimitDay } from "@/app/lib/limits";
+import { Money } from "@/lib/money";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/accounts/internal/{id}/limits:
+ *   get:
+ *     summary: Get account limits
+ *     description: |
+ *       Lists the transaction limits on an account with today's usage and remaining allowance. Daily limits reset at
+ *       midnight UTC. A null limit means the account has no limit of that type.
+ *     tags:
+ *       - Accounts
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the internal account
+ *     responses:
+ *       200:
+ *         description: Limits retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 resets_at:
+ *                   type: string
+ *                   format: date-time
+ *                 limits:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       limit_type:
+ *                         type: string
+ *                         enum: [per_transaction, daily_withdrawal, daily_external_transfer, daily_check_deposit]
+ *                       limit:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "5000.00"
+ *                       used:
+ *                         type: string
+ *                         example: "120.00"
+ *                       remaining:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "4880.00"
+ *       400:
+ *         description: Bad Request - Invalid account ID
+ *       401:
+ *         description: Unauthorized - Invalid or missing authentication token
+ *       404:
+ *         description: User not onboarded or account not found
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      status: auth.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { id } = await params;
+  const accountId = parseInt(id, 10);
+  if (isNaN(accountId)) {
+    return json(400, { error: "Invalid account ID" });
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const currentUser = await prisma.user.findUnique({
+      where: { auth_user_id: auth.supabaseUser.id },
+      include: { internal_accounts: true },
+    });
+    if (!currentUser) {
+      return json(404, { error: { message: "User not onboarded" } });
+    }
+
+    const account = currentUser.internal_accounts.find(
+      (acc) => acc.id === accountId,
+    );
+    if (!account) {
+      return json(404, {
+        error: "Account not found or does not belong to user",
+      });
+    }
+
+    const now = new Date();
+    const limits = await getAccountLimits(prisma, account, now);
+
+    return json(200, {
+      resets_at: getLimitDay(now).end,
+      limits: limits.map((limit) => ({
+        limit_type: limit.limit_type,
+        limit: limit.limit === null ? null : Money.from(limit.limit),
+        used: Money.from(limit.used),
+        remaining:
+          limit.remaining === null ? null : Money.from(limit.remaining),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching account limits:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
@@ -0,0 +1,216 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { json } from "@/app/lib/transactions";
+import { validateOverdraftLink } from "@/app/lib/overdraft";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const LinkOverdraftProtectionSchema = z.object({
+  savings_account_id: z.number().int().positive(),
+});
+
+/**
+ * @swagger
+ * /api/accounts/internal/{id}/overdraft-protection:
+ *   put:
+ *     summary: Link overdraft protection
+ *     description: |
+ *       Links one of the user's savings accounts to a checking account. When a withdrawal, bill payment or transfer
+ *       would exceed the checking account's available balance, the shortfall is swept in from the savings account
+ *       automatically. Replaces any existing link.
+ *     tags:
+ *       - Accounts
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the checking account to protect
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - savings_account_id
+ *             properties:
+ *               savings_account_id:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Overdraft protection linked
+ *       400:
+ *         description: Bad Request - Invalid account ID, JSON body, or account combination
+ *       401:
+ *         description: Unauthorized - Invalid or missing authentication token
+ *       404:
+ *         description: User not onboarded or account not found
+ *       422:
+ *         description: Unprocessable Entity - Invalid request body
+ *   delete:
+ *     summary: Remove overdraft protection
+ *     description: Unlinks the savings account protecting a checking account
+ *     tags:
+ *       - Accounts
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Overdraft protection removed
+ *       401:
+ *         description: Unauthorized - Invalid or missing authentication token
+ *       404:
+ *         description: User not onboarded or account not found
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      status: auth.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { id } = await params;
+  const accountId = parseInt(id, 10);
+  if (isNaN(accountId)) {
+    return json(400, { error: "Invalid account ID" });
+  }
+
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return json(400, { error: "Invalid JSON body" });
+  }
+
+  const parseResult = LinkOverdraftProtectionSchema.safeParse(raw);
+  if (!parseResult.success) {
+    return json(422, {
+      error: "Invalid request body",
+      details: parseResult.error.issues,
+    });
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const currentUser = await prisma.user.findUnique({
+      where: { auth_user_id: auth.supabaseUser.id },
+      include: { internal_accounts: true },
+    });
+    if (!currentUser) {
+      return json(404, { error: { message: "User not onboarded" } });
+    }
+
+    const checking = currentUser.internal_accounts.find(
+      (account) => account.id === accountId,
+    );
+    const savings = currentUser.internal_accounts.find(
+      (account) => account.id === parseResult.data.savings_account_id,
+    );
+    if (!checking || !savings) {
+      return json(404, {
+        error: "Account not found or does not belong to user",
+      });
+    }
+
+    const linkError = validateOverdraftLink(checking, savings);
+    if (linkError) {
+      return json(400, { error: linkError });
+    }
+
+    await prisma.internalAccount.update({
+      where: { id: checking.id },
+      data: { overdraft_protection_account_id: savings.id },
+    });
+
+    await invalidateAccounts(auth.supabaseUser.id, currentUser.id);
+
+    return json(200, {
+      message: "Overdraft protection linked",
+      account_id: checking.id,
+      overdraft_protection_account_id: savings.id,
+    });
+  } catch (error) {
+    console.error("Error linking overdraft protection:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      status: auth.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { id } = await params;
+  const accountId = parseInt(id, 10);
+  if (isNaN(accountId)) {
+    return json(400, { error: "Invalid account ID" });
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const currentUser = await prisma.user.findUnique({
+      where: { auth_user_id: auth.supabaseUser.id },
+      include: { internal_accounts: true },
+    });
+    if (!currentUser) {
+      return json(404, { error: { message: "User not onboarded" } });
+    }
+
+    const checking = currentUser.internal_accounts.find(
+      (account) => account.id === accountId,
+    );
+    if (!checking) {
+      return json(404, {
+        error: "Account not found or does not belong to user",
+      });
+    }
+
+    await prisma.internalAccount.update({
+      where: { id: checking.id },
+      data: { overdraft_protection_account_id: null },
+    });
+
+    await invalidateAccounts(auth.supabaseUser.id, currentUser.id);
+
+    return json(200, {
+      message: "Overdraft protection removed",
+      account_id: checking.id,
+      overdraft_protection_account_id: null,
+    });
+  } catch (error) {
+    console.error("Error removing overdraft protection:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
+
+async function invalidateAccounts(supabaseUserId: string, userId: number) {
+  const { revalidateTag } = await import("next/cache");
+  await revalidateTag(`accounts-${supabaseUserId}`);
+  await revalidateTag(`accounts-${userId}`);
+}
@@ -0,0 +1,147 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { json } from "@/app/lib/transactions";
+import { getStatementDownloadPath } from "@/app/lib/statements";
+import { Money } from "@/lib/money";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/accounts/internal/{id}/statements:
+ *   get:
+ *     summary: List account statements
+ *     description: |
+ *       Lists the monthly statements cut for an account, newest first. Each statement includes a short-lived
+ *       download_url for its PDF that works without the bearer token.
+ *     tags:
+ *       - Accounts
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the internal account
+ *     responses:
+ *       200:
+ *         description: Statements retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 statements:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       period_start:
+ *                         type: string
+ *                         format: date
+ *                       period_end:
+ *                         type: string
+ *                         format: date
+ *                       opening_balance:
+ *                         type: string
+ *                         example: "1200.00"
+ *                       closing_balance:
+ *                         type: string
+ *                         example: "1450.50"
+ *                       total_credits:
+ *                         type: string
+ *                         example: "500.50"
+ *                       total_debits:
+ *                         type: string
+ *                         example: "250.00"
+ *                       transaction_count:
+ *                         type: integer
+ *                       download_url:
+ *                         type: string
+ *                       download_expires_at:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         description: Bad Request - Invalid account ID
+ *       401:
+ *         description: Unauthorized - Invalid or missing authentication token
+ *       404:
+ *         description: User not onboarded or account not found
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      status: auth.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { id } = await params;
+  const accountId = parseInt(id, 10);
+  if (isNaN(accountId)) {
+    return json(400, { error: "Invalid account ID" });
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const currentUser = await prisma.user.findUnique({
+      where: { auth_user_id: auth.supabaseUser.id },
+      include: { internal_accounts: true },
+    });
+    if (!currentUser) {
+      return json(404, { error: { message: "User not onboarded" } });
+    }
+
+    const account = currentUser.internal_accounts.find(
+      (acc) => acc.id === accountId,
+    );
+    if (!account) {
+      return json(404, {
+        error: "Account not found or does not belong to user",
+      });
+    }
+
+    const statements = await prisma.accountStatement.findMany({
+      where: { internal_account_id: account.id },
+      select: {
+        id: true,
+        period_start: true,
+        period_end: true,
+        opening_balance: true,
+        closing_balance: true,
+        total_credits: true,
+        total_debits: true,
+        transaction_count: true,
+      },
+      orderBy: { period_start: "desc" },
+    });
+
+    return json(200, {
+      statements: statements.map((statement) => {
+        const download = getStatementDownloadPath(statement.id);
+        return {
+          ...statement,
+          opening_balance: Money.from(statement.opening_balance),
+          closing_balance: Money.from(statement.closing_balance),
+          total_credits: Money.from(statement.total_credits),
+          total_debits: Money.from(statement.total_debits),
+          download_url: download.path,
+          download_expires_at: download.expires_at,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error fetching statements:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
@@ -10,7 +10,15 @@ const mockPrisma = {
   internalAccount: {
     findUnique: vi.fn(),
     create: vi.fn(),
+    update: vi.fn(),
   },
+  transaction: {
+    create: vi.fn(),
+  },
+  journalEntry: {
+    create: vi.fn(),
+  },
+  $transaction: vi.fn(),
 };
 
 // Mock the getPrisma function
@@ -32,6 +40,9 @@ vi.mock("next/cache", () => ({
 describe("POST /api/accounts/internal", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(
+      async (fn: (tx: typeof mockPrisma) => unknown) => fn(mockPrisma),
+    );
   });
 
   it("returns 401 when user is not authenticated", async () => {
@@ -140,6 +151,7 @@ describe("POST /api/accounts/internal", () => {
     mockPrisma.user.findUnique.mockResolvedValue(mockUser);
     mockPrisma.internalAccount.findUnique.mockResolvedValue(null);
     mockPrisma.internalAccount.create.mockResolvedValue(mockAccount);
+    mockPrisma.journalEntry.create.mockResolvedValue({ id: 1 });
 
     const response = await POST(
       new Request("http://localhost:3000/api/accounts/internal", {
@@ -158,7 +170,7 @@ describe("POST /api/accounts/internal", () => {
         id: number;
         account_number: string;
         account_type: "checking" | "savings";
-        balance: number;
+        balance: string;
         is_active: boolean;
       };
     };
@@ -167,16 +179,32 @@ describe("POST /api/accounts/internal", () => {
         id: 1,
         account_number: "12345678901234567",
         account_type: "checking",
-        balance: 100,
+        balance: "100.00",
+        available_balance: "100.00",
         is_active: true,
       }),
     );
 
+    // The account opens empty and the initial deposit is posted through the journal
     expect(mockPrisma.internalAccount.create).toHaveBeenCalledWith({
       data: expect.objectContaining({
         user_id: 1,
         account_type: "checking",
-        balance: 100,
+        balance: 0,
+      }),
+    });
+    expect(mockPrisma.internalAccount.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: {
+        balance: { increment: expect.anything() },
+        available_balance: { increment: expect.anything() },
+      },
+    });
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        internal_account_id: 1,
+        transaction_type: "deposit",
+        direction: "inbound",
       }),
     });
   });
@@ -205,6 +233,7 @@ describe("POST /api/accounts/internal", () => {
       routing_number: "123456789",
       account_type: "savings",
       balance: 0,
+      available_balance: 0,
       created_at: new Date(),
       updated_at: new Date(),
       is_active: true,
@@ -230,7 +259,7 @@ describe("POST /api/accounts/internal", () => {
         id: number;
         account_number: string;
         account_type: "checking" | "savings";
-        balance: number;
+        balance: string;
         is_active: boolean;
       };
     };
@@ -239,7 +268,8 @@ describe("POST /api/accounts/internal", () => {
         id: 1,
         account_number: "12345678901234567",
         account_type: "savings",
-        balance: 0,
+        balance: "0.00",
+        available_balance: "0.00",
         is_active: true,
       }),
     );
@@ -1,6 +1,10 @@
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { unstable_cache } from "next/cache";
+import { postOpeningDeposit } from "@/app/lib/transactions";
+import { Decimal } from "@prisma/client/runtime/library";
+import { Money } from "@/lib/money";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
 // import { InternalAccountResponseSchema } from "@/lib/schemas/transfer";
 
 /**
@@ -34,7 +38,17 @@ import { unstable_cache } from "next/cache";
  *                         type: string
  *                         enum: [checking, savings]
  *                       balance:
- *                         type: number
+ *                         type: string
+ *                         example: "1250.00"
+ *                         description: Ledger balance (everything that has posted)
+ *                       available_balance:
+ *                         type: string
+ *                         example: "1000.00"
+ *                         description: Ledger balance minus funds on hold
+ *                       overdraft_protection_account_id:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: Savings account that covers shortfalls on this checking account
  *                       is_active:
  *                         type: boolean
  *       401:
@@ -48,6 +62,13 @@ import { unstable_cache } from "next/cache";
  *       - Accounts
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -90,9 +111,11 @@ import { unstable_cache } from "next/cache";
  *                       type: string
  *                       enum: [checking, savings]
  *                     balance:
- *                       type: number
- *                       format: decimal
- *                       example: 100.00
+ *                       type: string
+ *                       example: "100.00"
+ *                     available_balance:
+ *                       type: string
+ *                       example: "100.00"
  *                     is_active:
  *                       type: boolean
  *                       example: true
@@ -193,13 +216,16 @@ export async function GET(request: Request) {
         return null;
       }
 
-      // Convert Decimal balances to numbers and format response
+      // Balances are cached as Money strings ("1250.00")
       return currentUser.internal_accounts.map((account) => ({
         id: account.id,
         account_number: account.account_number,
         routing_number: account.routing_number,
         account_type: account.account_type,
-        balance: Number(account.balance),
+        balance: Money.from(account.balance).toString(),
+        available_balance: Money.from(account.available_balance).toString(),
+        overdraft_protection_account_id:
+          account.overdraft_protection_account_id,
         is_active: account.is_active,
         created_at: account.created_at.toISOString(),
       }));
@@ -239,6 +265,12 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    openAccount(request),
+  );
+}
+
+async function openAccount(request: Request) {
   // Auth check
   const auth = await getAuthUserFromRequest(request);
   if (!auth.ok) {
@@ -286,14 +318,28 @@ export async function POST(request: Request) {
 
     const accountNumber = await generateUniqueAccountNumber();
 
-    // Create account
-    const account = await getPrisma().internalAccount.create({
-      data: {
-        account_type: data.account_type,
-        account_number: accountNumber,
-        balance: data.initial_deposit || 0,
-        user_id: currentUser.id,
-      },
+    // Create account; any initial deposit is posted through the journal
+    const initialDeposit = new Decimal(String(data.initial_deposit || 0));
+    const account = await getPrisma().$transaction(async (tx) => {
+      const created = await tx.internalAccount.create({
+        data: {
+          account_type: data.account_type,
+          account_number: accountNumber,
+          balance: 0,
+          user_id: currentUser.id,
+        },
+      });
+
+      if (initialDeposit.lte(0)) {
+        return created;
+      }
+
+      await postOpeningDeposit(tx, created.id, initialDeposit);
+      return {
+        ...created,
+        balance: initialDeposit,
+        available_balance: initialDeposit,
+      };
     });
 
     // Invalidate cache after successful account creation
@@ -303,10 +349,19 @@ export async function POST(request: Request) {
     await revalidateTag(`user-${currentUser.id}`);
     await revalidateTag(`accounts-${currentUser.id}`);
 
-    return new Response(JSON.stringify({ account }), {
-      headers: { "Content-Type": "application/json" },
-      status: 201,
-    });
+    return new Response(
+      JSON.stringify({
+        account: {
+          ...account,
+          balance: Money.from(account.balance),
+          available_balance: Money.from(account.available_balance),
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 201,
+      },
+    );
   } catch (error) {
     // Handle unique constraint violations
     if (error && typeof error === "object" && "code" in error) {
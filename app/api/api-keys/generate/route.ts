@@ -3,6 +3,7 @@ import { getAuthUserFromRequest } from "@/lib/auth";
 import { json } from "@/app/lib/transactions";
 import { generateApiKey, hashApiKey, getKeyPrefix } from "@/lib/api-key-utils";
 import { z } from "zod";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -18,6 +19,12 @@ const GenerateApiKeySchema = z.object({
  * Requires JWT Bearer token
  */
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    createApiKey(request),
+  );
+}
+
+async function createApiKey(request: Request) {
   try {
     // Authenticate user
     const auth = await getAuthUserFromRequest(request);
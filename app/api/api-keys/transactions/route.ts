@@ -7,7 +7,14 @@ import {
   createApprovedTransaction,
 } from "@/app/lib/transactions";
 import { validateApiKey, extractApiKeyFromRequest } from "@/lib/api-key-auth";
+import { postTransfer } from "@/app/lib/ledger";
+import {
+  checkTransactionLimits,
+  limitExceededResponse,
+} from "@/app/lib/limits";
 import { z } from "zod";
+import { Money } from "@/lib/money";
+import { withIdempotency, apiKeyIdempotencyScope } from "@/app/lib/idempotency";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -24,6 +31,12 @@ const ApiKeyTransactionSchema = z.object({
  * No JWT required - uses access_token query parameter
  */
 export async function POST(request: Request) {
+  return withIdempotency(request, apiKeyIdempotencyScope, () =>
+    createApiKeyTransaction(request),
+  );
+}
+
+async function createApiKeyTransaction(request: Request) {
   try {
     // Extract API key from query parameter
     const apiKey = extractApiKeyFromRequest(request);
@@ -115,9 +128,11 @@ export async function POST(request: Request) {
           });
         }
 
-        await tx.internalAccount.update({
-          where: { id: account.id },
-          data: { balance: { increment: amount } },
+        const posting = await postTransfer(tx, {
+          from: { system_account: "cash_clearing" },
+          to: { internal_account_id: account.id },
+          amount,
+          description: "API key credit",
         });
 
         const result = await createApprovedTransaction(
@@ -128,6 +143,7 @@ export async function POST(request: Request) {
             transaction_type: "deposit",
             direction: "inbound",
             idempotency_key,
+            journal_entry_id: posting.journal_entry.id,
           },
           "Credit already processed",
         );
@@ -135,7 +151,7 @@ export async function POST(request: Request) {
         const responseData = {
           status: result.duplicate ? result.message : "Credit successful",
           transaction_id: result.transaction?.id,
-          amount: Number(amount),
+          amount: Money.from(amount),
         };
 
         // Invalidate cache after successful transaction (use Supabase user ID)
@@ -168,13 +184,33 @@ export async function POST(request: Request) {
           });
         }
 
+        const limitCheck = await checkTransactionLimits(
+          tx,
+          account,
+          "withdrawal",
+          amount,
+        );
+        if (!limitCheck.ok) {
+          await createDeniedTransaction(tx, {
+            internal_account_id: account.id,
+            amount: amount.neg(),
+            transaction_type: "withdrawal",
+            direction: "outbound",
+            idempotency_key,
+          });
+          return limitExceededResponse(limitCheck);
+        }
+
         // Check sufficient funds
-        const ok = await tx.internalAccount.updateMany({
-          where: { id: account.id, balance: { gte: amount } },
-          data: { balance: { decrement: amount } },
+        const posting = await postTransfer(tx, {
+          from: { internal_account_id: account.id },
+          to: { system_account: "cash_clearing" },
+          amount,
+          description: "API key debit",
+          guard_sufficient_funds: true,
         });
 
-        if (ok.count !== 1) {
+        if (!posting.ok) {
           await createDeniedTransaction(tx, {
             internal_account_id: account.id,
             amount: amount.neg(),
@@ -193,6 +229,7 @@ export async function POST(request: Request) {
             transaction_type: "withdrawal",
             direction: "outbound",
             idempotency_key,
+            journal_entry_id: posting.journal_entry.id,
           },
           "Debit already processed",
         );
@@ -200,7 +237,7 @@ export async function POST(request: Request) {
         const responseData = {
           status: result.duplicate ? result.message : "Debit successful",
           transaction_id: result.transaction?.id,
-          amount: Number(amount),
+          amount: Money.from(amount),
         };
 
         // Invalidate cache after successful transaction (use Supabase user ID)
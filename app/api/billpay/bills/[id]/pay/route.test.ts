@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/billpay/bills/[id]/pay/route";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { payBill } from "@/app/lib/billpay";
+import { Decimal } from "@prisma/client/runtime/library";
+
+// Mock the Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+  },
+  bill: {
+    findUnique: vi.fn(),
+  },
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  $transaction: vi.fn(async (fn: any) => fn(mockPrisma)),
+};
+
+// Mock the getPrisma function
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+// Mock auth helper
+vi.mock("@/lib/auth", () => ({
+  getAuthUserFromRequest: vi.fn(),
+}));
+
+vi.mock("@/app/lib/billpay", () => ({
+  payBill: vi.fn(),
+}));
+
+const checking = {
+  id: 1,
+  user_id: 1,
+  account_type: "checking",
+  is_active: true,
+};
+
+const openBill = {
+  id: 30,
+  user_id: 1,
+  payee_id: 6,
+  amount_due: new Decimal("84.12"),
+  status: "open",
+};
+
+function payRequest(body: unknown = { source_account_id: 1 }) {
+  return POST(
+    new Request("http://localhost:3000/api/billpay/bills/30/pay", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: "30" }) },
+  );
+}
+
+describe("Billpay Bills API - POST /api/billpay/bills/[id]/pay", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123" },
+    } as never);
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: 1,
+      internal_accounts: [checking],
+    });
+  });
+
+  it("pays an open bill from the chosen account", async () => {
+    mockPrisma.bill.findUnique.mockResolvedValue(openBill);
+    vi.mocked(payBill).mockResolvedValue({
+      status: "pending",
+      transaction_id: 500,
+    });
+
+    const response = await payRequest();
+    const data = (await response.json()) as { transaction_id: number };
+
+    expect(response.status).toBe(200);
+    expect(data.transaction_id).toBe(500);
+    expect(payBill).toHaveBeenCalledWith(mockPrisma, openBill, checking);
+  });
+
+  it("returns 409 when the bill has already been paid", async () => {
+    mockPrisma.bill.findUnique.mockResolvedValue({
+      ...openBill,
+      status: "paid",
+    });
+
+    const response = await payRequest();
+
+    expect(response.status).toBe(409);
+    expect(payBill).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 when the account cannot cover the bill", async () => {
+    mockPrisma.bill.findUnique.mockResolvedValue(openBill);
+    vi.mocked(payBill).mockResolvedValue({
+      status: "denied",
+      reason: "insufficient_funds",
+      transaction_id: 501,
+    });
+
+    const response = await payRequest();
+    const data = (await response.json()) as { error: string };
+
+    expect(response.status).toBe(409);
+    expect(data.error).toContain("Insufficient funds");
+  });
+
+  it("returns 403 when the bill belongs to another user", async () => {
+    mockPrisma.bill.findUnique.mockResolvedValue({ ...openBill, user_id: 2 });
+
+    const response = await payRequest();
+
+    expect(response.status).toBe(403);
+    expect(payBill).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an account the user does not own", async () => {
+    const response = await payRequest({ source_account_id: 9 });
+
+    expect(response.status).toBe(404);
+    expect(mockPrisma.bill.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { BillPaymentSchema } from "@/lib/schemas/billpay";
+import { json } from "@/app/lib/transactions";
+import { limitExceededResponse } from "@/app/lib/limits";
+import { payBill } from "@/app/lib/billpay";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
+
+// Configure route segment
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/billpay/bills/{id}/pay:
+ *   post:
+ *     summary: Pay a bill
+ *     description: Pays the amount due on one of the user's open bills from one of their accounts. The funds are held until the payment posts, and the bill is marked paid.
+ *     tags:
+ *       - Billpay
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - source_account_id
+ *             properties:
+ *               source_account_id:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Payment submitted; funds are on hold until it posts
+ *       400:
+ *         description: Bad Request
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Bill does not belong to user, source account is inactive, or a transaction limit was exceeded
+ *       404:
+ *         description: User not onboarded, bill, source account or payee not found
+ *       409:
+ *         description: Conflict - Bill has already been paid, or insufficient funds
+ *       422:
+ *         description: Unprocessable Entity - Invalid request body
+ *       500:
+ *         description: Internal Server Error
+ */
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    payBillNow(request, context),
+  );
+}
+
+async function payBillNow(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  // Await params in Next.js 15
+  const { id } = await params;
+
+  // Auth check
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  // Get current user
+  const currentUser = await getPrisma().user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+    include: { internal_accounts: true },
+  });
+
+  if (!currentUser) {
+    return new Response(
+      JSON.stringify({
+        error: { message: "User not onboarded" },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    const billId = parseInt(id, 10);
+    if (isNaN(billId)) {
+      return json(400, { error: "Invalid bill ID" });
+    }
+
+    // Parse and validate request body
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch (error) {
+      console.error("Error parsing JSON body:", error);
+      return json(400, { error: "Invalid JSON body" });
+    }
+
+    const parseResult = BillPaymentSchema.safeParse(raw);
+    if (!parseResult.success) {
+      return json(422, {
+        error: "Invalid request body",
+        details: parseResult.error.issues,
+      });
+    }
+
+    // Verify source account belongs to the user
+    const sourceAccount = currentUser.internal_accounts.find(
+      (acc) => acc.id === parseResult.data.source_account_id,
+    );
+
+    if (!sourceAccount) {
+      return json(404, {
+        error: "Source account not found or does not belong to user",
+      });
+    }
+
+    return await getPrisma().$transaction(async (tx) => {
+      const bill = await tx.bill.findUnique({ where: { id: billId } });
+
+      if (!bill) {
+        return json(404, { error: "Bill not found" });
+      }
+
+      if (bill.user_id !== currentUser.id) {
+        return json(403, {
+          error: "Forbidden: You do not have permission to pay this bill",
+        });
+      }
+
+      if (bill.status === "paid") {
+        return json(409, { error: "Conflict: Bill has already been paid." });
+      }
+
+      const result = await payBill(tx, bill, sourceAccount);
+      if (result.status === "pending" || result.status === "duplicate") {
+        return json(200, {
+          status: "Bill paid. Funds are on hold until the payment posts.",
+          transaction_id: result.transaction_id,
+        });
+      }
+
+      switch (result.reason) {
+        case "source_inactive":
+          return json(403, { error: "Forbidden: Source account is inactive." });
+        case "payee_not_found":
+          return json(404, { error: "Payee not found." });
+        case "limit_exceeded":
+          return limitExceededResponse(result.limit_check);
+        case "insufficient_funds":
+          return json(409, { error: "Conflict: Insufficient funds." });
+      }
+    });
+  } catch (error) {
+    console.error("Error paying bill:", error);
+    return json(500, {
+      error: {
+        message: "Failed to pay bill",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+  }
+}
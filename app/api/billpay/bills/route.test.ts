@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET, POST } from "@/app/api/billpay/bills/route";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { hashApiKey } from "@/lib/api-key-utils";
+import { Decimal } from "@prisma/client/runtime/library";
+
+// Mock the Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+  },
+  bill: {
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+  billPayRule: {
+    findMany: vi.fn(),
+  },
+  billPayPayee: {
+    findUnique: vi.fn(),
+  },
+  scheduledJob: {
+    updateMany: vi.fn(),
+  },
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  $transaction: vi.fn(async (fn: any) => fn(mockPrisma)),
+};
+
+// Mock the getPrisma function
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+// Mock auth helper
+vi.mock("@/lib/auth", () => ({
+  getAuthUserFromRequest: vi.fn(),
+}));
+
+const PAYEE_KEY = "cs_160payeekey";
+
+function presentRequest(body: unknown, key: string | null = PAYEE_KEY) {
+  const query = key ? `?access_token=${key}` : "";
+  return new Request(`http://localhost:3000/api/billpay/bills${query}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("Billpay Bills API", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("GET /api/billpay/bills", () => {
+    it("marks open bills that a statement balance rule will pay", async () => {
+      vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+        ok: true,
+        supabaseUser: { id: "user-123" },
+      } as never);
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.bill.findMany.mockResolvedValue([
+        {
+          id: 31,
+          payee_id: 6,
+          amount_due: new Decimal("84.12"),
+          due_date: new Date("2026-01-20T00:00:00Z"),
+          reference: "INV-1001",
+          status: "open",
+          transaction_id: null,
+          paid_at: null,
+          created_at: new Date("2026-01-02T00:00:00Z"),
+          payee: { business_name: "City Water" },
+        },
+        {
+          id: 30,
+          payee_id: 7,
+          amount_due: new Decimal("42.00"),
+          due_date: new Date("2026-01-10T00:00:00Z"),
+          reference: null,
+          status: "open",
+          transaction_id: null,
+          paid_at: null,
+          created_at: new Date("2026-01-01T00:00:00Z"),
+          payee: { business_name: "Metro Power" },
+        },
+        {
+          id: 29,
+          payee_id: 6,
+          amount_due: new Decimal("912.40"),
+          due_date: new Date("2026-01-05T00:00:00Z"),
+          reference: "INV-0998",
+          status: "open",
+          transaction_id: null,
+          paid_at: null,
+          created_at: new Date("2025-12-20T00:00:00Z"),
+          payee: { business_name: "City Water" },
+        },
+      ]);
+      mockPrisma.billPayRule.findMany.mockResolvedValue([
+        {
+          id: 4,
+          payee_id: 6,
+          max_amount: new Decimal("500.00"),
+          start_time: new Date("2025-12-01T00:00:00Z"),
+          end_time: null,
+        },
+      ]);
+
+      const response = await GET(
+        new Request("http://localhost:3000/api/billpay/bills?status=open"),
+      );
+      const data = (await response.json()) as {
+        bills: { id: number; amount_due: string; autopay_rule_id: number }[];
+      };
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.bill.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { user_id: 1, status: "open" } }),
+      );
+      expect(data.bills).toMatchObject([
+        { id: 31, amount_due: "84.12", autopay_rule_id: 4 },
+        { id: 30, amount_due: "42.00", autopay_rule_id: null },
+        // Above the rule's maximum, so left for the customer to pay
+        { id: 29, amount_due: "912.40", autopay_rule_id: null },
+      ]);
+    });
+
+    it("returns 422 for an unknown status", async () => {
+      vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+        ok: true,
+        supabaseUser: { id: "user-123" },
+      } as never);
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 1 });
+
+      const response = await GET(
+        new Request("http://localhost:3000/api/billpay/bills?status=late"),
+      );
+
+      expect(response.status).toBe(422);
+    });
+  });
+
+  describe("POST /api/billpay/bills", () => {
+    it("presents a bill to the customer with the payee's key", async () => {
+      mockPrisma.billPayPayee.findUnique.mockResolvedValue({
+        id: 6,
+        is_active: true,
+      });
+      mockPrisma.user.findFirst.mockResolvedValue({
+        id: 1,
+        role: "customer",
+      });
+      mockPrisma.bill.create.mockImplementation(async ({ data }) => ({
+        id: 31,
+        status: "open",
+        created_at: new Date("2026-01-02T00:00:00Z"),
+        ...data,
+      }));
+
+      const response = await POST(
+        presentRequest({
+          customer_email: "jane@example.com",
+          amount_due: "84.12",
+          due_date: "2026-01-20T00:00:00Z",
+          reference: "INV-1001",
+        }),
+      );
+      const data = (await response.json()) as { bill: unknown };
+
+      expect(response.status).toBe(201);
+      expect(mockPrisma.billPayPayee.findUnique).toHaveBeenCalledWith({
+        where: { api_key_hash: hashApiKey(PAYEE_KEY) },
+      });
+      expect(mockPrisma.user.findFirst).toHaveBeenCalledWith({
+        where: {
+          email: "jane@example.com",
+          role: "customer",
+          billpay_rules: { some: { payee_id: 6 } },
+        },
+      });
+      expect(data.bill).toMatchObject({
+        id: 31,
+        payee_id: 6,
+        amount_due: "84.12",
+        due_date: "2026-01-20T00:00:00.000Z",
+        reference: "INV-1001",
+        status: "open",
+      });
+      expect(mockPrisma.scheduledJob.updateMany).toHaveBeenCalled();
+    });
+
+    it("returns 401 without an API key", async () => {
+      const response = await POST(
+        presentRequest(
+          {
+            customer_email: "jane@example.com",
+            amount_due: "84.12",
+            due_date: "2026-01-20T00:00:00Z",
+          },
+          null,
+        ),
+      );
+
+      expect(response.status).toBe(401);
+      expect(mockPrisma.bill.create).not.toHaveBeenCalled();
+    });
+
+    it("returns 401 for a key no payee holds", async () => {
+      mockPrisma.billPayPayee.findUnique.mockResolvedValue(null);
+
+      const response = await POST(
+        presentRequest({
+          customer_email: "jane@example.com",
+          amount_due: "84.12",
+          due_date: "2026-01-20T00:00:00Z",
+        }),
+      );
+
+      expect(response.status).toBe(401);
+      expect(mockPrisma.bill.create).not.toHaveBeenCalled();
+    });
+
+    it("returns the same 404 for an unknown email and a customer who does not pay the payee", async () => {
+      mockPrisma.billPayPayee.findUnique.mockResolvedValue({
+        id: 6,
+        is_active: true,
+      });
+      // Neither matches a customer with a bill pay rule for this payee
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+
+      const responses = await Promise.all(
+        ["nobody@example.com", "jane@example.com"].map((customer_email) =>
+          POST(
+            presentRequest({
+              customer_email,
+              amount_due: "84.12",
+              due_date: "2026-01-20T00:00:00Z",
+            }),
+          ),
+        ),
+      );
+
+      for (const response of responses) {
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ error: "Customer not found" });
+      }
+      expect(mockPrisma.bill.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,383 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import {
+  extractApiKeyFromRequest,
+  validatePayeeApiKey,
+} from "@/lib/api-key-auth";
+import { BillCreateSchema, BillsQuerySchema } from "@/lib/schemas/billpay";
+import { toDecimal } from "@/app/lib/transactions";
+import { Money } from "@/lib/money";
+import { presentBill } from "@/app/lib/billpay";
+import {
+  withIdempotency,
+  payeeApiKeyIdempotencyScope,
+} from "@/app/lib/idempotency";
+
+// Configure route segment
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/billpay/bills:
+ *   get:
+ *     summary: Get user's bills
+ *     description: Retrieves the bills payees have presented to the authenticated user, latest due date first. An open bill that one of the user's statement balance rules will pay has its autopay_rule_id set.
+ *     tags:
+ *       - Billpay
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, paid]
+ *         description: Only return bills with this status
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved bills
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 bills:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       payee_id:
+ *                         type: integer
+ *                       payee_name:
+ *                         type: string
+ *                       amount_due:
+ *                         type: string
+ *                         example: "84.12"
+ *                       due_date:
+ *                         type: string
+ *                         format: date-time
+ *                       reference:
+ *                         type: string
+ *                         nullable: true
+ *                       status:
+ *                         type: string
+ *                         enum: [open, paid]
+ *                       transaction_id:
+ *                         type: integer
+ *                         nullable: true
+ *                       paid_at:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       autopay_rule_id:
+ *                         type: integer
+ *                         nullable: true
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not onboarded
+ *       422:
+ *         description: Unprocessable Entity - Invalid query parameters
+ *   post:
+ *     summary: Present a bill to a customer
+ *     description: |
+ *       Lets a payee present a bill to one of the bank's customers, identified by the email they bank with. The
+ *       customer can pay it one-off, and their statement balance rules for the payee pay it on its due date.
+ *       Authenticated with the payee's API key, which a bank manager issues.
+ *     tags:
+ *       - Billpay
+ *     parameters:
+ *       - in: query
+ *         name: access_token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The payee's API key
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - customer_email
+ *               - amount_due
+ *               - due_date
+ *             properties:
+ *               customer_email:
+ *                 type: string
+ *                 format: email
+ *               amount_due:
+ *                 type: string
+ *                 example: "84.12"
+ *               due_date:
+ *                 type: string
+ *                 format: date-time
+ *               reference:
+ *                 type: string
+ *                 maxLength: 64
+ *                 description: The payee's statement or invoice number
+ *     responses:
+ *       201:
+ *         description: Bill presented successfully
+ *       400:
+ *         description: Bad Request
+ *       401:
+ *         description: Missing or invalid API key
+ *       403:
+ *         description: Forbidden - Payee is inactive
+ *       404:
+ *         description: No customer with this email pays the payee through bill pay
+ *       422:
+ *         description: Unprocessable Entity - Invalid request body
+ *       500:
+ *         description: Internal Server Error
+ */
+
+export async function GET(request: Request) {
+  // Auth check
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  // Get current user
+  const currentUser = await getPrisma().user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+  });
+
+  if (!currentUser) {
+    return new Response(
+      JSON.stringify({
+        error: { message: "User not onboarded" },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    const url = new URL(request.url);
+    const parseResult = BillsQuerySchema.safeParse({
+      status: url.searchParams.get("status") || undefined,
+    });
+    if (!parseResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid query parameters",
+          details: parseResult.error.issues,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        },
+      );
+    }
+
+    const { status } = parseResult.data;
+
+    const bills = await getPrisma().bill.findMany({
+      where: { user_id: currentUser.id, ...(status && { status }) },
+      include: { payee: true },
+      orderBy: { due_date: "desc" },
+    });
+
+    // Rules that will pay open bills on their due dates
+    const statementRules = await getPrisma().billPayRule.findMany({
+      where: {
+        user_id: currentUser.id,
+        mode: "statement_balance",
+        status: "active",
+      },
+    });
+
+    const formattedBills = bills.map((bill) => {
+      const autopayRule =
+        bill.status === "open"
+          ? statementRules.find(
+              (rule) =>
+                rule.payee_id === bill.payee_id &&
+                (!rule.max_amount || bill.amount_due.lte(rule.max_amount)) &&
+                rule.start_time <= bill.due_date &&
+                (!rule.end_time || rule.end_time >= bill.due_date),
+            )
+          : undefined;
+
+      return {
+        id: bill.id,
+        payee_id: bill.payee_id,
+        payee_name: bill.payee.business_name,
+        amount_due: Money.from(bill.amount_due),
+        due_date: bill.due_date.toISOString(),
+        reference: bill.reference,
+        status: bill.status,
+        transaction_id: bill.transaction_id,
+        paid_at: bill.paid_at?.toISOString() || null,
+        autopay_rule_id: autopayRule?.id ?? null,
+        created_at: bill.created_at.toISOString(),
+      };
+    });
+
+    return new Response(JSON.stringify({ bills: formattedBills }), {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "private, no-cache, no-store, must-revalidate",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching bills:", error);
+    return new Response(
+      JSON.stringify({
+        error: {
+          message: "Failed to fetch bills",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  return withIdempotency(request, payeeApiKeyIdempotencyScope, () =>
+    createBill(request),
+  );
+}
+
+async function createBill(request: Request) {
+  // Payee auth check
+  const apiKey = extractApiKeyFromRequest(request);
+  if (!apiKey) {
+    return new Response(
+      JSON.stringify({
+        error: "API key required in access_token query parameter",
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 401,
+      },
+    );
+  }
+
+  const auth = await validatePayeeApiKey(apiKey);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  try {
+    // Parse and validate request body
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch (error) {
+      console.error("Error parsing JSON body:", error);
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        headers: { "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    const parseResult = BillCreateSchema.safeParse(raw);
+    if (!parseResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request body",
+          details: parseResult.error.issues,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        },
+      );
+    }
+
+    const billData = parseResult.data;
+
+    // A payee can only bill customers who pay it through bill pay. Any other email gets the same answer, whether or
+    // not it belongs to a customer, so payees cannot use this to find out who banks here.
+    const customer = await getPrisma().user.findFirst({
+      where: {
+        email: billData.customer_email,
+        role: "customer",
+        billpay_rules: { some: { payee_id: auth.payeeId } },
+      },
+    });
+
+    if (!customer) {
+      return new Response(
+        JSON.stringify({
+          error: "Customer not found",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 404,
+        },
+      );
+    }
+
+    const bill = await getPrisma().$transaction((tx) =>
+      presentBill(tx, {
+        payee_id: auth.payeeId,
+        user_id: customer.id,
+        amount_due: toDecimal(billData.amount_due),
+        due_date: new Date(billData.due_date),
+        reference: billData.reference ?? null,
+      }),
+    );
+
+    return new Response(
+      JSON.stringify({
+        bill: {
+          id: bill.id,
+          payee_id: bill.payee_id,
+          amount_due: Money.from(bill.amount_due),
+          due_date: bill.due_date.toISOString(),
+          reference: bill.reference,
+          status: bill.status,
+          created_at: bill.created_at.toISOString(),
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 201,
+      },
+    );
+  } catch (error) {
+    console.error("Error presenting bill:", error);
+    return new Response(
+      JSON.stringify({
+        error: {
+          message: "Failed to present bill",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+}
@@ -12,6 +12,10 @@ const mockPrisma = {
     findFirst: vi.fn(),
     create: vi.fn(),
   },
+  routingDirectoryEntry: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+  },
   $transaction: vi.fn(),
 };
 
@@ -28,6 +32,16 @@ vi.mock("@/lib/auth", () => ({
 describe("Billpay Payees API", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockPrisma.routingDirectoryEntry.findUnique.mockResolvedValue({
+      routing_number: "121000358",
+      bank_name: "BANK OF AMERICA, N.A.",
+      city: "SAN FRANCISCO",
+      state: "CA",
+      new_routing_number: null,
+    });
+    mockPrisma.routingDirectoryEntry.findMany.mockResolvedValue([
+      { routing_number: "121000358", bank_name: "BANK OF AMERICA, N.A." },
+    ]);
   });
 
   describe("GET /api/billpay/payees", () => {
@@ -77,7 +91,7 @@ describe("Billpay Payees API", () => {
           postal_code: "94102",
           country: "United States",
           account_number: "1234567890",
-          routing_number: "123456789",
+          routing_number: "121000358",
           is_active: true,
         },
       ];
@@ -99,6 +113,7 @@ describe("Billpay Payees API", () => {
       expect(data.payees[0]).toMatchObject({
         id: 1,
         business_name: "Test Company",
+        bank_name: "BANK OF AMERICA, N.A.",
       });
     });
 
@@ -146,7 +161,7 @@ describe("Billpay Payees API", () => {
         postal_code: "94102",
         country: "United States",
         account_number: "1234567890",
-        routing_number: "123456789",
+        routing_number: "121000358",
         is_active: true,
       };
 
@@ -171,7 +186,7 @@ describe("Billpay Payees API", () => {
           state_or_territory: "CA",
           postal_code: "94102",
           account_number: "1234567890",
-          routing_number: "123456789",
+          routing_number: "121000358",
         }),
       });
 
@@ -182,6 +197,7 @@ describe("Billpay Payees API", () => {
       expect(data.payee).toMatchObject({
         id: 1,
         business_name: "Test Company",
+        bank_name: "BANK OF AMERICA, N.A.",
       });
     });
 
@@ -199,7 +215,7 @@ describe("Billpay Payees API", () => {
         postal_code: "94102",
         country: "United States",
         account_number: "1234567890",
-        routing_number: "123456789",
+        routing_number: "121000358",
         is_active: true,
       };
 
@@ -223,7 +239,7 @@ describe("Billpay Payees API", () => {
           state_or_territory: "CA",
           postal_code: "94102",
           account_number: "1234567890",
-          routing_number: "123456789",
+          routing_number: "121000358",
         }),
       });
 
@@ -239,7 +255,7 @@ describe("Billpay Payees API", () => {
       expect(mockPrisma.billPayPayee.create).not.toHaveBeenCalled();
     });
 
-    it("supports black hole - creates payee even if external account doesn't exist", async () => {
+    it("supports black hole - creates payee even if the account doesn't exist at its bank", async () => {
       const mockUser = { id: 1, username: "testuser" };
       const mockPayee = {
         id: 1,
@@ -253,7 +269,7 @@ describe("Billpay Payees API", () => {
         postal_code: "00000",
         country: "United States",
         account_number: "9999999999", // Fake account number
-        routing_number: "999999999", // Fake routing number
+        routing_number: "121000358",
         is_active: true,
       };
 
@@ -278,7 +294,7 @@ describe("Billpay Payees API", () => {
           state_or_territory: "CA",
           postal_code: "00000",
           account_number: "9999999999", // Fake account - black hole
-          routing_number: "999999999", // Fake routing - black hole
+          routing_number: "121000358",
         }),
       });
 
@@ -288,10 +304,43 @@ describe("Billpay Payees API", () => {
       expect(response.status).toBe(201);
       expect(data.payee).toMatchObject({
         account_number: "9999999999",
-        routing_number: "999999999",
+        routing_number: "121000358",
       });
-      // Should create payee even with fake account info (black hole)
+      // Should create payee even with a fake account number (black hole)
       expect(mockPrisma.billPayPayee.create).toHaveBeenCalled();
     });
+
+    it("returns 422 when the routing number is not in the routing directory", async () => {
+      vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+        ok: true,
+        supabaseUser: { id: "user-123" },
+      } as never);
+
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.routingDirectoryEntry.findUnique.mockResolvedValue(null);
+
+      const request = new Request("http://localhost:3000/api/billpay/payees", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          business_name: "Nonexistent Company",
+          email: "fake@example.com",
+          phone: "+1234567890",
+          street_address: "123 Fake St",
+          city: "Nowhere",
+          state_or_territory: "CA",
+          postal_code: "00000",
+          account_number: "9999999999",
+          routing_number: "999999992", // Passes the checksum but no bank has it
+        }),
+      });
+
+      const response = await POST(request);
+      const data = (await response.json()) as { error: string };
+
+      expect(response.status).toBe(422);
+      expect(data.error).toBe("Routing number is not in the routing directory");
+      expect(mockPrisma.billPayPayee.create).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,6 +1,8 @@
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { BillPayPayeeSchema } from "@/lib/schemas/billpay";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
+import { getBankNames, lookupRoutingNumber } from "@/app/lib/routing-directory";
 
 // Configure route segment
 export const dynamic = "force-dynamic";
@@ -31,11 +33,20 @@ export const revalidate = 0;
  *         description: User not onboarded
  *   post:
  *     summary: Create a new billpay payee
- *     description: Creates a new payee for billpay. Account validation is not required (black hole support)
+ *     description: |
+ *       Creates a new payee for billpay. The routing number must pass the ABA checksum and belong to a bank in the
+ *       routing directory; the account itself is not validated (black hole support).
  *     tags:
  *       - Billpay
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -88,6 +99,8 @@ export const revalidate = 0;
  *         description: User not onboarded
  *       409:
  *         description: Conflict - Payee already exists
+ *       422:
+ *         description: Invalid request body, or a routing number that is not in the routing directory
  *       500:
  *         description: Internal Server Error
  */
@@ -142,6 +155,11 @@ export async function GET(request: Request) {
       orderBy: { business_name: "asc" },
     });
 
+    const bankNames = await getBankNames(
+      getPrisma(),
+      payees.map((payee) => payee.routing_number),
+    );
+
     // Format response
     const formattedPayees = payees.map((payee) => ({
       id: payee.id,
@@ -156,6 +174,7 @@ export async function GET(request: Request) {
       country: payee.country,
       account_number: payee.account_number,
       routing_number: payee.routing_number,
+      bank_name: bankNames.get(payee.routing_number) ?? null,
       is_active: payee.is_active,
     }));
 
@@ -183,6 +202,12 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    createPayee(request),
+  );
+}
+
+async function createPayee(request: Request) {
   // Auth check
   const auth = await getAuthUserFromRequest(request);
   if (!auth.ok) {
@@ -238,6 +263,17 @@ export async function POST(request: Request) {
 
     const payeeData = parseResult.data;
 
+    const bank = await lookupRoutingNumber(
+      getPrisma(),
+      payeeData.routing_number,
+    );
+    if (!bank.ok) {
+      return new Response(JSON.stringify({ error: bank.error }), {
+        headers: { "Content-Type": "application/json" },
+        status: 422,
+      });
+    }
+
     // Check if payee already exists (by routing + account number)
     // Note: We allow creating payees even if account doesn't exist externally (black hole)
     const existingPayee = await getPrisma().billPayPayee.findFirst({
@@ -262,6 +298,7 @@ export async function POST(request: Request) {
         country: existingPayee.country,
         account_number: existingPayee.account_number,
         routing_number: existingPayee.routing_number,
+        bank_name: bank.bank_name,
         is_active: existingPayee.is_active,
       };
 
@@ -303,6 +340,7 @@ export async function POST(request: Request) {
       country: payee.country,
       account_number: payee.account_number,
       routing_number: payee.routing_number,
+      bank_name: bank.bank_name,
       is_active: payee.is_active,
     };
 
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GET } from "@/app/api/billpay/rules/[id]/history/route";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { Decimal } from "@prisma/client/runtime/library";
+
+// Mock the Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+  },
+  billPayRule: {
+    findUnique: vi.fn(),
+  },
+  transaction: {
+    count: vi.fn(),
+    findMany: vi.fn(),
+  },
+  billPayRuleEvent: {
+    findMany: vi.fn(),
+  },
+};
+
+// Mock the getPrisma function
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+// Mock auth helper
+vi.mock("@/lib/auth", () => ({
+  getAuthUserFromRequest: vi.fn(),
+}));
+
+const mockRule = {
+  id: 4,
+  user_id: 1,
+  amount: new Decimal("80.00"),
+  frequency: "0 9 15 * *",
+  start_time: new Date("2025-11-01T00:00:00Z"),
+  end_time: new Date("2026-03-01T00:00:00Z"),
+  status: "active",
+  skip_count: 1,
+  scheduled_job: { next_run_at: new Date("2026-01-15T09:00:00Z") },
+};
+
+function getHistory(query = "") {
+  return GET(
+    new Request(`http://localhost:3000/api/billpay/rules/4/history${query}`),
+    { params: Promise.resolve({ id: "4" }) },
+  );
+}
+
+describe("Billpay Rules API - GET /api/billpay/rules/[id]/history", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123" },
+    } as never);
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 1 });
+    mockPrisma.billPayRuleEvent.findMany.mockResolvedValue([]);
+  });
+
+  it("returns past payments with denial reasons and the next runs", async () => {
+    mockPrisma.billPayRule.findUnique.mockResolvedValue(mockRule);
+    mockPrisma.transaction.count.mockResolvedValue(2);
+    mockPrisma.transaction.findMany.mockResolvedValue([
+      {
+        id: 12,
+        created_at: new Date("2025-12-15T09:00:05Z"),
+        posted_at: null,
+        amount: new Decimal("-80.00"),
+        status: "denied",
+        denial_reason: "Insufficient funds",
+      },
+      {
+        id: 9,
+        created_at: new Date("2025-11-15T09:00:04Z"),
+        posted_at: new Date("2025-11-17T14:00:00Z"),
+        amount: new Decimal("-80.00"),
+        status: "approved",
+        denial_reason: null,
+      },
+    ]);
+    mockPrisma.billPayRuleEvent.findMany.mockResolvedValue([
+      {
+        id: 3,
+        event_type: "skip_requested",
+        skip_count: 1,
+        occurrence_at: null,
+        created_at: new Date("2025-12-20T10:00:00Z"),
+      },
+    ]);
+
+    const response = await getHistory("?upcoming=3");
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      executions: [
+        {
+          id: 12,
+          created_at: "2025-12-15T09:00:05.000Z",
+          posted_at: null,
+          amount: "-80.00",
+          status: "denied",
+          denial_reason: "Insufficient funds",
+        },
+        {
+          id: 9,
+          created_at: "2025-11-15T09:00:04.000Z",
+          posted_at: "2025-11-17T14:00:00.000Z",
+          amount: "-80.00",
+          status: "approved",
+          denial_reason: null,
+        },
+      ],
+      // The rule ends before its March run
+      upcoming_runs: ["2026-01-15T09:00:00.000Z", "2026-02-15T09:00:00.000Z"],
+      status: "active",
+      skip_count: 1,
+      events: [
+        {
+          id: 3,
+          event_type: "skip_requested",
+          skip_count: 1,
+          occurrence_at: null,
+          created_at: "2025-12-20T10:00:00.000Z",
+        },
+      ],
+      pagination: { page: 1, limit: 20, total: 2, total_pages: 1 },
+    });
+    expect(mockPrisma.transaction.findMany).toHaveBeenCalledWith({
+      where: { bill_pay_rule_id: 4 },
+      orderBy: { created_at: "desc" },
+      skip: 0,
+      take: 20,
+    });
+  });
+
+  it("returns no upcoming runs once the rule has finished", async () => {
+    mockPrisma.billPayRule.findUnique.mockResolvedValue({
+      ...mockRule,
+      scheduled_job: { next_run_at: null },
+    });
+    mockPrisma.transaction.count.mockResolvedValue(0);
+    mockPrisma.transaction.findMany.mockResolvedValue([]);
+
+    const response = await getHistory();
+    const data = (await response.json()) as { upcoming_runs: string[] };
+
+    expect(response.status).toBe(200);
+    expect(data.upcoming_runs).toEqual([]);
+  });
+
+  it("returns no upcoming runs while the rule is paused", async () => {
+    mockPrisma.billPayRule.findUnique.mockResolvedValue({
+      ...mockRule,
+      status: "paused",
+    });
+    mockPrisma.transaction.count.mockResolvedValue(0);
+    mockPrisma.transaction.findMany.mockResolvedValue([]);
+
+    const response = await getHistory();
+    const data = (await response.json()) as { upcoming_runs: string[] };
+
+    expect(data.upcoming_runs).toEqual([]);
+  });
+
+  it("returns 403 when the rule belongs to another user", async () => {
+    mockPrisma.billPayRule.findUnique.mockResolvedValue({
+      ...mockRule,
+      user_id: 2,
+    });
+
+    const response = await getHistory();
+
+    expect(response.status).toBe(403);
+    expect(mockPrisma.transaction.findMany).not.toHaveBeenCalled();
+  });
+
+  it("returns 422 for too many upcoming runs", async () => {
+    const response = await getHistory("?upcoming=100");
+
+    expect(response.status).toBe(422);
+    expect(mockPrisma.billPayRule.findUnique).not.toHaveBeenCalled();
+  });
+});
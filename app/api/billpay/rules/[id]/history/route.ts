@@ -0,0 +1,346 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { BillPayRuleHistoryQuerySchema } from "@/lib/schemas/billpay";
+import { Money } from "@/lib/money";
+import {
+  getUpcomingBillPayRuns,
+  getUpcomingStatementRuns,
+} from "@/app/lib/billpay";
+
+// Configure route segment
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Pauses, resumes and skips returned with the history
+const RECENT_EVENTS = 20;
+
+/**
+ * @swagger
+ * /api/billpay/rules/{id}/history:
+ *   get:
+ *     summary: Get a billpay rule's payment history and upcoming payments
+ *     description: Retrieves the payments a billpay rule has made, newest first and including denied payments with the reason they were denied, along with the dates of its next payments and its recent pauses, resumes and skips
+ *     tags:
+ *       - Billpay
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number for past payments
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of past payments per page
+ *       - in: query
+ *         name: upcoming
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 24
+ *           default: 5
+ *         description: Number of upcoming payment dates to compute
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved billpay rule history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 executions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *                       posted_at:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       amount:
+ *                         type: string
+ *                         description: Signed amount in dollars (negative for outbound)
+ *                         example: "-80.00"
+ *                       status:
+ *                         type: string
+ *                         enum: [pending, approved, denied, reversed, returned]
+ *                       denial_reason:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "Insufficient funds"
+ *                 upcoming_runs:
+ *                   type: array
+ *                   description: Empty while the rule is paused. The first skip_count runs will be skipped. For a statement_balance rule, the due dates of the open bills it will pay.
+ *                   items:
+ *                     type: string
+ *                     format: date-time
+ *                 status:
+ *                   type: string
+ *                   enum: [active, paused]
+ *                 skip_count:
+ *                   type: integer
+ *                   description: Upcoming payments that will be skipped
+ *                 events:
+ *                   type: array
+ *                   description: The rule's most recent pauses, resumes and skips, newest first
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       event_type:
+ *                         type: string
+ *                         enum: [paused, resumed, skip_requested, payment_skipped]
+ *                       skip_count:
+ *                         type: integer
+ *                         nullable: true
+ *                       occurrence_at:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     total:
+ *                       type: integer
+ *                     total_pages:
+ *                       type: integer
+ *       400:
+ *         description: Bad Request
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Rule does not belong to user
+ *       404:
+ *         description: User not onboarded or rule not found
+ *       422:
+ *         description: Unprocessable Entity - Invalid query parameters
+ *       500:
+ *         description: Internal Server Error
+ */
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  // Await params in Next.js 15
+  const { id } = await params;
+
+  // Auth check
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  // Get current user
+  const currentUser = await getPrisma().user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+  });
+
+  if (!currentUser) {
+    return new Response(
+      JSON.stringify({
+        error: { message: "User not onboarded" },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    const ruleId = parseInt(id, 10);
+    if (isNaN(ruleId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid rule ID",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Parse and validate query parameters
+    const url = new URL(request.url);
+    const queryParams = {
+      page: url.searchParams.get("page")
+        ? parseInt(url.searchParams.get("page")!)
+        : 1,
+      limit: url.searchParams.get("limit")
+        ? parseInt(url.searchParams.get("limit")!)
+        : 20,
+      upcoming: url.searchParams.get("upcoming")
+        ? parseInt(url.searchParams.get("upcoming")!)
+        : 5,
+    };
+
+    const parseResult = BillPayRuleHistoryQuerySchema.safeParse(queryParams);
+    if (!parseResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid query parameters",
+          details: parseResult.error.issues,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        },
+      );
+    }
+
+    const { page, limit, upcoming } = parseResult.data;
+
+    // Find rule and verify ownership
+    const rule = await getPrisma().billPayRule.findUnique({
+      where: { id: ruleId },
+      include: { scheduled_job: true },
+    });
+
+    if (!rule) {
+      return new Response(
+        JSON.stringify({
+          error: "Billpay rule not found",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 404,
+        },
+      );
+    }
+
+    if (rule.user_id !== currentUser.id) {
+      return new Response(
+        JSON.stringify({
+          error: "Forbidden: You do not have permission to view this rule",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 403,
+        },
+      );
+    }
+
+    // Get total count for pagination
+    const total = await getPrisma().transaction.count({
+      where: { bill_pay_rule_id: ruleId },
+    });
+
+    // Every payment the rule made, including the ones that were denied
+    const transactions = await getPrisma().transaction.findMany({
+      where: { bill_pay_rule_id: ruleId },
+      orderBy: { created_at: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const executions = transactions.map((transaction) => ({
+      id: transaction.id,
+      created_at: transaction.created_at.toISOString(),
+      posted_at: transaction.posted_at?.toISOString() || null,
+      amount: Money.from(transaction.amount), // Serialized as "-80.00"
+      status: transaction.status,
+      denial_reason: transaction.denial_reason,
+    }));
+
+    const events = await getPrisma().billPayRuleEvent.findMany({
+      where: { bill_pay_rule_id: ruleId },
+      orderBy: { created_at: "desc" },
+      take: RECENT_EVENTS,
+    });
+
+    // Preview from the run the scheduler is waiting for; rules it has not picked up yet start at their first run
+    const upcomingRuns =
+      rule.status === "paused"
+        ? []
+        : rule.mode === "statement_balance"
+          ? await getUpcomingStatementRuns(
+              getPrisma(),
+              rule,
+              upcoming,
+              rule.scheduled_job?.next_run_at ?? null,
+            )
+          : rule.scheduled_job
+            ? getUpcomingBillPayRuns(
+                { ...rule, frequency: rule.frequency! },
+                upcoming,
+                rule.scheduled_job.next_run_at,
+              )
+            : getUpcomingBillPayRuns(
+                { ...rule, frequency: rule.frequency! },
+                upcoming,
+              );
+
+    return new Response(
+      JSON.stringify({
+        executions,
+        upcoming_runs: upcomingRuns.map((run) => run.toISOString()),
+        status: rule.status,
+        skip_count: rule.skip_count,
+        events: events.map((event) => ({
+          id: event.id,
+          event_type: event.event_type,
+          skip_count: event.skip_count,
+          occurrence_at: event.occurrence_at?.toISOString() || null,
+          created_at: event.created_at.toISOString(),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          total_pages: Math.ceil(total / limit),
+        },
+      }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "private, no-cache, no-store, must-revalidate",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("Error fetching billpay rule history:", error);
+    return new Response(
+      JSON.stringify({
+        error: {
+          message: "Failed to fetch billpay rule history",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+}
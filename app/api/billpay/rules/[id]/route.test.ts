@@ -16,7 +16,6 @@ const mockPrisma = {
   billPayPayee: {
     findUnique: vi.fn(),
   },
-  $executeRawUnsafe: vi.fn(),
 };
 
 // Mock the getPrisma function
@@ -129,9 +128,12 @@ describe("Billpay Rules API - PUT /api/billpay/rules/[id]", () => {
       source_internal_id: 1,
       payee_id: 1,
       amount: new Decimal("100.00"),
+      mode: "fixed_amount",
       frequency: "0 9 * * *",
       start_time: new Date("2025-12-01T09:00:00Z"),
       end_time: null,
+      status: "active",
+      skip_count: 0,
       payee: { id: 1 },
       source_internal: { id: 1 },
     };
@@ -176,9 +178,12 @@ describe("Billpay Rules API - PUT /api/billpay/rules/[id]", () => {
       source_internal_id: 1,
       payee_id: 1,
       amount: new Decimal("100.00"),
+      mode: "fixed_amount",
       frequency: "0 9 * * *",
       start_time: new Date("2025-12-01T09:00:00Z"),
       end_time: null,
+      status: "active",
+      skip_count: 0,
       payee: { id: 1 },
       source_internal: { id: 1 },
     };
@@ -210,12 +215,12 @@ describe("Billpay Rules API - PUT /api/billpay/rules/[id]", () => {
     expect(response.status).toBe(200);
     expect(data.rule).toMatchObject({
       id: 1,
-      amount: 150,
+      amount: "150.00",
     });
     expect(mockPrisma.billPayRule.update).toHaveBeenCalled();
   });
 
-  it("successfully updates rule frequency and reschedules cron", async () => {
+  it("successfully updates rule frequency and reschedules its next payment", async () => {
     const mockUser = {
       id: 1,
       username: "testuser",
@@ -233,9 +238,12 @@ describe("Billpay Rules API - PUT /api/billpay/rules/[id]", () => {
       source_internal_id: 1,
       payee_id: 1,
       amount: new Decimal("100.00"),
+      mode: "fixed_amount",
       frequency: "0 9 * * *",
       start_time: new Date("2025-12-01T09:00:00Z"),
       end_time: null,
+      status: "active",
+      skip_count: 0,
       payee: { id: 1 },
       source_internal: { id: 1 },
     };
@@ -253,7 +261,6 @@ describe("Billpay Rules API - PUT /api/billpay/rules/[id]", () => {
     mockPrisma.user.findUnique.mockResolvedValue(mockUser);
     mockPrisma.billPayRule.findUnique.mockResolvedValue(mockRule);
     mockPrisma.billPayRule.update.mockResolvedValue(updatedRule);
-    mockPrisma.$executeRawUnsafe.mockResolvedValue(undefined);
 
     const request = new Request("http://localhost:3000/api/billpay/rules/1", {
       method: "PUT",
@@ -270,8 +277,57 @@ describe("Billpay Rules API - PUT /api/billpay/rules/[id]", () => {
       id: 1,
       frequency: "0 10 * * *",
     });
-    // Should unschedule old cron and schedule new one
-    expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledTimes(2);
+    // Should move the rule's job on to the next run of the new frequency
+    const { data: updateData } = mockPrisma.billPayRule.update.mock.calls[0][0];
+    const nextRunAt: Date = updateData.scheduled_job.upsert.update.next_run_at;
+    expect(nextRunAt.getUTCHours()).toBe(10);
+    expect(nextRunAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("keeps a paused rule off the schedule when its frequency changes", async () => {
+    const mockRule = {
+      id: 1,
+      user_id: 1,
+      source_internal_id: 1,
+      payee_id: 1,
+      amount: new Decimal("100.00"),
+      mode: "fixed_amount",
+      frequency: "0 9 * * *",
+      start_time: new Date("2025-12-01T09:00:00Z"),
+      end_time: null,
+      status: "paused",
+      skip_count: 0,
+      payee: { id: 1 },
+      source_internal: { id: 1 },
+    };
+
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123" },
+    } as never);
+
+    mockPrisma.user.findUnique.mockResolvedValue({
+      id: 1,
+      internal_accounts: [{ id: 1, is_active: true }],
+    });
+    mockPrisma.billPayRule.findUnique.mockResolvedValue(mockRule);
+    mockPrisma.billPayRule.update.mockResolvedValue({
+      ...mockRule,
+      frequency: "0 10 * * *",
+    });
+
+    const request = new Request("http://localhost:3000/api/billpay/rules/1", {
+      method: "PUT",
+      body: JSON.stringify({ frequency: "0 10 * * *" }),
+    });
+
+    const response = await PUT(request, {
+      params: Promise.resolve({ id: "1" }),
+    });
+
+    expect(response.status).toBe(200);
+    const { data: updateData } = mockPrisma.billPayRule.update.mock.calls[0][0];
+    expect(updateData).toEqual({ frequency: "0 10 * * *" });
   });
 
   it("returns 400 when source account is inactive", async () => {
@@ -292,9 +348,12 @@ describe("Billpay Rules API - PUT /api/billpay/rules/[id]", () => {
       source_internal_id: 1,
       payee_id: 1,
       amount: new Decimal("100.00"),
+      mode: "fixed_amount",
       frequency: "0 9 * * *",
       start_time: new Date("2025-12-01T09:00:00Z"),
       end_time: null,
+      status: "active",
+      skip_count: 0,
       payee: { id: 1 },
       source_internal: { id: 1 },
     };
@@ -339,9 +398,12 @@ describe("Billpay Rules API - PUT /api/billpay/rules/[id]", () => {
       source_internal_id: 1,
       payee_id: 1,
       amount: new Decimal("100.00"),
+      mode: "fixed_amount",
       frequency: "0 9 * * *",
       start_time: new Date("2025-12-01T09:00:00Z"),
       end_time: null,
+      status: "active",
+      skip_count: 0,
       payee: { id: 1 },
       source_internal: { id: 1 },
     };
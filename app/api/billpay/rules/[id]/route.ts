@@ -2,54 +2,20 @@ import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { BillPayRuleUpdateSchema } from "@/lib/schemas/billpay";
 import { Decimal } from "@prisma/client/runtime/library";
+import { toDecimal } from "@/app/lib/transactions";
+import { Money } from "@/lib/money";
+import { getRuleFirstRunAt } from "@/app/lib/billpay";
 
 // Configure route segment
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-/**
- * Helper function to unschedule a pg_cron job for a billpay rule
- */
-async function unscheduleCronJob(ruleId: number): Promise<void> {
-  const prisma = getPrisma();
-  const jobName = `billpay_rule_${ruleId}`;
-
-  try {
-    await prisma.$executeRawUnsafe(`SELECT cron.unschedule($1::text)`, jobName);
-  } catch (error) {
-    // If job doesn't exist, that's okay - just log it
-    console.warn(`Failed to unschedule cron job ${jobName}:`, error);
-  }
-}
-
-/**
- * Helper function to schedule a pg_cron job for a billpay rule
- */
-async function scheduleCronJob(
-  ruleId: number,
-  frequency: string,
-): Promise<void> {
-  const prisma = getPrisma();
-  const jobName = `billpay_rule_${ruleId}`;
-
-  // Schedule the cron job to call the process_billpay_rule function
-  // Note: This assumes the function exists in the database (created via migration)
-  // pg_cron.schedule(job_name, schedule, command)
-  // Use parameterized query to prevent SQL injection
-  await prisma.$executeRawUnsafe(
-    `SELECT cron.schedule($1, $2, $3)`,
-    jobName,
-    frequency,
-    `SELECT process_billpay_rule(${ruleId})`,
-  );
-}
-
 /**
  * @swagger
  * /api/billpay/rules/{id}:
  *   put:
  *     summary: Update a billpay rule
- *     description: Updates a billpay rule and reschedules its cron job if frequency changes
+ *     description: Updates a billpay rule and reschedules its next payment if the schedule changes
  *     tags:
  *       - Billpay
  *     security:
@@ -73,8 +39,13 @@ async function scheduleCronJob(
  *                 type: integer
  *               amount:
  *                 type: string
+ *                 description: Fixed amount rules only
  *               frequency:
  *                 type: string
+ *                 description: Fixed amount rules only
+ *               max_amount:
+ *                 type: string
+ *                 description: Statement balance rules only. The largest bill the rule pays.
  *               start_time:
  *                 type: string
  *               end_time:
@@ -90,11 +61,13 @@ async function scheduleCronJob(
  *         description: User not onboarded or rule not found
  *       403:
  *         description: Forbidden - Rule does not belong to user
+ *       422:
+ *         description: Unprocessable Entity - Invalid request body, an amount or frequency for a statement balance rule, or a maximum amount for a fixed amount rule
  *       500:
  *         description: Internal Server Error
  *   delete:
  *     summary: Delete a billpay rule
- *     description: Deletes a billpay rule and unschedules its cron job
+ *     description: Deletes a billpay rule and its scheduled payments
  *     tags:
  *       - Billpay
  *     security:
@@ -227,6 +200,35 @@ export async function PUT(
 
     const updateData = parseResult.data;
 
+    if (
+      rule.mode === "statement_balance" &&
+      (updateData.amount !== undefined || updateData.frequency !== undefined)
+    ) {
+      return new Response(
+        JSON.stringify({
+          error:
+            "A statement balance rule pays each bill's amount due on its due date; it has no amount or frequency",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        },
+      );
+    }
+
+    if (rule.mode === "fixed_amount" && updateData.max_amount !== undefined) {
+      return new Response(
+        JSON.stringify({
+          error:
+            "A fixed amount rule pays its amount; it has no maximum amount",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        },
+      );
+    }
+
     // Validate source account if being updated
     if (updateData.source_account_id !== undefined) {
       const sourceAccount = currentUser.internal_accounts.find(
@@ -314,10 +316,42 @@ export async function PUT(
       );
     }
 
-    // Determine if frequency is changing (need to reschedule cron)
-    const frequencyChanged =
-      updateData.frequency !== undefined &&
-      updateData.frequency !== rule.frequency;
+    // Recompute the next payment whenever the schedule changes. A statement balance rule pays its payee's bills up
+    // to its maximum, so a new payee or maximum changes its schedule too.
+    const maxAmount =
+      updateData.max_amount !== undefined
+        ? toDecimal(updateData.max_amount)
+        : rule.max_amount;
+    const scheduleChanged =
+      updateData.frequency !== undefined ||
+      updateData.start_time !== undefined ||
+      updateData.end_time !== undefined ||
+      (rule.mode === "statement_balance" &&
+        (updateData.payee_id !== undefined ||
+          updateData.max_amount !== undefined));
+    const nextRunAt = scheduleChanged
+      ? await getRuleFirstRunAt(getPrisma(), {
+          user_id: rule.user_id,
+          payee_id: updateData.payee_id ?? rule.payee_id,
+          mode: rule.mode,
+          frequency: updateData.frequency ?? rule.frequency,
+          max_amount: maxAmount,
+          start_time: startTime,
+          end_time: endTime,
+        })
+      : null;
+    // A statement balance rule with no bills left waits for the payee to present one
+    if (scheduleChanged && rule.mode === "fixed_amount" && !nextRunAt) {
+      return new Response(
+        JSON.stringify({
+          error: "Frequency does not run between start time and end time",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
 
     // Prepare update data
     const updatePayload: {
@@ -325,6 +359,7 @@ export async function PUT(
       payee_id?: number;
       amount?: Decimal;
       frequency?: string;
+      max_amount?: Decimal | null;
       start_time?: Date;
       end_time?: Date | null;
     } = {};
@@ -338,14 +373,17 @@ export async function PUT(
     }
 
     if (updateData.amount !== undefined) {
-      // Convert amount from cents to dollars for database storage
-      updatePayload.amount = new Decimal(updateData.amount / 100);
+      updatePayload.amount = toDecimal(updateData.amount);
     }
 
     if (updateData.frequency !== undefined) {
       updatePayload.frequency = updateData.frequency;
     }
 
+    if (updateData.max_amount !== undefined) {
+      updatePayload.max_amount = maxAmount;
+    }
+
     if (updateData.start_time !== undefined) {
       updatePayload.start_time = startTime;
     }
@@ -357,40 +395,41 @@ export async function PUT(
     // Update the rule
     const updatedRule = await getPrisma().billPayRule.update({
       where: { id: ruleId },
-      data: updatePayload,
+      data: {
+        ...updatePayload,
+        // A paused rule stays off the schedule until it is resumed
+        ...(scheduleChanged &&
+          rule.status === "active" && {
+            scheduled_job: {
+              upsert: {
+                create: { job_type: "billpay_rule", next_run_at: nextRunAt },
+                update: { next_run_at: nextRunAt },
+              },
+            },
+          }),
+      },
       include: {
         payee: true,
         source_internal: true,
       },
     });
 
-    // Reschedule cron job if frequency changed
-    if (frequencyChanged) {
-      // Unschedule old cron job
-      await unscheduleCronJob(ruleId);
-
-      // Schedule new cron job
-      try {
-        await scheduleCronJob(ruleId, updateData.frequency!);
-      } catch (error) {
-        console.error(
-          `Failed to reschedule cron job for rule ${ruleId}:`,
-          error,
-        );
-        // Continue even if cron scheduling fails - rule is still updated
-      }
-    }
-
     // Format response
     const formattedRule = {
       id: updatedRule.id,
       user_id: updatedRule.user_id,
       source_internal_id: updatedRule.source_internal_id,
       payee_id: updatedRule.payee_id,
-      amount: Number(updatedRule.amount),
+      mode: updatedRule.mode,
+      amount: updatedRule.amount ? Money.from(updatedRule.amount) : null,
       frequency: updatedRule.frequency,
+      max_amount: updatedRule.max_amount
+        ? Money.from(updatedRule.max_amount)
+        : null,
       start_time: updatedRule.start_time.toISOString(),
       end_time: updatedRule.end_time?.toISOString() || null,
+      status: updatedRule.status,
+      skip_count: updatedRule.skip_count,
     };
 
     return new Response(JSON.stringify({ rule: formattedRule }), {
@@ -490,10 +529,7 @@ export async function DELETE(
       );
     }
 
-    // Unschedule cron job first
-    await unscheduleCronJob(ruleId);
-
-    // Delete the rule
+    // Delete the rule; its scheduled job goes with it
     await getPrisma().billPayRule.delete({
       where: { id: ruleId },
     });
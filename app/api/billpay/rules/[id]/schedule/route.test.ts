@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/billpay/rules/[id]/schedule/route";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { Decimal } from "@prisma/client/runtime/library";
+
+// Mock the Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+  },
+  billPayRule: {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  },
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  $transaction: vi.fn(async (fn: any) => fn(mockPrisma)),
+};
+
+// Mock the getPrisma function
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+// Mock auth helper
+vi.mock("@/lib/auth", () => ({
+  getAuthUserFromRequest: vi.fn(),
+}));
+
+const mockRule = {
+  id: 4,
+  user_id: 1,
+  source_internal_id: 1,
+  payee_id: 6,
+  amount: new Decimal("80.00"),
+  frequency: "0 9 15 * *",
+  start_time: new Date("2025-11-01T00:00:00Z"),
+  end_time: null,
+  status: "active",
+  skip_count: 0,
+};
+
+function postAction(body: unknown) {
+  return POST(
+    new Request("http://localhost:3000/api/billpay/rules/4/schedule", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: "4" }) },
+  );
+}
+
+describe("Billpay Rules API - POST /api/billpay/rules/[id]/schedule", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123" },
+    } as never);
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 1 });
+    mockPrisma.billPayRule.update.mockImplementation(async ({ data }) => ({
+      ...mockRule,
+      ...data,
+    }));
+  });
+
+  it("pauses a rule and records the pause", async () => {
+    mockPrisma.billPayRule.findUnique.mockResolvedValue(mockRule);
+
+    const response = await postAction({ action: "pause" });
+    const data = (await response.json()) as { rule: { status: string } };
+
+    expect(response.status).toBe(200);
+    expect(data.rule.status).toBe("paused");
+    expect(mockPrisma.billPayRule.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: expect.objectContaining({
+        status: "paused",
+        events: { create: { event_type: "paused" } },
+      }),
+    });
+  });
+
+  it("skips one payment when no count is given", async () => {
+    mockPrisma.billPayRule.findUnique.mockResolvedValue(mockRule);
+
+    const response = await postAction({ action: "skip" });
+
+    expect(response.status).toBe(200);
+    expect(mockPrisma.billPayRule.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: expect.objectContaining({ skip_count: { increment: 1 } }),
+    });
+  });
+
+  it("returns 409 when resuming a rule that is not paused", async () => {
+    mockPrisma.billPayRule.findUnique.mockResolvedValue(mockRule);
+
+    const response = await postAction({ action: "resume" });
+    const data = (await response.json()) as { error: string };
+
+    expect(response.status).toBe(409);
+    expect(data).toEqual({ error: "Bill pay rule is not paused" });
+    expect(mockPrisma.billPayRule.update).not.toHaveBeenCalled();
+  });
+
+  it("returns 403 when the rule belongs to another user", async () => {
+    mockPrisma.billPayRule.findUnique.mockResolvedValue({
+      ...mockRule,
+      user_id: 2,
+    });
+
+    const response = await postAction({ action: "pause" });
+
+    expect(response.status).toBe(403);
+    expect(mockPrisma.billPayRule.update).not.toHaveBeenCalled();
+  });
+
+  it("returns 422 for an unknown action", async () => {
+    const response = await postAction({ action: "cancel" });
+
+    expect(response.status).toBe(422);
+    expect(mockPrisma.billPayRule.findUnique).not.toHaveBeenCalled();
+  });
+});
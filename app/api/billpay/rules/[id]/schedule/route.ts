@@ -0,0 +1,223 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { BillPayRuleActionSchema } from "@/lib/schemas/billpay";
+import { Money } from "@/lib/money";
+import { applyBillPayRuleAction } from "@/app/lib/billpay";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
+
+// Configure route segment
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/billpay/rules/{id}/schedule:
+ *   post:
+ *     summary: Pause, resume or skip payments of a billpay rule
+ *     description: |
+ *       Pausing stops a rule's payments until it is resumed. Resuming puts the rule back on its schedule at its next
+ *       payment; payments it missed while paused are not made. Skipping skips the rule's next `count` payments.
+ *       Each action is recorded and shown in the rule's history.
+ *     tags:
+ *       - Billpay
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - action
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [pause, resume, skip]
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 12
+ *                 default: 1
+ *                 description: Number of payments to skip (skip only)
+ *     responses:
+ *       200:
+ *         description: Billpay rule updated successfully
+ *       400:
+ *         description: Bad Request
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Rule does not belong to user
+ *       404:
+ *         description: User not onboarded or rule not found
+ *       409:
+ *         description: Conflict - Rule is already paused (pause) or not paused (resume)
+ *       422:
+ *         description: Unprocessable Entity - Invalid request body
+ *       500:
+ *         description: Internal Server Error
+ */
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    updateBillPayRuleSchedule(request, context),
+  );
+}
+
+async function updateBillPayRuleSchedule(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  // Await params in Next.js 15
+  const { id } = await params;
+
+  // Auth check
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  // Get current user
+  const currentUser = await getPrisma().user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+  });
+
+  if (!currentUser) {
+    return new Response(
+      JSON.stringify({
+        error: { message: "User not onboarded" },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    const ruleId = parseInt(id, 10);
+    if (isNaN(ruleId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid rule ID",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Parse and validate request body
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch (error) {
+      console.error("Error parsing JSON body:", error);
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        headers: { "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    const parseResult = BillPayRuleActionSchema.safeParse(raw);
+    if (!parseResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request body",
+          details: parseResult.error.issues,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        },
+      );
+    }
+
+    const result = await getPrisma().$transaction(async (tx) => {
+      // Find rule and verify ownership
+      const rule = await tx.billPayRule.findUnique({
+        where: { id: ruleId },
+      });
+
+      if (!rule) {
+        return { status: 404, body: { error: "Billpay rule not found" } };
+      }
+
+      if (rule.user_id !== currentUser.id) {
+        return {
+          status: 403,
+          body: {
+            error: "Forbidden: You do not have permission to update this rule",
+          },
+        };
+      }
+
+      const applied = await applyBillPayRuleAction(tx, rule, parseResult.data);
+      if (!applied.ok) {
+        return { status: 409, body: { error: applied.error } };
+      }
+
+      const updatedRule = applied.rule;
+      return {
+        status: 200,
+        body: {
+          rule: {
+            id: updatedRule.id,
+            user_id: updatedRule.user_id,
+            source_internal_id: updatedRule.source_internal_id,
+            payee_id: updatedRule.payee_id,
+            mode: updatedRule.mode,
+            amount: updatedRule.amount ? Money.from(updatedRule.amount) : null,
+            frequency: updatedRule.frequency,
+            max_amount: updatedRule.max_amount
+              ? Money.from(updatedRule.max_amount)
+              : null,
+            start_time: updatedRule.start_time.toISOString(),
+            end_time: updatedRule.end_time?.toISOString() || null,
+            status: updatedRule.status,
+            skip_count: updatedRule.skip_count,
+          },
+        },
+      };
+    });
+
+    return new Response(JSON.stringify(result.body), {
+      headers: { "Content-Type": "application/json" },
+      status: result.status,
+    });
+  } catch (error) {
+    console.error("Error updating billpay rule schedule:", error);
+    return new Response(
+      JSON.stringify({
+        error: {
+          message: "Failed to update billpay rule schedule",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+}
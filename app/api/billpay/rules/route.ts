@@ -1,34 +1,16 @@
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { BillPayRuleCreateSchema } from "@/lib/schemas/billpay";
-import { Decimal } from "@prisma/client/runtime/library";
+import { toDecimal } from "@/app/lib/transactions";
+import { Money } from "@/lib/money";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
+import { getFirstBillPayRunAt, getRuleFirstRunAt } from "@/app/lib/billpay";
+import { lookupRoutingNumber } from "@/app/lib/routing-directory";
 
 // Configure route segment
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-/**
- * Helper function to schedule a pg_cron job for a billpay rule
- */
-async function scheduleCronJob(
-  ruleId: number,
-  frequency: string,
-): Promise<void> {
-  const prisma = getPrisma();
-  const jobName = `billpay_rule_${ruleId}`;
-
-  // Schedule the cron job to call the process_billpay_rule function
-  // Note: This assumes the function exists in the database (created via migration)
-  // pg_cron.schedule(job_name, schedule, command)
-  // Use parameterized query to prevent SQL injection
-  await prisma.$executeRawUnsafe(
-    `SELECT cron.schedule($1, $2, $3)`,
-    jobName,
-    frequency,
-    `SELECT process_billpay_rule(${ruleId})`,
-  );
-}
-
 /**
  * @swagger
  * /api/billpay/rules:
@@ -48,11 +30,21 @@ async function scheduleCronJob(
  *         description: User not onboarded
  *   post:
  *     summary: Create a new billpay rule
- *     description: Creates a new billpay rule with cron scheduling
+ *     description: |
+ *       Creates a new billpay rule and schedules its first payment. A fixed_amount rule pays `amount` on its
+ *       `frequency`. A statement_balance rule has no amount or frequency; it pays each bill the payee presents on
+ *       its due date, up to `max_amount`. A larger bill is left open for the customer to pay.
  *     tags:
  *       - Billpay
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -61,8 +53,6 @@ async function scheduleCronJob(
  *             type: object
  *             required:
  *               - source_account_id
- *               - amount
- *               - frequency
  *               - start_time
  *             properties:
  *               source_account_id:
@@ -71,10 +61,19 @@ async function scheduleCronJob(
  *                 type: integer
  *               payee:
  *                 type: object
+ *               mode:
+ *                 type: string
+ *                 enum: [fixed_amount, statement_balance]
+ *                 default: fixed_amount
  *               amount:
  *                 type: string
+ *                 description: Required for fixed_amount rules
  *               frequency:
  *                 type: string
+ *                 description: Required for fixed_amount rules
+ *               max_amount:
+ *                 type: string
+ *                 description: Required for statement_balance rules. The largest bill the rule pays.
  *               start_time:
  *                 type: string
  *               end_time:
@@ -88,6 +87,8 @@ async function scheduleCronJob(
  *         description: Unauthorized
  *       404:
  *         description: User not onboarded
+ *       422:
+ *         description: Invalid request body, or a new payee's routing number is not in the routing directory
  *       500:
  *         description: Internal Server Error
  */
@@ -136,10 +137,14 @@ export async function GET(request: Request) {
       user_id: rule.user_id,
       source_internal_id: rule.source_internal_id,
       payee_id: rule.payee_id,
-      amount: Number(rule.amount), // Convert Decimal to number
+      mode: rule.mode,
+      amount: rule.amount ? Money.from(rule.amount) : null,
       frequency: rule.frequency,
+      max_amount: rule.max_amount ? Money.from(rule.max_amount) : null,
       start_time: rule.start_time.toISOString(),
       end_time: rule.end_time?.toISOString() || null,
+      status: rule.status,
+      skip_count: rule.skip_count,
     }));
 
     return new Response(JSON.stringify({ rules: formattedRules }), {
@@ -166,6 +171,12 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    createBillPayRule(request),
+  );
+}
+
+async function createBillPayRule(request: Request) {
   // Auth check
   const auth = await getAuthUserFromRequest(request);
   if (!auth.ok) {
@@ -251,6 +262,20 @@ export async function POST(request: Request) {
       );
     }
 
+    // A new payee's routing number must belong to a bank in the routing directory
+    if (ruleData.payee) {
+      const bank = await lookupRoutingNumber(
+        getPrisma(),
+        ruleData.payee.routing_number,
+      );
+      if (!bank.ok) {
+        return new Response(JSON.stringify({ error: bank.error }), {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        });
+      }
+    }
+
     // Validate start_time is in the future
     const startTime = new Date(ruleData.start_time);
     if (startTime <= new Date()) {
@@ -266,23 +291,37 @@ export async function POST(request: Request) {
     }
 
     // Validate end_time is after start_time if provided
-    if (ruleData.end_time) {
-      const endTime = new Date(ruleData.end_time);
-      if (endTime <= startTime) {
-        return new Response(
-          JSON.stringify({
-            error: "End time must be after start time",
-          }),
-          {
-            headers: { "Content-Type": "application/json" },
-            status: 400,
-          },
-        );
-      }
+    const endTime = ruleData.end_time ? new Date(ruleData.end_time) : null;
+    if (endTime && endTime <= startTime) {
+      return new Response(
+        JSON.stringify({
+          error: "End time must be after start time",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
     }
 
-    // Convert amount from cents to dollars for database storage
-    const amountInDollars = new Decimal(ruleData.amount / 100);
+    if (
+      ruleData.mode === "fixed_amount" &&
+      !getFirstBillPayRunAt({
+        frequency: ruleData.frequency!,
+        start_time: startTime,
+        end_time: endTime,
+      })
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: "Frequency does not run between start time and end time",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
 
     // Create rule and payee (if needed) in a transaction
     const result = await getPrisma().$transaction(async (tx) => {
@@ -333,44 +372,47 @@ export async function POST(request: Request) {
         throw new Error("Either payee_id or payee data is required");
       }
 
-      // Create billpay rule
+      const schedule = {
+        user_id: currentUser.id,
+        payee_id: payeeId,
+        mode: ruleData.mode,
+        frequency: ruleData.frequency ?? null,
+        max_amount: ruleData.max_amount ? toDecimal(ruleData.max_amount) : null,
+        start_time: startTime,
+        end_time: endTime,
+      };
+      // A statement balance rule with no bills yet waits for the payee to present one
+      const nextRunAt = await getRuleFirstRunAt(tx, schedule);
+
+      // Create billpay rule along with the job the scheduler runs it from
       const rule = await tx.billPayRule.create({
         data: {
-          user_id: currentUser.id,
+          ...schedule,
           source_internal_id: ruleData.source_account_id,
-          payee_id: payeeId,
-          amount: amountInDollars,
-          frequency: ruleData.frequency,
-          start_time: startTime,
-          end_time: ruleData.end_time ? new Date(ruleData.end_time) : null,
+          amount: ruleData.amount ? toDecimal(ruleData.amount) : null,
+          scheduled_job: {
+            create: { job_type: "billpay_rule", next_run_at: nextRunAt },
+          },
         },
       });
 
       return rule;
     });
 
-    // Schedule cron job for this rule
-    try {
-      await scheduleCronJob(result.id, ruleData.frequency);
-    } catch (error) {
-      console.error(
-        `Failed to schedule cron job for rule ${result.id}:`,
-        error,
-      );
-      // Continue even if cron scheduling fails - rule is still created
-      // User can manually trigger or retry cron setup later
-    }
-
     // Format response
     const formattedRule = {
       id: result.id,
       user_id: result.user_id,
       source_internal_id: result.source_internal_id,
       payee_id: result.payee_id,
-      amount: Number(result.amount),
+      mode: result.mode,
+      amount: result.amount ? Money.from(result.amount) : null,
       frequency: result.frequency,
+      max_amount: result.max_amount ? Money.from(result.max_amount) : null,
       start_time: result.start_time.toISOString(),
       end_time: result.end_time?.toISOString() || null,
+      status: result.status,
+      skip_count: result.skip_count,
     };
 
     return new Response(JSON.stringify({ rule: formattedRule }), {
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import { POST } from "./route";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { postTransfer } from "@/app/lib/ledger";
+
+// Every deposit is read by the local check OCR provider, from its embedded fixtures (see check-ocr-local.ts)
+const mockPrisma = {
+  internalAccount: {
+    findUnique: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  transaction: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+    aggregate: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  transactionLimit: { findMany: vi.fn() },
+  userTransactionLimit: { findMany: vi.fn() },
+  checkReview: { create: vi.fn() },
+  duplicateCheckHit: { create: vi.fn() },
+  fundsHold: { create: vi.fn() },
+  $queryRaw: vi.fn(),
+  $executeRaw: vi.fn(),
+  $transaction: vi.fn(),
+};
+
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+vi.mock("@/lib/auth", () => ({
+  getAuthUserFromRequest: vi.fn(),
+}));
+
+vi.mock("@/app/lib/ledger", () => ({
+  postTransfer: vi.fn(),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidateTag: vi.fn(),
+}));
+
+const DEPOSITED_AT = new Date("2025-12-10T15:00:00Z");
+
+const account = {
+  id: 7,
+  user_id: 2,
+  account_number: "1234567890",
+  account_type: "checking",
+  is_active: true,
+  created_at: new Date("2024-01-15T00:00:00Z"),
+  user: { auth_user_id: "user-123" },
+};
+
+// An uploaded image, named after the local fixture it is read from
+function imageUrl(side: "front" | "back", fixture: string) {
+  return `https://storage.example.com/checks/2/1765378800000-${side}-${fixture}.jpg`;
+}
+
+function depositRequest(body: Record<string, unknown>) {
+  return POST(
+    new Request("http://localhost:3000/api/checks/deposit", {
+      method: "POST",
+      body: JSON.stringify({
+        check_image_url: imageUrl("front", "sample-check-front"),
+        check_back_image_url: imageUrl("back", "sample-check-back"),
+        amount: "250.00",
+        destination_account_number: "1234567890",
+        ...body,
+      }),
+    }),
+  );
+}
+
+describe("POST /api/checks/deposit", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.CHECK_OCR_PROVIDER = "local";
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123" },
+    } as never);
+    mockPrisma.$transaction.mockImplementation(async (fn) => fn(mockPrisma));
+    mockPrisma.internalAccount.findUnique.mockResolvedValue(account);
+    mockPrisma.internalAccount.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.transaction.findFirst.mockResolvedValue(null);
+    mockPrisma.transaction.findMany.mockResolvedValue([]);
+    // The customer has had a check deposit posted before
+    mockPrisma.transaction.count.mockResolvedValue(1);
+    mockPrisma.transaction.aggregate.mockResolvedValue({
+      _sum: { amount: null },
+    });
+    mockPrisma.transaction.create.mockImplementation(async ({ data }) => ({
+      id: 70,
+      created_at: DEPOSITED_AT,
+      ...data,
+    }));
+    mockPrisma.transaction.update.mockResolvedValue({});
+    mockPrisma.transactionLimit.findMany.mockResolvedValue([]);
+    mockPrisma.userTransactionLimit.findMany.mockResolvedValue([]);
+    mockPrisma.checkReview.create.mockResolvedValue({ id: 12 });
+    mockPrisma.duplicateCheckHit.create.mockResolvedValue({ id: 3 });
+    mockPrisma.fundsHold.create.mockResolvedValue({ id: 5 });
+    mockPrisma.$queryRaw.mockResolvedValue([]);
+    mockPrisma.$executeRaw.mockResolvedValue(1);
+    vi.mocked(postTransfer).mockResolvedValue({
+      ok: true,
+      journal_entry: { id: 90 },
+    } as never);
+  });
+
+  afterEach(() => {
+    delete process.env.CHECK_OCR_PROVIDER;
+  });
+
+  it("posts the deposit and holds its funds until the check clears", async () => {
+    const response = await depositRequest({});
+    const data = (await response.json()) as {
+      availability: { amount: string; available_at: string }[];
+    };
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      transaction_id: 70,
+      transaction_status: "approved",
+      amount: "250.00",
+      validation_result: {
+        extracted_amount: "250.00",
+        entered_amount: "250.00",
+        endorsement: "For Mobile Deposit Only",
+        check_number: "1042",
+      },
+    });
+    expect(data.availability.map((tranche) => tranche.amount)).toEqual([
+      "225.00",
+      "25.00",
+    ]);
+    expect(postTransfer).toHaveBeenCalledWith(mockPrisma, {
+      from: { system_account: "check_clearing" },
+      to: { internal_account_id: 7 },
+      amount: new Decimal(250),
+      description: "Check deposit",
+    });
+    expect(mockPrisma.fundsHold.create).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+      where: { id: 70 },
+      data: expect.objectContaining({
+        check_number: "1042",
+        external_routing_number: "121000358",
+        external_account_number: "000123456789",
+      }),
+    });
+    expect(mockPrisma.checkReview.create).not.toHaveBeenCalled();
+  });
+
+  it("sends a large check to a manager's review without posting it", async () => {
+    const response = await depositRequest({
+      check_image_url: imageUrl("front", "sample-check-front-large"),
+      amount: "7500.00",
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      transaction_id: 70,
+      transaction_status: "pending",
+      under_review: true,
+      amount: "7500.00",
+    });
+    expect(mockPrisma.checkReview.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        transaction_id: 70,
+        reasons: ["large_amount"],
+      }),
+    });
+    expect(postTransfer).not.toHaveBeenCalled();
+    expect(mockPrisma.fundsHold.create).not.toHaveBeenCalled();
+  });
+
+  it("denies a check that has already been deposited", async () => {
+    mockPrisma.transaction.findMany.mockResolvedValue([
+      {
+        id: 40,
+        external_routing_number: "121000358",
+        external_account_number: "000123456789",
+        check_number: "1042",
+      },
+    ]);
+
+    const response = await depositRequest({});
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      status: "Check deposit denied",
+      error: "Conflict: This check has already been deposited",
+      transaction_id: 70,
+    });
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: "denied",
+        denial_reason: "Duplicate check",
+      }),
+    });
+    expect(mockPrisma.duplicateCheckHit.create).toHaveBeenCalledWith({
+      data: { transaction_id: 70, original_transaction_id: 40, match: "exact" },
+    });
+    expect(postTransfer).not.toHaveBeenCalled();
+  });
+
+  it("sends a check for review when its amount is not the one entered", async () => {
+    const response = await depositRequest({ amount: "260.00" });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      under_review: true,
+      amount: "250.00",
+      validation_result: {
+        extracted_amount: "250.00",
+        entered_amount: "260.00",
+      },
+    });
+    expect(mockPrisma.checkReview.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        reasons: ["amount_mismatch"],
+        extracted_amount: new Decimal(250),
+        entered_amount: new Decimal(260),
+      }),
+    });
+    expect(postTransfer).not.toHaveBeenCalled();
+  });
+
+  it("denies a check that is not signed on the back", async () => {
+    const response = await depositRequest({
+      check_back_image_url: imageUrl("back", "sample-check-back-unsigned"),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      status: "Check deposit denied",
+      error: "Check is not endorsed",
+      transaction_id: 70,
+    });
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: "denied",
+        amount: new Decimal(250),
+        denial_reason: "Check is not endorsed",
+      }),
+    });
+    expect(postTransfer).not.toHaveBeenCalled();
+  });
+
+  it("rejects a deposit without an image of the back of the check", async () => {
+    const response = await depositRequest({
+      check_back_image_url: undefined,
+    });
+    const data = (await response.json()) as {
+      error: string;
+      details: { path: string[] }[];
+    };
+
+    expect(response.status).toBe(422);
+    expect(data.error).toBe("Invalid request body");
+    expect(data.details[0].path).toEqual(["check_back_image_url"]);
+    expect(mockPrisma.internalAccount.findUnique).not.toHaveBeenCalled();
+    expect(mockPrisma.transaction.create).not.toHaveBeenCalled();
+  });
+});
@@ -2,33 +2,75 @@ import { getAuthUserFromRequest } from "@/lib/auth";
 import { getPrisma } from "@/app/lib/prisma";
 import {
   json,
-  createDeniedTransaction,
   createApprovedTransaction,
+  createDeniedTransaction,
+  createPendingTransaction,
   findExistingTransaction,
+  toDecimal,
 } from "@/app/lib/transactions";
 import {
   extractCheckDataFromImage,
+  extractEndorsementFromImage,
   validateExtractedCheck,
-  getPresignedUrl,
+  getCheckImageUrl,
 } from "@/app/lib/checks";
+import {
+  classifyEndorsement,
+  MOBILE_DEPOSIT_ENDORSEMENT,
+} from "@/app/lib/check-endorsements";
+import { postTransfer } from "@/app/lib/ledger";
+import {
+  getCheckAvailability,
+  holdCheckDeposit,
+} from "@/app/lib/funds-availability";
+import {
+  getCheckReviewReasons,
+  openCheckReview,
+} from "@/app/lib/check-reviews";
+import {
+  findDuplicateCheck,
+  normalizeMicrLine,
+  recordDuplicateCheck,
+} from "@/app/lib/duplicate-checks";
+import {
+  checkTransactionLimits,
+  limitExceededResponse,
+} from "@/app/lib/limits";
 import { Decimal } from "@prisma/client/runtime/library";
 import { z } from "zod";
+import { Money, MoneySchema } from "@/lib/money";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-const CheckDepositSchema = z.object({
-  check_image_url: z.string().url("Invalid check image URL"),
-  destination_account_number: z.string().min(1, "Account number required"),
-  idempotency_key: z.string().optional(),
-});
+const CheckDepositSchema = z
+  .object({
+    check_image_url: z.string().url("Invalid check image URL"),
+    check_back_image_url: z.string().url("Invalid check back image URL"),
+    amount: MoneySchema, // As entered by the customer
+    destination_account_number: z.string().min(1, "Account number required"),
+    idempotency_key: z.string().optional(),
+  })
+  .refine((data) => data.check_image_url !== data.check_back_image_url, {
+    message: "The front and back of the check must be different images",
+    path: ["check_back_image_url"],
+  });
 
 /**
  * @swagger
  * /api/checks/deposit:
  *   post:
  *     summary: Process check deposit
- *     description: Extracts check data using Groq Vision API, validates it, and creates a deposit transaction
+ *     description: |
+ *       Extracts check data from the front image and the endorsement from the back image using Groq Vision API,
+ *       validates them, and posts the deposit to the account. The funds are held and become available on the schedule
+ *       returned in `availability`: part the next business day, the rest after a few business days, and later for new
+ *       accounts and large checks. A check that is not signed on the back, or whose MICR line (routing, account and
+ *       check number) and amount match an earlier deposit by any customer, is denied. A large check, a customer's first
+ *       check, a check with an unreadable MICR line, a partial match for an earlier deposit, a check whose amount is not
+ *       the `amount` entered, or one not endorsed "For Mobile Deposit Only" is accepted as pending (`under_review`) and
+ *       posts only once a manager approves it.
  *     tags:
  *       - Check Deposits
  *     security:
@@ -39,7 +81,7 @@ const CheckDepositSchema = z.object({
  *         schema:
  *           type: string
  *         required: false
- *         description: Optional idempotency key to prevent duplicate transaction processing
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -48,12 +90,22 @@ const CheckDepositSchema = z.object({
  *             type: object
  *             required:
  *               - check_image_url
+ *               - check_back_image_url
+ *               - amount
  *               - destination_account_number
  *             properties:
  *               check_image_url:
  *                 type: string
  *                 format: uri
- *                 description: URL of the check image (from upload endpoint or Supabase storage)
+ *                 description: URL of the image of the front of the check (from upload endpoint or Supabase storage)
+ *               check_back_image_url:
+ *                 type: string
+ *                 format: uri
+ *                 description: URL of the image of the back of the check, signed and endorsed "For Mobile Deposit Only"
+ *               amount:
+ *                 type: string
+ *                 example: "125.50"
+ *                 description: The amount of the check, as entered by the customer
  *               destination_account_number:
  *                 type: string
  *                 description: Account number to deposit funds into
@@ -72,22 +124,49 @@ const CheckDepositSchema = z.object({
  *                   type: string
  *                 transaction_id:
  *                   type: integer
+ *                 transaction_status:
+ *                   type: string
+ *                   example: approved
+ *                 under_review:
+ *                   type: boolean
+ *                   description: Set when the deposit is pending a manager's review; availability is given once it is approved
+ *                 availability:
+ *                   type: array
+ *                   description: When the deposited funds become available, earliest first
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       amount:
+ *                         type: string
+ *                         example: "225.00"
+ *                       available_at:
+ *                         type: string
+ *                         format: date-time
  *                 amount:
- *                   type: number
+ *                   type: string
+ *                   example: "125.50"
  *                 validation_result:
  *                   type: object
  *       400:
- *         description: Bad Request - Invalid image URL or extraction failed
+ *         description: Bad Request - Invalid image URL, extraction failed, or the check is not endorsed
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Account inactive or check validation failed
+ *         description: Forbidden - Account inactive, check validation failed, or the daily check deposit limit would be exceeded (the response includes limit_type, limit, remaining and resets_at)
  *       404:
  *         description: Account not found
+ *       409:
+ *         description: Conflict - The check has already been deposited
  *       500:
  *         description: Internal Server Error
  */
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    depositCheck(request),
+  );
+}
+
+async function depositCheck(request: Request) {
   try {
     // Authenticate user
     const auth = await getAuthUserFromRequest(request);
@@ -113,6 +192,8 @@ export async function POST(request: Request) {
 
     const {
       check_image_url,
+      check_back_image_url,
+      amount: enteredMoney,
       destination_account_number,
       idempotency_key: bodyIdempotencyKey,
     } = parseResult.data;
@@ -144,25 +225,7 @@ export async function POST(request: Request) {
     }
 
     // Generate pre-signed URL if needed (for private Supabase buckets)
-    // For now, we'll try to use the URL directly, and if it fails, we'll generate a signed URL
-    let imageUrlForGroq = check_image_url;
-    try {
-      // Check if URL is a Supabase storage URL and might need signing
-      if (check_image_url.includes("supabase.co/storage")) {
-        // Try to extract path from URL
-        const urlParts = check_image_url.split(
-          "/storage/v1/object/public/checks/",
-        );
-        if (urlParts.length > 1) {
-          const filePath = urlParts[1];
-          // Generate signed URL for better access
-          imageUrlForGroq = await getPresignedUrl(filePath, 3600);
-        }
-      }
-    } catch (error) {
-      // If signing fails, use original URL
-      console.warn("Failed to generate signed URL, using original:", error);
-    }
+    const imageUrlForGroq = await getCheckImageUrl(check_image_url, 3600);
 
     // Extract check data using Groq Vision API
     const extractionResult = await extractCheckDataFromImage(imageUrlForGroq);
@@ -191,11 +254,12 @@ export async function POST(request: Request) {
           idempotency_key,
         });
 
-        // Update transaction with check_image_url
+        // Update transaction with the check images
         await tx.transaction.update({
           where: { id: deniedTransaction.id },
           data: {
             check_image_url: check_image_url,
+            check_back_image_url: check_back_image_url,
             check_number: extractionResult.success
               ? extractionResult.data.check_number
                 ? extractionResult.data.check_number.slice(0, 12)
@@ -224,6 +288,54 @@ export async function POST(request: Request) {
     }
 
     const amount = new Decimal(extractedData.amount.toString());
+    const entered_amount = toDecimal(enteredMoney);
+    const micr = normalizeMicrLine(extractedData);
+    const checkColumns = {
+      check_image_url,
+      check_back_image_url,
+      check_number: micr.check_number,
+      external_routing_number: micr.routing_number,
+      external_account_number: micr.account_number,
+    };
+
+    // Read the endorsement from the back of the check
+    const endorsementResult = await extractEndorsementFromImage(
+      await getCheckImageUrl(check_back_image_url, 3600),
+    );
+    if (!endorsementResult.success) {
+      return json(400, {
+        error: endorsementResult.error || "Failed to process check back image",
+        message:
+          endorsementResult.error ||
+          "The back of the check could not be read. Please upload a clear image of the back of the check.",
+      });
+    }
+
+    const endorsement = classifyEndorsement(endorsementResult.data);
+    if (endorsement === "missing") {
+      // Create denied transaction for tracking purposes
+      return await prisma.$transaction(async (tx) => {
+        const deniedTransaction = await createDeniedTransaction(tx, {
+          internal_account_id: account.id,
+          amount,
+          transaction_type: "deposit",
+          direction: "inbound",
+          idempotency_key,
+          denial_reason: "Check is not endorsed",
+        });
+        await tx.transaction.update({
+          where: { id: deniedTransaction.id },
+          data: checkColumns,
+        });
+
+        return json(400, {
+          status: "Check deposit denied",
+          error: "Check is not endorsed",
+          message: `Sign the back of the check and write "${MOBILE_DEPOSIT_ENDORSEMENT}" under your signature, then deposit it again.`,
+          transaction_id: deniedTransaction.id,
+        });
+      });
+    }
 
     // Create deposit transaction
     const transactionResult = await prisma.$transaction(async (tx) => {
@@ -239,17 +351,117 @@ export async function POST(request: Request) {
         return {
           status: "Deposit already processed (idempotency key found)",
           transaction_id: existing.id,
-          amount: Math.round(Number(amount)),
+          amount: Money.from(amount),
         };
       }
 
-      // Update account balance
-      await tx.internalAccount.update({
-        where: { id: account.id },
-        data: { balance: { increment: amount } },
+      // The same check may already have been deposited, here or at another customer's account
+      const duplicate = await findDuplicateCheck(tx, micr, amount);
+      if (duplicate?.match === "exact") {
+        const deniedTransaction = await createDeniedTransaction(tx, {
+          internal_account_id: account.id,
+          amount,
+          transaction_type: "deposit",
+          direction: "inbound",
+          idempotency_key,
+          denial_reason: "Duplicate check",
+        });
+        await tx.transaction.update({
+          where: { id: deniedTransaction.id },
+          data: checkColumns,
+        });
+        await recordDuplicateCheck(tx, deniedTransaction.id, duplicate);
+        return { duplicate_denied: deniedTransaction };
+      }
+
+      const limitCheck = await checkTransactionLimits(
+        tx,
+        account,
+        "check_deposit",
+        amount,
+      );
+      if (!limitCheck.ok) {
+        const deniedTransaction = await createDeniedTransaction(tx, {
+          internal_account_id: account.id,
+          amount,
+          transaction_type: "deposit",
+          direction: "inbound",
+          idempotency_key,
+        });
+        await tx.transaction.update({
+          where: { id: deniedTransaction.id },
+          data: {
+            check_image_url,
+            check_back_image_url,
+            check_number: micr.check_number,
+          },
+        });
+        return { limit_exceeded: limitCheck };
+      }
+
+      const validation_result = {
+        extracted_amount: Money.from(amount),
+        entered_amount: enteredMoney,
+        endorsement: endorsementResult.data.endorsement_text,
+        routing_number: extractedData.routing_number,
+        account_number: extractedData.account_number,
+        check_number: extractedData.check_number,
+        payee_name: extractedData.payee_name,
+        payor_name: extractedData.payor_name,
+      };
+
+      // Deposits that trip a review rule wait, unposted, for a manager's decision
+      const reviewReasons = await getCheckReviewReasons(tx, {
+        user_id: account.user_id,
+        amount,
+        entered_amount,
+        micr,
+        duplicate,
+        endorsement,
+      });
+      if (reviewReasons.length > 0) {
+        const pending = await createPendingTransaction(tx, {
+          internal_account_id: account.id,
+          amount,
+          transaction_type: "deposit",
+          direction: "inbound",
+          idempotency_key,
+        });
+        await tx.transaction.update({
+          where: { id: pending.transaction.id },
+          data: checkColumns,
+        });
+        if (duplicate) {
+          await recordDuplicateCheck(tx, pending.transaction.id, duplicate);
+        }
+        await openCheckReview(tx, pending.transaction.id, {
+          reasons: reviewReasons,
+          extracted_amount: amount,
+          entered_amount,
+          endorsement: endorsementResult.data.endorsement_text,
+          payee_name: extractedData.payee_name,
+          payor_name: extractedData.payor_name,
+        });
+
+        return {
+          status:
+            "Check deposit received and is being reviewed. You will see the outcome on this deposit once it has been decided.",
+          transaction_id: pending.transaction.id,
+          transaction_status: pending.transaction.status,
+          under_review: true,
+          amount: Money.from(amount),
+          validation_result,
+        };
+      }
+
+      // The deposit posts now, but its funds are held until the check has had time to clear
+      const posting = await postTransfer(tx, {
+        from: { system_account: "check_clearing" },
+        to: { internal_account_id: account.id },
+        amount,
+        description: "Check deposit",
       });
 
-      // Create approved transaction
       const result = await createApprovedTransaction(
         tx,
         {
@@ -258,47 +470,51 @@ export async function POST(request: Request) {
           transaction_type: "deposit",
           direction: "inbound",
           idempotency_key,
+          journal_entry_id: posting.journal_entry.id,
         },
-        "Check deposit successful",
+        "Deposit already processed",
       );
 
-      if (!result.transaction) {
-        throw new Error("Failed to create transaction");
-      }
+      const availability = getCheckAvailability(
+        amount,
+        account.created_at,
+        result.transaction.created_at,
+      );
+      await holdCheckDeposit(tx, result.transaction, availability);
 
       // Update transaction with check-specific data
       await tx.transaction.update({
         where: { id: result.transaction.id },
-        data: {
-          check_image_url: check_image_url,
-          check_number: extractedData.check_number
-            ? extractedData.check_number.slice(0, 12)
-            : null,
-          external_routing_number: extractedData.routing_number
-            ? extractedData.routing_number.slice(0, 9)
-            : null,
-          external_account_number: extractedData.account_number
-            ? extractedData.account_number.slice(0, 17)
-            : null,
-        },
+        data: checkColumns,
       });
 
       return {
-        status: result.duplicate ? result.message : "Check deposit successful",
+        status:
+          "Check deposit received. Funds will become available as the check clears.",
         transaction_id: result.transaction.id,
-        amount: Math.round(Number(amount)),
-        validation_result: {
-          extracted_amount: extractedData.amount,
-          routing_number: extractedData.routing_number,
-          account_number: extractedData.account_number,
-          check_number: extractedData.check_number,
-          payee_name: extractedData.payee_name,
-          payor_name: extractedData.payor_name,
-        },
+        transaction_status: result.transaction.status,
+        availability: availability.map((tranche) => ({
+          amount: Money.from(tranche.amount),
+          available_at: tranche.available_at.toISOString(),
+        })),
+        amount: Money.from(amount),
+        validation_result,
       };
     });
 
-    // Invalidate cache after successful deposit (balance changed)
+    if (transactionResult.limit_exceeded) {
+      return limitExceededResponse(transactionResult.limit_exceeded);
+    }
+
+    if (transactionResult.duplicate_denied) {
+      return json(409, {
+        status: "Check deposit denied",
+        error: "Conflict: This check has already been deposited",
+        transaction_id: transactionResult.duplicate_denied.id,
+      });
+    }
+
+    // Invalidate cache after successful deposit (balance and holds changed)
     const { revalidateTag } = await import("next/cache");
     await revalidateTag(`user-${auth.supabaseUser.id}`);
     await revalidateTag(`transactions-${auth.supabaseUser.id}`);
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import { GET } from "./route";
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+
+vi.mock("@/app/lib/prisma");
+vi.mock("@/lib/auth");
+
+describe("GET /api/checks/holds", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+    },
+    fundsHold: {
+      findMany: vi.fn(),
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPrisma).mockReturnValue(
+      mockPrisma as unknown as ReturnType<typeof getPrisma>,
+    );
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123", email: "test@example.com" },
+    });
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 2 });
+  });
+
+  it("should return 401 if not authenticated", async () => {
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: false,
+      status: 401,
+      body: { message: "Unauthorized" },
+    });
+
+    const response = await GET(
+      new Request("http://localhost/api/checks/holds"),
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it("should list the user's check deposit holds with their release dates", async () => {
+    mockPrisma.fundsHold.findMany.mockResolvedValue([
+      {
+        id: 5,
+        transaction_id: 99,
+        amount: new Decimal(225),
+        release_at: new Date("2025-12-08T15:00:00Z"),
+        internal_account: { account_number: "1234567890" },
+      },
+    ]);
+
+    const response = await GET(
+      new Request("http://localhost/api/checks/holds"),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      holds: [
+        {
+          id: 5,
+          transaction_id: 99,
+          account_number: "1234567890",
+          amount: "225.00",
+          available_at: "2025-12-08T15:00:00.000Z",
+        },
+      ],
+    });
+    expect(mockPrisma.fundsHold.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: "active",
+          release_at: { not: null },
+          internal_account: { user_id: 2 },
+        },
+      }),
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { json } from "@/app/lib/transactions";
+import { Money } from "@/lib/money";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/checks/holds:
+ *   get:
+ *     summary: List check deposit funds on hold
+ *     description: |
+ *       Lists the funds from the user's check deposits that are not available yet, with the date each amount becomes
+ *       available, earliest first. Holds come off automatically on their release date.
+ *     tags:
+ *       - Check Deposits
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Funds on hold
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 holds:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       transaction_id:
+ *                         type: integer
+ *                       account_number:
+ *                         type: string
+ *                       amount:
+ *                         type: string
+ *                         example: "225.00"
+ *                       available_at:
+ *                         type: string
+ *                         format: date-time
+ *       401:
+ *         description: Unauthorized - Invalid or missing authentication token
+ *       404:
+ *         description: User not found
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await getAuthUserFromRequest(request);
+    if (!auth.ok) {
+      return new Response(JSON.stringify(auth.body), {
+        status: auth.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const prisma = getPrisma();
+
+    const user = await prisma.user.findUnique({
+      where: { auth_user_id: auth.supabaseUser.id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return json(404, { error: "User not found" });
+    }
+
+    // Only check deposit holds have a release date; the rest last until their transaction settles
+    const holds = await prisma.fundsHold.findMany({
+      where: {
+        status: "active",
+        release_at: { not: null },
+        internal_account: { user_id: user.id },
+      },
+      select: {
+        id: true,
+        transaction_id: true,
+        amount: true,
+        release_at: true,
+        internal_account: { select: { account_number: true } },
+      },
+      orderBy: [{ release_at: "asc" }, { id: "asc" }],
+    });
+
+    return json(200, {
+      holds: holds.map((hold) => ({
+        id: hold.id,
+        transaction_id: hold.transaction_id,
+        account_number: hold.internal_account.account_number,
+        amount: Money.from(hold.amount),
+        available_at: hold.release_at?.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching check holds:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import { GET } from "./route";
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+
+vi.mock("@/app/lib/prisma");
+vi.mock("@/lib/auth");
+
+describe("GET /api/checks/reviews", () => {
+  const mockPrisma = {
+    user: {
+      findUnique: vi.fn(),
+    },
+    checkReview: {
+      findMany: vi.fn(),
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPrisma).mockReturnValue(
+      mockPrisma as unknown as ReturnType<typeof getPrisma>,
+    );
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123", email: "test@example.com" },
+    });
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 2 });
+  });
+
+  it("should return 401 if not authenticated", async () => {
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: false,
+      status: 401,
+      body: { message: "Unauthorized" },
+    });
+
+    const response = await GET(
+      new Request("http://localhost/api/checks/reviews"),
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 if the user does not exist", async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+
+    const response = await GET(
+      new Request("http://localhost/api/checks/reviews"),
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it("should list the user's check deposit reviews with their outcomes", async () => {
+    mockPrisma.checkReview.findMany.mockResolvedValue([
+      {
+        id: 4,
+        transaction_id: 43,
+        status: "approved",
+        extracted_amount: new Decimal(7500),
+        approved_amount: new Decimal(750),
+        rejection_reason: null,
+        created_at: new Date("2025-12-21T15:00:00Z"),
+        decided_at: new Date("2025-12-21T18:00:00Z"),
+        transaction: { internal_account: { account_number: "1234567890" } },
+      },
+      {
+        id: 3,
+        transaction_id: 42,
+        status: "open",
+        extracted_amount: new Decimal(6000),
+        approved_amount: null,
+        rejection_reason: null,
+        created_at: new Date("2025-12-20T15:00:00Z"),
+        decided_at: null,
+        transaction: { internal_account: { account_number: "1234567890" } },
+      },
+    ]);
+
+    const response = await GET(
+      new Request("http://localhost/api/checks/reviews"),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      reviews: [
+        {
+          id: 4,
+          transaction_id: 43,
+          account_number: "1234567890",
+          status: "approved",
+          amount: "7500.00",
+          approved_amount: "750.00",
+          rejection_reason: null,
+          submitted_at: "2025-12-21T15:00:00.000Z",
+          decided_at: "2025-12-21T18:00:00.000Z",
+        },
+        {
+          id: 3,
+          transaction_id: 42,
+          account_number: "1234567890",
+          status: "open",
+          amount: "6000.00",
+          approved_amount: null,
+          rejection_reason: null,
+          submitted_at: "2025-12-20T15:00:00.000Z",
+          decided_at: null,
+        },
+      ],
+    });
+    expect(mockPrisma.checkReview.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { transaction: { internal_account: { user_id: 2 } } },
+      }),
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { json } from "@/app/lib/transactions";
+import { Money } from "@/lib/money";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/checks/reviews:
+ *   get:
+ *     summary: List check deposits sent for review
+ *     description: |
+ *       Lists the user's 20 most recent check deposits that went to a manager's review, with the outcome: still under
+ *       review, approved (possibly at an adjusted amount) or rejected with a reason.
+ *     tags:
+ *       - Check Deposits
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Check deposits sent for review, most recent first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reviews:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       transaction_id:
+ *                         type: integer
+ *                       account_number:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [open, approved, rejected]
+ *                       amount:
+ *                         type: string
+ *                         description: The amount read from the check
+ *                         example: "7500.00"
+ *                       approved_amount:
+ *                         type: string
+ *                         nullable: true
+ *                         example: "750.00"
+ *                       rejection_reason:
+ *                         type: string
+ *                         nullable: true
+ *                       submitted_at:
+ *                         type: string
+ *                         format: date-time
+ *                       decided_at:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *       401:
+ *         description: Unauthorized - Invalid or missing authentication token
+ *       404:
+ *         description: User not found
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await getAuthUserFromRequest(request);
+    if (!auth.ok) {
+      return new Response(JSON.stringify(auth.body), {
+        status: auth.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const prisma = getPrisma();
+
+    const user = await prisma.user.findUnique({
+      where: { auth_user_id: auth.supabaseUser.id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return json(404, { error: "User not found" });
+    }
+
+    const reviews = await prisma.checkReview.findMany({
+      where: { transaction: { internal_account: { user_id: user.id } } },
+      select: {
+        id: true,
+        transaction_id: true,
+        status: true,
+        extracted_amount: true,
+        approved_amount: true,
+        rejection_reason: true,
+        created_at: true,
+        decided_at: true,
+        transaction: {
+          select: { internal_account: { select: { account_number: true } } },
+        },
+      },
+      orderBy: { id: "desc" },
+      take: 20,
+    });
+
+    return json(200, {
+      reviews: reviews.map((review) => ({
+        id: review.id,
+        transaction_id: review.transaction_id,
+        account_number: review.transaction.internal_account.account_number,
+        status: review.status,
+        amount: Money.from(review.extracted_amount),
+        approved_amount:
+          review.approved_amount === null
+            ? null
+            : Money.from(review.approved_amount),
+        rejection_reason: review.rejection_reason,
+        submitted_at: review.created_at.toISOString(),
+        decided_at: review.decided_at?.toISOString() ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching check reviews:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
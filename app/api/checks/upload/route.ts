@@ -1,6 +1,12 @@
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { json } from "@/app/lib/transactions";
-import { uploadCheckToSupabase, ALLOWED_MIME_TYPES } from "@/app/lib/checks";
+import {
+  uploadCheckToSupabase,
+  ALLOWED_MIME_TYPES,
+  CHECK_IMAGE_SIDES,
+  type CheckImageSide,
+} from "@/app/lib/checks";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -12,11 +18,18 @@ const MAX_FILE_SIZE = 4 * 1024 * 1024; // 4MB
  * /api/checks/upload:
  *   post:
  *     summary: Upload check image
- *     description: Uploads a check image to Supabase Storage and returns the URL
+ *     description: Uploads an image of the front or back of a check to Supabase Storage and returns the URL. A deposit needs both.
  *     tags:
  *       - Check Deposits
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -29,6 +42,11 @@ const MAX_FILE_SIZE = 4 * 1024 * 1024; // 4MB
  *               file:
  *                 type: string
  *                 format: binary
+ *               side:
+ *                 type: string
+ *                 enum: [front, back]
+ *                 default: front
+ *                 description: Which side of the check the image shows
  *     responses:
  *       200:
  *         description: Image uploaded successfully
@@ -41,14 +59,23 @@ const MAX_FILE_SIZE = 4 * 1024 * 1024; // 4MB
  *                   type: string
  *                 upload_id:
  *                   type: string
+ *                 side:
+ *                   type: string
+ *                   enum: [front, back]
  *       400:
- *         description: Bad Request - Invalid file or missing file
+ *         description: Bad Request - Invalid file, missing file or invalid side
  *       401:
  *         description: Unauthorized
  *       413:
  *         description: File too large
  */
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    uploadCheck(request),
+  );
+}
+
+async function uploadCheck(request: Request) {
   try {
     // Authenticate user
     const auth = await getAuthUserFromRequest(request);
@@ -64,6 +91,13 @@ export async function POST(request: Request) {
       return json(400, { error: "No file provided" });
     }
 
+    const side = formData.get("side") ?? "front";
+    if (!CHECK_IMAGE_SIDES.includes(side as CheckImageSide)) {
+      return json(400, {
+        error: `Invalid side. Allowed sides: ${CHECK_IMAGE_SIDES.join(", ")}`,
+      });
+    }
+
     // Validate file type
     if (!ALLOWED_MIME_TYPES.includes(file.type)) {
       return json(400, {
@@ -84,11 +118,13 @@ export async function POST(request: Request) {
       file,
       auth.supabaseUser.id,
       authHeader || undefined,
+      side as CheckImageSide,
     );
 
     return json(200, {
       image_url: url,
       upload_id: path,
+      side,
     });
   } catch (error) {
     console.error("Error uploading check image:", error);
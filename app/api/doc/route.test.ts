@@ -114,7 +114,7 @@ describe("API Documentation Route", () => {
     expect(examples.billpay).toBeDefined();
     expect(examples.internal_transfer).toBeDefined();
     expect(examples.external_outbound).toBeDefined();
-    expect(examples.external_inbound).toBeDefined();
+    expect(examples.external_inbound).toBeUndefined();
   });
 
   it("should document all HTTP response codes for transactions POST", async () => {
@@ -131,7 +131,6 @@ describe("API Documentation Route", () => {
     expect(postEndpoint.responses["409"]).toBeDefined();
     expect(postEndpoint.responses["422"]).toBeDefined();
     expect(postEndpoint.responses["500"]).toBeDefined();
-    expect(postEndpoint.responses["502"]).toBeDefined();
   });
 
   it("should document Idempotency-Key header for transactions", async () => {
@@ -45,6 +45,7 @@ const swaggerSpec = createSwaggerSpec({
                 "billpay",
                 "internal_transfer",
                 "external_transfer",
+                "interest",
               ],
             },
             direction: {
@@ -53,7 +54,27 @@ const swaggerSpec = createSwaggerSpec({
             },
             status: {
               type: "string",
-              enum: ["approved", "denied"],
+              enum: ["pending", "approved", "denied", "reversed", "returned"],
+            },
+            posted_at: { type: "string", format: "date-time", nullable: true },
+            reversal_of_id: { type: "integer", nullable: true },
+            reversal_reason: {
+              type: "string",
+              nullable: true,
+              enum: [
+                "duplicate",
+                "posted_in_error",
+                "fraud",
+                "customer_dispute",
+                "other",
+                "ach_return",
+              ],
+            },
+            ach_return_code: {
+              type: "string",
+              nullable: true,
+              description:
+                "NACHA return reason code (R01, R03, ...) when the receiving bank returned the payment",
             },
             created_at: { type: "string", format: "date-time" },
           },
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { GET } from "./route";
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+
+vi.mock("@/app/lib/prisma");
+vi.mock("@/lib/auth");
+
+describe("GET /api/routing-numbers/[routing_number]", () => {
+  const mockPrisma = {
+    routingDirectoryEntry: {
+      findUnique: vi.fn(),
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPrisma).mockReturnValue(
+      mockPrisma as unknown as ReturnType<typeof getPrisma>,
+    );
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123", email: "test@example.com" },
+    });
+  });
+
+  it("should return 401 if not authenticated", async () => {
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: false,
+      status: 401,
+      body: { message: "Unauthorized" },
+    });
+
+    const request = new Request(
+      "http://localhost/api/routing-numbers/021000021",
+    );
+
+    const response = await GET(request, {
+      params: Promise.resolve({ routing_number: "021000021" }),
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it("should return the bank for a routing number in the directory", async () => {
+    mockPrisma.routingDirectoryEntry.findUnique.mockResolvedValue({
+      routing_number: "021000021",
+      bank_name: "JPMORGAN CHASE BANK, NA",
+      city: "TAMPA",
+      state: "FL",
+      new_routing_number: null,
+    });
+
+    const request = new Request(
+      "http://localhost/api/routing-numbers/021000021",
+    );
+
+    const response = await GET(request, {
+      params: Promise.resolve({ routing_number: "021000021" }),
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      routing_number: "021000021",
+      bank_name: "JPMORGAN CHASE BANK, NA",
+      city: "TAMPA",
+      state: "FL",
+    });
+  });
+
+  it("should return 404 for a routing number that fails the checksum", async () => {
+    const request = new Request(
+      "http://localhost/api/routing-numbers/123456789",
+    );
+
+    const response = await GET(request, {
+      params: Promise.resolve({ routing_number: "123456789" }),
+    });
+    expect(response.status).toBe(404);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toBe("Routing number is not valid");
+    expect(mockPrisma.routingDirectoryEntry.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for a routing number not in the directory", async () => {
+    mockPrisma.routingDirectoryEntry.findUnique.mockResolvedValue(null);
+
+    const request = new Request(
+      "http://localhost/api/routing-numbers/999999992",
+    );
+
+    const response = await GET(request, {
+      params: Promise.resolve({ routing_number: "999999992" }),
+    });
+    expect(response.status).toBe(404);
+    const data = (await response.json()) as { error: string };
+    expect(data.error).toBe("Routing number is not in the routing directory");
+  });
+});
@@ -0,0 +1,80 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { json } from "@/app/lib/transactions";
+import { lookupRoutingNumber } from "@/app/lib/routing-directory";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/routing-numbers/{routing_number}:
+ *   get:
+ *     summary: Look up a routing number
+ *     description: |
+ *       Checks a routing number's ABA check digit and finds the bank it belongs to in the routing directory. Use it to
+ *       show the bank's name while an external account or payee is being entered.
+ *     tags:
+ *       - Transfers
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: routing_number
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: "^[0-9]{9}$"
+ *         description: The 9-digit ABA routing number
+ *     responses:
+ *       200:
+ *         description: The bank the routing number belongs to
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 routing_number:
+ *                   type: string
+ *                 bank_name:
+ *                   type: string
+ *                 city:
+ *                   type: string
+ *                 state:
+ *                   type: string
+ *       401:
+ *         description: Unauthorized - Invalid or missing authentication token
+ *       404:
+ *         description: Routing number is not valid or not in the routing directory
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ routing_number: string }> },
+) {
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      status: auth.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { routing_number } = await params;
+
+  try {
+    const lookup = await lookupRoutingNumber(getPrisma(), routing_number);
+    if (!lookup.ok) {
+      return json(404, { error: lookup.error });
+    }
+
+    return json(200, {
+      routing_number: lookup.routing_number,
+      bank_name: lookup.bank_name,
+      city: lookup.city,
+      state: lookup.state,
+    });
+  } catch (error) {
+    console.error("Error looking up routing number:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
@@ -0,0 +1,137 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { json } from "@/app/lib/transactions";
+import { verifyStatementDownload } from "@/app/lib/statements";
+import type { StatementLine, StatementTypeTotals } from "@/app/lib/statements";
+import { renderStatementPdf } from "@/app/lib/statement-pdf";
+import type { TransactionTypeEnum } from "@prisma/client";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/statements/{id}/pdf:
+ *   get:
+ *     summary: Download a statement PDF
+ *     description: |
+ *       Returns a monthly statement as a PDF. Authenticate either with the bearer token or with the expires and
+ *       signature query parameters from a statement's download_url.
+ *     tags:
+ *       - Accounts
+ *     security:
+ *       - BearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the statement
+ *       - in: query
+ *         name: expires
+ *         schema:
+ *           type: integer
+ *         description: Expiry of a signed download link (milliseconds since epoch)
+ *       - in: query
+ *         name: signature
+ *         schema:
+ *           type: string
+ *         description: Signature of a signed download link
+ *     responses:
+ *       200:
+ *         description: Statement PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Bad Request - Invalid statement ID
+ *       401:
+ *         description: Unauthorized - Invalid or expired link, or missing authentication token
+ *       404:
+ *         description: Statement not found
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const statementId = parseInt(id, 10);
+  if (isNaN(statementId)) {
+    return json(400, { error: "Invalid statement ID" });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const signature = searchParams.get("signature");
+
+  // A signed link stands in for the bearer token; otherwise the statement must belong to the caller
+  let authUserId: string | null = null;
+  if (signature !== null) {
+    if (
+      !verifyStatementDownload(
+        statementId,
+        searchParams.get("expires"),
+        signature,
+      )
+    ) {
+      return json(401, { error: "Invalid or expired download link" });
+    }
+  } else {
+    const auth = await getAuthUserFromRequest(request);
+    if (!auth.ok) {
+      return new Response(JSON.stringify(auth.body), {
+        status: auth.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    authUserId = auth.supabaseUser.id;
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const statement = await prisma.accountStatement.findUnique({
+      where: { id: statementId },
+      include: {
+        internal_account: {
+          include: { user: true },
+        },
+      },
+    });
+
+    if (
+      !statement ||
+      (authUserId !== null &&
+        statement.internal_account.user.auth_user_id !== authUserId)
+    ) {
+      return json(404, { error: "Statement not found" });
+    }
+
+    const { internal_account: account } = statement;
+    const pdf = renderStatementPdf({
+      ...statement,
+      totals_by_type: statement.totals_by_type as Partial<
+        Record<TransactionTypeEnum, StatementTypeTotals>
+      >,
+      lines: statement.lines as StatementLine[],
+      account,
+      holder: account.user,
+    });
+
+    const month = statement.period_start.toISOString().slice(0, 7);
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="statement-${account.account_number.slice(-4)}-${month}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering statement:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
@@ -0,0 +1,193 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { json, toDecimal } from "@/app/lib/transactions";
+import { reverseTransaction } from "@/app/lib/reversals";
+import { ReversalSchema } from "@/lib/schemas/transfer";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const FAILURE_STATUS = {
+  not_found: 404,
+  not_posted: 409,
+  already_reversed: 409,
+  is_reversal: 409,
+  not_on_ledger: 409,
+  insufficient_funds: 409,
+  partial_reversal: 422,
+} as const;
+
+/**
+ * @swagger
+ * /api/transactions/{id}/reverse:
+ *   post:
+ *     summary: Reverse a posted transaction
+ *     description: |
+ *       Bank managers only. Posts a contra journal entry that undoes the transaction and restores both sides'
+ *       balances. Both legs of an internal transfer are reversed together. Each reversed leg is marked `reversed`
+ *       and gets a linked contra transaction. Partial reversals and reversing the same transaction twice are refused.
+ *     tags:
+ *       - Transactions
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the transaction to reverse
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [duplicate, posted_in_error, fraud, customer_dispute, other]
+ *                 description: Reason code recorded on the contra transaction
+ *               amount:
+ *                 type: string
+ *                 description: Optional dollar amount to confirm; must equal the full transaction amount
+ *                 example: "25.00"
+ *     responses:
+ *       200:
+ *         description: Transaction reversed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 reversed_transaction_ids:
+ *                   type: array
+ *                   items:
+ *                     type: integer
+ *                 contra_transaction_ids:
+ *                   type: array
+ *                   items:
+ *                     type: integer
+ *       400:
+ *         description: Bad Request - Invalid transaction ID or JSON body
+ *       401:
+ *         description: Unauthorized - Invalid or missing authentication token
+ *       403:
+ *         description: Forbidden - Manager role required
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Conflict - Not posted, already reversed, itself a reversal, or the payee lacks available funds
+ *       422:
+ *         description: Unprocessable Entity - Invalid request body or partial reversal
+ *       500:
+ *         description: Internal Server Error
+ */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    createReversal(request, context),
+  );
+}
+
+async function createReversal(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      status: auth.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const prisma = getPrisma();
+
+  const manager = await prisma.user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+    select: { role: true },
+  });
+  if (manager?.role !== "bank_manager") {
+    return json(403, { error: "Forbidden: Manager role required" });
+  }
+
+  const { id } = await params;
+  const transactionId = parseInt(id, 10);
+  if (isNaN(transactionId)) {
+    return json(400, { error: "Invalid transaction ID" });
+  }
+
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return json(400, { error: "Invalid JSON body" });
+  }
+
+  const parseResult = ReversalSchema.safeParse(raw);
+  if (!parseResult.success) {
+    return json(422, {
+      error: "Invalid request body",
+      details: parseResult.error.issues,
+    });
+  }
+
+  const { reason, amount } = parseResult.data;
+
+  try {
+    const result = await prisma.$transaction(async (tx) =>
+      reverseTransaction(tx, {
+        transaction_id: transactionId,
+        reason,
+        amount: amount === undefined ? undefined : toDecimal(amount),
+      }),
+    );
+
+    if (!result.ok) {
+      return json(FAILURE_STATUS[result.reason], {
+        error: result.error,
+        reason: result.reason,
+      });
+    }
+
+    // Balances changed for everyone on either side of the transaction
+    const { revalidateTag } = await import("next/cache");
+    const userIds = new Set(
+      result.reversed.map(
+        (transaction) => transaction.internal_account.user_id,
+      ),
+    );
+    for (const userId of userIds) {
+      await revalidateTag(`user-${userId}`);
+      await revalidateTag(`transactions-${userId}`);
+      await revalidateTag(`accounts-${userId}`);
+    }
+
+    return json(200, {
+      success: true,
+      reversed_transaction_ids: result.reversed.map(
+        (transaction) => transaction.id,
+      ),
+      contra_transaction_ids: result.contra_transactions.map(
+        (transaction) => transaction.id,
+      ),
+    });
+  } catch (error) {
+    console.error("Error reversing transaction:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
@@ -1,6 +1,24 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
 // Update the import path to the correct location of the route handler
-import { GET } from "./route";
+import { GET, POST } from "./route";
+import { postTransfer } from "@/app/lib/ledger";
+import { sweepOverdraftProtection } from "@/app/lib/overdraft";
+import { checkTransactionLimits } from "@/app/lib/limits";
+import { createPendingTransaction } from "@/app/lib/transactions";
+
+const mockTx = {
+  internalAccount: {
+    findUnique: vi.fn(),
+  },
+  transferRule: {
+    findUnique: vi.fn(),
+  },
+  transaction: {
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+};
 
 // Mock the Prisma client
 const mockPrisma = {
@@ -9,7 +27,9 @@ const mockPrisma = {
   },
   transaction: {
     findMany: vi.fn(),
+    create: vi.fn(),
   },
+  $transaction: vi.fn(),
 };
 
 // Mock the getPrisma function
@@ -22,6 +42,28 @@ vi.mock("@/lib/auth", () => ({
   getAuthUserFromRequest: vi.fn(),
 }));
 
+vi.mock("@/app/lib/ledger", () => ({
+  postTransfer: vi.fn(),
+}));
+
+vi.mock("@/app/lib/overdraft", () => ({
+  sweepOverdraftProtection: vi.fn(),
+}));
+
+vi.mock("@/app/lib/limits", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/app/lib/limits")>()),
+  checkTransactionLimits: vi.fn(),
+}));
+
+vi.mock("@/app/lib/transactions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/app/lib/transactions")>()),
+  createPendingTransaction: vi.fn(),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidateTag: vi.fn(),
+}));
+
 import { getAuthUserFromRequest } from "@/lib/auth";
 
 describe("GET /api/transactions", () => {
@@ -174,3 +216,145 @@ describe("GET /api/transactions", () => {
     expect(mockPrisma.transaction.findMany).not.toHaveBeenCalled();
   });
 });
+
+describe("POST /api/transactions", () => {
+  const checking = {
+    id: 1,
+    user_id: 1,
+    account_type: "checking",
+    is_active: true,
+    overdraft_protection_account_id: 2,
+    user: { auth_user_id: "user-123" },
+  };
+
+  // The protecting savings account's balance as committed; a sweep only changes it if its transaction commits
+  let savingsBalance: Decimal;
+
+  function postTransaction(body: unknown) {
+    return POST(
+      new Request("http://localhost:3000/api/transactions", {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+    );
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    savingsBalance = new Decimal(500);
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123" },
+    } as never);
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 1 });
+    mockPrisma.$transaction.mockImplementation(
+      async (fn: (tx: typeof mockTx) => Promise<unknown>) => {
+        let balance = savingsBalance;
+        vi.mocked(sweepOverdraftProtection).mockImplementation(async () => {
+          balance = balance.sub(70);
+          return { amount: new Decimal(70), journal_entry_id: 80 };
+        });
+        const result = await fn(mockTx);
+        savingsBalance = balance;
+        return result;
+      },
+    );
+    mockPrisma.transaction.create.mockImplementation(async ({ data }) => ({
+      id: 40,
+      ...data,
+    }));
+    mockTx.internalAccount.findUnique.mockResolvedValue(checking);
+    mockTx.transaction.findFirst.mockResolvedValue(null);
+    mockTx.transaction.create.mockImplementation(async ({ data }) => ({
+      id: 30,
+      ...data,
+    }));
+    vi.mocked(checkTransactionLimits).mockResolvedValue({ ok: true });
+    vi.mocked(postTransfer).mockResolvedValue({
+      ok: true,
+      journal_entry: { id: 90 },
+    } as Awaited<ReturnType<typeof postTransfer>>);
+  });
+
+  it("keeps the overdraft sweep that covered a withdrawal", async () => {
+    const response = await postTransaction({
+      requested_transaction_type: "withdrawal",
+      transaction_direction: "outbound",
+      source_account_number: "1000000001",
+      requested_amount: "100.00",
+    });
+
+    expect(response.status).toBe(200);
+    expect(savingsBalance.toString()).toBe("430");
+  });
+
+  it("rolls back the overdraft sweep when the withdrawal is still denied", async () => {
+    vi.mocked(postTransfer).mockResolvedValue({
+      ok: false,
+      internal_account_id: 1,
+    } as Awaited<ReturnType<typeof postTransfer>>);
+
+    const response = await postTransaction({
+      requested_transaction_type: "withdrawal",
+      transaction_direction: "outbound",
+      source_account_number: "1000000001",
+      requested_amount: "100.00",
+    });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: "Conflict: Insufficient funds.",
+    });
+    expect(sweepOverdraftProtection).toHaveBeenCalled();
+    expect(savingsBalance.toString()).toBe("500");
+    // The denial is recorded outside the rolled-back transaction
+    expect(mockTx.transaction.create).not.toHaveBeenCalled();
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: {
+        internal_account_id: 1,
+        amount: new Decimal(-100),
+        transaction_type: "withdrawal",
+        direction: "outbound",
+        idempotency_key: undefined,
+        status: "denied",
+      },
+    });
+  });
+
+  it("rolls back the overdraft sweep when an external transfer's hold is denied", async () => {
+    mockTx.transferRule.findUnique.mockResolvedValue({
+      id: 7,
+      amount: new Decimal(100),
+      user: { auth_user_id: "user-123" },
+      source_internal: checking,
+      destination_external: {
+        routing_number: "021000021",
+        account_number: "555000111",
+        nickname: "Credit union",
+      },
+    });
+    vi.mocked(createPendingTransaction).mockResolvedValue({
+      ok: false,
+      transaction: { id: 31, status: "denied" },
+    } as Awaited<ReturnType<typeof createPendingTransaction>>);
+
+    const response = await postTransaction({
+      requested_transaction_type: "external_transfer",
+      transfer_rule_id: 7,
+    });
+
+    expect(response.status).toBe(409);
+    expect(savingsBalance.toString()).toBe("500");
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        internal_account_id: 1,
+        transaction_type: "external_transfer",
+        transfer_rule_id: 7,
+        status: "denied",
+        denial_reason: "Insufficient funds",
+        external_routing_number: "021000021",
+        external_nickname: "Credit union",
+      }),
+    });
+  });
+});
@@ -6,13 +6,33 @@ import {
   createDeniedTransaction,
   findExistingTransaction,
   createApprovedTransaction,
+  createPendingTransaction,
 } from "@/app/lib/transactions";
+import { postTransfer } from "@/app/lib/ledger";
+import { sweepOverdraftProtection } from "@/app/lib/overdraft";
+import { executeBillPay } from "@/app/lib/billpay";
+import {
+  checkTransactionLimits,
+  limitExceededResponse,
+} from "@/app/lib/limits";
 import { z } from "zod";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
 
 // Configure route segment - transactions should be dynamic
 export const dynamic = "force-dynamic";
 export const revalidate = 0; // Don't cache for real-time transaction data
 
+// Thrown inside a handler's transaction when a debit is denied for insufficient funds, so an overdraft sweep made to
+// cover it rolls back too. The denial is recorded once the transaction has rolled back.
+class InsufficientFundsError extends Error {
+  constructor(
+    message: string,
+    readonly denial: Parameters<typeof createDeniedTransaction>[1],
+  ) {
+    super(message);
+  }
+}
+
 /* ============================================================================================================================
    REQUEST SCHEMAS
    ============================================================================================================================ */
@@ -46,22 +66,12 @@ const ExternalOutbound = z.object({
   transfer_rule_id: z.number().int(),
 });
 
-const ExternalInbound = z.object({
-  requested_transaction_type: z.literal("external_transfer"),
-  transaction_direction: z.literal("inbound"),
-  destination_account_number: z.string().min(1),
-  source_account_number: z.string().min(1),
-  source_routing_number: z.string().min(1),
-  requested_amount: Amount,
-});
-
 const TransactionRequestSchema = z.union([
   Deposit,
   Withdrawal,
   Billpay,
   InternalTransfer,
   ExternalOutbound,
-  ExternalInbound,
 ]);
 
 /* ============================================================================================================================
@@ -179,8 +189,10 @@ export async function GET(request: Request) {
  *     summary: Create and process a transaction
  *     description: |
  *       Creates and processes various types of banking transactions. Supports deposits, withdrawals,
- *       bill payments, internal transfers, and external transfers. Most transaction types require
- *       authentication except for external inbound transfers.
+ *       bill payments, internal transfers, and outbound external transfers. Bill payments and
+ *       outbound external transfers are created as pending: their funds are held against the
+ *       available balance and they post to the ledger when they settle. Inbound external transfers
+ *       arrive in ACH files, or from registered partner banks through POST /api/transfers/inbound.
  *     tags:
  *       - Transactions
  *     security:
@@ -191,7 +203,7 @@ export async function GET(request: Request) {
  *         schema:
  *           type: string
  *         required: false
- *         description: Optional idempotency key to prevent duplicate transaction processing
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -267,30 +279,6 @@ export async function GET(request: Request) {
  *                     enum: [external_transfer]
  *                   transfer_rule_id:
  *                     type: integer
- *               - type: object
- *                 title: External Transfer (Inbound)
- *                 required:
- *                   - requested_transaction_type
- *                   - transaction_direction
- *                   - destination_account_number
- *                   - source_account_number
- *                   - source_routing_number
- *                   - requested_amount
- *                 properties:
- *                   requested_transaction_type:
- *                     type: string
- *                     enum: [external_transfer]
- *                   transaction_direction:
- *                     type: string
- *                     enum: [inbound]
- *                   destination_account_number:
- *                     type: string
- *                   source_account_number:
- *                     type: string
- *                   source_routing_number:
- *                     type: string
- *                   requested_amount:
- *                     $ref: '#/components/schemas/Amount'
  *           examples:
  *             deposit:
  *               summary: Deposit transaction
@@ -321,15 +309,6 @@ export async function GET(request: Request) {
  *               value:
  *                 requested_transaction_type: external_transfer
  *                 transfer_rule_id: 2
- *             external_inbound:
- *               summary: External inbound transfer
- *               value:
- *                 requested_transaction_type: external_transfer
- *                 transaction_direction: inbound
- *                 destination_account_number: "1234567890"
- *                 source_account_number: "0987654321"
- *                 source_routing_number: "021000021"
- *                 requested_amount: 15000
  *     responses:
  *       200:
  *         description: Transaction processed successfully
@@ -341,6 +320,9 @@ export async function GET(request: Request) {
  *                 status:
  *                   type: string
  *                   example: Deposit successful.
+ *                 transaction_id:
+ *                   type: integer
+ *                   description: ID of the pending transaction (bill pay and outbound external transfers only)
  *       400:
  *         description: Invalid JSON body
  *         content:
@@ -354,7 +336,7 @@ export async function GET(request: Request) {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Forbidden - Account is inactive or payee is inactive
+ *         description: Forbidden - Account is inactive, payee is inactive, or a transaction limit would be exceeded (the response includes limit_type, limit, remaining and resets_at)
  *         content:
  *           application/json:
  *             schema:
@@ -366,7 +348,7 @@ export async function GET(request: Request) {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       409:
- *         description: Conflict - Insufficient funds
+ *         description: Conflict - Insufficient funds, the bill pay rule is paused, or it is a statement balance rule
  *         content:
  *           application/json:
  *             schema:
@@ -388,14 +370,14 @@ export async function GET(request: Request) {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       502:
- *         description: Bad Gateway - External payment failed
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
  */
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    createTransaction(request),
+  );
+}
+
+async function createTransaction(request: Request) {
   try {
     // Parse and validate request body
     let raw: unknown;
@@ -415,33 +397,13 @@ export async function POST(request: Request) {
     }
     const request_body = parseResult.data;
 
-    // Authenticate user (skip for external inbound transfers)
-    const requiresUserAuth = !(
-      request_body.requested_transaction_type === "external_transfer" &&
-      "transaction_direction" in request_body &&
-      request_body.transaction_direction === "inbound"
-    );
-
-    type AuthResult =
-      | {
-          ok: true;
-          supabaseUser: {
-            id: string;
-            email?: string | null;
-            name?: string | null;
-          };
-        }
-      | { ok: false; status: number; body: { message: string } };
-
-    let auth: AuthResult | null = null;
-    if (requiresUserAuth) {
-      auth = await getAuthUserFromRequest(request);
-      if (!auth.ok) {
-        return new Response(JSON.stringify(auth.body), {
-          status: auth.status,
-          headers: { "Content-Type": "application/json" },
-        });
-      }
+    // Authenticate user
+    const auth = await getAuthUserFromRequest(request);
+    if (!auth.ok) {
+      return new Response(JSON.stringify(auth.body), {
+        status: auth.status,
+        headers: { "Content-Type": "application/json" },
+      });
     }
 
     const idempotency_key = request.headers.get("Idempotency-Key")?.trim();
@@ -482,20 +444,12 @@ export async function POST(request: Request) {
     } else if (
       request_body.requested_transaction_type === "external_transfer"
     ) {
-      if ("transfer_rule_id" in request_body) {
-        response = await handleExternalOutbound(
-          prisma,
-          request_body,
-          auth,
-          idempotency_key,
-        );
-      } else {
-        response = await handleExternalInbound(
-          prisma,
-          request_body,
-          idempotency_key,
-        );
-      }
+      response = await handleExternalOutbound(
+        prisma,
+        request_body,
+        auth,
+        idempotency_key,
+      );
     } else {
       return json(500, {
         error: "Internal Server Error: Unhandled transaction case.",
@@ -503,7 +457,7 @@ export async function POST(request: Request) {
     }
 
     // Invalidate cache after successful transaction (200 status)
-    if (response.status === 200 && auth?.ok) {
+    if (response.status === 200) {
       // Get database user ID for cache invalidation
       const dbUser = await prisma.user.findUnique({
         where: { auth_user_id: auth.supabaseUser.id },
@@ -525,6 +479,10 @@ export async function POST(request: Request) {
 
     return response;
   } catch (error) {
+    if (error instanceof InsufficientFundsError) {
+      await createDeniedTransaction(getPrisma(), error.denial);
+      return json(409, { error: error.message });
+    }
     console.error("Error processing transaction:", error);
     return json(500, { error: "Internal Server Error" });
   }
@@ -586,9 +544,11 @@ async function handleDeposit(
       });
     }
 
-    await tx.internalAccount.update({
-      where: { id: account.id },
-      data: { balance: { increment: requested_amount } },
+    const posting = await postTransfer(tx, {
+      from: { system_account: "cash_clearing" },
+      to: { internal_account_id: account.id },
+      amount: requested_amount,
+      description: "Deposit",
     });
 
     const result = await createApprovedTransaction(
@@ -599,6 +559,7 @@ async function handleDeposit(
         transaction_type: "deposit",
         direction: "inbound",
         idempotency_key,
+        journal_entry_id: posting.journal_entry.id,
       },
       "Deposit already processed",
     );
@@ -657,20 +618,42 @@ async function handleWithdrawal(
       });
     }
 
-    const ok = await tx.internalAccount.updateMany({
-      where: { id: account.id, balance: { gte: requested_amount } },
-      data: { balance: { decrement: requested_amount } },
+    const limitCheck = await checkTransactionLimits(
+      tx,
+      account,
+      "withdrawal",
+      requested_amount,
+    );
+    if (!limitCheck.ok) {
+      await createDeniedTransaction(tx, {
+        internal_account_id: account.id,
+        amount: requested_amount.neg(),
+        transaction_type: "withdrawal",
+        direction: "outbound",
+        idempotency_key,
+      });
+      return limitExceededResponse(limitCheck);
+    }
+
+    // Cover a shortfall from the linked savings account before the guarded debit
+    await sweepOverdraftProtection(tx, account.id, requested_amount);
+
+    const posting = await postTransfer(tx, {
+      from: { internal_account_id: account.id },
+      to: { system_account: "cash_clearing" },
+      amount: requested_amount,
+      description: "Withdrawal",
+      guard_sufficient_funds: true,
     });
 
-    if (ok.count !== 1) {
-      await createDeniedTransaction(tx, {
+    if (!posting.ok) {
+      throw new InsufficientFundsError("Conflict: Insufficient funds.", {
         internal_account_id: account.id,
         amount: requested_amount.neg(),
         transaction_type: "withdrawal",
         direction: "outbound",
         idempotency_key,
       });
-      return json(409, { error: "Conflict: Insufficient funds." });
     }
 
     const result = await createApprovedTransaction(
@@ -681,6 +664,7 @@ async function handleWithdrawal(
         transaction_type: "withdrawal",
         direction: "outbound",
         idempotency_key,
+        journal_entry_id: posting.journal_entry.id,
       },
       "Withdrawal already processed",
     );
@@ -719,105 +703,46 @@ async function handleBillPay(
       return json(404, { error: "Payer account not found." });
     }
 
-    if (!source.is_active) {
-      await createDeniedTransaction(tx, {
-        internal_account_id: source.id,
-        amount: rule.amount.neg(),
-        transaction_type: "billpay",
-        direction: "outbound",
-        bill_pay_rule_id: rule.id,
-        idempotency_key,
-      });
-      return json(403, { error: "Forbidden: Source account is inactive." });
+    if (rule.status === "paused") {
+      return json(409, { error: "Conflict: Bill pay rule is paused." });
     }
 
-    const payee = await tx.billPayPayee.findUnique({
-      where: { id: rule.payee_id },
-    });
-
-    // Black hole: proceed even if payee doesn't exist or is inactive
-    // This simulates paying to an external account that may not exist
-    if (!payee) {
-      // Payee record not found - this shouldn't happen normally, but handle gracefully
-      await createDeniedTransaction(tx, {
-        internal_account_id: source.id,
-        amount: rule.amount.neg(),
-        transaction_type: "billpay",
-        direction: "outbound",
-        bill_pay_rule_id: rule.id,
-        idempotency_key,
+    if (rule.mode === "statement_balance") {
+      return json(409, {
+        error:
+          "Conflict: A statement balance rule pays the bills its payee presents. Pay a bill instead.",
       });
-      return json(404, { error: "Payee not found." });
     }
 
-    // Note: We proceed even if payee.is_active is false (black hole support)
-    // The external account may not exist, but we still process the payment
-
-    const existing = await findExistingTransaction(tx, {
+    const result = await executeBillPay(
+      tx,
+      { ...rule, amount: rule.amount!, bill_pay_rule_id: rule.id },
       idempotency_key,
-      transaction_type: "billpay",
-      internal_account_id: source.id,
-      amount: rule.amount.neg(),
-      bill_pay_rule_id: rule.id,
-    });
-    if (existing) {
+    );
+    if (result.status === "duplicate") {
       return json(200, {
         status:
           "Bill pay transaction already processed (idempotency key found).",
       });
     }
-
-    // Simulate external payment (TO-DO: Create mock external payment gateway)
-    const paymentSuccess = true;
-    if (!paymentSuccess) {
-      await createDeniedTransaction(tx, {
-        internal_account_id: source.id,
-        amount: rule.amount.neg(),
-        transaction_type: "billpay",
-        direction: "outbound",
-        bill_pay_rule_id: rule.id,
-        idempotency_key,
+    if (result.status === "pending") {
+      return json(200, {
+        status:
+          "Bill pay submitted. Funds are on hold until the payment posts.",
+        transaction_id: result.transaction_id,
       });
-      return json(502, { error: "Bad Gateway: External payment failed." });
     }
 
-    const ok = await tx.internalAccount.updateMany({
-      where: { id: source.id, balance: { gte: rule.amount } },
-      data: { balance: { decrement: rule.amount } },
-    });
-
-    if (ok.count !== 1) {
-      await createDeniedTransaction(tx, {
-        internal_account_id: source.id,
-        amount: rule.amount.neg(),
-        transaction_type: "billpay",
-        direction: "outbound",
-        bill_pay_rule_id: rule.id,
-        idempotency_key,
-      });
-      return json(409, { error: "Conflict: Insufficient funds." });
+    switch (result.reason) {
+      case "source_inactive":
+        return json(403, { error: "Forbidden: Source account is inactive." });
+      case "payee_not_found":
+        return json(404, { error: "Payee not found." });
+      case "limit_exceeded":
+        return limitExceededResponse(result.limit_check);
+      case "insufficient_funds":
+        return json(409, { error: "Conflict: Insufficient funds." });
     }
-
-    const result = await createApprovedTransaction(
-      tx,
-      {
-        internal_account_id: source.id,
-        amount: rule.amount.neg(),
-        transaction_type: "billpay",
-        direction: "outbound",
-        bill_pay_rule_id: rule.id,
-        idempotency_key,
-        // Include payee info in transaction for black hole tracking
-        external_routing_number: payee.routing_number,
-        external_account_number: payee.account_number,
-        external_nickname: payee.business_name,
-      },
-      "Bill pay transaction already processed",
-    );
-
-    return json(200, {
-      status: result.duplicate ? result.message : "Bill pay successful.",
-    });
   });
 }
 
@@ -898,12 +823,13 @@ async function handleInternalTransfer(
       });
     }
 
-    const ok = await tx.internalAccount.updateMany({
-      where: { id: source.id, balance: { gte: rule.amount } },
-      data: { balance: { decrement: rule.amount } },
-    });
-
-    if (ok.count !== 1) {
+    const limitCheck = await checkTransactionLimits(
+      tx,
+      source,
+      "internal_transfer",
+      rule.amount,
+    );
+    if (!limitCheck.ok) {
       await createDeniedTransaction(tx, {
         internal_account_id: source.id,
         amount: rule.amount.neg(),
@@ -912,16 +838,36 @@ async function handleInternalTransfer(
         transfer_rule_id: rule.id,
         idempotency_key,
       });
-      return json(409, {
-        error: "Conflict: Insufficient funds in source account.",
-      });
+      return limitExceededResponse(limitCheck);
     }
 
-    await tx.internalAccount.update({
-      where: { id: destination.id },
-      data: { balance: { increment: rule.amount } },
+    // No sweep when paying into the protecting savings account itself
+    if (destination.id !== source.overdraft_protection_account_id) {
+      await sweepOverdraftProtection(tx, source.id, rule.amount);
+    }
+
+    const posting = await postTransfer(tx, {
+      from: { internal_account_id: source.id },
+      to: { internal_account_id: destination.id },
+      amount: rule.amount,
+      description: "Internal transfer",
+      guard_sufficient_funds: true,
     });
 
+    if (!posting.ok) {
+      throw new InsufficientFundsError(
+        "Conflict: Insufficient funds in source account.",
+        {
+          internal_account_id: source.id,
+          amount: rule.amount.neg(),
+          transaction_type: "internal_transfer",
+          direction: "outbound",
+          transfer_rule_id: rule.id,
+          idempotency_key,
+        },
+      );
+    }
+
     await createApprovedTransaction(
       tx,
       {
@@ -931,6 +877,7 @@ async function handleInternalTransfer(
         direction: "outbound",
         transfer_rule_id: rule.id,
         idempotency_key,
+        journal_entry_id: posting.journal_entry.id,
       },
       "Internal transfer already processed",
     );
@@ -943,8 +890,10 @@ async function handleInternalTransfer(
         transaction_type: "internal_transfer",
         direction: "inbound",
         status: "approved",
+        posted_at: new Date(),
         transfer_rule_id: rule.id,
         idempotency_key: idempotency_key ? `${idempotency_key}-inbound` : null,
+        journal_entry_id: posting.journal_entry.id,
       },
     });
 
@@ -1009,26 +958,13 @@ async function handleExternalOutbound(
       });
     }
 
-    // Simulate external payment (TO-DO: Create mock external payment gateway)
-    const paymentSuccess = true;
-    if (!paymentSuccess) {
-      await createDeniedTransaction(tx, {
-        internal_account_id: source.id,
-        amount: rule.amount.neg(),
-        transaction_type: "external_transfer",
-        direction: "outbound",
-        transfer_rule_id: rule.id,
-        idempotency_key,
-      });
-      return json(502, { error: "Bad Gateway: External payment failed." });
-    }
-
-    const ok = await tx.internalAccount.updateMany({
-      where: { id: source.id, balance: { gte: rule.amount } },
-      data: { balance: { decrement: rule.amount } },
-    });
-
-    if (ok.count !== 1) {
+    const limitCheck = await checkTransactionLimits(
+      tx,
+      source,
+      "external_transfer",
+      rule.amount,
+    );
+    if (!limitCheck.ok) {
       await createDeniedTransaction(tx, {
         internal_account_id: source.id,
         amount: rule.amount.neg(),
@@ -1037,95 +973,47 @@ async function handleExternalOutbound(
         transfer_rule_id: rule.id,
         idempotency_key,
       });
-      return json(409, {
-        error: "Conflict: Insufficient funds in source account.",
-      });
-    }
-
-    const result = await createApprovedTransaction(
-      tx,
-      {
-        internal_account_id: source.id,
-        amount: rule.amount.neg(),
-        transaction_type: "external_transfer",
-        direction: "outbound",
-        transfer_rule_id: rule.id,
-        idempotency_key,
-      },
-      "External transfer already processed",
-    );
-
-    return json(200, {
-      status: result.duplicate
-        ? result.message
-        : "External transfer from internal account successful.",
-    });
-  });
-}
-
-async function handleExternalInbound(
-  prisma: ReturnType<typeof getPrisma>,
-  request_body: z.infer<typeof ExternalInbound>,
-  idempotency_key?: string | null,
-) {
-  const { destination_account_number, requested_amount } = request_body;
-
-  return await prisma.$transaction(async (tx) => {
-    const account = await tx.internalAccount.findUnique({
-      where: { account_number: destination_account_number },
-      include: { user: true },
-    });
-
-    if (!account) {
-      return json(404, { error: "Destination account not found." });
+      return limitExceededResponse(limitCheck);
     }
 
-    if (!account.is_active) {
-      await createDeniedTransaction(tx, {
-        internal_account_id: account.id,
-        amount: requested_amount,
-        transaction_type: "external_transfer",
-        direction: "inbound",
-        idempotency_key,
-      });
-      return json(403, {
-        error: "Forbidden: Destination account is inactive.",
-      });
-    }
+    await sweepOverdraftProtection(tx, source.id, rule.amount);
 
-    const existing = await findExistingTransaction(tx, {
-      idempotency_key,
+    // Hold the funds now; the transfer posts once the ACH settles
+    const external = rule.destination_external;
+    const pending = await createPendingTransaction(tx, {
+      internal_account_id: source.id,
+      amount: rule.amount.neg(),
       transaction_type: "external_transfer",
-      internal_account_id: account.id,
-      amount: requested_amount,
-    });
-    if (existing) {
-      return json(200, {
-        status: "External transfer already processed (idempotency key found).",
-      });
-    }
-
-    await tx.internalAccount.update({
-      where: { id: account.id },
-      data: { balance: { increment: requested_amount } },
+      direction: "outbound",
+      transfer_rule_id: rule.id,
+      idempotency_key,
+      external_routing_number: external?.routing_number,
+      external_account_number: external?.account_number,
+      external_nickname: external?.nickname ?? undefined,
     });
 
-    const result = await createApprovedTransaction(
-      tx,
-      {
-        internal_account_id: account.id,
-        amount: requested_amount,
-        transaction_type: "external_transfer",
-        direction: "inbound",
-        idempotency_key,
-      },
-      "External transfer already processed",
-    );
+    if (!pending.ok) {
+      throw new InsufficientFundsError(
+        "Conflict: Insufficient funds in source account.",
+        {
+          internal_account_id: source.id,
+          amount: rule.amount.neg(),
+          transaction_type: "external_transfer",
+          direction: "outbound",
+          transfer_rule_id: rule.id,
+          idempotency_key,
+          denial_reason: "Insufficient funds",
+          external_routing_number: external?.routing_number,
+          external_account_number: external?.account_number,
+          external_nickname: external?.nickname ?? undefined,
+        },
+      );
+    }
 
     return json(200, {
-      status: result.duplicate
-        ? result.message
-        : "External transfer to internal account successful.",
+      status:
+        "External transfer from internal account submitted. Funds are on hold until the transfer posts.",
+      transaction_id: pending.transaction.id,
     });
   });
 }
@@ -1,6 +1,8 @@
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { ExternalAccountSchema } from "@/lib/schemas/transfer";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
+import { getBankNames, lookupRoutingNumber } from "@/app/lib/routing-directory";
 
 // Configure route segment
 export const dynamic = "force-dynamic";
@@ -38,17 +40,30 @@ export const revalidate = 0;
  *                         type: string
  *                       routing_number:
  *                         type: string
+ *                       bank_name:
+ *                         type: string
+ *                         nullable: true
+ *                         description: The bank's name from the routing directory
  *       401:
  *         description: Unauthorized - Invalid or missing authentication token
  *       404:
  *         description: User not onboarded
  *   post:
  *     summary: Save external account
- *     description: Saves a new external account for the authenticated user
+ *     description: |
+ *       Saves a new external account for the authenticated user. The routing number must pass the ABA checksum and
+ *       belong to a bank in the routing directory.
  *     tags:
  *       - External Accounts
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -88,6 +103,8 @@ export const revalidate = 0;
  *                       type: string
  *                     routing_number:
  *                       type: string
+ *                     bank_name:
+ *                       type: string
  *       400:
  *         description: Bad Request - Invalid account details
  *       401:
@@ -96,6 +113,8 @@ export const revalidate = 0;
  *         description: User not onboarded
  *       409:
  *         description: Conflict - External account already exists
+ *       422:
+ *         description: Invalid request body, or a routing number that is not in the routing directory
  *       500:
  *         description: Internal Server Error
  */
@@ -134,12 +153,18 @@ export async function GET(request: Request) {
       orderBy: { id: "desc" },
     });
 
+    const bankNames = await getBankNames(
+      getPrisma(),
+      externalAccounts.map((account) => account.routing_number),
+    );
+
     // Format response
     const accounts = externalAccounts.map((account) => ({
       id: account.id,
       nickname: account.nickname,
       account_number: account.account_number,
       routing_number: account.routing_number,
+      bank_name: bankNames.get(account.routing_number) ?? null,
     }));
 
     return new Response(JSON.stringify({ accounts }), {
@@ -166,6 +191,12 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    addExternalAccount(request),
+  );
+}
+
+async function addExternalAccount(request: Request) {
   // Auth check
   const auth = await getAuthUserFromRequest(request);
   if (!auth.ok) {
@@ -221,6 +252,14 @@ export async function POST(request: Request) {
 
     const { nickname, account_number, routing_number } = parseResult.data;
 
+    const bank = await lookupRoutingNumber(getPrisma(), routing_number);
+    if (!bank.ok) {
+      return new Response(JSON.stringify({ error: bank.error }), {
+        headers: { "Content-Type": "application/json" },
+        status: 422,
+      });
+    }
+
     // Check if external account already exists for this user
     const existingAccount = await getPrisma().externalAccount.findUnique({
       where: {
@@ -260,6 +299,7 @@ export async function POST(request: Request) {
       nickname: externalAccount.nickname,
       account_number: externalAccount.account_number,
       routing_number: externalAccount.routing_number,
+      bank_name: bank.bank_name,
     };
 
     return new Response(JSON.stringify({ account }), {
@@ -1,11 +1,36 @@
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { ExternalTransferSchema } from "@/lib/schemas/transfer";
+import { postTransfer } from "@/app/lib/ledger";
+import { sweepOverdraftProtection } from "@/app/lib/overdraft";
+import {
+  checkTransactionLimits,
+  LimitExceededError,
+  limitExceededResponse,
+} from "@/app/lib/limits";
+import {
+  createDeniedTransaction,
+  createPendingTransaction,
+  toDecimal,
+} from "@/app/lib/transactions";
+import {
+  getIdempotencyKey,
+  userIdempotencyScope,
+  withIdempotency,
+} from "@/app/lib/idempotency";
 
 // Configure route segment
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+// Thrown inside the transaction so an overdraft sweep made to cover a denied transfer rolls back. A denied hold is
+// recorded once the transaction has rolled back.
+class InsufficientFundsError extends Error {
+  constructor(readonly denial?: Parameters<typeof createDeniedTransaction>[1]) {
+    super("Insufficient funds");
+  }
+}
+
 /**
  * Helper function to invalidate cache for a user
  */
@@ -31,6 +56,13 @@ async function invalidateUserCache(supabaseUserId: string, dbUserId?: number) {
  *       - External Transfers
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -59,11 +91,13 @@ async function invalidateUserCache(supabaseUserId: string, dbUserId?: number) {
  *                 description: Destination account ID (after lookup)
  *     responses:
  *       200:
- *         description: Transfer executed successfully
+ *         description: Transfer executed successfully. Transfers to recipients outside the bank are returned with transaction_status "pending" and post when they settle.
  *       400:
  *         description: Bad Request - Invalid transfer details
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - A transaction limit would be exceeded (the response includes limit_type, limit, remaining and resets_at)
  *       404:
  *         description: User not found or account not found
  *       409:
@@ -75,6 +109,12 @@ async function invalidateUserCache(supabaseUserId: string, dbUserId?: number) {
  */
 
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    createExternalTransfer(request),
+  );
+}
+
+async function createExternalTransfer(request: Request) {
   // Auth check
   const auth = await getAuthUserFromRequest(request);
   if (!auth.ok) {
@@ -167,21 +207,6 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check sufficient funds
-    // amount is in cents, balance is in dollars
-    const amountInDollars = amount / 100;
-    if (Number(sourceAccount.balance) < amountInDollars) {
-      return new Response(
-        JSON.stringify({
-          error: "Insufficient funds",
-        }),
-        {
-          headers: { "Content-Type": "application/json" },
-          status: 409,
-        },
-      );
-    }
-
     // Lookup recipient if email/phone provided
     let destinationAccountId = destination_account_id;
 
@@ -209,38 +234,62 @@ export async function POST(request: Request) {
 
         // Execute transfer with only outbound transaction (black hole)
         const result = await getPrisma().$transaction(async (tx) => {
-          const idempotency_key = `external-transfer-blackhole-${source_account_id}-${Date.now()}`;
-          const amountInDollars = amount / 100;
+          // Checked under the source account's lock so concurrent transfers cannot share the allowance
+          const limitCheck = await checkTransactionLimits(
+            tx,
+            sourceAccount,
+            "external_transfer",
+            toDecimal(amount),
+          );
+          if (!limitCheck.ok) {
+            throw new LimitExceededError(limitCheck);
+          }
+
+          const idempotency_key =
+            getIdempotencyKey(request) ??
+            `external-transfer-blackhole-${source_account_id}-${Date.now()}`;
+
+          // Cover a shortfall from the linked savings account before the hold
+          await sweepOverdraftProtection(
+            tx,
+            source_account_id,
+            toDecimal(amount),
+          );
+
+          // The counterparty is outside our bank, so the transfer goes out over ACH:
+          // hold the funds now and post once it settles (only outbound, no inbound - black hole)
+          const pending = await createPendingTransaction(tx, {
+            internal_account_id: source_account_id,
+            amount: toDecimal(amount.signedFor("outbound")),
+            transaction_type: "external_transfer",
+            direction: "outbound",
+            idempotency_key: `${idempotency_key}-outbound`,
+            external_nickname: fakeRecipientName,
+          });
 
-          // Create only outbound transaction (no inbound - black hole)
-          const outboundTransaction = await tx.transaction.create({
-            data: {
+          if (!pending.ok) {
+            throw new InsufficientFundsError({
               internal_account_id: source_account_id,
-              amount: -amountInDollars, // Negative for outbound
+              amount: toDecimal(amount.signedFor("outbound")),
               transaction_type: "external_transfer",
               direction: "outbound",
-              status: "approved",
               idempotency_key: `${idempotency_key}-outbound`,
+              denial_reason: "Insufficient funds",
               external_nickname: fakeRecipientName,
-            },
-          });
-
-          // Deduct from source account
-          await tx.internalAccount.update({
-            where: { id: source_account_id },
-            data: { balance: { decrement: amountInDollars } },
-          });
+            });
+          }
 
           return {
             success: true,
-            message: "Transfer completed successfully",
-            transaction_id: outboundTransaction.id,
+            message: "Transfer submitted. Funds are on hold until it posts.",
+            transaction_id: pending.transaction.id,
+            transaction_status: pending.transaction.status,
             recipient_name: fakeRecipientName,
             amount,
           };
         });
 
-        // Invalidate cache for sender (balances changed)
+        // Invalidate cache for sender (available balance changed)
         await invalidateUserCache(auth.supabaseUser.id, currentUser.id);
 
         return new Response(JSON.stringify(result), {
@@ -274,38 +323,62 @@ export async function POST(request: Request) {
 
         // Execute transfer with only outbound transaction (black hole)
         const result = await getPrisma().$transaction(async (tx) => {
-          const idempotency_key = `external-transfer-blackhole-${source_account_id}-${Date.now()}`;
-          const amountInDollars = amount / 100;
+          // Checked under the source account's lock so concurrent transfers cannot share the allowance
+          const limitCheck = await checkTransactionLimits(
+            tx,
+            sourceAccount,
+            "external_transfer",
+            toDecimal(amount),
+          );
+          if (!limitCheck.ok) {
+            throw new LimitExceededError(limitCheck);
+          }
+
+          const idempotency_key =
+            getIdempotencyKey(request) ??
+            `external-transfer-blackhole-${source_account_id}-${Date.now()}`;
+
+          // Cover a shortfall from the linked savings account before the hold
+          await sweepOverdraftProtection(
+            tx,
+            source_account_id,
+            toDecimal(amount),
+          );
+
+          // The counterparty is outside our bank, so the transfer goes out over ACH:
+          // hold the funds now and post once it settles (only outbound, no inbound - black hole)
+          const pending = await createPendingTransaction(tx, {
+            internal_account_id: source_account_id,
+            amount: toDecimal(amount.signedFor("outbound")),
+            transaction_type: "external_transfer",
+            direction: "outbound",
+            idempotency_key: `${idempotency_key}-outbound`,
+            external_nickname: fakeRecipientName,
+          });
 
-          // Create only outbound transaction (no inbound - black hole)
-          const outboundTransaction = await tx.transaction.create({
-            data: {
+          if (!pending.ok) {
+            throw new InsufficientFundsError({
               internal_account_id: source_account_id,
-              amount: -amountInDollars, // Negative for outbound
+              amount: toDecimal(amount.signedFor("outbound")),
               transaction_type: "external_transfer",
               direction: "outbound",
-              status: "approved",
               idempotency_key: `${idempotency_key}-outbound`,
+              denial_reason: "Insufficient funds",
               external_nickname: fakeRecipientName,
-            },
-          });
-
-          // Deduct from source account
-          await tx.internalAccount.update({
-            where: { id: source_account_id },
-            data: { balance: { decrement: amountInDollars } },
-          });
+            });
+          }
 
           return {
             success: true,
-            message: "Transfer completed successfully",
-            transaction_id: outboundTransaction.id,
+            message: "Transfer submitted. Funds are on hold until it posts.",
+            transaction_id: pending.transaction.id,
+            transaction_status: pending.transaction.status,
             recipient_name: fakeRecipientName,
             amount,
           };
         });
 
-        // Invalidate cache for sender (balances changed)
+        // Invalidate cache for sender (available balance changed)
         await invalidateUserCache(auth.supabaseUser.id, currentUser.id);
 
         return new Response(JSON.stringify(result), {
@@ -338,38 +411,62 @@ export async function POST(request: Request) {
 
       // Execute transfer with only outbound transaction (black hole)
       const result = await getPrisma().$transaction(async (tx) => {
-        const idempotency_key = `external-transfer-blackhole-${source_account_id}-${Date.now()}`;
-        const amountInDollars = amount / 100;
+        // Checked under the source account's lock so concurrent transfers cannot share the allowance
+        const limitCheck = await checkTransactionLimits(
+          tx,
+          sourceAccount,
+          "external_transfer",
+          toDecimal(amount),
+        );
+        if (!limitCheck.ok) {
+          throw new LimitExceededError(limitCheck);
+        }
+
+        const idempotency_key =
+          getIdempotencyKey(request) ??
+          `external-transfer-blackhole-${source_account_id}-${Date.now()}`;
+
+        // Cover a shortfall from the linked savings account before the hold
+        await sweepOverdraftProtection(
+          tx,
+          source_account_id,
+          toDecimal(amount),
+        );
 
-        // Create only outbound transaction (no inbound - black hole)
-        const outboundTransaction = await tx.transaction.create({
-          data: {
+        // The counterparty is outside our bank, so the transfer goes out over ACH:
+        // hold the funds now and post once it settles (only outbound, no inbound - black hole)
+        const pending = await createPendingTransaction(tx, {
+          internal_account_id: source_account_id,
+          amount: toDecimal(amount.signedFor("outbound")),
+          transaction_type: "external_transfer",
+          direction: "outbound",
+          idempotency_key: `${idempotency_key}-outbound`,
+          external_nickname: fakeRecipientName,
+        });
+
+        if (!pending.ok) {
+          throw new InsufficientFundsError({
             internal_account_id: source_account_id,
-            amount: -amountInDollars, // Negative for outbound
+            amount: toDecimal(amount.signedFor("outbound")),
             transaction_type: "external_transfer",
             direction: "outbound",
-            status: "approved",
             idempotency_key: `${idempotency_key}-outbound`,
+            denial_reason: "Insufficient funds",
             external_nickname: fakeRecipientName,
-          },
-        });
-
-        // Deduct from source account
-        await tx.internalAccount.update({
-          where: { id: source_account_id },
-          data: { balance: { decrement: amountInDollars } },
-        });
+          });
+        }
 
         return {
           success: true,
-          message: "Transfer completed successfully",
-          transaction_id: outboundTransaction.id,
+          message: "Transfer submitted. Funds are on hold until it posts.",
+          transaction_id: pending.transaction.id,
+          transaction_status: pending.transaction.status,
           recipient_name: fakeRecipientName,
           amount,
         };
       });
 
-      // Invalidate cache for sender (balances changed)
+      // Invalidate cache for sender (available balance changed)
       await invalidateUserCache(auth.supabaseUser.id, currentUser.id);
 
       return new Response(JSON.stringify(result), {
@@ -405,21 +502,49 @@ export async function POST(request: Request) {
 
     // Execute transfer between accounts (similar to internal transfer but cross-user)
     const result = await getPrisma().$transaction(async (tx) => {
+      // Checked under the source account's lock so concurrent transfers cannot share the allowance
+      const limitCheck = await checkTransactionLimits(
+        tx,
+        sourceAccount,
+        "external_transfer",
+        toDecimal(amount),
+      );
+      if (!limitCheck.ok) {
+        throw new LimitExceededError(limitCheck);
+      }
+
       // Create transactions for both accounts
-      const idempotency_key = `external-transfer-${source_account_id}-${destinationAccountId}-${Date.now()}`;
+      const idempotency_key =
+        getIdempotencyKey(request) ??
+        `external-transfer-${source_account_id}-${destinationAccountId}-${Date.now()}`;
+
+      // Cover a shortfall from the linked savings account before the guarded debit
+      await sweepOverdraftProtection(tx, source_account_id, toDecimal(amount));
+
+      // Move the money through the journal (debit source, credit destination)
+      const posting = await postTransfer(tx, {
+        from: { internal_account_id: source_account_id },
+        to: { internal_account_id: destinationAccountId },
+        amount: toDecimal(amount),
+        description: "Transfer to another customer",
+        guard_sufficient_funds: true,
+      });
 
-      // amount is in cents, convert to dollars for transaction and balance updates
-      const amountInDollars = amount / 100;
+      if (!posting.ok) {
+        throw new InsufficientFundsError();
+      }
 
       // Create outbound transaction (from source account)
       const outboundTransaction = await tx.transaction.create({
         data: {
           internal_account_id: source_account_id,
-          amount: -amountInDollars, // Negative for outbound
+          amount: toDecimal(amount.signedFor("outbound")),
           transaction_type: "external_transfer",
           direction: "outbound",
           status: "approved",
+          posted_at: new Date(),
           idempotency_key: `${idempotency_key}-outbound`,
+          journal_entry_id: posting.journal_entry.id,
         },
       });
 
@@ -427,25 +552,16 @@ export async function POST(request: Request) {
       await tx.transaction.create({
         data: {
           internal_account_id: destinationAccountId,
-          amount: amountInDollars, // Positive for inbound
+          amount: toDecimal(amount.signedFor("inbound")),
           transaction_type: "external_transfer",
           direction: "inbound",
           status: "approved",
+          posted_at: new Date(),
           idempotency_key: `${idempotency_key}-inbound`,
+          journal_entry_id: posting.journal_entry.id,
         },
       });
 
-      // Update both account balances
-      await tx.internalAccount.update({
-        where: { id: source_account_id },
-        data: { balance: { decrement: amountInDollars } },
-      });
-
-      await tx.internalAccount.update({
-        where: { id: destinationAccountId },
-        data: { balance: { increment: amountInDollars } },
-      });
-
       return {
         success: true,
         message: "Transfer completed successfully",
@@ -471,6 +587,23 @@ export async function POST(request: Request) {
       headers: { "Content-Type": "application/json" },
     });
   } catch (error) {
+    if (error instanceof LimitExceededError) {
+      return limitExceededResponse(error.check);
+    }
+    if (error instanceof InsufficientFundsError) {
+      if (error.denial) {
+        await createDeniedTransaction(getPrisma(), error.denial);
+      }
+      return new Response(
+        JSON.stringify({
+          error: "Insufficient funds",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 409,
+        },
+      );
+    }
     console.error("Error processing external transfer:", error);
     return new Response(
       JSON.stringify({
@@ -59,7 +59,7 @@ describe("GET /api/transfers/history", () => {
     expect(data).toEqual({ error: { message: "User not onboarded" } });
   });
 
-  it("returns transfer history with amounts converted from dollars to cents", async () => {
+  it("returns transfer history with signed dollar amounts as strings", async () => {
     const mockUser = {
       id: 1,
       username: "testuser",
@@ -73,7 +73,7 @@ describe("GET /api/transfers/history", () => {
       {
         id: 1,
         internal_account_id: 10,
-        amount: 500.0, // $500 in database (dollars)
+        amount: -500.0, // Outbound amounts are negative in the database
         status: "approved" as const,
         transaction_type: "internal_transfer" as const,
         direction: "outbound" as const,
@@ -124,7 +124,7 @@ describe("GET /api/transfers/history", () => {
     const data = (await response.json()) as {
       transfers: Array<{
         id: number;
-        amount: number;
+        amount: string;
         transaction_type: string;
         direction: string;
       }>;
@@ -133,9 +133,8 @@ describe("GET /api/transfers/history", () => {
 
     expect(response.status).toBe(200);
     expect(data.transfers).toHaveLength(2);
-    // Amount should be converted from dollars (500.0) to cents (50000)
-    expect(data.transfers[0].amount).toBe(50000);
-    expect(data.transfers[1].amount).toBe(50000);
+    expect(data.transfers[0].amount).toBe("-500.00");
+    expect(data.transfers[1].amount).toBe("500.00");
     expect(data.pagination.total).toBe(2);
   });
 
@@ -298,7 +297,7 @@ describe("GET /api/transfers/history", () => {
     expect(data.pagination.total).toBe(0);
   });
 
-  it("converts decimal amounts correctly to cents", async () => {
+  it("serializes decimal amounts exactly", async () => {
     const mockUser = {
       id: 1,
       username: "testuser",
@@ -337,12 +336,11 @@ describe("GET /api/transfers/history", () => {
     const request = new Request("http://localhost:3000/api/transfers/history");
     const response = await GET(request);
     const data = (await response.json()) as {
-      transfers: Array<{ amount: number }>;
+      transfers: Array<{ amount: string }>;
     };
 
     expect(response.status).toBe(200);
-    // $123.45 should become 12345 cents
-    expect(data.transfers[0].amount).toBe(12345);
+    expect(data.transfers[0].amount).toBe("123.45");
   });
 
   it("returns 422 for invalid query parameters", async () => {
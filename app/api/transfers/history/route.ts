@@ -1,6 +1,7 @@
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { TransferHistoryQuerySchema } from "@/lib/schemas/transfer";
+import { Money } from "@/lib/money";
 
 // Configure route segment
 export const dynamic = "force-dynamic";
@@ -69,11 +70,12 @@ export const revalidate = 0;
  *                         type: string
  *                         format: date-time
  *                       amount:
- *                         type: integer
- *                         description: Amount in cents
+ *                         type: string
+ *                         description: Signed amount in dollars (negative for outbound)
+ *                         example: "-100.50"
  *                       status:
  *                         type: string
- *                         enum: [approved, denied]
+ *                         enum: [pending, approved, denied, reversed, returned]
  *                       transaction_type:
  *                         type: string
  *                         enum: [internal_transfer, external_transfer]
@@ -275,8 +277,7 @@ export async function GET(request: Request) {
       return {
         id: transaction.id,
         created_at: transaction.created_at.toISOString(),
-        // Convert amount from dollars to cents for API response
-        amount: Math.round(Number(transaction.amount) * 100),
+        amount: Money.from(transaction.amount), // Serialized as "-100.50"
         status: transaction.status,
         transaction_type: transaction.transaction_type,
         direction: transaction.direction,
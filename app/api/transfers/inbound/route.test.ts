@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Prisma } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { POST } from "./route";
+import { signPartnerRequest } from "@/app/lib/partner-banks";
+import { postTransfer } from "@/app/lib/ledger";
+import { revalidateTag } from "next/cache";
+
+const mockPrisma = {
+  partnerBank: {
+    findUnique: vi.fn(),
+  },
+  partnerRequest: {
+    create: vi.fn(),
+    update: vi.fn(),
+    aggregate: vi.fn(),
+  },
+  internalAccount: {
+    findUnique: vi.fn(),
+  },
+  transaction: {
+    create: vi.fn(),
+  },
+  $queryRaw: vi.fn(),
+  $transaction: vi.fn(),
+};
+
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+vi.mock("@/app/lib/ledger", () => ({
+  postTransfer: vi.fn(),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidateTag: vi.fn(),
+}));
+
+const NOW = new Date("2025-12-18T15:00:00Z");
+const SECRET = "cs_160ps_secret";
+
+const partner = {
+  id: 3,
+  routing_number: "021000021",
+  signing_secret: SECRET,
+  per_transfer_limit: new Decimal(1000),
+  daily_limit: new Decimal(5000),
+  is_active: true,
+};
+
+const credit = {
+  destination_account_number: "1234567890",
+  source_account_number: "0987654321",
+  source_routing_number: "021000021",
+  requested_amount: "150.00",
+};
+
+function signedRequest(body: unknown, nonce = "0f8c1d2e3a4b5c6d") {
+  const raw = JSON.stringify(body);
+  const timestamp = String(NOW.getTime() / 1000);
+  return new Request("http://localhost:3000/api/transfers/inbound", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Partner-Id": "3",
+      "X-Partner-Timestamp": timestamp,
+      "X-Partner-Nonce": nonce,
+      "X-Partner-Signature": signPartnerRequest(SECRET, timestamp, nonce, raw),
+    },
+    body: raw,
+  });
+}
+
+describe("POST /api/transfers/inbound", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    mockPrisma.$transaction.mockImplementation(async (fn) => fn(mockPrisma));
+    mockPrisma.partnerBank.findUnique.mockResolvedValue(partner);
+    mockPrisma.partnerRequest.create.mockResolvedValue({ id: 41 });
+    mockPrisma.partnerRequest.aggregate.mockResolvedValue({
+      _sum: { amount: null },
+    });
+    mockPrisma.internalAccount.findUnique.mockResolvedValue({
+      id: 7,
+      user_id: 2,
+      is_active: true,
+      user: { auth_user_id: "user-123" },
+    });
+    mockPrisma.transaction.create.mockResolvedValue({ id: 99 });
+    vi.mocked(postTransfer).mockResolvedValue({
+      ok: true,
+      journal_entry: { id: 12 },
+    } as never);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("posts a signed credit and records it as accepted", async () => {
+    const response = await POST(signedRequest(credit));
+    const data = (await response.json()) as { transaction_id: number };
+
+    expect(response.status).toBe(200);
+    expect(data.transaction_id).toBe(99);
+    expect(postTransfer).toHaveBeenCalledWith(
+      mockPrisma,
+      expect.objectContaining({
+        from: { system_account: "ach_clearing" },
+        to: { internal_account_id: 7 },
+        amount: new Decimal("150.00"),
+      }),
+    );
+    expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        transaction_type: "external_transfer",
+        direction: "inbound",
+        external_routing_number: "021000021",
+        idempotency_key: "partner_3_0f8c1d2e3a4b5c6d",
+      }),
+    });
+    expect(mockPrisma.partnerRequest.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        partner_bank_id: 3,
+        nonce: "0f8c1d2e3a4b5c6d",
+        amount: new Decimal("150.00"),
+      }),
+    });
+    expect(mockPrisma.partnerRequest.update).toHaveBeenCalledWith({
+      where: { id: 41 },
+      data: {
+        status: "accepted",
+        http_status: 200,
+        error: null,
+        transaction_id: 99,
+      },
+    });
+  });
+
+  it("invalidates the account's caches only after the credit commits", async () => {
+    const events: string[] = [];
+    mockPrisma.$transaction.mockImplementation(async (fn) => {
+      const result = await fn(mockPrisma);
+      events.push("commit");
+      return result;
+    });
+    vi.mocked(revalidateTag).mockImplementation(() => {
+      events.push("revalidate");
+    });
+
+    const response = await POST(signedRequest(credit));
+
+    expect(response.status).toBe(200);
+    expect(events[0]).toBe("commit");
+    expect(revalidateTag).toHaveBeenCalledWith("accounts-user-123");
+    expect(revalidateTag).toHaveBeenCalledWith("accounts-2");
+  });
+
+  it("leaves the caches alone when the credit is refused", async () => {
+    const response = await POST(
+      signedRequest({ ...credit, source_routing_number: "121000358" }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(revalidateTag).not.toHaveBeenCalled();
+  });
+
+  it("refuses and records an unsigned request", async () => {
+    const request = new Request("http://localhost:3000/api/transfers/inbound", {
+      method: "POST",
+      body: JSON.stringify(credit),
+    });
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(401);
+    expect(postTransfer).not.toHaveBeenCalled();
+    expect(mockPrisma.partnerRequest.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        partner_bank_id: null,
+        status: "rejected",
+        http_status: 401,
+        error: "Partner signature headers are required",
+      }),
+    });
+  });
+
+  it("refuses a credit from another bank's routing number", async () => {
+    const response = await POST(
+      signedRequest({ ...credit, source_routing_number: "121000358" }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(postTransfer).not.toHaveBeenCalled();
+    expect(mockPrisma.partnerRequest.update).toHaveBeenCalledWith({
+      where: { id: 41 },
+      data: expect.objectContaining({
+        status: "rejected",
+        http_status: 403,
+      }),
+    });
+  });
+
+  it("refuses a credit over the partner's per-transfer limit", async () => {
+    const response = await POST(
+      signedRequest({ ...credit, requested_amount: "1000.01" }),
+    );
+    const data = (await response.json()) as {
+      error: string;
+      remaining: string;
+    };
+
+    expect(response.status).toBe(403);
+    expect(data.error).toBe(
+      "Forbidden: Amount exceeds the partner's per-transfer limit",
+    );
+    expect(data.remaining).toBe("1000.00");
+    expect(postTransfer).not.toHaveBeenCalled();
+  });
+
+  it("refuses a replayed nonce", async () => {
+    mockPrisma.partnerRequest.create
+      .mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: "6.0.0",
+        }),
+      )
+      .mockResolvedValue({ id: 42 });
+
+    const response = await POST(signedRequest(credit));
+
+    expect(response.status).toBe(409);
+    expect(postTransfer).not.toHaveBeenCalled();
+    // The replay is recorded without claiming the nonce again
+    expect(mockPrisma.partnerRequest.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({
+        partner_bank_id: 3,
+        nonce: undefined,
+        http_status: 409,
+      }),
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import { Prisma } from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { z } from "zod";
+import { getPrisma } from "@/app/lib/prisma";
+import {
+  json,
+  Amount,
+  createDeniedTransaction,
+  createApprovedTransaction,
+} from "@/app/lib/transactions";
+import { postTransfer } from "@/app/lib/ledger";
+import {
+  authenticatePartnerRequest,
+  checkPartnerLimits,
+} from "@/app/lib/partner-banks";
+import { Money } from "@/lib/money";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const InboundTransferSchema = z.object({
+  destination_account_number: z.string().min(1).max(17),
+  source_account_number: z.string().min(1).max(17),
+  source_routing_number: z
+    .string()
+    .regex(/^\d{9}$/, "Routing number must be exactly 9 digits"),
+  requested_amount: Amount,
+});
+
+// What a request's audit row records about it
+type AuditFields = {
+  received_at: Date;
+  partner_bank_id: number | null;
+  nonce?: string;
+  signed_at: Date | null;
+  destination_account_number?: string;
+  source_account_number?: string;
+  source_routing_number?: string;
+  amount?: Decimal;
+};
+
+/**
+ * @swagger
+ * /api/transfers/inbound:
+ *   post:
+ *     summary: Credit a customer from a partner bank
+ *     description: |
+ *       Lets a registered partner bank credit one of our accounts in real time. The request must be signed with the
+ *       partner's secret: X-Partner-Signature is the hex HMAC-SHA256 of "<timestamp>.<nonce>.<body>", where body is
+ *       the raw request body. The timestamp must be within five minutes of our clock and a nonce can only be used
+ *       once. The source routing number must be the partner's own, and the amount must fit the partner's per-transfer
+ *       and daily limits. Every request is recorded in the partner audit trail.
+ *     tags:
+ *       - External Transfers
+ *     parameters:
+ *       - in: header
+ *         name: X-Partner-Id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: X-Partner-Timestamp
+ *         required: true
+ *         description: Unix time in seconds when the request was signed
+ *         schema:
+ *           type: integer
+ *       - in: header
+ *         name: X-Partner-Nonce
+ *         required: true
+ *         description: 16-64 letters, digits, "-" or "_", unique per request
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Partner-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - destination_account_number
+ *               - source_account_number
+ *               - source_routing_number
+ *               - requested_amount
+ *             properties:
+ *               destination_account_number:
+ *                 type: string
+ *               source_account_number:
+ *                 type: string
+ *               source_routing_number:
+ *                 type: string
+ *               requested_amount:
+ *                 $ref: '#/components/schemas/Amount'
+ *           example:
+ *             destination_account_number: "1234567890"
+ *             source_account_number: "0987654321"
+ *             source_routing_number: "021000021"
+ *             requested_amount: "150.00"
+ *     responses:
+ *       200:
+ *         description: The credit was posted
+ *       400:
+ *         description: Invalid JSON body
+ *       401:
+ *         description: Missing or invalid signature, unknown partner, or a timestamp outside the allowed window
+ *       403:
+ *         description: Inactive partner or account, a source routing number that is not the partner's, or a limit exceeded
+ *       404:
+ *         description: Destination account not found
+ *       409:
+ *         description: The nonce has already been used
+ *       422:
+ *         description: Invalid request body
+ *       500:
+ *         description: Internal Server Error
+ */
+export async function POST(request: Request) {
+  const prisma = getPrisma();
+  const now = new Date();
+  let signed: AuditFields | null = null;
+
+  try {
+    const body = await request.text();
+    const auth = await authenticatePartnerRequest(
+      prisma,
+      request.headers,
+      body,
+      now,
+    );
+    if (!auth.ok) {
+      await recordRequest(
+        prisma,
+        {
+          received_at: now,
+          partner_bank_id: auth.partner_bank_id,
+          signed_at: auth.signed_at,
+        },
+        auth.status,
+        auth.error,
+      );
+      return json(auth.status, { error: auth.error });
+    }
+
+    // Signed by the partner, so every audit row from here on claims the nonce
+    signed = {
+      received_at: now,
+      partner_bank_id: auth.partner.id,
+      nonce: auth.nonce,
+      signed_at: auth.signed_at,
+    };
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(body);
+    } catch {
+      await recordRequest(prisma, signed, 400, "Invalid JSON body");
+      return json(400, { error: "Invalid JSON body" });
+    }
+
+    const parseResult = InboundTransferSchema.safeParse(raw);
+    if (!parseResult.success) {
+      await recordRequest(prisma, signed, 422, "Invalid request body");
+      return json(422, {
+        error: "Invalid request body",
+        details: parseResult.error.issues,
+      });
+    }
+
+    const {
+      destination_account_number,
+      source_account_number,
+      source_routing_number,
+      requested_amount,
+    } = parseResult.data;
+    const credit: AuditFields = {
+      ...signed,
+      destination_account_number,
+      source_account_number,
+      source_routing_number,
+      amount: requested_amount,
+    };
+    const partner = auth.partner;
+
+    // The account credited, once its transaction is created
+    let credited = null as {
+      user_id: number;
+      user: { auth_user_id: string | null };
+    } | null;
+
+    const response = await prisma.$transaction(async (tx) => {
+      // Claim the nonce before anything else; the outcome is filled in below
+      const audit = await tx.partnerRequest.create({
+        data: { ...credit, status: "rejected", http_status: 500 },
+      });
+      const finish = async (
+        status: number,
+        error: string | null,
+        transaction_id: number | null = null,
+      ) => {
+        await tx.partnerRequest.update({
+          where: { id: audit.id },
+          data: {
+            status: error ? "rejected" : "accepted",
+            http_status: status,
+            error,
+            transaction_id,
+          },
+        });
+      };
+
+      if (source_routing_number !== partner.routing_number) {
+        const error =
+          "Forbidden: Source routing number does not belong to this partner.";
+        await finish(403, error);
+        return json(403, { error });
+      }
+
+      const limitCheck = await checkPartnerLimits(
+        tx,
+        partner,
+        requested_amount,
+        now,
+      );
+      if (!limitCheck.ok) {
+        const error = `Forbidden: ${limitCheck.error}`;
+        await finish(403, error);
+        return json(403, {
+          error,
+          remaining: Money.from(limitCheck.remaining),
+        });
+      }
+
+      const account = await tx.internalAccount.findUnique({
+        where: { account_number: destination_account_number },
+        include: { user: true },
+      });
+
+      if (!account) {
+        const error = "Destination account not found.";
+        await finish(404, error);
+        return json(404, { error });
+      }
+
+      if (!account.is_active) {
+        const error = "Forbidden: Destination account is inactive.";
+        const denied = await createDeniedTransaction(tx, {
+          internal_account_id: account.id,
+          amount: requested_amount,
+          transaction_type: "external_transfer",
+          direction: "inbound",
+          denial_reason: "Account is inactive",
+        });
+        await finish(403, error, denied.id);
+        return json(403, { error });
+      }
+
+      const posting = await postTransfer(tx, {
+        from: { system_account: "ach_clearing" },
+        to: { internal_account_id: account.id },
+        amount: requested_amount,
+        description: "External transfer (inbound)",
+      });
+
+      const result = await createApprovedTransaction(
+        tx,
+        {
+          internal_account_id: account.id,
+          amount: requested_amount,
+          transaction_type: "external_transfer",
+          direction: "inbound",
+          idempotency_key: `partner_${partner.id}_${auth.nonce}`,
+          external_routing_number: source_routing_number,
+          external_account_number: source_account_number,
+          journal_entry_id: posting.journal_entry.id,
+        },
+        "External transfer already processed",
+      );
+      await finish(200, null, result.transaction.id);
+      credited = account;
+
+      return json(200, {
+        status: "External transfer to internal account successful.",
+        transaction_id: result.transaction.id,
+      });
+    });
+
+    // Invalidate cache once the credit has committed (use Supabase user ID)
+    if (credited) {
+      const { revalidateTag } = await import("next/cache");
+      const supabaseUserId = credited.user.auth_user_id;
+      if (supabaseUserId) {
+        await revalidateTag(`user-${supabaseUserId}`);
+        await revalidateTag(`transactions-${supabaseUserId}`);
+        await revalidateTag(`accounts-${supabaseUserId}`);
+      }
+      await revalidateTag(`user-${credited.user_id}`);
+      await revalidateTag(`transactions-${credited.user_id}`);
+      await revalidateTag(`accounts-${credited.user_id}`);
+    }
+
+    return response;
+  } catch (error) {
+    // The partner already sent this nonce
+    if (
+      signed &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      const message = "Conflict: Request has already been received.";
+      await recordRequest(
+        prisma,
+        { ...signed, nonce: undefined },
+        409,
+        message,
+      );
+      return json(409, { error: message });
+    }
+
+    console.error("Error processing partner transfer:", error);
+    return json(500, { error: "Internal server error" });
+  }
+}
+
+async function recordRequest(
+  prisma: ReturnType<typeof getPrisma>,
+  fields: AuditFields,
+  http_status: number,
+  error: string,
+) {
+  await prisma.partnerRequest.create({
+    data: { ...fields, status: "rejected", http_status, error },
+  });
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import { POST } from "@/app/api/transfers/internal/route";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { postTransfer } from "@/app/lib/ledger";
+import { sweepOverdraftProtection } from "@/app/lib/overdraft";
+import { checkTransactionLimits } from "@/app/lib/limits";
+
+const mockTx = {
+  transferRule: {
+    create: vi.fn(),
+  },
+  transaction: {
+    create: vi.fn(),
+  },
+};
+
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+  },
+  $transaction: vi.fn(),
+};
+
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+vi.mock("@/lib/auth", () => ({
+  getAuthUserFromRequest: vi.fn(),
+}));
+
+vi.mock("@/app/lib/ledger", () => ({
+  postTransfer: vi.fn(),
+}));
+
+vi.mock("@/app/lib/overdraft", () => ({
+  sweepOverdraftProtection: vi.fn(),
+}));
+
+vi.mock("@/app/lib/limits", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/app/lib/limits")>()),
+  checkTransactionLimits: vi.fn(),
+}));
+
+vi.mock("next/cache", () => ({
+  revalidateTag: vi.fn(),
+}));
+
+const mockUser = {
+  id: 1,
+  internal_accounts: [
+    {
+      id: 1,
+      user_id: 1,
+      account_type: "checking",
+      is_active: true,
+      available_balance: new Decimal(20),
+    },
+    {
+      id: 2,
+      user_id: 1,
+      account_type: "savings",
+      is_active: true,
+      available_balance: new Decimal(500),
+    },
+  ],
+};
+
+function postTransferRequest(body: unknown) {
+  return POST(
+    new Request("http://localhost:3000/api/transfers/internal", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+describe("Internal Transfers API - POST /api/transfers/internal", () => {
+  // Changes made inside the transaction, kept only if it commits
+  let committed: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    committed = [];
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123" },
+    } as never);
+    mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+    vi.mocked(checkTransactionLimits).mockResolvedValue({ ok: true });
+    mockPrisma.$transaction.mockImplementation(
+      async (fn: (tx: typeof mockTx) => Promise<unknown>) => {
+        const changes: string[] = [];
+        mockTx.transferRule.create.mockImplementation(async () => {
+          changes.push("transfer_rule");
+          return { id: 7 };
+        });
+        const result = await fn(mockTx);
+        committed.push(...changes);
+        return result;
+      },
+    );
+    mockTx.transaction.create.mockImplementation(async ({ data }) => ({
+      id: data.direction === "outbound" ? 30 : 31,
+      ...data,
+    }));
+    vi.mocked(postTransfer).mockResolvedValue({
+      ok: true,
+      journal_entry: { id: 90 },
+    } as Awaited<ReturnType<typeof postTransfer>>);
+  });
+
+  it("covers a shortfall from overdraft protection before the debit", async () => {
+    const response = await postTransferRequest({
+      source_account_id: 1,
+      destination_account_id: 2,
+      amount: "100.00",
+    });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ transaction_id: 30, amount: "100.00" });
+    expect(sweepOverdraftProtection).toHaveBeenCalledWith(
+      mockTx,
+      1,
+      new Decimal(100),
+    );
+    expect(
+      vi.mocked(sweepOverdraftProtection).mock.invocationCallOrder[0],
+    ).toBeLessThan(vi.mocked(postTransfer).mock.invocationCallOrder[0]);
+    expect(committed).toEqual(["transfer_rule"]);
+  });
+
+  it("checks the limits inside the transaction before anything is written", async () => {
+    vi.mocked(checkTransactionLimits).mockResolvedValue({
+      ok: false,
+      limit_type: "per_transaction",
+      limit: new Decimal(50),
+      remaining: new Decimal(50),
+      resets_at: null,
+      error: "Per-transaction limit exceeded.",
+    });
+
+    const response = await postTransferRequest({
+      source_account_id: 1,
+      destination_account_id: 2,
+      amount: "100.00",
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      error: "Forbidden: Per-transaction limit exceeded.",
+      limit_type: "per_transaction",
+      remaining: "50.00",
+    });
+    expect(checkTransactionLimits).toHaveBeenCalledWith(
+      mockTx,
+      mockUser.internal_accounts[0],
+      "internal_transfer",
+      new Decimal(100),
+    );
+    expect(mockTx.transferRule.create).not.toHaveBeenCalled();
+    expect(postTransfer).not.toHaveBeenCalled();
+  });
+
+  it("rolls back the transfer rule when funds are insufficient", async () => {
+    vi.mocked(postTransfer).mockResolvedValue({
+      ok: false,
+      internal_account_id: 1,
+    } as Awaited<ReturnType<typeof postTransfer>>);
+
+    const response = await postTransferRequest({
+      source_account_id: 1,
+      destination_account_id: 2,
+      amount: "100.00",
+    });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: "Insufficient funds" });
+    expect(mockTx.transferRule.create).toHaveBeenCalled();
+    expect(mockTx.transaction.create).not.toHaveBeenCalled();
+    expect(committed).toEqual([]);
+  });
+});
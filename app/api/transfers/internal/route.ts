@@ -1,11 +1,27 @@
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { InternalTransferSchema } from "@/lib/schemas/transfer";
+import { postTransfer } from "@/app/lib/ledger";
+import { sweepOverdraftProtection } from "@/app/lib/overdraft";
+import {
+  checkTransactionLimits,
+  LimitExceededError,
+  limitExceededResponse,
+} from "@/app/lib/limits";
+import { toDecimal } from "@/app/lib/transactions";
+import {
+  getIdempotencyKey,
+  userIdempotencyScope,
+  withIdempotency,
+} from "@/app/lib/idempotency";
 
 // Configure route segment
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+// Thrown inside the transaction so the one-off transfer rule created for a denied transfer rolls back
+class InsufficientFundsError extends Error {}
+
 /**
  * @swagger
  * /api/transfers/internal:
@@ -16,6 +32,13 @@ export const revalidate = 0;
  *       - Internal Transfers
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
  *     requestBody:
  *       required: true
  *       content:
@@ -34,10 +57,9 @@ export const revalidate = 0;
  *                 type: integer
  *                 description: ID of the destination account
  *               amount:
- *                 type: integer
- *                 description: Amount in cents
- *                 minimum: 1
- *                 maximum: 999999999
+ *                 type: string
+ *                 description: Amount in dollars, at most $9,999,999.99
+ *                 example: "100.50"
  *     responses:
  *       200:
  *         description: Transfer executed successfully
@@ -53,11 +75,14 @@ export const revalidate = 0;
  *                 transaction_id:
  *                   type: integer
  *                 amount:
- *                   type: integer
+ *                   type: string
+ *                   example: "100.50"
  *       400:
  *         description: Bad Request - Invalid transfer details
  *       401:
  *         description: Unauthorized - Invalid or missing authentication token
+ *       403:
+ *         description: Forbidden - A transaction limit would be exceeded (the response includes limit_type, limit, remaining and resets_at)
  *       404:
  *         description: User not onboarded or account not found
  *       409:
@@ -69,6 +94,12 @@ export const revalidate = 0;
  */
 
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    createInternalTransfer(request),
+  );
+}
+
+async function createInternalTransfer(request: Request) {
   // Auth check
   const auth = await getAuthUserFromRequest(request);
   if (!auth.ok) {
@@ -183,54 +214,69 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check sufficient funds
-    // amount is in cents, balance is in dollars
-    const amountInDollars = amount / 100;
-    if (Number(sourceAccount.balance) < amountInDollars) {
-      return new Response(
-        JSON.stringify({
-          error: "Insufficient funds",
-        }),
-        {
-          headers: { "Content-Type": "application/json" },
-          status: 409,
-        },
-      );
-    }
-
     // Create transfer rule and execute transfer
     const result = await getPrisma().$transaction(async (tx) => {
+      // Checked under the source account's lock so concurrent transfers cannot share the allowance
+      const limitCheck = await checkTransactionLimits(
+        tx,
+        sourceAccount,
+        "internal_transfer",
+        toDecimal(amount),
+      );
+      if (!limitCheck.ok) {
+        throw new LimitExceededError(limitCheck);
+      }
+
       // Create a one-time transfer rule
       const transferRule = await tx.transferRule.create({
         data: {
           user_id: currentUser.id,
           transfer_kind: "one_off",
           direction: "outbound",
-          amount,
+          amount: toDecimal(amount),
           start_time: new Date(),
           run_at: new Date(), // Execute immediately
           source_internal_id: source_account_id,
           destination_internal_id: destination_account_id,
+          is_active: false, // Runs here, not in the scheduler
         },
       });
 
       // Execute the transfer by calling the existing transaction API logic
       // We'll simulate the transaction creation here since we can't call the API from within the API
-      const idempotency_key = `internal-transfer-${transferRule.id}-${Date.now()}`;
+      // Prefer the client's Idempotency-Key so the transaction rows are unique per request too
+      const idempotency_key =
+        getIdempotencyKey(request) ??
+        `internal-transfer-${transferRule.id}-${Date.now()}`;
 
-      // amount is in cents, convert to dollars for transaction and balance updates
-      const amountInDollars = amount / 100;
+      // Cover a shortfall from the linked savings account before the guarded debit
+      await sweepOverdraftProtection(tx, source_account_id, toDecimal(amount));
+
+      // Move the money through the journal (debit source, credit destination)
+      const posting = await postTransfer(tx, {
+        from: { internal_account_id: source_account_id },
+        to: { internal_account_id: destination_account_id },
+        amount: toDecimal(amount),
+        description: "Internal transfer",
+        guard_sufficient_funds: true,
+      });
+
+      if (!posting.ok) {
+        throw new InsufficientFundsError();
+      }
 
       // Create outbound transaction (from source account)
       const outboundTransaction = await tx.transaction.create({
         data: {
           internal_account_id: source_account_id,
-          amount: -amountInDollars, // Negative for outbound
+          amount: toDecimal(amount.signedFor("outbound")),
           transaction_type: "internal_transfer",
           direction: "outbound",
           status: "approved",
+          posted_at: new Date(),
           transfer_rule_id: transferRule.id,
           idempotency_key,
+          journal_entry_id: posting.journal_entry.id,
         },
       });
 
@@ -238,26 +284,17 @@ export async function POST(request: Request) {
       await tx.transaction.create({
         data: {
           internal_account_id: destination_account_id,
-          amount: amountInDollars, // Positive for inbound
+          amount: toDecimal(amount.signedFor("inbound")),
           transaction_type: "internal_transfer",
           direction: "inbound",
           status: "approved",
+          posted_at: new Date(),
           transfer_rule_id: transferRule.id,
           idempotency_key: `${idempotency_key}-inbound`,
+          journal_entry_id: posting.journal_entry.id,
         },
       });
 
-      // Update account balances
-      await tx.internalAccount.update({
-        where: { id: source_account_id },
-        data: { balance: { decrement: amountInDollars } },
-      });
-
-      await tx.internalAccount.update({
-        where: { id: destination_account_id },
-        data: { balance: { increment: amountInDollars } },
-      });
-
       return {
         success: true,
         message: "Internal transfer completed successfully",
@@ -281,6 +318,20 @@ export async function POST(request: Request) {
       headers: { "Content-Type": "application/json" },
     });
   } catch (error) {
+    if (error instanceof LimitExceededError) {
+      return limitExceededResponse(error.check);
+    }
+    if (error instanceof InsufficientFundsError) {
+      return new Response(
+        JSON.stringify({
+          error: "Insufficient funds",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 409,
+        },
+      );
+    }
     console.error("Error processing internal transfer:", error);
     return new Response(
       JSON.stringify({
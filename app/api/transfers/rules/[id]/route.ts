@@ -0,0 +1,447 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { TransferRuleUpdateSchema } from "@/lib/schemas/transfer";
+import { toDecimal } from "@/app/lib/transactions";
+import {
+  TRANSFER_RULE_INCLUDE,
+  formatTransferRule,
+  getFirstRunAt,
+} from "@/app/lib/transfer-rules";
+
+// Configure route segment
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/transfers/rules/{id}:
+ *   put:
+ *     summary: Update a scheduled transfer
+ *     description: Updates the amount or schedule of a scheduled transfer and recomputes its next run
+ *     tags:
+ *       - Transfers
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: string
+ *               run_at:
+ *                 type: string
+ *                 description: One-off transfers only
+ *               frequency:
+ *                 type: string
+ *                 description: Recurring transfers only
+ *               start_time:
+ *                 type: string
+ *                 description: Recurring transfers only
+ *               end_time:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Recurring transfers only
+ *     responses:
+ *       200:
+ *         description: Transfer rule updated successfully
+ *       400:
+ *         description: Bad Request
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not onboarded or rule not found
+ *       403:
+ *         description: Forbidden - Rule does not belong to user
+ *       500:
+ *         description: Internal Server Error
+ *   delete:
+ *     summary: Cancel a scheduled transfer
+ *     description: Cancels a scheduled transfer so it no longer runs. Transfers it has already made are kept.
+ *     tags:
+ *       - Transfers
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Transfer rule canceled successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not onboarded or rule not found
+ *       403:
+ *         description: Forbidden - Rule does not belong to user
+ *       500:
+ *         description: Internal Server Error
+ */
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  // Await params in Next.js 15
+  const { id } = await params;
+
+  // Auth check
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  // Get current user
+  const currentUser = await getPrisma().user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+  });
+
+  if (!currentUser) {
+    return new Response(
+      JSON.stringify({
+        error: { message: "User not onboarded" },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    const ruleId = parseInt(id, 10);
+    if (isNaN(ruleId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid rule ID",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Find rule and verify ownership. Finished and canceled rules cannot be edited.
+    const rule = await getPrisma().transferRule.findUnique({
+      where: { id: ruleId },
+      include: { scheduled_job: true },
+    });
+
+    if (!rule || !rule.is_active) {
+      return new Response(
+        JSON.stringify({
+          error: "Transfer rule not found",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 404,
+        },
+      );
+    }
+
+    if (rule.user_id !== currentUser.id) {
+      return new Response(
+        JSON.stringify({
+          error: "Forbidden: You do not have permission to update this rule",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 403,
+        },
+      );
+    }
+
+    // Parse and validate request body
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch (error) {
+      console.error("Error parsing JSON body:", error);
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        headers: { "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    const parseResult = TransferRuleUpdateSchema.safeParse(raw);
+    if (!parseResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request body",
+          details: parseResult.error.issues,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        },
+      );
+    }
+
+    const updateData = parseResult.data;
+
+    // One-off transfers only have a run time; recurring ones only have a frequency and window
+    const isOneOff = rule.transfer_kind === "one_off";
+    if (
+      isOneOff
+        ? updateData.frequency !== undefined ||
+          updateData.start_time !== undefined ||
+          updateData.end_time !== undefined
+        : updateData.run_at !== undefined
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: isOneOff
+            ? "One-off transfers can only change amount and run_at"
+            : "Recurring transfers cannot change run_at",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Determine the new schedule for validation
+    const runAt = updateData.run_at ? new Date(updateData.run_at) : rule.run_at;
+    const startTime = isOneOff
+      ? runAt!
+      : updateData.start_time
+        ? new Date(updateData.start_time)
+        : rule.start_time;
+    const endTime =
+      updateData.end_time !== undefined
+        ? updateData.end_time
+          ? new Date(updateData.end_time)
+          : null
+        : rule.end_time;
+
+    // Validate the new run or start time is in the future if being updated
+    if (
+      (updateData.run_at !== undefined ||
+        updateData.start_time !== undefined) &&
+      startTime <= new Date()
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: isOneOff
+            ? "Run time must be in the future"
+            : "Start time must be in the future",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Validate end_time is after start_time if both are provided
+    if (endTime && endTime <= startTime) {
+      return new Response(
+        JSON.stringify({
+          error: "End time must be after start time",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    const schedule = {
+      transfer_kind: rule.transfer_kind,
+      frequency: updateData.frequency ?? rule.frequency,
+      start_time: startTime,
+      end_time: endTime,
+      run_at: isOneOff ? runAt : null,
+    };
+
+    // Recompute the next run whenever the schedule changes
+    const scheduleChanged =
+      updateData.run_at !== undefined ||
+      updateData.frequency !== undefined ||
+      updateData.start_time !== undefined ||
+      updateData.end_time !== undefined;
+    const nextRunAt = scheduleChanged
+      ? getFirstRunAt(schedule)
+      : (rule.scheduled_job?.next_run_at ?? null);
+    if (!nextRunAt) {
+      return new Response(
+        JSON.stringify({
+          error: "Frequency does not run between start time and end time",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Update the rule
+    const updatedRule = await getPrisma().transferRule.update({
+      where: { id: ruleId },
+      data: {
+        ...schedule,
+        ...(updateData.amount !== undefined && {
+          amount: toDecimal(updateData.amount),
+        }),
+        ...(scheduleChanged && {
+          scheduled_job: {
+            upsert: {
+              create: { job_type: "transfer_rule", next_run_at: nextRunAt },
+              update: { next_run_at: nextRunAt },
+            },
+          },
+        }),
+      },
+      include: TRANSFER_RULE_INCLUDE,
+    });
+
+    return new Response(
+      JSON.stringify({ rule: formatTransferRule(updatedRule) }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 200,
+      },
+    );
+  } catch (error) {
+    console.error("Error updating transfer rule:", error);
+    return new Response(
+      JSON.stringify({
+        error: {
+          message: "Failed to update transfer rule",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  // Await params in Next.js 15
+  const { id } = await params;
+
+  // Auth check
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  // Get current user
+  const currentUser = await getPrisma().user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+  });
+
+  if (!currentUser) {
+    return new Response(
+      JSON.stringify({
+        error: { message: "User not onboarded" },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    const ruleId = parseInt(id, 10);
+    if (isNaN(ruleId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid rule ID",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Find rule and verify ownership
+    const rule = await getPrisma().transferRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!rule || !rule.is_active) {
+      return new Response(
+        JSON.stringify({
+          error: "Transfer rule not found",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 404,
+        },
+      );
+    }
+
+    if (rule.user_id !== currentUser.id) {
+      return new Response(
+        JSON.stringify({
+          error: "Forbidden: You do not have permission to cancel this rule",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 403,
+        },
+      );
+    }
+
+    // Keep the rule so its past transactions still point at it; it just stops running
+    await getPrisma().transferRule.update({
+      where: { id: ruleId },
+      data: {
+        is_active: false,
+        scheduled_job: { update: { next_run_at: null } },
+      },
+    });
+
+    return new Response(
+      JSON.stringify({
+        message: "Transfer rule canceled successfully",
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 200,
+      },
+    );
+  } catch (error) {
+    console.error("Error canceling transfer rule:", error);
+    return new Response(
+      JSON.stringify({
+        error: {
+          message: "Failed to cancel transfer rule",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+}
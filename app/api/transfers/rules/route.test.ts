@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { POST } from "@/app/api/transfers/rules/route";
+import { getAuthUserFromRequest } from "@/lib/auth";
+
+// Mock the Prisma client
+const mockPrisma = {
+  user: {
+    findUnique: vi.fn(),
+  },
+  transferRule: {
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+};
+
+// Mock the getPrisma function
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+// Mock auth helper
+vi.mock("@/lib/auth", () => ({
+  getAuthUserFromRequest: vi.fn(),
+}));
+
+const mockUser = {
+  id: 1,
+  internal_accounts: [
+    { id: 1, account_number: "1000000001", is_active: true },
+    { id: 2, account_number: "1000000002", is_active: true },
+    { id: 3, account_number: "1000000003", is_active: false },
+  ],
+  external_accounts: [
+    {
+      id: 5,
+      nickname: "Credit union",
+      account_number: "555000111",
+      routing_number: "021000021",
+    },
+  ],
+};
+
+function postRule(body: unknown) {
+  return POST(
+    new Request("http://localhost:3000/api/transfers/rules", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+describe("Transfer Rules API - POST /api/transfers/rules", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "user-123" },
+    } as never);
+    mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+    mockPrisma.transferRule.create.mockImplementation(async ({ data }) => ({
+      id: 9,
+      ...data,
+      scheduled_job: { ...data.scheduled_job.create, last_run_at: null },
+      destination_internal: mockUser.internal_accounts.find(
+        (acc) => acc.id === data.destination_internal_id,
+      ),
+      destination_external: mockUser.external_accounts.find(
+        (acc) => acc.id === data.destination_external_id,
+      ),
+    }));
+  });
+
+  it("schedules a recurring transfer at its first run", async () => {
+    const response = await postRule({
+      source_account_id: 1,
+      destination_account_id: 2,
+      amount: "250.00",
+      transfer_kind: "recurring",
+      frequency: "0 9 1 * *",
+      start_time: "2099-01-01T00:00:00Z",
+    });
+    const data = (await response.json()) as {
+      rule: Record<string, unknown>;
+    };
+
+    expect(response.status).toBe(201);
+    expect(mockPrisma.transferRule.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          user_id: 1,
+          direction: "outbound",
+          source_internal_id: 1,
+          destination_internal_id: 2,
+          destination_external_id: null,
+          scheduled_job: {
+            create: {
+              job_type: "transfer_rule",
+              next_run_at: new Date("2099-01-01T09:00:00Z"),
+            },
+          },
+        }),
+      }),
+    );
+    expect(data.rule).toMatchObject({
+      id: 9,
+      amount: "250.00",
+      destination_label: "****0002",
+      next_run_at: "2099-01-01T09:00:00.000Z",
+    });
+  });
+
+  it("schedules a one-off transfer to a saved external account", async () => {
+    const response = await postRule({
+      source_account_id: 1,
+      destination_external_account_id: 5,
+      amount: "75.00",
+      transfer_kind: "one_off",
+      run_at: "2099-02-15T12:00:00Z",
+    });
+    const data = (await response.json()) as {
+      rule: Record<string, unknown>;
+    };
+
+    expect(response.status).toBe(201);
+    expect(data.rule).toMatchObject({
+      transfer_kind: "one_off",
+      destination_external_id: 5,
+      destination_label: "Credit union",
+      next_run_at: "2099-02-15T12:00:00.000Z",
+    });
+  });
+
+  it("returns 404 for an account that is not the user's", async () => {
+    const response = await postRule({
+      source_account_id: 1,
+      destination_external_account_id: 99,
+      amount: "75.00",
+      transfer_kind: "one_off",
+      run_at: "2099-02-15T12:00:00Z",
+    });
+
+    expect(response.status).toBe(404);
+    expect(mockPrisma.transferRule.create).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an inactive destination", async () => {
+    const response = await postRule({
+      source_account_id: 1,
+      destination_account_id: 3,
+      amount: "75.00",
+      transfer_kind: "one_off",
+      run_at: "2099-02-15T12:00:00Z",
+    });
+    const data = (await response.json()) as { error: string };
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Destination account is inactive");
+  });
+
+  it("returns 400 when the transfer is not in the future", async () => {
+    const response = await postRule({
+      source_account_id: 1,
+      destination_account_id: 2,
+      amount: "75.00",
+      transfer_kind: "one_off",
+      run_at: "2020-01-01T00:00:00Z",
+    });
+    const data = (await response.json()) as { error: string };
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Run time must be in the future");
+  });
+
+  it("returns 400 when the frequency never fires before the end time", async () => {
+    const response = await postRule({
+      source_account_id: 1,
+      destination_account_id: 2,
+      amount: "75.00",
+      transfer_kind: "recurring",
+      frequency: "0 9 1 * *",
+      start_time: "2099-01-02T00:00:00Z",
+      end_time: "2099-01-20T00:00:00Z",
+    });
+
+    expect(response.status).toBe(400);
+    expect(mockPrisma.transferRule.create).not.toHaveBeenCalled();
+  });
+
+  it("returns 422 for an invalid body", async () => {
+    const response = await postRule({
+      source_account_id: 1,
+      amount: "75.00",
+      transfer_kind: "one_off",
+    });
+
+    expect(response.status).toBe(422);
+  });
+});
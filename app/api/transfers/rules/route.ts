@@ -0,0 +1,388 @@
+import { getPrisma } from "@/app/lib/prisma";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { TransferRuleCreateSchema } from "@/lib/schemas/transfer";
+import { toDecimal } from "@/app/lib/transactions";
+import {
+  TRANSFER_RULE_INCLUDE,
+  formatTransferRule,
+  getFirstRunAt,
+} from "@/app/lib/transfer-rules";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
+
+// Configure route segment
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * @swagger
+ * /api/transfers/rules:
+ *   get:
+ *     summary: Get user's scheduled transfers
+ *     description: Retrieves the authenticated user's active one-off and recurring transfer rules
+ *     tags:
+ *       - Transfers
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved transfer rules
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not onboarded
+ *   post:
+ *     summary: Schedule a transfer
+ *     description: Schedules a future-dated or recurring transfer from one of the user's accounts to another of their accounts or to a saved external account
+ *     tags:
+ *       - Transfers
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Optional key that makes retries safe. A retry with the same key replays the first response; reusing the key for a different request returns 422.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - source_account_id
+ *               - amount
+ *               - transfer_kind
+ *             properties:
+ *               source_account_id:
+ *                 type: integer
+ *               destination_account_id:
+ *                 type: integer
+ *               destination_external_account_id:
+ *                 type: integer
+ *               amount:
+ *                 type: string
+ *               transfer_kind:
+ *                 type: string
+ *                 enum: [one_off, recurring]
+ *               run_at:
+ *                 type: string
+ *                 description: When a one-off transfer runs
+ *               frequency:
+ *                 type: string
+ *                 description: Cron expression (UTC) for a recurring transfer
+ *               start_time:
+ *                 type: string
+ *               end_time:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Transfer rule created successfully
+ *       400:
+ *         description: Bad Request
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not onboarded or account not found
+ *       422:
+ *         description: Invalid request body
+ *       500:
+ *         description: Internal Server Error
+ */
+
+export async function GET(request: Request) {
+  // Auth check
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  // Get current user
+  const currentUser = await getPrisma().user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+  });
+
+  if (!currentUser) {
+    return new Response(
+      JSON.stringify({
+        error: { message: "User not onboarded" },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    // Get user's scheduled transfers (immediate transfers are stored as inactive rules)
+    const rules = await getPrisma().transferRule.findMany({
+      where: { user_id: currentUser.id, is_active: true },
+      include: TRANSFER_RULE_INCLUDE,
+      orderBy: { scheduled_job: { next_run_at: "asc" } },
+    });
+
+    return new Response(
+      JSON.stringify({ rules: rules.map(formatTransferRule) }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "private, no-cache, no-store, must-revalidate",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("Error fetching transfer rules:", error);
+    return new Response(
+      JSON.stringify({
+        error: {
+          message: "Failed to fetch transfer rules",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    createTransferRule(request),
+  );
+}
+
+async function createTransferRule(request: Request) {
+  // Auth check
+  const auth = await getAuthUserFromRequest(request);
+  if (!auth.ok) {
+    return new Response(JSON.stringify(auth.body), {
+      headers: { "Content-Type": "application/json" },
+      status: auth.status,
+    });
+  }
+
+  // Get current user
+  const currentUser = await getPrisma().user.findUnique({
+    where: { auth_user_id: auth.supabaseUser.id },
+    include: { internal_accounts: true, external_accounts: true },
+  });
+
+  if (!currentUser) {
+    return new Response(
+      JSON.stringify({
+        error: { message: "User not onboarded" },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    // Parse and validate request body
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch (error) {
+      console.error("Error parsing JSON body:", error);
+      return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+        headers: { "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    const parseResult = TransferRuleCreateSchema.safeParse(raw);
+    if (!parseResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid request body",
+          details: parseResult.error.issues,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 422,
+        },
+      );
+    }
+
+    const ruleData = parseResult.data;
+
+    // Verify source account belongs to the user
+    const sourceAccount = currentUser.internal_accounts.find(
+      (acc) => acc.id === ruleData.source_account_id,
+    );
+
+    if (!sourceAccount) {
+      return new Response(
+        JSON.stringify({
+          error: "Source account not found or does not belong to user",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 404,
+        },
+      );
+    }
+
+    if (!sourceAccount.is_active) {
+      return new Response(
+        JSON.stringify({
+          error: "Source account is inactive",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Verify the destination belongs to the user
+    if (ruleData.destination_account_id !== undefined) {
+      const destinationAccount = currentUser.internal_accounts.find(
+        (acc) => acc.id === ruleData.destination_account_id,
+      );
+
+      if (!destinationAccount) {
+        return new Response(
+          JSON.stringify({
+            error: "Destination account not found or does not belong to user",
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+            status: 404,
+          },
+        );
+      }
+
+      if (!destinationAccount.is_active) {
+        return new Response(
+          JSON.stringify({
+            error: "Destination account is inactive",
+          }),
+          {
+            headers: { "Content-Type": "application/json" },
+            status: 400,
+          },
+        );
+      }
+    } else if (
+      !currentUser.external_accounts.some(
+        (acc) => acc.id === ruleData.destination_external_account_id,
+      )
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: "External account not found or does not belong to user",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 404,
+        },
+      );
+    }
+
+    // A one-off transfer starts when it runs
+    const startTime = new Date(
+      ruleData.transfer_kind === "one_off"
+        ? ruleData.run_at!
+        : ruleData.start_time!,
+    );
+    const schedule = {
+      transfer_kind: ruleData.transfer_kind,
+      frequency:
+        ruleData.transfer_kind === "recurring" ? ruleData.frequency! : null,
+      start_time: startTime,
+      end_time:
+        ruleData.transfer_kind === "recurring" && ruleData.end_time
+          ? new Date(ruleData.end_time)
+          : null,
+      run_at: ruleData.transfer_kind === "one_off" ? startTime : null,
+    };
+
+    // Validate the transfer is scheduled in the future
+    if (startTime <= new Date()) {
+      return new Response(
+        JSON.stringify({
+          error:
+            schedule.transfer_kind === "one_off"
+              ? "Run time must be in the future"
+              : "Start time must be in the future",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    // Validate end_time is after start_time if provided
+    if (schedule.end_time && schedule.end_time <= startTime) {
+      return new Response(
+        JSON.stringify({
+          error: "End time must be after start time",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    const nextRunAt = getFirstRunAt(schedule);
+    if (!nextRunAt) {
+      return new Response(
+        JSON.stringify({
+          error: "Frequency does not run between start time and end time",
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+          status: 400,
+        },
+      );
+    }
+
+    const rule = await getPrisma().transferRule.create({
+      data: {
+        user_id: currentUser.id,
+        ...schedule,
+        direction: "outbound",
+        amount: toDecimal(ruleData.amount),
+        source_internal_id: ruleData.source_account_id,
+        destination_internal_id: ruleData.destination_account_id ?? null,
+        destination_external_id:
+          ruleData.destination_external_account_id ?? null,
+        scheduled_job: {
+          create: { job_type: "transfer_rule", next_run_at: nextRunAt },
+        },
+      },
+      include: TRANSFER_RULE_INCLUDE,
+    });
+
+    return new Response(JSON.stringify({ rule: formatTransferRule(rule) }), {
+      headers: { "Content-Type": "application/json" },
+      status: 201,
+    });
+  } catch (error) {
+    console.error("Error creating transfer rule:", error);
+    return new Response(
+      JSON.stringify({
+        error: {
+          message: "Failed to create transfer rule",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      },
+    );
+  }
+}
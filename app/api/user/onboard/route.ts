@@ -2,6 +2,7 @@ import { z } from "zod";
 import { getPrisma } from "@/app/lib/prisma";
 import { getAuthUserFromRequest } from "@/lib/auth";
 import { RoleEnum, USStateTerritory } from "@prisma/client";
+import { withIdempotency, userIdempotencyScope } from "@/app/lib/idempotency";
 
 const OnboardSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
@@ -28,6 +29,12 @@ const OnboardSchema = z.object({
 });
 
 export async function POST(request: Request) {
+  return withIdempotency(request, userIdempotencyScope, () =>
+    onboardUser(request),
+  );
+}
+
+async function onboardUser(request: Request) {
   try {
     // parse body
     let body: unknown;
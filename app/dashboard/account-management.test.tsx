@@ -12,6 +12,11 @@ vi.mock("@/utils/supabase/client", () => ({
   }),
 }));
 
+// Statements are covered in account-statements.test.tsx
+vi.mock("./account-statements", () => ({
+  AccountStatements: () => null,
+}));
+
 // Mock fetch
 global.fetch = vi.fn();
 
@@ -28,7 +33,8 @@ describe("AccountManagement", () => {
         account_number: "12345678901234567",
         routing_number: "724722907",
         account_type: "checking" as const,
-        balance: 10000,
+        balance: "10000.00",
+        available_balance: "10000.00",
         is_active: true,
         created_at: "2024-01-01T00:00:00.000Z",
       },
@@ -37,7 +43,8 @@ describe("AccountManagement", () => {
         account_number: "98765432109876543",
         routing_number: "724722907",
         account_type: "savings" as const,
-        balance: 50000,
+        balance: "50000.00",
+        available_balance: "50000.00",
         is_active: true,
         created_at: "2024-01-02T00:00:00.000Z",
       },
@@ -86,6 +93,26 @@ describe("AccountManagement", () => {
     expect(routingNumbers.length).toBeGreaterThan(0);
   });
 
+  it("shows the ledger balance when funds are on hold", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        accounts: [
+          { ...mockAccounts.accounts[0], available_balance: "9750.00" },
+        ],
+      }),
+    } as Response);
+
+    render(<AccountManagement />);
+
+    await waitFor(() => {
+      expect(screen.getByText("$9,750.00")).toBeInTheDocument();
+    });
+
+    expect(screen.getByText("Ledger Balance")).toBeInTheDocument();
+    expect(screen.getByText("$10,000.00")).toBeInTheDocument();
+  });
+
   it("displays error when fetch fails", async () => {
     vi.mocked(fetch).mockResolvedValueOnce({
       ok: false,
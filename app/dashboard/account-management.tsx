@@ -5,14 +5,25 @@ import { createClient } from "@/utils/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Copy, CheckCircle2 } from "lucide-react";
+import { Money } from "@/lib/money";
+import { AccountStatements } from "./account-statements";
 
 interface InternalAccount {
   id: number;
   account_number: string;
   routing_number: string;
   account_type: "checking" | "savings";
-  balance: number;
+  balance: string; // Dollars from Money, e.g. "1250.00"
+  available_balance: string;
+  overdraft_protection_account_id: number | null;
   is_active: boolean;
   created_at: string;
 }
@@ -22,6 +33,7 @@ export function AccountManagement() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [savingProtection, setSavingProtection] = useState<number | null>(null);
 
   useEffect(() => {
     fetchAccounts();
@@ -62,13 +74,66 @@ export function AccountManagement() {
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
+  const updateOverdraftProtection = async (
+    accountId: number,
+    savingsAccountId: number | null,
+  ) => {
+    try {
+      setSavingProtection(accountId);
+      setError(null);
+
+      const supabase = createClient();
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        setError("Not authenticated");
+        return;
+      }
+
+      const response = await fetch(
+        `/api/accounts/internal/${accountId}/overdraft-protection`,
+        savingsAccountId === null
+          ? {
+              method: "DELETE",
+              headers: { Authorization: `Bearer ${session.access_token}` },
+            }
+          : {
+              method: "PUT",
+              headers: {
+                Authorization: `Bearer ${session.access_token}`,
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({ savings_account_id: savingsAccountId }),
+            },
+      );
+
+      if (!response.ok) {
+        const data = (await response.json()) as { error?: string };
+        throw new Error(data.error || "Failed to update overdraft protection");
+      }
+
+      setAccounts((current) =>
+        current.map((account) =>
+          account.id === accountId
+            ? { ...account, overdraft_protection_account_id: savingsAccountId }
+            : account,
+        ),
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to update overdraft protection",
+      );
+    } finally {
+      setSavingProtection(null);
+    }
   };
 
+  const formatCurrency = (amount: string) => Money.from(amount).format();
+
   const copyToClipboard = async (text: string, field: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -204,14 +269,76 @@ export function AccountManagement() {
                           Available Balance
                         </span>
                         <span className="text-2xl font-bold text-card-foreground">
-                          {formatCurrency(account.balance)}
+                          {formatCurrency(account.available_balance)}
                         </span>
                       </div>
+                      {account.available_balance !== account.balance && (
+                        <div className="mt-1 flex items-center justify-between text-sm text-muted-foreground">
+                          <span>Ledger Balance</span>
+                          <span>{formatCurrency(account.balance)}</span>
+                        </div>
+                      )}
                       <p className="mt-1 text-xs text-muted-foreground">
                         Account created:{" "}
                         {new Date(account.created_at).toLocaleDateString()}
                       </p>
                     </div>
+
+                    {account.account_type === "checking" &&
+                      account.is_active && (
+                        <div className="border-t pt-4">
+                          <label className="mb-1 text-sm font-medium text-muted-foreground">
+                            Overdraft Protection
+                          </label>
+                          <p className="mb-2 text-xs text-muted-foreground">
+                            Cover shortfalls on this account automatically from
+                            a linked savings account.
+                          </p>
+                          <Select
+                            value={
+                              account.overdraft_protection_account_id
+                                ? String(
+                                    account.overdraft_protection_account_id,
+                                  )
+                                : "none"
+                            }
+                            onValueChange={(value) =>
+                              updateOverdraftProtection(
+                                account.id,
+                                value === "none" ? null : parseInt(value, 10),
+                              )
+                            }
+                            disabled={savingProtection === account.id}
+                          >
+                            <SelectTrigger
+                              aria-label="Overdraft protection account"
+                              className="w-full md:w-72"
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Not linked</SelectItem>
+                              {accounts
+                                .filter(
+                                  (savings) =>
+                                    savings.account_type === "savings" &&
+                                    savings.is_active,
+                                )
+                                .map((savings) => (
+                                  <SelectItem
+                                    key={savings.id}
+                                    value={String(savings.id)}
+                                  >
+                                    Savings ****
+                                    {savings.account_number.slice(-4)}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                    <AccountStatements accountId={account.id} />
                   </CardContent>
                 </Card>
               ))}
@@ -0,0 +1,124 @@
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AccountStatements } from "./account-statements";
+
+// Mock supabase client
+const mockGetSession = vi.fn();
+vi.mock("@/utils/supabase/client", () => ({
+  createClient: () => ({
+    auth: {
+      getSession: mockGetSession,
+    },
+  }),
+}));
+
+// Mock fetch
+global.fetch = vi.fn();
+
+describe("AccountStatements", () => {
+  const mockStatements = {
+    statements: [
+      {
+        id: 7,
+        period_start: "2025-11-01T00:00:00.000Z",
+        period_end: "2025-11-30T00:00:00.000Z",
+        opening_balance: "100.00",
+        closing_balance: "250.50",
+        total_credits: "200.50",
+        total_debits: "50.00",
+        transaction_count: 3,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetSession.mockResolvedValue({
+      data: { session: { access_token: "mock-token-123" } },
+    });
+  });
+
+  it("lists the account's statements", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => mockStatements,
+    } as Response);
+
+    render(<AccountStatements accountId={1} />);
+
+    await waitFor(() => {
+      expect(screen.getByText("November 2025")).toBeInTheDocument();
+    });
+    expect(screen.getByText(/\$100\.00 → \$250\.50/)).toBeInTheDocument();
+    expect(fetch).toHaveBeenCalledWith("/api/accounts/internal/1/statements", {
+      headers: { Authorization: "Bearer mock-token-123" },
+    });
+  });
+
+  it("shows a note when there are no statements yet", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ statements: [] }),
+    } as Response);
+
+    render(<AccountStatements accountId={1} />);
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Statements are issued after the end of each month."),
+      ).toBeInTheDocument();
+    });
+  });
+
+  it("downloads the statement PDF", async () => {
+    const createObjectURL = vi.fn().mockReturnValue("blob:statement");
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, "click")
+      .mockImplementation(() => {});
+
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockStatements,
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        blob: async () => new Blob(["%PDF"]),
+      } as Response);
+
+    render(<AccountStatements accountId={1} />);
+
+    fireEvent.click(
+      await screen.findByRole("button", {
+        name: "Download November 2025 statement",
+      }),
+    );
+
+    await waitFor(() => {
+      expect(click).toHaveBeenCalled();
+    });
+    expect(fetch).toHaveBeenLastCalledWith("/api/statements/7/pdf", {
+      headers: { Authorization: "Bearer mock-token-123" },
+    });
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:statement");
+
+    click.mockRestore();
+  });
+
+  it("shows an error when statements fail to load", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({}),
+    } as Response);
+
+    render(<AccountStatements accountId={1} />);
+
+    await waitFor(() => {
+      expect(screen.getByRole("alert")).toHaveTextContent(
+        "Failed to fetch statements",
+      );
+    });
+  });
+});
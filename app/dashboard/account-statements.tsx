@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { Money } from "@/lib/money";
+
+interface Statement {
+  id: number;
+  period_start: string;
+  period_end: string;
+  opening_balance: string; // Dollars from Money, e.g. "1250.00"
+  closing_balance: string;
+  total_credits: string;
+  total_debits: string;
+  transaction_count: number;
+}
+
+export function AccountStatements({ accountId }: { accountId: number }) {
+  const [statements, setStatements] = useState<Statement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<number | null>(null);
+
+  const getAccessToken = async () => {
+    const supabase = createClient();
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    return session?.access_token ?? null;
+  };
+
+  const fetchStatements = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        setError("Not authenticated");
+        return;
+      }
+
+      const response = await fetch(
+        `/api/accounts/internal/${accountId}/statements`,
+        { headers: { Authorization: `Bearer ${accessToken}` } },
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch statements");
+      }
+
+      const data = (await response.json()) as { statements: Statement[] };
+      setStatements(data.statements);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch statements",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchStatements();
+  }, [fetchStatements]);
+
+  const downloadStatement = async (statement: Statement) => {
+    try {
+      setDownloading(statement.id);
+      setError(null);
+
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        setError("Not authenticated");
+        return;
+      }
+
+      const response = await fetch(`/api/statements/${statement.id}/pdf`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to download statement");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `statement-${statement.period_start.slice(0, 7)}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to download statement",
+      );
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const formatCurrency = (amount: string) => Money.from(amount).format();
+
+  const formatPeriod = (periodStart: string) => {
+    return new Date(periodStart).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      timeZone: "UTC",
+    });
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <label className="mb-1 text-sm font-medium text-muted-foreground">
+        Statements
+      </label>
+      {error && (
+        <p className="mb-2 text-xs text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading statements...</p>
+      ) : statements.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Statements are issued after the end of each month.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {statements.map((statement) => (
+            <li
+              key={statement.id}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <div>
+                <p className="font-medium text-card-foreground">
+                  {formatPeriod(statement.period_start)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(statement.opening_balance)} →{" "}
+                  {formatCurrency(statement.closing_balance)} ·{" "}
+                  {statement.transaction_count} transaction
+                  {statement.transaction_count === 1 ? "" : "s"}
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => downloadStatement(statement)}
+                disabled={downloading === statement.id}
+                aria-label={`Download ${formatPeriod(statement.period_start)} statement`}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
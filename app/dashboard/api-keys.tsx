@@ -28,7 +28,7 @@ interface InternalAccount {
   id: number;
   account_number: string;
   account_type: "checking" | "savings";
-  balance: number;
+  balance: string;
   is_active: boolean;
 }
 
@@ -18,23 +18,74 @@ import {
   Loader2,
   CheckCircle2,
   AlertCircle,
+  Clock,
 } from "lucide-react";
 import { validateCheckImage } from "@/app/lib/checks-client";
+import { Money } from "@/lib/money";
+import { CurrencyInputField } from "./transfers/currency-input";
 
 interface InternalAccount {
   id: number;
   account_number: string;
   account_type: "checking" | "savings";
-  balance: number;
+  balance: string;
   is_active: boolean;
 }
 
+type CheckSide = "front" | "back";
+
+interface CheckImage {
+  file: File;
+  preview: string;
+}
+
+const CHECK_SIDES: { side: CheckSide; label: string; hint?: string }[] = [
+  { side: "front", label: "Front of Check" },
+  {
+    side: "back",
+    label: "Back of Check",
+    hint: 'Sign the back and write "For Mobile Deposit Only" under your signature.',
+  },
+];
+
+const NO_IMAGES: Record<CheckSide, CheckImage | null> = {
+  front: null,
+  back: null,
+};
+
+interface Availability {
+  amount: string;
+  available_at: string;
+}
+
+interface CheckHold extends Availability {
+  id: number;
+  transaction_id: number | null;
+  account_number: string;
+}
+
+interface CheckReview {
+  id: number;
+  transaction_id: number;
+  account_number: string;
+  status: "open" | "approved" | "rejected";
+  amount: string;
+  approved_amount: string | null;
+  rejection_reason: string | null;
+  submitted_at: string;
+  decided_at: string | null;
+}
+
 interface DepositResult {
   status: string;
   transaction_id?: number;
-  amount?: number;
+  amount?: string; // Dollars from Money, e.g. "125.50"
+  under_review?: boolean;
+  availability?: Availability[];
   validation_result?: {
-    extracted_amount: number;
+    extracted_amount: string;
+    entered_amount?: string;
+    endorsement?: string;
     routing_number?: string;
     account_number?: string;
     check_number?: string;
@@ -42,24 +93,33 @@ interface DepositResult {
     payor_name?: string;
   };
   error?: string;
+  message?: string;
 }
 
 export function CheckDeposit() {
   const [accounts, setAccounts] = useState<InternalAccount[]>([]);
   const [selectedAccount, setSelectedAccount] = useState<string>("");
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [images, setImages] =
+    useState<Record<CheckSide, CheckImage | null>>(NO_IMAGES);
+  const [amount, setAmount] = useState("");
   const [uploading, setUploading] = useState(false);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<DepositResult | null>(null);
-  const [cameraActive, setCameraActive] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [holds, setHolds] = useState<CheckHold[]>([]);
+  const [reviews, setReviews] = useState<CheckReview[]>([]);
+  const [cameraSide, setCameraSide] = useState<CheckSide | null>(null);
+  const fileInputRefs = {
+    front: useRef<HTMLInputElement>(null),
+    back: useRef<HTMLInputElement>(null),
+  };
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
   useEffect(() => {
     fetchAccounts();
+    fetchHolds();
+    fetchReviews();
     return () => {
       // Cleanup camera stream on unmount
       if (streamRef.current) {
@@ -112,7 +172,63 @@ export function CheckDeposit() {
     }
   };
 
-  const handleFileSelect = async (file: File) => {
+  const fetchHolds = async () => {
+    try {
+      const supabase = createClient();
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        return;
+      }
+
+      const response = await fetch("/api/checks/holds", {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        return;
+      }
+
+      const data = (await response.json()) as { holds: CheckHold[] };
+      setHolds(data.holds || []);
+    } catch (err) {
+      console.error("Failed to load check holds:", err);
+    }
+  };
+
+  const fetchReviews = async () => {
+    try {
+      const supabase = createClient();
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        return;
+      }
+
+      const response = await fetch("/api/checks/reviews", {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        return;
+      }
+
+      const data = (await response.json()) as { reviews: CheckReview[] };
+      setReviews(data.reviews || []);
+    } catch (err) {
+      console.error("Failed to load check reviews:", err);
+    }
+  };
+
+  const handleFileSelect = async (side: CheckSide, file: File) => {
     setError(null);
     setSuccess(null);
 
@@ -123,36 +239,43 @@ export function CheckDeposit() {
       return;
     }
 
-    setImageFile(file);
-
     // Create preview
     const reader = new FileReader();
     reader.onloadend = () => {
-      setImagePreview(reader.result as string);
+      setImages((current) => ({
+        ...current,
+        [side]: { file, preview: reader.result as string },
+      }));
     };
     reader.readAsDataURL(file);
   };
 
   const handleFileInputChange = (
+    side: CheckSide,
     event: React.ChangeEvent<HTMLInputElement>,
   ) => {
     const file = event.target.files?.[0];
     if (file) {
-      handleFileSelect(file);
+      handleFileSelect(side, file);
+    }
+  };
+
+  const clearImage = (side: CheckSide) => {
+    setImages((current) => ({ ...current, [side]: null }));
+    const input = fileInputRefs[side].current;
+    if (input) {
+      input.value = "";
     }
   };
 
-  const startCamera = async () => {
+  const startCamera = async (side: CheckSide) => {
     try {
       setError(null);
       const stream = await navigator.mediaDevices.getUserMedia({
         video: { facingMode: "environment" }, // Use back camera on mobile
       });
       streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        setCameraActive(true);
-      }
+      setCameraSide(side);
     } catch (err) {
       setError(
         err instanceof Error
@@ -162,16 +285,24 @@ export function CheckDeposit() {
     }
   };
 
+  // Attach the stream once the video element for the side being captured is rendered
+  useEffect(() => {
+    if (cameraSide && videoRef.current && streamRef.current) {
+      videoRef.current.srcObject = streamRef.current;
+    }
+  }, [cameraSide]);
+
   const stopCamera = () => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop());
       streamRef.current = null;
     }
-    setCameraActive(false);
+    setCameraSide(null);
   };
 
   const capturePhoto = () => {
-    if (!videoRef.current) return;
+    if (!videoRef.current || !cameraSide) return;
+    const side = cameraSide;
 
     const canvas = document.createElement("canvas");
     canvas.width = videoRef.current.videoWidth;
@@ -182,18 +313,53 @@ export function CheckDeposit() {
     ctx.drawImage(videoRef.current, 0, 0);
     canvas.toBlob((blob) => {
       if (blob) {
-        const file = new File([blob], "check-photo.jpg", {
+        const file = new File([blob], `check-${side}.jpg`, {
           type: "image/jpeg",
         });
-        handleFileSelect(file);
+        handleFileSelect(side, file);
         stopCamera();
       }
     }, "image/jpeg");
   };
 
+  const uploadImage = async (
+    file: File,
+    side: CheckSide,
+    accessToken: string,
+  ) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("side", side);
+
+    const uploadResponse = await fetch("/api/checks/upload", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: formData,
+    });
+
+    if (!uploadResponse.ok) {
+      const errorData = (await uploadResponse.json()) as { error: string };
+      throw new Error(errorData.error || "Failed to upload image");
+    }
+
+    const uploadData = (await uploadResponse.json()) as {
+      image_url: string;
+      upload_id: string;
+    };
+    return uploadData.image_url;
+  };
+
   const handleUpload = async () => {
-    if (!imageFile || !selectedAccount) {
-      setError("Please select an account and upload a check image");
+    if (!images.front || !images.back || !selectedAccount) {
+      setError("Please select an account and upload both sides of the check");
+      return;
+    }
+
+    const enteredAmount = Money.parse(amount);
+    if (!enteredAmount || enteredAmount.toCents() < 1) {
+      setError("Please enter the amount of the check");
       return;
     }
 
@@ -211,27 +377,17 @@ export function CheckDeposit() {
         throw new Error("Not authenticated");
       }
 
-      // Upload image
-      const formData = new FormData();
-      formData.append("file", imageFile);
-
-      const uploadResponse = await fetch("/api/checks/upload", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${session.access_token}`,
-        },
-        body: formData,
-      });
-
-      if (!uploadResponse.ok) {
-        const errorData = (await uploadResponse.json()) as { error: string };
-        throw new Error(errorData.error || "Failed to upload image");
-      }
-
-      const uploadData = (await uploadResponse.json()) as {
-        image_url: string;
-        upload_id: string;
-      };
+      // Upload both sides of the check
+      const frontImageUrl = await uploadImage(
+        images.front.file,
+        "front",
+        session.access_token,
+      );
+      const backImageUrl = await uploadImage(
+        images.back.file,
+        "back",
+        session.access_token,
+      );
 
       // Process deposit
       setUploading(false);
@@ -244,7 +400,9 @@ export function CheckDeposit() {
           Authorization: `Bearer ${session.access_token}`,
         },
         body: JSON.stringify({
-          check_image_url: uploadData.image_url,
+          check_image_url: frontImageUrl,
+          check_back_image_url: backImageUrl,
+          amount: enteredAmount.toString(),
           destination_account_number: selectedAccount,
         }),
       });
@@ -252,15 +410,21 @@ export function CheckDeposit() {
       const depositData = (await depositResponse.json()) as DepositResult;
 
       if (!depositResponse.ok) {
-        throw new Error(depositData.error || "Failed to process check deposit");
+        throw new Error(
+          depositData.message ||
+            depositData.error ||
+            "Failed to process check deposit",
+        );
       }
 
       setSuccess(depositData);
-      setImageFile(null);
-      setImagePreview(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
+      fetchHolds();
+      if (depositData.under_review) {
+        fetchReviews();
       }
+      clearImage("front");
+      clearImage("back");
+      setAmount("");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to process check");
     } finally {
@@ -269,11 +433,14 @@ export function CheckDeposit() {
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
+  const formatCurrency = (amount: string) => Money.from(amount).format();
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
   };
 
   return (
@@ -304,104 +471,123 @@ export function CheckDeposit() {
             </Select>
           </div>
 
-          {/* Image Upload Section */}
+          {/* Amount */}
           <div>
-            <label className="mb-2 block text-sm font-medium">
-              Check Image
+            <label
+              htmlFor="check-amount"
+              className="mb-2 block text-sm font-medium"
+            >
+              Check Amount
             </label>
+            <CurrencyInputField
+              id="check-amount"
+              value={amount}
+              onChange={setAmount}
+            />
+          </div>
 
-            {!imagePreview && !cameraActive && (
-              <div className="space-y-4">
-                <div className="flex gap-4">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => fileInputRef.current?.click()}
-                    className="flex-1"
-                  >
-                    <Upload className="mr-2 h-4 w-4" />
-                    Upload Image
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={startCamera}
-                    className="flex-1"
-                  >
-                    <Camera className="mr-2 h-4 w-4" />
-                    Take Photo
-                  </Button>
-                </div>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/jpeg,image/jpg,image/png,image/webp"
-                  onChange={handleFileInputChange}
-                  className="hidden"
-                />
-              </div>
-            )}
+          {/* Image Upload Sections */}
+          {CHECK_SIDES.map(({ side, label, hint }) => {
+            const image = images[side];
+            return (
+              <div key={side}>
+                <label className="mb-2 block text-sm font-medium">
+                  {label}
+                </label>
+                {hint && (
+                  <p className="mb-2 text-xs text-muted-foreground">{hint}</p>
+                )}
 
-            {cameraActive && (
-              <div className="space-y-4">
-                <div className="relative aspect-video w-full overflow-hidden rounded-lg border bg-black">
-                  <video
-                    ref={videoRef}
-                    autoPlay
-                    playsInline
-                    className="h-full w-full object-contain"
-                  />
-                </div>
-                <div className="flex gap-4">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={stopCamera}
-                    className="flex-1"
-                  >
-                    <X className="mr-2 h-4 w-4" />
-                    Cancel
-                  </Button>
-                  <Button
-                    type="button"
-                    onClick={capturePhoto}
-                    className="flex-1"
-                  >
-                    <Camera className="mr-2 h-4 w-4" />
-                    Capture
-                  </Button>
-                </div>
-              </div>
-            )}
+                {!image && cameraSide !== side && (
+                  <div className="space-y-4">
+                    <div className="flex gap-4">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => fileInputRefs[side].current?.click()}
+                        className="flex-1"
+                        disabled={cameraSide !== null}
+                      >
+                        <Upload className="mr-2 h-4 w-4" />
+                        Upload Image
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => startCamera(side)}
+                        className="flex-1"
+                        disabled={cameraSide !== null}
+                      >
+                        <Camera className="mr-2 h-4 w-4" />
+                        Take Photo
+                      </Button>
+                    </div>
+                    <input
+                      ref={fileInputRefs[side]}
+                      type="file"
+                      accept="image/jpeg,image/jpg,image/png,image/webp"
+                      onChange={(event) => handleFileInputChange(side, event)}
+                      className="hidden"
+                    />
+                  </div>
+                )}
+
+                {cameraSide === side && (
+                  <div className="space-y-4">
+                    <div className="relative aspect-video w-full overflow-hidden rounded-lg border bg-black">
+                      <video
+                        ref={videoRef}
+                        autoPlay
+                        playsInline
+                        className="h-full w-full object-contain"
+                      />
+                    </div>
+                    <div className="flex gap-4">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={stopCamera}
+                        className="flex-1"
+                      >
+                        <X className="mr-2 h-4 w-4" />
+                        Cancel
+                      </Button>
+                      <Button
+                        type="button"
+                        onClick={capturePhoto}
+                        className="flex-1"
+                      >
+                        <Camera className="mr-2 h-4 w-4" />
+                        Capture
+                      </Button>
+                    </div>
+                  </div>
+                )}
 
-            {imagePreview && (
-              <div className="space-y-4">
-                <div className="relative aspect-video w-full overflow-hidden rounded-lg border">
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img
-                    src={imagePreview}
-                    alt="Check preview"
-                    className="h-full w-full object-contain"
-                  />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      setImageFile(null);
-                      setImagePreview(null);
-                      if (fileInputRef.current) {
-                        fileInputRef.current.value = "";
-                      }
-                    }}
-                    className="absolute right-2 top-2"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
+                {image && (
+                  <div className="space-y-4">
+                    <div className="relative aspect-video w-full overflow-hidden rounded-lg border">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={image.preview}
+                        alt={`${label} preview`}
+                        className="h-full w-full object-contain"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => clearImage(side)}
+                        className="absolute right-2 top-2"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            );
+          })}
 
           {/* Error Message */}
           {error && (
@@ -428,6 +614,16 @@ export function CheckDeposit() {
                     Amount: {formatCurrency(success.amount)}
                   </p>
                 )}
+                {success.availability && success.availability.length > 0 && (
+                  <div className="mt-2 space-y-1 text-xs">
+                    {success.availability.map((tranche) => (
+                      <p key={tranche.available_at}>
+                        {formatCurrency(tranche.amount)} available{" "}
+                        {formatDate(tranche.available_at)}
+                      </p>
+                    ))}
+                  </div>
+                )}
                 {success.validation_result && (
                   <div className="mt-2 space-y-1 text-xs">
                     {success.validation_result.payor_name && (
@@ -448,7 +644,14 @@ export function CheckDeposit() {
           {/* Submit Button */}
           <Button
             onClick={handleUpload}
-            disabled={!imageFile || !selectedAccount || uploading || processing}
+            disabled={
+              !images.front ||
+              !images.back ||
+              !amount ||
+              !selectedAccount ||
+              uploading ||
+              processing
+            }
             className="w-full"
           >
             {uploading || processing ? (
@@ -462,6 +665,84 @@ export function CheckDeposit() {
           </Button>
         </CardContent>
       </Card>
+
+      {holds.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Funds on Hold</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Deposited checks are added to your balance right away. Each amount
+              below can be spent from the date shown.
+            </p>
+            <ul className="divide-y">
+              {holds.map((hold) => (
+                <li
+                  key={hold.id}
+                  className="flex items-center justify-between py-2 text-sm"
+                >
+                  <span className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    {formatCurrency(hold.amount)}
+                    <span className="text-muted-foreground">
+                      to {hold.account_number}
+                    </span>
+                  </span>
+                  <span>Available {formatDate(hold.available_at)}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {reviews.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Deposits Under Review</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Some check deposits are checked by our team before they are added
+              to your balance. The outcome of each is shown below.
+            </p>
+            <ul className="divide-y">
+              {reviews.map((review) => (
+                <li key={review.id} className="py-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      {formatCurrency(review.approved_amount ?? review.amount)}
+                      <span className="text-muted-foreground">
+                        to {review.account_number}
+                      </span>
+                    </span>
+                    <span>
+                      {review.status === "open"
+                        ? "In review"
+                        : review.status === "approved"
+                          ? "Approved"
+                          : "Rejected"}
+                    </span>
+                  </div>
+                  {review.approved_amount !== null &&
+                    review.approved_amount !== review.amount && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        Adjusted from {formatCurrency(review.amount)} to match
+                        the check.
+                      </p>
+                    )}
+                  {review.rejection_reason && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {review.rejection_reason}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
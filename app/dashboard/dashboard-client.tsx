@@ -19,7 +19,8 @@ interface DashboardClientProps {
       account_number: string;
       routing_number: string;
       account_type: "checking" | "savings";
-      balance: number;
+      balance: string;
+      available_balance: string;
       is_active: boolean;
       created_at: string;
       updated_at: string;
@@ -29,11 +30,11 @@ interface DashboardClientProps {
       amount: number;
       transaction_type: string;
       direction: "inbound" | "outbound";
-      status: "approved" | "denied" | "pending";
+      status: "pending" | "approved" | "denied" | "reversed" | "returned";
       created_at: string;
       internal_account_id: number;
     }>;
-    totalBalance: number;
+    totalBalance: string;
   } | null;
 }
 
@@ -22,7 +22,8 @@ describe("DashboardOverview", () => {
         account_number: "12345678901234567",
         routing_number: "724722907",
         account_type: "checking" as const,
-        balance: 1000.0,
+        balance: "1000.00",
+        available_balance: "1000.00",
         is_active: true,
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
@@ -44,7 +45,7 @@ describe("DashboardOverview", () => {
     const mockData = {
       accounts: mockAccounts,
       transactions: mockTransactions,
-      totalBalance: 1000.0,
+      totalBalance: "1000.00",
     };
 
     render(<DashboardOverview initialData={mockData} />);
@@ -58,7 +59,7 @@ describe("DashboardOverview", () => {
     const mockData = {
       accounts: [],
       transactions: [],
-      totalBalance: 0,
+      totalBalance: "0.00",
     };
 
     render(<DashboardOverview initialData={mockData} />);
@@ -3,13 +3,15 @@
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ArrowRight } from "lucide-react";
+import { Money } from "@/lib/money";
 
 interface Account {
   id: number;
   account_number: string;
   routing_number: string;
   account_type: "checking" | "savings";
-  balance: number;
+  balance: string; // Dollars from Money, e.g. "1250.00"
+  available_balance: string;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -20,7 +22,7 @@ interface Transaction {
   amount: number;
   transaction_type: string;
   direction: "inbound" | "outbound";
-  status: "approved" | "denied" | "pending";
+  status: "pending" | "approved" | "denied" | "reversed" | "returned";
   created_at: string;
   internal_account_id: number;
 }
@@ -28,7 +30,7 @@ interface Transaction {
 interface DashboardData {
   accounts: Account[];
   transactions: Transaction[];
-  totalBalance: number;
+  totalBalance: string;
 }
 
 interface DashboardOverviewProps {
@@ -95,7 +97,7 @@ export function DashboardOverview({
             Total Balance
           </h3>
           <p className="text-3xl font-bold text-success">
-            {formatCurrency(data.totalBalance)}
+            {Money.from(data.totalBalance).format()}
           </p>
         </div>
         <div className="rounded-lg border bg-card p-6">
@@ -151,8 +153,13 @@ export function DashboardOverview({
                 </div>
                 <div className="ml-4 flex-shrink-0 text-right">
                   <p className="whitespace-nowrap text-lg font-semibold text-card-foreground">
-                    {formatCurrency(account.balance)}
+                    {Money.from(account.balance).format()}
                   </p>
+                  {account.available_balance !== account.balance && (
+                    <p className="whitespace-nowrap text-xs text-muted-foreground">
+                      {Money.from(account.available_balance).format()} available
+                    </p>
+                  )}
                 </div>
               </div>
             ))}
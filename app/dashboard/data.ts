@@ -2,13 +2,15 @@ import { createClient } from "@/utils/supabase/server";
 import { redirect } from "next/navigation";
 import { headers } from "next/headers";
 import { unstable_cache } from "next/cache";
+import { Money } from "@/lib/money";
 
 interface Account {
   id: number;
   account_number: string;
   routing_number: string;
   account_type: "checking" | "savings";
-  balance: number;
+  balance: string; // Dollars from Money, e.g. "1250.00"
+  available_balance: string;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -19,7 +21,7 @@ interface Transaction {
   amount: number;
   transaction_type: string;
   direction: "inbound" | "outbound";
-  status: "approved" | "denied" | "pending";
+  status: "pending" | "approved" | "denied" | "reversed" | "returned";
   created_at: string;
   internal_account_id: number;
 }
@@ -27,7 +29,7 @@ interface Transaction {
 interface DashboardData {
   accounts: Account[];
   transactions: Transaction[];
-  totalBalance: number;
+  totalBalance: string;
 }
 
 /**
@@ -71,10 +73,12 @@ async function fetchDashboardDataInternal(
     };
 
     // Calculate total balance
-    const totalBalance = accountsData.accounts.reduce(
-      (sum: number, account: Account) => sum + account.balance,
-      0,
-    );
+    const totalBalance = accountsData.accounts
+      .reduce(
+        (sum: Money, account: Account) => sum.add(Money.from(account.balance)),
+        Money.ZERO,
+      )
+      .toString();
 
     return {
       accounts: accountsData.accounts ?? [],
@@ -89,7 +89,8 @@ describe("DashboardPage", () => {
         account_number: "12345678901234567",
         routing_number: "724722907",
         account_type: "checking",
-        balance: 1000.0,
+        balance: "1000.00",
+        available_balance: "1000.00",
         is_active: true,
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
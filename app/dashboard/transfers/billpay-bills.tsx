@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { InternalAccountResponse } from "@/lib/schemas/transfer";
+import { Money } from "@/lib/money";
+import type { Bill } from "./billpay-types";
+
+function formatDueDate(value: string) {
+  // Bills fall due at the start of their due date (UTC)
+  return new Date(value).toLocaleDateString(undefined, { timeZone: "UTC" });
+}
+
+export function BillPayBills({
+  accounts,
+}: {
+  accounts: InternalAccountResponse[];
+}) {
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [payingBill, setPayingBill] = useState<Bill | null>(null);
+  const [sourceAccountId, setSourceAccountId] = useState<number | null>(null);
+  const [payError, setPayError] = useState<string | null>(null);
+  const [paying, setPaying] = useState(false);
+
+  const fetchBills = useCallback(async () => {
+    try {
+      setError(null);
+      const supabase = createClient();
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) return;
+
+      const response = await fetch("/api/billpay/bills", {
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch bills");
+      }
+
+      const data = (await response.json()) as { bills: Bill[] };
+      setBills(data.bills);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch bills");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBills();
+  }, [fetchBills]);
+
+  const closePayDialog = () => {
+    setPayingBill(null);
+    setSourceAccountId(null);
+    setPayError(null);
+  };
+
+  const handlePay = async () => {
+    if (!payingBill || !sourceAccountId) return;
+
+    setPaying(true);
+    setPayError(null);
+    try {
+      const supabase = createClient();
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error("Not authenticated");
+      }
+
+      const response = await fetch(`/api/billpay/bills/${payingBill.id}/pay`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ source_account_id: sourceAccountId }),
+      });
+
+      if (!response.ok) {
+        const data = (await response.json()) as { error: string };
+        throw new Error(data.error || "Failed to pay bill");
+      }
+
+      closePayDialog();
+      await fetchBills();
+    } catch (err) {
+      setPayError(err instanceof Error ? err.message : "Failed to pay bill");
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  if (loading || (bills.length === 0 && !error)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bills</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div
+            className="rounded-md bg-destructive/20 border border-destructive/50 p-4 text-sm text-destructive"
+            role="alert"
+          >
+            {error}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {bills.map((bill) => (
+              <div
+                key={bill.id}
+                className="flex items-center justify-between rounded-lg border bg-muted/30 p-4"
+              >
+                <div>
+                  <div className="mb-1 flex items-center gap-2">
+                    <p className="font-semibold">
+                      {Money.from(bill.amount_due).format()}
+                    </p>
+                    {bill.status === "paid" ? (
+                      <Badge variant="secondary">Paid</Badge>
+                    ) : (
+                      bill.autopay_rule_id !== null && (
+                        <Badge variant="outline">Autopay</Badge>
+                      )
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {bill.payee_name}
+                    {bill.reference && ` • ${bill.reference}`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {bill.status === "paid" && bill.paid_at
+                      ? `Paid ${new Date(bill.paid_at).toLocaleDateString()}`
+                      : `Due ${formatDueDate(bill.due_date)}`}
+                  </p>
+                </div>
+                {bill.status === "open" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPayingBill(bill)}
+                  >
+                    Pay
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={payingBill !== null}
+        onOpenChange={(open) => !open && closePayDialog()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pay Bill</DialogTitle>
+            <DialogDescription>
+              {payingBill &&
+                `Pay ${Money.from(payingBill.amount_due).format()} to ${payingBill.payee_name} now.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label
+              htmlFor="bill_source_account"
+              className="text-sm font-medium"
+            >
+              From Account
+            </label>
+            <Select
+              value={sourceAccountId ? sourceAccountId.toString() : ""}
+              onValueChange={(value) => setSourceAccountId(parseInt(value))}
+            >
+              <SelectTrigger id="bill_source_account" className="w-full">
+                <SelectValue placeholder="Select source account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id.toString()}>
+                    ****{account.account_number.slice(-4)} (
+                    {Money.from(account.balance).format()})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {payError && (
+            <div
+              className="rounded-md bg-destructive/20 border border-destructive/50 p-3 text-sm text-destructive"
+              role="alert"
+            >
+              {payError}
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closePayDialog}
+              disabled={paying}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handlePay} disabled={paying || !sourceAccountId}>
+              {paying ? "Paying..." : "Pay Bill"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,3 +1,6 @@
+import { Money } from "@/lib/money";
+import type { BillPayRule } from "./billpay-types";
+
 export const BILLPAY_FREQUENCY_PRESETS = [
   { label: "Daily", value: "0 9 * * *" },
   { label: "Weekly (Monday)", value: "0 9 * * 1" },
@@ -10,3 +13,18 @@ export function getBillPayFrequencyLabel(frequency: string) {
   const preset = BILLPAY_FREQUENCY_PRESETS.find((p) => p.value === frequency);
   return preset ? preset.label : frequency;
 }
+
+export function getBillPayRuleAmountLabel(rule: BillPayRule) {
+  if (rule.amount) {
+    return Money.from(rule.amount).format();
+  }
+  return rule.max_amount
+    ? `Statement balance up to ${Money.from(rule.max_amount).format()}`
+    : "Statement balance";
+}
+
+export function getBillPayRuleScheduleLabel(rule: BillPayRule) {
+  return rule.frequency
+    ? getBillPayFrequencyLabel(rule.frequency)
+    : "On each bill's due date";
+}
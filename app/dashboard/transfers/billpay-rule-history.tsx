@@ -0,0 +1,305 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Money } from "@/lib/money";
+import type {
+  BillPayExecution,
+  BillPayRule,
+  BillPayRuleEvent,
+  BillPayRuleHistory,
+} from "./billpay-types";
+import {
+  getBillPayRuleAmountLabel,
+  getBillPayRuleScheduleLabel,
+} from "./billpay-constants";
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+function getStatusBadge(status: string) {
+  switch (status) {
+    case "approved":
+      return (
+        <Badge
+          variant="default"
+          className="bg-success/20 text-success border-success/50"
+        >
+          Paid
+        </Badge>
+      );
+    case "pending":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-warning/20 text-warning border-warning/50"
+        >
+          Processing
+        </Badge>
+      );
+    case "denied":
+      return <Badge variant="destructive">Denied</Badge>;
+    case "reversed":
+      return <Badge variant="secondary">Reversed</Badge>;
+    case "returned":
+      return <Badge variant="secondary">Returned</Badge>;
+    default:
+      return <Badge variant="secondary">{status}</Badge>;
+  }
+}
+
+function describeEvent(event: BillPayRuleEvent) {
+  switch (event.event_type) {
+    case "paused":
+      return "Payments paused";
+    case "resumed":
+      return "Payments resumed";
+    case "skip_requested":
+      return event.skip_count === 1
+        ? "Asked to skip the next payment"
+        : `Asked to skip the next ${event.skip_count} payments`;
+    case "payment_skipped":
+      return `Skipped the payment due ${formatDate(event.occurrence_at!)}`;
+  }
+}
+
+// Past payments, upcoming payment dates, and pauses and skips for one bill pay rule
+export function BillPayRuleHistoryDialog({
+  rule,
+  payeeName,
+  onClose,
+}: {
+  rule: BillPayRule | null;
+  payeeName?: string;
+  onClose: () => void;
+}) {
+  const [executions, setExecutions] = useState<BillPayExecution[]>([]);
+  const [upcomingRuns, setUpcomingRuns] = useState<string[]>([]);
+  const [status, setStatus] = useState<"active" | "paused">("active");
+  const [skipCount, setSkipCount] = useState(0);
+  const [events, setEvents] = useState<BillPayRuleEvent[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(
+    async (ruleId: number, pageToLoad: number) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const supabase = createClient();
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+
+        if (!session) {
+          setError("Not authenticated");
+          return;
+        }
+
+        const response = await fetch(
+          `/api/billpay/rules/${ruleId}/history?page=${pageToLoad}`,
+          {
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+          },
+        );
+
+        if (!response.ok) {
+          throw new Error("Failed to load payment history");
+        }
+
+        const history = (await response.json()) as BillPayRuleHistory;
+        setExecutions((prev) =>
+          pageToLoad === 1
+            ? history.executions
+            : [...prev, ...history.executions],
+        );
+        setUpcomingRuns(history.upcoming_runs);
+        setStatus(history.status);
+        setSkipCount(history.skip_count);
+        setEvents(history.events);
+        setPage(history.pagination.page);
+        setTotalPages(history.pagination.total_pages);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load payment history",
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [],
+  );
+
+  useEffect(() => {
+    if (rule) {
+      setExecutions([]);
+      setUpcomingRuns([]);
+      setEvents([]);
+      fetchHistory(rule.id, 1);
+    }
+  }, [rule, fetchHistory]);
+
+  return (
+    <Dialog
+      open={rule !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Payment History</DialogTitle>
+          <DialogDescription>
+            {rule &&
+              `${getBillPayRuleAmountLabel(rule)} to ${payeeName || "Unknown Payee"} • ${getBillPayRuleScheduleLabel(rule)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="flex flex-col gap-3 rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive md:flex-row md:items-center md:justify-between">
+            <span>{error}</span>
+            {rule && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fetchHistory(rule.id, 1)}
+              >
+                Try again
+              </Button>
+            )}
+          </div>
+        ) : loading && executions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading history…</p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h3 className="mb-2 text-sm font-semibold">Upcoming Payments</h3>
+              {status === "paused" ? (
+                <p className="text-sm text-muted-foreground">
+                  Payments are paused. Resume the rule to schedule its next
+                  payment.
+                </p>
+              ) : upcomingRuns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No more payments are scheduled for this rule.
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {upcomingRuns.map((run, index) => (
+                    <li
+                      key={run}
+                      className="flex items-center justify-between rounded-md border bg-muted/30 px-3 py-2 text-sm"
+                    >
+                      <span
+                        className={
+                          index < skipCount
+                            ? "text-muted-foreground line-through"
+                            : undefined
+                        }
+                      >
+                        {formatDate(run)}
+                      </span>
+                      {index < skipCount ? (
+                        <Badge variant="outline">Skipped</Badge>
+                      ) : (
+                        index === skipCount && (
+                          <Badge variant="secondary">Next</Badge>
+                        )
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h3 className="mb-2 text-sm font-semibold">Past Payments</h3>
+              {executions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  This rule has not made any payments yet.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {executions.map((execution) => (
+                    <div
+                      key={execution.id}
+                      className="flex items-start justify-between rounded-md border p-3"
+                    >
+                      <div>
+                        <p className="text-sm font-medium">
+                          {formatDate(execution.created_at)}
+                        </p>
+                        {execution.denial_reason && (
+                          <p className="text-xs text-destructive">
+                            {execution.denial_reason}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-semibold">
+                          {Money.from(execution.amount).format()}
+                        </span>
+                        {getStatusBadge(execution.status)}
+                      </div>
+                    </div>
+                  ))}
+                  {rule && page < totalPages && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      disabled={loading}
+                      onClick={() => fetchHistory(rule.id, page + 1)}
+                    >
+                      {loading ? "Loading…" : "Show older payments"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {events.length > 0 && (
+              <div>
+                <h3 className="mb-2 text-sm font-semibold">Activity</h3>
+                <ul className="space-y-1">
+                  {events.map((event) => (
+                    <li
+                      key={event.id}
+                      className="flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+                    >
+                      <span>{describeEvent(event)}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDate(event.created_at)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
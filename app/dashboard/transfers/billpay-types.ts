@@ -11,14 +11,66 @@ export interface BillPayPayee {
   country?: string;
   account_number: string;
   routing_number: string;
+  bank_name?: string | null; // From the routing directory
 }
 
+export type BillPayRuleMode = "fixed_amount" | "statement_balance";
+
 export interface BillPayRule {
   id: number;
   source_internal_id: number;
   payee_id: number;
-  amount: number;
-  frequency: string;
+  mode: BillPayRuleMode;
+  amount: string | null; // Dollars from Money, e.g. "125.00"; null for statement_balance
+  frequency: string | null; // Null for statement_balance
+  max_amount: string | null; // Largest bill a statement_balance rule pays; null for fixed_amount
   start_time: string;
   end_time: string | null;
+  status: "active" | "paused";
+  skip_count: number; // Upcoming payments that will be skipped
+}
+
+export interface BillPayExecution {
+  id: number;
+  created_at: string;
+  posted_at: string | null;
+  amount: string; // Signed dollars from Money, e.g. "-125.00"
+  status: string;
+  denial_reason: string | null;
+}
+
+export interface BillPayRuleEvent {
+  id: number;
+  event_type: "paused" | "resumed" | "skip_requested" | "payment_skipped";
+  skip_count: number | null;
+  occurrence_at: string | null;
+  created_at: string;
+}
+
+export interface BillPayRuleHistory {
+  executions: BillPayExecution[];
+  upcoming_runs: string[];
+  status: "active" | "paused";
+  skip_count: number;
+  events: BillPayRuleEvent[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    total_pages: number;
+  };
+}
+
+export interface Bill {
+  id: number;
+  payee_id: number;
+  payee_name: string;
+  amount_due: string; // Dollars from Money, e.g. "84.12"
+  due_date: string;
+  reference: string | null;
+  status: "open" | "paid";
+  transaction_id: number | null;
+  paid_at: string | null;
+  autopay_rule_id: number | null; // Statement balance rule that will pay it
+  created_at: string;
 }
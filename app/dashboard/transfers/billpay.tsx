@@ -25,10 +25,16 @@ import {
 } from "@/components/ui/dialog";
 import { BillPayPayeeSchema } from "@/lib/schemas/billpay";
 import { InternalAccountResponse } from "@/lib/schemas/transfer";
-import { formatCurrency } from "@/lib/utils";
+import { MAX_AMOUNT_CENTS, Money } from "@/lib/money";
+import { isValidRoutingNumber } from "@/lib/routing-number";
 import { CurrencyInputField } from "./currency-input";
-import type { BillPayPayee, BillPayRule } from "./billpay-types";
+import type {
+  BillPayPayee,
+  BillPayRule,
+  BillPayRuleMode,
+} from "./billpay-types";
 import { BILLPAY_FREQUENCY_PRESETS } from "./billpay-constants";
+import { BillPayBills } from "./billpay-bills";
 
 type FormState =
   | "idle"
@@ -56,6 +62,7 @@ interface BillPayFormData {
   };
   amount: string;
   frequency: string;
+  max_amount: string;
   start_time: string;
   end_time?: string;
 }
@@ -78,11 +85,12 @@ export function BillPay({
   const [showPayeeForm, setShowPayeeForm] = useState(false);
   const [selectedPayeeId, setSelectedPayeeId] = useState<number | null>(null);
   const [editingRuleId, setEditingRuleId] = useState<number | null>(null);
+  const [mode, setMode] = useState<BillPayRuleMode>("fixed_amount");
   const [frequencyPreset, setFrequencyPreset] = useState<string>("0 9 * * *");
   const [customFrequency, setCustomFrequency] = useState<string>("");
   const [successData, setSuccessData] = useState<{
     rule_id: number;
-    amount: number;
+    amount: string | null;
     payee_name: string;
   } | null>(null);
   const [consumedEditRuleId, setConsumedEditRuleId] = useState<number | null>(
@@ -96,6 +104,7 @@ export function BillPay({
       payee: undefined,
       amount: "",
       frequency: "0 9 * * *",
+      max_amount: "",
       start_time: "",
       end_time: "",
     } as BillPayFormData,
@@ -129,17 +138,26 @@ export function BillPay({
           source_account_id: number;
           payee_id?: number;
           payee?: unknown;
-          amount: string;
-          frequency: string;
+          mode: BillPayRuleMode;
+          amount?: string;
+          frequency?: string;
+          max_amount?: string;
           start_time: string;
           end_time?: string;
         } = {
           source_account_id: value.source_account_id,
-          amount: value.amount,
-          frequency,
+          mode,
           start_time: startTimeISO,
         };
 
+        // Statement balance rules pay each presented bill on its due date, up to their maximum
+        if (mode === "fixed_amount") {
+          requestBody.amount = value.amount;
+          requestBody.frequency = frequency;
+        } else {
+          requestBody.max_amount = value.max_amount;
+        }
+
         if (value.payee_id) {
           requestBody.payee_id = value.payee_id;
         } else if (value.payee) {
@@ -302,20 +320,24 @@ export function BillPay({
       // Pre-populate form with existing rule data
       form.setFieldValue("source_account_id", rule.source_internal_id);
       form.setFieldValue("payee_id", rule.payee_id);
-      form.setFieldValue("amount", rule.amount.toString());
+      setMode(rule.mode);
+      form.setFieldValue("amount", rule.amount ?? "");
+      form.setFieldValue("max_amount", rule.max_amount ?? "");
+
+      if (rule.frequency) {
+        // Set frequency preset if it matches
+        const preset = BILLPAY_FREQUENCY_PRESETS.find(
+          (p) => p.value === rule.frequency,
+        );
+        if (preset) {
+          setFrequencyPreset(preset.value);
+        } else {
+          setFrequencyPreset("custom");
+          setCustomFrequency(rule.frequency);
+        }
 
-      // Set frequency preset if it matches
-      const preset = BILLPAY_FREQUENCY_PRESETS.find(
-        (p) => p.value === rule.frequency,
-      );
-      if (preset) {
-        setFrequencyPreset(preset.value);
-      } else {
-        setFrequencyPreset("custom");
-        setCustomFrequency(rule.frequency);
+        form.setFieldValue("frequency", rule.frequency);
       }
-
-      form.setFieldValue("frequency", rule.frequency);
       // Convert ISO datetime to datetime-local format
       form.setFieldValue(
         "start_time",
@@ -381,6 +403,7 @@ export function BillPay({
         payee_id?: number;
         amount?: string;
         frequency?: string;
+        max_amount?: string;
         start_time?: string;
         end_time?: string | null;
       } = {};
@@ -392,12 +415,15 @@ export function BillPay({
       if (value.payee_id) {
         updateData.payee_id = value.payee_id;
       }
-      if (value.amount) {
+      if (mode === "fixed_amount" && value.amount) {
         updateData.amount = value.amount;
       }
-      if (frequency) {
+      if (mode === "fixed_amount" && frequency) {
         updateData.frequency = frequency;
       }
+      if (mode === "statement_balance" && value.max_amount) {
+        updateData.max_amount = value.max_amount;
+      }
       if (value.start_time) {
         // Convert datetime-local format to ISO datetime string
         updateData.start_time = new Date(value.start_time).toISOString();
@@ -427,6 +453,7 @@ export function BillPay({
       }
 
       setEditingRuleId(null);
+      setMode("fixed_amount");
       form.reset();
       fetchRules(); // Refresh rules list
       setFormState("idle");
@@ -440,20 +467,24 @@ export function BillPay({
 
   const handleCancelEdit = () => {
     setEditingRuleId(null);
+    setMode("fixed_amount");
     form.reset();
     setFormState("idle");
     setFrequencyPreset("0 9 * * *");
     setCustomFrequency("");
   };
 
-  const handleCreatePayee = async (payeeData: unknown) => {
+  // Resolves to an error message when the payee could not be created
+  const handleCreatePayee = async (
+    payeeData: unknown,
+  ): Promise<string | null> => {
     try {
       const supabase = createClient();
       const {
         data: { session },
       } = await supabase.auth.getSession();
 
-      if (!session) return;
+      if (!session) return "Not authenticated";
 
       const response = await fetch("/api/billpay/payees", {
         method: "POST",
@@ -470,9 +501,14 @@ export function BillPay({
         setSelectedPayeeId(data.payee.id);
         form.setFieldValue("payee_id", data.payee.id);
         setShowPayeeForm(false);
+        return null;
       }
+
+      const data = (await response.json()) as { error?: string };
+      return data.error || "Failed to create payee";
     } catch (err) {
       console.error("Failed to create payee:", err);
+      return "Failed to create payee";
     }
   };
 
@@ -524,7 +560,9 @@ export function BillPay({
           </div>
           <div className="space-y-2 text-center">
             <p className="text-lg font-semibold">
-              Auto payment set up for {formatCurrency(successData.amount)}
+              {successData.amount
+                ? `Auto payment set up for ${Money.from(successData.amount).format()}`
+                : "Auto payment set up for each bill's statement balance"}
             </p>
             <p className="text-sm text-muted-foreground">
               Payee: {successData.payee_name}
@@ -544,6 +582,7 @@ export function BillPay({
               variant="outline"
               onClick={() => {
                 form.reset();
+                setMode("fixed_amount");
                 setFormState("idle");
                 setError(null);
                 setSuccessData(null);
@@ -562,6 +601,8 @@ export function BillPay({
 
   return (
     <div className="space-y-6">
+      <BillPayBills accounts={accounts} />
+
       <Dialog
         open={editingRuleId !== null}
         onOpenChange={(open) => {
@@ -638,7 +679,7 @@ export function BillPay({
                                       {account.account_type}
                                     </Badge>
                                     <span className="text-sm text-muted-foreground">
-                                      {formatCurrency(account.balance)}
+                                      {Money.from(account.balance).format()}
                                     </span>
                                   </div>
                                 </div>
@@ -692,90 +733,149 @@ export function BillPay({
                     )}
                   </form.Field>
 
-                  <form.Field
-                    name="amount"
-                    validators={{
-                      onChange: ({ value }) => {
-                        if (!value || value.trim() === "")
-                          return "Amount is required";
-                        const numValue = parseFloat(value);
-                        if (isNaN(numValue) || numValue <= 0)
-                          return "Amount must be greater than $0.00";
-                        if (numValue < 0.01)
-                          return "Amount must be at least $0.01";
-                        if (numValue > 9999999.99)
-                          return "Amount cannot exceed $9,999,999.99";
-
-                        // Check if amount exceeds source account balance
-                        const sourceAccount = accounts.find(
-                          (acc) =>
-                            acc.id === form.getFieldValue("source_account_id"),
-                        );
-                        if (sourceAccount && numValue > sourceAccount.balance) {
-                          return "Insufficient funds";
-                        }
+                  {mode === "fixed_amount" ? (
+                    <>
+                      <form.Field
+                        name="amount"
+                        validators={{
+                          onChange: ({ value }) => {
+                            if (!value || value.trim() === "")
+                              return "Amount is required";
+                            const money = Money.parse(value);
+                            if (!money || money.toCents() <= 0)
+                              return "Amount must be greater than $0.00";
+                            if (money.toCents() > MAX_AMOUNT_CENTS)
+                              return "Amount cannot exceed $9,999,999.99";
+
+                            // Check if amount exceeds source account balance
+                            const sourceAccount = accounts.find(
+                              (acc) =>
+                                acc.id ===
+                                form.getFieldValue("source_account_id"),
+                            );
+                            if (
+                              sourceAccount &&
+                              money.gt(Money.from(sourceAccount.balance))
+                            ) {
+                              return "Insufficient funds";
+                            }
+
+                            return undefined;
+                          },
+                        }}
+                      >
+                        {(field) => (
+                          <div className="space-y-2">
+                            <label
+                              htmlFor="amount"
+                              className="text-sm font-medium"
+                            >
+                              Amount
+                            </label>
+                            <CurrencyInputField
+                              id="amount"
+                              value={field.state.value || ""}
+                              onChange={(value) => field.handleChange(value)}
+                              placeholder="0.00"
+                            />
+                            {field.state.meta.errors.length > 0 && (
+                              <p className="text-sm text-warning">
+                                {field.state.meta.errors[0]}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </form.Field>
 
-                        return undefined;
-                      },
-                    }}
-                  >
-                    {(field) => (
                       <div className="space-y-2">
-                        <label htmlFor="amount" className="text-sm font-medium">
-                          Amount
-                        </label>
-                        <CurrencyInputField
-                          id="amount"
-                          value={field.state.value || ""}
-                          onChange={(value) => field.handleChange(value)}
-                          placeholder="0.00"
-                        />
-                        {field.state.meta.errors.length > 0 && (
-                          <p className="text-sm text-warning">
-                            {field.state.meta.errors[0]}
-                          </p>
+                        <label className="text-sm font-medium">Frequency</label>
+                        <Select
+                          value={frequencyPreset}
+                          onValueChange={(value) => {
+                            setFrequencyPreset(value);
+                            if (value !== "custom") {
+                              form.setFieldValue("frequency", value);
+                            }
+                          }}
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {BILLPAY_FREQUENCY_PRESETS.filter(
+                              (p) => p.value !== "custom",
+                            ).map((preset) => (
+                              <SelectItem
+                                key={preset.value}
+                                value={preset.value}
+                              >
+                                {preset.label}
+                              </SelectItem>
+                            ))}
+                            <SelectItem value="custom">Custom</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {frequencyPreset === "custom" && (
+                          <Input
+                            placeholder="e.g., 0 9 * * 1"
+                            value={customFrequency}
+                            onChange={(e) => {
+                              setCustomFrequency(e.target.value);
+                              form.setFieldValue("frequency", e.target.value);
+                            }}
+                            className="mt-2"
+                          />
                         )}
                       </div>
-                    )}
-                  </form.Field>
-
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Frequency</label>
-                    <Select
-                      value={frequencyPreset}
-                      onValueChange={(value) => {
-                        setFrequencyPreset(value);
-                        if (value !== "custom") {
-                          form.setFieldValue("frequency", value);
-                        }
-                      }}
-                    >
-                      <SelectTrigger className="w-full">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {BILLPAY_FREQUENCY_PRESETS.filter(
-                          (p) => p.value !== "custom",
-                        ).map((preset) => (
-                          <SelectItem key={preset.value} value={preset.value}>
-                            {preset.label}
-                          </SelectItem>
-                        ))}
-                        <SelectItem value="custom">Custom</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    {frequencyPreset === "custom" && (
-                      <Input
-                        placeholder="e.g., 0 9 * * 1"
-                        value={customFrequency}
-                        onChange={(e) => {
-                          setCustomFrequency(e.target.value);
-                          form.setFieldValue("frequency", e.target.value);
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm text-muted-foreground">
+                        This rule pays each bill from this payee in full on its
+                        due date.
+                      </p>
+                      <form.Field
+                        name="max_amount"
+                        validators={{
+                          onChange: ({ value }) => {
+                            if (!value || value.trim() === "")
+                              return "Maximum amount is required";
+                            const money = Money.parse(value);
+                            if (!money || money.toCents() <= 0)
+                              return "Maximum amount must be greater than $0.00";
+                            if (money.toCents() > MAX_AMOUNT_CENTS)
+                              return "Maximum amount cannot exceed $9,999,999.99";
+                            return undefined;
+                          },
                         }}
-                        className="mt-2"
-                      />
-                    )}
-                  </div>
+                      >
+                        {(field) => (
+                          <div className="space-y-2">
+                            <label
+                              htmlFor="max_amount"
+                              className="text-sm font-medium"
+                            >
+                              Pay Bills Up To
+                            </label>
+                            <CurrencyInputField
+                              id="max_amount"
+                              value={field.state.value || ""}
+                              onChange={(value) => field.handleChange(value)}
+                              placeholder="0.00"
+                            />
+                            <p className="text-sm text-muted-foreground">
+                              A larger bill is left for you to pay.
+                            </p>
+                            {field.state.meta.errors.length > 0 && (
+                              <p className="text-sm text-warning">
+                                {field.state.meta.errors[0]}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </form.Field>
+                    </>
+                  )}
 
                   <form.Field name="start_time">
                     {(field) => (
@@ -927,7 +1027,7 @@ export function BillPay({
                                 {account.account_type}
                               </Badge>
                               <span className="text-sm text-muted-foreground">
-                                {formatCurrency(account.balance)}
+                                {Money.from(account.balance).format()}
                               </span>
                             </div>
                           </div>
@@ -994,6 +1094,11 @@ export function BillPay({
                               <p className="text-sm text-muted-foreground">
                                 {payee.email}
                               </p>
+                              {payee.bank_name && (
+                                <p className="text-sm text-muted-foreground">
+                                  {payee.bank_name}
+                                </p>
+                              )}
                             </div>
                             {selectedPayeeId === payee.id && (
                               <CheckCircle className="h-5 w-5 text-success" />
@@ -1006,9 +1111,7 @@ export function BillPay({
                 </div>
               ) : (
                 <BillPayeeForm
-                  onSubmit={(payeeData) => {
-                    handleCreatePayee(payeeData);
-                  }}
+                  onSubmit={handleCreatePayee}
                   onCancel={() => {
                     setShowPayeeForm(false);
                   }}
@@ -1016,99 +1119,174 @@ export function BillPay({
               )}
             </div>
 
-            <form.Field
-              name="amount"
-              validators={{
-                onChange: ({ value }) => {
-                  if (!value || value.trim() === "")
-                    return "Amount is required";
-                  const numValue = parseFloat(value);
-                  if (isNaN(numValue) || numValue <= 0)
-                    return "Amount must be greater than $0.00";
-                  if (numValue < 0.01) return "Amount must be at least $0.01";
-                  if (numValue > 9999999.99)
-                    return "Amount cannot exceed $9,999,999.99";
-
-                  // Check if amount exceeds source account balance
-                  const sourceAccount = accounts.find(
-                    (acc) => acc.id === form.getFieldValue("source_account_id"),
-                  );
-                  if (sourceAccount && numValue > sourceAccount.balance) {
-                    return "Insufficient funds";
-                  }
+            <div className="space-y-2">
+              <label htmlFor="mode" className="text-sm font-medium">
+                Pay
+              </label>
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as BillPayRuleMode)}
+              >
+                <SelectTrigger id="mode" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed_amount">
+                    A fixed amount on a schedule
+                  </SelectItem>
+                  <SelectItem value="statement_balance">
+                    Each bill&apos;s statement balance
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              {mode === "statement_balance" && (
+                <p className="text-sm text-muted-foreground">
+                  When this payee presents a bill, it is paid in full on its due
+                  date.
+                </p>
+              )}
+            </div>
 
-                  return undefined;
-                },
-              }}
-            >
-              {(field) => (
-                <div className="space-y-2">
-                  <label htmlFor="amount" className="text-sm font-medium">
-                    Amount
-                  </label>
-                  <CurrencyInputField
-                    id="amount"
-                    value={field.state.value || ""}
-                    onChange={(value) => field.handleChange(value)}
-                    placeholder="0.00"
-                  />
-                  {field.state.meta.errors.length > 0 && (
-                    <p className="text-sm text-warning">
-                      {field.state.meta.errors[0]}
+            {mode === "statement_balance" && (
+              <form.Field
+                name="max_amount"
+                validators={{
+                  onChange: ({ value }) => {
+                    if (!value || value.trim() === "")
+                      return "Maximum amount is required";
+                    const money = Money.parse(value);
+                    if (!money || money.toCents() <= 0)
+                      return "Maximum amount must be greater than $0.00";
+                    if (money.toCents() > MAX_AMOUNT_CENTS)
+                      return "Maximum amount cannot exceed $9,999,999.99";
+                    return undefined;
+                  },
+                }}
+              >
+                {(field) => (
+                  <div className="space-y-2">
+                    <label htmlFor="max_amount" className="text-sm font-medium">
+                      Pay Bills Up To
+                    </label>
+                    <CurrencyInputField
+                      id="max_amount"
+                      value={field.state.value || ""}
+                      onChange={(value) => field.handleChange(value)}
+                      placeholder="0.00"
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      A larger bill is left for you to pay.
                     </p>
-                  )}
-                </div>
-              )}
-            </form.Field>
+                    {field.state.meta.errors.length > 0 && (
+                      <p className="text-sm text-warning">
+                        {field.state.meta.errors[0]}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </form.Field>
+            )}
+
+            {mode === "fixed_amount" && (
+              <form.Field
+                name="amount"
+                validators={{
+                  onChange: ({ value }) => {
+                    if (!value || value.trim() === "")
+                      return "Amount is required";
+                    const money = Money.parse(value);
+                    if (!money || money.toCents() <= 0)
+                      return "Amount must be greater than $0.00";
+                    if (money.toCents() > MAX_AMOUNT_CENTS)
+                      return "Amount cannot exceed $9,999,999.99";
+
+                    // Check if amount exceeds source account balance
+                    const sourceAccount = accounts.find(
+                      (acc) =>
+                        acc.id === form.getFieldValue("source_account_id"),
+                    );
+                    if (
+                      sourceAccount &&
+                      money.gt(Money.from(sourceAccount.balance))
+                    ) {
+                      return "Insufficient funds";
+                    }
+
+                    return undefined;
+                  },
+                }}
+              >
+                {(field) => (
+                  <div className="space-y-2">
+                    <label htmlFor="amount" className="text-sm font-medium">
+                      Amount
+                    </label>
+                    <CurrencyInputField
+                      id="amount"
+                      value={field.state.value || ""}
+                      onChange={(value) => field.handleChange(value)}
+                      placeholder="0.00"
+                    />
+                    {field.state.meta.errors.length > 0 && (
+                      <p className="text-sm text-warning">
+                        {field.state.meta.errors[0]}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </form.Field>
+            )}
 
             <div className="space-y-4">
               <div className="text-sm font-medium">Schedule</div>
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Frequency</label>
-                <Select
-                  value={frequencyPreset}
-                  onValueChange={(value) => {
-                    setFrequencyPreset(value);
-                    if (value !== "custom") {
-                      const preset = BILLPAY_FREQUENCY_PRESETS.find(
-                        (p) => p.value === value,
-                      );
-                      if (preset && preset.value !== "custom") {
-                        form.setFieldValue("frequency", preset.value);
-                      }
-                    }
-                  }}
-                >
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select frequency" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {BILLPAY_FREQUENCY_PRESETS.map((preset) => (
-                      <SelectItem
-                        key={preset.value}
-                        value={
-                          preset.value === "custom" ? "custom" : preset.value
+              {mode === "fixed_amount" && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Frequency</label>
+                  <Select
+                    value={frequencyPreset}
+                    onValueChange={(value) => {
+                      setFrequencyPreset(value);
+                      if (value !== "custom") {
+                        const preset = BILLPAY_FREQUENCY_PRESETS.find(
+                          (p) => p.value === value,
+                        );
+                        if (preset && preset.value !== "custom") {
+                          form.setFieldValue("frequency", preset.value);
                         }
-                      >
-                        {preset.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-
-                {frequencyPreset === "custom" && (
-                  <Input
-                    placeholder="Cron expression (e.g., 0 9 * * 1)"
-                    value={customFrequency}
-                    onChange={(e) => {
-                      setCustomFrequency(e.target.value);
-                      form.setFieldValue("frequency", e.target.value);
+                      }
                     }}
-                    className="mt-2"
-                  />
-                )}
-              </div>
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BILLPAY_FREQUENCY_PRESETS.map((preset) => (
+                        <SelectItem
+                          key={preset.value}
+                          value={
+                            preset.value === "custom" ? "custom" : preset.value
+                          }
+                        >
+                          {preset.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {frequencyPreset === "custom" && (
+                    <Input
+                      placeholder="Cron expression (e.g., 0 9 * * 1)"
+                      value={customFrequency}
+                      onChange={(e) => {
+                        setCustomFrequency(e.target.value);
+                        form.setFieldValue("frequency", e.target.value);
+                      }}
+                      className="mt-2"
+                    />
+                  )}
+                </div>
+              )}
 
               <form.Field
                 name="start_time"
@@ -1182,30 +1360,40 @@ export function BillPay({
               {({ state: sourceState }) => (
                 <form.Field name="amount">
                   {({ state: amountState }) => (
-                    <form.Field name="start_time">
-                      {({ state: startTimeState }) => {
-                        const isDisabled =
-                          !sourceState.value ||
-                          sourceState.value === 0 ||
-                          !selectedPayeeId ||
-                          !amountState.value ||
-                          amountState.value.trim() === "" ||
-                          parseFloat(amountState.value) <= 0 ||
-                          amountState.meta.errors.length > 0 ||
-                          !startTimeState.value ||
-                          startTimeState.value.trim() === "" ||
-                          startTimeState.meta.errors.length > 0;
-                        return (
-                          <Button
-                            type="submit"
-                            disabled={isDisabled}
-                            className="w-full"
-                          >
-                            Create Auto Payment Rule
-                            <ArrowRight className="h-4 w-4 ml-2" />
-                          </Button>
-                        );
-                      }}
+                    <form.Field name="max_amount">
+                      {({ state: maxAmountState }) => (
+                        <form.Field name="start_time">
+                          {({ state: startTimeState }) => {
+                            const fieldState =
+                              mode === "fixed_amount"
+                                ? amountState
+                                : maxAmountState;
+                            const amountMissing =
+                              !fieldState.value ||
+                              fieldState.value.trim() === "" ||
+                              !Money.parse(fieldState.value)?.toCents() ||
+                              fieldState.meta.errors.length > 0;
+                            const isDisabled =
+                              !sourceState.value ||
+                              sourceState.value === 0 ||
+                              !selectedPayeeId ||
+                              amountMissing ||
+                              !startTimeState.value ||
+                              startTimeState.value.trim() === "" ||
+                              startTimeState.meta.errors.length > 0;
+                            return (
+                              <Button
+                                type="submit"
+                                disabled={isDisabled}
+                                className="w-full"
+                              >
+                                Create Auto Payment Rule
+                                <ArrowRight className="h-4 w-4 ml-2" />
+                              </Button>
+                            );
+                          }}
+                        </form.Field>
+                      )}
                     </form.Field>
                   )}
                 </form.Field>
@@ -1223,7 +1411,7 @@ function BillPayeeForm({
   onSubmit,
   onCancel,
 }: {
-  onSubmit: (data: unknown) => void;
+  onSubmit: (data: unknown) => Promise<string | null>;
   onCancel: () => void;
 }) {
   const [formData, setFormData] = useState({
@@ -1240,14 +1428,60 @@ function BillPayeeForm({
     routing_number: "",
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // The bank the entered routing number belongs to, from the routing directory
+  const [bank, setBank] = useState<{
+    name: string | null;
+    error: string | null;
+  }>({ name: null, error: null });
+
+  const routingNumber = formData.routing_number;
+  useEffect(() => {
+    setBank({ name: null, error: null });
+    if (!isValidRoutingNumber(routingNumber)) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const supabase = createClient();
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+        if (!session) return;
+
+        const response = await fetch(`/api/routing-numbers/${routingNumber}`, {
+          headers: { Authorization: `Bearer ${session.access_token}` },
+        });
+        const data = (await response.json()) as {
+          bank_name?: string;
+          error?: string;
+        };
+        if (cancelled) return;
+        setBank(
+          response.ok
+            ? { name: data.bank_name ?? null, error: null }
+            : {
+                name: null,
+                error: data.error || "Failed to look up routing number",
+              },
+        );
+      } catch (err) {
+        console.error("Failed to look up routing number:", err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routingNumber]);
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     // Ensure state is always CA
     const dataToSubmit = { ...formData, state_or_territory: "CA" };
     const result = BillPayPayeeSchema.safeParse(dataToSubmit);
     if (result.success) {
       setErrors({});
-      onSubmit(result.data);
+      setSubmitError(await onSubmit(result.data));
     } else {
       // Extract and format validation errors
       const formattedErrors: Record<string, string> = {};
@@ -1376,13 +1610,29 @@ function BillPayeeForm({
               required
               maxLength={9}
             />
-            {errors.routing_number && (
+            {errors.routing_number ? (
               <p className="text-sm text-warning mt-1">
                 {errors.routing_number}
               </p>
+            ) : bank.error ? (
+              <p className="text-sm text-warning mt-1">{bank.error}</p>
+            ) : (
+              bank.name && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {bank.name}
+                </p>
+              )
             )}
           </div>
         </div>
+        {submitError && (
+          <div
+            className="rounded-md bg-destructive/20 border border-destructive/50 p-3 text-sm text-destructive"
+            role="alert"
+          >
+            {submitError}
+          </div>
+        )}
         {Object.keys(errors).length > 0 && (
           <div
             className="rounded-md bg-destructive/20 border border-destructive/50 p-3 text-sm text-destructive"
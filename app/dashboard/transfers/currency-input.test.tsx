@@ -59,16 +59,16 @@ describe("CurrencyInputField", () => {
     expect(mockOnChange).toHaveBeenLastCalledWith("5.50");
   });
 
-  it("should allow letters and symbols (validation handled elsewhere)", async () => {
+  it("should drop letters and symbols", async () => {
     const mockOnChange = vi.fn();
     render(<TestCurrencyInput onValueChange={mockOnChange} />);
 
     const input = screen.getByRole("textbox");
 
-    // Type "abc123" - should pass through as string
+    // Type "abc123" - only the digits are kept
     await user.type(input, "abc123");
-    expect(input).toHaveValue("abc123");
-    expect(mockOnChange).toHaveBeenLastCalledWith("abc123");
+    expect(input).toHaveValue("123");
+    expect(mockOnChange).toHaveBeenLastCalledWith("123");
   });
 
   it("should display existing value as string", () => {
@@ -134,15 +134,15 @@ describe("CurrencyInputField", () => {
     expect(mockOnChange).toHaveBeenLastCalledWith("");
   });
 
-  it("should allow any input characters", async () => {
+  it("should keep at most two decimal places", async () => {
     const mockOnChange = vi.fn();
     render(<TestCurrencyInput onValueChange={mockOnChange} />);
 
     const input = screen.getByRole("textbox");
 
-    // Type various characters - should all pass through
-    await user.type(input, "12.34abc!@#");
-    expect(input).toHaveValue("12.34abc!@#");
-    expect(mockOnChange).toHaveBeenLastCalledWith("12.34abc!@#");
+    // Type various characters - extra decimals and symbols are dropped
+    await user.type(input, "12.345abc!@#");
+    expect(input).toHaveValue("12.34");
+    expect(mockOnChange).toHaveBeenLastCalledWith("12.34");
   });
 });
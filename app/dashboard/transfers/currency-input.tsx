@@ -2,6 +2,7 @@
 
 import { forwardRef } from "react";
 import { cn } from "@/lib/utils";
+import { sanitizeMoneyInput } from "@/lib/money";
 
 interface CurrencyInputProps {
   value?: string;
@@ -29,7 +30,8 @@ export const CurrencyInputField = forwardRef<
     ref,
   ) => {
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      onChange?.(e.target.value);
+      // Keep the text parseable by Money.parse: digits and at most two decimal places
+      onChange?.(sanitizeMoneyInput(e.target.value));
     };
 
     const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
@@ -46,7 +48,7 @@ export const CurrencyInputField = forwardRef<
           id={id}
           ref={ref}
           type="text"
-          inputMode="numeric"
+          inputMode="decimal"
           value={value || ""}
           onChange={handleChange}
           onFocus={handleFocus}
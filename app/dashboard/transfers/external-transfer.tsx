@@ -27,7 +27,7 @@ import {
   ExternalTransferSchema,
   InternalAccountResponse,
 } from "@/lib/schemas/transfer";
-import { formatCurrency } from "@/lib/utils";
+import { MAX_AMOUNT_CENTS, Money } from "@/lib/money";
 import { CurrencyInputField } from "./currency-input";
 
 type FormState =
@@ -72,8 +72,9 @@ export function ExternalTransfer() {
   const [lookupError, setLookupError] = useState<string | null>(null);
   const [successData, setSuccessData] = useState<{
     transaction_id: number;
-    amount: number;
+    amount: string;
     recipient_name: string;
+    pending: boolean;
   } | null>(null);
 
   const form = useForm({
@@ -106,7 +107,7 @@ export function ExternalTransfer() {
           },
           body: JSON.stringify({
             source_account_id: value.source_account_id,
-            amount: value.amount, // Send as string - schema will transform to cents
+            amount: value.amount, // Sent as a string - the schema parses it into Money
             ...(value.recipient_email
               ? { recipient_email: value.recipient_email.trim() }
               : {}),
@@ -128,7 +129,8 @@ export function ExternalTransfer() {
           success: boolean;
           message: string;
           transaction_id: number;
-          amount: number;
+          transaction_status?: string;
+          amount: string;
           recipient_name: string;
         };
 
@@ -136,6 +138,7 @@ export function ExternalTransfer() {
           transaction_id: result.transaction_id,
           amount: result.amount,
           recipient_name: result.recipient_name,
+          pending: result.transaction_status === "pending",
         });
 
         setFormState("success");
@@ -397,12 +400,18 @@ export function ExternalTransfer() {
           </div>
           <div className="space-y-2 text-center">
             <p className="text-lg font-semibold">
-              {formatCurrency(successData.amount / 100)} sent to{" "}
+              {Money.from(successData.amount).format()} sent to{" "}
               {successData.recipient_name}
             </p>
             <p className="text-sm text-muted-foreground">
               Transaction ID: {successData.transaction_id}
             </p>
+            {successData.pending && (
+              <p className="text-sm text-muted-foreground">
+                Pending: the funds are on hold and will post once the transfer
+                settles.
+              </p>
+            )}
           </div>
           <div className="flex gap-3">
             <Button
@@ -424,7 +433,7 @@ export function ExternalTransfer() {
     const sourceAccount = accounts.find(
       (acc) => acc.id === form.getFieldValue("source_account_id"),
     );
-    const amount = parseFloat(form.getFieldValue("amount") || "0");
+    const amount = Money.parse(form.getFieldValue("amount")) ?? Money.ZERO;
     const recipientName = lookupResult?.user
       ? `${lookupResult.user.first_name} ${lookupResult.user.last_name}`
       : "Unknown";
@@ -466,17 +475,12 @@ export function ExternalTransfer() {
             )}
             <div className="flex justify-between">
               <span className="font-medium">Amount:</span>
-              <span className="text-lg font-semibold">
-                {new Intl.NumberFormat("en-US", {
-                  style: "currency",
-                  currency: "USD",
-                }).format(amount)}
-              </span>
+              <span className="text-lg font-semibold">{amount.format()}</span>
             </div>
             {sourceAccount && (
               <div className="flex justify-between text-sm text-muted-foreground">
                 <span>Available Balance:</span>
-                <span>{formatCurrency(sourceAccount.balance)}</span>
+                <span>{Money.from(sourceAccount.balance).format()}</span>
               </div>
             )}
           </div>
@@ -563,7 +567,7 @@ export function ExternalTransfer() {
                               {account.account_type}
                             </Badge>
                             <span className="text-sm text-muted-foreground">
-                              {formatCurrency(account.balance)}
+                              {Money.from(account.balance).format()}
                             </span>
                           </div>
                         </div>
@@ -830,17 +834,19 @@ export function ExternalTransfer() {
               onChange: ({ value }) => {
                 if (!value || value.trim() === "") return "Amount is required";
 
-                const numValue = parseFloat(value);
-                if (isNaN(numValue) || numValue <= 0)
+                const money = Money.parse(value);
+                if (!money || money.toCents() <= 0)
                   return "Amount must be greater than $0.00";
-                if (numValue < 0.01) return "Amount must be at least $0.01";
-                if (numValue > 9999999.99)
+                if (money.toCents() > MAX_AMOUNT_CENTS)
                   return "Amount cannot exceed $9,999,999.99";
 
                 const sourceAccount = accounts.find(
                   (acc) => acc.id === form.getFieldValue("source_account_id"),
                 );
-                if (sourceAccount && numValue > sourceAccount.balance) {
+                if (
+                  sourceAccount &&
+                  money.gt(Money.from(sourceAccount.balance))
+                ) {
                   return "Insufficient funds";
                 }
 
@@ -902,7 +908,7 @@ export function ExternalTransfer() {
                         (requiresDestinationAccount && !destState.value) ||
                         !amountState.value ||
                         amountState.value.trim() === "" ||
-                        parseFloat(amountState.value) <= 0 ||
+                        !Money.parse(amountState.value)?.toCents() ||
                         amountState.meta.errors.length > 0;
                       return (
                         <Button
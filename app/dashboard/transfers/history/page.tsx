@@ -29,14 +29,28 @@ import {
   Search,
   Pencil,
   Trash2,
+  History,
+  Pause,
+  Play,
+  SkipForward,
 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import type {
   InternalAccountResponse,
   TransferHistoryItem,
 } from "@/lib/schemas/transfer";
-import { formatCurrency as formatUsd } from "@/lib/utils";
+import { Money } from "@/lib/money";
 import type { BillPayRule, BillPayPayee } from "../billpay-types";
-import { getBillPayFrequencyLabel } from "../billpay-constants";
+import {
+  getBillPayRuleAmountLabel,
+  getBillPayRuleScheduleLabel,
+} from "../billpay-constants";
+import { BillPayRuleHistoryDialog } from "../billpay-rule-history";
 import { Breadcrumbs } from "../breadcrumbs";
 
 interface TransferHistoryResponse {
@@ -73,6 +87,7 @@ export default function TransferHistoryPage() {
   >([]);
   const [billPayLoading, setBillPayLoading] = useState(true);
   const [billPayError, setBillPayError] = useState<string | null>(null);
+  const [historyRule, setHistoryRule] = useState<BillPayRule | null>(null);
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -272,12 +287,47 @@ export default function TransferHistoryPage() {
     [fetchBillPayData],
   );
 
-  const formatTransferAmount = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount / 100);
-  };
+  const handleRuleScheduleAction = useCallback(
+    async (
+      ruleId: number,
+      body:
+        | { action: "pause" }
+        | { action: "resume" }
+        | { action: "skip"; count: number },
+    ) => {
+      try {
+        const supabase = createClient();
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+
+        if (!session) {
+          throw new Error("Not authenticated");
+        }
+
+        const response = await fetch(`/api/billpay/rules/${ruleId}/schedule`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          const data = (await response.json()) as { error?: string };
+          throw new Error(data.error || "Failed to update bill pay rule");
+        }
+
+        fetchBillPayData();
+      } catch (err) {
+        setBillPayError(
+          err instanceof Error ? err.message : "Failed to update bill pay rule",
+        );
+      }
+    },
+    [fetchBillPayData],
+  );
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -311,8 +361,21 @@ export default function TransferHistoryPage() {
             Approved
           </Badge>
         );
+      case "pending":
+        return (
+          <Badge
+            variant="outline"
+            className="bg-warning/20 text-warning border-warning/50"
+          >
+            Pending
+          </Badge>
+        );
       case "denied":
         return <Badge variant="destructive">Denied</Badge>;
+      case "reversed":
+        return <Badge variant="secondary">Reversed</Badge>;
+      case "returned":
+        return <Badge variant="secondary">Returned</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -477,7 +540,7 @@ export default function TransferHistoryPage() {
                           }
                         >
                           {transfer.direction === "outbound" ? "-" : "+"}
-                          {formatTransferAmount(Math.abs(transfer.amount))}
+                          {Money.from(transfer.amount).abs().format()}
                         </TableCell>
                         <TableCell>{getStatusBadge(transfer.status)}</TableCell>
                       </TableRow>
@@ -524,7 +587,7 @@ export default function TransferHistoryPage() {
 
       <Card className="mb-6 mt-6">
         <CardHeader>
-          <CardTitle>Active Auto Payment Rules</CardTitle>
+          <CardTitle>Auto Payment Rules</CardTitle>
         </CardHeader>
         <CardContent>
           {billPayLoading ? (
@@ -538,7 +601,7 @@ export default function TransferHistoryPage() {
             </div>
           ) : billPayRules.length === 0 ? (
             <p className="text-sm text-muted-foreground">
-              No active auto payment rules yet.
+              No auto payment rules yet.
             </p>
           ) : (
             <div className="space-y-4">
@@ -555,11 +618,24 @@ export default function TransferHistoryPage() {
                     <div className="flex-1">
                       <div className="mb-1 flex items-center gap-2">
                         <p className="font-semibold">
-                          {formatUsd(rule.amount)}
+                          {getBillPayRuleAmountLabel(rule)}
                         </p>
                         <Badge variant="secondary">
-                          {getBillPayFrequencyLabel(rule.frequency)}
+                          {getBillPayRuleScheduleLabel(rule)}
                         </Badge>
+                        {rule.status === "paused" && (
+                          <Badge
+                            variant="outline"
+                            className="bg-warning/20 text-warning border-warning/50"
+                          >
+                            Paused
+                          </Badge>
+                        )}
+                        {rule.skip_count > 0 && (
+                          <Badge variant="outline">
+                            Skipping next {rule.skip_count}
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground">
                         To: {payee?.business_name || "Unknown Payee"}
@@ -577,6 +653,69 @@ export default function TransferHistoryPage() {
                       </p>
                     </div>
                     <div className="flex items-center gap-2">
+                      {rule.status === "paused" ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            handleRuleScheduleAction(rule.id, {
+                              action: "resume",
+                            })
+                          }
+                          title="Resume payments"
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            handleRuleScheduleAction(rule.id, {
+                              action: "pause",
+                            })
+                          }
+                          title="Pause payments"
+                        >
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Skip upcoming payments"
+                          >
+                            <SkipForward className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {[1, 2, 3].map((count) => (
+                            <DropdownMenuItem
+                              key={count}
+                              onClick={() =>
+                                handleRuleScheduleAction(rule.id, {
+                                  action: "skip",
+                                  count,
+                                })
+                              }
+                            >
+                              {count === 1
+                                ? "Skip next payment"
+                                : `Skip next ${count} payments`}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryRule(rule)}
+                        title="Payment history"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -601,6 +740,15 @@ export default function TransferHistoryPage() {
           )}
         </CardContent>
       </Card>
+
+      <BillPayRuleHistoryDialog
+        rule={historyRule}
+        payeeName={
+          billPayPayees.find((p) => p.id === historyRule?.payee_id)
+            ?.business_name
+        }
+        onClose={() => setHistoryRule(null)}
+      />
     </div>
   );
 }
@@ -19,7 +19,7 @@ import {
   InternalTransferSchema,
   InternalAccountResponse,
 } from "@/lib/schemas/transfer";
-import { formatCurrency } from "@/lib/utils";
+import { MAX_AMOUNT_CENTS, Money } from "@/lib/money";
 import { Breadcrumbs } from "./breadcrumbs";
 import { CurrencyInputField } from "./currency-input";
 
@@ -45,7 +45,7 @@ export function InternalTransfer() {
   const [error, setError] = useState<string | null>(null);
   const [successData, setSuccessData] = useState<{
     transaction_id: number;
-    amount: number;
+    amount: string;
     source_account: string;
     destination_account: string;
   } | null>(null);
@@ -78,7 +78,7 @@ export function InternalTransfer() {
           },
           body: JSON.stringify({
             ...value,
-            amount: value.amount, // Send as string - schema will transform to cents
+            amount: value.amount, // Sent as a string - the schema parses it into Money
           }),
         });
 
@@ -91,7 +91,7 @@ export function InternalTransfer() {
           success: boolean;
           message: string;
           transaction_id: number;
-          amount: number;
+          amount: string;
         };
 
         const sourceAccount = accounts.find(
@@ -262,7 +262,7 @@ export function InternalTransfer() {
             <CheckCircle className="mx-auto h-16 w-16 text-success" />
             <div className="space-y-2">
               <p className="text-lg font-semibold">
-                {formatCurrency(successData.amount / 100)}
+                {Money.from(successData.amount).format()}
               </p>
               <p className="text-sm text-muted-foreground">
                 From: ****{successData.source_account.slice(-4)}
@@ -302,7 +302,7 @@ export function InternalTransfer() {
     // const destinationAccount = accounts.find(
     //   (acc) => acc.id === form.getFieldValue("destination_account_id"),
     // );
-    const amount = parseFloat(form.getFieldValue("amount")) || 0;
+    const amount = Money.parse(form.getFieldValue("amount")) ?? Money.ZERO;
 
     return (
       <Card>
@@ -327,17 +327,12 @@ export function InternalTransfer() {
             </div>
             <div className="flex justify-between">
               <span className="font-medium">Amount:</span>
-              <span className="text-lg font-semibold">
-                {new Intl.NumberFormat("en-US", {
-                  style: "currency",
-                  currency: "USD",
-                }).format(amount)}
-              </span>
+              <span className="text-lg font-semibold">{amount.format()}</span>
             </div>
             {sourceAccount && (
               <div className="flex justify-between text-sm text-muted-foreground">
                 <span>Available Balance:</span>
-                <span>{formatCurrency(sourceAccount.balance)}</span>
+                <span>{Money.from(sourceAccount.balance).format()}</span>
               </div>
             )}
           </div>
@@ -428,7 +423,7 @@ export function InternalTransfer() {
                               key={account.id}
                               value={account.id.toString()}
                             >
-                              {`${account.account_type.charAt(0).toUpperCase() + account.account_type.slice(1)} ****${account.account_number.slice(-4)} - ${formatCurrency(account.balance)}`}
+                              {`${account.account_type.charAt(0).toUpperCase() + account.account_type.slice(1)} ****${account.account_number.slice(-4)} - ${Money.from(account.balance).format()}`}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -487,7 +482,7 @@ export function InternalTransfer() {
                               key={account.id}
                               value={account.id.toString()}
                             >
-                              {`${account.account_type.charAt(0).toUpperCase() + account.account_type.slice(1)} ****${account.account_number.slice(-4)} - ${formatCurrency(account.balance)}`}
+                              {`${account.account_type.charAt(0).toUpperCase() + account.account_type.slice(1)} ****${account.account_number.slice(-4)} - ${Money.from(account.balance).format()}`}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -510,17 +505,19 @@ export function InternalTransfer() {
                   if (!value || value.trim() === "")
                     return "Amount is required";
 
-                  const numValue = parseFloat(value);
-                  if (isNaN(numValue) || numValue <= 0)
+                  const money = Money.parse(value);
+                  if (!money || money.toCents() <= 0)
                     return "Amount must be greater than $0.00";
-                  if (numValue < 0.01) return "Amount must be at least $0.01";
-                  if (numValue > 9999999.99)
+                  if (money.toCents() > MAX_AMOUNT_CENTS)
                     return "Amount cannot exceed $9,999,999.99";
 
                   const sourceAccount = accounts.find(
                     (acc) => acc.id === form.getFieldValue("source_account_id"),
                   );
-                  if (sourceAccount && numValue > sourceAccount.balance) {
+                  if (
+                    sourceAccount &&
+                    money.gt(Money.from(sourceAccount.balance))
+                  ) {
                     return "Insufficient funds";
                   }
 
@@ -570,7 +567,7 @@ export function InternalTransfer() {
                           !destState.value ||
                           !amountState.value ||
                           amountState.value.trim() === "" ||
-                          parseFloat(amountState.value) <= 0 ||
+                          !Money.parse(amountState.value)?.toCents() ||
                           sourceState.value === destState.value ||
                           amountState.meta.errors.length > 0;
                         return (
@@ -7,12 +7,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { InternalTransfer } from "./internal-transfer";
 import { ExternalTransfer } from "./external-transfer";
 import { BillPay } from "./billpay";
+import { ScheduledTransfers } from "./scheduled-transfers";
 import { Breadcrumbs } from "./breadcrumbs";
 
 const TAB_NAMES: Record<string, string> = {
   internal: "Internal Transfer",
   external: "External Transfer",
   billpay: "Bill Pay",
+  scheduled: "Scheduled Transfers",
 };
 
 function TransfersPageInner() {
@@ -102,10 +104,11 @@ function TransfersPageInner() {
         defaultValue="internal"
         className="w-full"
       >
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="internal">Internal Transfer</TabsTrigger>
           <TabsTrigger value="external">External Transfer</TabsTrigger>
           <TabsTrigger value="billpay">Bill Pay</TabsTrigger>
+          <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
         </TabsList>
         <TabsContent value="internal">
           <InternalTransfer />
@@ -119,6 +122,9 @@ function TransfersPageInner() {
             onEditRuleConsumed={handleEditRuleConsumed}
           />
         </TabsContent>
+        <TabsContent value="scheduled">
+          <ScheduledTransfers />
+        </TabsContent>
       </Tabs>
     </div>
   );
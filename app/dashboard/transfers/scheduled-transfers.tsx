@@ -0,0 +1,868 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm } from "@tanstack/react-form";
+import { createClient } from "@/utils/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Calendar, CheckCircle, Repeat } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ExternalAccountResponse,
+  InternalAccountResponse,
+  TransferRuleResponse,
+} from "@/lib/schemas/transfer";
+import { MAX_AMOUNT_CENTS, Money } from "@/lib/money";
+import { CurrencyInputField } from "./currency-input";
+
+// Recurring schedules run at 09:00 UTC
+const TRANSFER_FREQUENCY_PRESETS = [
+  { label: "Weekly (Monday)", value: "0 9 * * 1" },
+  { label: "Twice a month (1st and 15th)", value: "0 9 1,15 * *" },
+  { label: "Monthly (1st)", value: "0 9 1 * *" },
+  { label: "Custom", value: "custom" },
+];
+
+function getFrequencyLabel(frequency: string) {
+  const preset = TRANSFER_FREQUENCY_PRESETS.find((p) => p.value === frequency);
+  return preset ? preset.label : frequency;
+}
+
+// Converts between ISO strings and the value of a datetime-local input
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+function toISO(local: string) {
+  return new Date(local).toISOString();
+}
+
+interface ScheduledTransferFormData {
+  source_account_id: number;
+  // "internal:<id>" or "external:<id>"
+  destination: string;
+  amount: string;
+  transfer_kind: "one_off" | "recurring";
+  run_at: string;
+  start_time: string;
+  end_time: string;
+}
+
+async function getAccessToken() {
+  const supabase = createClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error("Not authenticated");
+  }
+  return session.access_token;
+}
+
+export function ScheduledTransfers() {
+  const [accounts, setAccounts] = useState<InternalAccountResponse[]>([]);
+  const [externalAccounts, setExternalAccounts] = useState<
+    ExternalAccountResponse[]
+  >([]);
+  const [rules, setRules] = useState<TransferRuleResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [frequencyPreset, setFrequencyPreset] = useState("0 9 1 * *");
+  const [customFrequency, setCustomFrequency] = useState("");
+  const [editingRule, setEditingRule] = useState<TransferRuleResponse | null>(
+    null,
+  );
+  const [editAmount, setEditAmount] = useState("");
+  const [editRunAt, setEditRunAt] = useState("");
+  const [editEndTime, setEditEndTime] = useState("");
+  const [editError, setEditError] = useState<string | null>(null);
+  const [cancelingRule, setCancelingRule] =
+    useState<TransferRuleResponse | null>(null);
+
+  const form = useForm({
+    defaultValues: {
+      source_account_id: 0,
+      destination: "",
+      amount: "",
+      transfer_kind: "one_off",
+      run_at: "",
+      start_time: "",
+      end_time: "",
+    } as ScheduledTransferFormData,
+    onSubmit: async ({ value }) => {
+      setSubmitting(true);
+      setError(null);
+      setSuccess(null);
+
+      try {
+        const [destinationType, destinationId] = value.destination.split(":");
+        const requestBody: Record<string, unknown> = {
+          source_account_id: value.source_account_id,
+          amount: value.amount,
+          transfer_kind: value.transfer_kind,
+          [destinationType === "external"
+            ? "destination_external_account_id"
+            : "destination_account_id"]: Number(destinationId),
+        };
+
+        if (value.transfer_kind === "one_off") {
+          requestBody.run_at = toISO(value.run_at);
+        } else {
+          requestBody.frequency =
+            frequencyPreset === "custom" ? customFrequency : frequencyPreset;
+          requestBody.start_time = toISO(value.start_time);
+          if (value.end_time) {
+            requestBody.end_time = toISO(value.end_time);
+          }
+        }
+
+        const response = await fetch("/api/transfers/rules", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${await getAccessToken()}`,
+          },
+          body: JSON.stringify(requestBody),
+        });
+
+        if (!response.ok) {
+          const data = (await response.json()) as { error: string };
+          throw new Error(data.error || "Failed to schedule transfer");
+        }
+
+        const result = (await response.json()) as {
+          rule: TransferRuleResponse;
+        };
+
+        setSuccess(
+          `${Money.from(result.rule.amount).format()} to ${result.rule.destination_label} scheduled for ${new Date(result.rule.next_run_at!).toLocaleString()}`,
+        );
+        form.reset();
+        fetchRules();
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to schedule transfer",
+        );
+      } finally {
+        setSubmitting(false);
+      }
+    },
+  });
+
+  useEffect(() => {
+    fetchData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const headers = { Authorization: `Bearer ${await getAccessToken()}` };
+      const [accountsResponse, externalResponse] = await Promise.all([
+        fetch("/api/accounts/internal", { headers }),
+        fetch("/api/transfers/external-accounts", { headers }),
+      ]);
+
+      if (!accountsResponse.ok) {
+        throw new Error("Failed to fetch accounts");
+      }
+
+      const accountsData = (await accountsResponse.json()) as {
+        accounts: InternalAccountResponse[];
+      };
+      setAccounts(accountsData.accounts.filter((acc) => acc.is_active));
+
+      if (externalResponse.ok) {
+        const externalData = (await externalResponse.json()) as {
+          accounts: ExternalAccountResponse[];
+        };
+        setExternalAccounts(externalData.accounts);
+      }
+
+      await fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load data");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch("/api/transfers/rules", {
+        headers: { Authorization: `Bearer ${await getAccessToken()}` },
+      });
+
+      if (response.ok) {
+        const data = (await response.json()) as {
+          rules: TransferRuleResponse[];
+        };
+        setRules(data.rules);
+      }
+    } catch (err) {
+      console.error("Failed to fetch scheduled transfers:", err);
+    }
+  };
+
+  const handleEditRule = (rule: TransferRuleResponse) => {
+    setEditingRule(rule);
+    setEditAmount(Money.from(rule.amount).toString());
+    setEditRunAt(toLocalInput(rule.run_at));
+    setEditEndTime(toLocalInput(rule.end_time));
+    setEditError(null);
+  };
+
+  const handleUpdateRule = async () => {
+    if (!editingRule) return;
+
+    const amount = Money.parse(editAmount);
+    if (!amount || amount.toCents() <= 0) {
+      setEditError("Amount must be greater than $0.00");
+      return;
+    }
+
+    const updateData: {
+      amount?: string;
+      run_at?: string;
+      end_time?: string | null;
+    } = {};
+
+    // Only include fields that have changed
+    if (!amount.eq(Money.from(editingRule.amount))) {
+      updateData.amount = amount.toString();
+    }
+    if (
+      editingRule.transfer_kind === "one_off" &&
+      editRunAt !== toLocalInput(editingRule.run_at)
+    ) {
+      updateData.run_at = toISO(editRunAt);
+    }
+    if (
+      editingRule.transfer_kind === "recurring" &&
+      editEndTime !== toLocalInput(editingRule.end_time)
+    ) {
+      updateData.end_time = editEndTime ? toISO(editEndTime) : null;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      setEditingRule(null);
+      return;
+    }
+
+    setSubmitting(true);
+    setEditError(null);
+
+    try {
+      const response = await fetch(`/api/transfers/rules/${editingRule.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${await getAccessToken()}`,
+        },
+        body: JSON.stringify(updateData),
+      });
+
+      if (!response.ok) {
+        const data = (await response.json()) as { error: string };
+        throw new Error(data.error || "Failed to update scheduled transfer");
+      }
+
+      setEditingRule(null);
+      fetchRules();
+    } catch (err) {
+      setEditError(
+        err instanceof Error
+          ? err.message
+          : "Failed to update scheduled transfer",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelRule = async () => {
+    if (!cancelingRule) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/transfers/rules/${cancelingRule.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${await getAccessToken()}` },
+      });
+
+      if (!response.ok) {
+        const data = (await response.json()) as { error: string };
+        throw new Error(data.error || "Failed to cancel scheduled transfer");
+      }
+
+      setRules(rules.filter((rule) => rule.id !== cancelingRule.id));
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to cancel scheduled transfer",
+      );
+    } finally {
+      setCancelingRule(null);
+      setSubmitting(false);
+    }
+  };
+
+  const getAccountDisplay = (accountId: number) => {
+    const account = accounts.find((acc) => acc.id === accountId);
+    if (!account) return "Unknown Account";
+    return `****${account.account_number.slice(-4)} (${account.account_type})`;
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Scheduled Transfers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <p>Loading...</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedule a Transfer</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              form.handleSubmit();
+            }}
+            className="space-y-6"
+          >
+            <form.Field
+              name="source_account_id"
+              validators={{
+                onChange: ({ value }) => {
+                  if (!value) return "Source account is required";
+                  return undefined;
+                },
+              }}
+            >
+              {(field) => (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="scheduled_source_account_id"
+                    className="text-sm font-medium"
+                  >
+                    From Account
+                  </label>
+                  <Select
+                    value={
+                      field.state.value ? field.state.value.toString() : ""
+                    }
+                    onValueChange={(value) => {
+                      field.handleChange(parseInt(value));
+                      if (
+                        form.getFieldValue("destination") ===
+                        `internal:${value}`
+                      ) {
+                        form.setFieldValue("destination", "");
+                      }
+                    }}
+                  >
+                    <SelectTrigger
+                      id="scheduled_source_account_id"
+                      className="w-full"
+                    >
+                      <SelectValue placeholder="Select source account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts.map((account) => (
+                        <SelectItem
+                          key={account.id}
+                          value={account.id.toString()}
+                        >
+                          {`${account.account_type.charAt(0).toUpperCase() + account.account_type.slice(1)} ****${account.account_number.slice(-4)} - ${Money.from(account.balance).format()}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </form.Field>
+
+            <form.Field
+              name="destination"
+              validators={{
+                onChange: ({ value }) => {
+                  if (!value) return "Destination is required";
+                  return undefined;
+                },
+              }}
+            >
+              {(field) => (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="scheduled_destination"
+                    className="text-sm font-medium"
+                  >
+                    To Account
+                  </label>
+                  <Select
+                    value={field.state.value}
+                    onValueChange={(value) => field.handleChange(value)}
+                  >
+                    <SelectTrigger
+                      id="scheduled_destination"
+                      className="w-full"
+                    >
+                      <SelectValue placeholder="Select destination account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts
+                        .filter(
+                          (account) =>
+                            account.id !==
+                            form.getFieldValue("source_account_id"),
+                        )
+                        .map((account) => (
+                          <SelectItem
+                            key={`internal-${account.id}`}
+                            value={`internal:${account.id}`}
+                          >
+                            {getAccountDisplay(account.id)}
+                          </SelectItem>
+                        ))}
+                      {externalAccounts.map((account) => (
+                        <SelectItem
+                          key={`external-${account.id}`}
+                          value={`external:${account.id}`}
+                        >
+                          {`${account.nickname || "External"} ****${account.account_number.slice(-4)}${account.bank_name ? ` - ${account.bank_name}` : ""}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {externalAccounts.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Save an external account from the External Transfer tab to
+                      schedule transfers to it.
+                    </p>
+                  )}
+                </div>
+              )}
+            </form.Field>
+
+            <form.Field
+              name="amount"
+              validators={{
+                onChange: ({ value }) => {
+                  if (!value || value.trim() === "")
+                    return "Amount is required";
+
+                  const money = Money.parse(value);
+                  if (!money || money.toCents() <= 0)
+                    return "Amount must be greater than $0.00";
+                  if (money.toCents() > MAX_AMOUNT_CENTS)
+                    return "Amount cannot exceed $9,999,999.99";
+
+                  return undefined;
+                },
+              }}
+            >
+              {(field) => (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="scheduled_amount"
+                    className="text-sm font-medium"
+                  >
+                    Amount
+                  </label>
+                  <CurrencyInputField
+                    id="scheduled_amount"
+                    value={field.state.value}
+                    onChange={(value) => field.handleChange(value)}
+                  />
+                  {field.state.meta.errors.length > 0 && (
+                    <p className="text-sm text-warning">
+                      {field.state.meta.errors[0]}
+                    </p>
+                  )}
+                </div>
+              )}
+            </form.Field>
+
+            <form.Field name="transfer_kind">
+              {(field) => (
+                <div className="space-y-4">
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant={
+                        field.state.value === "one_off" ? "default" : "outline"
+                      }
+                      onClick={() => field.handleChange("one_off")}
+                      className="flex-1"
+                    >
+                      <Calendar className="h-4 w-4 mr-2" />
+                      One time
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={
+                        field.state.value === "recurring"
+                          ? "default"
+                          : "outline"
+                      }
+                      onClick={() => field.handleChange("recurring")}
+                      className="flex-1"
+                    >
+                      <Repeat className="h-4 w-4 mr-2" />
+                      Recurring
+                    </Button>
+                  </div>
+
+                  {field.state.value === "one_off" ? (
+                    <form.Field name="run_at">
+                      {(runAtField) => (
+                        <div className="space-y-2">
+                          <label
+                            htmlFor="scheduled_run_at"
+                            className="text-sm font-medium"
+                          >
+                            Transfer On
+                          </label>
+                          <Input
+                            id="scheduled_run_at"
+                            type="datetime-local"
+                            value={runAtField.state.value}
+                            onChange={(e) =>
+                              runAtField.handleChange(e.target.value)
+                            }
+                          />
+                        </div>
+                      )}
+                    </form.Field>
+                  ) : (
+                    <>
+                      <div className="space-y-2">
+                        <label
+                          htmlFor="scheduled_frequency"
+                          className="text-sm font-medium"
+                        >
+                          Frequency
+                        </label>
+                        <Select
+                          value={frequencyPreset}
+                          onValueChange={setFrequencyPreset}
+                        >
+                          <SelectTrigger
+                            id="scheduled_frequency"
+                            className="w-full"
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TRANSFER_FREQUENCY_PRESETS.map((preset) => (
+                              <SelectItem
+                                key={preset.value}
+                                value={preset.value}
+                              >
+                                {preset.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {frequencyPreset === "custom" && (
+                          <Input
+                            placeholder="Cron expression in UTC, e.g. 0 9 1 * *"
+                            value={customFrequency}
+                            onChange={(e) => setCustomFrequency(e.target.value)}
+                          />
+                        )}
+                      </div>
+                      <form.Field name="start_time">
+                        {(startField) => (
+                          <div className="space-y-2">
+                            <label
+                              htmlFor="scheduled_start_time"
+                              className="text-sm font-medium"
+                            >
+                              Starting
+                            </label>
+                            <Input
+                              id="scheduled_start_time"
+                              type="datetime-local"
+                              value={startField.state.value}
+                              onChange={(e) =>
+                                startField.handleChange(e.target.value)
+                              }
+                            />
+                          </div>
+                        )}
+                      </form.Field>
+                      <form.Field name="end_time">
+                        {(endField) => (
+                          <div className="space-y-2">
+                            <label
+                              htmlFor="scheduled_end_time"
+                              className="text-sm font-medium"
+                            >
+                              Ending (optional)
+                            </label>
+                            <Input
+                              id="scheduled_end_time"
+                              type="datetime-local"
+                              value={endField.state.value}
+                              onChange={(e) =>
+                                endField.handleChange(e.target.value)
+                              }
+                            />
+                          </div>
+                        )}
+                      </form.Field>
+                    </>
+                  )}
+                </div>
+              )}
+            </form.Field>
+
+            {error && (
+              <div
+                className="rounded-md bg-destructive/20 border border-destructive/50 p-4 text-sm text-destructive"
+                role="alert"
+              >
+                {error}
+              </div>
+            )}
+
+            {success && (
+              <div
+                className="flex items-center gap-2 rounded-md bg-success/20 border border-success/50 p-4 text-sm text-success"
+                role="status"
+              >
+                <CheckCircle className="h-4 w-4" />
+                {success}
+              </div>
+            )}
+
+            <form.Subscribe selector={(state) => state.values}>
+              {(values) => {
+                const isDisabled =
+                  submitting ||
+                  !values.source_account_id ||
+                  !values.destination ||
+                  !Money.parse(values.amount)?.toCents() ||
+                  (values.transfer_kind === "one_off"
+                    ? !values.run_at
+                    : !values.start_time ||
+                      (frequencyPreset === "custom" && !customFrequency));
+                return (
+                  <Button
+                    type="submit"
+                    disabled={isDisabled}
+                    className="w-full"
+                  >
+                    {submitting ? "Scheduling..." : "Schedule Transfer"}
+                  </Button>
+                );
+              }}
+            </form.Subscribe>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upcoming Transfers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You have no scheduled transfers.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between rounded-md border p-4"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">
+                        {Money.from(rule.amount).format()}
+                      </span>
+                      <Badge variant="secondary" className="text-xs">
+                        {rule.transfer_kind === "one_off"
+                          ? "One time"
+                          : getFrequencyLabel(rule.frequency ?? "")}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {getAccountDisplay(rule.source_internal_id)} →{" "}
+                      {rule.destination_label}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Next:{" "}
+                      {rule.next_run_at
+                        ? new Date(rule.next_run_at).toLocaleString()
+                        : "—"}
+                      {rule.end_time &&
+                        ` · Ends ${new Date(rule.end_time).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEditRule(rule)}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCancelingRule(rule)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={editingRule !== null}
+        onOpenChange={(open) => {
+          if (!open) setEditingRule(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Scheduled Transfer</DialogTitle>
+            <DialogDescription>
+              To change the accounts, cancel this transfer and schedule a new
+              one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="edit_amount" className="text-sm font-medium">
+                Amount
+              </label>
+              <CurrencyInputField
+                id="edit_amount"
+                value={editAmount}
+                onChange={setEditAmount}
+              />
+            </div>
+            {editingRule?.transfer_kind === "one_off" ? (
+              <div className="space-y-2">
+                <label htmlFor="edit_run_at" className="text-sm font-medium">
+                  Transfer On
+                </label>
+                <Input
+                  id="edit_run_at"
+                  type="datetime-local"
+                  value={editRunAt}
+                  onChange={(e) => setEditRunAt(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <label htmlFor="edit_end_time" className="text-sm font-medium">
+                  Ending (optional)
+                </label>
+                <Input
+                  id="edit_end_time"
+                  type="datetime-local"
+                  value={editEndTime}
+                  onChange={(e) => setEditEndTime(e.target.value)}
+                />
+              </div>
+            )}
+            {editError && (
+              <div
+                className="rounded-md bg-destructive/20 border border-destructive/50 p-4 text-sm text-destructive"
+                role="alert"
+              >
+                {editError}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRule(null)}>
+              Close
+            </Button>
+            <Button onClick={handleUpdateRule} disabled={submitting}>
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={cancelingRule !== null}
+        onOpenChange={(open) => {
+          if (!open) setCancelingRule(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Scheduled Transfer</DialogTitle>
+            <DialogDescription>
+              {cancelingRule &&
+                `${Money.from(cancelingRule.amount).format()} to ${cancelingRule.destination_label} will not be sent again. Transfers already made are not affected.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelingRule(null)}>
+              Keep Transfer
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleCancelRule}
+              disabled={submitting}
+            >
+              Cancel Transfer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  ingestInboundAchFile,
+  parseInboundAchFile,
+  postInboundAchEntry,
+  type InboundAchEntry,
+} from "./ach-inbound";
+import { postTransfer } from "./ledger";
+
+vi.mock("./ledger", () => ({
+  postTransfer: vi.fn(),
+}));
+
+const FILE_HEADER = "101 724722907 0210000202512160900A094101";
+
+const BATCH_HEADER =
+  "5" +
+  "220" +
+  "ACME PAYROLL".padEnd(16, " ") +
+  " ".repeat(20) +
+  "1234567890" +
+  "PPD" +
+  "PAYROLL".padEnd(10, " ") +
+  "251216" +
+  "251216" +
+  "   " +
+  "1" +
+  "02100002" +
+  "0000001";
+
+function entryDetail(
+  accountNumber: string,
+  amountCents: number,
+  sequence: number,
+) {
+  return (
+    "6" +
+    "22" +
+    "724722907" +
+    accountNumber.padEnd(17, " ") +
+    String(amountCents).padStart(10, "0") +
+    "EMP42".padEnd(15, " ") +
+    "JANE DOE".padEnd(22, " ") +
+    "  " +
+    "0" +
+    "02100002" +
+    String(sequence).padStart(7, "0")
+  );
+}
+
+function inboundFile(...entries: string[]) {
+  return [FILE_HEADER, BATCH_HEADER, ...entries, "8220", "9000001"].join(
+    "\r\n",
+  );
+}
+
+const payroll: InboundAchEntry = {
+  transaction_code: "22",
+  routing_number: "724722907",
+  account_number: "1234567890",
+  amount_cents: 185000,
+  individual_id: "EMP42",
+  individual_name: "JANE DOE",
+  trace_number: "021000020000001",
+  originator: {
+    company_name: "ACME PAYROLL",
+    company_id: "1234567890",
+    sec_code: "PPD",
+    entry_description: "PAYROLL",
+    odfi: "02100002",
+  },
+};
+
+function createMockTx(account: Record<string, unknown> | null) {
+  return {
+    transaction: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({ id: 301 }),
+    },
+    internalAccount: {
+      findUnique: vi.fn().mockResolvedValue(account),
+    },
+    achInboundReturn: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({ id: 6 }),
+    },
+    achBatch: {
+      count: vi.fn().mockResolvedValue(0),
+      create: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: 9, ...data })),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    achInboundFile: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue({ id: 4 }),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    $queryRaw: vi.fn().mockResolvedValue([{ value: BigInt(4096) }]),
+  };
+}
+
+const now = new Date("2025-12-16T15:00:00Z");
+
+describe("Inbound ACH", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(postTransfer).mockResolvedValue({
+      journal_entry: { id: 55 },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+  });
+
+  describe("parseInboundAchFile", () => {
+    it("should read each entry with the batch it came under", () => {
+      const entries = parseInboundAchFile(
+        inboundFile(entryDetail("1234567890", 185000, 1)),
+      );
+
+      expect(entries).toEqual([payroll]);
+    });
+
+    it("should reject a file addressed to another bank", () => {
+      const file = inboundFile(entryDetail("1234567890", 185000, 1)).replace(
+        "724722907 0210",
+        "011000015 0210",
+      );
+
+      expect(() => parseInboundAchFile(file)).toThrow(
+        "The file is not addressed to our routing number",
+      );
+    });
+
+    it("should reject an entry outside a batch", () => {
+      const file = [FILE_HEADER, entryDetail("1234567890", 185000, 1)].join(
+        "\n",
+      );
+
+      expect(() => parseInboundAchFile(file)).toThrow(
+        "Line 2 is an entry outside a batch",
+      );
+    });
+  });
+
+  describe("postInboundAchEntry", () => {
+    it("should post a credit to the account it names", async () => {
+      const tx = createMockTx({ id: 12, is_active: true });
+
+      const outcome = await postInboundAchEntry(tx, payroll, now);
+
+      expect(outcome).toMatchObject({ status: "posted", transaction_id: 301 });
+      expect(postTransfer).toHaveBeenCalledWith(tx, {
+        from: { system_account: "ach_clearing" },
+        to: { internal_account_id: 12 },
+        amount: new Decimal("1850.00"),
+        description: "ACH credit from ACME PAYROLL",
+      });
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: {
+          internal_account_id: 12,
+          amount: new Decimal("1850.00"),
+          transaction_type: "external_transfer",
+          direction: "inbound",
+          status: "approved",
+          posted_at: now,
+          journal_entry_id: 55,
+          external_routing_number: "021000021",
+          external_nickname: "ACME PAYROLL",
+          ach_trace_number: "021000020000001",
+        },
+      });
+    });
+
+    it("should return entries for accounts we do not have", async () => {
+      const tx = createMockTx(null);
+
+      const outcome = await postInboundAchEntry(tx, payroll, now);
+
+      expect(outcome).toMatchObject({ status: "returned", return_code: "R03" });
+      expect(postTransfer).not.toHaveBeenCalled();
+      expect(tx.achInboundReturn.create).toHaveBeenCalledWith({
+        data: {
+          created_at: now,
+          trace_number: "021000020000001",
+          return_code: "R03",
+        },
+      });
+    });
+
+    it("should return entries for another routing number without looking up the account", async () => {
+      const tx = createMockTx({ id: 12, is_active: true });
+
+      const outcome = await postInboundAchEntry(
+        tx,
+        { ...payroll, routing_number: "011000015" },
+        now,
+      );
+
+      expect(outcome.return_code).toBe("R03");
+      expect(tx.internalAccount.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should return entries for closed accounts", async () => {
+      const tx = createMockTx({ id: 12, is_active: false });
+
+      const outcome = await postInboundAchEntry(tx, payroll, now);
+
+      expect(outcome).toMatchObject({ status: "returned", return_code: "R02" });
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it("should check a prenotification without posting it", async () => {
+      const tx = createMockTx({ id: 12, is_active: true });
+
+      const outcome = await postInboundAchEntry(
+        tx,
+        { ...payroll, transaction_code: "23", amount_cents: 0 },
+        now,
+      );
+
+      expect(outcome.status).toBe("prenote");
+      expect(postTransfer).not.toHaveBeenCalled();
+    });
+
+    it("should not post the same trace number twice", async () => {
+      const tx = createMockTx({ id: 12, is_active: true });
+      tx.transaction.findUnique.mockResolvedValue({ id: 301 });
+
+      const outcome = await postInboundAchEntry(tx, payroll, now);
+
+      expect(outcome).toMatchObject({
+        status: "already_posted",
+        transaction_id: 301,
+      });
+      expect(postTransfer).not.toHaveBeenCalled();
+    });
+
+    it("should not return the same trace number twice", async () => {
+      const tx = createMockTx(null);
+      tx.achInboundReturn.findUnique.mockResolvedValue({ id: 6 });
+
+      const outcome = await postInboundAchEntry(tx, payroll, now);
+
+      expect(outcome.status).toBe("already_returned");
+      expect(outcome.return_code).toBeUndefined();
+      expect(tx.achInboundReturn.create).not.toHaveBeenCalled();
+    });
+
+    it("should skip debits", async () => {
+      const tx = createMockTx({ id: 12, is_active: true });
+
+      const outcome = await postInboundAchEntry(
+        tx,
+        { ...payroll, transaction_code: "27" },
+        now,
+      );
+
+      expect(outcome.status).toBe("skipped");
+      expect(tx.transaction.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("ingestInboundAchFile", () => {
+    it("should post what it can and put the rest in a returns file", async () => {
+      const tx = createMockTx({ id: 12, is_active: true });
+      tx.internalAccount.findUnique.mockImplementation(async ({ where }) =>
+        where.account_number === "1234567890"
+          ? { id: 12, is_active: true }
+          : null,
+      );
+      const prisma = {
+        ...tx,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        $transaction: vi.fn(async (fn: any) => fn(tx)),
+      };
+
+      const result = await ingestInboundAchFile(
+        prisma,
+        inboundFile(
+          entryDetail("1234567890", 185000, 1),
+          entryDetail("5555555555", 2500, 2),
+        ),
+        now,
+      );
+
+      expect(result.outcomes.map((outcome) => outcome.status)).toEqual([
+        "posted",
+        "returned",
+      ]);
+      expect(result.return_batch_id).toBe(9);
+      expect(tx.achBatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ kind: "returns", created_at: now }),
+      });
+
+      const { data } = tx.achBatch.update.mock.calls[0][0];
+      expect(data.entry_count).toBe(1);
+      expect(data.total_credit).toEqual(new Decimal("25.00"));
+      const lines = data.file_contents.split("\n");
+      // The return goes back to the originating bank under the original company, with the original trace
+      expect(lines[1].slice(4, 20)).toBe("ACME PAYROLL".padEnd(16, " "));
+      expect(lines[2].slice(1, 12)).toBe("21021000021");
+      expect(lines[3].slice(0, 21)).toBe("799R03021000020000002");
+      // Its own trace number comes from the sequence shared with origination
+      expect(lines[2].slice(79)).toBe("724722900004096");
+      expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+
+      expect(prisma.achInboundFile.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: {
+          posted_count: 1,
+          returned_count: 1,
+          total_posted: new Decimal("1850.00"),
+          return_batch_id: 9,
+        },
+      });
+    });
+
+    it("should not return an entry again when another file delivers it", async () => {
+      const tx = createMockTx(null);
+      tx.achInboundReturn.findUnique.mockImplementation(async ({ where }) =>
+        where.trace_number === "021000020000002" ? { id: 6 } : null,
+      );
+      const prisma = {
+        ...tx,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        $transaction: vi.fn(async (fn: any) => fn(tx)),
+      };
+
+      const result = await ingestInboundAchFile(
+        prisma,
+        inboundFile(entryDetail("5555555555", 2500, 2)),
+        now,
+      );
+
+      expect(result.outcomes.map((outcome) => outcome.status)).toEqual([
+        "already_returned",
+      ]);
+      expect(result.return_batch_id).toBeNull();
+      expect(tx.achBatch.create).not.toHaveBeenCalled();
+    });
+
+    it("should refuse a file that was already ingested", async () => {
+      const tx = createMockTx(null);
+      tx.achInboundFile.findUnique.mockResolvedValue({ id: 4 });
+
+      await expect(
+        ingestInboundAchFile(
+          tx,
+          inboundFile(entryDetail("1234567890", 185000, 1)),
+          now,
+        ),
+      ).rejects.toThrow("This file has already been ingested");
+      expect(tx.achInboundFile.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,380 @@
+import { createHash } from "crypto";
+import { Decimal } from "@prisma/client/runtime/library";
+import { Money } from "@/lib/money";
+import { getRoutingCheckDigit } from "@/lib/routing-number";
+import { postTransfer } from "./ledger";
+import {
+  ACH_ORIGINATOR,
+  buildNachaFile,
+  createAchBatch,
+  nextAchTraceNumber,
+  type AchBatchInput,
+  type AchEntry,
+} from "./ach";
+
+/* ============================================================================================================================
+   INBOUND ACH
+   ----------------------------------------------------------------------------------------------------------------------------
+   Money from other banks (payroll direct deposits, transfers customers start elsewhere) arrives as credit entries in
+   NACHA files the ACH operator delivers to us. Each entry names one of our accounts by account number under our routing
+   number; it is posted to that account out of the ACH clearing account as an inbound external transfer, keeping the
+   originator's name as the transaction's nickname and the entry's trace number so it is never posted twice.
+
+   Entries we cannot post are returned: R03 when no account has the number, R02 when the account is closed. Returns go
+   back to their originating banks in a returns file, an AchBatch the manager downloads and sends like any other file.
+   Each return is recorded by its trace number, so an entry the operator delivers again in another file is not returned
+   a second time.
+   Prenotifications (zero-dollar test entries) are checked the same way but post nothing, and debit entries are not
+   accepted.
+   ============================================================================================================================ */
+
+// Credits to checking and savings accounts
+const CREDIT_CODES = ["22", "32"];
+// Zero-dollar prenotifications of those credits
+const PRENOTE_CODES = ["23", "33"];
+
+export type InboundAchEntry = {
+  transaction_code: string;
+  routing_number: string;
+  account_number: string;
+  amount_cents: number;
+  individual_id: string;
+  individual_name: string;
+  trace_number: string;
+  // From the batch header: who sent the entry, and through which bank
+  originator: {
+    company_name: string;
+    company_id: string;
+    sec_code: string;
+    entry_description: string;
+    odfi: string; // 8 digits
+  };
+};
+
+export type InboundAchOutcome = {
+  trace_number: string;
+  account_number: string;
+  amount_cents: number;
+  originator: string;
+  status:
+    | "posted"
+    | "already_posted"
+    | "prenote"
+    | "returned"
+    | "already_returned"
+    | "skipped";
+  transaction_id: number | null;
+  return_code?: string; // R03 (no account) or R02 (account closed)
+  message?: string;
+};
+
+/**
+ * Read the entries out of an inbound NACHA file, each with the batch header it came under.
+ * @throws Error if the file is malformed or not addressed to us
+ */
+export function parseInboundAchFile(contents: string): InboundAchEntry[] {
+  const lines = contents
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.length > 0);
+
+  const entries: InboundAchEntry[] = [];
+  let originator: InboundAchEntry["originator"] | null = null;
+  let sawFileHeader = false;
+
+  lines.forEach((raw, index) => {
+    // Trailing blanks in the last field are often stripped in transit
+    const line = raw.padEnd(94, " ");
+    if (line.length !== 94 || !/^[156789]$/.test(line[0])) {
+      throw new Error(`Line ${index + 1} is not a NACHA record`);
+    }
+
+    switch (line[0]) {
+      case "1":
+        if (line.slice(3, 13).trim() !== ACH_ORIGINATOR.immediate_origin) {
+          throw new Error("The file is not addressed to our routing number");
+        }
+        sawFileHeader = true;
+        break;
+      case "5":
+        originator = {
+          company_name: line.slice(4, 20).trim(),
+          company_id: line.slice(40, 50).trim(),
+          sec_code: line.slice(50, 53),
+          entry_description: line.slice(53, 63).trim(),
+          odfi: line.slice(79, 87),
+        };
+        break;
+      case "6":
+        if (!originator) {
+          throw new Error(`Line ${index + 1} is an entry outside a batch`);
+        }
+        entries.push({
+          transaction_code: line.slice(1, 3),
+          routing_number: line.slice(3, 12),
+          account_number: line.slice(12, 29).trim(),
+          amount_cents: Number(line.slice(29, 39)),
+          individual_id: line.slice(39, 54).trim(),
+          individual_name: line.slice(54, 76).trim(),
+          trace_number: line.slice(79, 94),
+          originator,
+        });
+        break;
+      case "8":
+        originator = null;
+        break;
+    }
+  });
+
+  if (!sawFileHeader) {
+    throw new Error("The file has no file header record");
+  }
+
+  return entries;
+}
+
+/**
+ * Post one inbound entry to the account it names, or decide to return it.
+ * Must be called inside a Prisma interactive transaction.
+ */
+export async function postInboundAchEntry(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  entry: InboundAchEntry,
+  now: Date = new Date(),
+): Promise<InboundAchOutcome> {
+  const outcome = {
+    trace_number: entry.trace_number,
+    account_number: entry.account_number,
+    amount_cents: entry.amount_cents,
+    originator: entry.originator.company_name,
+    transaction_id: null,
+  };
+
+  const isPrenote = PRENOTE_CODES.includes(entry.transaction_code);
+  if (!CREDIT_CODES.includes(entry.transaction_code) && !isPrenote) {
+    return {
+      ...outcome,
+      status: "skipped",
+      message: `Transaction code ${entry.transaction_code} is not a credit`,
+    };
+  }
+
+  const existing = await tx.transaction.findUnique({
+    where: { ach_trace_number: entry.trace_number },
+    select: { id: true },
+  });
+  if (existing) {
+    return {
+      ...outcome,
+      status: "already_posted",
+      transaction_id: existing.id,
+    };
+  }
+
+  const returned = await tx.achInboundReturn.findUnique({
+    where: { trace_number: entry.trace_number },
+    select: { id: true },
+  });
+  if (returned) {
+    return { ...outcome, status: "already_returned" };
+  }
+
+  const account =
+    entry.routing_number === ACH_ORIGINATOR.immediate_origin
+      ? await tx.internalAccount.findUnique({
+          where: { account_number: entry.account_number },
+          select: { id: true, is_active: true },
+        })
+      : null;
+
+  const return_code = !account ? "R03" : !account.is_active ? "R02" : null;
+  if (return_code) {
+    // The unique trace number also stops a concurrent file from returning the entry too
+    await tx.achInboundReturn.create({
+      data: { created_at: now, trace_number: entry.trace_number, return_code },
+    });
+    return { ...outcome, status: "returned", return_code };
+  }
+  if (isPrenote) {
+    return { ...outcome, status: "prenote" };
+  }
+
+  const amount = new Decimal(Money.fromCents(entry.amount_cents).toString());
+  const posting = await postTransfer(tx, {
+    from: { system_account: "ach_clearing" },
+    to: { internal_account_id: account.id },
+    amount,
+    description: `ACH credit from ${entry.originator.company_name}`,
+  });
+
+  const transaction = await tx.transaction.create({
+    data: {
+      internal_account_id: account.id,
+      amount,
+      transaction_type: "external_transfer",
+      direction: "inbound",
+      status: "approved",
+      posted_at: now,
+      journal_entry_id: posting.journal_entry.id,
+      external_routing_number:
+        entry.originator.odfi + getRoutingCheckDigit(entry.originator.odfi),
+      external_nickname: entry.originator.company_name.slice(0, 30),
+      ach_trace_number: entry.trace_number,
+    },
+  });
+
+  return { ...outcome, status: "posted", transaction_id: transaction.id };
+}
+
+// Send a returned entry back to the bank it came from, in a batch under its original company
+function toReturnEntry(
+  entry: InboundAchEntry,
+  return_code: string,
+  trace_number: string,
+): AchEntry {
+  return {
+    transaction_code: `${entry.transaction_code[0]}1`, // Automated return of a checking (21) or savings (31) credit
+    routing_number:
+      entry.originator.odfi + getRoutingCheckDigit(entry.originator.odfi),
+    account_number: entry.account_number,
+    amount_cents: entry.amount_cents,
+    individual_id: entry.individual_id,
+    name: entry.individual_name,
+    trace_number,
+    return: { code: return_code, original_trace_number: entry.trace_number },
+  };
+}
+
+/**
+ * Post every entry in an inbound NACHA file, each in its own database transaction so one failure does not hold up
+ * the rest, then put the entries that must be returned in a returns file.
+ * @throws Error if the file cannot be parsed or was already ingested; nothing is posted in that case
+ */
+export async function ingestInboundAchFile(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  contents: string,
+  now: Date = new Date(),
+): Promise<{
+  file_id: number;
+  outcomes: InboundAchOutcome[];
+  return_batch_id: number | null;
+}> {
+  const entries = parseInboundAchFile(contents);
+  const file_hash = createHash("sha256").update(contents).digest("hex");
+
+  const duplicate = await prisma.achInboundFile.findUnique({
+    where: { file_hash },
+    select: { id: true },
+  });
+  if (duplicate) {
+    throw new Error("This file has already been ingested");
+  }
+
+  // The unique hash also stops a concurrent upload of the same file
+  const file = await prisma.achInboundFile.create({
+    data: {
+      created_at: now,
+      file_hash,
+      file_contents: contents,
+      entry_count: entries.length,
+      posted_count: 0,
+      returned_count: 0,
+      total_posted: new Decimal(0),
+    },
+  });
+
+  const outcomes: InboundAchOutcome[] = [];
+  for (const entry of entries) {
+    try {
+      outcomes.push(
+        await prisma.$transaction(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          async (tx: any) => postInboundAchEntry(tx, entry, now),
+        ),
+      );
+    } catch (error) {
+      outcomes.push({
+        trace_number: entry.trace_number,
+        account_number: entry.account_number,
+        amount_cents: entry.amount_cents,
+        originator: entry.originator.company_name,
+        status: "skipped",
+        transaction_id: null,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Return entries take their trace numbers from the sequence origination uses, so none is ever reused
+  const batches = new Map<string, AchBatchInput>();
+  for (const [index, entry] of entries.entries()) {
+    const { return_code } = outcomes[index];
+    if (!return_code) continue;
+
+    const { company_name, company_id, sec_code, entry_description } =
+      entry.originator;
+    const key = [company_id, company_name, sec_code, entry_description].join();
+    const batch = batches.get(key) ?? {
+      company_name,
+      company_id,
+      sec_code,
+      entry_description,
+      entries: [],
+    };
+    batch.entries.push(
+      toReturnEntry(entry, return_code, await nextAchTraceNumber(prisma)),
+    );
+    batches.set(key, batch);
+  }
+
+  let return_batch_id: number | null = null;
+  if (batches.size > 0) {
+    return_batch_id = await prisma.$transaction(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      async (tx: any) => {
+        const batch = await createAchBatch(tx, "returns", now);
+        const returned = [...batches.values()].flatMap((b) => b.entries);
+        await tx.achBatch.update({
+          where: { id: batch.id },
+          data: {
+            entry_count: returned.length,
+            total_credit: new Decimal(
+              Money.fromCents(
+                returned.reduce(
+                  (total, entry) => total + entry.amount_cents,
+                  0,
+                ),
+              ).toString(),
+            ),
+            file_contents: buildNachaFile({
+              created_at: now,
+              effective_date: batch.effective_date,
+              file_id_modifier: batch.file_id_modifier,
+              batches: [...batches.values()],
+            }),
+          },
+        });
+        return batch.id;
+      },
+    );
+  }
+
+  const posted = outcomes.filter((outcome) => outcome.status === "posted");
+  await prisma.achInboundFile.update({
+    where: { id: file.id },
+    data: {
+      posted_count: posted.length,
+      returned_count: outcomes.filter((outcome) => outcome.return_code).length,
+      total_posted: new Decimal(
+        Money.fromCents(
+          posted.reduce((total, outcome) => total + outcome.amount_cents, 0),
+        ).toString(),
+      ),
+      return_batch_id,
+    },
+  });
+
+  return { file_id: file.id, outcomes, return_batch_id };
+}
@@ -0,0 +1,336 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  applyAchChange,
+  applyAchReturn,
+  applyAchReturnFile,
+  getCorrectedDetails,
+  parseAchReturnFile,
+} from "./ach-returns";
+import { returnPendingTransaction } from "./settlement";
+import { reverseTransaction } from "./reversals";
+
+vi.mock("./settlement", () => ({
+  returnPendingTransaction: vi.fn(),
+}));
+
+vi.mock("./reversals", () => ({
+  reverseTransaction: vi.fn(),
+}));
+
+const TRACE = "724722900000101";
+
+// A return file entry as the receiving bank sends it back: the entry detail followed by its addenda
+function returnedEntry(amountCents: number, addenda: string) {
+  const entry =
+    "6" +
+    "21" +
+    "724722907" +
+    "123456789".padEnd(17, " ") +
+    String(amountCents).padStart(10, "0") +
+    "101".padEnd(15, " ") +
+    "JANE DOE".padEnd(22, " ") +
+    "  " +
+    "1" +
+    "021000020000001";
+  return [entry, addenda];
+}
+
+function returnAddenda(code: string, trace = TRACE) {
+  return (
+    "799" +
+    code +
+    trace +
+    " ".repeat(6) +
+    "72472290" +
+    " ".repeat(44) +
+    "021000020000001"
+  );
+}
+
+function changeAddenda(code: string, correctedData: string, trace = TRACE) {
+  return (
+    "798" +
+    code +
+    trace +
+    " ".repeat(6) +
+    "72472290" +
+    correctedData.padEnd(29, " ") +
+    " ".repeat(15) +
+    "021000020000002"
+  );
+}
+
+function createMockTx(transaction: Record<string, unknown> | null) {
+  return {
+    transaction: {
+      findUnique: vi.fn().mockResolvedValue(transaction),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    bill: {
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    externalAccount: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    billPayPayee: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+}
+
+const sentTransfer = {
+  id: 101,
+  direction: "outbound",
+  status: "pending",
+  amount: new Decimal("-250.00"),
+  transaction_type: "external_transfer",
+  external_routing_number: "021000021",
+  external_account_number: "123456789",
+  ach_return_code: null,
+  internal_account: { user_id: 1 },
+  bill_pay_rule: null,
+  bill: null,
+};
+
+const now = new Date("2025-12-12T15:00:00Z");
+
+describe("ACH Returns", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(returnPendingTransaction).mockResolvedValue({ id: 101 });
+    vi.mocked(reverseTransaction).mockResolvedValue({
+      ok: true,
+      reversed: [],
+      contra_transactions: [],
+      journal_entry_id: 9,
+    });
+  });
+
+  describe("parseAchReturnFile", () => {
+    it("should read returns and NOCs with the entries they belong to", () => {
+      const file = [
+        "101 724722907 0210000202512120900A094101",
+        "5220...",
+        ...returnedEntry(25000, returnAddenda("R03")),
+        ...returnedEntry(0, changeAddenda("C01", "987654321")),
+        "8220",
+        "9000001",
+      ].join("\r\n");
+
+      expect(parseAchReturnFile(file)).toEqual({
+        returns: [
+          {
+            original_trace_number: TRACE,
+            return_code: "R03",
+            amount_cents: 25000,
+          },
+        ],
+        changes: [
+          {
+            original_trace_number: TRACE,
+            change_code: "C01",
+            corrected_data: "987654321".padEnd(29, " "),
+          },
+        ],
+      });
+    });
+
+    it("should reject lines that are not NACHA records", () => {
+      expect(() => parseAchReturnFile("hello world")).toThrow(
+        "Line 1 is not a NACHA record",
+      );
+    });
+
+    it("should reject an addenda record without an entry", () => {
+      expect(() => parseAchReturnFile(returnAddenda("R01"))).toThrow(
+        "Line 1 is an addenda record without an entry",
+      );
+    });
+  });
+
+  describe("getCorrectedDetails", () => {
+    it("should read the corrected details for each change code", () => {
+      expect(getCorrectedDetails("C01", "987654321")).toEqual({
+        account_number: "987654321",
+      });
+      expect(getCorrectedDetails("C02", "121000358")).toEqual({
+        routing_number: "121000358",
+      });
+      expect(getCorrectedDetails("C03", "121000358   987654321")).toEqual({
+        routing_number: "121000358",
+        account_number: "987654321",
+      });
+      expect(
+        getCorrectedDetails("C07", "121000358" + "987654321".padEnd(17) + "22"),
+      ).toEqual({
+        routing_number: "121000358",
+        account_number: "987654321",
+      });
+      expect(getCorrectedDetails("C05", "32")).toBeNull();
+    });
+  });
+
+  describe("applyAchReturn", () => {
+    const entry = {
+      original_trace_number: TRACE,
+      return_code: "R01",
+      amount_cents: 25000,
+    };
+
+    it("should return a pending payment and record the return code", async () => {
+      const tx = createMockTx(sentTransfer);
+
+      const outcome = await applyAchReturn(tx, entry, now);
+
+      expect(outcome).toEqual({
+        trace_number: TRACE,
+        code: "R01",
+        description: "Insufficient funds",
+        transaction_id: 101,
+        status: "applied",
+      });
+      expect(returnPendingTransaction).toHaveBeenCalledWith(tx, 101, now);
+      expect(reverseTransaction).not.toHaveBeenCalled();
+      expect(tx.transaction.update).toHaveBeenCalledWith({
+        where: { id: 101 },
+        data: { ach_return_code: "R01" },
+      });
+    });
+
+    it("should reverse a payment that already posted and reopen its bill", async () => {
+      const tx = createMockTx({ ...sentTransfer, status: "approved" });
+
+      await applyAchReturn(tx, entry, now);
+
+      expect(reverseTransaction).toHaveBeenCalledWith(
+        tx,
+        { transaction_id: 101, reason: "ach_return" },
+        now,
+      );
+      expect(tx.bill.updateMany).toHaveBeenCalledWith({
+        where: { transaction_id: 101 },
+        data: { status: "open", transaction_id: null, paid_at: null },
+      });
+    });
+
+    it("should leave a payment that was already returned alone", async () => {
+      const tx = createMockTx({ ...sentTransfer, ach_return_code: "R01" });
+
+      const outcome = await applyAchReturn(tx, entry, now);
+
+      expect(outcome.status).toBe("already_applied");
+      expect(returnPendingTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should skip a return whose amount does not match", async () => {
+      const tx = createMockTx(sentTransfer);
+
+      const outcome = await applyAchReturn(
+        tx,
+        { ...entry, amount_cents: 100 },
+        now,
+      );
+
+      expect(outcome.status).toBe("skipped");
+      expect(tx.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it("should report returns for trace numbers we never sent", async () => {
+      const tx = createMockTx(null);
+
+      const outcome = await applyAchReturn(tx, entry, now);
+
+      expect(outcome).toMatchObject({
+        status: "unmatched",
+        transaction_id: null,
+      });
+    });
+  });
+
+  describe("applyAchChange", () => {
+    it("should correct the customer's saved external account", async () => {
+      const tx = createMockTx(sentTransfer);
+
+      const outcome = await applyAchChange(tx, {
+        original_trace_number: TRACE,
+        change_code: "C01",
+        corrected_data: "987654321",
+      });
+
+      expect(outcome.status).toBe("applied");
+      expect(tx.externalAccount.updateMany).toHaveBeenCalledWith({
+        where: {
+          user_id: 1,
+          routing_number: "021000021",
+          account_number: "123456789",
+        },
+        data: { account_number: "987654321" },
+      });
+    });
+
+    it("should correct the payee a bill payment went to", async () => {
+      const tx = createMockTx({
+        ...sentTransfer,
+        transaction_type: "billpay",
+        bill_pay_rule: { payee_id: 6 },
+      });
+
+      const outcome = await applyAchChange(tx, {
+        original_trace_number: TRACE,
+        change_code: "C02",
+        corrected_data: "121000358",
+      });
+
+      expect(outcome.status).toBe("applied");
+      expect(tx.billPayPayee.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 6,
+          routing_number: "021000021",
+          account_number: "123456789",
+        },
+        data: { routing_number: "121000358" },
+      });
+    });
+
+    it("should skip corrected data that is not a valid account number", async () => {
+      const tx = createMockTx(sentTransfer);
+
+      const outcome = await applyAchChange(tx, {
+        original_trace_number: TRACE,
+        change_code: "C01",
+        corrected_data: "ABC",
+      });
+
+      expect(outcome.status).toBe("skipped");
+      expect(tx.externalAccount.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("applyAchReturnFile", () => {
+    it("should keep applying entries after one fails", async () => {
+      const tx = createMockTx(sentTransfer);
+      const prisma = {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        $transaction: vi.fn(async (fn: any) => fn(tx)),
+      };
+      vi.mocked(returnPendingTransaction)
+        .mockRejectedValueOnce(new Error("Database unavailable"))
+        .mockResolvedValueOnce({ id: 101 });
+      const file = [
+        ...returnedEntry(25000, returnAddenda("R01")),
+        ...returnedEntry(25000, returnAddenda("R01")),
+      ].join("\n");
+
+      const summary = await applyAchReturnFile(prisma, file, now);
+
+      expect(summary.returns.map((outcome) => outcome.status)).toEqual([
+        "skipped",
+        "applied",
+      ]);
+      expect(summary.returns[0].message).toBe("Database unavailable");
+    });
+  });
+});
@@ -0,0 +1,451 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { Money } from "@/lib/money";
+import { isValidRoutingNumber } from "@/lib/routing-number";
+import { returnPendingTransaction } from "./settlement";
+import { reverseTransaction } from "./reversals";
+
+/* ============================================================================================================================
+   ACH RETURNS AND NOTIFICATIONS OF CHANGE
+   ----------------------------------------------------------------------------------------------------------------------------
+   Receiving banks answer entries they cannot or will not post with a return, and entries they posted to details that
+   need correcting with a notification of change (NOC). Both come back to us in a NACHA file whose entries carry an
+   addenda record naming the trace number of the entry we originated (see ach.ts), which is how they are matched to the
+   Transaction that sent the money.
+
+   A return gives the customer their money back. A payment still pending is returned before it settles, releasing its
+   hold; one that already posted is reversed with a contra entry out of the clearing account. Either way the return code
+   is recorded on the transaction, and a bill the payment paid is reopened.
+
+   A NOC changes nothing about the payment. It corrects the routing or account number saved on the ExternalAccount or
+   BillPayPayee the payment was sent to, so the next payment goes to the right place.
+
+   Each entry is applied in its own database transaction, so a file can be uploaded again: entries already applied are
+   reported as such and left alone.
+   ============================================================================================================================ */
+
+export const ACH_RETURN_CODES: Record<string, string> = {
+  R01: "Insufficient funds",
+  R02: "Account closed",
+  R03: "No account or unable to locate account",
+  R04: "Invalid account number",
+  R06: "Returned at our request",
+  R07: "Authorization revoked by customer",
+  R08: "Payment stopped",
+  R10: "Customer advises not authorized",
+  R14: "Account holder deceased",
+  R16: "Account frozen",
+  R20: "Non-transaction account",
+  R23: "Credit entry refused by receiver",
+  R24: "Duplicate entry",
+  R29: "Corporate customer advises not authorized",
+};
+
+export const ACH_CHANGE_CODES: Record<string, string> = {
+  C01: "Incorrect account number",
+  C02: "Incorrect routing number",
+  C03: "Incorrect routing number and account number",
+  C04: "Incorrect receiver name",
+  C05: "Incorrect transaction code",
+  C06: "Incorrect account number and transaction code",
+  C07: "Incorrect routing number, account number and transaction code",
+};
+
+export type AchReturnEntry = {
+  original_trace_number: string;
+  return_code: string;
+  amount_cents: number;
+};
+
+export type AchChangeEntry = {
+  original_trace_number: string;
+  change_code: string;
+  corrected_data: string;
+};
+
+export type AchReturnOutcome = {
+  trace_number: string;
+  code: string;
+  description: string;
+  transaction_id: number | null;
+  status: "applied" | "already_applied" | "unmatched" | "skipped";
+  message?: string;
+};
+
+/**
+ * Read the returns and NOCs out of a NACHA return file. Only entry detail and addenda records matter here; each
+ * return (addenda type 99) or NOC (addenda type 98) follows the entry detail record it belongs to.
+ * @throws Error if the file is not made of 94 character NACHA records
+ */
+export function parseAchReturnFile(contents: string): {
+  returns: AchReturnEntry[];
+  changes: AchChangeEntry[];
+} {
+  const lines = contents
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.length > 0);
+
+  const returns: AchReturnEntry[] = [];
+  const changes: AchChangeEntry[] = [];
+  let entryAmountCents: number | null = null;
+
+  lines.forEach((raw, index) => {
+    // Trailing blanks in the last field are often stripped in transit
+    const line = raw.padEnd(94, " ");
+    if (line.length !== 94 || !/^[156789]$/.test(line[0])) {
+      throw new Error(`Line ${index + 1} is not a NACHA record`);
+    }
+
+    if (line[0] === "6") {
+      entryAmountCents = Number(line.slice(29, 39));
+      return;
+    }
+    if (line[0] !== "7") {
+      entryAmountCents = null;
+      return;
+    }
+
+    const addendaType = line.slice(1, 3);
+    if (addendaType !== "99" && addendaType !== "98") {
+      return;
+    }
+    if (entryAmountCents === null) {
+      throw new Error(
+        `Line ${index + 1} is an addenda record without an entry`,
+      );
+    }
+
+    const code = line.slice(3, 6);
+    const original_trace_number = line.slice(6, 21);
+    if (!/^\d{15}$/.test(original_trace_number)) {
+      throw new Error(`Line ${index + 1} has an invalid original trace number`);
+    }
+
+    if (addendaType === "99") {
+      returns.push({
+        original_trace_number,
+        return_code: code,
+        amount_cents: entryAmountCents,
+      });
+    } else {
+      changes.push({
+        original_trace_number,
+        change_code: code,
+        corrected_data: line.slice(35, 64),
+      });
+    }
+  });
+
+  return { returns, changes };
+}
+
+/**
+ * The routing and account number a NOC's corrected data carries, by change code.
+ * @returns null for change codes that correct nothing we store
+ */
+export function getCorrectedDetails(
+  change_code: string,
+  corrected_data: string,
+): { routing_number?: string; account_number?: string } | null {
+  switch (change_code) {
+    case "C01":
+    case "C06":
+      return { account_number: corrected_data.slice(0, 17).trim() };
+    case "C02":
+      return { routing_number: corrected_data.slice(0, 9) };
+    case "C03":
+      return {
+        routing_number: corrected_data.slice(0, 9),
+        account_number: corrected_data.slice(12, 29).trim(),
+      };
+    case "C07":
+      return {
+        routing_number: corrected_data.slice(0, 9),
+        account_number: corrected_data.slice(9, 26).trim(),
+      };
+    default:
+      // Transaction codes and receiver names are not stored on the saved accounts
+      return null;
+  }
+}
+
+type ReturnedTransaction = {
+  id: number;
+  direction: string;
+  status: string;
+  amount: Decimal;
+  ach_return_code: string | null;
+};
+
+/**
+ * Apply one return to the transaction it answers. Must be called inside a Prisma interactive transaction.
+ */
+export async function applyAchReturn(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  entry: AchReturnEntry,
+  now: Date = new Date(),
+): Promise<AchReturnOutcome> {
+  const outcome = {
+    trace_number: entry.original_trace_number,
+    code: entry.return_code,
+    description: ACH_RETURN_CODES[entry.return_code] ?? "Unknown return code",
+  };
+
+  const transaction: ReturnedTransaction | null =
+    await tx.transaction.findUnique({
+      where: { ach_trace_number: entry.original_trace_number },
+    });
+
+  // Inbound credits keep their originator's trace number too, but only our own entries come back to us
+  if (!transaction || transaction.direction !== "outbound") {
+    return { ...outcome, transaction_id: null, status: "unmatched" };
+  }
+  if (transaction.ach_return_code !== null) {
+    return {
+      ...outcome,
+      transaction_id: transaction.id,
+      status: "already_applied",
+    };
+  }
+  if (Money.from(transaction.amount).abs().toCents() !== entry.amount_cents) {
+    return {
+      ...outcome,
+      transaction_id: transaction.id,
+      status: "skipped",
+      message: "Returned amount does not match the transaction",
+    };
+  }
+
+  if (transaction.status === "pending") {
+    const returned = await returnPendingTransaction(tx, transaction.id, now);
+    if (!returned) {
+      throw new Error(`Transaction ${transaction.id} is no longer pending`);
+    }
+  } else if (transaction.status === "approved") {
+    const reversal = await reverseTransaction(
+      tx,
+      { transaction_id: transaction.id, reason: "ach_return" },
+      now,
+    );
+    if (!reversal.ok) {
+      return {
+        ...outcome,
+        transaction_id: transaction.id,
+        status: "skipped",
+        message: reversal.error,
+      };
+    }
+  } else {
+    return {
+      ...outcome,
+      transaction_id: transaction.id,
+      status: "skipped",
+      message: `Transaction is ${transaction.status}`,
+    };
+  }
+
+  await tx.transaction.update({
+    where: { id: transaction.id },
+    data: { ach_return_code: entry.return_code },
+  });
+
+  // The payee never got the money, so the bill is still owed
+  await tx.bill.updateMany({
+    where: { transaction_id: transaction.id },
+    data: { status: "open", transaction_id: null, paid_at: null },
+  });
+
+  return { ...outcome, transaction_id: transaction.id, status: "applied" };
+}
+
+type ChangedTransaction = {
+  id: number;
+  direction: string;
+  transaction_type: string;
+  external_routing_number: string | null;
+  external_account_number: string | null;
+  internal_account: { user_id: number };
+  bill_pay_rule: { payee_id: number } | null;
+  bill: { payee_id: number } | null;
+};
+
+/**
+ * Apply one NOC to the saved external account or payee its transaction was sent to.
+ * Must be called inside a Prisma interactive transaction.
+ */
+export async function applyAchChange(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  entry: AchChangeEntry,
+): Promise<AchReturnOutcome> {
+  const outcome = {
+    trace_number: entry.original_trace_number,
+    code: entry.change_code,
+    description: ACH_CHANGE_CODES[entry.change_code] ?? "Unknown change code",
+  };
+
+  const transaction: ChangedTransaction | null =
+    await tx.transaction.findUnique({
+      where: { ach_trace_number: entry.original_trace_number },
+      include: {
+        internal_account: { select: { user_id: true } },
+        bill_pay_rule: { select: { payee_id: true } },
+        bill: { select: { payee_id: true } },
+      },
+    });
+
+  // Inbound credits keep their originator's trace number too, but only our own entries come back to us
+  if (!transaction || transaction.direction !== "outbound") {
+    return { ...outcome, transaction_id: null, status: "unmatched" };
+  }
+
+  const skip = (message: string): AchReturnOutcome => ({
+    ...outcome,
+    transaction_id: transaction.id,
+    status: "skipped",
+    message,
+  });
+
+  const corrected = getCorrectedDetails(
+    entry.change_code,
+    entry.corrected_data,
+  );
+  if (!corrected) {
+    return skip("Nothing saved to correct for this change code");
+  }
+  if (
+    (corrected.routing_number !== undefined &&
+      !isValidRoutingNumber(corrected.routing_number)) ||
+    (corrected.account_number !== undefined &&
+      !/^\d{1,17}$/.test(corrected.account_number))
+  ) {
+    return skip("Corrected data is not a valid routing or account number");
+  }
+
+  // The details the payment went to, which the saved account or payee should still have
+  const sentTo = {
+    routing_number: transaction.external_routing_number,
+    account_number: transaction.external_account_number,
+  };
+  const updated = { ...sentTo, ...corrected };
+
+  if (transaction.transaction_type === "external_transfer") {
+    const user_id = transaction.internal_account.user_id;
+    const existing = await tx.externalAccount.findFirst({
+      where: { user_id, ...updated },
+    });
+    if (existing) {
+      return {
+        ...outcome,
+        transaction_id: transaction.id,
+        status: "already_applied",
+      };
+    }
+
+    const result = await tx.externalAccount.updateMany({
+      where: { user_id, ...sentTo },
+      data: corrected,
+    });
+    if (result.count === 0) {
+      return skip("The external account has been changed or removed");
+    }
+  } else {
+    const payee_id =
+      transaction.bill_pay_rule?.payee_id ?? transaction.bill?.payee_id;
+    if (payee_id === undefined) {
+      return skip("The payment is not linked to a payee");
+    }
+
+    const result = await tx.billPayPayee.updateMany({
+      where: { id: payee_id, ...sentTo },
+      data: corrected,
+    });
+    if (result.count === 0) {
+      const payee = await tx.billPayPayee.findFirst({
+        where: { id: payee_id, ...updated },
+      });
+      return payee
+        ? {
+            ...outcome,
+            transaction_id: transaction.id,
+            status: "already_applied",
+          }
+        : skip("The payee's details have been changed since the payment");
+    }
+  }
+
+  return { ...outcome, transaction_id: transaction.id, status: "applied" };
+}
+
+/**
+ * Parse a NACHA return file and apply every return and NOC in it, each in its own database transaction so one
+ * failure does not hold up the rest.
+ * @throws Error if the file cannot be parsed; nothing is applied in that case
+ */
+export async function applyAchReturnFile(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  contents: string,
+  now: Date = new Date(),
+): Promise<{ returns: AchReturnOutcome[]; changes: AchReturnOutcome[] }> {
+  const { returns, changes } = parseAchReturnFile(contents);
+
+  const failed = (
+    trace_number: string,
+    code: string,
+    description: string,
+    error: unknown,
+  ): AchReturnOutcome => ({
+    trace_number,
+    code,
+    description,
+    transaction_id: null,
+    status: "skipped",
+    message: error instanceof Error ? error.message : String(error),
+  });
+
+  const returnOutcomes: AchReturnOutcome[] = [];
+  for (const entry of returns) {
+    try {
+      returnOutcomes.push(
+        await prisma.$transaction(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          async (tx: any) => applyAchReturn(tx, entry, now),
+        ),
+      );
+    } catch (error) {
+      returnOutcomes.push(
+        failed(
+          entry.original_trace_number,
+          entry.return_code,
+          ACH_RETURN_CODES[entry.return_code] ?? "Unknown return code",
+          error,
+        ),
+      );
+    }
+  }
+
+  const changeOutcomes: AchReturnOutcome[] = [];
+  for (const entry of changes) {
+    try {
+      changeOutcomes.push(
+        await prisma.$transaction(
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          async (tx: any) => applyAchChange(tx, entry),
+        ),
+      );
+    } catch (error) {
+      changeOutcomes.push(
+        failed(
+          entry.original_trace_number,
+          entry.change_code,
+          ACH_CHANGE_CODES[entry.change_code] ?? "Unknown change code",
+          error,
+        ),
+      );
+    }
+  }
+
+  return { returns: returnOutcomes, changes: changeOutcomes };
+}
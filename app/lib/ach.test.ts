@@ -0,0 +1,263 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  buildNachaFile,
+  getEntryHash,
+  markAchBatchSent,
+  nextAchTraceNumber,
+  originateAchBatch,
+} from "./ach";
+
+function createMockTx(payments: Record<string, unknown>[]) {
+  return {
+    transaction: {
+      findMany: vi.fn().mockResolvedValue(payments),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    achBatch: {
+      count: vi.fn().mockResolvedValue(0),
+      create: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: 7, ...data })),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      delete: vi.fn().mockResolvedValue({}),
+    },
+    $queryRaw: vi
+      .fn()
+      .mockResolvedValueOnce([{ value: BigInt(5001) }])
+      .mockResolvedValueOnce([{ value: BigInt(5002) }]),
+  };
+}
+
+const customer = { user: { first_name: "Jane", last_name: "Doe" } };
+
+const externalTransfer = {
+  id: 101,
+  amount: new Decimal("-250.00"),
+  transaction_type: "external_transfer",
+  external_routing_number: "021000021",
+  external_account_number: "123456789",
+  external_nickname: "My Chase",
+  internal_account: customer,
+  bill: null,
+};
+
+const billPayment = {
+  id: 102,
+  amount: new Decimal("-84.12"),
+  transaction_type: "billpay",
+  external_routing_number: "121000358",
+  external_account_number: "000111222333",
+  external_nickname: "City Water",
+  internal_account: customer,
+  bill: { reference: "INV-1001" },
+};
+
+const wednesday = new Date("2025-12-10T18:30:00Z");
+
+function parseLines(file: string) {
+  return file.trimEnd().split("\n");
+}
+
+describe("ACH Origination", () => {
+  describe("buildNachaFile", () => {
+    const file = buildNachaFile({
+      created_at: wednesday,
+      effective_date: new Date("2025-12-11T00:00:00Z"),
+      file_id_modifier: "A",
+      batches: [
+        {
+          sec_code: "PPD",
+          entry_description: "TRANSFER",
+          entries: [
+            {
+              individual_id: "101",
+              routing_number: "021000021",
+              account_number: "123456789",
+              amount_cents: 25000,
+              name: "Jane Doe",
+              trace_number: "724722900000101",
+            },
+          ],
+        },
+        {
+          sec_code: "CCD",
+          entry_description: "BILL PAY",
+          entries: [
+            {
+              individual_id: "102",
+              routing_number: "121000358",
+              account_number: "000111222333",
+              amount_cents: 8412,
+              name: "City Water",
+              trace_number: "724722900000102",
+              payment_info: "PAYMENT FROM JANE DOE FOR BILL INV-1001",
+            },
+          ],
+        },
+      ],
+    });
+    const lines = parseLines(file);
+
+    it("should write 94 character records in whole blocks of 10", () => {
+      expect(lines).toHaveLength(10);
+      for (const line of lines) {
+        expect(line).toHaveLength(94);
+      }
+      // Header, PPD batch, CCD batch with its addenda, file control and one padding line
+      expect(lines.map((line) => line[0]).join("")).toBe("1568567899");
+      expect(lines[9]).toBe("9".repeat(94));
+    });
+
+    it("should write the file header", () => {
+      expect(lines[0].slice(0, 40)).toBe(
+        "101 011000015 7247229072512101830A094101",
+      );
+    });
+
+    it("should write a credit entry with its trace number", () => {
+      const entry = lines[2];
+
+      expect(entry.slice(1, 3)).toBe("22");
+      expect(entry.slice(3, 12)).toBe("021000021");
+      expect(entry.slice(12, 29)).toBe("123456789        ");
+      expect(entry.slice(29, 39)).toBe("0000025000");
+      expect(entry.slice(54, 76)).toBe("JANE DOE              ");
+      expect(entry[78]).toBe("0");
+      expect(entry.slice(79)).toBe("724722900000101");
+    });
+
+    it("should attach an addenda record to bill payments", () => {
+      expect(lines[5][78]).toBe("1");
+      expect(lines[6].slice(3, 42)).toBe(
+        "PAYMENT FROM JANE DOE FOR BILL INV-1001",
+      );
+      expect(lines[6].slice(83)).toBe("00010000102");
+    });
+
+    it("should total each batch and the file", () => {
+      // Entry/addenda count, entry hash, total debit and total credit
+      expect(lines[3].slice(4, 44)).toBe(
+        "000001" + "0002100002" + "000000000000" + "000000025000",
+      );
+      expect(lines[7].slice(4, 44)).toBe(
+        "000002" + "0012100035" + "000000000000" + "000000008412",
+      );
+      expect(lines[8].slice(1, 55)).toBe(
+        "000002" +
+          "000001" +
+          "00000003" +
+          "0014200037" +
+          "000000000000" +
+          "000000033412",
+      );
+    });
+  });
+
+  describe("getEntryHash", () => {
+    it("should keep the rightmost 10 digits of the sum", () => {
+      const entries = Array.from({ length: 200 }, () => ({
+        routing_number: "999999999",
+      }));
+
+      expect(getEntryHash(entries)).toBe(19999999800 % 10_000_000_000);
+    });
+  });
+
+  describe("nextAchTraceNumber", () => {
+    it("should follow our routing number with the next value of the shared sequence", async () => {
+      const tx = {
+        $queryRaw: vi.fn().mockResolvedValue([{ value: BigInt(42) }]),
+      };
+
+      expect(await nextAchTraceNumber(tx)).toBe("724722900000042");
+    });
+  });
+
+  describe("originateAchBatch", () => {
+    it("should batch pending outbound payments and stamp their trace numbers", async () => {
+      const tx = createMockTx([externalTransfer, billPayment]);
+
+      const result = await originateAchBatch(tx, wednesday);
+
+      expect(result).toMatchObject({
+        batch_id: 7,
+        entry_count: 2,
+        skipped: [],
+      });
+      expect(result?.total_credit.toString()).toBe("334.12");
+      expect(tx.achBatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          file_id_modifier: "A",
+          effective_date: new Date("2025-12-11T00:00:00Z"),
+        }),
+      });
+      expect(tx.transaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 102, status: "pending", ach_batch_id: null },
+        data: { ach_batch_id: 7, ach_trace_number: "724722900005002" },
+      });
+
+      const { data } = tx.achBatch.update.mock.calls[0][0];
+      const lines = parseLines(data.file_contents);
+      expect(lines.filter((line) => line[0] === "5").map((l) => l[50])).toEqual(
+        ["P", "C"],
+      );
+      // Trace numbers come from the shared sequence, not the transaction ids
+      expect(
+        lines.filter((line) => line[0] === "6").map((l) => l.slice(79)),
+      ).toEqual(["724722900005001", "724722900005002"]);
+    });
+
+    it("should skip payments without a valid routing number", async () => {
+      const tx = createMockTx([
+        externalTransfer,
+        { ...billPayment, external_routing_number: "12345" },
+      ]);
+
+      const result = await originateAchBatch(tx, wednesday);
+
+      expect(result).toMatchObject({ entry_count: 1, skipped: [102] });
+      expect(tx.transaction.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return null when there is nothing to send", async () => {
+      const tx = createMockTx([]);
+
+      expect(await originateAchBatch(tx, wednesday)).toBeNull();
+      expect(tx.achBatch.create).not.toHaveBeenCalled();
+    });
+
+    it("should drop the batch when every payment was claimed by another run", async () => {
+      const tx = createMockTx([externalTransfer]);
+      tx.transaction.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await originateAchBatch(tx, wednesday)).toBeNull();
+      expect(tx.achBatch.delete).toHaveBeenCalledWith({ where: { id: 7 } });
+    });
+
+    it("should use the next file ID modifier for later files the same day", async () => {
+      const tx = createMockTx([externalTransfer]);
+      tx.achBatch.count.mockResolvedValue(2);
+
+      await originateAchBatch(tx, wednesday);
+
+      expect(tx.achBatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ file_id_modifier: "C" }),
+      });
+    });
+  });
+
+  describe("markAchBatchSent", () => {
+    it("should only mark generated batches as sent", async () => {
+      const tx = createMockTx([]);
+      tx.achBatch.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await markAchBatchSent(tx, 7, wednesday)).toBe(false);
+      expect(tx.achBatch.updateMany).toHaveBeenCalledWith({
+        where: { id: 7, status: "generated" },
+        data: { status: "sent", sent_at: wednesday },
+      });
+    });
+  });
+});
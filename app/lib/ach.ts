@@ -0,0 +1,471 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type { AchBatchKind } from "@prisma/client";
+import { Money } from "@/lib/money";
+import { isValidRoutingNumber } from "@/lib/routing-number";
+import { addBusinessDays } from "./settlement";
+
+/* ============================================================================================================================
+   ACH ORIGINATION
+   ----------------------------------------------------------------------------------------------------------------------------
+   Outbound external transfers and bill payments are held as pending transactions until they settle (see settlement.ts).
+   Origination is how they actually leave the bank: each run collects the pending outbound payments that have not been
+   sent yet into one NACHA file with two batches, PPD for external transfers to consumer accounts and CCD for bill
+   payments to businesses. Every entry is a credit to the receiver's account, and bill payment entries carry an addenda
+   record telling the payee who paid and for which bill.
+
+   Each transaction is stamped with its AchBatch and the trace number of its entry, so a return from the receiving bank
+   can be matched back to it. The file is stored exactly as generated; a manager downloads it, transmits it to the ACH
+   operator and marks the batch as sent. Only then do its payments settle.
+
+   Payments without a routing and account number (the black hole transfers to recipients outside the bank) cannot be
+   originated and are left out.
+   ============================================================================================================================ */
+
+// Who we are to the ACH operator. The immediate origin and ODFI are our routing number (see InternalAccount).
+export const ACH_ORIGINATOR = {
+  immediate_destination: "011000015", // Federal Reserve ACH operator
+  immediate_destination_name: "FEDERAL RESERVE BANK",
+  immediate_origin: "724722907",
+  immediate_origin_name: "CS160 BANK",
+  company_name: "CS160 BANK",
+  company_id: "1724722907", // "1" followed by the company's EIN
+};
+
+const RECORD_SIZE = 94;
+const BLOCKING_FACTOR = 10;
+// A file's ID modifier tells it apart from the other files created the same day
+const FILE_ID_MODIFIERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+const SERVICE_CLASS_CREDITS_ONLY = "220";
+const TRANSACTION_CODE_CHECKING_CREDIT = "22";
+
+export type AchEntry = {
+  transaction_code?: string; // Defaults to a credit to a checking account
+  routing_number: string; // 9 digits, check digit included
+  account_number: string;
+  amount_cents: number;
+  individual_id: string; // Our transaction id, or the original entry's for a return
+  name: string; // The receiver: an individual for PPD, a company for CCD
+  trace_number: string;
+  payment_info?: string; // Written to a payment addenda record when set
+  return?: { code: string; original_trace_number: string }; // Written to a return addenda record when set
+};
+
+export type AchBatchInput = {
+  // The company the entries are from; ours unless the batch returns another originator's entries
+  company_name?: string;
+  company_id?: string;
+  sec_code: string; // PPD for consumer accounts, CCD for businesses
+  entry_description: string; // Shown on the receiver's statement, up to 10 characters
+  entries: AchEntry[];
+};
+
+export type AchFileInput = {
+  created_at: Date;
+  effective_date: Date;
+  file_id_modifier: string;
+  batches: AchBatchInput[];
+};
+
+// NACHA fields are uppercase ASCII, left justified and padded with spaces
+function alpha(value: string, length: number): string {
+  return value
+    .toUpperCase()
+    .replace(/[^\x20-\x7E]/g, "")
+    .slice(0, length)
+    .padEnd(length, " ");
+}
+
+// Numeric fields are right justified and zero padded
+function numeric(value: number | string, length: number): string {
+  const digits = String(value);
+  if (!/^\d+$/.test(digits) || digits.length > length) {
+    throw new RangeError(`${digits} does not fit a ${length} digit field`);
+  }
+  return digits.padStart(length, "0");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, "");
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(":", "");
+}
+
+/**
+ * The next trace number for an entry in a file we send: our ODFI routing number (without its check digit) followed by
+ * a 7-digit sequence number from the ach_trace_number_seq database sequence, which every kind of file shares.
+ */
+export async function nextAchTraceNumber(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+): Promise<string> {
+  const [{ value }]: { value: bigint }[] =
+    await tx.$queryRaw`SELECT nextval('ach_trace_number_seq') AS value`;
+  return (
+    ACH_ORIGINATOR.immediate_origin.slice(0, 8) + numeric(String(value), 7)
+  );
+}
+
+/**
+ * The sum of the entries' receiving bank routing numbers (first 8 digits), keeping the rightmost 10 digits.
+ */
+export function getEntryHash(entries: Pick<AchEntry, "routing_number">[]) {
+  const sum = entries.reduce(
+    (total, entry) => total + Number(entry.routing_number.slice(0, 8)),
+    0,
+  );
+  return sum % 10_000_000_000;
+}
+
+function entryDetailRecord(entry: AchEntry): string {
+  return [
+    "6",
+    entry.transaction_code ?? TRANSACTION_CODE_CHECKING_CREDIT,
+    entry.routing_number.slice(0, 8),
+    entry.routing_number.slice(8, 9),
+    alpha(entry.account_number, 17),
+    numeric(entry.amount_cents, 10),
+    alpha(entry.individual_id, 15),
+    alpha(entry.name, 22),
+    "  ", // Discretionary data
+    hasAddenda(entry) ? "1" : "0",
+    entry.trace_number,
+  ].join("");
+}
+
+function hasAddenda(entry: AchEntry): boolean {
+  return entry.payment_info !== undefined || entry.return !== undefined;
+}
+
+function addendaRecord(entry: AchEntry): string {
+  if (entry.return) {
+    return [
+      "7",
+      "99",
+      alpha(entry.return.code, 3),
+      entry.return.original_trace_number,
+      alpha("", 6), // Date of death
+      ACH_ORIGINATOR.immediate_origin.slice(0, 8), // We were the original receiving bank
+      alpha("", 44), // Addenda information
+      entry.trace_number,
+    ].join("");
+  }
+
+  return [
+    "7",
+    "05",
+    alpha(entry.payment_info ?? "", 80),
+    "0001", // Addenda sequence number
+    entry.trace_number.slice(-7), // Entry detail sequence number
+  ].join("");
+}
+
+function batchRecords(
+  batch: AchBatchInput,
+  batch_number: number,
+  input: AchFileInput,
+): string[] {
+  const entryAndAddendaCount = batch.entries.reduce(
+    (count, entry) => count + (hasAddenda(entry) ? 2 : 1),
+    0,
+  );
+  const company_name = batch.company_name ?? ACH_ORIGINATOR.company_name;
+  const company_id = batch.company_id ?? ACH_ORIGINATOR.company_id;
+  const totalCredit = batch.entries.reduce(
+    (total, entry) => total + entry.amount_cents,
+    0,
+  );
+  const odfi = ACH_ORIGINATOR.immediate_origin.slice(0, 8);
+
+  const header = [
+    "5",
+    SERVICE_CLASS_CREDITS_ONLY,
+    alpha(company_name, 16),
+    alpha("", 20), // Company discretionary data
+    alpha(company_id, 10),
+    alpha(batch.sec_code, 3),
+    alpha(batch.entry_description, 10),
+    formatDate(input.created_at), // Company descriptive date
+    formatDate(input.effective_date),
+    "   ", // Settlement date, filled in by the ACH operator
+    "1", // Originator status code: a depository financial institution
+    odfi,
+    numeric(batch_number, 7),
+  ].join("");
+
+  const control = [
+    "8",
+    SERVICE_CLASS_CREDITS_ONLY,
+    numeric(entryAndAddendaCount, 6),
+    numeric(getEntryHash(batch.entries), 10),
+    numeric(0, 12), // Total debit
+    numeric(totalCredit, 12),
+    alpha(company_id, 10),
+    alpha("", 19), // Message authentication code
+    alpha("", 6), // Reserved
+    odfi,
+    numeric(batch_number, 7),
+  ].join("");
+
+  return [
+    header,
+    ...batch.entries.flatMap((entry) =>
+      hasAddenda(entry)
+        ? [entryDetailRecord(entry), addendaRecord(entry)]
+        : [entryDetailRecord(entry)],
+    ),
+    control,
+  ];
+}
+
+/**
+ * Build a NACHA file: file header, one batch per non-empty input batch, file control, and lines of 9s padding the
+ * file out to a whole block of 10 records. Records are 94 characters and end with a newline.
+ */
+export function buildNachaFile(input: AchFileInput): string {
+  const batches = input.batches.filter((batch) => batch.entries.length > 0);
+  const entries = batches.flatMap((batch) => batch.entries);
+
+  const fileHeader = [
+    "1",
+    "01", // Priority code
+    ` ${ACH_ORIGINATOR.immediate_destination}`,
+    ` ${ACH_ORIGINATOR.immediate_origin}`,
+    formatDate(input.created_at),
+    formatTime(input.created_at),
+    input.file_id_modifier,
+    numeric(RECORD_SIZE, 3),
+    numeric(BLOCKING_FACTOR, 2),
+    "1", // Format code
+    alpha(ACH_ORIGINATOR.immediate_destination_name, 23),
+    alpha(ACH_ORIGINATOR.immediate_origin_name, 23),
+    alpha("", 8), // Reference code
+  ].join("");
+
+  const batchLines = batches.flatMap((batch, index) =>
+    batchRecords(batch, index + 1, input),
+  );
+
+  // Header, batch records and this control record
+  const recordCount = 1 + batchLines.length + 1;
+  const blockCount = Math.ceil(recordCount / BLOCKING_FACTOR);
+  const entryAndAddendaCount = entries.reduce(
+    (count, entry) => count + (hasAddenda(entry) ? 2 : 1),
+    0,
+  );
+
+  const fileControl = [
+    "9",
+    numeric(batches.length, 6),
+    numeric(blockCount, 6),
+    numeric(entryAndAddendaCount, 8),
+    numeric(getEntryHash(entries), 10),
+    numeric(0, 12), // Total debit
+    numeric(
+      entries.reduce((total, entry) => total + entry.amount_cents, 0),
+      12,
+    ),
+    alpha("", 39), // Reserved
+  ].join("");
+
+  const padding = Array.from(
+    { length: blockCount * BLOCKING_FACTOR - recordCount },
+    () => "9".repeat(RECORD_SIZE),
+  );
+
+  return [fileHeader, ...batchLines, fileControl, ...padding].join("\n") + "\n";
+}
+
+type OutboundPayment = {
+  id: number;
+  amount: Decimal;
+  transaction_type: "external_transfer" | "billpay";
+  external_routing_number: string;
+  external_account_number: string;
+  external_nickname: string | null;
+  internal_account: { user: { first_name: string; last_name: string } };
+  bill: { reference: string | null } | null;
+};
+
+function toAchEntry(payment: OutboundPayment, trace_number: string): AchEntry {
+  const customer = `${payment.internal_account.user.first_name} ${payment.internal_account.user.last_name}`;
+  const entry = {
+    individual_id: String(payment.id),
+    routing_number: payment.external_routing_number,
+    account_number: payment.external_account_number,
+    amount_cents: Money.from(payment.amount).abs().toCents(),
+    trace_number,
+  };
+
+  if (payment.transaction_type === "external_transfer") {
+    // Customers send external transfers to their own accounts at other banks
+    return { ...entry, name: customer };
+  }
+
+  return {
+    ...entry,
+    name: payment.external_nickname ?? "",
+    payment_info: payment.bill?.reference
+      ? `PAYMENT FROM ${customer} FOR BILL ${payment.bill.reference}`
+      : `PAYMENT FROM ${customer}`,
+  };
+}
+
+function isOriginable(payment: OutboundPayment): boolean {
+  return (
+    isValidRoutingNumber(payment.external_routing_number) &&
+    /^[0-9A-Za-z-]{1,17}$/.test(payment.external_account_number)
+  );
+}
+
+/**
+ * Start the AchBatch for a file created now, taking the day's next file ID modifier (every file we send uses one,
+ * whatever its kind) and an effective date of the next business day. The caller fills in its contents and totals.
+ */
+export async function createAchBatch(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  kind: AchBatchKind,
+  now: Date,
+): Promise<{ id: number; file_id_modifier: string; effective_date: Date }> {
+  const startOfDay = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  const filesToday = await tx.achBatch.count({
+    where: { created_at: { gte: startOfDay } },
+  });
+  if (filesToday >= FILE_ID_MODIFIERS.length) {
+    throw new Error("No ACH file ID modifiers are left for today");
+  }
+
+  return await tx.achBatch.create({
+    data: {
+      kind,
+      created_at: now,
+      effective_date: addBusinessDays(startOfDay, 1),
+      file_id_modifier: FILE_ID_MODIFIERS[filesToday],
+      entry_count: 0,
+      total_credit: new Decimal(0),
+      file_contents: "",
+    },
+  });
+}
+
+export type AchOriginationResult = {
+  batch_id: number;
+  entry_count: number;
+  total_credit: Decimal;
+  skipped: number[]; // Transactions whose account details cannot go in a NACHA file
+};
+
+/**
+ * Collect the pending outbound external transfers and bill payments that have not been originated into a new
+ * AchBatch and its NACHA file, stamping each transaction with the batch and its trace number.
+ * Must be called inside a Prisma interactive transaction.
+ * @returns The new batch, or null if there was nothing to send
+ */
+export async function originateAchBatch(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  now: Date = new Date(),
+): Promise<AchOriginationResult | null> {
+  const payments: OutboundPayment[] = await tx.transaction.findMany({
+    where: {
+      status: "pending",
+      direction: "outbound",
+      transaction_type: { in: ["external_transfer", "billpay"] },
+      ach_batch_id: null,
+      external_routing_number: { not: null },
+      external_account_number: { not: null },
+    },
+    include: {
+      internal_account: {
+        select: { user: { select: { first_name: true, last_name: true } } },
+      },
+      bill: { select: { reference: true } },
+    },
+    orderBy: { id: "asc" },
+  });
+
+  const originable = payments.filter(isOriginable);
+  const skipped = payments
+    .filter((payment) => !isOriginable(payment))
+    .map((payment) => payment.id);
+
+  if (originable.length === 0) {
+    return null;
+  }
+
+  const batch = await createAchBatch(tx, "origination", now);
+
+  // Claim each payment so a concurrent run cannot put it in a second file
+  const entries: AchEntry[] = [];
+  for (const payment of originable) {
+    const ach_trace_number = await nextAchTraceNumber(tx);
+    const result = await tx.transaction.updateMany({
+      where: { id: payment.id, status: "pending", ach_batch_id: null },
+      data: { ach_batch_id: batch.id, ach_trace_number },
+    });
+    if (result.count === 1) {
+      entries.push(toAchEntry(payment, ach_trace_number));
+    }
+  }
+
+  if (entries.length === 0) {
+    await tx.achBatch.delete({ where: { id: batch.id } });
+    return null;
+  }
+
+  const file_contents = buildNachaFile({
+    created_at: now,
+    effective_date: batch.effective_date,
+    file_id_modifier: batch.file_id_modifier,
+    batches: [
+      {
+        sec_code: "PPD",
+        entry_description: "TRANSFER",
+        entries: entries.filter((entry) => !entry.payment_info),
+      },
+      {
+        sec_code: "CCD",
+        entry_description: "BILL PAY",
+        entries: entries.filter((entry) => entry.payment_info),
+      },
+    ],
+  });
+
+  const total_credit = new Decimal(
+    Money.fromCents(
+      entries.reduce((total, entry) => total + entry.amount_cents, 0),
+    ).toString(),
+  );
+  await tx.achBatch.update({
+    where: { id: batch.id },
+    data: { entry_count: entries.length, total_credit, file_contents },
+  });
+
+  return {
+    batch_id: batch.id,
+    entry_count: entries.length,
+    total_credit,
+    skipped,
+  };
+}
+
+/**
+ * Record that a batch's file was transmitted to the ACH operator.
+ * @returns False if the batch does not exist or was already marked as sent
+ */
+export async function markAchBatchSent(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  batch_id: number,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const result = await tx.achBatch.updateMany({
+    where: { id: batch_id, status: "generated" },
+    data: { status: "sent", sent_at: now },
+  });
+  return result.count === 1;
+}
@@ -0,0 +1,660 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  applyBillPayRuleAction,
+  executeBillPay,
+  payBill,
+  presentBill,
+  getFirstBillPayRunAt,
+  getUpcomingBillPayRuns,
+  runBillPayRuleOccurrence,
+  type BillPayment,
+  type BillPayRuleToRun,
+} from "./billpay";
+
+type FixedAmountRule = BillPayRuleToRun & {
+  amount: Decimal;
+  frequency: string;
+};
+
+function createRule(overrides: Partial<FixedAmountRule> = {}): FixedAmountRule {
+  return {
+    id: 4,
+    user_id: 10,
+    payee_id: 6,
+    mode: "fixed_amount",
+    amount: new Decimal("80.00"),
+    frequency: "0 9 15 * *",
+    max_amount: null,
+    start_time: new Date("2025-11-01T00:00:00Z"),
+    end_time: null,
+    status: "active",
+    skip_count: 0,
+    source_internal: {
+      id: 1,
+      user_id: 10,
+      account_type: "checking",
+      is_active: true,
+    },
+    ...overrides,
+  };
+}
+
+// The payment a fixed amount rule makes
+function rulePayment(rule = createRule()): BillPayment {
+  return { ...rule, bill_pay_rule_id: rule.id };
+}
+
+function createMockTx({
+  funded = 1,
+  rule = createRule(),
+}: { funded?: number; rule?: BillPayRuleToRun } = {}) {
+  return {
+    billPayRule: {
+      findUnique: vi.fn().mockResolvedValue(rule),
+      update: vi.fn().mockImplementation(async ({ data }) => ({
+        ...rule,
+        ...data,
+      })),
+    },
+    billPayPayee: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 6,
+        business_name: "City Water",
+        account_number: "99887766",
+        routing_number: "021000021",
+        is_active: false,
+      }),
+    },
+    transaction: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: 500, ...data })),
+      update: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: 500, ...data })),
+      aggregate: vi.fn().mockResolvedValue({ _sum: { amount: null } }),
+    },
+    transactionLimit: { findMany: vi.fn().mockResolvedValue([]) },
+    userTransactionLimit: { findMany: vi.fn().mockResolvedValue([]) },
+    $queryRaw: vi.fn().mockResolvedValue([]),
+    $executeRaw: vi.fn().mockResolvedValue(0),
+    internalAccount: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 1,
+        available_balance: new Decimal(1000),
+        overdraft_protection_account: null,
+      }),
+      updateMany: vi.fn().mockResolvedValue({ count: funded }),
+    },
+    fundsHold: { create: vi.fn().mockResolvedValue({ id: 8 }) },
+    bill: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockImplementation(async ({ data }) => ({
+        id: 30,
+        status: "open",
+        ...data,
+      })),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    scheduledJob: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+  };
+}
+
+const statementRule: BillPayRuleToRun = {
+  ...createRule(),
+  mode: "statement_balance",
+  amount: null,
+  frequency: null,
+  max_amount: new Decimal("500.00"),
+};
+
+describe("Bill pay", () => {
+  describe("getFirstBillPayRunAt", () => {
+    it("should start at the first run on or after start_time", () => {
+      expect(
+        getFirstBillPayRunAt(
+          createRule({ start_time: new Date("2026-01-15T09:00:00Z") }),
+          new Date("2025-12-04T00:00:00Z"),
+        ),
+      ).toEqual(new Date("2026-01-15T09:00:00Z"));
+    });
+
+    it("should return null when the rule ends before its first run", () => {
+      expect(
+        getFirstBillPayRunAt(
+          createRule({
+            start_time: new Date("2026-01-16T00:00:00Z"),
+            end_time: new Date("2026-02-01T00:00:00Z"),
+          }),
+          new Date("2025-12-04T00:00:00Z"),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("getUpcomingBillPayRuns", () => {
+    it("should list runs from the scheduled run until the rule ends", () => {
+      expect(
+        getUpcomingBillPayRuns(
+          createRule({ end_time: new Date("2026-03-01T00:00:00Z") }),
+          5,
+          new Date("2026-01-15T09:00:00Z"),
+        ),
+      ).toEqual([
+        new Date("2026-01-15T09:00:00Z"),
+        new Date("2026-02-15T09:00:00Z"),
+      ]);
+    });
+
+    it("should list nothing for a rule with no runs left", () => {
+      expect(getUpcomingBillPayRuns(createRule(), 5, null)).toEqual([]);
+    });
+  });
+
+  describe("executeBillPay", () => {
+    it("should hold the funds for a payment to an inactive payee", async () => {
+      const tx = createMockTx();
+
+      const result = await executeBillPay(tx, rulePayment(), "key-1");
+
+      expect(result).toEqual({ status: "pending", transaction_id: 500 });
+      expect(tx.fundsHold.create).toHaveBeenCalledOnce();
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transaction_type: "billpay",
+          status: "pending",
+          bill_pay_rule_id: 4,
+          idempotency_key: "key-1",
+          external_nickname: "City Water",
+        }),
+      });
+    });
+
+    it("should deny a payment from an inactive account", async () => {
+      const tx = createMockTx();
+      const rule = createRule();
+      rule.source_internal.is_active = false;
+
+      const result = await executeBillPay(tx, rulePayment(rule), "key-1");
+
+      expect(result).toMatchObject({
+        status: "denied",
+        reason: "source_inactive",
+      });
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: "denied",
+          denial_reason: "Source account is inactive",
+        }),
+      });
+      expect(tx.fundsHold.create).not.toHaveBeenCalled();
+    });
+
+    it("should deny a payment over the per-transaction limit", async () => {
+      const tx = createMockTx();
+      tx.transactionLimit.findMany.mockResolvedValue([
+        { limit_type: "per_transaction", amount: new Decimal(50) },
+      ]);
+
+      const result = await executeBillPay(tx, rulePayment(), "key-1");
+
+      expect(result).toMatchObject({
+        status: "denied",
+        reason: "limit_exceeded",
+        limit_check: { limit_type: "per_transaction" },
+      });
+    });
+
+    it("should roll back the overdraft sweep and the hold when funds are still short", async () => {
+      const tx = createMockTx({ funded: 0 });
+
+      const result = await executeBillPay(tx, rulePayment(), "key-1");
+
+      expect(result).toEqual({
+        status: "denied",
+        reason: "insufficient_funds",
+        transaction_id: 500,
+      });
+      const [savepoint, rollback] = tx.$executeRaw.mock.calls;
+      expect(savepoint[0][0]).toBe("SAVEPOINT overdraft_protection_sweep");
+      expect(rollback[0][0]).toBe(
+        "ROLLBACK TO SAVEPOINT overdraft_protection_sweep",
+      );
+      // The denial is recorded after the rollback, so it is kept
+      const denial = tx.transaction.create.mock.calls.findIndex(
+        ([{ data }]) => data.status === "denied",
+      );
+      expect(
+        tx.transaction.create.mock.invocationCallOrder[denial],
+      ).toBeGreaterThan(tx.$executeRaw.mock.invocationCallOrder[1]);
+    });
+
+    it("should not submit a payment twice under one idempotency key", async () => {
+      const tx = createMockTx();
+      tx.transaction.findFirst.mockResolvedValue({ id: 499 });
+
+      const result = await executeBillPay(tx, rulePayment(), "key-1");
+
+      expect(result).toEqual({ status: "duplicate", transaction_id: 499 });
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("runBillPayRuleOccurrence", () => {
+    it("should key the payment by its occurrence and return the next run", async () => {
+      const tx = createMockTx({ funded: 0 });
+
+      const occurrence = await runBillPayRuleOccurrence(
+        tx,
+        4,
+        new Date("2025-12-15T09:00:00Z"),
+        new Date("2025-12-15T09:01:00Z"),
+      );
+
+      expect(occurrence).toEqual({
+        status: "denied",
+        transaction_id: 500,
+        reason: "Insufficient funds",
+        next_run_at: new Date("2026-01-15T09:00:00Z"),
+      });
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          idempotency_key: "billpay_rule_4_2025-12-15T09:00:00.000Z",
+        }),
+      });
+    });
+
+    it("should skip a payment the customer asked to skip and record why", async () => {
+      const tx = createMockTx({ rule: createRule({ skip_count: 2 }) });
+
+      const occurrence = await runBillPayRuleOccurrence(
+        tx,
+        4,
+        new Date("2025-12-15T09:00:00Z"),
+        new Date("2025-12-15T09:01:00Z"),
+      );
+
+      expect(occurrence).toEqual({
+        status: "skipped",
+        reason: "Skipped at the customer's request",
+        next_run_at: new Date("2026-01-15T09:00:00Z"),
+      });
+      expect(tx.billPayRule.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: {
+          skip_count: { decrement: 1 },
+          events: {
+            create: {
+              event_type: "payment_skipped",
+              occurrence_at: new Date("2025-12-15T09:00:00Z"),
+            },
+          },
+        },
+      });
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it("should take a paused rule off the schedule without paying", async () => {
+      const tx = createMockTx({ rule: createRule({ status: "paused" }) });
+
+      const occurrence = await runBillPayRuleOccurrence(
+        tx,
+        4,
+        new Date("2025-12-15T09:00:00Z"),
+        new Date("2025-12-15T09:01:00Z"),
+      );
+
+      expect(occurrence).toEqual({
+        status: "skipped",
+        reason: "Rule is paused",
+        next_run_at: null,
+      });
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("applyBillPayRuleAction", () => {
+    const now = new Date("2025-12-20T00:00:00Z");
+
+    it("should pause a rule and take it off the schedule", async () => {
+      const tx = createMockTx();
+
+      const result = await applyBillPayRuleAction(
+        tx,
+        createRule(),
+        { action: "pause" },
+        now,
+      );
+
+      expect(result).toMatchObject({ ok: true, rule: { status: "paused" } });
+      expect(tx.billPayRule.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: {
+          status: "paused",
+          scheduled_job: {
+            upsert: {
+              create: { job_type: "billpay_rule", next_run_at: null },
+              update: { next_run_at: null },
+            },
+          },
+          events: { create: { event_type: "paused" } },
+        },
+      });
+    });
+
+    it("should resume a paused rule at its next run after now", async () => {
+      const tx = createMockTx();
+
+      const result = await applyBillPayRuleAction(
+        tx,
+        createRule({ status: "paused" }),
+        { action: "resume" },
+        now,
+      );
+
+      expect(result).toMatchObject({ ok: true, rule: { status: "active" } });
+      expect(tx.billPayRule.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: expect.objectContaining({
+          scheduled_job: {
+            upsert: {
+              create: {
+                job_type: "billpay_rule",
+                next_run_at: new Date("2026-01-15T09:00:00Z"),
+              },
+              update: { next_run_at: new Date("2026-01-15T09:00:00Z") },
+            },
+          },
+          events: { create: { event_type: "resumed" } },
+        }),
+      });
+    });
+
+    it("should refuse to resume a rule that is not paused", async () => {
+      const tx = createMockTx();
+
+      const result = await applyBillPayRuleAction(
+        tx,
+        createRule(),
+        { action: "resume" },
+        now,
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        error: "Bill pay rule is not paused",
+      });
+      expect(tx.billPayRule.update).not.toHaveBeenCalled();
+    });
+
+    it("should add to the payments left to skip", async () => {
+      const tx = createMockTx();
+
+      await applyBillPayRuleAction(
+        tx,
+        createRule({ skip_count: 1 }),
+        { action: "skip", count: 2 },
+        now,
+      );
+
+      expect(tx.billPayRule.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: {
+          skip_count: { increment: 2 },
+          events: { create: { event_type: "skip_requested", skip_count: 2 } },
+        },
+      });
+    });
+  });
+
+  describe("statement balance rules", () => {
+    it("should bring forward the jobs of rules that will pay a new bill", async () => {
+      const tx = createMockTx();
+      const due_date = new Date("2026-01-20T00:00:00Z");
+
+      const bill = await presentBill(tx, {
+        payee_id: 6,
+        user_id: 10,
+        amount_due: new Decimal("84.12"),
+        due_date,
+      });
+
+      expect(bill).toMatchObject({ id: 30, status: "open" });
+      expect(tx.scheduledJob.updateMany).toHaveBeenCalledWith({
+        where: {
+          bill_pay_rule: expect.objectContaining({
+            user_id: 10,
+            payee_id: 6,
+            mode: "statement_balance",
+            status: "active",
+            AND: expect.arrayContaining([
+              {
+                OR: [
+                  { max_amount: null },
+                  { max_amount: { gte: new Decimal("84.12") } },
+                ],
+              },
+            ]),
+          }),
+          OR: [{ next_run_at: null }, { next_run_at: { gt: due_date } }],
+        },
+        data: { next_run_at: due_date },
+      });
+    });
+
+    it("should pay the bills that have come due and wait for the next one", async () => {
+      const tx = createMockTx({ rule: statementRule });
+      tx.bill.findMany.mockResolvedValueOnce([
+        { id: 30, payee_id: 6, amount_due: new Decimal("84.12") },
+      ]);
+      tx.bill.findFirst.mockResolvedValue({
+        due_date: new Date("2026-01-20T00:00:00Z"),
+      });
+
+      const occurrence = await runBillPayRuleOccurrence(
+        tx,
+        4,
+        new Date("2025-12-20T00:00:00Z"),
+        new Date("2025-12-20T00:01:00Z"),
+      );
+
+      expect(occurrence).toEqual({
+        status: "pending",
+        transaction_id: 500,
+        next_run_at: new Date("2026-01-20T00:00:00Z"),
+      });
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: new Decimal("-84.12"),
+          bill_pay_rule_id: 4,
+          idempotency_key: "billpay_rule_4_bill_30_2025-12-20T00:00:00.000Z",
+        }),
+      });
+      expect(tx.bill.updateMany).toHaveBeenCalledWith({
+        where: { id: 30, status: "open" },
+        data: {
+          status: "paid",
+          transaction_id: 500,
+          paid_at: new Date("2025-12-20T00:01:00Z"),
+        },
+      });
+    });
+
+    it("should retry a denied bill until it is paid", async () => {
+      const bill = {
+        id: 30,
+        payee_id: 6,
+        amount_due: new Decimal("84.12"),
+        due_date: new Date("2025-12-20T00:00:00Z"),
+      };
+      const denied = createMockTx({ rule: statementRule, funded: 0 });
+      denied.bill.findMany.mockResolvedValueOnce([bill]);
+      denied.bill.findFirst.mockResolvedValue({
+        due_date: new Date("2026-01-20T00:00:00Z"),
+      });
+
+      const first = await runBillPayRuleOccurrence(
+        denied,
+        4,
+        new Date("2025-12-20T00:00:00Z"),
+        new Date("2025-12-20T00:01:00Z"),
+      );
+
+      expect(first).toMatchObject({
+        status: "denied",
+        next_run_at: new Date("2025-12-20T01:01:00Z"),
+      });
+
+      // Funded by the time of the retry
+      const funded = createMockTx({ rule: statementRule });
+      funded.bill.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([bill]);
+      funded.bill.findFirst.mockResolvedValue({
+        due_date: new Date("2026-01-20T00:00:00Z"),
+      });
+      // The denied attempt does not count as the bill's payment
+      funded.transaction.findFirst.mockImplementation(async ({ where }) =>
+        where.status === "denied" ? { id: 499, status: "denied" } : null,
+      );
+
+      const retry = await runBillPayRuleOccurrence(
+        funded,
+        4,
+        first.next_run_at!,
+        new Date("2025-12-20T01:01:00Z"),
+      );
+
+      expect(retry).toEqual({
+        status: "pending",
+        transaction_id: 500,
+        next_run_at: new Date("2026-01-20T00:00:00Z"),
+      });
+      expect(funded.transaction.findFirst).toHaveBeenCalledWith({
+        where: {
+          bill_pay_rule_id: 4,
+          status: "denied",
+          idempotency_key: { startsWith: "billpay_rule_4_bill_30_" },
+        },
+      });
+      expect(funded.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: "pending",
+          idempotency_key: "billpay_rule_4_bill_30_2025-12-20T01:01:00.000Z",
+        }),
+      });
+      expect(funded.bill.updateMany).toHaveBeenCalledWith({
+        where: { id: 30, status: "open" },
+        data: expect.objectContaining({ status: "paid" }),
+      });
+    });
+
+    it("should stop retrying a denied bill once it is past due", async () => {
+      const tx = createMockTx({ rule: statementRule, funded: 0 });
+      tx.bill.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([
+        {
+          id: 30,
+          payee_id: 6,
+          amount_due: new Decimal("84.12"),
+          due_date: new Date("2025-12-20T00:00:00Z"),
+        },
+      ]);
+      tx.bill.findFirst.mockResolvedValue({
+        due_date: new Date("2026-01-20T00:00:00Z"),
+      });
+      tx.transaction.findFirst.mockImplementation(async ({ where }) =>
+        where.status === "denied" ? { id: 499, status: "denied" } : null,
+      );
+
+      const occurrence = await runBillPayRuleOccurrence(
+        tx,
+        4,
+        new Date("2025-12-20T23:30:00Z"),
+        new Date("2025-12-20T23:30:00Z"),
+      );
+
+      expect(occurrence).toMatchObject({
+        status: "denied",
+        next_run_at: new Date("2026-01-20T00:00:00Z"),
+      });
+    });
+
+    it("should leave bills above the rule's maximum for the customer to pay", async () => {
+      const tx = createMockTx({ rule: statementRule });
+
+      await runBillPayRuleOccurrence(
+        tx,
+        4,
+        new Date("2025-12-20T00:00:00Z"),
+        new Date("2025-12-20T00:01:00Z"),
+      );
+
+      expect(tx.bill.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: "open",
+            amount_due: { lte: new Decimal("500.00") },
+          }),
+        }),
+      );
+      expect(tx.bill.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            amount_due: { lte: new Decimal("500.00") },
+          }),
+        }),
+      );
+    });
+
+    it("should wait for a bill when none has come due", async () => {
+      const tx = createMockTx({ rule: statementRule });
+
+      const occurrence = await runBillPayRuleOccurrence(
+        tx,
+        4,
+        new Date("2025-12-20T00:00:00Z"),
+        new Date("2025-12-20T00:01:00Z"),
+      );
+
+      expect(occurrence).toEqual({
+        status: "skipped",
+        reason: "No bills due",
+        next_run_at: null,
+      });
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it("should leave a bill open when its payment is denied", async () => {
+      const tx = createMockTx({ funded: 0 });
+
+      const result = await payBill(
+        tx,
+        { id: 30, payee_id: 6, amount_due: new Decimal("84.12") },
+        createRule().source_internal,
+      );
+
+      expect(result).toEqual({
+        status: "denied",
+        reason: "insufficient_funds",
+        transaction_id: 500,
+      });
+      expect(tx.bill.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should not pay a bill that was paid in the meantime", async () => {
+      const tx = createMockTx();
+      tx.bill.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        payBill(
+          tx,
+          { id: 30, payee_id: 6, amount_due: new Decimal("84.12") },
+          createRule().source_internal,
+        ),
+      ).rejects.toThrow("Bill has already been paid");
+    });
+  });
+});
@@ -0,0 +1,693 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type {
+  AccountTypeEnum,
+  BillPayRuleMode,
+  BillPayRuleStatus,
+} from "@prisma/client";
+import { nextCronRun } from "@/lib/cron";
+import { checkTransactionLimits, type LimitCheck } from "./limits";
+import { sweepOverdraftProtectionUndoably } from "./overdraft";
+import type { ScheduledOccurrence } from "./scheduler";
+import {
+  createDeniedTransaction,
+  createPendingTransaction,
+  findExistingTransaction,
+} from "./transactions";
+
+/* ============================================================================================================================
+   BILL PAY
+   ----------------------------------------------------------------------------------------------------------------------------
+   A BillPayRule pays a fixed amount from one of the user's accounts to a payee on its cron frequency, from start_time
+   until end_time. Each payment goes out through the clearing house: the funds are held when it is submitted and post
+   when it settles (see settlement.ts). Payments are submitted by the scheduler (scheduler.ts) and on demand through
+   POST /api/transactions; both go through executeBillPay.
+
+   Payees can also present bills: an amount due on a due date. The customer pays a bill one-off, or sets up a
+   statement_balance rule, which has no amount or frequency of its own. Its scheduled job waits for the earliest due
+   date of the payee's open bills, and each run pays every bill that has come due. Presenting a bill brings the job
+   forward when the bill is due sooner. A bill is paid once its payment is submitted. When its payment is denied, the
+   rule tries again every hour until the bill is paid or past due (a day after its due date), and then leaves it open
+   for the customer to pay. So does a bill above the rule's max_amount, which the rule never pays: a payee cannot draw
+   more from the customer's account than the customer agreed to.
+
+   A customer can pause a rule, which takes it off the schedule until it is resumed, or skip its next few payments.
+   Each pause, resume and skipped payment is recorded as a BillPayRuleEvent so the customer can see why a payment
+   did not go out.
+   ============================================================================================================================ */
+
+// How long a statement_balance rule waits before trying a denied bill payment again
+const STATEMENT_RETRY_MS = 60 * 60 * 1000;
+// How long after its due date a bill is past due, and no longer retried
+const BILL_PAST_DUE_MS = 24 * 60 * 60 * 1000;
+
+export type BillPaySchedule = {
+  frequency: string;
+  start_time: Date;
+  end_time: Date | null;
+};
+
+// A rule's schedule in either mode. frequency is null for statement_balance rules.
+export type BillPayRuleSchedule = Omit<BillPaySchedule, "frequency"> & {
+  user_id: number;
+  payee_id: number;
+  mode: BillPayRuleMode;
+  frequency: string | null;
+  max_amount: Decimal | null; // Null for fixed_amount rules
+};
+
+type BillPaySource = {
+  id: number;
+  user_id: number;
+  account_type: AccountTypeEnum;
+  is_active: boolean;
+};
+
+export type BillPayRuleToRun = BillPayRuleSchedule & {
+  id: number;
+  amount: Decimal | null; // Null for statement_balance rules
+  status: BillPayRuleStatus;
+  skip_count: number;
+  source_internal: BillPaySource;
+};
+
+// One payment to a payee: a fixed_amount rule's amount, or the amount due on a bill
+export type BillPayment = {
+  payee_id: number;
+  amount: Decimal;
+  bill_pay_rule_id?: number; // Left out when a customer pays a bill one-off
+  source_internal: BillPaySource;
+};
+
+export type BillToPay = {
+  id: number;
+  payee_id: number;
+  amount_due: Decimal;
+};
+
+type BillPayDenialReason =
+  | "source_inactive"
+  | "payee_not_found"
+  | "insufficient_funds";
+
+export type BillPayResult =
+  | { status: "pending"; transaction_id: number }
+  | { status: "duplicate"; transaction_id: number }
+  | { status: "denied"; reason: BillPayDenialReason; transaction_id: number }
+  | {
+      status: "denied";
+      reason: "limit_exceeded";
+      transaction_id: number;
+      limit_check: Extract<LimitCheck, { ok: false }>;
+    };
+
+const DENIAL_MESSAGES: Record<BillPayDenialReason, string> = {
+  source_inactive: "Source account is inactive",
+  payee_not_found: "Payee not found",
+  insufficient_funds: "Insufficient funds",
+};
+
+export type BillPayRuleAction =
+  | { action: "pause" }
+  | { action: "resume" }
+  | { action: "skip"; count: number };
+
+// Relations a rule needs to run
+export const BILLPAY_RULE_INCLUDE = { source_internal: true } as const;
+
+/**
+ * When a new or rescheduled rule should first run: the first time its frequency fires at or after start_time
+ * (and after `now`).
+ * @returns The first run, or null if the rule would never run (e.g. it ends before its frequency fires)
+ */
+export function getFirstBillPayRunAt(
+  schedule: BillPaySchedule,
+  now: Date = new Date(),
+): Date | null {
+  const justBeforeStart = new Date(schedule.start_time.getTime() - 1);
+  return getNextBillPayRunAt(
+    schedule,
+    justBeforeStart > now ? justBeforeStart : now,
+  );
+}
+
+/**
+ * The next time a rule fires strictly after `after`, within its end_time.
+ * @returns The next run, or null if the rule has no runs left
+ */
+export function getNextBillPayRunAt(
+  schedule: BillPaySchedule,
+  after: Date,
+): Date | null {
+  const next = nextCronRun(schedule.frequency, after);
+  if (!next || (schedule.end_time && next > schedule.end_time)) {
+    return null;
+  }
+  return next;
+}
+
+/**
+ * The next `count` runs of a rule, starting at `next_run_at`: the run its scheduled job is waiting for, or null when
+ * the rule has no runs left. Defaults to the first run of a rule that has not been scheduled yet.
+ */
+export function getUpcomingBillPayRuns(
+  schedule: BillPaySchedule,
+  count: number,
+  next_run_at: Date | null = getFirstBillPayRunAt(schedule),
+): Date[] {
+  const runs: Date[] = [];
+  for (
+    let run = next_run_at;
+    run && runs.length < count;
+    run = getNextBillPayRunAt(schedule, run)
+  ) {
+    runs.push(run);
+  }
+  return runs;
+}
+
+// The open bills from a statement_balance rule's payee that it pays: those up to its max_amount
+function payableBillsWhere(rule: BillPayRuleSchedule) {
+  return {
+    user_id: rule.user_id,
+    payee_id: rule.payee_id,
+    status: "open",
+    ...(rule.max_amount && { amount_due: { lte: rule.max_amount } }),
+  };
+}
+
+/**
+ * When a statement_balance rule next pays: the due date of the first bill it pays from its payee due after `after`,
+ * within the rule's start_time and end_time.
+ * @returns The due date, or null if the rule has no bills left to pay
+ */
+export async function getNextStatementRunAt(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule: BillPayRuleSchedule,
+  after: Date,
+): Promise<Date | null> {
+  const bill = await tx.bill.findFirst({
+    where: {
+      ...payableBillsWhere(rule),
+      due_date: {
+        gt: after,
+        gte: rule.start_time,
+        ...(rule.end_time && { lte: rule.end_time }),
+      },
+    },
+    orderBy: { due_date: "asc" },
+  });
+  return bill?.due_date ?? null;
+}
+
+/**
+ * When a new, resumed or rescheduled rule should next run after `now`, in either mode.
+ * @returns The next run, or null if the rule has nothing to pay
+ */
+export async function getRuleFirstRunAt(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule: BillPayRuleSchedule,
+  now: Date = new Date(),
+): Promise<Date | null> {
+  if (rule.mode === "statement_balance") {
+    return getNextStatementRunAt(tx, rule, now);
+  }
+  return getFirstBillPayRunAt({ ...rule, frequency: rule.frequency! }, now);
+}
+
+/**
+ * The due dates of the next `count` bills a statement_balance rule will pay, starting at `next_run_at`: the run its
+ * scheduled job is waiting for, or null when the rule has no bills left to pay.
+ */
+export async function getUpcomingStatementRuns(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule: BillPayRuleSchedule,
+  count: number,
+  next_run_at: Date | null,
+): Promise<Date[]> {
+  if (!next_run_at) {
+    return [];
+  }
+  const bills: { due_date: Date }[] = await tx.bill.findMany({
+    where: {
+      ...payableBillsWhere(rule),
+      due_date: {
+        gte: next_run_at,
+        ...(rule.end_time && { lte: rule.end_time }),
+      },
+    },
+    orderBy: { due_date: "asc" },
+    take: count,
+  });
+  return bills.map((bill) => bill.due_date);
+}
+
+/**
+ * Submit one payment to a payee. Must be called inside a Prisma interactive transaction.
+ * A payment that cannot go out is recorded as a denied transaction; a payment already submitted under
+ * `idempotency_key` is not submitted again.
+ */
+export async function executeBillPay(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  payment: BillPayment,
+  idempotency_key?: string | null,
+  now: Date = new Date(),
+): Promise<BillPayResult> {
+  const source = payment.source_internal;
+  const outbound = {
+    internal_account_id: source.id,
+    amount: payment.amount.neg(),
+    transaction_type: "billpay",
+    direction: "outbound",
+    bill_pay_rule_id: payment.bill_pay_rule_id,
+    idempotency_key,
+  };
+
+  const deny = async (reason: BillPayDenialReason): Promise<BillPayResult> => {
+    const denied = await createDeniedTransaction(tx, {
+      ...outbound,
+      denial_reason: DENIAL_MESSAGES[reason],
+    });
+    return { status: "denied", reason, transaction_id: denied.id };
+  };
+
+  if (!source.is_active) {
+    return deny("source_inactive");
+  }
+
+  const payee = await tx.billPayPayee.findUnique({
+    where: { id: payment.payee_id },
+  });
+
+  // Black hole: proceed even if the payee is inactive. This simulates paying to an external account that may
+  // not exist; only a missing payee record stops the payment.
+  if (!payee) {
+    return deny("payee_not_found");
+  }
+
+  const existing = await findExistingTransaction(tx, outbound);
+  if (existing) {
+    return { status: "duplicate", transaction_id: existing.id };
+  }
+
+  const limitCheck = await checkTransactionLimits(
+    tx,
+    source,
+    "billpay",
+    payment.amount,
+    now,
+  );
+  if (!limitCheck.ok) {
+    const denied = await createDeniedTransaction(tx, {
+      ...outbound,
+      denial_reason: limitCheck.error,
+    });
+    return {
+      status: "denied",
+      reason: "limit_exceeded",
+      transaction_id: denied.id,
+      limit_check: limitCheck,
+    };
+  }
+
+  const undoSweep = await sweepOverdraftProtectionUndoably(
+    tx,
+    source.id,
+    payment.amount,
+    now,
+  );
+
+  // Hold the funds now and post when the payment settles
+  const pending = await createPendingTransaction(tx, {
+    ...outbound,
+    // Include payee info in transaction for black hole tracking
+    external_routing_number: payee.routing_number,
+    external_account_number: payee.account_number,
+    external_nickname: payee.business_name,
+  });
+
+  if (!pending.ok) {
+    await undoSweep();
+    return deny("insufficient_funds");
+  }
+
+  return { status: "pending", transaction_id: pending.transaction.id };
+}
+
+/**
+ * Pay a bill: submit its amount due and mark it paid. Must be called inside a Prisma interactive transaction.
+ * @param bill_pay_rule_id - The statement_balance rule paying the bill; left out when the customer pays it one-off
+ * @throws If the bill was paid by someone else in the meantime, in which case nothing the payment did is kept
+ */
+export async function payBill(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  bill: BillToPay,
+  source_internal: BillPaySource,
+  {
+    bill_pay_rule_id,
+    idempotency_key,
+  }: { bill_pay_rule_id?: number; idempotency_key?: string | null } = {},
+  now: Date = new Date(),
+): Promise<BillPayResult> {
+  const result = await executeBillPay(
+    tx,
+    {
+      payee_id: bill.payee_id,
+      amount: bill.amount_due,
+      bill_pay_rule_id,
+      source_internal,
+    },
+    idempotency_key,
+    now,
+  );
+  if (result.status !== "pending") {
+    return result;
+  }
+
+  const paid = await tx.bill.updateMany({
+    where: { id: bill.id, status: "open" },
+    data: {
+      status: "paid",
+      transaction_id: result.transaction_id,
+      paid_at: now,
+    },
+  });
+  if (paid.count === 0) {
+    throw new Error("Bill has already been paid");
+  }
+  return result;
+}
+
+/**
+ * Present a bill to a customer and bring forward the next run of the customer's active statement_balance rules
+ * for the payee that will pay it, when the bill is due sooner. Must be called inside a Prisma interactive transaction.
+ */
+export async function presentBill(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  bill: {
+    payee_id: number;
+    user_id: number;
+    amount_due: Decimal;
+    due_date: Date;
+    reference?: string | null;
+  },
+) {
+  const created = await tx.bill.create({ data: bill });
+
+  // A scheduler run holding the lease on one of these jobs rolls back and runs again at the new due date
+  await tx.scheduledJob.updateMany({
+    where: {
+      bill_pay_rule: {
+        user_id: bill.user_id,
+        payee_id: bill.payee_id,
+        mode: "statement_balance",
+        status: "active",
+        start_time: { lte: bill.due_date },
+        AND: [
+          { OR: [{ end_time: null }, { end_time: { gte: bill.due_date } }] },
+          {
+            OR: [
+              { max_amount: null },
+              { max_amount: { gte: bill.amount_due } },
+            ],
+          },
+        ],
+      },
+      OR: [{ next_run_at: null }, { next_run_at: { gt: bill.due_date } }],
+    },
+    data: { next_run_at: bill.due_date },
+  });
+
+  return created;
+}
+
+function toScheduledOccurrence(
+  result: BillPayResult,
+  next_run_at: Date | null,
+): ScheduledOccurrence {
+  switch (result.status) {
+    case "pending":
+      return {
+        status: "pending",
+        transaction_id: result.transaction_id,
+        next_run_at,
+      };
+    case "duplicate":
+      return {
+        status: "skipped",
+        transaction_id: result.transaction_id,
+        next_run_at,
+      };
+    case "denied":
+      return {
+        status: "denied",
+        transaction_id: result.transaction_id,
+        reason:
+          result.reason === "limit_exceeded"
+            ? result.limit_check.error
+            : DENIAL_MESSAGES[result.reason],
+        next_run_at,
+      };
+  }
+}
+
+async function skipOccurrence(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule: BillPayRuleToRun,
+  scheduled_for: Date,
+  next_run_at: Date | null,
+): Promise<ScheduledOccurrence> {
+  await tx.billPayRule.update({
+    where: { id: rule.id },
+    data: {
+      skip_count: { decrement: 1 },
+      events: {
+        create: {
+          event_type: "payment_skipped",
+          occurrence_at: scheduled_for,
+        },
+      },
+    },
+  });
+  return {
+    status: "skipped",
+    reason: "Skipped at the customer's request",
+    next_run_at,
+  };
+}
+
+/**
+ * Pay every bill of a statement_balance rule's payee that has come due since `scheduled_for`, up to the rule's
+ * max_amount, and retry those an earlier run was denied on that are not past due. A skipped run leaves the bills open.
+ * @returns The first payment that was denied, otherwise the last one submitted. A denied bill brings the next run
+ * forward to its retry.
+ */
+async function runStatementOccurrence(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule: BillPayRuleToRun,
+  scheduled_for: Date,
+  now: Date,
+): Promise<ScheduledOccurrence> {
+  const cutoff = scheduled_for > now ? scheduled_for : now;
+  const next_run_at = await getNextStatementRunAt(tx, rule, cutoff);
+
+  if (rule.skip_count > 0) {
+    return skipOccurrence(tx, rule, scheduled_for, next_run_at);
+  }
+
+  const bills: (BillToPay & { due_date: Date })[] = await tx.bill.findMany({
+    where: {
+      ...payableBillsWhere(rule),
+      due_date: {
+        gte: scheduled_for,
+        lte: rule.end_time && rule.end_time < cutoff ? rule.end_time : cutoff,
+      },
+    },
+    orderBy: { due_date: "asc" },
+  });
+
+  // Bills that came due before this run whose payment was denied, and which are not past due yet
+  const overdue: (BillToPay & { due_date: Date })[] = await tx.bill.findMany({
+    where: {
+      ...payableBillsWhere(rule),
+      due_date: {
+        gt: new Date(now.getTime() - BILL_PAST_DUE_MS),
+        gte: rule.start_time,
+        lt: scheduled_for,
+      },
+    },
+    orderBy: { due_date: "asc" },
+  });
+  for (const bill of overdue) {
+    const denied = await tx.transaction.findFirst({
+      where: {
+        bill_pay_rule_id: rule.id,
+        status: "denied",
+        idempotency_key: {
+          startsWith: `billpay_rule_${rule.id}_bill_${bill.id}_`,
+        },
+      },
+    });
+    if (denied) {
+      bills.unshift(bill);
+    }
+  }
+
+  let occurrence: ScheduledOccurrence = {
+    status: "skipped",
+    reason: "No bills due",
+    next_run_at,
+  };
+  let retry_at: Date | null = null;
+  for (const bill of bills) {
+    // Keyed by bill and run: a retry of this run does not pay the bill again, but a later run can after a denial
+    const result = await payBill(
+      tx,
+      bill,
+      rule.source_internal,
+      {
+        bill_pay_rule_id: rule.id,
+        idempotency_key: `billpay_rule_${rule.id}_bill_${bill.id}_${scheduled_for.toISOString()}`,
+      },
+      now,
+    );
+    if (result.status === "denied") {
+      const retry = new Date(now.getTime() + STATEMENT_RETRY_MS);
+      if (retry.getTime() < bill.due_date.getTime() + BILL_PAST_DUE_MS) {
+        retry_at = retry;
+      }
+    }
+    if (occurrence.status !== "denied") {
+      occurrence = toScheduledOccurrence(result, next_run_at);
+    }
+  }
+
+  if (retry_at && (!next_run_at || retry_at < next_run_at)) {
+    occurrence = { ...occurrence, next_run_at: retry_at };
+  }
+  return occurrence;
+}
+
+/**
+ * Scheduler handler: submit a rule's payment for the occurrence at `scheduled_for` and work out its next run.
+ * Must be called inside a Prisma interactive transaction.
+ */
+export async function runBillPayRuleOccurrence(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule_id: number,
+  scheduled_for: Date,
+  now: Date,
+): Promise<ScheduledOccurrence> {
+  const rule: BillPayRuleToRun | null = await tx.billPayRule.findUnique({
+    where: { id: rule_id },
+    include: BILLPAY_RULE_INCLUDE,
+  });
+  if (!rule) {
+    return { status: "skipped", reason: "Rule not found", next_run_at: null };
+  }
+
+  // Pausing takes the rule off the schedule; resuming puts it back on
+  if (rule.status === "paused") {
+    return { status: "skipped", reason: "Rule is paused", next_run_at: null };
+  }
+
+  if (rule.mode === "statement_balance") {
+    return runStatementOccurrence(tx, rule, scheduled_for, now);
+  }
+
+  // Missed occurrences are not replayed; the rule picks up at its next run after now
+  const next_run_at = getNextBillPayRunAt(
+    { ...rule, frequency: rule.frequency! },
+    scheduled_for > now ? scheduled_for : now,
+  );
+
+  if (rule.skip_count > 0) {
+    return skipOccurrence(tx, rule, scheduled_for, next_run_at);
+  }
+
+  const result = await executeBillPay(
+    tx,
+    { ...rule, amount: rule.amount!, bill_pay_rule_id: rule.id },
+    `billpay_rule_${rule.id}_${scheduled_for.toISOString()}`,
+    now,
+  );
+  return toScheduledOccurrence(result, next_run_at);
+}
+
+/**
+ * Pause, resume or skip payments of a rule, and record it in the rule's events. Must be called inside a Prisma
+ * interactive transaction.
+ * - pause takes the rule off the schedule
+ * - resume puts it back on at its next run after `now`; payments it missed while paused are not made
+ * - skip adds `count` to the payments the scheduler skips before the rule pays again
+ * @returns The updated rule, or an error if the rule is already paused (pause) or not paused (resume)
+ */
+export async function applyBillPayRuleAction(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule: BillPayRuleSchedule & { id: number; status: BillPayRuleStatus },
+  action: BillPayRuleAction,
+  now: Date = new Date(),
+) {
+  switch (action.action) {
+    case "pause": {
+      if (rule.status === "paused") {
+        return { ok: false as const, error: "Bill pay rule is already paused" };
+      }
+      const updated = await tx.billPayRule.update({
+        where: { id: rule.id },
+        data: {
+          status: "paused",
+          scheduled_job: {
+            upsert: {
+              create: { job_type: "billpay_rule", next_run_at: null },
+              update: { next_run_at: null },
+            },
+          },
+          events: { create: { event_type: "paused" } },
+        },
+      });
+      return { ok: true as const, rule: updated };
+    }
+    case "resume": {
+      if (rule.status !== "paused") {
+        return { ok: false as const, error: "Bill pay rule is not paused" };
+      }
+      const next_run_at = await getRuleFirstRunAt(tx, rule, now);
+      const updated = await tx.billPayRule.update({
+        where: { id: rule.id },
+        data: {
+          status: "active",
+          scheduled_job: {
+            upsert: {
+              create: { job_type: "billpay_rule", next_run_at },
+              update: { next_run_at },
+            },
+          },
+          events: { create: { event_type: "resumed" } },
+        },
+      });
+      return { ok: true as const, rule: updated };
+    }
+    case "skip": {
+      const updated = await tx.billPayRule.update({
+        where: { id: rule.id },
+        data: {
+          skip_count: { increment: action.count },
+          events: {
+            create: { event_type: "skip_requested", skip_count: action.count },
+          },
+        },
+      });
+      return { ok: true as const, rule: updated };
+    }
+  }
+}
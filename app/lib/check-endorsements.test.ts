@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { classifyEndorsement } from "./check-endorsements";
+
+describe("classifyEndorsement", () => {
+  it("accepts a signed check restricted to mobile deposit", () => {
+    expect(
+      classifyEndorsement({
+        signed: true,
+        endorsement_text: "For Mobile Deposit Only at First Bank",
+      }),
+    ).toBe("restricted");
+  });
+
+  it("ignores capitals, punctuation and line breaks in the handwriting", () => {
+    expect(
+      classifyEndorsement({
+        signed: true,
+        endorsement_text: "FOR MOBILE\nDEPOSIT ONLY.",
+      }),
+    ).toBe("restricted");
+  });
+
+  it("flags a signed check that is not restricted", () => {
+    expect(classifyEndorsement({ signed: true })).toBe("unrestricted");
+    expect(
+      classifyEndorsement({ signed: true, endorsement_text: "For Deposit" }),
+    ).toBe("unrestricted");
+  });
+
+  it("treats an unsigned check as not endorsed", () => {
+    expect(
+      classifyEndorsement({
+        signed: false,
+        endorsement_text: "For Mobile Deposit Only",
+      }),
+    ).toBe("missing");
+  });
+});
@@ -0,0 +1,40 @@
+import type { ExtractedEndorsement } from "./check-ocr";
+
+/* ============================================================================================================================
+   CHECK ENDORSEMENTS
+   ----------------------------------------------------------------------------------------------------------------------------
+   A check deposited from a photo must be endorsed on the back: signed by the payee, with "For Mobile Deposit Only"
+   written with the signature (usually followed by "at" and our name). The restrictive endorsement stops the same paper
+   check being cashed or deposited somewhere else once we have taken it.
+
+     restricted    Signed, and restricted to mobile deposit. The deposit goes ahead.
+     unrestricted  Signed, but not restricted. The deposit goes to a manager's review (see check-reviews.ts).
+     missing       Not signed. The deposit is denied.
+   ============================================================================================================================ */
+
+export type Endorsement = "restricted" | "unrestricted" | "missing";
+
+export const MOBILE_DEPOSIT_ENDORSEMENT = "For Mobile Deposit Only";
+
+// Lower case words only, so punctuation, line breaks and capitals in the handwriting do not matter
+function words(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .trim();
+}
+
+/**
+ * How the back of a check is endorsed.
+ */
+export function classifyEndorsement(
+  endorsement: ExtractedEndorsement,
+): Endorsement {
+  if (!endorsement.signed) {
+    return "missing";
+  }
+  const text = words(endorsement.endorsement_text ?? "");
+  return ` ${text} `.includes(` ${words(MOBILE_DEPOSIT_ENDORSEMENT)} `)
+    ? "restricted"
+    : "unrestricted";
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  extractLocalCheckData,
+  extractLocalCheckEndorsement,
+  getLocalFixtureName,
+  parseMicrLine,
+} from "./check-ocr-local";
+
+const UPLOADED =
+  "https://project.supabase.co/storage/v1/object/sign/checks/2/1734710400000-front-sample-check-front.jpg?token=abc";
+
+describe("parseMicrLine", () => {
+  it("reads the routing, account and check numbers in E-13B symbols", () => {
+    expect(parseMicrLine("⑆121000358⑆ 000123456789⑈ 1042")).toEqual({
+      routing_number: "121000358",
+      account_number: "000123456789",
+      check_number: "1042",
+    });
+  });
+
+  it("reads the check number from the auxiliary on-us field and the MICR font letters", () => {
+    expect(parseMicrLine("C1042C A121000358A 0001-2345-6789C")).toEqual({
+      routing_number: "121000358",
+      account_number: "000123456789",
+      check_number: "1042",
+    });
+  });
+
+  it("leaves out fields that are not printed", () => {
+    expect(parseMicrLine("⑆121000358⑆")).toEqual({
+      routing_number: "121000358",
+      account_number: undefined,
+      check_number: undefined,
+    });
+  });
+
+  it("rejects a line without a routing number", () => {
+    expect(parseMicrLine("000123456789⑈ 1042")).toBeNull();
+    expect(parseMicrLine("⑆12100035⑆ 000123456789⑈")).toBeNull();
+  });
+});
+
+describe("getLocalFixtureName", () => {
+  it("strips the upload prefix, extension and signed URL token", () => {
+    expect(getLocalFixtureName(UPLOADED)).toBe("sample-check-front");
+  });
+
+  it("accepts a storage path", () => {
+    expect(
+      getLocalFixtureName("2/1734710400000-back-sample-check-back.png"),
+    ).toBe("sample-check-back");
+  });
+});
+
+describe("local check OCR", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "check-ocr-"));
+    writeFileSync(
+      join(dir, "payroll-check.json"),
+      JSON.stringify({
+        side: "front",
+        amount: 1830.25,
+        micr: "⑆021000021⑆ 4455667788⑈ 5001",
+        check_number: "5002",
+        payor_name: "Widget Inc",
+      }),
+    );
+    writeFileSync(
+      join(dir, "sample-check-back.json"),
+      JSON.stringify({ side: "back", signed: false }),
+    );
+    writeFileSync(join(dir, "broken.json"), JSON.stringify({ side: "front" }));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.CHECK_OCR_FIXTURES_DIR;
+  });
+
+  it("reads the front of an embedded fixture", async () => {
+    expect(await extractLocalCheckData(UPLOADED)).toEqual({
+      success: true,
+      data: {
+        amount: 250,
+        routing_number: "121000358",
+        account_number: "000123456789",
+        check_number: "1042",
+        payee_name: "Jane Smith",
+        payor_name: "Acme Corp",
+        date: "2025-12-01",
+      },
+    });
+  });
+
+  it("reads the endorsement of an embedded fixture", async () => {
+    expect(
+      await extractLocalCheckEndorsement("2/1-back-sample-check-back.jpg"),
+    ).toEqual({
+      success: true,
+      data: { signed: true, endorsement_text: "For Mobile Deposit Only" },
+    });
+  });
+
+  it("prefers a sidecar file, with its own fields over the MICR line", async () => {
+    process.env.CHECK_OCR_FIXTURES_DIR = dir;
+
+    expect(await extractLocalCheckData("2/1-front-payroll-check.jpg")).toEqual({
+      success: true,
+      data: {
+        amount: 1830.25,
+        routing_number: "021000021",
+        account_number: "4455667788",
+        check_number: "5002",
+        payor_name: "Widget Inc",
+      },
+    });
+    expect(
+      await extractLocalCheckEndorsement("2/1-back-sample-check-back.jpg"),
+    ).toEqual({ success: true, data: { signed: false } });
+  });
+
+  it("reports an invalid sidecar file", async () => {
+    process.env.CHECK_OCR_FIXTURES_DIR = dir;
+
+    expect(await extractLocalCheckData("2/1-front-broken.jpg")).toEqual({
+      success: false,
+      error: 'Local check fixture "broken" is invalid',
+    });
+  });
+
+  it("reports an image without a fixture", async () => {
+    expect(await extractLocalCheckData("2/1-front-my-check.jpg")).toEqual({
+      success: false,
+      error: 'No local check fixture named "my-check"',
+    });
+  });
+
+  it("rejects a fixture for the other side of the check", async () => {
+    expect(
+      await extractLocalCheckData("2/1-front-sample-check-back.jpg"),
+    ).toEqual({
+      success: false,
+      error: "This image does not appear to be a valid bank check",
+    });
+    expect(await extractLocalCheckEndorsement(UPLOADED)).toEqual({
+      success: false,
+      error: "This image does not appear to be the back of a bank check",
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { readFile } from "fs/promises";
+import { basename, join } from "path";
+import { z } from "zod";
+import type {
+  CheckExtractionResult,
+  CheckOcrProvider,
+  EndorsementExtractionResult,
+  ExtractedCheckData,
+} from "./check-ocr";
+
+/* ============================================================================================================================
+   LOCAL CHECK OCR
+   ----------------------------------------------------------------------------------------------------------------------------
+   A check OCR provider that never looks at the image. It answers from a fixture named after the uploaded file, so
+   development machines and CI can run the whole deposit flow without GROQ_API_KEY or network access
+   (CHECK_OCR_PROVIDER=local).
+
+   The fixture name is the image's file name without the upload prefix and extension: an upload of
+   "sample-check-front.jpg" is stored as "<user id>/<timestamp>-front-sample-check-front.jpg" and read from the fixture
+   "sample-check-front". Fixtures are looked up:
+
+     1. In the sidecar file <CHECK_OCR_FIXTURES_DIR>/<name>.json, when CHECK_OCR_FIXTURES_DIR is set
+     2. In LOCAL_CHECK_FIXTURES below
+
+   A front fixture gives the amount and the MICR line as printed, in E-13B symbols (⑆ transit, ⑈ on-us) or the A and C
+   letters MICR fonts use for them. Fields given on their own take precedence over the ones read from the MICR line.
+   A back fixture gives the endorsement.
+   ============================================================================================================================ */
+
+const LocalCheckFixtureSchema = z.discriminatedUnion("side", [
+  z.object({
+    side: z.literal("front"),
+    amount: z.number(),
+    micr: z.string().optional(),
+    routing_number: z.string().optional(),
+    account_number: z.string().optional(),
+    check_number: z.string().optional(),
+    payee_name: z.string().optional(),
+    payor_name: z.string().optional(),
+    date: z.string().optional(),
+  }),
+  z.object({
+    side: z.literal("back"),
+    signed: z.boolean(),
+    endorsement_text: z.string().optional(),
+  }),
+]);
+
+export type LocalCheckFixture = z.infer<typeof LocalCheckFixtureSchema>;
+
+export const LOCAL_CHECK_FIXTURES: Record<string, LocalCheckFixture> = {
+  "sample-check-front": {
+    side: "front",
+    amount: 250,
+    micr: "⑆121000358⑆ 000123456789⑈ 1042",
+    payee_name: "Jane Smith",
+    payor_name: "Acme Corp",
+    date: "2025-12-01",
+  },
+  // Goes to a manager's review as a large amount
+  "sample-check-front-large": {
+    side: "front",
+    amount: 7500,
+    micr: "⑆121000358⑆ 000123456789⑈ 1043",
+    payee_name: "Jane Smith",
+    payor_name: "Acme Corp",
+    date: "2025-12-01",
+  },
+  // Goes to a manager's review with the check number missing from the MICR line
+  "sample-check-front-no-check-number": {
+    side: "front",
+    amount: 120,
+    micr: "⑆121000358⑆ 000123456789⑈",
+    payee_name: "Jane Smith",
+    payor_name: "Acme Corp",
+    date: "2025-12-01",
+  },
+  "sample-check-back": {
+    side: "back",
+    signed: true,
+    endorsement_text: "For Mobile Deposit Only",
+  },
+  // Goes to a manager's review as an unrestricted endorsement
+  "sample-check-back-unrestricted": {
+    side: "back",
+    signed: true,
+  },
+  // Denied as not endorsed
+  "sample-check-back-unsigned": {
+    side: "back",
+    signed: false,
+  },
+};
+
+/**
+ * The routing, account and check numbers on a printed MICR line, or null if it is not one.
+ * The check number is either after the account number, or in the auxiliary on-us field before the routing number.
+ */
+export function parseMicrLine(micr: string): {
+  routing_number: string;
+  account_number?: string;
+  check_number?: string;
+} | null {
+  const line = micr
+    .toUpperCase()
+    .replace(/A/g, "⑆")
+    .replace(/C/g, "⑈")
+    .replace(/[\s\-⑉]/g, "");
+  const match = /^(?:⑈(\d+)⑈)?⑆(\d{9})⑆(\d*)⑈?(\d*)/.exec(line);
+  if (!match) {
+    return null;
+  }
+  const [, auxiliary, routing_number, account_number, check_number] = match;
+  return {
+    routing_number,
+    account_number: account_number || undefined,
+    check_number: check_number || auxiliary || undefined,
+  };
+}
+
+/**
+ * The fixture name for an uploaded check image: its file name without the upload prefix and extension.
+ */
+export function getLocalFixtureName(imageUrl: string): string {
+  let path = imageUrl;
+  try {
+    path = new URL(imageUrl).pathname;
+  } catch {
+    // Not a URL, so already a path or file name
+  }
+  return basename(decodeURIComponent(path))
+    .replace(/^\d+-(front|back)-/, "")
+    .replace(/\.[^.]+$/, "");
+}
+
+async function findLocalFixture(
+  name: string,
+): Promise<LocalCheckFixture | undefined> {
+  const dir = process.env.CHECK_OCR_FIXTURES_DIR;
+  if (dir) {
+    let sidecar: string | undefined;
+    try {
+      sidecar = await readFile(join(dir, `${name}.json`), "utf8");
+    } catch {
+      // No sidecar file, so fall back to the embedded fixtures
+    }
+    if (sidecar !== undefined) {
+      return LocalCheckFixtureSchema.parse(JSON.parse(sidecar));
+    }
+  }
+  return LOCAL_CHECK_FIXTURES[name];
+}
+
+async function loadLocalFixture(
+  imageUrl: string,
+): Promise<
+  { ok: true; fixture: LocalCheckFixture } | { ok: false; error: string }
+> {
+  const name = getLocalFixtureName(imageUrl);
+  try {
+    const fixture = await findLocalFixture(name);
+    if (!fixture) {
+      return { ok: false, error: `No local check fixture named "${name}"` };
+    }
+    return { ok: true, fixture };
+  } catch (error) {
+    console.error("Invalid local check fixture:", error);
+    return { ok: false, error: `Local check fixture "${name}" is invalid` };
+  }
+}
+
+export async function extractLocalCheckData(
+  imageUrl: string,
+): Promise<CheckExtractionResult> {
+  const loaded = await loadLocalFixture(imageUrl);
+  if (!loaded.ok) {
+    return { success: false, error: loaded.error };
+  }
+  const { fixture } = loaded;
+  if (fixture.side !== "front") {
+    return {
+      success: false,
+      error: "This image does not appear to be a valid bank check",
+    };
+  }
+  if (fixture.amount <= 0) {
+    return {
+      success: false,
+      error: "Could not extract a valid amount from the check",
+    };
+  }
+
+  const { side: _side, micr, ...fields } = fixture;
+  let data: ExtractedCheckData = fields;
+  if (micr !== undefined) {
+    const read = parseMicrLine(micr);
+    if (!read) {
+      return {
+        success: false,
+        error: `Local check fixture "${getLocalFixtureName(imageUrl)}" has an unreadable MICR line`,
+      };
+    }
+    data = { ...read, ...fields };
+  }
+  return { success: true, data };
+}
+
+export async function extractLocalCheckEndorsement(
+  imageUrl: string,
+): Promise<EndorsementExtractionResult> {
+  const loaded = await loadLocalFixture(imageUrl);
+  if (!loaded.ok) {
+    return { success: false, error: loaded.error };
+  }
+  const { fixture } = loaded;
+  if (fixture.side !== "back") {
+    return {
+      success: false,
+      error: "This image does not appear to be the back of a bank check",
+    };
+  }
+
+  const { side: _side, ...endorsement } = fixture;
+  return { success: true, data: endorsement };
+}
+
+export const localCheckOcrProvider: CheckOcrProvider = {
+  name: "local",
+  extractCheckData: extractLocalCheckData,
+  extractCheckEndorsement: extractLocalCheckEndorsement,
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { getCheckOcrProvider } from "./check-ocr";
+
+describe("getCheckOcrProvider", () => {
+  afterEach(() => {
+    delete process.env.CHECK_OCR_PROVIDER;
+  });
+
+  it("uses Groq by default", () => {
+    expect(getCheckOcrProvider().name).toBe("groq");
+  });
+
+  it("uses the provider named by CHECK_OCR_PROVIDER", () => {
+    process.env.CHECK_OCR_PROVIDER = " Local ";
+
+    expect(getCheckOcrProvider().name).toBe("local");
+  });
+
+  it("rejects an unknown provider", () => {
+    process.env.CHECK_OCR_PROVIDER = "tesseract";
+
+    expect(() => getCheckOcrProvider()).toThrow(
+      'Unknown check OCR provider "tesseract". Set CHECK_OCR_PROVIDER to one of: groq, local',
+    );
+  });
+});
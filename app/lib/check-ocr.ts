@@ -0,0 +1,74 @@
+import { groqCheckOcrProvider } from "./groq";
+import { localCheckOcrProvider } from "./check-ocr-local";
+
+/* ============================================================================================================================
+   CHECK OCR PROVIDERS
+   ----------------------------------------------------------------------------------------------------------------------------
+   Reading a check deposit, the amount and MICR line from the front and the endorsement from the back, is done by a
+   CheckOcrProvider chosen with the CHECK_OCR_PROVIDER environment variable:
+
+     groq   (default) Groq's vision API (groq.ts). Needs GROQ_API_KEY and network access.
+     local  Deterministic answers from fixtures, with no network access, for development machines and CI
+            (check-ocr-local.ts).
+
+   Another vision backend is added by implementing CheckOcrProvider and registering it in CHECK_OCR_PROVIDERS.
+   A provider reports anything it cannot read as { success: false, error }, never by throwing.
+   ============================================================================================================================ */
+
+// Clean check data type (without validation fields)
+export type ExtractedCheckData = {
+  amount: number;
+  routing_number?: string;
+  account_number?: string;
+  check_number?: string;
+  payee_name?: string;
+  payor_name?: string;
+  date?: string;
+};
+
+export type CheckExtractionResult =
+  | { success: true; data: ExtractedCheckData }
+  | { success: false; error: string };
+
+export type ExtractedEndorsement = {
+  signed: boolean;
+  endorsement_text?: string;
+};
+
+export type EndorsementExtractionResult =
+  | { success: true; data: ExtractedEndorsement }
+  | { success: false; error: string };
+
+export interface CheckOcrProvider {
+  name: string;
+  // Read the front of a check
+  extractCheckData(imageUrl: string): Promise<CheckExtractionResult>;
+  // Read the endorsement from the back of a check
+  extractCheckEndorsement(
+    imageUrl: string,
+  ): Promise<EndorsementExtractionResult>;
+}
+
+export const CHECK_OCR_PROVIDERS: Record<string, CheckOcrProvider> = {
+  [groqCheckOcrProvider.name]: groqCheckOcrProvider,
+  [localCheckOcrProvider.name]: localCheckOcrProvider,
+};
+
+export const DEFAULT_CHECK_OCR_PROVIDER = groqCheckOcrProvider.name;
+
+/**
+ * The check OCR provider named by `name`, CHECK_OCR_PROVIDER by default.
+ * @throws If no provider has that name
+ */
+export function getCheckOcrProvider(
+  name: string | undefined = process.env.CHECK_OCR_PROVIDER,
+): CheckOcrProvider {
+  const key = name?.trim().toLowerCase() || DEFAULT_CHECK_OCR_PROVIDER;
+  const provider = CHECK_OCR_PROVIDERS[key];
+  if (!provider) {
+    throw new Error(
+      `Unknown check OCR provider "${name}". Set CHECK_OCR_PROVIDER to one of: ${Object.keys(CHECK_OCR_PROVIDERS).join(", ")}`,
+    );
+  }
+  return provider;
+}
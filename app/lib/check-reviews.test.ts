@@ -0,0 +1,349 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  approveCheckReview,
+  getCheckReviewReasons,
+  openCheckReview,
+  rejectCheckReview,
+} from "./check-reviews";
+import { postTransfer } from "./ledger";
+import { holdCheckDeposit } from "./funds-availability";
+import { checkTransactionLimits } from "./limits";
+
+vi.mock("./ledger", () => ({
+  postTransfer: vi.fn(),
+}));
+
+vi.mock("./limits", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./limits")>()),
+  checkTransactionLimits: vi.fn(),
+}));
+
+vi.mock("./funds-availability", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./funds-availability")>()),
+  holdCheckDeposit: vi.fn(),
+}));
+
+const MICR = {
+  routing_number: "121000358",
+  account_number: "000123456789",
+  check_number: "1042",
+};
+
+const NOW = new Date("2025-12-22T15:00:00Z");
+
+describe("getCheckReviewReasons", () => {
+  const tx = {
+    transaction: {
+      count: vi.fn(),
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.transaction.count.mockResolvedValue(3);
+  });
+
+  it("returns no reasons for an ordinary check", async () => {
+    const reasons = await getCheckReviewReasons(tx, {
+      user_id: 2,
+      amount: new Decimal(250),
+      entered_amount: new Decimal(250),
+      micr: MICR,
+      duplicate: null,
+      endorsement: "restricted",
+    });
+
+    expect(reasons).toEqual([]);
+    expect(tx.transaction.count).toHaveBeenCalledWith({
+      where: {
+        internal_account: { user_id: 2 },
+        transaction_type: "deposit",
+        check_image_url: { not: null },
+        status: "approved",
+      },
+    });
+  });
+
+  it("flags a large amount, a first deposit, a missing MICR field and a possible duplicate", async () => {
+    tx.transaction.count.mockResolvedValue(0);
+
+    const reasons = await getCheckReviewReasons(tx, {
+      user_id: 2,
+      amount: new Decimal(5000),
+      entered_amount: new Decimal(5000),
+      micr: { ...MICR, check_number: null },
+      duplicate: { match: "fuzzy", original_transaction_id: 10 },
+      endorsement: "restricted",
+    });
+
+    expect(reasons).toEqual([
+      "large_amount",
+      "first_deposit",
+      "missing_micr",
+      "possible_duplicate",
+    ]);
+  });
+
+  it("flags an entered amount that differs from the check and an unrestricted endorsement", async () => {
+    const reasons = await getCheckReviewReasons(tx, {
+      user_id: 2,
+      amount: new Decimal(250),
+      entered_amount: new Decimal("205.00"),
+      micr: MICR,
+      duplicate: null,
+      endorsement: "unrestricted",
+    });
+
+    expect(reasons).toEqual(["amount_mismatch", "unrestricted_endorsement"]);
+  });
+});
+
+describe("openCheckReview", () => {
+  it("queues the deposit with the fields read from the check", async () => {
+    const tx = {
+      checkReview: {
+        create: vi
+          .fn()
+          .mockImplementation(async ({ data }) => ({ id: 3, ...data })),
+      },
+    };
+
+    await openCheckReview(tx, 42, {
+      reasons: ["large_amount"],
+      extracted_amount: new Decimal(7500),
+      entered_amount: new Decimal(7500),
+      endorsement: "For Mobile Deposit Only",
+      payee_name: "Jane Smith",
+      payor_name: null,
+    });
+
+    expect(tx.checkReview.create).toHaveBeenCalledWith({
+      data: {
+        transaction_id: 42,
+        reasons: ["large_amount"],
+        extracted_amount: new Decimal(7500),
+        entered_amount: new Decimal(7500),
+        endorsement: "For Mobile Deposit Only",
+        payee_name: "Jane Smith",
+        payor_name: null,
+      },
+    });
+  });
+});
+
+describe("deciding a check review", () => {
+  const review = {
+    id: 3,
+    status: "open",
+    transaction: {
+      id: 42,
+      internal_account_id: 7,
+      amount: new Decimal(700),
+      status: "pending",
+      internal_account: {
+        created_at: new Date("2024-01-01T00:00:00Z"),
+        user_id: 2,
+        account_type: "checking" as const,
+      },
+    },
+  };
+
+  const tx = {
+    checkReview: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    transaction: {
+      update: vi.fn(),
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.checkReview.findUnique.mockResolvedValue(review);
+    tx.checkReview.updateMany.mockResolvedValue({ count: 1 });
+    tx.transaction.update.mockImplementation(async ({ where, data }) => ({
+      id: where.id,
+      internal_account_id: 7,
+      ...data,
+    }));
+    vi.mocked(postTransfer).mockResolvedValue({
+      journal_entry: { id: 900 },
+    } as Awaited<ReturnType<typeof postTransfer>>);
+    vi.mocked(checkTransactionLimits).mockResolvedValue({ ok: true });
+  });
+
+  describe("approveCheckReview", () => {
+    it("posts the deposit at the adjusted amount and holds it from now", async () => {
+      const result = await approveCheckReview(tx, 3, new Decimal(750), NOW);
+
+      expect(result).toEqual({
+        ok: true,
+        transaction: expect.objectContaining({ id: 42, status: "approved" }),
+        user_id: 2,
+      });
+      expect(tx.checkReview.updateMany).toHaveBeenCalledWith({
+        where: { id: 3, status: "open" },
+        data: {
+          status: "approved",
+          approved_amount: new Decimal(750),
+          decided_at: NOW,
+        },
+      });
+      expect(postTransfer).toHaveBeenCalledWith(tx, {
+        from: { system_account: "check_clearing" },
+        to: { internal_account_id: 7 },
+        amount: new Decimal(750),
+        description: "Check deposit",
+      });
+      expect(tx.transaction.update).toHaveBeenCalledWith({
+        where: { id: 42 },
+        data: {
+          status: "approved",
+          amount: new Decimal(750),
+          posted_at: NOW,
+          journal_entry_id: 900,
+        },
+      });
+
+      const [, deposit, tranches] = vi.mocked(holdCheckDeposit).mock.calls[0];
+      expect(deposit).toMatchObject({ id: 42, internal_account_id: 7 });
+      expect(tranches.map((tranche) => tranche.amount.toNumber())).toEqual([
+        225, 525,
+      ]);
+    });
+
+    it("checks only the increase against the account's limits", async () => {
+      await approveCheckReview(tx, 3, new Decimal(750), NOW);
+
+      expect(checkTransactionLimits).toHaveBeenCalledWith(
+        tx,
+        {
+          id: 7,
+          user_id: 2,
+          account_type: "checking",
+          created_at: new Date("2024-01-01T00:00:00Z"),
+        },
+        "check_deposit",
+        new Decimal(50),
+        NOW,
+      );
+      expect(
+        vi.mocked(checkTransactionLimits).mock.invocationCallOrder[0],
+      ).toBeLessThan(vi.mocked(postTransfer).mock.invocationCallOrder[0]);
+    });
+
+    it("leaves the review open when the increase would exceed a limit", async () => {
+      vi.mocked(checkTransactionLimits).mockResolvedValue({
+        ok: false,
+        limit_type: "daily_check_deposit",
+        limit: new Decimal(5000),
+        remaining: new Decimal(20),
+        resets_at: new Date("2025-12-23T05:00:00Z"),
+        error:
+          "Daily check deposit limit exceeded. $20.00 of $5000.00 remaining today.",
+      });
+
+      const result = await approveCheckReview(tx, 3, new Decimal(750), NOW);
+
+      expect(result).toEqual({
+        ok: false,
+        error:
+          "Daily check deposit limit exceeded. $20.00 of $5000.00 remaining today.",
+      });
+      expect(tx.checkReview.updateMany).not.toHaveBeenCalled();
+      expect(postTransfer).not.toHaveBeenCalled();
+    });
+
+    it("does not check the limits again when the amount is not raised", async () => {
+      const result = await approveCheckReview(tx, 3, new Decimal(650), NOW);
+
+      expect(result.ok).toBe(true);
+      expect(checkTransactionLimits).not.toHaveBeenCalled();
+    });
+
+    it("rejects an amount that is not positive", async () => {
+      const result = await approveCheckReview(tx, 3, new Decimal(0), NOW);
+
+      expect(result).toEqual({ ok: false, error: "Amount must be positive" });
+      expect(tx.checkReview.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("does not post a deposit that has already been reviewed", async () => {
+      tx.checkReview.findUnique.mockResolvedValue({
+        ...review,
+        status: "rejected",
+      });
+
+      const result = await approveCheckReview(tx, 3, new Decimal(750), NOW);
+
+      expect(result).toEqual({
+        ok: false,
+        error: "Check deposit has already been reviewed",
+      });
+      expect(postTransfer).not.toHaveBeenCalled();
+    });
+
+    it("does not post a deposit another manager claimed first", async () => {
+      tx.checkReview.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await approveCheckReview(tx, 3, new Decimal(750), NOW);
+
+      expect(result).toEqual({
+        ok: false,
+        error: "Check deposit has already been reviewed",
+      });
+      expect(postTransfer).not.toHaveBeenCalled();
+      expect(holdCheckDeposit).not.toHaveBeenCalled();
+    });
+
+    it("returns an error for an unknown review", async () => {
+      tx.checkReview.findUnique.mockResolvedValue(null);
+
+      const result = await approveCheckReview(tx, 99, new Decimal(750), NOW);
+
+      expect(result).toEqual({ ok: false, error: "Check review not found" });
+    });
+  });
+
+  describe("rejectCheckReview", () => {
+    it("denies the deposit with the reason and posts nothing", async () => {
+      const result = await rejectCheckReview(
+        tx,
+        3,
+        "  Check is not endorsed ",
+        NOW,
+      );
+
+      expect(result).toEqual({
+        ok: true,
+        transaction: expect.objectContaining({ id: 42, status: "denied" }),
+        user_id: 2,
+      });
+      expect(tx.checkReview.updateMany).toHaveBeenCalledWith({
+        where: { id: 3, status: "open" },
+        data: {
+          status: "rejected",
+          rejection_reason: "Check is not endorsed",
+          decided_at: NOW,
+        },
+      });
+      expect(tx.transaction.update).toHaveBeenCalledWith({
+        where: { id: 42 },
+        data: { status: "denied", denial_reason: "Check is not endorsed" },
+      });
+      expect(postTransfer).not.toHaveBeenCalled();
+    });
+
+    it("requires a reason", async () => {
+      const result = await rejectCheckReview(tx, 3, "   ", NOW);
+
+      expect(result).toEqual({
+        ok: false,
+        error: "A reason is required to reject a deposit",
+      });
+      expect(tx.checkReview.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type { AccountTypeEnum, CheckReviewReason } from "@prisma/client";
+import { postTransfer } from "./ledger";
+import { checkTransactionLimits } from "./limits";
+import { getCheckAvailability, holdCheckDeposit } from "./funds-availability";
+import type { DuplicateCheck, MicrLine } from "./duplicate-checks";
+import type { Endorsement } from "./check-endorsements";
+
+/* ============================================================================================================================
+   CHECK DEPOSIT REVIEW
+   ----------------------------------------------------------------------------------------------------------------------------
+   Most check deposits post as soon as they are accepted (see funds-availability.ts). One that trips a review rule is
+   accepted as pending instead, with nothing posted or held, and waits for a manager:
+
+     large_amount              The amount is at or above CHECK_REVIEW_RULES.large_amount.
+     first_deposit             None of the customer's check deposits has posted before.
+     missing_micr              The routing, account or check number could not be read.
+     possible_duplicate        The check is a fuzzy match for an earlier deposit (see duplicate-checks.ts).
+     amount_mismatch           The amount the customer entered is not the amount read from the check.
+     unrestricted_endorsement  The check is signed on the back but not "For Mobile Deposit Only" (see
+                               check-endorsements.ts).
+
+   The manager approves the deposit, at the amount read or an adjusted one, and it posts and is held like any other
+   check deposit from then on. An adjustment upwards is checked against the account's limits like a new deposit. Or they reject it with a reason, and it is denied with that reason for the customer to
+   see. Pending deposits under review are never settled by settlement.ts.
+   ============================================================================================================================ */
+
+export type { CheckReviewReason };
+
+export const CHECK_REVIEW_RULES = {
+  large_amount: new Decimal(5000),
+};
+
+export type CheckReviewResult =
+  | {
+      ok: true;
+      transaction: { id: number; internal_account_id: number };
+      user_id: number; // The customer, whose balances and history changed
+    }
+  | { ok: false; error: string };
+
+type OpenReview = {
+  id: number;
+  status: string;
+  transaction: {
+    id: number;
+    internal_account_id: number;
+    amount: Decimal;
+    status: string;
+    internal_account: {
+      created_at: Date;
+      user_id: number;
+      account_type: AccountTypeEnum;
+    };
+  };
+};
+
+/**
+ * The review rules a check deposit trips, if any. An empty list means it can post straight away.
+ */
+export async function getCheckReviewReasons(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  deposit: {
+    user_id: number;
+    amount: Decimal; // As read from the check
+    entered_amount: Decimal;
+    micr: MicrLine;
+    duplicate: DuplicateCheck | null;
+    endorsement: Exclude<Endorsement, "missing">;
+  },
+): Promise<CheckReviewReason[]> {
+  const reasons: CheckReviewReason[] = [];
+
+  if (deposit.amount.gte(CHECK_REVIEW_RULES.large_amount)) {
+    reasons.push("large_amount");
+  }
+
+  const posted = await tx.transaction.count({
+    where: {
+      internal_account: { user_id: deposit.user_id },
+      transaction_type: "deposit",
+      check_image_url: { not: null },
+      status: "approved",
+    },
+  });
+  if (posted === 0) {
+    reasons.push("first_deposit");
+  }
+
+  if (
+    deposit.micr.routing_number === null ||
+    deposit.micr.account_number === null ||
+    deposit.micr.check_number === null
+  ) {
+    reasons.push("missing_micr");
+  }
+
+  if (deposit.duplicate) {
+    reasons.push("possible_duplicate");
+  }
+
+  if (!deposit.entered_amount.eq(deposit.amount)) {
+    reasons.push("amount_mismatch");
+  }
+
+  if (deposit.endorsement === "unrestricted") {
+    reasons.push("unrestricted_endorsement");
+  }
+
+  return reasons;
+}
+
+/**
+ * Queue a pending check deposit for a manager's review.
+ */
+export async function openCheckReview(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  transaction_id: number,
+  data: {
+    reasons: CheckReviewReason[];
+    extracted_amount: Decimal;
+    entered_amount: Decimal;
+    endorsement?: string | null;
+    payee_name?: string | null;
+    payor_name?: string | null;
+  },
+) {
+  return await tx.checkReview.create({
+    data: {
+      transaction_id,
+      reasons: data.reasons,
+      extracted_amount: data.extracted_amount,
+      entered_amount: data.entered_amount,
+      endorsement: data.endorsement?.slice(0, 255) ?? null,
+      payee_name: data.payee_name?.slice(0, 100) ?? null,
+      payor_name: data.payor_name?.slice(0, 100) ?? null,
+    },
+  });
+}
+
+// Load a review and check it is still waiting for a decision
+async function findOpenReview(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  review_id: number,
+): Promise<{ ok: true; review: OpenReview } | { ok: false; error: string }> {
+  const review: OpenReview | null = await tx.checkReview.findUnique({
+    where: { id: review_id },
+    include: {
+      transaction: {
+        include: {
+          internal_account: {
+            select: { created_at: true, user_id: true, account_type: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!review) {
+    return { ok: false, error: "Check review not found" };
+  }
+  if (review.status !== "open" || review.transaction.status !== "pending") {
+    return { ok: false, error: "Check deposit has already been reviewed" };
+  }
+  return { ok: true, review };
+}
+
+/**
+ * Approve a check deposit under review: post it at `amount` (the amount read from the check unless the manager
+ * adjusted it) and hold it on the availability schedule from now. Must be called inside a Prisma interactive
+ * transaction.
+ * @returns An error, leaving the review open, if an adjustment upwards would exceed the account's limits
+ */
+export async function approveCheckReview(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  review_id: number,
+  amount: Decimal,
+  now: Date = new Date(),
+): Promise<CheckReviewResult> {
+  if (!amount.isFinite() || amount.lte(0)) {
+    return { ok: false, error: "Amount must be positive" };
+  }
+
+  const found = await findOpenReview(tx, review_id);
+  if (!found.ok) {
+    return found;
+  }
+  const { review } = found;
+
+  // The deposit counted against the limits at the amount it was accepted at; only an increase is checked again
+  const increase = amount.sub(review.transaction.amount);
+  if (increase.gt(0)) {
+    const limitCheck = await checkTransactionLimits(
+      tx,
+      {
+        ...review.transaction.internal_account,
+        id: review.transaction.internal_account_id,
+      },
+      "check_deposit",
+      increase,
+      now,
+    );
+    if (!limitCheck.ok) {
+      return { ok: false, error: limitCheck.error };
+    }
+  }
+
+  // Claim the review first so two managers cannot both post it
+  const claimed = await tx.checkReview.updateMany({
+    where: { id: review.id, status: "open" },
+    data: { status: "approved", approved_amount: amount, decided_at: now },
+  });
+  if (claimed.count !== 1) {
+    return { ok: false, error: "Check deposit has already been reviewed" };
+  }
+
+  const posting = await postTransfer(tx, {
+    from: { system_account: "check_clearing" },
+    to: { internal_account_id: review.transaction.internal_account_id },
+    amount,
+    description: "Check deposit",
+  });
+
+  const transaction = await tx.transaction.update({
+    where: { id: review.transaction.id },
+    data: {
+      status: "approved",
+      amount,
+      posted_at: now,
+      journal_entry_id: posting.journal_entry.id,
+    },
+  });
+
+  await holdCheckDeposit(
+    tx,
+    transaction,
+    getCheckAvailability(
+      amount,
+      review.transaction.internal_account.created_at,
+      now,
+    ),
+  );
+
+  return {
+    ok: true,
+    transaction,
+    user_id: review.transaction.internal_account.user_id,
+  };
+}
+
+/**
+ * Reject a check deposit under review. It is denied with the reason, which the customer sees; nothing was posted.
+ * Must be called inside a Prisma interactive transaction.
+ */
+export async function rejectCheckReview(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  review_id: number,
+  reason: string,
+  now: Date = new Date(),
+): Promise<CheckReviewResult> {
+  const rejection_reason = reason.trim().slice(0, 255);
+  if (!rejection_reason) {
+    return { ok: false, error: "A reason is required to reject a deposit" };
+  }
+
+  const found = await findOpenReview(tx, review_id);
+  if (!found.ok) {
+    return found;
+  }
+  const { review } = found;
+
+  const claimed = await tx.checkReview.updateMany({
+    where: { id: review.id, status: "open" },
+    data: { status: "rejected", rejection_reason, decided_at: now },
+  });
+  if (claimed.count !== 1) {
+    return { ok: false, error: "Check deposit has already been reviewed" };
+  }
+
+  const transaction = await tx.transaction.update({
+    where: { id: review.transaction.id },
+    data: { status: "denied", denial_reason: rejection_reason },
+  });
+
+  return {
+    ok: true,
+    transaction,
+    user_id: review.transaction.internal_account.user_id,
+  };
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { validateExtractedCheck } from "./checks";
-import type { CheckExtractionResult } from "./groq";
+import type { CheckExtractionResult } from "./check-ocr";
 
 describe("validateExtractedCheck", () => {
   it("should return valid for successful extraction with positive amount", () => {
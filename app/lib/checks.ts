@@ -2,7 +2,11 @@
 // This file uses server-only imports and should NOT be imported in client components
 
 import { createClient } from "@/utils/supabase/server";
-import { extractCheckData, type CheckExtractionResult } from "./groq";
+import {
+  getCheckOcrProvider,
+  type CheckExtractionResult,
+  type EndorsementExtractionResult,
+} from "./check-ocr";
 
 export type ValidationResult =
   | { valid: true }
@@ -16,24 +20,30 @@ export const ALLOWED_MIME_TYPES = [
   "image/webp",
 ];
 
+// Which side of the check an image shows. The back carries the customer's endorsement.
+export const CHECK_IMAGE_SIDES = ["front", "back"] as const;
+export type CheckImageSide = (typeof CHECK_IMAGE_SIDES)[number];
+
 /**
  * Upload check image to Supabase Storage
  * @param file - The image file to upload
  * @param userId - The authenticated user's ID
  * @param authorizationHeader - Optional authorization header for Supabase client
+ * @param side - Which side of the check the image shows
  * @returns The public URL of the uploaded image
  */
 export async function uploadCheckToSupabase(
   file: File,
   userId: string,
   authorizationHeader?: string,
+  side: CheckImageSide = "front",
 ): Promise<{ url: string; path: string }> {
   const supabase = await createClient(authorizationHeader);
 
   // Generate unique filename
   const timestamp = Date.now();
   const sanitizedFilename = file.name.replace(/[^a-zA-Z0-9.-]/g, "_");
-  const filePath = `${userId}/${timestamp}-${sanitizedFilename}`;
+  const filePath = `${userId}/${timestamp}-${side}-${sanitizedFilename}`;
 
   // Convert file to ArrayBuffer
   const arrayBuffer = await file.arrayBuffer();
@@ -92,6 +102,28 @@ export async function getPresignedUrl(
   return data.signedUrl;
 }
 
+/**
+ * A URL the check image can be fetched from: a pre-signed URL for an image in our storage bucket, or the
+ * original URL if it is somewhere else or signing fails
+ */
+export async function getCheckImageUrl(
+  checkImageUrl: string,
+  expiresIn: number = 3600,
+): Promise<string> {
+  try {
+    // Check if URL is a Supabase storage URL and might need signing
+    if (checkImageUrl.includes("supabase.co/storage")) {
+      const urlParts = checkImageUrl.split("/storage/v1/object/public/checks/");
+      if (urlParts.length > 1) {
+        return await getPresignedUrl(urlParts[1], expiresIn);
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to generate signed URL, using original:", error);
+  }
+  return checkImageUrl;
+}
+
 /**
  * Validate extracted check data (loose validation)
  */
@@ -119,10 +151,19 @@ export function validateExtractedCheck(
 }
 
 /**
- * Extract check data from image URL using Groq
+ * Extract check data from image URL using the configured check OCR provider
  */
 export async function extractCheckDataFromImage(
   imageUrl: string,
 ): Promise<CheckExtractionResult> {
-  return await extractCheckData(imageUrl);
+  return await getCheckOcrProvider().extractCheckData(imageUrl);
+}
+
+/**
+ * Read the endorsement from an image of the back of a check using the configured check OCR provider
+ */
+export async function extractEndorsementFromImage(
+  imageUrl: string,
+): Promise<EndorsementExtractionResult> {
+  return await getCheckOcrProvider().extractCheckEndorsement(imageUrl);
 }
@@ -0,0 +1,260 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  findDuplicateCheck,
+  matchMicrLine,
+  normalizeMicrLine,
+  recordDuplicateCheck,
+} from "./duplicate-checks";
+
+const micr = {
+  routing_number: "121000358",
+  account_number: "000123456789",
+  check_number: "1042",
+};
+
+function earlierDeposit(
+  id: number,
+  overrides: Partial<typeof micr> | Record<string, null> = {},
+) {
+  const line = { ...micr, ...overrides };
+  return {
+    id,
+    external_routing_number: line.routing_number,
+    external_account_number: line.account_number,
+    check_number: line.check_number,
+  };
+}
+
+function fakeTx(earlier: unknown[] = []) {
+  return {
+    transaction: { findMany: vi.fn().mockResolvedValue(earlier) },
+    duplicateCheckHit: { create: vi.fn().mockResolvedValue({ id: 5 }) },
+    $executeRaw: vi.fn().mockResolvedValue(1),
+  };
+}
+
+// Deposits committed so far, and transactions that take advisory locks the way Postgres does: a lock is held until
+// the transaction that took it ends, and anyone else asking for it waits
+function fakeDatabase() {
+  const committed: ReturnType<typeof earlierDeposit>[] = [];
+  const locks = new Map<string, Promise<void>>();
+
+  async function transaction<T>(
+    fn: (
+      tx: ReturnType<typeof fakeTx>,
+      commit: (deposit: ReturnType<typeof earlierDeposit>) => void,
+    ) => Promise<T>,
+  ): Promise<T> {
+    const held: (() => void)[] = [];
+    const written: ReturnType<typeof earlierDeposit>[] = [];
+    const tx = fakeTx();
+    tx.transaction.findMany.mockImplementation(async () => [...committed]);
+    tx.$executeRaw.mockImplementation(
+      async (_sql: TemplateStringsArray, key: string) => {
+        while (locks.has(key)) {
+          await locks.get(key);
+        }
+        let release = () => {};
+        locks.set(
+          key,
+          new Promise<void>((resolve) => {
+            release = () => {
+              locks.delete(key);
+              resolve();
+            };
+          }),
+        );
+        held.push(release);
+        return 1;
+      },
+    );
+    try {
+      const result = await fn(tx, (deposit) => written.push(deposit));
+      committed.push(...written);
+      return result;
+    } finally {
+      held.forEach((release) => release());
+    }
+  }
+
+  return { committed, transaction };
+}
+
+describe("normalizeMicrLine", () => {
+  it("keeps only digits and treats a blank read as missing", () => {
+    expect(
+      normalizeMicrLine({
+        routing_number: " 1210-00358 ",
+        account_number: "",
+        check_number: undefined,
+      }),
+    ).toEqual({
+      routing_number: "121000358",
+      account_number: null,
+      check_number: null,
+    });
+  });
+
+  it("truncates each field to its column length", () => {
+    expect(
+      normalizeMicrLine({ check_number: "12345678901234" }).check_number,
+    ).toBe("123456789012");
+  });
+});
+
+describe("matchMicrLine", () => {
+  it("is exact when every field is equal", () => {
+    expect(matchMicrLine(micr, { ...micr })).toBe("exact");
+  });
+
+  it("is fuzzy when one field was not read", () => {
+    expect(matchMicrLine(micr, { ...micr, check_number: null })).toBe("fuzzy");
+  });
+
+  it("is fuzzy when one field differs by a single digit", () => {
+    expect(matchMicrLine(micr, { ...micr, check_number: "1043" })).toBe(
+      "fuzzy",
+    );
+    expect(
+      matchMicrLine(micr, { ...micr, account_number: "00123456789" }),
+    ).toBe("fuzzy");
+  });
+
+  it("is no match when a field differs by more than one digit", () => {
+    expect(matchMicrLine(micr, { ...micr, check_number: "1099" })).toBeNull();
+  });
+
+  it("is no match when only one field is equal", () => {
+    expect(
+      matchMicrLine(micr, {
+        ...micr,
+        account_number: null,
+        check_number: null,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("findDuplicateCheck", () => {
+  it("looks for earlier check deposits of the same amount by any customer", async () => {
+    const tx = fakeTx();
+
+    expect(await findDuplicateCheck(tx, micr, new Decimal(250))).toBeNull();
+    expect(tx.transaction.findMany).toHaveBeenCalledWith({
+      where: {
+        transaction_type: "deposit",
+        status: { in: ["pending", "approved"] },
+        check_image_url: { not: null },
+        amount: new Decimal(250),
+        OR: [
+          {
+            external_routing_number: "121000358",
+            external_account_number: "000123456789",
+          },
+          { external_account_number: "000123456789", check_number: "1042" },
+          { external_routing_number: "121000358", check_number: "1042" },
+        ],
+      },
+      select: {
+        id: true,
+        external_routing_number: true,
+        external_account_number: true,
+        check_number: true,
+      },
+      orderBy: { id: "asc" },
+    });
+  });
+
+  it("locks every pair of fields a match could share before looking", async () => {
+    const tx = fakeTx();
+
+    await findDuplicateCheck(tx, micr, new Decimal(250));
+
+    expect(tx.$executeRaw.mock.calls.map(([, key]) => key)).toEqual([
+      "check:250.00:routing_number=121000358:account_number=000123456789",
+      "check:250.00:account_number=000123456789:check_number=1042",
+      "check:250.00:routing_number=121000358:check_number=1042",
+    ]);
+    expect(tx.$executeRaw.mock.calls[0][0].join("?")).toBe(
+      "SELECT pg_advisory_xact_lock(hashtext(?))",
+    );
+    expect(tx.$executeRaw.mock.invocationCallOrder[2]).toBeLessThan(
+      tx.transaction.findMany.mock.invocationCallOrder[0],
+    );
+  });
+
+  it("finds the first of two deposits of one check made at once to different accounts", async () => {
+    const db = fakeDatabase();
+    const deposit = (id: number) =>
+      db.transaction(async (tx, commit) => {
+        const duplicate = await findDuplicateCheck(tx, micr, new Decimal(250));
+        // Give the other deposit every chance to look before this one is written
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        if (!duplicate) {
+          commit(earlierDeposit(id));
+        }
+        return duplicate;
+      });
+
+    const [first, second] = await Promise.all([deposit(20), deposit(21)]);
+
+    expect(first).toBeNull();
+    expect(second).toEqual({ match: "exact", original_transaction_id: 20 });
+    expect(db.committed.map((deposit) => deposit.id)).toEqual([20]);
+  });
+
+  it("does not look when fewer than two fields were read", async () => {
+    const tx = fakeTx();
+
+    expect(
+      await findDuplicateCheck(
+        tx,
+        { ...micr, account_number: null, check_number: null },
+        new Decimal(250),
+      ),
+    ).toBeNull();
+    expect(tx.transaction.findMany).not.toHaveBeenCalled();
+    expect(tx.$executeRaw).not.toHaveBeenCalled();
+  });
+
+  it("prefers an exact match to an earlier fuzzy one", async () => {
+    const tx = fakeTx([
+      earlierDeposit(10, { check_number: "1043" }),
+      earlierDeposit(11, { account_number: "999999999" }),
+      earlierDeposit(12),
+    ]);
+
+    expect(await findDuplicateCheck(tx, micr, new Decimal(250))).toEqual({
+      match: "exact",
+      original_transaction_id: 12,
+    });
+  });
+
+  it("returns the earliest fuzzy match", async () => {
+    const tx = fakeTx([
+      earlierDeposit(10, { check_number: null }),
+      earlierDeposit(11, { check_number: "1043" }),
+    ]);
+
+    expect(await findDuplicateCheck(tx, micr, new Decimal(250))).toEqual({
+      match: "fuzzy",
+      original_transaction_id: 10,
+    });
+  });
+});
+
+describe("recordDuplicateCheck", () => {
+  it("pairs the deposit with the one it repeats", async () => {
+    const tx = fakeTx();
+
+    await recordDuplicateCheck(tx, 20, {
+      match: "fuzzy",
+      original_transaction_id: 10,
+    });
+
+    expect(tx.duplicateCheckHit.create).toHaveBeenCalledWith({
+      data: { transaction_id: 20, original_transaction_id: 10, match: "fuzzy" },
+    });
+  });
+});
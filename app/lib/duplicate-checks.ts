@@ -0,0 +1,199 @@
+import { Decimal } from "@prisma/client/runtime/library";
+
+/* ============================================================================================================================
+   DUPLICATE CHECKS
+   ----------------------------------------------------------------------------------------------------------------------------
+   A check can only be paid once, but nothing stops the same paper check being deposited twice: with a new idempotency
+   key, or at another of our customers' accounts. Each check deposit is compared with every earlier check deposit that
+   is still pending or posted, whoever made it, by its MICR line (routing number, account number and check number) and
+   amount.
+
+     exact  All three MICR fields were read on both checks and are equal, and so are the amounts. The deposit is denied.
+     fuzzy  The amounts are equal and at least two MICR fields are equal. The third could not be read on one of the
+            checks, or differs by a single digit as an OCR misread would. The deposit goes to a manager's review
+            (see check-reviews.ts).
+
+   Either way a DuplicateCheckHit pairs the deposit with the one it repeats, for a manager to review.
+
+   Two deposits of one check can arrive at the same time at different accounts, so the lookup is serialized on the
+   check: every pair of MICR fields a match could share is taken as a transaction-level advisory lock, and a deposit
+   that could repeat another waits until that one has committed.
+   ============================================================================================================================ */
+
+export type MicrLine = {
+  routing_number: string | null;
+  account_number: string | null;
+  check_number: string | null;
+};
+
+export type DuplicateCheckMatch = "exact" | "fuzzy";
+
+export type DuplicateCheck = {
+  match: DuplicateCheckMatch;
+  original_transaction_id: number;
+};
+
+const MICR_FIELDS = [
+  "routing_number",
+  "account_number",
+  "check_number",
+] as const;
+
+// Column lengths of the MICR fields on a transaction
+const MICR_FIELD_LENGTHS: Record<keyof MicrLine, number> = {
+  routing_number: 9,
+  account_number: 17,
+  check_number: 12,
+};
+
+/**
+ * The MICR fields as stored on a transaction: digits only, null when nothing was read.
+ */
+export function normalizeMicrLine(read: {
+  routing_number?: string | null;
+  account_number?: string | null;
+  check_number?: string | null;
+}): MicrLine {
+  const normalize = (field: keyof MicrLine) => {
+    const digits = (read[field] ?? "").replace(/\D/g, "");
+    return digits.length > 0
+      ? digits.slice(0, MICR_FIELD_LENGTHS[field])
+      : null;
+  };
+  return {
+    routing_number: normalize("routing_number"),
+    account_number: normalize("account_number"),
+    check_number: normalize("check_number"),
+  };
+}
+
+// Whether b can be made from a by changing, adding or dropping one digit
+function isOneEditApart(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+
+  let i = 0;
+  while (i < shorter.length && shorter[i] === longer[i]) i++;
+  const rest = shorter.length === longer.length ? i + 1 : i;
+  return shorter.slice(rest) === longer.slice(i + 1);
+}
+
+/**
+ * How a deposit's MICR line matches an earlier deposit's, or null if they are different checks.
+ * The amounts are assumed to be equal.
+ */
+export function matchMicrLine(
+  deposit: MicrLine,
+  earlier: MicrLine,
+): DuplicateCheckMatch | null {
+  let equal = 0;
+  for (const field of MICR_FIELDS) {
+    const a = deposit[field];
+    const b = earlier[field];
+    if (a === null || b === null) continue;
+    if (a === b) {
+      equal++;
+    } else if (!isOneEditApart(a, b)) {
+      return null;
+    }
+  }
+
+  if (equal === MICR_FIELDS.length) return "exact";
+  if (equal >= 2) return "fuzzy";
+  return null;
+}
+
+/**
+ * Find an earlier pending or posted check deposit of the same check, by any customer.
+ * An exact match is preferred to a fuzzy one, then the earliest deposit.
+ * Must be called inside the Prisma interactive transaction that creates the deposit, which holds the check's locks
+ * until it ends.
+ */
+export async function findDuplicateCheck(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  micr: MicrLine,
+  amount: Decimal,
+): Promise<DuplicateCheck | null> {
+  // A fuzzy match needs two equal fields, so an earlier deposit must share at least one pair
+  const pairs = [
+    ["routing_number", "account_number"],
+    ["account_number", "check_number"],
+    ["routing_number", "check_number"],
+  ] as const;
+  const column = {
+    routing_number: "external_routing_number",
+    account_number: "external_account_number",
+    check_number: "check_number",
+  } as const;
+  const readPairs = pairs.filter(
+    ([a, b]) => micr[a] !== null && micr[b] !== null,
+  );
+  if (readPairs.length === 0) return null;
+  const candidates = readPairs.map(([a, b]) => ({
+    [column[a]]: micr[a],
+    [column[b]]: micr[b],
+  }));
+
+  // Any deposit this one could match shares one of these keys; they are always taken in the same order
+  for (const [a, b] of readPairs) {
+    const key = `check:${amount.toFixed(2)}:${a}=${micr[a]}:${b}=${micr[b]}`;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+  }
+
+  const earlier: {
+    id: number;
+    external_routing_number: string | null;
+    external_account_number: string | null;
+    check_number: string | null;
+  }[] = await tx.transaction.findMany({
+    where: {
+      transaction_type: "deposit",
+      status: { in: ["pending", "approved"] },
+      check_image_url: { not: null },
+      amount,
+      OR: candidates,
+    },
+    select: {
+      id: true,
+      external_routing_number: true,
+      external_account_number: true,
+      check_number: true,
+    },
+    orderBy: { id: "asc" },
+  });
+
+  let fuzzy: DuplicateCheck | null = null;
+  for (const deposit of earlier) {
+    const match = matchMicrLine(micr, {
+      routing_number: deposit.external_routing_number,
+      account_number: deposit.external_account_number,
+      check_number: deposit.check_number,
+    });
+    if (match === "exact") {
+      return { match, original_transaction_id: deposit.id };
+    }
+    if (match === "fuzzy" && !fuzzy) {
+      fuzzy = { match, original_transaction_id: deposit.id };
+    }
+  }
+  return fuzzy;
+}
+
+/**
+ * Record that a deposit repeats an earlier one, for a manager to review.
+ */
+export async function recordDuplicateCheck(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  transaction_id: number,
+  duplicate: DuplicateCheck,
+) {
+  return await tx.duplicateCheckHit.create({
+    data: {
+      transaction_id,
+      original_transaction_id: duplicate.original_transaction_id,
+      match: duplicate.match,
+    },
+  });
+}
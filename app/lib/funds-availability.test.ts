@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  CHECK_AVAILABILITY_POLICY,
+  getCheckAvailability,
+  holdCheckDeposit,
+} from "./funds-availability";
+
+const OPENED = new Date("2025-06-01T12:00:00Z");
+const DEPOSITED = new Date("2025-12-05T15:00:00Z"); // Friday
+
+const tranches = (amount: number, opened = OPENED) =>
+  getCheckAvailability(new Decimal(amount), opened, DEPOSITED).map(
+    (tranche) => ({
+      amount: tranche.amount.toNumber(),
+      available_at: tranche.available_at.toISOString(),
+    }),
+  );
+
+describe("getCheckAvailability", () => {
+  it("makes a small check available the next business day", () => {
+    expect(tranches(100)).toEqual([
+      { amount: 100, available_at: "2025-12-08T15:00:00.000Z" },
+    ]);
+  });
+
+  it("holds the rest of a check for the standard hold", () => {
+    expect(tranches(1000)).toEqual([
+      { amount: 225, available_at: "2025-12-08T15:00:00.000Z" },
+      { amount: 775, available_at: "2025-12-09T15:00:00.000Z" },
+    ]);
+  });
+
+  it("holds the part of a large check over the threshold for the extended hold", () => {
+    expect(tranches(8000)).toEqual([
+      { amount: 225, available_at: "2025-12-08T15:00:00.000Z" },
+      { amount: 5300, available_at: "2025-12-09T15:00:00.000Z" },
+      { amount: 2475, available_at: "2025-12-16T15:00:00.000Z" },
+    ]);
+  });
+
+  it("holds a deposit to a new account in full for the extended hold", () => {
+    expect(tranches(1000, new Date("2025-11-20T12:00:00Z"))).toEqual([
+      { amount: 1000, available_at: "2025-12-16T15:00:00.000Z" },
+    ]);
+  });
+
+  it("follows the policy it is given", () => {
+    const availability = getCheckAvailability(
+      new Decimal(1000),
+      OPENED,
+      DEPOSITED,
+      {
+        ...CHECK_AVAILABILITY_POLICY,
+        next_day_amount: new Decimal(500),
+        standard_hold_days: 5,
+      },
+    );
+
+    expect(availability.map((tranche) => tranche.amount.toNumber())).toEqual([
+      500, 500,
+    ]);
+    expect(availability[1].available_at.toISOString()).toBe(
+      "2025-12-12T15:00:00.000Z",
+    );
+  });
+});
+
+describe("holdCheckDeposit", () => {
+  it("holds each tranche until it becomes available", async () => {
+    const tx = {
+      internalAccount: {
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+      fundsHold: {
+        create: vi
+          .fn()
+          .mockImplementation(async ({ data }) => ({ id: 1, ...data })),
+      },
+    };
+    const availability = getCheckAvailability(
+      new Decimal(1000),
+      OPENED,
+      DEPOSITED,
+    );
+
+    await holdCheckDeposit(
+      tx,
+      { id: 99, internal_account_id: 7 },
+      availability,
+    );
+
+    expect(tx.internalAccount.updateMany).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { available_balance: { decrement: new Decimal(775) } },
+    });
+    expect(tx.fundsHold.create).toHaveBeenCalledTimes(2);
+    expect(tx.fundsHold.create).toHaveBeenCalledWith({
+      data: {
+        internal_account_id: 7,
+        transaction_id: 99,
+        amount: new Decimal(225),
+        release_at: new Date("2025-12-08T15:00:00Z"),
+      },
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { addBusinessDays } from "./settlement";
+import { placeHold } from "./holds";
+
+/* ============================================================================================================================
+   FUNDS AVAILABILITY FOR CHECK DEPOSITS
+   ----------------------------------------------------------------------------------------------------------------------------
+   A check deposit posts to the ledger as soon as it is accepted, but the money cannot be spent until the check has had
+   time to clear. The deposit is split into tranches by the availability policy and each tranche is held until its
+   release date:
+
+     - the first next_day_amount is available the next business day;
+     - the rest, up to large_check_amount, after standard_hold_days business days;
+     - anything over large_check_amount after extended_hold_days business days.
+
+   Deposits to an account opened less than new_account_days ago are held for extended_hold_days in full. Holds come off
+   automatically once their release date passes (releaseDueHolds in holds.ts).
+   ============================================================================================================================ */
+
+export type AvailabilityPolicy = {
+  next_day_amount: Decimal;
+  standard_hold_days: number; // Business days
+  large_check_amount: Decimal;
+  extended_hold_days: number; // Business days
+  new_account_days: number; // Calendar days
+};
+
+export const CHECK_AVAILABILITY_POLICY: AvailabilityPolicy = {
+  next_day_amount: new Decimal(225),
+  standard_hold_days: 2,
+  large_check_amount: new Decimal(5525),
+  extended_hold_days: 7,
+  new_account_days: 30,
+};
+
+export type AvailabilityTranche = {
+  amount: Decimal;
+  available_at: Date;
+};
+
+/**
+ * Split a check deposit into the amounts that become available and when, earliest first.
+ */
+export function getCheckAvailability(
+  amount: Decimal,
+  account_opened_at: Date,
+  deposited_at: Date,
+  policy: AvailabilityPolicy = CHECK_AVAILABILITY_POLICY,
+): AvailabilityTranche[] {
+  const extended = addBusinessDays(deposited_at, policy.extended_hold_days);
+
+  const newAccountUntil = new Date(account_opened_at);
+  newAccountUntil.setUTCDate(
+    newAccountUntil.getUTCDate() + policy.new_account_days,
+  );
+  if (deposited_at < newAccountUntil) {
+    return [{ amount, available_at: extended }];
+  }
+
+  const nextDay = Decimal.min(amount, policy.next_day_amount);
+  const standard = Decimal.min(amount, policy.large_check_amount).minus(
+    nextDay,
+  );
+  const tranches = [
+    { amount: nextDay, available_at: addBusinessDays(deposited_at, 1) },
+    {
+      amount: Decimal.max(standard, 0),
+      available_at: addBusinessDays(deposited_at, policy.standard_hold_days),
+    },
+    {
+      amount: Decimal.max(amount.minus(policy.large_check_amount), 0),
+      available_at: extended,
+    },
+  ];
+
+  return tranches.filter((tranche) => tranche.amount.gt(0));
+}
+
+/**
+ * Hold each tranche of a posted check deposit until it becomes available. Must be called inside a Prisma
+ * interactive transaction, after the deposit has credited the account.
+ */
+export async function holdCheckDeposit(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  deposit: { id: number; internal_account_id: number },
+  tranches: AvailabilityTranche[],
+) {
+  const holds = [];
+  for (const tranche of tranches) {
+    holds.push(
+      await placeHold(tx, {
+        internal_account_id: deposit.internal_account_id,
+        amount: tranche.amount,
+        transaction_id: deposit.id,
+        release_at: tranche.available_at,
+      }),
+    );
+  }
+  return holds;
+}
@@ -1,5 +1,13 @@
 import OpenAI from "openai";
 import { z } from "zod";
+import type {
+  CheckExtractionResult,
+  CheckOcrProvider,
+  EndorsementExtractionResult,
+} from "./check-ocr";
+
+const GROQ_BASE_URL = "https://api.groq.com/openai/v1";
+const GROQ_VISION_MODEL = "meta-llama/llama-4-scout-17b-16e-instruct";
 
 // Lazy initialization of Groq client to avoid throwing at module load time
 function getGroqClient() {
@@ -10,7 +18,7 @@ function getGroqClient() {
 
   return new OpenAI({
     apiKey: groqApiKey,
-    baseURL: "https://api.groq.com/openai/v1",
+    baseURL: GROQ_BASE_URL,
   });
 }
 
@@ -38,29 +46,27 @@ export const CheckDataSchema = z.object({
 
 export type CheckData = z.infer<typeof CheckDataSchema>;
 
-// Clean check data type (without validation fields)
-export type ExtractedCheckData = {
-  amount: number;
-  routing_number?: string;
-  account_number?: string;
-  check_number?: string;
-  payee_name?: string;
-  payor_name?: string;
-  date?: string;
-};
+// Schema for what is read from the back of a check
+export const CheckBackSchema = z.object({
+  is_check_back: z.boolean().optional().default(true), // Verify this is actually the back of a check
+  signed: z.boolean().optional().default(false), // Whether the endorsement area has a signature
+  endorsement_text: z.string().optional(), // Any words written with the signature
+  rejection_reason: z.string().optional(), // Reason if not the back of a check
+});
 
-export type CheckExtractionResult =
-  | { success: true; data: ExtractedCheckData }
+type JsonCompletionResult =
+  | { success: true; content: unknown }
   | { success: false; error: string };
 
 /**
- * Extract check data from an image using Groq Vision API
- * @param imageUrl - URL of the check image (can be Supabase storage URL or public URL)
- * @returns Extracted check data or error
+ * Ask the Groq Vision API about an image and parse its JSON answer
+ * @param imageUrl - URL of the image (can be Supabase storage URL or public URL)
+ * @param prompt - What to extract, answered as a JSON object
  */
-export async function extractCheckData(
+async function completeJson(
   imageUrl: string,
-): Promise<CheckExtractionResult> {
+  prompt: string,
+): Promise<JsonCompletionResult> {
   try {
     // Check if API key is set
     const groqApiKey = process.env.GROQ_API_KEY;
@@ -75,37 +81,8 @@ export async function extractCheckData(
     // Create client lazily
     const client = getGroqClient();
 
-    const prompt = `You are analyzing an image to determine if it is a bank check. CRITICAL: First verify that this image is actually a check.
-
-A valid check should have:
-- Check-like formatting (typically rectangular with standard check layout)
-- Bank routing information (MICR line at bottom or routing number visible)
-- Payee line ("Pay to the order of")
-- Amount field (both written and numeric)
-- Signature line
-- Bank name/logo
-- Account holder information
-
-If this image is NOT a check (e.g., random photo, document, screenshot, meme, etc.), return:
-{
-  "is_check": false,
-  "rejection_reason": "Brief explanation of why this is not a check (e.g., 'This appears to be a random photo, not a bank check')"
-}
-
-If this IS a valid check, extract the following information as a JSON object:
-- is_check: true
-- amount: The dollar amount written on the check (as a number, e.g., 100.50 for $100.50)
-- routing_number: The 9-digit routing number if visible (as a string)
-- account_number: The account number if visible (as a string)
-- check_number: The check number if visible (as a string - convert numbers to strings)
-- payee_name: The name of the person/entity the check is made payable to
-- payor_name: The name of the person/entity who wrote the check
-- date: The date written on the check
-
-Return ONLY a valid JSON object with these fields. If a field is not visible or cannot be determined, omit it from the JSON object. All numeric fields like routing_number, account_number, and check_number should be returned as strings, not numbers.`;
-
     const completion = await client.chat.completions.create({
-      model: "meta-llama/llama-4-scout-17b-16e-instruct",
+      model: GROQ_VISION_MODEL,
       messages: [
         {
           role: "user",
@@ -146,57 +123,14 @@ Return ONLY a valid JSON object with these fields. If a field is not visible or
     }
 
     // Parse the JSON response
-    let parsed: unknown;
     try {
-      parsed = JSON.parse(content);
+      return { success: true, content: JSON.parse(content) };
     } catch {
       return {
         success: false,
         error: `Failed to parse JSON response. Response content: ${content.substring(0, 200)}...`,
       };
     }
-
-    // Validate against schema
-    const validationResult = CheckDataSchema.safeParse(parsed);
-    if (!validationResult.success) {
-      return {
-        success: false,
-        error: `Invalid check data format: ${validationResult.error.message}`,
-      };
-    }
-
-    const validatedData = validationResult.data;
-
-    // Check if this is actually a check
-    if (validatedData.is_check === false) {
-      return {
-        success: false,
-        error:
-          validatedData.rejection_reason ||
-          "This image does not appear to be a valid bank check",
-      };
-    }
-
-    // Ensure amount exists for valid checks
-    if (!validatedData.amount || validatedData.amount <= 0) {
-      return {
-        success: false,
-        error: "Could not extract a valid amount from the check",
-      };
-    }
-
-    return {
-      success: true,
-      data: {
-        amount: validatedData.amount,
-        routing_number: validatedData.routing_number,
-        account_number: validatedData.account_number,
-        check_number: validatedData.check_number,
-        payee_name: validatedData.payee_name,
-        payor_name: validatedData.payor_name,
-        date: validatedData.date,
-      },
-    };
   } catch (error) {
     // Better error handling for API errors
     if (error instanceof Error) {
@@ -235,3 +169,158 @@ Return ONLY a valid JSON object with these fields. If a field is not visible or
     };
   }
 }
+
+/**
+ * Extract check data from an image using Groq Vision API
+ * @param imageUrl - URL of the check image (can be Supabase storage URL or public URL)
+ * @returns Extracted check data or error
+ */
+export async function extractCheckData(
+  imageUrl: string,
+): Promise<CheckExtractionResult> {
+  const prompt = `You are analyzing an image to determine if it is a bank check. CRITICAL: First verify that this image is actually a check.
+
+A valid check should have:
+- Check-like formatting (typically rectangular with standard check layout)
+- Bank routing information (MICR line at bottom or routing number visible)
+- Payee line ("Pay to the order of")
+- Amount field (both written and numeric)
+- Signature line
+- Bank name/logo
+- Account holder information
+
+If this image is NOT a check (e.g., random photo, document, screenshot, meme, etc.), return:
+{
+  "is_check": false,
+  "rejection_reason": "Brief explanation of why this is not a check (e.g., 'This appears to be a random photo, not a bank check')"
+}
+
+If this IS a valid check, extract the following information as a JSON object:
+- is_check: true
+- amount: The dollar amount written on the check (as a number, e.g., 100.50 for $100.50)
+- routing_number: The 9-digit routing number if visible (as a string)
+- account_number: The account number if visible (as a string)
+- check_number: The check number if visible (as a string - convert numbers to strings)
+- payee_name: The name of the person/entity the check is made payable to
+- payor_name: The name of the person/entity who wrote the check
+- date: The date written on the check
+
+Return ONLY a valid JSON object with these fields. If a field is not visible or cannot be determined, omit it from the JSON object. All numeric fields like routing_number, account_number, and check_number should be returned as strings, not numbers.`;
+
+  const completion = await completeJson(imageUrl, prompt);
+  if (!completion.success) {
+    return completion;
+  }
+
+  // Validate against schema
+  const validationResult = CheckDataSchema.safeParse(completion.content);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: `Invalid check data format: ${validationResult.error.message}`,
+    };
+  }
+
+  const validatedData = validationResult.data;
+
+  // Check if this is actually a check
+  if (validatedData.is_check === false) {
+    return {
+      success: false,
+      error:
+        validatedData.rejection_reason ||
+        "This image does not appear to be a valid bank check",
+    };
+  }
+
+  // Ensure amount exists for valid checks
+  if (!validatedData.amount || validatedData.amount <= 0) {
+    return {
+      success: false,
+      error: "Could not extract a valid amount from the check",
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      amount: validatedData.amount,
+      routing_number: validatedData.routing_number,
+      account_number: validatedData.account_number,
+      check_number: validatedData.check_number,
+      payee_name: validatedData.payee_name,
+      payor_name: validatedData.payor_name,
+      date: validatedData.date,
+    },
+  };
+}
+
+/**
+ * Read the endorsement from an image of the back of a check using Groq Vision API
+ * @param imageUrl - URL of the image of the back of the check
+ * @returns Whether the check is signed and what is written with the signature, or error
+ */
+export async function extractCheckEndorsement(
+  imageUrl: string,
+): Promise<EndorsementExtractionResult> {
+  const prompt = `You are analyzing an image to determine if it is the back of a bank check. CRITICAL: First verify that this image is actually the back of a check.
+
+The back of a check typically has:
+- An endorsement area near one end, often marked "Endorse here" with lines to sign on
+- A "Do not write, stamp or sign below this line" notice
+- Security features text, and no MICR line, payee line or amount field
+
+If this image is NOT the back of a check (e.g., the front of a check, random photo, document, screenshot, etc.), return:
+{
+  "is_check_back": false,
+  "rejection_reason": "Brief explanation of why this is not the back of a check (e.g., 'This appears to be the front of a check')"
+}
+
+If this IS the back of a check, extract the following information as a JSON object:
+- is_check_back: true
+- signed: Whether there is a handwritten signature in the endorsement area (true or false)
+- endorsement_text: Any words written or stamped in the endorsement area besides the signature, exactly as written (e.g., "For Mobile Deposit Only at First Bank")
+
+Return ONLY a valid JSON object with these fields. If there is no endorsement text, omit endorsement_text from the JSON object.`;
+
+  const completion = await completeJson(imageUrl, prompt);
+  if (!completion.success) {
+    return completion;
+  }
+
+  // Validate against schema
+  const validationResult = CheckBackSchema.safeParse(completion.content);
+  if (!validationResult.success) {
+    return {
+      success: false,
+      error: `Invalid endorsement data format: ${validationResult.error.message}`,
+    };
+  }
+
+  const validatedData = validationResult.data;
+
+  // Check if this is actually the back of a check
+  if (validatedData.is_check_back === false) {
+    return {
+      success: false,
+      error:
+        validatedData.rejection_reason ||
+        "This image does not appear to be the back of a bank check",
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      signed: validatedData.signed,
+      endorsement_text: validatedData.endorsement_text,
+    },
+  };
+}
+
+// The default check OCR provider (see check-ocr.ts)
+export const groqCheckOcrProvider: CheckOcrProvider = {
+  name: "groq",
+  extractCheckData,
+  extractCheckEndorsement,
+};
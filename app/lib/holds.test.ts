@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import { releaseDueHolds } from "./holds";
+
+describe("releaseDueHolds", () => {
+  it("should release holds whose release date has passed", async () => {
+    const now = new Date("2025-12-08T16:00:00Z");
+    const tx = {
+      fundsHold: {
+        updateMany: vi
+          .fn()
+          .mockResolvedValueOnce({ count: 1 })
+          .mockResolvedValueOnce({ count: 0 }), // Already released by another run
+      },
+      internalAccount: { update: vi.fn().mockResolvedValue({}) },
+    };
+    const prisma = {
+      fundsHold: {
+        findMany: vi.fn().mockResolvedValue([
+          { id: 5, internal_account_id: 7, amount: new Decimal(225) },
+          { id: 6, internal_account_id: 8, amount: new Decimal(100) },
+        ]),
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      $transaction: vi.fn().mockImplementation(async (fn: any) => fn(tx)),
+    };
+
+    const result = await releaseDueHolds(prisma, now);
+
+    expect(result).toEqual({ released: [5], failed: [] });
+    expect(prisma.fundsHold.findMany).toHaveBeenCalledWith({
+      where: { status: "active", release_at: { lte: now } },
+      orderBy: { release_at: "asc" },
+    });
+    expect(tx.internalAccount.update).toHaveBeenCalledOnce();
+    expect(tx.internalAccount.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { available_balance: { increment: new Decimal(225) } },
+    });
+  });
+
+  it("should carry on after a hold fails to release", async () => {
+    const prisma = {
+      fundsHold: {
+        findMany: vi
+          .fn()
+          .mockResolvedValue([
+            { id: 5, internal_account_id: 7, amount: new Decimal(225) },
+          ]),
+      },
+      $transaction: vi.fn().mockRejectedValue(new Error("Deadlock")),
+    };
+
+    expect(await releaseDueHolds(prisma)).toEqual({
+      released: [],
+      failed: [{ id: 5, error: "Deadlock" }],
+    });
+  });
+});
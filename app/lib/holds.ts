@@ -0,0 +1,141 @@
+import { Decimal } from "@prisma/client/runtime/library";
+
+/* ============================================================================================================================
+   FUNDS HOLDS
+   ----------------------------------------------------------------------------------------------------------------------------
+   A hold reserves part of an account's ledger balance so it cannot be spent twice while a transaction is in flight.
+   Placing a hold lowers InternalAccount.available_balance; releasing it gives the amount back. The ledger balance is
+   never touched here — that only happens when the transaction posts through the journal. A hold with a release_at
+   comes off by itself once that date passes; the rest last until their transaction settles or is returned.
+   ============================================================================================================================ */
+
+export type PlaceHoldInput = {
+  internal_account_id: number;
+  amount: Decimal; // Always positive
+  transaction_id?: number;
+  release_at?: Date | null;
+  // When set, the hold is only placed if the account has enough available funds
+  guard_sufficient_funds?: boolean;
+};
+
+/**
+ * Place a hold against an account's available balance. Must be called inside a Prisma interactive transaction.
+ * @returns The created hold, or null if guard_sufficient_funds is set and the account cannot cover it
+ */
+export async function placeHold(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  input: PlaceHoldInput,
+) {
+  if (!input.amount.isFinite() || input.amount.lte(0)) {
+    throw new Error("Hold amount must be positive");
+  }
+
+  const reserved = await tx.internalAccount.updateMany({
+    where: {
+      id: input.internal_account_id,
+      ...(input.guard_sufficient_funds && {
+        available_balance: { gte: input.amount },
+      }),
+    },
+    data: { available_balance: { decrement: input.amount } },
+  });
+
+  if (reserved.count !== 1) {
+    return null;
+  }
+
+  return await tx.fundsHold.create({
+    data: {
+      internal_account_id: input.internal_account_id,
+      transaction_id: input.transaction_id ?? null,
+      amount: input.amount,
+      release_at: input.release_at ?? null,
+    },
+  });
+}
+
+/**
+ * Release an active hold, returning its amount to the available balance. Releasing a hold that
+ * has already been released is a no-op, so callers can retry safely.
+ * @returns true if this call released the hold
+ */
+export async function releaseHold(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  hold: { id: number; internal_account_id: number; amount: Decimal },
+  now: Date = new Date(),
+): Promise<boolean> {
+  const released = await tx.fundsHold.updateMany({
+    where: { id: hold.id, status: "active" },
+    data: { status: "released", released_at: now },
+  });
+
+  if (released.count !== 1) {
+    return false;
+  }
+
+  await tx.internalAccount.update({
+    where: { id: hold.internal_account_id },
+    data: { available_balance: { increment: hold.amount } },
+  });
+
+  return true;
+}
+
+/**
+ * Total of the active holds on an account (ledger balance minus this is the available balance).
+ */
+export async function getHeldAmount(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  internal_account_id: number,
+): Promise<Decimal> {
+  const result = await tx.fundsHold.aggregate({
+    where: { internal_account_id, status: "active" },
+    _sum: { amount: true },
+  });
+
+  return new Decimal(result._sum.amount ?? 0);
+}
+
+/**
+ * Release every active hold whose release date has passed (check deposits becoming available). Each hold is
+ * released in its own database transaction so one failure does not hold up the rest.
+ */
+export async function releaseDueHolds(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  now: Date = new Date(),
+): Promise<{ released: number[]; failed: { id: number; error: string }[] }> {
+  const due: {
+    id: number;
+    internal_account_id: number;
+    amount: Decimal;
+  }[] = await prisma.fundsHold.findMany({
+    where: { status: "active", release_at: { lte: now } },
+    orderBy: { release_at: "asc" },
+  });
+
+  const released: number[] = [];
+  const failed: { id: number; error: string }[] = [];
+
+  for (const hold of due) {
+    try {
+      const result = await prisma.$transaction(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        async (tx: any) => releaseHold(tx, hold, now),
+      );
+      if (result) {
+        released.push(hold.id);
+      }
+    } catch (error) {
+      failed.push({
+        id: hold.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { released, failed };
+}
@@ -0,0 +1,489 @@
+// @vitest-environment node
+// Multipart bodies are parsed by Node's own fetch implementation, which does not accept jsdom's File
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
+import {
+  apiKeyIdempotencyScope,
+  getRequestFingerprint,
+  userIdempotencyScope,
+  withIdempotency,
+} from "./idempotency";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import { validateApiKey } from "@/lib/api-key-auth";
+
+const mockPrisma = {
+  idempotencyRecord: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    delete: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+};
+
+vi.mock("@/app/lib/prisma", () => ({
+  getPrisma: () => mockPrisma,
+}));
+
+vi.mock("@/lib/auth", () => ({
+  getAuthUserFromRequest: vi.fn(),
+}));
+
+vi.mock("@/lib/api-key-auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/api-key-auth")>()),
+  validateApiKey: vi.fn(),
+}));
+
+function transferRequest(body: unknown, key: string | null = "key-1") {
+  return new Request("http://localhost:3000/api/transfers/internal", {
+    method: "POST",
+    headers: {
+      Authorization: "Bearer token",
+      "Content-Type": "application/json",
+      ...(key && { "Idempotency-Key": key }),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("Idempotency", () => {
+  const body = {
+    source_account_id: 1,
+    destination_account_id: 2,
+    amount: 500,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+      ok: true,
+      supabaseUser: { id: "auth-user-1" },
+    });
+    mockPrisma.idempotencyRecord.findUnique.mockResolvedValue(null);
+    mockPrisma.idempotencyRecord.create.mockImplementation(
+      async ({ data }) => ({
+        id: 7,
+        response_status: null,
+        response_body: null,
+        response_content_type: null,
+        ...data,
+      }),
+    );
+  });
+
+  describe("getRequestFingerprint", () => {
+    it("should depend on the path and body but not the query string", async () => {
+      const a = await getRequestFingerprint(transferRequest(body));
+      const b = await getRequestFingerprint(
+        new Request(
+          "http://localhost:3000/api/transfers/internal?access_token=abc",
+          { method: "POST", body: JSON.stringify(body) },
+        ),
+      );
+      const c = await getRequestFingerprint(
+        transferRequest({ ...body, amount: 501 }),
+      );
+
+      expect(a).toBe(b);
+      expect(a).not.toBe(c);
+    });
+
+    it("should leave the body readable", async () => {
+      const request = transferRequest(body);
+
+      await getRequestFingerprint(request);
+
+      expect(await request.json()).toEqual(body);
+    });
+
+    it("should fingerprint a multipart body by its fields and files, not its boundary", async () => {
+      // Clients pick a new random boundary every time they send a form
+      const upload = (boundary: string, image: string, amount = "250.00") =>
+        new Request("http://localhost:3000/api/checks/upload", {
+          method: "POST",
+          headers: {
+            "Content-Type": `multipart/form-data; boundary=${boundary}`,
+          },
+          body: [
+            `--${boundary}`,
+            'Content-Disposition: form-data; name="amount"',
+            "",
+            amount,
+            `--${boundary}`,
+            'Content-Disposition: form-data; name="front"; filename="front.jpg"',
+            "Content-Type: image/jpeg",
+            "",
+            image,
+            `--${boundary}--`,
+            "",
+          ].join("\r\n"),
+        });
+      const first = upload("----first", "front image");
+
+      expect(await getRequestFingerprint(first)).toBe(
+        await getRequestFingerprint(upload("----retry", "front image")),
+      );
+      expect(await getRequestFingerprint(first)).not.toBe(
+        await getRequestFingerprint(upload("----first", "another image")),
+      );
+      expect(await getRequestFingerprint(first)).not.toBe(
+        await getRequestFingerprint(
+          upload("----first", "front image", "260.00"),
+        ),
+      );
+      expect((await first.formData()).get("amount")).toBe("250.00");
+    });
+  });
+
+  describe("scopes", () => {
+    it("should scope bearer requests to the authenticated user", async () => {
+      expect(await userIdempotencyScope(transferRequest(body))).toBe(
+        "user:auth-user-1",
+      );
+
+      vi.mocked(getAuthUserFromRequest).mockResolvedValue({
+        ok: false,
+        status: 401,
+        body: { message: "Unauthorized" },
+      });
+      expect(await userIdempotencyScope(transferRequest(body))).toBeNull();
+    });
+
+    it("should scope API key requests to the key", async () => {
+      vi.mocked(validateApiKey).mockResolvedValue({
+        ok: true,
+        accountId: 1,
+        userId: 2,
+        apiKeyId: 3,
+      });
+
+      expect(
+        await apiKeyIdempotencyScope(
+          new Request(
+            "http://localhost:3000/api/api-keys/transactions?access_token=cs_160abc",
+            { method: "POST" },
+          ),
+        ),
+      ).toBe("api-key:3");
+      expect(validateApiKey).toHaveBeenCalledWith("cs_160abc");
+      expect(
+        await apiKeyIdempotencyScope(
+          new Request("http://localhost:3000/api/api-keys/transactions", {
+            method: "POST",
+          }),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("withIdempotency", () => {
+    it("should run the handler directly without an Idempotency-Key", async () => {
+      const handler = vi.fn().mockResolvedValue(jsonResponse(200, {}));
+
+      const response = await withIdempotency(
+        transferRequest(body, null),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.idempotencyRecord.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should run the handler directly when the request is not authenticated", async () => {
+      const handler = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(401, { message: "Unauthorized" }));
+
+      const response = await withIdempotency(
+        transferRequest(body),
+        async () => null,
+        handler,
+      );
+
+      expect(response.status).toBe(401);
+      expect(mockPrisma.idempotencyRecord.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject an overlong key", async () => {
+      const handler = vi.fn();
+
+      const response = await withIdempotency(
+        transferRequest(body, "k".repeat(256)),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(response.status).toBe(400);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should store the first response", async () => {
+      const handler = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(200, { transaction_id: 42 }));
+
+      const response = await withIdempotency(
+        transferRequest(body),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(await response.json()).toEqual({ transaction_id: 42 });
+      expect(mockPrisma.idempotencyRecord.findUnique).toHaveBeenCalledWith({
+        where: { scope_key: { scope: "user:auth-user-1", key: "key-1" } },
+      });
+      expect(mockPrisma.idempotencyRecord.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          scope: "user:auth-user-1",
+          key: "key-1",
+          request_method: "POST",
+          request_path: "/api/transfers/internal",
+          request_hash: await getRequestFingerprint(transferRequest(body)),
+        }),
+      });
+      expect(mockPrisma.idempotencyRecord.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({
+          response_status: 200,
+          response_body: '{"transaction_id":42}',
+          response_content_type: "application/json",
+        }),
+      });
+    });
+
+    it("should replay the stored response without running the handler", async () => {
+      mockPrisma.idempotencyRecord.findUnique.mockResolvedValue({
+        id: 7,
+        request_hash: await getRequestFingerprint(transferRequest(body)),
+        response_status: 409,
+        response_body: '{"error":"Insufficient funds"}',
+        response_content_type: "application/json",
+        expires_at: new Date(Date.now() + 60000),
+      });
+      const handler = vi.fn();
+
+      const response = await withIdempotency(
+        transferRequest(body),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(response.status).toBe(409);
+      expect(response.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(await response.text()).toBe('{"error":"Insufficient funds"}');
+    });
+
+    it("should reject a key reused with a different payload", async () => {
+      mockPrisma.idempotencyRecord.findUnique.mockResolvedValue({
+        id: 7,
+        request_hash: await getRequestFingerprint(transferRequest(body)),
+        response_status: 200,
+        response_body: "{}",
+        response_content_type: "application/json",
+        expires_at: new Date(Date.now() + 60000),
+      });
+      const handler = vi.fn();
+
+      const response = await withIdempotency(
+        transferRequest({ ...body, amount: 900 }),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(response.status).toBe(422);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should return 409 while the first request is still running", async () => {
+      mockPrisma.idempotencyRecord.findUnique.mockResolvedValue({
+        id: 7,
+        request_hash: await getRequestFingerprint(transferRequest(body)),
+        response_status: null,
+        response_body: null,
+        response_content_type: null,
+        locked_until: new Date(Date.now() + 30000),
+        expires_at: new Date(Date.now() + 60000),
+      });
+
+      const response = await withIdempotency(
+        transferRequest(body),
+        userIdempotencyScope,
+        vi.fn(),
+      );
+
+      expect(response.status).toBe(409);
+      expect(mockPrisma.idempotencyRecord.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should take over the claim of a request that died before answering", async () => {
+      const locked_until = new Date(Date.now() - 1000);
+      mockPrisma.idempotencyRecord.findUnique.mockResolvedValue({
+        id: 7,
+        request_hash: await getRequestFingerprint(transferRequest(body)),
+        response_status: null,
+        response_body: null,
+        response_content_type: null,
+        locked_until,
+        expires_at: new Date(Date.now() + 60000),
+      });
+      mockPrisma.idempotencyRecord.updateMany.mockResolvedValue({ count: 1 });
+      const handler = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(200, { transaction_id: 42 }));
+
+      const response = await withIdempotency(
+        transferRequest(body),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(await response.json()).toEqual({ transaction_id: 42 });
+      expect(mockPrisma.idempotencyRecord.updateMany).toHaveBeenCalledWith({
+        where: { id: 7, response_status: null, locked_until },
+        data: { locked_until: expect.any(Date) },
+      });
+      expect(mockPrisma.idempotencyRecord.create).not.toHaveBeenCalled();
+      expect(mockPrisma.idempotencyRecord.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({
+          response_status: 200,
+          locked_until: null,
+        }),
+      });
+    });
+
+    it("should return 409 when another retry took over the abandoned claim first", async () => {
+      mockPrisma.idempotencyRecord.findUnique.mockResolvedValue({
+        id: 7,
+        request_hash: await getRequestFingerprint(transferRequest(body)),
+        response_status: null,
+        response_body: null,
+        response_content_type: null,
+        locked_until: new Date(Date.now() - 1000),
+        expires_at: new Date(Date.now() + 60000),
+      });
+      mockPrisma.idempotencyRecord.updateMany.mockResolvedValue({ count: 0 });
+      const handler = vi.fn();
+
+      const response = await withIdempotency(
+        transferRequest(body),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(response.status).toBe(409);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should not let a different request take over an abandoned claim", async () => {
+      mockPrisma.idempotencyRecord.findUnique.mockResolvedValue({
+        id: 7,
+        request_hash: await getRequestFingerprint(transferRequest(body)),
+        response_status: null,
+        response_body: null,
+        response_content_type: null,
+        locked_until: new Date(Date.now() - 1000),
+        expires_at: new Date(Date.now() + 60000),
+      });
+
+      const response = await withIdempotency(
+        transferRequest({ ...body, amount: 501 }),
+        userIdempotencyScope,
+        vi.fn(),
+      );
+
+      expect(response.status).toBe(422);
+      expect(mockPrisma.idempotencyRecord.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should run the handler again once the record has expired", async () => {
+      mockPrisma.idempotencyRecord.findUnique.mockResolvedValue({
+        id: 7,
+        request_hash: "stale",
+        response_status: 200,
+        response_body: "{}",
+        response_content_type: "application/json",
+        expires_at: new Date(Date.now() - 1000),
+      });
+      const handler = vi.fn().mockResolvedValue(jsonResponse(200, {}));
+
+      await withIdempotency(
+        transferRequest(body),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(mockPrisma.idempotencyRecord.deleteMany).toHaveBeenCalled();
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should replay the winner when a concurrent request claims the key first", async () => {
+      mockPrisma.idempotencyRecord.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          id: 8,
+          request_hash: await getRequestFingerprint(transferRequest(body)),
+          response_status: 200,
+          response_body: '{"transaction_id":42}',
+          response_content_type: "application/json",
+          expires_at: new Date(Date.now() + 60000),
+        });
+      mockPrisma.idempotencyRecord.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: "6.0.0",
+        }),
+      );
+      const handler = vi.fn();
+
+      const response = await withIdempotency(
+        transferRequest(body),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(await response.json()).toEqual({ transaction_id: 42 });
+    });
+
+    it("should forget the key after a server error so the client can retry", async () => {
+      const handler = vi
+        .fn()
+        .mockResolvedValue(jsonResponse(500, { error: "Internal" }));
+
+      const response = await withIdempotency(
+        transferRequest(body),
+        userIdempotencyScope,
+        handler,
+      );
+
+      expect(response.status).toBe(500);
+      expect(mockPrisma.idempotencyRecord.delete).toHaveBeenCalledWith({
+        where: { id: 7 },
+      });
+      expect(mockPrisma.idempotencyRecord.update).not.toHaveBeenCalled();
+    });
+
+    it("should forget the key when the handler throws", async () => {
+      const handler = vi.fn().mockRejectedValue(new Error("boom"));
+
+      await expect(
+        withIdempotency(transferRequest(body), userIdempotencyScope, handler),
+      ).rejects.toThrow("boom");
+      expect(mockPrisma.idempotencyRecord.delete).toHaveBeenCalledWith({
+        where: { id: 7 },
+      });
+    });
+  });
+});
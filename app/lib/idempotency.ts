@@ -0,0 +1,272 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { getPrisma } from "./prisma";
+import { json } from "./transactions";
+import { getAuthUserFromRequest } from "@/lib/auth";
+import {
+  extractApiKeyFromRequest,
+  validateApiKey,
+  validatePayeeApiKey,
+} from "@/lib/api-key-auth";
+
+/* ============================================================================================================================
+   IDEMPOTENCY
+   ----------------------------------------------------------------------------------------------------------------------------
+   A POST sent with an Idempotency-Key header is recorded once per caller (the scope) and key: a fingerprint of the
+   request (method, path and body) and, once the route has answered, its status and body. A retry with the same key
+   gets the stored response back without the route running again. Reusing a key for a different request is rejected
+   with 422, and a retry that arrives while the first request is still running gets 409.
+
+   The first request holds its claim on the key for a short lease. If it dies without answering (the process crashed
+   or was redeployed), a retry that arrives once the lease has run out takes the claim over and runs the route.
+
+   Server errors (5xx) are not stored, so the client can retry them with the same key. Records expire after 24 hours.
+   ============================================================================================================================ */
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENCY_REPLAYED_HEADER = "Idempotent-Replayed";
+
+const MAX_KEY_LENGTH = 255;
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+// How long a request may run before a retry with its key can take its claim over
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+
+type IdempotencyRecord = {
+  id: number;
+  request_hash: string;
+  response_status: number | null;
+  response_body: string | null;
+  response_content_type: string | null;
+  locked_until: Date | null;
+  expires_at: Date;
+};
+
+/**
+ * Identifies the caller a key belongs to, after authenticating the request. Returns null when the request is not
+ * authenticated; the route then runs without idempotency and rejects it as usual.
+ */
+export type IdempotencyScopeResolver = (
+  request: Request,
+) => Promise<string | null>;
+
+/**
+ * The request's Idempotency-Key header, trimmed, or null if it is missing or blank.
+ */
+export function getIdempotencyKey(request: Request): string | null {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+  return key ? key : null;
+}
+
+/**
+ * SHA-256 of the request's method, path and body. The query string is left out because it can carry credentials.
+ * A multipart body is fingerprinted by its fields and the SHA-256 of each file, since its raw bytes include a
+ * boundary the client picks at random for every send. Reads a clone, so the route can still read the body.
+ */
+export async function getRequestFingerprint(request: Request): Promise<string> {
+  const hash = createHash("sha256").update(
+    `${request.method} ${new URL(request.url).pathname}\n`,
+  );
+  if (!request.headers.get("Content-Type")?.startsWith("multipart/form-data")) {
+    return hash
+      .update(Buffer.from(await request.clone().arrayBuffer()))
+      .digest("hex");
+  }
+
+  const fields: [string, string][] = [];
+  for (const [name, value] of await request.clone().formData()) {
+    fields.push([
+      name,
+      typeof value === "string"
+        ? value
+        : `file:${value.name}:${value.type}:${createHash("sha256")
+            .update(Buffer.from(await value.arrayBuffer()))
+            .digest("hex")}`,
+    ]);
+  }
+  return hash.update(JSON.stringify(fields)).digest("hex");
+}
+
+// Scope for routes authenticated with a Supabase bearer token
+export const userIdempotencyScope: IdempotencyScopeResolver = async (
+  request,
+) => {
+  const auth = await getAuthUserFromRequest(request);
+  return auth.ok ? `user:${auth.supabaseUser.id}` : null;
+};
+
+// Scope for routes authenticated with an API key in the access_token query parameter
+export const apiKeyIdempotencyScope: IdempotencyScopeResolver = async (
+  request,
+) => {
+  const apiKey = extractApiKeyFromRequest(request);
+  if (!apiKey) {
+    return null;
+  }
+  const auth = await validateApiKey(apiKey);
+  return auth.ok ? `api-key:${auth.apiKeyId}` : null;
+};
+
+// Scope for routes authenticated with a bill pay payee's API key in the access_token query parameter
+export const payeeApiKeyIdempotencyScope: IdempotencyScopeResolver = async (
+  request,
+) => {
+  const apiKey = extractApiKeyFromRequest(request);
+  if (!apiKey) {
+    return null;
+  }
+  const auth = await validatePayeeApiKey(apiKey);
+  return auth.ok ? `payee:${auth.payeeId}` : null;
+};
+
+function replayResponse(record: IdempotencyRecord): Response {
+  return new Response(record.response_body, {
+    status: record.response_status ?? 200,
+    headers: {
+      "Content-Type": record.response_content_type ?? "application/json",
+      [IDEMPOTENCY_REPLAYED_HEADER]: "true",
+    },
+  });
+}
+
+function respondToExisting(
+  record: IdempotencyRecord,
+  request_hash: string,
+): Response {
+  if (record.request_hash !== request_hash) {
+    return json(422, {
+      error:
+        "Idempotency-Key has already been used for a different request. Use a new key.",
+    });
+  }
+  if (record.response_status === null) {
+    return json(409, {
+      error:
+        "A request with this Idempotency-Key is still being processed. Retry later.",
+    });
+  }
+  return replayResponse(record);
+}
+
+// A claim whose request never answered and whose lease has run out
+function isAbandoned(record: IdempotencyRecord, now: Date): boolean {
+  return (
+    record.response_status === null &&
+    (record.locked_until === null || record.locked_until <= now)
+  );
+}
+
+/**
+ * Run a route handler at most once per Idempotency-Key. Requests without the header run the handler directly.
+ * @param resolveScope - Authenticates the request and names the caller the key belongs to
+ * @param handler - The route's own logic
+ */
+export async function withIdempotency(
+  request: Request,
+  resolveScope: IdempotencyScopeResolver,
+  handler: () => Promise<Response>,
+): Promise<Response> {
+  const key = getIdempotencyKey(request);
+  if (!key) {
+    return await handler();
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    return json(400, {
+      error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  const scope = await resolveScope(request);
+  if (!scope) {
+    return await handler();
+  }
+
+  const prisma = getPrisma();
+  const request_hash = await getRequestFingerprint(request);
+  const now = new Date();
+
+  const existing: IdempotencyRecord | null =
+    await prisma.idempotencyRecord.findUnique({
+      where: { scope_key: { scope, key } },
+    });
+  const locked_until = new Date(now.getTime() + CLAIM_LEASE_MS);
+
+  let record: IdempotencyRecord;
+  if (existing && existing.expires_at > now) {
+    if (existing.request_hash !== request_hash || !isAbandoned(existing, now)) {
+      return respondToExisting(existing, request_hash);
+    }
+
+    // Take the abandoned claim over; when two retries race, only the first moves the lease on
+    const taken = await prisma.idempotencyRecord.updateMany({
+      where: {
+        id: existing.id,
+        response_status: null,
+        locked_until: existing.locked_until,
+      },
+      data: { locked_until },
+    });
+    if (taken.count === 0) {
+      return respondToExisting({ ...existing, locked_until }, request_hash);
+    }
+    record = { ...existing, locked_until };
+  } else {
+    // Clear out expired records (including this key's, if it has expired) before claiming the key
+    await prisma.idempotencyRecord.deleteMany({
+      where: { expires_at: { lte: now } },
+    });
+
+    try {
+      record = await prisma.idempotencyRecord.create({
+        data: {
+          scope,
+          key,
+          request_method: request.method,
+          request_path: new URL(request.url).pathname,
+          request_hash,
+          locked_until,
+          expires_at: new Date(now.getTime() + RECORD_TTL_MS),
+        },
+      });
+    } catch (error) {
+      // Another request with the same key claimed it first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        const winner: IdempotencyRecord | null =
+          await prisma.idempotencyRecord.findUnique({
+            where: { scope_key: { scope, key } },
+          });
+        if (winner) {
+          return respondToExisting(winner, request_hash);
+        }
+      }
+      throw error;
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (error) {
+    await prisma.idempotencyRecord.delete({ where: { id: record.id } });
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await prisma.idempotencyRecord.delete({ where: { id: record.id } });
+    return response;
+  }
+
+  await prisma.idempotencyRecord.update({
+    where: { id: record.id },
+    data: {
+      response_status: response.status,
+      response_body: await response.clone().text(),
+      response_content_type: response.headers.get("Content-Type"),
+      locked_until: null,
+      completed_at: new Date(),
+    },
+  });
+  return response;
+}
@@ -0,0 +1,378 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  accrueDailyInterest,
+  calculateDailyInterest,
+  findInterestTier,
+  getAccruedInterest,
+  postAccruedInterest,
+  postMonthlyInterest,
+} from "./interest";
+
+const tiers = [
+  { min_balance: new Decimal(0), apy: new Decimal("0.035") },
+  { min_balance: new Decimal(10000), apy: new Decimal("0.04") },
+  { min_balance: new Decimal(50000), apy: new Decimal("0.0425") },
+];
+
+// Unposted accruals on consecutive days from 2025-11-28
+function createMockTx(
+  accruals: { id: number; amount: Decimal }[],
+  carried_forward = new Decimal(0),
+) {
+  return {
+    interestAccrual: {
+      findMany: vi.fn().mockResolvedValue(
+        accruals.map((accrual, day) => ({
+          accrual_date: new Date(Date.UTC(2025, 10, 28 + day)),
+          ...accrual,
+        })),
+      ),
+      updateMany: vi.fn().mockResolvedValue({ count: accruals.length }),
+    },
+    $queryRaw: vi.fn().mockResolvedValue([]),
+    transaction: {
+      create: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: 300, ...data })),
+    },
+    internalAccount: {
+      findUnique: vi
+        .fn()
+        .mockResolvedValue({ interest_carried_forward: carried_forward }),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    journalEntry: {
+      create: vi.fn().mockResolvedValue({ id: 77 }),
+    },
+  };
+}
+
+describe("Savings interest", () => {
+  describe("findInterestTier", () => {
+    it("should pick the highest tier the balance reaches", () => {
+      expect(findInterestTier(tiers, new Decimal(500))?.apy.toString()).toBe(
+        "0.035",
+      );
+      expect(findInterestTier(tiers, new Decimal(10000))?.apy.toString()).toBe(
+        "0.04",
+      );
+      expect(findInterestTier(tiers, new Decimal(75000))?.apy.toString()).toBe(
+        "0.0425",
+      );
+    });
+
+    it("should return null when the balance is below every tier", () => {
+      expect(findInterestTier(tiers.slice(1), new Decimal(9999.99))).toBeNull();
+    });
+  });
+
+  describe("calculateDailyInterest", () => {
+    it("should compound to the APY over a year", () => {
+      const apy = new Decimal("0.04");
+      let balance = new Decimal(10000);
+      for (let day = 0; day < 365; day++) {
+        balance = balance.add(calculateDailyInterest(balance, apy));
+      }
+
+      expect(balance.toDecimalPlaces(2).toString()).toBe("10400");
+    });
+  });
+
+  describe("accrueDailyInterest", () => {
+    function createMockPrisma(last_accrual_date: Date | null) {
+      return {
+        interestRateTier: { findMany: vi.fn().mockResolvedValue(tiers) },
+        internalAccount: {
+          findMany: vi.fn().mockResolvedValue([{ id: 1 }, { id: 2 }]),
+        },
+        journalLine: {
+          groupBy: vi.fn().mockResolvedValue([
+            {
+              internal_account_id: 1,
+              side: "credit",
+              _sum: { amount: new Decimal(1200) },
+            },
+            {
+              internal_account_id: 1,
+              side: "debit",
+              _sum: { amount: new Decimal(200) },
+            },
+            {
+              internal_account_id: 2,
+              side: "credit",
+              _sum: { amount: new Decimal(20000) },
+            },
+          ]),
+        },
+        interestAccrual: {
+          aggregate: vi
+            .fn()
+            .mockResolvedValue({ _max: { accrual_date: last_accrual_date } }),
+          createMany: vi
+            .fn()
+            .mockImplementation(async ({ data }) => ({ count: data.length })),
+        },
+      };
+    }
+
+    it("should accrue the previous day on its end-of-day balance from the journal", async () => {
+      const prisma = createMockPrisma(new Date("2025-12-03T00:00:00Z"));
+
+      const result = await accrueDailyInterest(
+        prisma,
+        new Date("2025-12-05T00:10:00Z"),
+      );
+
+      expect(result.accrual_dates).toEqual([new Date("2025-12-04T00:00:00Z")]);
+      expect(result.accrued).toBe(2);
+      expect(prisma.internalAccount.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { account_type: "savings", is_active: true },
+        }),
+      );
+      // Postings after midnight belong to the next day
+      expect(prisma.journalLine.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            internal_account_id: { in: [1, 2] },
+            journal_entry: {
+              created_at: { lt: new Date("2025-12-05T00:00:00Z") },
+            },
+          },
+        }),
+      );
+
+      const { data, skipDuplicates } =
+        prisma.interestAccrual.createMany.mock.calls[0][0];
+      expect(skipDuplicates).toBe(true);
+      expect(data[0].balance.toString()).toBe("1000");
+      expect(data[0].apy.toString()).toBe("0.035");
+      expect(data[1].apy.toString()).toBe("0.04");
+      // $1,000 at 3.5% APY earns just under 10 cents a day
+      expect(data[0].amount.toDecimalPlaces(4).toString()).toBe("0.0943");
+    });
+
+    it("should catch up every day since the last accrual", async () => {
+      const prisma = createMockPrisma(new Date("2025-12-01T00:00:00Z"));
+
+      const result = await accrueDailyInterest(
+        prisma,
+        new Date("2025-12-05T00:10:00Z"),
+      );
+
+      expect(result.accrual_dates).toEqual([
+        new Date("2025-12-02T00:00:00Z"),
+        new Date("2025-12-03T00:00:00Z"),
+        new Date("2025-12-04T00:00:00Z"),
+      ]);
+      expect(result.accrued).toBe(6);
+      expect(
+        prisma.journalLine.groupBy.mock.calls.map(
+          ([args]) => args.where.journal_entry.created_at.lt,
+        ),
+      ).toEqual([
+        new Date("2025-12-03T00:00:00Z"),
+        new Date("2025-12-04T00:00:00Z"),
+        new Date("2025-12-05T00:00:00Z"),
+      ]);
+    });
+
+    it("should accrue only the previous day on the first run", async () => {
+      const prisma = createMockPrisma(null);
+
+      const result = await accrueDailyInterest(
+        prisma,
+        new Date("2025-12-05T00:10:00Z"),
+      );
+
+      expect(result.accrual_dates).toEqual([new Date("2025-12-04T00:00:00Z")]);
+    });
+
+    it("should do nothing when yesterday has already accrued", async () => {
+      const prisma = createMockPrisma(new Date("2025-12-04T00:00:00Z"));
+
+      const result = await accrueDailyInterest(
+        prisma,
+        new Date("2025-12-05T00:10:00Z"),
+      );
+
+      expect(result).toEqual({
+        accrual_dates: [],
+        accrued: 0,
+        total: new Decimal(0),
+      });
+      expect(prisma.interestAccrual.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("postAccruedInterest", () => {
+    it("should credit the rounded total as one interest transaction", async () => {
+      const tx = createMockTx([
+        { id: 1, amount: new Decimal("0.0943") },
+        { id: 2, amount: new Decimal("0.0943") },
+        { id: 3, amount: new Decimal("0.0943") },
+      ]);
+      const cutoff = new Date("2025-12-01T00:00:00Z");
+      const now = new Date("2025-12-01T00:15:00Z");
+
+      const result = await postAccruedInterest(tx, 5, cutoff, now);
+
+      expect(result?.amount.toString()).toBe("0.28");
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          internal_account_id: 5,
+          transaction_type: "interest",
+          direction: "inbound",
+          status: "approved",
+          posted_at: now,
+          journal_entry_id: 77,
+          idempotency_key: "interest_5_2025-11-28_2025-11-30",
+        }),
+      });
+      expect(tx.journalEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          lines: {
+            create: [
+              expect.objectContaining({
+                system_account: "interest_expense",
+                side: "debit",
+              }),
+              expect.objectContaining({
+                internal_account_id: 5,
+                side: "credit",
+              }),
+            ],
+          },
+        }),
+      });
+      expect(tx.interestAccrual.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2, 3] }, posted_at: null },
+        data: { posted_at: now, transaction_id: 300 },
+      });
+      // 0.2829 was accrued; the 0.0029 rounded away is paid with the next posting
+      expect(tx.internalAccount.update).toHaveBeenLastCalledWith({
+        where: { id: 5 },
+        data: { interest_carried_forward: new Decimal("0.0029") },
+      });
+    });
+
+    it("should pay what the last posting carried forward", async () => {
+      const tx = createMockTx(
+        [{ id: 4, amount: new Decimal("0.0043") }],
+        new Decimal("0.0029"),
+      );
+
+      const result = await postAccruedInterest(
+        tx,
+        5,
+        new Date("2026-01-01T00:00:00Z"),
+      );
+
+      expect(result?.amount.toString()).toBe("0.01");
+      expect(tx.$queryRaw).toHaveBeenCalledOnce();
+      expect(tx.internalAccount.update).toHaveBeenLastCalledWith({
+        where: { id: 5 },
+        data: { interest_carried_forward: new Decimal("-0.0028") },
+      });
+    });
+
+    it("should key a posting by the days it pays, so a late catch-up run for the same cutoff does not collide", async () => {
+      const tx = createMockTx([{ id: 9, amount: new Decimal("0.5") }]);
+
+      await postAccruedInterest(tx, 5, new Date("2025-12-01T00:00:00Z"));
+
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          idempotency_key: "interest_5_2025-11-28_2025-11-28",
+        }),
+      });
+    });
+
+    it("should carry accruals forward when they round to less than a cent", async () => {
+      const tx = createMockTx([{ id: 1, amount: new Decimal("0.0031") }]);
+
+      const result = await postAccruedInterest(
+        tx,
+        5,
+        new Date("2025-12-01T00:00:00Z"),
+      );
+
+      expect(result).toBeNull();
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+      expect(tx.interestAccrual.updateMany).not.toHaveBeenCalled();
+      expect(tx.internalAccount.update).not.toHaveBeenCalled();
+    });
+
+    it("should abort if another run already claimed the accruals", async () => {
+      const tx = createMockTx([{ id: 1, amount: new Decimal("1.5") }]);
+      tx.interestAccrual.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        postAccruedInterest(tx, 5, new Date("2025-12-01T00:00:00Z")),
+      ).rejects.toThrow("posted by another run");
+    });
+  });
+
+  describe("postMonthlyInterest", () => {
+    it("should post accruals from before the current month per account", async () => {
+      const tx = createMockTx([{ id: 1, amount: new Decimal("2.5") }]);
+      const prisma = {
+        interestAccrual: {
+          groupBy: vi
+            .fn()
+            .mockResolvedValue([
+              { internal_account_id: 5 },
+              { internal_account_id: 6 },
+            ]),
+        },
+        $transaction: vi
+          .fn()
+          .mockImplementationOnce(async (fn) => fn(tx))
+          .mockRejectedValueOnce(new Error("deadlock")),
+      };
+
+      const result = await postMonthlyInterest(
+        prisma,
+        new Date("2025-12-01T00:15:00Z"),
+      );
+
+      expect(prisma.interestAccrual.groupBy).toHaveBeenCalledWith({
+        by: ["internal_account_id"],
+        where: {
+          posted_at: null,
+          accrual_date: { lt: new Date("2025-12-01T00:00:00Z") },
+        },
+      });
+      expect(result.posted).toEqual([
+        { internal_account_id: 5, transaction_id: 300 },
+      ]);
+      expect(result.failed).toEqual([
+        { internal_account_id: 6, error: "deadlock" },
+      ]);
+    });
+  });
+
+  describe("getAccruedInterest", () => {
+    it("should summarize unpaid accruals per account", async () => {
+      const prisma = {
+        interestAccrual: {
+          groupBy: vi.fn().mockResolvedValue([
+            {
+              internal_account_id: 5,
+              _sum: { amount: new Decimal("1.2345") },
+              _count: { _all: 13 },
+              _min: { accrual_date: new Date("2025-12-01T00:00:00Z") },
+            },
+          ]),
+        },
+      };
+
+      const result = await getAccruedInterest(prisma);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].accrued.toString()).toBe("1.2345");
+      expect(result[0].days).toBe(13);
+    });
+  });
+});
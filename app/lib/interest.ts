@@ -0,0 +1,324 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { getLedgerBalancesAt, postTransfer } from "./ledger";
+
+/* ============================================================================================================================
+   SAVINGS INTEREST
+   ----------------------------------------------------------------------------------------------------------------------------
+   Savings accounts earn interest at the APY of the tier their end-of-day balance falls into (InterestRateTier). Once a
+   day, accrueDailyInterest records every day that has ended since the last accrual for every active savings account:
+   the balance at the end of that day, recomputed from the journal, times the daily rate (1 + APY)^(1/365) - 1, kept
+   unrounded. Days missed while the job was not running are caught up on the next run, and postings made after
+   midnight do not change what the day earned. Once a month, postMonthlyInterest credits everything accrued before
+   the current month as one `interest` transaction per account, journaled against the bank's interest expense.
+
+   Both runs are safe to repeat: an account accrues at most once per day, and accruals are claimed as they are posted.
+   Amounts are rounded to cents only when posted; an account whose accruals round to nothing carries them forward, and
+   the fraction of a cent a posting rounds away is carried forward to the account's next posting.
+   ============================================================================================================================ */
+
+const DAYS_PER_YEAR = 365;
+
+export type InterestTier = {
+  min_balance: Decimal;
+  apy: Decimal;
+};
+
+type UnpostedAccrual = {
+  id: number;
+  accrual_date: Date;
+  amount: Decimal;
+};
+
+/**
+ * Midnight UTC at the start of the given date's day.
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+/**
+ * Midnight UTC `days` days after the start of the given date's day.
+ */
+function addUtcDays(date: Date, days: number): Date {
+  const day = startOfUtcDay(date);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day;
+}
+
+/**
+ * Midnight UTC on the first day of the given date's month.
+ */
+export function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * The tier that applies to a balance: the one with the highest min_balance at or below it.
+ * @returns The tier, or null if the balance is below every tier
+ */
+export function findInterestTier<T extends InterestTier>(
+  tiers: T[],
+  balance: Decimal,
+): T | null {
+  let match: T | null = null;
+  for (const tier of tiers) {
+    const min = new Decimal(tier.min_balance);
+    if (min.lte(balance) && (!match || min.gt(match.min_balance))) {
+      match = tier;
+    }
+  }
+  return match;
+}
+
+/**
+ * One day's interest on `balance` at `apy`, compounded daily so that a year of accruals adds up to the APY.
+ */
+export function calculateDailyInterest(
+  balance: Decimal,
+  apy: Decimal,
+): Decimal {
+  const dailyRate = new Decimal(1)
+    .add(apy)
+    .pow(new Decimal(1).div(DAYS_PER_YEAR))
+    .sub(1);
+  return new Decimal(balance).mul(dailyRate).toDecimalPlaces(10);
+}
+
+/**
+ * Accrue interest on every active savings account for each UTC day that has ended since the last accrual, on the
+ * account's balance at the end of that day. The first run accrues the day before `now`.
+ * @returns The days accrued, how many accruals were recorded and the total accrued
+ */
+export async function accrueDailyInterest(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  now: Date = new Date(),
+): Promise<{ accrual_dates: Date[]; accrued: number; total: Decimal }> {
+  const today = startOfUtcDay(now);
+  const last: { _max: { accrual_date: Date | null } } =
+    await prisma.interestAccrual.aggregate({ _max: { accrual_date: true } });
+  const first = last._max.accrual_date
+    ? addUtcDays(last._max.accrual_date, 1)
+    : addUtcDays(today, -1);
+
+  const tiers: InterestTier[] = await prisma.interestRateTier.findMany();
+  const accounts: { id: number }[] = await prisma.internalAccount.findMany({
+    where: { account_type: "savings", is_active: true },
+    select: { id: true },
+  });
+
+  const accrual_dates: Date[] = [];
+  let accrued = 0;
+  let total = new Decimal(0);
+
+  for (
+    let accrual_date = first;
+    accrual_date < today;
+    accrual_date = addUtcDays(accrual_date, 1)
+  ) {
+    const balances = await getLedgerBalancesAt(
+      prisma,
+      accounts.map((account) => account.id),
+      addUtcDays(accrual_date, 1),
+    );
+
+    const rows = [];
+    for (const [internal_account_id, balance] of balances) {
+      const tier = findInterestTier(tiers, balance);
+      if (balance.lte(0) || !tier || new Decimal(tier.apy).lte(0)) {
+        continue;
+      }
+
+      const amount = calculateDailyInterest(balance, new Decimal(tier.apy));
+      rows.push({
+        internal_account_id,
+        accrual_date,
+        balance,
+        apy: tier.apy,
+        amount,
+      });
+      total = total.add(amount);
+    }
+
+    // An account that already accrued for this day keeps its original row
+    const created: { count: number } = await prisma.interestAccrual.createMany({
+      data: rows,
+      skipDuplicates: true,
+    });
+    accrual_dates.push(accrual_date);
+    accrued += created.count;
+  }
+
+  return { accrual_dates, accrued, total };
+}
+
+function accrualDay(accrual: UnpostedAccrual): string {
+  return accrual.accrual_date.toISOString().slice(0, 10);
+}
+
+/**
+ * Credit one account's unpaid interest accrued before `cutoff`, plus what its last posting carried forward, as a
+ * single interest transaction. Must be called inside a Prisma interactive transaction.
+ * @returns The interest transaction, or null if nothing rounds to at least a cent
+ */
+export async function postAccruedInterest(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  internal_account_id: number,
+  cutoff: Date,
+  now: Date = new Date(),
+) {
+  const accruals: UnpostedAccrual[] = await tx.interestAccrual.findMany({
+    where: {
+      internal_account_id,
+      posted_at: null,
+      accrual_date: { lt: cutoff },
+    },
+    select: { id: true, accrual_date: true, amount: true },
+    orderBy: { accrual_date: "asc" },
+  });
+  if (accruals.length === 0) {
+    return null;
+  }
+
+  // Lock the account so a concurrent run cannot carry the same remainder forward twice
+  await tx.$queryRaw`SELECT id FROM internal_accounts WHERE id = ${internal_account_id} FOR UPDATE`;
+  const account: { interest_carried_forward: Decimal } =
+    await tx.internalAccount.findUnique({
+      where: { id: internal_account_id },
+      select: { interest_carried_forward: true },
+    });
+
+  const accrued = accruals.reduce(
+    (sum, accrual) => sum.add(accrual.amount),
+    new Decimal(account.interest_carried_forward),
+  );
+  const amount = accrued.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+  if (amount.lte(0)) {
+    return null;
+  }
+
+  const posting = await postTransfer(tx, {
+    from: { system_account: "interest_expense" },
+    to: { internal_account_id },
+    amount,
+    description: `Interest paid through ${cutoff.toISOString().slice(0, 10)}`,
+  });
+
+  const transaction = await tx.transaction.create({
+    data: {
+      internal_account_id,
+      amount,
+      transaction_type: "interest",
+      direction: "inbound",
+      status: "approved",
+      posted_at: now,
+      journal_entry_id: posting.journal_entry.id,
+      // Keyed by the days it pays, so a late accrual for a month already posted gets its own posting
+      idempotency_key: `interest_${internal_account_id}_${accrualDay(accruals[0])}_${accrualDay(accruals[accruals.length - 1])}`,
+    },
+  });
+
+  // Claim the accruals; a concurrent run that got here first rolls this one back
+  const claimed = await tx.interestAccrual.updateMany({
+    where: {
+      id: { in: accruals.map((accrual) => accrual.id) },
+      posted_at: null,
+    },
+    data: { posted_at: now, transaction_id: transaction.id },
+  });
+  if (claimed.count !== accruals.length) {
+    throw new Error(
+      `Interest for account ${internal_account_id} was posted by another run`,
+    );
+  }
+
+  await tx.internalAccount.update({
+    where: { id: internal_account_id },
+    data: { interest_carried_forward: accrued.sub(amount) },
+  });
+
+  return transaction;
+}
+
+/**
+ * Credit all interest accrued before the current month. Each account posts in its own database transaction
+ * so one failure does not hold up the rest.
+ */
+export async function postMonthlyInterest(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  now: Date = new Date(),
+): Promise<{
+  posted: { internal_account_id: number; transaction_id: number }[];
+  failed: { internal_account_id: number; error: string }[];
+}> {
+  const cutoff = startOfUtcMonth(now);
+
+  const due: { internal_account_id: number }[] =
+    await prisma.interestAccrual.groupBy({
+      by: ["internal_account_id"],
+      where: { posted_at: null, accrual_date: { lt: cutoff } },
+    });
+
+  const posted: { internal_account_id: number; transaction_id: number }[] = [];
+  const failed: { internal_account_id: number; error: string }[] = [];
+
+  for (const { internal_account_id } of due) {
+    try {
+      const transaction = await prisma.$transaction(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        async (tx: any) =>
+          postAccruedInterest(tx, internal_account_id, cutoff, now),
+      );
+      if (transaction) {
+        posted.push({ internal_account_id, transaction_id: transaction.id });
+      }
+    } catch (error) {
+      failed.push({
+        internal_account_id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { posted, failed };
+}
+
+/**
+ * Interest accrued but not yet posted, per account.
+ */
+export async function getAccruedInterest(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+): Promise<
+  {
+    internal_account_id: number;
+    accrued: Decimal;
+    days: number;
+    since: Date | null;
+  }[]
+> {
+  const rows: {
+    internal_account_id: number;
+    _sum: { amount: Decimal | null };
+    _count: { _all: number };
+    _min: { accrual_date: Date | null };
+  }[] = await prisma.interestAccrual.groupBy({
+    by: ["internal_account_id"],
+    where: { posted_at: null },
+    _sum: { amount: true },
+    _count: { _all: true },
+    _min: { accrual_date: true },
+    orderBy: { internal_account_id: "asc" },
+  });
+
+  return rows.map((row) => ({
+    internal_account_id: row.internal_account_id,
+    accrued: new Decimal(row._sum.amount ?? 0),
+    days: row._count._all,
+    since: row._min.accrual_date,
+  }));
+}
@@ -0,0 +1,337 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  validateJournalEntry,
+  postJournalEntry,
+  postTransfer,
+  getLedgerBalance,
+  getLedgerBalancesAt,
+  verifyAccountBalance,
+  getTrialBalance,
+} from "./ledger";
+
+function createMockTx() {
+  return {
+    internalAccount: {
+      findUnique: vi.fn(),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    journalEntry: {
+      create: vi.fn().mockResolvedValue({ id: 7 }),
+    },
+    journalLine: {
+      groupBy: vi.fn(),
+    },
+  };
+}
+
+describe("Ledger", () => {
+  describe("validateJournalEntry", () => {
+    it("should accept a balanced two-leg entry", () => {
+      const error = validateJournalEntry({
+        description: "Deposit",
+        lines: [
+          {
+            system_account: "cash_clearing",
+            side: "debit",
+            amount: new Decimal("10.50"),
+          },
+          {
+            internal_account_id: 1,
+            side: "credit",
+            amount: new Decimal("10.5"),
+          },
+        ],
+      });
+
+      expect(error).toBeNull();
+    });
+
+    it("should accept a balanced multi-leg entry", () => {
+      const error = validateJournalEntry({
+        description: "Split",
+        lines: [
+          { internal_account_id: 1, side: "debit", amount: new Decimal(100) },
+          { internal_account_id: 2, side: "credit", amount: new Decimal(60) },
+          {
+            system_account: "suspense",
+            side: "credit",
+            amount: new Decimal(40),
+          },
+        ],
+      });
+
+      expect(error).toBeNull();
+    });
+
+    it("should reject an unbalanced entry", () => {
+      const error = validateJournalEntry({
+        description: "Broken",
+        lines: [
+          { internal_account_id: 1, side: "debit", amount: new Decimal(100) },
+          {
+            internal_account_id: 2,
+            side: "credit",
+            amount: new Decimal(99.99),
+          },
+        ],
+      });
+
+      expect(error).toContain("Unbalanced journal entry");
+    });
+
+    it("should reject entries with fewer than two lines", () => {
+      const error = validateJournalEntry({
+        description: "Single",
+        lines: [
+          { internal_account_id: 1, side: "credit", amount: new Decimal(1) },
+        ],
+      });
+
+      expect(error).toBe("Journal entry must have at least two lines");
+    });
+
+    it("should reject non-positive amounts", () => {
+      const error = validateJournalEntry({
+        description: "Zero",
+        lines: [
+          { internal_account_id: 1, side: "debit", amount: new Decimal(0) },
+          { internal_account_id: 2, side: "credit", amount: new Decimal(0) },
+        ],
+      });
+
+      expect(error).toBe("Journal line amounts must be positive");
+    });
+
+    it("should reject lines that reference both kinds of account", () => {
+      const error = validateJournalEntry({
+        description: "Ambiguous",
+        lines: [
+          {
+            internal_account_id: 1,
+            system_account: "suspense",
+            side: "debit",
+            amount: new Decimal(5),
+          } as never,
+          { internal_account_id: 2, side: "credit", amount: new Decimal(5) },
+        ],
+      });
+
+      expect(error).toBe(
+        "Each journal line must reference exactly one account",
+      );
+    });
+  });
+
+  describe("postJournalEntry", () => {
+    it("should throw on an unbalanced entry without writing anything", async () => {
+      const tx = createMockTx();
+
+      await expect(
+        postJournalEntry(tx, {
+          description: "Broken",
+          lines: [
+            { internal_account_id: 1, side: "debit", amount: new Decimal(2) },
+            { internal_account_id: 2, side: "credit", amount: new Decimal(1) },
+          ],
+        }),
+      ).rejects.toThrow("Unbalanced journal entry");
+
+      expect(tx.internalAccount.update).not.toHaveBeenCalled();
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should credit customer accounts and record every line", async () => {
+      const tx = createMockTx();
+      const amount = new Decimal(25);
+
+      const result = await postJournalEntry(tx, {
+        description: "Deposit",
+        lines: [
+          { system_account: "cash_clearing", side: "debit", amount },
+          { internal_account_id: 3, side: "credit", amount },
+        ],
+      });
+
+      expect(result).toEqual({ ok: true, journal_entry: { id: 7 } });
+      expect(tx.internalAccount.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: {
+          balance: { increment: amount },
+          available_balance: { increment: amount },
+        },
+      });
+      expect(tx.journalEntry.create).toHaveBeenCalledWith({
+        data: {
+          description: "Deposit",
+          lines: {
+            create: [
+              {
+                internal_account_id: null,
+                system_account: "cash_clearing",
+                side: "debit",
+                amount,
+              },
+              {
+                internal_account_id: 3,
+                system_account: null,
+                side: "credit",
+                amount,
+              },
+            ],
+          },
+        },
+      });
+    });
+  });
+
+  describe("postTransfer", () => {
+    it("should guard the debited customer account", async () => {
+      const tx = createMockTx();
+      const amount = new Decimal(40);
+
+      const result = await postTransfer(tx, {
+        from: { internal_account_id: 1 },
+        to: { internal_account_id: 2 },
+        amount,
+        description: "Internal transfer",
+        guard_sufficient_funds: true,
+      });
+
+      expect(result.ok).toBe(true);
+      expect(tx.internalAccount.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, available_balance: { gte: amount } },
+        data: {
+          balance: { decrement: amount },
+          available_balance: { decrement: amount },
+        },
+      });
+      // The guarded debit is not applied twice
+      expect(tx.internalAccount.update).toHaveBeenCalledTimes(1);
+      expect(tx.internalAccount.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: {
+          balance: { increment: amount },
+          available_balance: { increment: amount },
+        },
+      });
+    });
+
+    it("should report insufficient funds without posting", async () => {
+      const tx = createMockTx();
+      tx.internalAccount.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await postTransfer(tx, {
+        from: { internal_account_id: 1 },
+        to: { system_account: "ach_clearing" },
+        amount: new Decimal(1000),
+        description: "External transfer (outbound)",
+        guard_sufficient_funds: true,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        reason: "insufficient_funds",
+        internal_account_id: 1,
+      });
+      expect(tx.internalAccount.update).not.toHaveBeenCalled();
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getLedgerBalance", () => {
+    it("should compute credits minus debits", async () => {
+      const tx = createMockTx();
+      tx.journalLine.groupBy.mockResolvedValue([
+        { side: "credit", _sum: { amount: new Decimal("150.25") } },
+        { side: "debit", _sum: { amount: new Decimal("50.10") } },
+      ]);
+
+      const balance = await getLedgerBalance(tx, 1);
+
+      expect(balance.toString()).toBe("100.15");
+      expect(tx.journalLine.groupBy).toHaveBeenCalledWith({
+        by: ["side"],
+        where: { internal_account_id: 1 },
+        _sum: { amount: true },
+      });
+    });
+  });
+
+  describe("getLedgerBalancesAt", () => {
+    it("should compute each account's balance from the entries before the cutoff", async () => {
+      const tx = createMockTx();
+      tx.journalLine.groupBy.mockResolvedValue([
+        {
+          internal_account_id: 1,
+          side: "credit",
+          _sum: { amount: new Decimal("150.25") },
+        },
+        {
+          internal_account_id: 1,
+          side: "debit",
+          _sum: { amount: new Decimal("50.10") },
+        },
+      ]);
+      const as_of = new Date("2025-12-05T00:00:00Z");
+
+      const balances = await getLedgerBalancesAt(tx, [1, 2], as_of);
+
+      expect(balances.get(1)?.toString()).toBe("100.15");
+      expect(balances.get(2)?.toString()).toBe("0");
+      expect(tx.journalLine.groupBy).toHaveBeenCalledWith({
+        by: ["internal_account_id", "side"],
+        where: {
+          internal_account_id: { in: [1, 2] },
+          journal_entry: { created_at: { lt: as_of } },
+        },
+        _sum: { amount: true },
+      });
+    });
+  });
+
+  describe("verifyAccountBalance", () => {
+    it("should flag a stored balance that disagrees with the journal", async () => {
+      const tx = createMockTx();
+      tx.internalAccount.findUnique.mockResolvedValue({
+        balance: new Decimal(120),
+      });
+      tx.journalLine.groupBy.mockResolvedValue([
+        { side: "credit", _sum: { amount: new Decimal(100) } },
+      ]);
+
+      const result = await verifyAccountBalance(tx, 1);
+
+      expect(result.ok).toBe(false);
+      expect(result.stored.toString()).toBe("120");
+      expect(result.ledger.toString()).toBe("100");
+    });
+  });
+
+  describe("getTrialBalance", () => {
+    it("should report a balanced journal", async () => {
+      const tx = createMockTx();
+      tx.journalLine.groupBy.mockResolvedValue([
+        { side: "debit", _sum: { amount: new Decimal(500) } },
+        { side: "credit", _sum: { amount: new Decimal(500) } },
+      ]);
+
+      const result = await getTrialBalance(tx);
+
+      expect(result.balanced).toBe(true);
+    });
+
+    it("should report an unbalanced journal", async () => {
+      const tx = createMockTx();
+      tx.journalLine.groupBy.mockResolvedValue([
+        { side: "debit", _sum: { amount: new Decimal(500) } },
+      ]);
+
+      const result = await getTrialBalance(tx);
+
+      expect(result.balanced).toBe(false);
+      expect(result.credits.toString()).toBe("0");
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type { EntrySide, SystemLedgerAccount } from "@prisma/client";
+
+/* ============================================================================================================================
+   DOUBLE-ENTRY JOURNAL
+   ----------------------------------------------------------------------------------------------------------------------------
+   Every movement of money is recorded as a journal entry whose debit and credit legs balance. Customer accounts
+   (InternalAccount) are liabilities on the bank's books, so a credit increases what we owe the customer and a debit
+   decreases it. Bank-side legs post to system accounts (clearing and suspense) so that nothing is created or destroyed.
+
+   InternalAccount.balance is kept as a projection of the journal: it is only ever changed here, in the same database
+   transaction as the lines that justify it, and can be recomputed from journal_lines at any time. available_balance
+   moves with it; holds (see holds.ts) are the only other thing that changes available_balance.
+   ============================================================================================================================ */
+
+export type { EntrySide, SystemLedgerAccount };
+
+export const SYSTEM_LEDGER_ACCOUNTS: SystemLedgerAccount[] = [
+  "cash_clearing",
+  "check_clearing",
+  "ach_clearing",
+  "billpay_clearing",
+  "interest_expense",
+  "suspense",
+];
+
+export type LedgerAccountRef =
+  | { internal_account_id: number; system_account?: never }
+  | { system_account: SystemLedgerAccount; internal_account_id?: never };
+
+export type JournalLineInput = LedgerAccountRef & {
+  side: EntrySide;
+  amount: Decimal; // Always positive; the side carries the direction
+};
+
+export type JournalEntryInput = {
+  description: string;
+  lines: JournalLineInput[];
+  // When set, customer debit legs only post if the account has enough available funds
+  guard_sufficient_funds?: boolean;
+};
+
+export type PostedJournalEntry = { ok: true; journal_entry: { id: number } };
+
+export type PostJournalEntryResult =
+  | PostedJournalEntry
+  | {
+      ok: false;
+      reason: "insufficient_funds";
+      internal_account_id: number;
+    };
+
+/**
+ * Check that a journal entry is well formed: at least two legs, every leg points at exactly one
+ * account with a positive amount, and total debits equal total credits.
+ * @returns An error message, or null if the entry is valid
+ */
+export function validateJournalEntry(entry: JournalEntryInput): string | null {
+  if (entry.lines.length < 2) {
+    return "Journal entry must have at least two lines";
+  }
+
+  let debits = new Decimal(0);
+  let credits = new Decimal(0);
+
+  for (const line of entry.lines) {
+    const hasInternal = line.internal_account_id !== undefined;
+    const hasSystem = line.system_account !== undefined;
+    if (hasInternal === hasSystem) {
+      return "Each journal line must reference exactly one account";
+    }
+    if (!line.amount.isFinite() || line.amount.lte(0)) {
+      return "Journal line amounts must be positive";
+    }
+    if (line.side === "debit") {
+      debits = debits.add(line.amount);
+    } else {
+      credits = credits.add(line.amount);
+    }
+  }
+
+  if (!debits.eq(credits)) {
+    return `Unbalanced journal entry: debits ${debits.toFixed(4)} != credits ${credits.toFixed(4)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Post a balanced journal entry and update the InternalAccount balance projections for every
+ * customer leg. Must be called inside a Prisma interactive transaction.
+ *
+ * When guard_sufficient_funds is set, guarded customer debits are applied first with an
+ * `available_balance >= amount` condition. If the first one fails nothing has been written and
+ * { ok: false } is returned so the caller can record a denied transaction.
+ */
+export async function postJournalEntry(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  entry: JournalEntryInput & { guard_sufficient_funds?: false },
+): Promise<PostedJournalEntry>;
+export async function postJournalEntry(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  entry: JournalEntryInput,
+): Promise<PostJournalEntryResult>;
+export async function postJournalEntry(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  entry: JournalEntryInput,
+): Promise<PostJournalEntryResult> {
+  const error = validateJournalEntry(entry);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const guardedDebits = entry.guard_sufficient_funds
+    ? entry.lines.filter(
+        (line) =>
+          line.side === "debit" && line.internal_account_id !== undefined,
+      )
+    : [];
+
+  for (const [index, line] of guardedDebits.entries()) {
+    const ok = await tx.internalAccount.updateMany({
+      where: {
+        id: line.internal_account_id,
+        available_balance: { gte: line.amount },
+      },
+      data: {
+        balance: { decrement: line.amount },
+        available_balance: { decrement: line.amount },
+      },
+    });
+    if (ok.count !== 1) {
+      if (index > 0) {
+        // An earlier leg already moved money; abort the whole database transaction
+        throw new Error(
+          `Insufficient funds in account ${line.internal_account_id} after partial posting`,
+        );
+      }
+      return {
+        ok: false,
+        reason: "insufficient_funds",
+        internal_account_id: line.internal_account_id!,
+      };
+    }
+  }
+
+  for (const line of entry.lines) {
+    if (line.internal_account_id === undefined || guardedDebits.includes(line))
+      continue;
+    const change =
+      line.side === "credit"
+        ? { increment: line.amount }
+        : { decrement: line.amount };
+    await tx.internalAccount.update({
+      where: { id: line.internal_account_id },
+      data: { balance: change, available_balance: change },
+    });
+  }
+
+  const journal_entry = await tx.journalEntry.create({
+    data: {
+      description: entry.description,
+      lines: {
+        create: entry.lines.map((line) => ({
+          internal_account_id: line.internal_account_id ?? null,
+          system_account: line.system_account ?? null,
+          side: line.side,
+          amount: line.amount,
+        })),
+      },
+    },
+  });
+
+  return { ok: true, journal_entry };
+}
+
+export type TransferPosting = {
+  from: LedgerAccountRef;
+  to: LedgerAccountRef;
+  amount: Decimal;
+  description: string;
+  guard_sufficient_funds?: boolean;
+};
+
+/**
+ * Post the common two-leg movement: debit `from`, credit `to`.
+ * Money leaving a customer account is a debit on it; money arriving is a credit.
+ */
+export async function postTransfer(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  params: TransferPosting & { guard_sufficient_funds?: false },
+): Promise<PostedJournalEntry>;
+export async function postTransfer(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  params: TransferPosting,
+): Promise<PostJournalEntryResult>;
+export async function postTransfer(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  params: TransferPosting,
+): Promise<PostJournalEntryResult> {
+  return postJournalEntry(tx, {
+    description: params.description,
+    guard_sufficient_funds: params.guard_sufficient_funds,
+    lines: [
+      { ...params.from, side: "debit", amount: params.amount },
+      { ...params.to, side: "credit", amount: params.amount },
+    ] as JournalLineInput[],
+  });
+}
+
+/**
+ * Recompute a customer account's balance from its journal lines (credits minus debits).
+ */
+export async function getLedgerBalance(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  internal_account_id: number,
+): Promise<Decimal> {
+  const sums: { side: EntrySide; _sum: { amount: Decimal | null } }[] =
+    await tx.journalLine.groupBy({
+      by: ["side"],
+      where: { internal_account_id },
+      _sum: { amount: true },
+    });
+
+  return sums.reduce(
+    (balance, row) =>
+      row.side === "credit"
+        ? balance.add(row._sum.amount ?? 0)
+        : balance.sub(row._sum.amount ?? 0),
+    new Decimal(0),
+  );
+}
+
+/**
+ * Customer account balances as they stood at `as_of`, from the journal entries recorded before it (credits minus
+ * debits). An account with no lines by then has a zero balance.
+ */
+export async function getLedgerBalancesAt(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  internal_account_ids: number[],
+  as_of: Date,
+): Promise<Map<number, Decimal>> {
+  const sums: {
+    internal_account_id: number;
+    side: EntrySide;
+    _sum: { amount: Decimal | null };
+  }[] = await tx.journalLine.groupBy({
+    by: ["internal_account_id", "side"],
+    where: {
+      internal_account_id: { in: internal_account_ids },
+      journal_entry: { created_at: { lt: as_of } },
+    },
+    _sum: { amount: true },
+  });
+
+  const balances = new Map(
+    internal_account_ids.map((id) => [id, new Decimal(0)]),
+  );
+  for (const row of sums) {
+    const balance = balances.get(row.internal_account_id) ?? new Decimal(0);
+    balances.set(
+      row.internal_account_id,
+      row.side === "credit"
+        ? balance.add(row._sum.amount ?? 0)
+        : balance.sub(row._sum.amount ?? 0),
+    );
+  }
+  return balances;
+}
+
+/**
+ * Verify that the stored InternalAccount.balance matches the journal.
+ */
+export async function verifyAccountBalance(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  internal_account_id: number,
+): Promise<{ ok: boolean; stored: Decimal; ledger: Decimal }> {
+  const account = await tx.internalAccount.findUnique({
+    where: { id: internal_account_id },
+    select: { balance: true },
+  });
+  const stored = new Decimal(account?.balance ?? 0);
+  const ledger = await getLedgerBalance(tx, internal_account_id);
+  return { ok: stored.eq(ledger), stored, ledger };
+}
+
+/**
+ * Trial balance across the whole journal. Total debits must equal total credits;
+ * anything else means money was created or destroyed outside postJournalEntry.
+ */
+export async function getTrialBalance(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+): Promise<{ balanced: boolean; debits: Decimal; credits: Decimal }> {
+  const sums: { side: EntrySide; _sum: { amount: Decimal | null } }[] =
+    await tx.journalLine.groupBy({
+      by: ["side"],
+      _sum: { amount: true },
+    });
+
+  const debits = new Decimal(
+    sums.find((row) => row.side === "debit")?._sum.amount ?? 0,
+  );
+  const credits = new Decimal(
+    sums.find((row) => row.side === "credit")?._sum.amount ?? 0,
+  );
+
+  return { balanced: debits.eq(credits), debits, credits };
+}
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  checkTransactionLimits,
+  getAccountLimits,
+  getEffectiveLimits,
+  getLimitDay,
+  limitExceededResponse,
+} from "./limits";
+
+const account = { id: 10, user_id: 5, account_type: "checking" as const };
+const now = new Date("2025-12-03T18:30:00Z");
+
+function createMockPrisma({
+  overrides = [] as { limit_type: string; amount: Decimal }[],
+  used = new Decimal(0),
+} = {}) {
+  return {
+    transactionLimit: {
+      findMany: vi.fn().mockResolvedValue([
+        { limit_type: "per_transaction", amount: new Decimal(25000) },
+        { limit_type: "daily_withdrawal", amount: new Decimal(5000) },
+        { limit_type: "daily_external_transfer", amount: new Decimal(10000) },
+      ]),
+    },
+    userTransactionLimit: {
+      findMany: vi.fn().mockResolvedValue(overrides),
+    },
+    transaction: {
+      // Outbound usage is stored as negative amounts
+      aggregate: vi.fn().mockResolvedValue({ _sum: { amount: used.neg() } }),
+    },
+    $queryRaw: vi.fn().mockResolvedValue([]),
+  };
+}
+
+describe("Transaction limits", () => {
+  describe("getLimitDay", () => {
+    it("should cover the UTC day", () => {
+      const { start, end } = getLimitDay(now);
+
+      expect(start.toISOString()).toBe("2025-12-03T00:00:00.000Z");
+      expect(end.toISOString()).toBe("2025-12-04T00:00:00.000Z");
+    });
+  });
+
+  describe("getEffectiveLimits", () => {
+    it("should prefer the user's overrides to the account type's defaults", async () => {
+      const prisma = createMockPrisma({
+        overrides: [
+          { limit_type: "daily_withdrawal", amount: new Decimal(800) },
+        ],
+      });
+
+      const limits = await getEffectiveLimits(prisma, 5, "checking");
+
+      expect(prisma.transactionLimit.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { account_type: "checking" } }),
+      );
+      expect(prisma.userTransactionLimit.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { user_id: 5, account_type: "checking" },
+        }),
+      );
+      expect(limits.get("daily_withdrawal")).toEqual({
+        amount: new Decimal(800),
+        source: "override",
+      });
+      expect(limits.get("per_transaction")?.source).toBe("default");
+      expect(limits.has("daily_check_deposit")).toBe(false);
+    });
+  });
+
+  describe("checkTransactionLimits", () => {
+    it("should allow a transaction within every limit", async () => {
+      const prisma = createMockPrisma({ used: new Decimal(1000) });
+
+      const check = await checkTransactionLimits(
+        prisma,
+        account,
+        "withdrawal",
+        new Decimal(4000),
+        now,
+      );
+
+      expect(check).toEqual({ ok: true });
+    });
+
+    it("should lock the account before counting its usage", async () => {
+      const prisma = createMockPrisma();
+
+      await checkTransactionLimits(
+        prisma,
+        account,
+        "withdrawal",
+        new Decimal(100),
+        now,
+      );
+
+      const [sql, id] = prisma.$queryRaw.mock.calls[0];
+      expect(sql.join("?")).toBe(
+        "SELECT id FROM internal_accounts WHERE id = ? FOR UPDATE",
+      );
+      expect(id).toBe(10);
+      expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        prisma.transaction.aggregate.mock.invocationCallOrder[0],
+      );
+    });
+
+    it("should deny a transaction over the per-transaction cap", async () => {
+      const prisma = createMockPrisma();
+
+      const check = await checkTransactionLimits(
+        prisma,
+        account,
+        "internal_transfer",
+        new Decimal("25000.01"),
+        now,
+      );
+
+      expect(check).toMatchObject({
+        ok: false,
+        limit_type: "per_transaction",
+        resets_at: null,
+      });
+      expect(prisma.transaction.aggregate).not.toHaveBeenCalled();
+    });
+
+    it("should deny a withdrawal over the remaining daily allowance", async () => {
+      const prisma = createMockPrisma({ used: new Decimal(4500) });
+
+      const check = await checkTransactionLimits(
+        prisma,
+        account,
+        "withdrawal",
+        new Decimal(600),
+        now,
+      );
+
+      expect(prisma.transaction.aggregate).toHaveBeenCalledWith({
+        where: {
+          internal_account_id: 10,
+          status: { in: ["pending", "approved"] },
+          created_at: {
+            gte: new Date("2025-12-03T00:00:00Z"),
+            lt: new Date("2025-12-04T00:00:00Z"),
+          },
+          transaction_type: "withdrawal",
+          direction: "outbound",
+        },
+        _sum: { amount: true },
+      });
+      expect(check).toEqual({
+        ok: false,
+        limit_type: "daily_withdrawal",
+        limit: new Decimal(5000),
+        remaining: new Decimal(500),
+        resets_at: new Date("2025-12-04T00:00:00Z"),
+        error:
+          "Daily withdrawal limit exceeded. $500.00 of $5000.00 remaining today.",
+      });
+    });
+
+    it("should skip limit types the account does not have", async () => {
+      const prisma = createMockPrisma({ used: new Decimal(1000000) });
+
+      const check = await checkTransactionLimits(
+        prisma,
+        account,
+        "check_deposit",
+        new Decimal(50000),
+        now,
+      );
+
+      expect(check).toEqual({ ok: true });
+    });
+  });
+
+  describe("getAccountLimits", () => {
+    it("should report usage and remaining allowance for every limit type", async () => {
+      const prisma = createMockPrisma({ used: new Decimal(6000) });
+
+      const limits = await getAccountLimits(prisma, account, now);
+
+      expect(limits).toEqual([
+        {
+          limit_type: "per_transaction",
+          limit: new Decimal(25000),
+          source: "default",
+          used: new Decimal(0),
+          remaining: new Decimal(25000),
+        },
+        {
+          limit_type: "daily_withdrawal",
+          limit: new Decimal(5000),
+          source: "default",
+          used: new Decimal(6000),
+          remaining: new Decimal(0),
+        },
+        {
+          limit_type: "daily_external_transfer",
+          limit: new Decimal(10000),
+          source: "default",
+          used: new Decimal(6000),
+          remaining: new Decimal(4000),
+        },
+        {
+          limit_type: "daily_check_deposit",
+          limit: null,
+          source: null,
+          used: new Decimal(6000),
+          remaining: null,
+        },
+      ]);
+    });
+  });
+
+  describe("limitExceededResponse", () => {
+    it("should return 403 with the remaining allowance", async () => {
+      const response = limitExceededResponse({
+        ok: false,
+        limit_type: "daily_external_transfer",
+        limit: new Decimal(10000),
+        remaining: new Decimal("250.5"),
+        resets_at: new Date("2025-12-04T00:00:00Z"),
+        error: "Daily external transfer limit exceeded.",
+      });
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({
+        error: "Forbidden: Daily external transfer limit exceeded.",
+        limit_type: "daily_external_transfer",
+        limit: "10000.00",
+        remaining: "250.50",
+        resets_at: "2025-12-04T00:00:00.000Z",
+      });
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type {
+  AccountTypeEnum,
+  Prisma,
+  TransactionLimitTypeEnum,
+  TransactionStatusEnum,
+} from "@prisma/client";
+import { Money } from "@/lib/money";
+import { json } from "./transactions";
+
+/* ============================================================================================================================
+   TRANSACTION LIMITS
+   ----------------------------------------------------------------------------------------------------------------------------
+   Every account type has default limits (TransactionLimit); a manager can override any of them for one user
+   (UserTransactionLimit). A limit type with neither row is unlimited.
+
+   The per-transaction cap applies to every customer-initiated debit. Daily limits count the day's (UTC) pending and
+   approved transactions of their kind on the account, so a held transfer uses up allowance until it is returned
+   or reversed. Deposits other than checks, inbound transfers, interest and overdraft sweeps are never limited.
+
+   A check locks the account's row until its transaction ends, so concurrent transactions on one account are checked
+   and created one at a time and cannot both fit in the same remaining allowance.
+   ============================================================================================================================ */
+
+export const LIMIT_TYPES: TransactionLimitTypeEnum[] = [
+  "per_transaction",
+  "daily_withdrawal",
+  "daily_external_transfer",
+  "daily_check_deposit",
+];
+
+export const LIMIT_LABELS: Record<TransactionLimitTypeEnum, string> = {
+  per_transaction: "Per-transaction limit",
+  daily_withdrawal: "Daily withdrawal limit",
+  daily_external_transfer: "Daily external transfer limit",
+  daily_check_deposit: "Daily check deposit limit",
+};
+
+// Transactions that use up the daily allowance
+const COUNTED_STATUSES: TransactionStatusEnum[] = ["pending", "approved"];
+
+const DAILY_LIMIT_FILTERS: Record<
+  Exclude<TransactionLimitTypeEnum, "per_transaction">,
+  Prisma.TransactionWhereInput
+> = {
+  daily_withdrawal: { transaction_type: "withdrawal", direction: "outbound" },
+  daily_external_transfer: {
+    transaction_type: "external_transfer",
+    direction: "outbound",
+  },
+  daily_check_deposit: {
+    transaction_type: "deposit",
+    direction: "inbound",
+    check_image_url: { not: null },
+  },
+};
+
+export type LimitedTransactionKind =
+  | "withdrawal"
+  | "billpay"
+  | "internal_transfer"
+  | "external_transfer"
+  | "check_deposit";
+
+const APPLICABLE_LIMITS: Record<
+  LimitedTransactionKind,
+  TransactionLimitTypeEnum[]
+> = {
+  withdrawal: ["per_transaction", "daily_withdrawal"],
+  billpay: ["per_transaction"],
+  internal_transfer: ["per_transaction"],
+  external_transfer: ["per_transaction", "daily_external_transfer"],
+  check_deposit: ["daily_check_deposit"],
+};
+
+type LimitedAccount = {
+  id: number;
+  user_id: number;
+  account_type: AccountTypeEnum;
+};
+
+export type AccountLimit = {
+  limit_type: TransactionLimitTypeEnum;
+  limit: Decimal | null; // Null when unlimited
+  source: "default" | "override" | null;
+  used: Decimal; // Always zero for the per-transaction cap
+  remaining: Decimal | null; // Null when unlimited
+};
+
+export type LimitCheck =
+  | { ok: true }
+  | {
+      ok: false;
+      limit_type: TransactionLimitTypeEnum;
+      limit: Decimal;
+      remaining: Decimal;
+      resets_at: Date | null; // Null for the per-transaction cap
+      error: string;
+    };
+
+/**
+ * Thrown inside a Prisma transaction when a limit denies the transaction, so everything it did rolls back.
+ * Answer it with limitExceededResponse(error.check).
+ */
+export class LimitExceededError extends Error {
+  readonly check: Extract<LimitCheck, { ok: false }>;
+
+  constructor(check: Extract<LimitCheck, { ok: false }>) {
+    super(check.error);
+    this.check = check;
+  }
+}
+
+/**
+ * The start of the UTC day containing `now` and the start of the next one.
+ */
+export function getLimitDay(now: Date): { start: Date; end: Date } {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return { start, end };
+}
+
+/**
+ * The limits in force for a user's accounts of one type: the user's overrides, else the account type's defaults.
+ */
+export async function getEffectiveLimits(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  user_id: number,
+  account_type: AccountTypeEnum,
+): Promise<
+  Map<
+    TransactionLimitTypeEnum,
+    { amount: Decimal; source: "default" | "override" }
+  >
+> {
+  const [defaults, overrides]: {
+    limit_type: TransactionLimitTypeEnum;
+    amount: Decimal;
+  }[][] = await Promise.all([
+    prisma.transactionLimit.findMany({
+      where: { account_type },
+      select: { limit_type: true, amount: true },
+    }),
+    prisma.userTransactionLimit.findMany({
+      where: { user_id, account_type },
+      select: { limit_type: true, amount: true },
+    }),
+  ]);
+
+  const limits = new Map<
+    TransactionLimitTypeEnum,
+    { amount: Decimal; source: "default" | "override" }
+  >();
+  for (const row of defaults) {
+    limits.set(row.limit_type, {
+      amount: new Decimal(row.amount),
+      source: "default",
+    });
+  }
+  for (const row of overrides) {
+    limits.set(row.limit_type, {
+      amount: new Decimal(row.amount),
+      source: "override",
+    });
+  }
+  return limits;
+}
+
+/**
+ * How much of a daily limit the account has used today. Amounts are positive.
+ */
+async function getDailyUsage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  internal_account_id: number,
+  limit_type: Exclude<TransactionLimitTypeEnum, "per_transaction">,
+  now: Date,
+): Promise<Decimal> {
+  const { start, end } = getLimitDay(now);
+  const usage: { _sum: { amount: Decimal | null } } =
+    await prisma.transaction.aggregate({
+      where: {
+        internal_account_id,
+        status: { in: COUNTED_STATUSES },
+        created_at: { gte: start, lt: end },
+        ...DAILY_LIMIT_FILTERS[limit_type],
+      },
+      _sum: { amount: true },
+    });
+  return new Decimal(usage._sum.amount ?? 0).abs();
+}
+
+/**
+ * Every limit on an account with today's usage and remaining allowance. Read-only.
+ */
+export async function getAccountLimits(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  account: LimitedAccount,
+  now: Date = new Date(),
+): Promise<AccountLimit[]> {
+  const limits = await getEffectiveLimits(
+    prisma,
+    account.user_id,
+    account.account_type,
+  );
+
+  return await Promise.all(
+    LIMIT_TYPES.map(async (limit_type) => {
+      const limit = limits.get(limit_type);
+      const used =
+        limit_type === "per_transaction"
+          ? new Decimal(0)
+          : await getDailyUsage(prisma, account.id, limit_type, now);
+      return {
+        limit_type,
+        limit: limit?.amount ?? null,
+        source: limit?.source ?? null,
+        used,
+        remaining: limit ? Decimal.max(limit.amount.sub(used), 0) : null,
+      };
+    }),
+  );
+}
+
+/**
+ * Check a transaction against the account's limits before it is created, after locking the account's row.
+ * Must be called inside the Prisma interactive transaction that creates the transaction.
+ * @param amount - Positive amount of the transaction
+ * @returns The first limit the transaction would exceed, or ok
+ */
+export async function checkTransactionLimits(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  account: LimitedAccount,
+  kind: LimitedTransactionKind,
+  amount: Decimal,
+  now: Date = new Date(),
+): Promise<LimitCheck> {
+  await prisma.$queryRaw`SELECT id FROM internal_accounts WHERE id = ${account.id} FOR UPDATE`;
+
+  const limits = await getEffectiveLimits(
+    prisma,
+    account.user_id,
+    account.account_type,
+  );
+
+  for (const limit_type of APPLICABLE_LIMITS[kind]) {
+    const limit = limits.get(limit_type);
+    if (!limit) {
+      continue;
+    }
+
+    if (limit_type === "per_transaction") {
+      if (amount.gt(limit.amount)) {
+        return {
+          ok: false,
+          limit_type,
+          limit: limit.amount,
+          remaining: limit.amount,
+          resets_at: null,
+          error: `${LIMIT_LABELS[limit_type]} exceeded. The most you can move in one transaction is $${limit.amount.toFixed(2)}.`,
+        };
+      }
+      continue;
+    }
+
+    const used = await getDailyUsage(prisma, account.id, limit_type, now);
+    const remaining = Decimal.max(limit.amount.sub(used), 0);
+    if (amount.gt(remaining)) {
+      return {
+        ok: false,
+        limit_type,
+        limit: limit.amount,
+        remaining,
+        resets_at: getLimitDay(now).end,
+        error: `${LIMIT_LABELS[limit_type]} exceeded. $${remaining.toFixed(2)} of $${limit.amount.toFixed(2)} remaining today.`,
+      };
+    }
+  }
+
+  return { ok: true };
+}
+
+/**
+ * 403 response for a transaction denied by a limit, with the remaining allowance.
+ */
+export function limitExceededResponse(
+  check: Extract<LimitCheck, { ok: false }>,
+) {
+  return json(403, {
+    error: `Forbidden: ${check.error}`,
+    limit_type: check.limit_type,
+    limit: Money.from(check.limit),
+    remaining: Money.from(check.remaining),
+    resets_at: check.resets_at,
+  });
+}
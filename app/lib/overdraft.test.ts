@@ -0,0 +1,252 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  sweepOverdraftProtection,
+  sweepOverdraftProtectionUndoably,
+  validateOverdraftLink,
+} from "./overdraft";
+import { postTransfer } from "./ledger";
+
+const checking = {
+  id: 1,
+  user_id: 10,
+  account_type: "checking" as const,
+  is_active: true,
+};
+const savings = {
+  id: 2,
+  user_id: 10,
+  account_type: "savings" as const,
+  is_active: true,
+};
+
+function createMockTx(account: Record<string, unknown> | null, debitCount = 1) {
+  return {
+    internalAccount: {
+      findUnique: vi.fn().mockResolvedValue(account),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: debitCount }),
+    },
+    journalEntry: {
+      create: vi.fn().mockResolvedValue({ id: 9 }),
+    },
+    transaction: {
+      create: vi.fn().mockResolvedValue({}),
+    },
+  };
+}
+
+function protectedAccount(available: number, savingsAvailable: number) {
+  return {
+    id: 1,
+    available_balance: new Decimal(available),
+    overdraft_protection_account: {
+      id: 2,
+      is_active: true,
+      available_balance: new Decimal(savingsAvailable),
+    },
+  };
+}
+
+// Checking (1) protected by savings (2), with balances that savepoints roll back. Checking's available balance has
+// dropped to `available` since it was read as `read_available`, as if a concurrent debit just committed.
+function createLedgerTx(read_available: number, available: number) {
+  let balances: Record<number, Decimal> = {
+    1: new Decimal(available),
+    2: new Decimal(500),
+  };
+  let savepoint = balances;
+  const move = (
+    id: number,
+    change: { increment?: Decimal; decrement?: Decimal },
+  ) => {
+    balances = {
+      ...balances,
+      [id]: change.increment
+        ? balances[id].add(change.increment)
+        : balances[id].sub(change.decrement!),
+    };
+  };
+  return {
+    balance: (id: number) => balances[id].toString(),
+    internalAccount: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 1,
+        available_balance: new Decimal(read_available),
+        overdraft_protection_account: {
+          id: 2,
+          is_active: true,
+          available_balance: new Decimal(500),
+        },
+      }),
+      update: vi.fn().mockImplementation(async ({ where, data }) => {
+        move(where.id, data.available_balance);
+      }),
+      updateMany: vi.fn().mockImplementation(async ({ where, data }) => {
+        if (balances[where.id].lt(where.available_balance.gte)) {
+          return { count: 0 };
+        }
+        move(where.id, data.available_balance);
+        return { count: 1 };
+      }),
+    },
+    journalEntry: { create: vi.fn().mockResolvedValue({ id: 9 }) },
+    transaction: { create: vi.fn().mockResolvedValue({}) },
+    $executeRaw: vi.fn().mockImplementation(async (sql: string[]) => {
+      if (sql[0].startsWith("SAVEPOINT")) {
+        savepoint = balances;
+      } else if (sql[0].startsWith("ROLLBACK TO SAVEPOINT")) {
+        balances = savepoint;
+      }
+      return 0;
+    }),
+  };
+}
+
+describe("Overdraft protection", () => {
+  describe("validateOverdraftLink", () => {
+    it("should allow a savings account to protect the same user's checking account", () => {
+      expect(validateOverdraftLink(checking, savings)).toBeNull();
+    });
+
+    it("should reject links between the wrong account types", () => {
+      expect(validateOverdraftLink(savings, savings)).toMatch(/checking/);
+      expect(validateOverdraftLink(checking, checking)).toMatch(/savings/);
+    });
+
+    it("should reject another user's savings account", () => {
+      expect(
+        validateOverdraftLink(checking, { ...savings, user_id: 11 }),
+      ).toMatch(/same user/);
+    });
+
+    it("should reject inactive accounts", () => {
+      expect(
+        validateOverdraftLink(checking, { ...savings, is_active: false }),
+      ).toMatch(/active/);
+    });
+  });
+
+  describe("sweepOverdraftProtection", () => {
+    it("should sweep the shortfall from savings as an internal transfer", async () => {
+      const tx = createMockTx(protectedAccount(30, 500));
+      const now = new Date("2025-12-04T12:00:00Z");
+
+      const result = await sweepOverdraftProtection(
+        tx,
+        1,
+        new Decimal(100),
+        now,
+      );
+
+      expect(result?.amount.toString()).toBe("70");
+      expect(result?.journal_entry_id).toBe(9);
+      // Savings is debited with a guard, checking is credited
+      expect(tx.internalAccount.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: 2 }),
+        }),
+      );
+      expect(tx.transaction.create).toHaveBeenCalledTimes(2);
+      expect(tx.transaction.create.mock.calls[0][0].data).toMatchObject({
+        internal_account_id: 2,
+        direction: "outbound",
+        status: "approved",
+        posted_at: now,
+        journal_entry_id: 9,
+      });
+      expect(
+        tx.transaction.create.mock.calls[0][0].data.amount.toString(),
+      ).toBe("-70");
+      expect(tx.transaction.create.mock.calls[1][0].data).toMatchObject({
+        internal_account_id: 1,
+        direction: "inbound",
+        transaction_type: "internal_transfer",
+      });
+    });
+
+    it("should not sweep when the account already covers the amount", async () => {
+      const tx = createMockTx(protectedAccount(150, 500));
+
+      const result = await sweepOverdraftProtection(tx, 1, new Decimal(100));
+
+      expect(result).toBeNull();
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should not sweep when no savings account is linked", async () => {
+      const tx = createMockTx({
+        id: 1,
+        available_balance: new Decimal(0),
+        overdraft_protection_account: null,
+      });
+
+      const result = await sweepOverdraftProtection(tx, 1, new Decimal(100));
+
+      expect(result).toBeNull();
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it("should not sweep a partial amount when savings cannot cover the shortfall", async () => {
+      const tx = createMockTx(protectedAccount(30, 50));
+
+      const result = await sweepOverdraftProtection(tx, 1, new Decimal(100));
+
+      expect(result).toBeNull();
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should not sweep when the guarded savings debit fails", async () => {
+      const tx = createMockTx(protectedAccount(30, 500), 0);
+
+      const result = await sweepOverdraftProtection(tx, 1, new Decimal(100));
+
+      expect(result).toBeNull();
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sweepOverdraftProtectionUndoably", () => {
+    it("should give savings its money back when the covered debit is still denied", async () => {
+      const tx = createLedgerTx(30, 10);
+
+      const undoSweep = await sweepOverdraftProtectionUndoably(
+        tx,
+        1,
+        new Decimal(100),
+      );
+      const debit = await postTransfer(tx, {
+        from: { internal_account_id: 1 },
+        to: { system_account: "cash_clearing" },
+        amount: new Decimal(100),
+        description: "Withdrawal",
+        guard_sufficient_funds: true,
+      });
+      expect(debit.ok).toBe(false);
+      expect(tx.balance(2)).toBe("430");
+
+      await undoSweep();
+
+      expect(tx.balance(2)).toBe("500");
+      expect(tx.balance(1)).toBe("10");
+    });
+
+    it("should keep the sweep when the covered debit goes through", async () => {
+      const tx = createLedgerTx(30, 30);
+
+      await sweepOverdraftProtectionUndoably(tx, 1, new Decimal(100));
+      const debit = await postTransfer(tx, {
+        from: { internal_account_id: 1 },
+        to: { system_account: "cash_clearing" },
+        amount: new Decimal(100),
+        description: "Withdrawal",
+        guard_sufficient_funds: true,
+      });
+
+      expect(debit.ok).toBe(true);
+      expect(tx.balance(2)).toBe("430");
+      expect(tx.balance(1)).toBe("0");
+      expect(tx.$executeRaw).toHaveBeenCalledOnce();
+    });
+  });
+});
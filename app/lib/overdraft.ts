@@ -0,0 +1,148 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { postTransfer } from "./ledger";
+
+/* ============================================================================================================================
+   OVERDRAFT PROTECTION
+   ----------------------------------------------------------------------------------------------------------------------------
+   A checking account can be linked to one of the same customer's savings accounts. When a debit would exceed the
+   checking account's available balance, the shortfall is swept in from savings first, in the same database
+   transaction as the debit. The sweep is an ordinary internal transfer (two approved transactions sharing one journal
+   entry) so it shows up in both accounts' history and can be reversed like any other transfer.
+
+   A sweep must not outlive a debit that is denied anyway. A route that owns its transaction throws to roll both back;
+   a scheduled run, which has to commit the denial it records, sweeps under a savepoint and rolls back to it instead.
+   ============================================================================================================================ */
+
+type LinkableAccount = {
+  id: number;
+  user_id: number;
+  account_type: "checking" | "savings";
+  is_active: boolean;
+};
+
+/**
+ * Check that `savings` may protect `checking`.
+ * @returns An error message, or null if the link is allowed
+ */
+export function validateOverdraftLink(
+  checking: LinkableAccount,
+  savings: LinkableAccount,
+): string | null {
+  if (checking.account_type !== "checking") {
+    return "Overdraft protection can only be added to a checking account";
+  }
+  if (savings.account_type !== "savings") {
+    return "Overdraft protection must come from a savings account";
+  }
+  if (checking.user_id !== savings.user_id) {
+    return "Overdraft protection account must belong to the same user";
+  }
+  if (!checking.is_active || !savings.is_active) {
+    return "Both accounts must be active";
+  }
+  return null;
+}
+
+/**
+ * If `amount` exceeds the account's available balance and the account has overdraft protection, sweep the
+ * shortfall in from the linked savings account. Must be called inside a Prisma interactive transaction,
+ * before the guarded debit it is covering.
+ *
+ * Nothing is swept when the account already has enough, has no active link, or the savings account cannot
+ * cover the whole shortfall (the debit will then be denied as usual).
+ * @returns The swept amount and the sweep's journal entry, or null if no sweep happened
+ */
+export async function sweepOverdraftProtection(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  internal_account_id: number,
+  amount: Decimal,
+  now: Date = new Date(),
+): Promise<{ amount: Decimal; journal_entry_id: number } | null> {
+  const account: {
+    id: number;
+    available_balance: Decimal;
+    overdraft_protection_account: {
+      id: number;
+      is_active: boolean;
+      available_balance: Decimal;
+    } | null;
+  } | null = await tx.internalAccount.findUnique({
+    where: { id: internal_account_id },
+    select: {
+      id: true,
+      available_balance: true,
+      overdraft_protection_account: {
+        select: { id: true, is_active: true, available_balance: true },
+      },
+    },
+  });
+
+  const savings = account?.overdraft_protection_account;
+  if (!account || !savings || !savings.is_active) {
+    return null;
+  }
+
+  const shortfall = amount.sub(new Decimal(account.available_balance));
+  if (
+    shortfall.lte(0) ||
+    new Decimal(savings.available_balance).lt(shortfall)
+  ) {
+    return null;
+  }
+
+  const posting = await postTransfer(tx, {
+    from: { internal_account_id: savings.id },
+    to: { internal_account_id: account.id },
+    amount: shortfall,
+    description: "Overdraft protection sweep",
+    guard_sufficient_funds: true,
+  });
+  if (!posting.ok) {
+    return null;
+  }
+
+  await tx.transaction.create({
+    data: {
+      internal_account_id: savings.id,
+      amount: shortfall.neg(),
+      transaction_type: "internal_transfer",
+      direction: "outbound",
+      status: "approved",
+      posted_at: now,
+      journal_entry_id: posting.journal_entry.id,
+    },
+  });
+  await tx.transaction.create({
+    data: {
+      internal_account_id: account.id,
+      amount: shortfall,
+      transaction_type: "internal_transfer",
+      direction: "inbound",
+      status: "approved",
+      posted_at: now,
+      journal_entry_id: posting.journal_entry.id,
+    },
+  });
+
+  return { amount: shortfall, journal_entry_id: posting.journal_entry.id };
+}
+
+/**
+ * Sweep overdraft protection for a debit whose denial is recorded in the same transaction, such as a scheduled run.
+ * Sets a savepoint first; the returned function rolls back to it when the debit is denied, undoing the sweep along
+ * with everything written for the debit since. Must be called inside a Prisma interactive transaction.
+ */
+export async function sweepOverdraftProtectionUndoably(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  internal_account_id: number,
+  amount: Decimal,
+  now: Date = new Date(),
+): Promise<() => Promise<void>> {
+  await tx.$executeRaw`SAVEPOINT overdraft_protection_sweep`;
+  await sweepOverdraftProtection(tx, internal_account_id, amount, now);
+  return async () => {
+    await tx.$executeRaw`ROLLBACK TO SAVEPOINT overdraft_protection_sweep`;
+  };
+}
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  authenticatePartnerRequest,
+  checkPartnerLimits,
+  generatePartnerSecret,
+  signPartnerRequest,
+} from "./partner-banks";
+
+const NOW = new Date("2025-12-18T15:00:00Z");
+const TIMESTAMP = String(NOW.getTime() / 1000);
+const NONCE = "0f8c1d2e3a4b5c6d";
+const BODY = JSON.stringify({ requested_amount: "150.00" });
+
+const partner = {
+  id: 3,
+  routing_number: "021000021",
+  signing_secret: "cs_160ps_secret",
+  per_transfer_limit: new Decimal(1000),
+  daily_limit: new Decimal(5000),
+  is_active: true,
+};
+
+function fakeTx(bank: unknown = partner, sentToday: Decimal | null = null) {
+  return {
+    partnerBank: { findUnique: vi.fn().mockResolvedValue(bank) },
+    partnerRequest: {
+      aggregate: vi.fn().mockResolvedValue({ _sum: { amount: sentToday } }),
+    },
+    $queryRaw: vi.fn().mockResolvedValue([]),
+  };
+}
+
+function signedHeaders(
+  overrides: Record<string, string> = {},
+  secret = partner.signing_secret,
+) {
+  const timestamp = overrides["X-Partner-Timestamp"] ?? TIMESTAMP;
+  const nonce = overrides["X-Partner-Nonce"] ?? NONCE;
+  return new Headers({
+    "X-Partner-Id": "3",
+    "X-Partner-Timestamp": timestamp,
+    "X-Partner-Nonce": nonce,
+    "X-Partner-Signature": signPartnerRequest(secret, timestamp, nonce, BODY),
+    ...overrides,
+  });
+}
+
+describe("generatePartnerSecret", () => {
+  it("generates a different secret each time", () => {
+    const secret = generatePartnerSecret();
+
+    expect(secret).toMatch(/^cs_160ps_[0-9a-f]{64}$/);
+    expect(generatePartnerSecret()).not.toBe(secret);
+  });
+});
+
+describe("authenticatePartnerRequest", () => {
+  it("accepts a request signed by an active partner", async () => {
+    const tx = fakeTx();
+
+    const auth = await authenticatePartnerRequest(
+      tx,
+      signedHeaders(),
+      BODY,
+      NOW,
+    );
+
+    expect(auth).toEqual({
+      ok: true,
+      partner,
+      nonce: NONCE,
+      signed_at: NOW,
+    });
+    expect(tx.partnerBank.findUnique).toHaveBeenCalledWith({
+      where: { id: 3 },
+    });
+  });
+
+  it("requires every signature header", async () => {
+    const headers = signedHeaders();
+    headers.delete("X-Partner-Nonce");
+
+    const auth = await authenticatePartnerRequest(fakeTx(), headers, BODY, NOW);
+
+    expect(auth).toMatchObject({
+      ok: false,
+      status: 401,
+      error: "Partner signature headers are required",
+      partner_bank_id: null,
+    });
+  });
+
+  it("rejects an unknown partner", async () => {
+    const auth = await authenticatePartnerRequest(
+      fakeTx(null),
+      signedHeaders(),
+      BODY,
+      NOW,
+    );
+
+    expect(auth).toMatchObject({ ok: false, error: "Unknown partner" });
+  });
+
+  it("rejects a timestamp more than five minutes off", async () => {
+    const stale = String(NOW.getTime() / 1000 - 301);
+
+    const auth = await authenticatePartnerRequest(
+      fakeTx(),
+      signedHeaders({ "X-Partner-Timestamp": stale }),
+      BODY,
+      NOW,
+    );
+
+    expect(auth).toMatchObject({
+      ok: false,
+      status: 401,
+      error: "Request timestamp is outside the allowed window",
+      partner_bank_id: 3,
+    });
+  });
+
+  it("rejects a signature made with another secret", async () => {
+    const auth = await authenticatePartnerRequest(
+      fakeTx(),
+      signedHeaders({}, "cs_160ps_other"),
+      BODY,
+      NOW,
+    );
+
+    expect(auth).toMatchObject({
+      ok: false,
+      status: 401,
+      error: "Invalid signature",
+    });
+  });
+
+  it("rejects a body that is not the one signed", async () => {
+    const auth = await authenticatePartnerRequest(
+      fakeTx(),
+      signedHeaders(),
+      JSON.stringify({ requested_amount: "15000.00" }),
+      NOW,
+    );
+
+    expect(auth).toMatchObject({ ok: false, error: "Invalid signature" });
+  });
+
+  it("rejects a nonce that is too short", async () => {
+    const auth = await authenticatePartnerRequest(
+      fakeTx(),
+      signedHeaders({ "X-Partner-Nonce": "abc" }),
+      BODY,
+      NOW,
+    );
+
+    expect(auth).toMatchObject({ ok: false, error: "Invalid nonce" });
+  });
+
+  it("rejects a suspended partner", async () => {
+    const auth = await authenticatePartnerRequest(
+      fakeTx({ ...partner, is_active: false }),
+      signedHeaders(),
+      BODY,
+      NOW,
+    );
+
+    expect(auth).toMatchObject({
+      ok: false,
+      status: 403,
+      error: "Partner is inactive",
+    });
+  });
+});
+
+describe("checkPartnerLimits", () => {
+  it("allows a credit within both limits", async () => {
+    const tx = fakeTx(partner, new Decimal(4000));
+
+    expect(
+      await checkPartnerLimits(tx, partner, new Decimal(1000), NOW),
+    ).toEqual({ ok: true });
+    expect(tx.partnerRequest.aggregate).toHaveBeenCalledWith({
+      where: {
+        partner_bank_id: 3,
+        status: "accepted",
+        received_at: {
+          gte: new Date("2025-12-18T00:00:00Z"),
+          lt: new Date("2025-12-19T00:00:00Z"),
+        },
+      },
+      _sum: { amount: true },
+    });
+  });
+
+  it("locks the partner before adding up what it sent today", async () => {
+    const tx = fakeTx();
+
+    await checkPartnerLimits(tx, partner, new Decimal(1000), NOW);
+
+    const [sql, id] = tx.$queryRaw.mock.calls[0];
+    expect(sql.join("?")).toBe(
+      "SELECT id FROM partner_banks WHERE id = ? FOR UPDATE",
+    );
+    expect(id).toBe(3);
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      tx.partnerRequest.aggregate.mock.invocationCallOrder[0],
+    );
+  });
+
+  it("refuses a credit over the per-transfer limit", async () => {
+    const check = await checkPartnerLimits(
+      fakeTx(),
+      partner,
+      new Decimal("1000.01"),
+      NOW,
+    );
+
+    expect(check).toMatchObject({
+      ok: false,
+      error: "Amount exceeds the partner's per-transfer limit",
+    });
+  });
+
+  it("refuses a credit that would pass the daily limit", async () => {
+    const check = await checkPartnerLimits(
+      fakeTx(partner, new Decimal(4500)),
+      partner,
+      new Decimal(600),
+      NOW,
+    );
+
+    expect(check).toEqual({
+      ok: false,
+      error: "Amount exceeds the partner's daily limit",
+      remaining: new Decimal(500),
+    });
+  });
+});
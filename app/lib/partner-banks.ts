@@ -0,0 +1,203 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { Decimal } from "@prisma/client/runtime/library";
+import { getLimitDay } from "./limits";
+
+/* ============================================================================================================================
+   PARTNER BANKS
+   ----------------------------------------------------------------------------------------------------------------------------
+   Registered partner banks can credit our customers in real time through POST /api/transfers/inbound instead of waiting
+   for an ACH file. Each partner has a signing secret a manager issues, and signs every request with it:
+
+     X-Partner-Id         the partner's id
+     X-Partner-Timestamp  Unix time in seconds when the request was signed
+     X-Partner-Nonce      16-64 letters, digits, "-" or "_", never reused
+     X-Partner-Signature  hex HMAC-SHA256 of "<timestamp>.<nonce>.<body>" keyed with the secret
+
+   A request is refused if its timestamp is more than five minutes off, or if the partner has already sent its nonce. The
+   nonce is claimed by the request's audit row (unique per partner), in the same database transaction that posts the
+   credit, so two copies of one request can never both post. Every request, accepted or not, leaves an audit row.
+
+   A partner can only send credits from its own routing number, no larger than its per-transfer limit, and no more in a
+   UTC day than its daily limit. The daily limit is checked under a lock on the partner's row, so its concurrent
+   requests are checked and posted one at a time.
+   ============================================================================================================================ */
+
+export const PARTNER_HEADERS = {
+  partner_id: "X-Partner-Id",
+  timestamp: "X-Partner-Timestamp",
+  nonce: "X-Partner-Nonce",
+  signature: "X-Partner-Signature",
+} as const;
+
+// How far a request's timestamp may be from our clock
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+type PartnerBank = {
+  id: number;
+  routing_number: string;
+  signing_secret: string;
+  per_transfer_limit: Decimal;
+  daily_limit: Decimal;
+  is_active: boolean;
+};
+
+export type PartnerAuthResult =
+  | { ok: true; partner: PartnerBank; nonce: string; signed_at: Date }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      partner_bank_id: number | null; // Set when the request named a registered partner
+      signed_at: Date | null;
+    };
+
+export type PartnerLimitCheck =
+  | { ok: true }
+  | { ok: false; error: string; remaining: Decimal };
+
+/**
+ * A new signing secret for a partner bank. Shown to the manager once; the partner must store it.
+ */
+export function generatePartnerSecret(): string {
+  return `cs_160ps_${randomBytes(32).toString("hex")}`;
+}
+
+/**
+ * The signature a partner sends in X-Partner-Signature for a request.
+ */
+export function signPartnerRequest(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  body: string,
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * Check that a request to the partner channel was signed by an active partner bank within the allowed window.
+ * Does not check the nonce has not been used before; that happens when the request's audit row claims it.
+ */
+export async function authenticatePartnerRequest(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  headers: Headers,
+  body: string,
+  now: Date = new Date(),
+): Promise<PartnerAuthResult> {
+  const partnerId = headers.get(PARTNER_HEADERS.partner_id);
+  const timestamp = headers.get(PARTNER_HEADERS.timestamp);
+  const nonce = headers.get(PARTNER_HEADERS.nonce);
+  const signature = headers.get(PARTNER_HEADERS.signature);
+
+  const reject = (
+    status: number,
+    error: string,
+    partner_bank_id: number | null = null,
+    signed_at: Date | null = null,
+  ): PartnerAuthResult => ({
+    ok: false,
+    status,
+    error,
+    partner_bank_id,
+    signed_at,
+  });
+
+  if (!partnerId || !timestamp || !nonce || !signature) {
+    return reject(401, "Partner signature headers are required");
+  }
+
+  const partner: PartnerBank | null = /^\d+$/.test(partnerId)
+    ? await tx.partnerBank.findUnique({ where: { id: Number(partnerId) } })
+    : null;
+  if (!partner) {
+    return reject(401, "Unknown partner");
+  }
+
+  const signed_at = /^\d+$/.test(timestamp)
+    ? new Date(Number(timestamp) * 1000)
+    : null;
+  if (!signed_at) {
+    return reject(401, "Invalid request timestamp", partner.id);
+  }
+  if (Math.abs(now.getTime() - signed_at.getTime()) > SIGNATURE_TOLERANCE_MS) {
+    return reject(
+      401,
+      "Request timestamp is outside the allowed window",
+      partner.id,
+      signed_at,
+    );
+  }
+
+  if (!NONCE_PATTERN.test(nonce)) {
+    return reject(401, "Invalid nonce", partner.id, signed_at);
+  }
+
+  const expected = Buffer.from(
+    signPartnerRequest(partner.signing_secret, timestamp, nonce, body),
+    "hex",
+  );
+  const received = Buffer.from(signature, "hex");
+  if (
+    received.length !== expected.length ||
+    !timingSafeEqual(received, expected)
+  ) {
+    return reject(401, "Invalid signature", partner.id, signed_at);
+  }
+
+  // Checked after the signature so the partner's status is only revealed to the partner
+  if (!partner.is_active) {
+    return reject(403, "Partner is inactive", partner.id, signed_at);
+  }
+
+  return { ok: true, partner, nonce, signed_at };
+}
+
+/**
+ * Check a credit against the partner's per-transfer limit and what it has already sent today, locking the partner's
+ * row until the transaction ends. Must be called inside the Prisma interactive transaction that posts the credit.
+ */
+export async function checkPartnerLimits(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  partner: PartnerBank,
+  amount: Decimal,
+  now: Date = new Date(),
+): Promise<PartnerLimitCheck> {
+  const perTransfer = new Decimal(partner.per_transfer_limit);
+  if (amount.gt(perTransfer)) {
+    return {
+      ok: false,
+      error: "Amount exceeds the partner's per-transfer limit",
+      remaining: perTransfer,
+    };
+  }
+
+  await tx.$queryRaw`SELECT id FROM partner_banks WHERE id = ${partner.id} FOR UPDATE`;
+
+  const { start, end } = getLimitDay(now);
+  const sent = await tx.partnerRequest.aggregate({
+    where: {
+      partner_bank_id: partner.id,
+      status: "accepted",
+      received_at: { gte: start, lt: end },
+    },
+    _sum: { amount: true },
+  });
+  const remaining = new Decimal(partner.daily_limit).minus(
+    sent._sum.amount ?? 0,
+  );
+  if (amount.gt(remaining)) {
+    return {
+      ok: false,
+      error: "Amount exceeds the partner's daily limit",
+      remaining: Decimal.max(remaining, 0),
+    };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import { reconcileBalances } from "./reconciliation";
+
+function createMockPrisma({
+  accounts,
+  transactionSums,
+  journalSums,
+}: {
+  accounts: Record<string, unknown>[];
+  transactionSums: Record<string, unknown>[];
+  journalSums: Record<string, unknown>[];
+}) {
+  return {
+    internalAccount: {
+      findMany: vi.fn().mockResolvedValue(accounts),
+    },
+    transaction: {
+      groupBy: vi.fn().mockResolvedValue(transactionSums),
+    },
+    journalLine: {
+      groupBy: vi.fn().mockResolvedValue(journalSums),
+    },
+  };
+}
+
+const account = (id: number, balance: string) => ({
+  id,
+  account_number: `0000000000000000${id}`,
+  user_id: id * 10,
+  is_active: true,
+  balance: new Decimal(balance),
+});
+
+describe("Reconciliation", () => {
+  it("should report nothing when balances, transactions and the journal agree", async () => {
+    const prisma = createMockPrisma({
+      accounts: [account(1, "150.25")],
+      transactionSums: [
+        { internal_account_id: 1, _sum: { amount: new Decimal("150.25") } },
+      ],
+      journalSums: [
+        {
+          internal_account_id: 1,
+          side: "credit",
+          _sum: { amount: new Decimal("200.25") },
+        },
+        {
+          internal_account_id: 1,
+          side: "debit",
+          _sum: { amount: new Decimal("50") },
+        },
+      ],
+    });
+
+    const report = await reconcileBalances(prisma);
+
+    expect(report.accounts_checked).toBe(1);
+    expect(report.discrepancies).toEqual([]);
+    expect(report.total_difference.toString()).toBe("0");
+    expect(prisma.transaction.groupBy).toHaveBeenCalledWith({
+      by: ["internal_account_id"],
+      where: { status: { in: ["approved", "reversed"] } },
+      _sum: { amount: true },
+    });
+  });
+
+  it("should flag an account whose stored balance drifted from its transactions", async () => {
+    const prisma = createMockPrisma({
+      accounts: [account(1, "100.00"), account(2, "99.99")],
+      transactionSums: [
+        { internal_account_id: 1, _sum: { amount: new Decimal("100") } },
+        { internal_account_id: 2, _sum: { amount: new Decimal("100") } },
+      ],
+      journalSums: [
+        {
+          internal_account_id: 1,
+          side: "credit",
+          _sum: { amount: new Decimal("100") },
+        },
+        {
+          internal_account_id: 2,
+          side: "credit",
+          _sum: { amount: new Decimal("100") },
+        },
+      ],
+    });
+
+    const report = await reconcileBalances(prisma);
+
+    expect(report.discrepancies).toHaveLength(1);
+    expect(report.discrepancies[0]).toMatchObject({
+      internal_account_id: 2,
+      user_id: 20,
+    });
+    expect(report.discrepancies[0].difference.toString()).toBe("-0.01");
+    expect(report.discrepancies[0].journal_balance.toString()).toBe("100");
+    expect(report.total_difference.toString()).toBe("-0.01");
+  });
+
+  it("should flag an account that has a balance but no posted transactions", async () => {
+    const prisma = createMockPrisma({
+      accounts: [account(3, "25")],
+      transactionSums: [],
+      journalSums: [],
+    });
+
+    const report = await reconcileBalances(prisma);
+
+    expect(report.discrepancies).toHaveLength(1);
+    expect(report.discrepancies[0].transaction_balance.toString()).toBe("0");
+    expect(report.discrepancies[0].difference.toString()).toBe("25");
+  });
+
+  it("should flag an account whose journal disagrees even when transactions match", async () => {
+    const prisma = createMockPrisma({
+      accounts: [account(4, "10")],
+      transactionSums: [
+        { internal_account_id: 4, _sum: { amount: new Decimal("10") } },
+      ],
+      journalSums: [],
+    });
+
+    const report = await reconcileBalances(prisma);
+
+    expect(report.discrepancies).toHaveLength(1);
+    expect(report.discrepancies[0].difference.toString()).toBe("0");
+    expect(report.total_difference.toString()).toBe("0");
+  });
+});
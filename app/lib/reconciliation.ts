@@ -0,0 +1,138 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type { EntrySide, TransactionStatusEnum } from "@prisma/client";
+
+/* ============================================================================================================================
+   BALANCE RECONCILIATION
+   ----------------------------------------------------------------------------------------------------------------------------
+   Recomputes every InternalAccount.balance from the Transaction rows that reached the ledger and flags accounts where
+   the stored balance disagrees. Approved transactions are posted; reversed transactions were posted too and stay in
+   the sum because their approved contra transaction offsets them. Pending, denied and returned transactions never
+   moved the balance.
+
+   The journal balance (credits minus debits on the account's journal lines) is reported alongside so a discrepancy
+   can be traced to the side that drifted: a transaction row that disagrees with the journal, or a balance that was
+   written outside postJournalEntry.
+   ============================================================================================================================ */
+
+export const POSTED_STATUSES: TransactionStatusEnum[] = [
+  "approved",
+  "reversed",
+];
+
+export type AccountReconciliation = {
+  internal_account_id: number;
+  account_number: string;
+  user_id: number;
+  is_active: boolean;
+  stored_balance: Decimal;
+  transaction_balance: Decimal; // Sum of posted Transaction.amount
+  journal_balance: Decimal; // Credits minus debits on the account's journal lines
+  difference: Decimal; // stored_balance - transaction_balance
+};
+
+export type ReconciliationReport = {
+  generated_at: Date;
+  accounts_checked: number;
+  discrepancies: AccountReconciliation[];
+  total_difference: Decimal;
+};
+
+/**
+ * Recompute every account's balance from its posted transactions and report the accounts that disagree
+ * with the stored balance or the journal. Read-only; nothing is corrected.
+ */
+export async function reconcileBalances(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  now: Date = new Date(),
+): Promise<ReconciliationReport> {
+  const accounts: {
+    id: number;
+    account_number: string;
+    user_id: number;
+    is_active: boolean;
+    balance: Decimal;
+  }[] = await prisma.internalAccount.findMany({
+    select: {
+      id: true,
+      account_number: true,
+      user_id: true,
+      is_active: true,
+      balance: true,
+    },
+    orderBy: { id: "asc" },
+  });
+
+  const transactionSums: {
+    internal_account_id: number;
+    _sum: { amount: Decimal | null };
+  }[] = await prisma.transaction.groupBy({
+    by: ["internal_account_id"],
+    where: { status: { in: POSTED_STATUSES } },
+    _sum: { amount: true },
+  });
+
+  const journalSums: {
+    internal_account_id: number | null;
+    side: EntrySide;
+    _sum: { amount: Decimal | null };
+  }[] = await prisma.journalLine.groupBy({
+    by: ["internal_account_id", "side"],
+    where: { internal_account_id: { not: null } },
+    _sum: { amount: true },
+  });
+
+  const transactionBalances = new Map<number, Decimal>();
+  for (const row of transactionSums) {
+    transactionBalances.set(
+      row.internal_account_id,
+      new Decimal(row._sum.amount ?? 0),
+    );
+  }
+
+  const journalBalances = new Map<number, Decimal>();
+  for (const row of journalSums) {
+    if (row.internal_account_id === null) continue;
+    const current =
+      journalBalances.get(row.internal_account_id) ?? new Decimal(0);
+    const amount = new Decimal(row._sum.amount ?? 0);
+    journalBalances.set(
+      row.internal_account_id,
+      row.side === "credit" ? current.add(amount) : current.sub(amount),
+    );
+  }
+
+  const discrepancies: AccountReconciliation[] = [];
+  let total_difference = new Decimal(0);
+
+  for (const account of accounts) {
+    const stored_balance = new Decimal(account.balance);
+    const transaction_balance =
+      transactionBalances.get(account.id) ?? new Decimal(0);
+    const journal_balance = journalBalances.get(account.id) ?? new Decimal(0);
+    const difference = stored_balance.sub(transaction_balance);
+
+    if (difference.isZero() && stored_balance.eq(journal_balance)) {
+      continue;
+    }
+
+    discrepancies.push({
+      internal_account_id: account.id,
+      account_number: account.account_number,
+      user_id: account.user_id,
+      is_active: account.is_active,
+      stored_balance,
+      transaction_balance,
+      journal_balance,
+      difference,
+    });
+    total_difference = total_difference.add(difference);
+  }
+
+  return {
+    generated_at: now,
+    accounts_checked: accounts.length,
+    discrepancies,
+    total_difference,
+  };
+}
@@ -0,0 +1,280 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import { reverseTransaction } from "./reversals";
+
+// Internal transfer of $40 from account 1 (user 10) to account 2 (user 20)
+const outboundLeg = {
+  id: 100,
+  internal_account_id: 1,
+  amount: new Decimal(-40),
+  status: "approved",
+  transaction_type: "internal_transfer",
+  direction: "outbound",
+  journal_entry_id: 7,
+  reversal_of_id: null,
+  transfer_rule_id: null,
+  bill_pay_rule_id: null,
+  external_routing_number: null,
+  external_account_number: null,
+  external_nickname: null,
+  internal_account: { user_id: 10 },
+};
+
+const inboundLeg = {
+  ...outboundLeg,
+  id: 101,
+  internal_account_id: 2,
+  amount: new Decimal(40),
+  direction: "inbound",
+  internal_account: { user_id: 20 },
+};
+
+function createMockTx(
+  transaction: Record<string, unknown> | null,
+  siblings: Record<string, unknown>[] = [outboundLeg, inboundLeg],
+) {
+  let nextId = 200;
+  return {
+    transaction: {
+      findUnique: vi.fn().mockResolvedValue(transaction),
+      findMany: vi.fn().mockResolvedValue(siblings),
+      updateMany: vi.fn().mockResolvedValue({ count: siblings.length }),
+      create: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: nextId++, ...data })),
+    },
+    journalLine: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          internal_account_id: 1,
+          system_account: null,
+          side: "debit",
+          amount: new Decimal(40),
+        },
+        {
+          internal_account_id: 2,
+          system_account: null,
+          side: "credit",
+          amount: new Decimal(40),
+        },
+      ]),
+    },
+    internalAccount: {
+      findUnique: vi.fn(),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    fundsHold: {
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    journalEntry: {
+      create: vi.fn().mockResolvedValue({ id: 8 }),
+    },
+  };
+}
+
+describe("Reversals", () => {
+  it("should reverse both legs of an internal transfer with a contra entry", async () => {
+    const tx = createMockTx(outboundLeg);
+    const now = new Date("2025-12-03T12:00:00Z");
+
+    const result = await reverseTransaction(
+      tx,
+      { transaction_id: 100, reason: "posted_in_error" },
+      now,
+    );
+
+    expect(result.ok).toBe(true);
+
+    // The recipient gives the money back (guarded), the sender gets it back
+    expect(tx.internalAccount.updateMany).toHaveBeenCalledWith({
+      where: { id: 2, available_balance: { gte: new Decimal(40) } },
+      data: {
+        balance: { decrement: new Decimal(40) },
+        available_balance: { decrement: new Decimal(40) },
+      },
+    });
+    expect(tx.internalAccount.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: {
+        balance: { increment: new Decimal(40) },
+        available_balance: { increment: new Decimal(40) },
+      },
+    });
+
+    expect(tx.transaction.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [100, 101] }, status: "approved" },
+      data: { status: "reversed" },
+    });
+
+    expect(tx.transaction.create).toHaveBeenCalledTimes(2);
+    expect(tx.transaction.create.mock.calls[0][0].data).toMatchObject({
+      internal_account_id: 1,
+      amount: new Decimal(40),
+      direction: "inbound",
+      status: "approved",
+      posted_at: now,
+      journal_entry_id: 8,
+      reversal_of_id: 100,
+      reversal_reason: "posted_in_error",
+    });
+    expect(tx.transaction.create.mock.calls[1][0].data).toMatchObject({
+      internal_account_id: 2,
+      amount: new Decimal(-40),
+      direction: "outbound",
+      reversal_of_id: 101,
+    });
+  });
+
+  it("should refuse a transaction that was already reversed", async () => {
+    const tx = createMockTx({ ...outboundLeg, status: "reversed" });
+
+    const result = await reverseTransaction(tx, {
+      transaction_id: 100,
+      reason: "duplicate",
+    });
+
+    expect(result).toMatchObject({ ok: false, reason: "already_reversed" });
+    expect(tx.journalEntry.create).not.toHaveBeenCalled();
+  });
+
+  it("should refuse to reverse a contra transaction", async () => {
+    const tx = createMockTx({ ...outboundLeg, reversal_of_id: 99 });
+
+    const result = await reverseTransaction(tx, {
+      transaction_id: 100,
+      reason: "duplicate",
+    });
+
+    expect(result).toMatchObject({ ok: false, reason: "is_reversal" });
+  });
+
+  it("should refuse pending transactions", async () => {
+    const tx = createMockTx({
+      ...outboundLeg,
+      status: "pending",
+      journal_entry_id: null,
+    });
+
+    const result = await reverseTransaction(tx, {
+      transaction_id: 100,
+      reason: "other",
+    });
+
+    expect(result).toMatchObject({ ok: false, reason: "not_posted" });
+  });
+
+  it("should refuse partial reversals", async () => {
+    const tx = createMockTx(outboundLeg);
+
+    const result = await reverseTransaction(tx, {
+      transaction_id: 100,
+      reason: "customer_dispute",
+      amount: new Decimal(15),
+    });
+
+    expect(result).toMatchObject({ ok: false, reason: "partial_reversal" });
+    expect(tx.journalEntry.create).not.toHaveBeenCalled();
+  });
+
+  it("should write nothing when the recipient no longer has the funds", async () => {
+    const tx = createMockTx(outboundLeg);
+    tx.internalAccount.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await reverseTransaction(tx, {
+      transaction_id: 100,
+      reason: "fraud",
+    });
+
+    expect(result).toMatchObject({ ok: false, reason: "insufficient_funds" });
+    expect(tx.transaction.updateMany).not.toHaveBeenCalled();
+    expect(tx.transaction.create).not.toHaveBeenCalled();
+  });
+
+  describe("check deposit still on hold", () => {
+    // $500 check deposit into account 2, $275 of it still held
+    const checkDeposit = {
+      ...inboundLeg,
+      amount: new Decimal(500),
+      transaction_type: "deposit",
+    };
+
+    function createCheckDepositTx(available_balance: number) {
+      const tx = createMockTx(checkDeposit, [checkDeposit]);
+      tx.journalLine.findMany.mockResolvedValue([
+        {
+          internal_account_id: null,
+          system_account: "check_clearing",
+          side: "debit",
+          amount: new Decimal(500),
+        },
+        {
+          internal_account_id: 2,
+          system_account: null,
+          side: "credit",
+          amount: new Decimal(500),
+        },
+      ]);
+      tx.fundsHold.findMany.mockResolvedValue([
+        { id: 5, internal_account_id: 2, amount: new Decimal(275) },
+      ]);
+      tx.internalAccount.findUnique.mockResolvedValue({
+        available_balance: new Decimal(available_balance),
+      });
+      return tx;
+    }
+
+    it("should release the holds and reverse the deposit", async () => {
+      const tx = createCheckDepositTx(225);
+
+      const result = await reverseTransaction(tx, {
+        transaction_id: 101,
+        reason: "fraud",
+      });
+
+      expect(result.ok).toBe(true);
+      expect(tx.fundsHold.findMany).toHaveBeenCalledWith({
+        where: { transaction_id: { in: [101] }, status: "active" },
+      });
+      expect(tx.fundsHold.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, status: "active" },
+        data: { status: "released", released_at: expect.any(Date) },
+      });
+      expect(tx.internalAccount.updateMany).toHaveBeenCalledWith({
+        where: { id: 2, available_balance: { gte: new Decimal(500) } },
+        data: {
+          balance: { decrement: new Decimal(500) },
+          available_balance: { decrement: new Decimal(500) },
+        },
+      });
+    });
+
+    it("should refuse without releasing anything when the available part was spent", async () => {
+      const tx = createCheckDepositTx(100);
+
+      const result = await reverseTransaction(tx, {
+        transaction_id: 101,
+        reason: "fraud",
+      });
+
+      expect(result).toMatchObject({
+        ok: false,
+        reason: "insufficient_funds",
+        error:
+          "Account 2 does not have enough available funds to reverse this transaction",
+      });
+      expect(tx.fundsHold.updateMany).not.toHaveBeenCalled();
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should abort when a concurrent reversal claimed the legs first", async () => {
+    const tx = createMockTx(outboundLeg);
+    tx.transaction.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      reverseTransaction(tx, { transaction_id: 100, reason: "duplicate" }),
+    ).rejects.toThrow("reversed by another request");
+  });
+});
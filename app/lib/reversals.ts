@@ -0,0 +1,256 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type { ReversalReasonEnum } from "@prisma/client";
+import { postJournalEntry, type JournalLineInput } from "./ledger";
+import { releaseHold } from "./holds";
+
+/* ============================================================================================================================
+   REVERSALS
+   ----------------------------------------------------------------------------------------------------------------------------
+   A manager undoes a posted transaction by posting a contra journal entry: the original entry's lines with their sides
+   swapped. Every transaction that shares the original entry (both legs of an internal transfer) is reversed together,
+   marked reversed and given a contra transaction that links back to it. Reversals are all-or-nothing; there are no
+   partial reversals, and a transaction can only be reversed once.
+   ============================================================================================================================ */
+
+export type { ReversalReasonEnum };
+
+export const REVERSAL_REASONS: ReversalReasonEnum[] = [
+  "duplicate",
+  "posted_in_error",
+  "fraud",
+  "customer_dispute",
+  "other",
+];
+
+export type ReversalFailureReason =
+  | "not_found"
+  | "not_posted"
+  | "already_reversed"
+  | "is_reversal"
+  | "not_on_ledger"
+  | "partial_reversal"
+  | "insufficient_funds";
+
+type ReversibleTransaction = {
+  id: number;
+  internal_account_id: number;
+  amount: Decimal;
+  status: string;
+  transaction_type: string;
+  direction: "inbound" | "outbound";
+  journal_entry_id: number | null;
+  reversal_of_id: number | null;
+  transfer_rule_id: number | null;
+  bill_pay_rule_id: number | null;
+  external_routing_number: string | null;
+  external_account_number: string | null;
+  external_nickname: string | null;
+  internal_account: { user_id: number };
+};
+
+export type ReversalResult =
+  | {
+      ok: true;
+      reversed: ReversibleTransaction[];
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      contra_transactions: any[];
+      journal_entry_id: number;
+    }
+  | { ok: false; reason: ReversalFailureReason; error: string };
+
+/**
+ * Reverse a posted transaction with a contra entry. Must be called inside a Prisma interactive transaction.
+ *
+ * `amount`, when given, must equal the full transaction amount; anything else is a partial reversal and is refused.
+ * Restoring funds to the payer debits the payee, so the contra entry is guarded: if the payee no longer has the
+ * money available the reversal is refused with "insufficient_funds" and nothing is written. A check deposit's
+ * availability holds come off with it, so held funds count as available for its reversal.
+ */
+export async function reverseTransaction(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  params: {
+    transaction_id: number;
+    reason: ReversalReasonEnum;
+    amount?: Decimal;
+  },
+  now: Date = new Date(),
+): Promise<ReversalResult> {
+  const transaction: ReversibleTransaction | null =
+    await tx.transaction.findUnique({
+      where: { id: params.transaction_id },
+      include: { internal_account: { select: { user_id: true } } },
+    });
+
+  if (!transaction) {
+    return { ok: false, reason: "not_found", error: "Transaction not found" };
+  }
+  if (transaction.reversal_of_id !== null) {
+    return {
+      ok: false,
+      reason: "is_reversal",
+      error: "A reversal cannot itself be reversed",
+    };
+  }
+  if (transaction.status === "reversed") {
+    return {
+      ok: false,
+      reason: "already_reversed",
+      error: "Transaction has already been reversed",
+    };
+  }
+  if (transaction.status !== "approved") {
+    return {
+      ok: false,
+      reason: "not_posted",
+      error: `Only posted transactions can be reversed (status is ${transaction.status})`,
+    };
+  }
+  if (transaction.journal_entry_id === null) {
+    return {
+      ok: false,
+      reason: "not_on_ledger",
+      error: "Transaction has no journal entry to reverse",
+    };
+  }
+  if (
+    params.amount !== undefined &&
+    !params.amount.eq(new Decimal(transaction.amount).abs())
+  ) {
+    return {
+      ok: false,
+      reason: "partial_reversal",
+      error: "Partial reversals are not supported; reverse the full amount",
+    };
+  }
+
+  // Both legs of an internal transfer share one journal entry and are reversed together
+  const siblings: ReversibleTransaction[] = await tx.transaction.findMany({
+    where: { journal_entry_id: transaction.journal_entry_id },
+    include: { internal_account: { select: { user_id: true } } },
+    orderBy: { id: "asc" },
+  });
+  if (siblings.some((sibling) => sibling.status !== "approved")) {
+    return {
+      ok: false,
+      reason: "already_reversed",
+      error: "Part of this transaction has already been reversed",
+    };
+  }
+
+  const originalLines: JournalLineInput[] = await tx.journalLine.findMany({
+    where: { journal_entry_id: transaction.journal_entry_id },
+    select: {
+      internal_account_id: true,
+      system_account: true,
+      side: true,
+      amount: true,
+    },
+    orderBy: { id: "asc" },
+  });
+
+  const insufficientFunds = (internal_account_id: number): ReversalResult => ({
+    ok: false,
+    reason: "insufficient_funds",
+    error: `Account ${internal_account_id} does not have enough available funds to reverse this transaction`,
+  });
+
+  const holds: { id: number; internal_account_id: number; amount: Decimal }[] =
+    await tx.fundsHold.findMany({
+      where: {
+        transaction_id: { in: siblings.map((sibling) => sibling.id) },
+        status: "active",
+      },
+    });
+  if (holds.length > 0) {
+    // Check before releasing anything, so a refused reversal still writes nothing
+    const account = await tx.internalAccount.findUnique({
+      where: { id: transaction.internal_account_id },
+      select: { available_balance: true },
+    });
+    const held = holds.reduce(
+      (sum, hold) => sum.plus(hold.amount),
+      new Decimal(0),
+    );
+    if (
+      new Decimal(account.available_balance)
+        .plus(held)
+        .lt(new Decimal(transaction.amount).abs())
+    ) {
+      return insufficientFunds(transaction.internal_account_id);
+    }
+    for (const hold of holds) {
+      await releaseHold(tx, hold, now);
+    }
+  }
+
+  const posting = await postJournalEntry(tx, {
+    description: `Reversal of transaction #${transaction.id} (${params.reason})`,
+    guard_sufficient_funds: true,
+    lines: originalLines.map(
+      (line) =>
+        ({
+          ...(line.internal_account_id != null
+            ? { internal_account_id: line.internal_account_id }
+            : { system_account: line.system_account }),
+          side: line.side === "debit" ? "credit" : "debit",
+          amount: new Decimal(line.amount),
+        }) as JournalLineInput,
+    ),
+  });
+
+  if (!posting.ok) {
+    if (holds.length > 0) {
+      // The balance moved after the check above; roll back the released holds with everything else
+      throw new Error(
+        `Available funds on account ${posting.internal_account_id} changed while transaction ${transaction.id} was being reversed`,
+      );
+    }
+    return insufficientFunds(posting.internal_account_id);
+  }
+
+  // Claim every leg; a concurrent reversal makes the count fall short and rolls the whole thing back
+  const claimed = await tx.transaction.updateMany({
+    where: {
+      id: { in: siblings.map((sibling) => sibling.id) },
+      status: "approved",
+    },
+    data: { status: "reversed" },
+  });
+  if (claimed.count !== siblings.length) {
+    throw new Error(
+      `Transaction ${transaction.id} was reversed by another request`,
+    );
+  }
+
+  const contra_transactions = [];
+  for (const sibling of siblings) {
+    contra_transactions.push(
+      await tx.transaction.create({
+        data: {
+          internal_account_id: sibling.internal_account_id,
+          amount: new Decimal(sibling.amount).neg(),
+          transaction_type: sibling.transaction_type,
+          direction: sibling.direction === "inbound" ? "outbound" : "inbound",
+          status: "approved" as const,
+          posted_at: now,
+          journal_entry_id: posting.journal_entry.id,
+          reversal_of_id: sibling.id,
+          reversal_reason: params.reason,
+          transfer_rule_id: sibling.transfer_rule_id,
+          bill_pay_rule_id: sibling.bill_pay_rule_id,
+          external_routing_number: sibling.external_routing_number,
+          external_account_number: sibling.external_account_number,
+          external_nickname: sibling.external_nickname,
+        },
+      }),
+    );
+  }
+
+  return {
+    ok: true,
+    reversed: siblings,
+    contra_transactions,
+    journal_entry_id: posting.journal_entry.id,
+  };
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  getBankNames,
+  loadRoutingDirectory,
+  lookupRoutingNumber,
+  parseFedAchDirectory,
+} from "./routing-directory";
+
+// A FedACH participant file record
+function record(
+  routing: string,
+  name: string,
+  city: string,
+  state: string,
+  options: { type?: string; changeDate?: string; newRouting?: string } = {},
+) {
+  return (
+    routing +
+    "O" +
+    "011000015" +
+    (options.type ?? "1") +
+    (options.changeDate ?? "000000") +
+    (options.newRouting ?? "000000000") +
+    name.padEnd(36, " ") +
+    "1 MAIN ST".padEnd(36, " ") +
+    city.padEnd(20, " ") +
+    state +
+    "94102" +
+    "0000" +
+    "4155550100" +
+    "1" +
+    "1" +
+    "     "
+  );
+}
+
+const CHASE = record("021000021", "JPMORGAN CHASE BANK, NA", "TAMPA", "FL");
+const BOFA = record(
+  "121000358",
+  "BANK OF AMERICA, N.A.",
+  "SAN FRANCISCO",
+  "CA",
+);
+const MERGED = record("122000247", "WELLS FARGO BANK", "MINNEAPOLIS", "MN", {
+  type: "2",
+  changeDate: "061024",
+  newRouting: "121000248",
+});
+
+function fakePrisma() {
+  const tx = {
+    routingDirectoryEntry: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+  };
+  return {
+    tx,
+    prisma: {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      $transaction: vi.fn(async (fn: (tx: any) => unknown) => fn(tx)),
+    },
+  };
+}
+
+describe("parseFedAchDirectory", () => {
+  it("reads each record's bank and location", () => {
+    expect(CHASE).toHaveLength(155);
+
+    const records = parseFedAchDirectory([CHASE, BOFA, ""].join("\r\n"));
+
+    expect(records).toEqual([
+      {
+        routing_number: "021000021",
+        bank_name: "JPMORGAN CHASE BANK, NA",
+        city: "TAMPA",
+        state: "FL",
+        new_routing_number: null,
+        change_date: null,
+      },
+      {
+        routing_number: "121000358",
+        bank_name: "BANK OF AMERICA, N.A.",
+        city: "SAN FRANCISCO",
+        state: "CA",
+        new_routing_number: null,
+        change_date: null,
+      },
+    ]);
+  });
+
+  it("reads the new routing number of a type 2 record", () => {
+    const [merged] = parseFedAchDirectory(MERGED);
+
+    expect(merged.new_routing_number).toBe("121000248");
+    expect(merged.change_date).toEqual(new Date("2024-06-10T00:00:00Z"));
+  });
+
+  it("keeps the last record for a repeated routing number", () => {
+    const renamed = record("021000021", "CHASE", "TAMPA", "FL");
+
+    const records = parseFedAchDirectory([CHASE, renamed].join("\n"));
+
+    expect(records).toHaveLength(1);
+    expect(records[0].bank_name).toBe("CHASE");
+  });
+
+  it("rejects a line that is not a directory record", () => {
+    expect(() =>
+      parseFedAchDirectory([CHASE, "123456789 NOT A BANK"].join("\n")),
+    ).toThrow("Line 2 is not a FedACH directory record");
+  });
+
+  it("parses the bundled directory", () => {
+    const contents = readFileSync(
+      resolve(__dirname, "../../prisma/data/FedACHdir.txt"),
+      "utf8",
+    );
+
+    const records = parseFedAchDirectory(contents);
+
+    expect(records.length).toBeGreaterThan(0);
+    expect(
+      records.find((entry) => entry.routing_number === "724722907"),
+    ).toMatchObject({ bank_name: "CS160 BANK" });
+  });
+});
+
+describe("loadRoutingDirectory", () => {
+  it("replaces the directory with the file's records", async () => {
+    const { prisma, tx } = fakePrisma();
+    const now = new Date("2025-12-17T00:00:00Z");
+
+    const count = await loadRoutingDirectory(
+      prisma,
+      [CHASE, BOFA].join("\n"),
+      now,
+    );
+
+    expect(count).toBe(2);
+    expect(tx.routingDirectoryEntry.deleteMany).toHaveBeenCalledWith({});
+    expect(tx.routingDirectoryEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          routing_number: "021000021",
+          loaded_at: now,
+        }),
+        expect.objectContaining({
+          routing_number: "121000358",
+          loaded_at: now,
+        }),
+      ],
+    });
+  });
+
+  it("leaves the directory alone when the file is empty", async () => {
+    const { prisma } = fakePrisma();
+
+    await expect(loadRoutingDirectory(prisma, "\n")).rejects.toThrow(
+      "The file has no routing numbers",
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("lookupRoutingNumber", () => {
+  function fakeTx(entry: unknown) {
+    return {
+      routingDirectoryEntry: { findUnique: vi.fn().mockResolvedValue(entry) },
+    };
+  }
+
+  it("finds the bank for a routing number in the directory", async () => {
+    const tx = fakeTx({
+      routing_number: "121000358",
+      bank_name: "BANK OF AMERICA, N.A.",
+      city: "SAN FRANCISCO",
+      state: "CA",
+      new_routing_number: null,
+    });
+
+    expect(await lookupRoutingNumber(tx, "121000358")).toEqual({
+      ok: true,
+      routing_number: "121000358",
+      bank_name: "BANK OF AMERICA, N.A.",
+      city: "SAN FRANCISCO",
+      state: "CA",
+    });
+  });
+
+  it("rejects a routing number that fails the checksum without a lookup", async () => {
+    const tx = fakeTx(null);
+
+    expect(await lookupRoutingNumber(tx, "123456789")).toEqual({
+      ok: false,
+      error: "Routing number is not valid",
+    });
+    expect(tx.routingDirectoryEntry.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("rejects a routing number that is not in the directory", async () => {
+    expect(await lookupRoutingNumber(fakeTx(null), "999999992")).toEqual({
+      ok: false,
+      error: "Routing number is not in the routing directory",
+    });
+  });
+
+  it("points a replaced routing number at its new one", async () => {
+    const tx = fakeTx({
+      routing_number: "122000247",
+      bank_name: "WELLS FARGO BANK",
+      city: "MINNEAPOLIS",
+      state: "MN",
+      new_routing_number: "121000248",
+    });
+
+    expect(await lookupRoutingNumber(tx, "122000247")).toEqual({
+      ok: false,
+      error: "Routing number has been replaced by 121000248",
+    });
+  });
+});
+
+describe("getBankNames", () => {
+  it("maps each routing number in the directory to its bank", async () => {
+    const tx = {
+      routingDirectoryEntry: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            routing_number: "021000021",
+            bank_name: "JPMORGAN CHASE BANK, NA",
+          },
+        ]),
+      },
+    };
+
+    const names = await getBankNames(tx, [
+      "021000021",
+      "021000021",
+      "999999992",
+    ]);
+
+    expect(tx.routingDirectoryEntry.findMany).toHaveBeenCalledWith({
+      where: { routing_number: { in: ["021000021", "999999992"] } },
+      select: { routing_number: true, bank_name: true },
+    });
+    expect(names.get("021000021")).toBe("JPMORGAN CHASE BANK, NA");
+    expect(names.has("999999992")).toBe(false);
+  });
+});
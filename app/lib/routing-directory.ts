@@ -0,0 +1,167 @@
+import { isValidRoutingNumber } from "@/lib/routing-number";
+
+/* ============================================================================================================================
+   ROUTING DIRECTORY
+   ----------------------------------------------------------------------------------------------------------------------------
+   The banks that can receive ACH entries, from the Federal Reserve's FedACH participant file (FedACHdir.txt): one
+   fixed-width 155-character record per routing number, giving the bank's name and location. A copy is bundled at
+   prisma/data/FedACHdir.txt and loaded by the seed; scripts/load-routing-directory.ts loads the current file whenever
+   the Fed publishes one, which replaces the whole table.
+
+   A routing number a customer enters for an external account or payee must pass the ABA checksum and be in the
+   directory, and is shown with the bank's name. A record of type 2 means the bank now receives its entries under a new
+   routing number, so the old one is refused with the number to use instead.
+   ============================================================================================================================ */
+
+const RECORD_SIZE = 155;
+// Record type 2: send entries to the record's new routing number
+const RECORD_TYPE_NEW_ROUTING = "2";
+
+export type RoutingDirectoryRecord = {
+  routing_number: string;
+  bank_name: string;
+  city: string;
+  state: string;
+  new_routing_number: string | null;
+  change_date: Date | null;
+};
+
+export type RoutingNumberLookup =
+  | {
+      ok: true;
+      routing_number: string;
+      bank_name: string;
+      city: string;
+      state: string;
+    }
+  | { ok: false; error: string };
+
+// Change dates are MMDDYY
+function parseChangeDate(value: string): Date | null {
+  if (!/^\d{6}$/.test(value) || value === "000000") {
+    return null;
+  }
+  const month = Number(value.slice(0, 2));
+  const day = Number(value.slice(2, 4));
+  const year = 2000 + Number(value.slice(4, 6));
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Read the records out of a FedACH participant file.
+ * @throws Error if a line is not a directory record
+ */
+export function parseFedAchDirectory(
+  contents: string,
+): RoutingDirectoryRecord[] {
+  const records = new Map<string, RoutingDirectoryRecord>();
+
+  contents.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trimEnd();
+    if (line.length === 0) return;
+
+    const routing_number = line.slice(0, 9);
+    if (line.length > RECORD_SIZE || !isValidRoutingNumber(routing_number)) {
+      throw new Error(`Line ${index + 1} is not a FedACH directory record`);
+    }
+
+    const padded = line.padEnd(RECORD_SIZE, " ");
+    records.set(routing_number, {
+      routing_number,
+      bank_name: padded.slice(35, 71).trim(),
+      city: padded.slice(107, 127).trim(),
+      state: padded.slice(127, 129),
+      new_routing_number:
+        padded[19] === RECORD_TYPE_NEW_ROUTING ? padded.slice(26, 35) : null,
+      change_date: parseChangeDate(padded.slice(20, 26)),
+    });
+  });
+
+  return [...records.values()];
+}
+
+/**
+ * Replace the routing directory with the records in a FedACH participant file.
+ * @returns How many routing numbers were loaded
+ * @throws Error if the file cannot be parsed or has no records; the directory is left as it was in that case
+ */
+export async function loadRoutingDirectory(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  contents: string,
+  now: Date = new Date(),
+): Promise<number> {
+  const records = parseFedAchDirectory(contents);
+  if (records.length === 0) {
+    throw new Error("The file has no routing numbers");
+  }
+
+  await prisma.$transaction(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    async (tx: any) => {
+      await tx.routingDirectoryEntry.deleteMany({});
+      await tx.routingDirectoryEntry.createMany({
+        data: records.map((record) => ({ ...record, loaded_at: now })),
+      });
+    },
+    // The Fed's file has tens of thousands of records, more than the default 5 seconds allows
+    { timeout: 60_000 },
+  );
+
+  return records.length;
+}
+
+/**
+ * Check a routing number against the directory and find the bank it belongs to.
+ */
+export async function lookupRoutingNumber(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  routing_number: string,
+): Promise<RoutingNumberLookup> {
+  if (!isValidRoutingNumber(routing_number)) {
+    return { ok: false, error: "Routing number is not valid" };
+  }
+
+  const entry = await tx.routingDirectoryEntry.findUnique({
+    where: { routing_number },
+  });
+  if (!entry) {
+    return {
+      ok: false,
+      error: "Routing number is not in the routing directory",
+    };
+  }
+  if (entry.new_routing_number) {
+    return {
+      ok: false,
+      error: `Routing number has been replaced by ${entry.new_routing_number}`,
+    };
+  }
+
+  return {
+    ok: true,
+    routing_number,
+    bank_name: entry.bank_name,
+    city: entry.city,
+    state: entry.state,
+  };
+}
+
+/**
+ * The bank name for each of the routing numbers that is in the directory.
+ */
+export async function getBankNames(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  routing_numbers: string[],
+): Promise<Map<string, string>> {
+  const entries: { routing_number: string; bank_name: string }[] =
+    await tx.routingDirectoryEntry.findMany({
+      where: { routing_number: { in: [...new Set(routing_numbers)] } },
+      select: { routing_number: true, bank_name: true },
+    });
+  return new Map(
+    entries.map((entry) => [entry.routing_number, entry.bank_name]),
+  );
+}
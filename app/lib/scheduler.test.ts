@@ -0,0 +1,230 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  SCHEDULER_LEASE_MS,
+  SCHEDULER_RETRY_MS,
+  claimScheduledJob,
+  runSchedulerTick,
+  scheduleUnscheduledBillPayRules,
+  type DueJob,
+} from "./scheduler";
+
+const now = new Date("2025-12-15T09:01:00Z");
+
+const billPayJob: DueJob = {
+  id: 21,
+  job_type: "billpay_rule",
+  bill_pay_rule_id: 4,
+  transfer_rule_id: null,
+  next_run_at: new Date("2025-12-15T09:00:00Z"),
+};
+
+const billPayRule = {
+  id: 4,
+  payee_id: 6,
+  amount: new Decimal("80.00"),
+  frequency: "0 9 15 * *",
+  start_time: new Date("2025-11-01T00:00:00Z"),
+  end_time: null,
+  status: "active",
+  skip_count: 0,
+  source_internal: {
+    id: 1,
+    user_id: 10,
+    account_type: "checking",
+    is_active: true,
+  },
+};
+
+function createMockTx({ released = 1 } = {}) {
+  return {
+    scheduledJob: {
+      updateMany: vi.fn().mockResolvedValue({ count: released }),
+    },
+    billPayRule: { findUnique: vi.fn().mockResolvedValue(billPayRule) },
+    billPayPayee: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 6,
+        business_name: "City Water",
+        account_number: "99887766",
+        routing_number: "021000021",
+      }),
+    },
+    transaction: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: 500, ...data })),
+      aggregate: vi.fn().mockResolvedValue({ _sum: { amount: null } }),
+    },
+    transactionLimit: { findMany: vi.fn().mockResolvedValue([]) },
+    userTransactionLimit: { findMany: vi.fn().mockResolvedValue([]) },
+    $queryRaw: vi.fn().mockResolvedValue([]),
+    $executeRaw: vi.fn().mockResolvedValue(0),
+    internalAccount: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 1,
+        available_balance: new Decimal(1000),
+        overdraft_protection_account: null,
+      }),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    fundsHold: { create: vi.fn().mockResolvedValue({ id: 8 }) },
+  };
+}
+
+function createMockPrisma({
+  due = [billPayJob],
+  claimed = 1,
+  tx = createMockTx(),
+}: {
+  due?: DueJob[];
+  claimed?: number;
+  tx?: ReturnType<typeof createMockTx>;
+} = {}) {
+  return {
+    billPayRule: { findMany: vi.fn().mockResolvedValue([]) },
+    scheduledJob: {
+      findMany: vi.fn().mockResolvedValue(due),
+      createMany: vi.fn().mockResolvedValue({ count: 0 }),
+      updateMany: vi.fn().mockResolvedValue({ count: claimed }),
+    },
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    $transaction: vi.fn().mockImplementation(async (fn: any) => fn(tx)),
+  };
+}
+
+describe("Scheduler", () => {
+  describe("scheduleUnscheduledBillPayRules", () => {
+    it("should give rules without a job their next run", async () => {
+      const prisma = createMockPrisma();
+      prisma.billPayRule.findMany.mockResolvedValue([billPayRule]);
+      prisma.scheduledJob.createMany.mockResolvedValue({ count: 1 });
+
+      const count = await scheduleUnscheduledBillPayRules(prisma, now);
+
+      expect(count).toBe(1);
+      expect(prisma.scheduledJob.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            job_type: "billpay_rule",
+            bill_pay_rule_id: 4,
+            next_run_at: new Date("2026-01-15T09:00:00Z"),
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe("claimScheduledJob", () => {
+    it("should only take a job nobody holds an unexpired lease on", async () => {
+      const prisma = createMockPrisma();
+
+      expect(await claimScheduledJob(prisma, billPayJob, "worker-a", now)).toBe(
+        true,
+      );
+      expect(prisma.scheduledJob.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 21,
+          next_run_at: billPayJob.next_run_at,
+          OR: [{ lease_expires_at: null }, { lease_expires_at: { lte: now } }],
+        },
+        data: {
+          lease_owner: "worker-a",
+          lease_expires_at: new Date(now.getTime() + SCHEDULER_LEASE_MS),
+        },
+      });
+    });
+
+    it("should report a job another worker got first", async () => {
+      const prisma = createMockPrisma({ claimed: 0 });
+
+      expect(await claimScheduledJob(prisma, billPayJob, "worker-b", now)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("runSchedulerTick", () => {
+    it("should run a due job and move it on to its next run", async () => {
+      const tx = createMockTx();
+      const prisma = createMockPrisma({ tx });
+
+      const { runs, failed } = await runSchedulerTick(prisma, {
+        worker_id: "worker-a",
+        now,
+      });
+
+      expect(failed).toEqual([]);
+      expect(runs).toEqual([
+        {
+          job_id: 21,
+          job_type: "billpay_rule",
+          rule_id: 4,
+          scheduled_for: billPayJob.next_run_at,
+          status: "pending",
+          transaction_id: 500,
+        },
+      ]);
+      expect(tx.scheduledJob.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 21,
+          lease_owner: "worker-a",
+          next_run_at: billPayJob.next_run_at,
+        },
+        data: {
+          next_run_at: new Date("2026-01-15T09:00:00Z"),
+          last_run_at: now,
+          lease_owner: null,
+          lease_expires_at: null,
+          last_error: null,
+        },
+      });
+    });
+
+    it("should leave a job to the worker that holds its lease", async () => {
+      const prisma = createMockPrisma({ claimed: 0 });
+
+      const { runs, failed } = await runSchedulerTick(prisma, { now });
+
+      expect(runs).toEqual([]);
+      expect(failed).toEqual([]);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should roll the run back when the lease was lost", async () => {
+      const prisma = createMockPrisma({ tx: createMockTx({ released: 0 }) });
+
+      const { runs, failed } = await runSchedulerTick(prisma, {
+        worker_id: "worker-a",
+        now,
+      });
+
+      expect(runs).toEqual([]);
+      expect(failed).toEqual([
+        { job_id: 21, error: "Lost the lease before the run finished" },
+      ]);
+    });
+
+    it("should back off a job whose run throws", async () => {
+      const prisma = createMockPrisma();
+      prisma.$transaction.mockRejectedValue(new Error("connection lost"));
+
+      const { failed } = await runSchedulerTick(prisma, {
+        worker_id: "worker-a",
+        now,
+      });
+
+      expect(failed).toEqual([{ job_id: 21, error: "connection lost" }]);
+      expect(prisma.scheduledJob.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 21, lease_owner: "worker-a" },
+        data: {
+          lease_owner: null,
+          lease_expires_at: new Date(now.getTime() + SCHEDULER_RETRY_MS),
+          last_error: "connection lost",
+        },
+      });
+    });
+  });
+});
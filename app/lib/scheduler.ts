@@ -0,0 +1,232 @@
+import { randomUUID } from "crypto";
+import type { ScheduledJobType } from "@prisma/client";
+import { getFirstBillPayRunAt, runBillPayRuleOccurrence } from "./billpay";
+import { runTransferRuleOccurrence } from "./transfer-rules";
+
+/* ============================================================================================================================
+   SCHEDULER
+   ----------------------------------------------------------------------------------------------------------------------------
+   Runs bill pay and transfer rules on their cron schedules (see lib/cron.ts) without pg_cron. Every scheduled rule has
+   a ScheduledJob holding its next run, and each tick (scripts/run-scheduler.ts) runs the jobs whose time has come:
+
+   1. The worker takes the job's lease for the due occurrence. Only a job nobody holds an unexpired lease on can be
+      taken, and the update is conditional, so when two workers race exactly one of them gets it.
+   2. In one database transaction the worker runs the occurrence through the rule's handler, moves the job on to its
+      next run and gives the lease back. Moving on is conditional on still holding the lease: a worker whose lease ran
+      out and was taken over rolls back instead of running the occurrence a second time.
+
+   A run that throws keeps its next_run_at and is retried once SCHEDULER_RETRY_MS has passed.
+   ============================================================================================================================ */
+
+// How long a worker may take to run a job before another worker can take it over
+export const SCHEDULER_LEASE_MS = 5 * 60 * 1000;
+// How long a job waits after its run throws before it is tried again
+export const SCHEDULER_RETRY_MS = 15 * 60 * 1000;
+// Most jobs run by one tick; the rest wait for the next tick
+const SCHEDULER_BATCH_SIZE = 100;
+
+export type ScheduledOccurrence = {
+  status: "approved" | "pending" | "denied" | "skipped";
+  transaction_id?: number;
+  reason?: string;
+  next_run_at: Date | null; // Null when the rule will not run again
+};
+
+export type ScheduledJobRun = Omit<ScheduledOccurrence, "next_run_at"> & {
+  job_id: number;
+  job_type: ScheduledJobType;
+  rule_id: number;
+  scheduled_for: Date;
+};
+
+export type DueJob = {
+  id: number;
+  job_type: ScheduledJobType;
+  bill_pay_rule_id: number | null;
+  transfer_rule_id: number | null;
+  next_run_at: Date;
+};
+
+type JobHandler = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule_id: number,
+  scheduled_for: Date,
+  now: Date,
+) => Promise<ScheduledOccurrence>;
+
+const JOB_HANDLERS: Record<ScheduledJobType, JobHandler> = {
+  billpay_rule: runBillPayRuleOccurrence,
+  transfer_rule: runTransferRuleOccurrence,
+};
+
+function getRuleId(job: DueJob): number {
+  return job.job_type === "billpay_rule"
+    ? job.bill_pay_rule_id!
+    : job.transfer_rule_id!;
+}
+
+// A job is free once nobody holds a lease on it or the lease has run out
+function leaseFree(now: Date) {
+  return {
+    OR: [{ lease_expires_at: null }, { lease_expires_at: { lte: now } }],
+  };
+}
+
+/**
+ * Give each bill pay rule without a job one, starting at its next run. Rules created through the API get their
+ * job straight away; this picks up rules that were scheduled with pg_cron.
+ * @returns The number of rules scheduled
+ */
+export async function scheduleUnscheduledBillPayRules(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  now: Date = new Date(),
+): Promise<number> {
+  const rules: {
+    id: number;
+    frequency: string;
+    start_time: Date;
+    end_time: Date | null;
+  }[] = await prisma.billPayRule.findMany({
+    // Statement balance rules came after pg_cron, so they always have a job
+    where: { scheduled_job: null, mode: "fixed_amount" },
+  });
+  if (rules.length === 0) {
+    return 0;
+  }
+
+  // Another worker may be doing the same; each rule keeps whichever job was created first
+  const created = await prisma.scheduledJob.createMany({
+    data: rules.map((rule) => ({
+      job_type: "billpay_rule",
+      bill_pay_rule_id: rule.id,
+      next_run_at: getFirstBillPayRunAt(rule, now),
+    })),
+    skipDuplicates: true,
+  });
+  return created.count;
+}
+
+/**
+ * Take a due job's lease for `worker_id`.
+ * @returns Whether the worker got the lease; false if another worker holds it or already ran the occurrence
+ */
+export async function claimScheduledJob(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  job: DueJob,
+  worker_id: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const claimed = await prisma.scheduledJob.updateMany({
+    where: { id: job.id, next_run_at: job.next_run_at, ...leaseFree(now) },
+    data: {
+      lease_owner: worker_id,
+      lease_expires_at: new Date(now.getTime() + SCHEDULER_LEASE_MS),
+    },
+  });
+  return claimed.count === 1;
+}
+
+/**
+ * Run the due occurrence of a job `worker_id` holds the lease on, move the job on to its next run and give the
+ * lease back, all in one database transaction.
+ * @throws If the run fails or the lease was lost, in which case nothing the run did is kept
+ */
+export async function runScheduledJob(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  job: DueJob,
+  worker_id: string,
+  now: Date = new Date(),
+): Promise<ScheduledJobRun> {
+  const rule_id = getRuleId(job);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return prisma.$transaction(async (tx: any) => {
+    const { next_run_at, ...run } = await JOB_HANDLERS[job.job_type](
+      tx,
+      rule_id,
+      job.next_run_at,
+      now,
+    );
+
+    // A rule rescheduled during the run also fails this check, so the old occurrence does not run
+    const released = await tx.scheduledJob.updateMany({
+      where: {
+        id: job.id,
+        lease_owner: worker_id,
+        next_run_at: job.next_run_at,
+      },
+      data: {
+        next_run_at,
+        last_run_at: now,
+        lease_owner: null,
+        lease_expires_at: null,
+        last_error: null,
+      },
+    });
+    if (released.count === 0) {
+      throw new Error("Lost the lease before the run finished");
+    }
+
+    return {
+      job_id: job.id,
+      job_type: job.job_type,
+      rule_id,
+      scheduled_for: job.next_run_at,
+      ...run,
+    };
+  });
+}
+
+/**
+ * One scheduler tick: schedule any new bill pay rules, then run every due job this worker can take the lease on.
+ * Each job runs in its own database transaction so one failure does not hold up the rest.
+ */
+export async function runSchedulerTick(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  {
+    worker_id = randomUUID(),
+    now = new Date(),
+  }: { worker_id?: string; now?: Date } = {},
+): Promise<{
+  runs: ScheduledJobRun[];
+  failed: { job_id: number; error: string }[];
+}> {
+  await scheduleUnscheduledBillPayRules(prisma, now);
+
+  const due: DueJob[] = await prisma.scheduledJob.findMany({
+    where: { next_run_at: { lte: now }, ...leaseFree(now) },
+    orderBy: { next_run_at: "asc" },
+    take: SCHEDULER_BATCH_SIZE,
+  });
+
+  const runs: ScheduledJobRun[] = [];
+  const failed: { job_id: number; error: string }[] = [];
+
+  for (const job of due) {
+    if (!(await claimScheduledJob(prisma, job, worker_id, now))) {
+      continue;
+    }
+
+    try {
+      runs.push(await runScheduledJob(prisma, job, worker_id, now));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.scheduledJob.updateMany({
+        where: { id: job.id, lease_owner: worker_id },
+        data: {
+          lease_owner: null,
+          lease_expires_at: new Date(now.getTime() + SCHEDULER_RETRY_MS),
+          last_error: message,
+        },
+      });
+      failed.push({ job_id: job.id, error: message });
+    }
+  }
+
+  return { runs, failed };
+}
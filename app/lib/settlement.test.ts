@@ -0,0 +1,267 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  addBusinessDays,
+  getSettlementDate,
+  postPendingTransaction,
+  returnPendingTransaction,
+  settleDueTransactions,
+} from "./settlement";
+
+function createMockTx(transaction: Record<string, unknown> | null) {
+  return {
+    transaction: {
+      findUnique: vi.fn().mockResolvedValue(transaction),
+      findMany: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      update: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ ...transaction, ...data })),
+    },
+    fundsHold: {
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    internalAccount: {
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    journalEntry: {
+      create: vi.fn().mockResolvedValue({ id: 55 }),
+    },
+  };
+}
+
+const pendingBillpay = {
+  id: 10,
+  internal_account_id: 1,
+  amount: new Decimal(-80),
+  status: "pending",
+  transaction_type: "billpay",
+  direction: "outbound",
+  created_at: new Date("2025-12-01T12:00:00Z"), // Monday
+  funds_holds: [
+    {
+      id: 4,
+      internal_account_id: 1,
+      amount: new Decimal(80),
+      status: "active",
+    },
+  ],
+};
+
+describe("Settlement", () => {
+  describe("addBusinessDays", () => {
+    it("should skip weekends", () => {
+      const friday = new Date("2025-12-05T15:00:00Z");
+
+      expect(addBusinessDays(friday, 1).toISOString()).toBe(
+        "2025-12-08T15:00:00.000Z",
+      );
+      expect(addBusinessDays(friday, 2).toISOString()).toBe(
+        "2025-12-09T15:00:00.000Z",
+      );
+    });
+  });
+
+  describe("getSettlementDate", () => {
+    it("should give check deposits two business days", () => {
+      const monday = new Date("2025-12-01T12:00:00Z");
+
+      expect(getSettlementDate("deposit", monday).toISOString()).toBe(
+        "2025-12-03T12:00:00.000Z",
+      );
+    });
+  });
+
+  describe("postPendingTransaction", () => {
+    it("should release the hold and post the outbound payment to its clearing account", async () => {
+      const tx = createMockTx(pendingBillpay);
+      const now = new Date("2025-12-02T12:00:00Z");
+
+      const result = await postPendingTransaction(tx, 10, now);
+
+      expect(tx.transaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 10, status: "pending" },
+        data: { status: "approved", posted_at: now },
+      });
+      expect(tx.fundsHold.updateMany).toHaveBeenCalledWith({
+        where: { id: 4, status: "active" },
+        data: { status: "released", released_at: now },
+      });
+      expect(tx.internalAccount.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { available_balance: { increment: new Decimal(80) } },
+      });
+      // Unguarded debit of the customer: the hold already reserved the funds
+      expect(tx.internalAccount.updateMany).not.toHaveBeenCalled();
+      expect(tx.internalAccount.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          balance: { decrement: new Decimal(80) },
+          available_balance: { decrement: new Decimal(80) },
+        },
+      });
+      const lines = tx.journalEntry.create.mock.calls[0][0].data.lines.create;
+      expect(lines).toEqual([
+        expect.objectContaining({ internal_account_id: 1, side: "debit" }),
+        expect.objectContaining({
+          system_account: "billpay_clearing",
+          side: "credit",
+        }),
+      ]);
+      expect(result).toMatchObject({ journal_entry_id: 55 });
+    });
+
+    it("should credit inbound check deposits from check clearing", async () => {
+      const tx = createMockTx({
+        ...pendingBillpay,
+        amount: new Decimal(300),
+        transaction_type: "deposit",
+        direction: "inbound",
+        funds_holds: [],
+      });
+
+      await postPendingTransaction(tx, 10);
+
+      expect(tx.fundsHold.updateMany).not.toHaveBeenCalled();
+      const lines = tx.journalEntry.create.mock.calls[0][0].data.lines.create;
+      expect(lines).toEqual([
+        expect.objectContaining({
+          system_account: "check_clearing",
+          side: "debit",
+        }),
+        expect.objectContaining({ internal_account_id: 1, side: "credit" }),
+      ]);
+    });
+
+    it("should do nothing if the transaction is no longer pending", async () => {
+      const tx = createMockTx({ ...pendingBillpay, status: "approved" });
+
+      const result = await postPendingTransaction(tx, 10);
+
+      expect(result).toBeNull();
+      expect(tx.transaction.updateMany).not.toHaveBeenCalled();
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should not post twice when another run claimed it first", async () => {
+      const tx = createMockTx(pendingBillpay);
+      tx.transaction.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await postPendingTransaction(tx, 10);
+
+      expect(result).toBeNull();
+      expect(tx.fundsHold.updateMany).not.toHaveBeenCalled();
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("returnPendingTransaction", () => {
+    it("should release the hold without touching the ledger", async () => {
+      const tx = createMockTx(pendingBillpay);
+
+      await returnPendingTransaction(tx, 10);
+
+      expect(tx.transaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 10, status: "pending" },
+        data: { status: "returned" },
+      });
+      expect(tx.fundsHold.updateMany).toHaveBeenCalled();
+      expect(tx.internalAccount.update).toHaveBeenCalledTimes(1);
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("settleDueTransactions", () => {
+    it("should only post transactions whose settlement date has passed", async () => {
+      const dueBillpay = { ...pendingBillpay, id: 1 };
+      const notDueCheck = {
+        ...pendingBillpay,
+        id: 2,
+        transaction_type: "deposit",
+        direction: "inbound",
+        funds_holds: [],
+      };
+      const tx = createMockTx(dueBillpay);
+      const prisma = {
+        transaction: {
+          findMany: vi.fn().mockResolvedValue([dueBillpay, notDueCheck]),
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        $transaction: vi.fn().mockImplementation(async (fn: any) => fn(tx)),
+      };
+
+      // Tuesday: the Monday bill payment is due, the Monday check deposit is not
+      const result = await settleDueTransactions(
+        prisma,
+        new Date("2025-12-02T13:00:00Z"),
+      );
+
+      expect(result).toEqual({ posted: [1], failed: [] });
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not post an outbound payment until its ACH file is sent", async () => {
+      const ach = { external_routing_number: "021000021" };
+      const unbatched = { ...pendingBillpay, ...ach, id: 1, ach_batch: null };
+      const generated = {
+        ...pendingBillpay,
+        ...ach,
+        id: 2,
+        ach_batch: { status: "generated" },
+      };
+      const sent = {
+        ...pendingBillpay,
+        ...ach,
+        id: 3,
+        ach_batch: { status: "sent" },
+      };
+      const tx = createMockTx(sent);
+      const prisma = {
+        transaction: {
+          findMany: vi.fn().mockResolvedValue([unbatched, generated, sent]),
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        $transaction: vi.fn().mockImplementation(async (fn: any) => fn(tx)),
+      };
+
+      const result = await settleDueTransactions(
+        prisma,
+        new Date("2025-12-10T00:00:00Z"),
+      );
+
+      expect(result).toEqual({ posted: [3], failed: [] });
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include: { ach_batch: { select: { status: true } } },
+        }),
+      );
+    });
+
+    it("should keep going when one transaction fails to post", async () => {
+      const prisma = {
+        transaction: {
+          findMany: vi.fn().mockResolvedValue([
+            { ...pendingBillpay, id: 1 },
+            { ...pendingBillpay, id: 2 },
+          ]),
+        },
+        $transaction: vi
+          .fn()
+          .mockRejectedValueOnce(new Error("deadlock"))
+          .mockResolvedValueOnce({ id: 2 }),
+      };
+
+      const result = await settleDueTransactions(
+        prisma,
+        new Date("2025-12-10T00:00:00Z"),
+      );
+
+      expect(result).toEqual({
+        posted: [2],
+        failed: [{ id: 1, error: "deadlock" }],
+      });
+    });
+  });
+});
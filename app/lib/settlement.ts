@@ -0,0 +1,240 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type { TransactionTypeEnum } from "@prisma/client";
+import { postTransfer, type SystemLedgerAccount } from "./ledger";
+import { releaseHold } from "./holds";
+
+/* ============================================================================================================================
+   SETTLEMENT OF PENDING TRANSACTIONS
+   ----------------------------------------------------------------------------------------------------------------------------
+   External transfers and bill payments are accepted as pending and only reach the ledger once they settle. Outbound
+   ones hold their funds in the meantime. Posting releases the hold and journals the movement against the clearing
+   account the money travels through; returning a pending transaction releases the hold and never posts.
+
+   An outbound payment to an account at another bank only leaves through an ACH file (see ach.ts), so it does not
+   settle until the batch it was originated in has been sent, however long that takes. One that cannot be originated
+   stays pending until it is returned.
+
+   Check deposits now post as soon as they are accepted and hold the funds until they become available instead (see
+   funds-availability.ts). Check deposits accepted as pending before that still settle here.
+   ============================================================================================================================ */
+
+// Business days a pending transaction waits before it posts
+export const SETTLEMENT_DELAY_BUSINESS_DAYS: Partial<
+  Record<TransactionTypeEnum, number>
+> = {
+  deposit: 2, // Check deposits accepted as pending
+  external_transfer: 1,
+  billpay: 1,
+};
+
+// Clearing account on the other side of a pending transaction's journal entry
+const CLEARING_ACCOUNTS: Partial<
+  Record<TransactionTypeEnum, SystemLedgerAccount>
+> = {
+  deposit: "check_clearing",
+  external_transfer: "ach_clearing",
+  billpay: "billpay_clearing",
+};
+
+type PendingTransaction = {
+  id: number;
+  internal_account_id: number;
+  amount: Decimal;
+  status: string;
+  transaction_type: TransactionTypeEnum;
+  direction: "inbound" | "outbound";
+  created_at: Date;
+  external_routing_number?: string | null;
+  ach_batch?: { status: string } | null;
+  funds_holds?: {
+    id: number;
+    internal_account_id: number;
+    amount: Decimal;
+    status: string;
+  }[];
+};
+
+/**
+ * Add business days (Monday to Friday) to a date, keeping the time of day.
+ */
+export function addBusinessDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + 1);
+    const day = result.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/**
+ * When a pending transaction of this type, created at `created_at`, is due to post.
+ */
+export function getSettlementDate(
+  transaction_type: TransactionTypeEnum,
+  created_at: Date,
+): Date {
+  return addBusinessDays(
+    created_at,
+    SETTLEMENT_DELAY_BUSINESS_DAYS[transaction_type] ?? 0,
+  );
+}
+
+// Whether an outbound payment is still waiting for the ACH file that sends it to the other bank
+function isAwaitingAchFile(transaction: PendingTransaction): boolean {
+  return (
+    transaction.direction === "outbound" &&
+    (transaction.transaction_type === "external_transfer" ||
+      transaction.transaction_type === "billpay") &&
+    transaction.external_routing_number != null &&
+    transaction.ach_batch?.status !== "sent"
+  );
+}
+
+/**
+ * Post a pending transaction to the ledger: release its hold, journal the movement and mark it approved.
+ * Must be called inside a Prisma interactive transaction.
+ * @returns The updated transaction, or null if it was not pending (already posted or returned)
+ */
+export async function postPendingTransaction(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  transaction_id: number,
+  now: Date = new Date(),
+) {
+  const transaction: PendingTransaction | null =
+    await tx.transaction.findUnique({
+      where: { id: transaction_id },
+      include: { funds_holds: true },
+    });
+
+  if (!transaction || transaction.status !== "pending") {
+    return null;
+  }
+
+  const clearing = CLEARING_ACCOUNTS[transaction.transaction_type];
+  if (!clearing) {
+    throw new Error(
+      `Transaction type ${transaction.transaction_type} cannot settle from pending`,
+    );
+  }
+
+  // Claim the transaction first so a concurrent settlement run cannot post it twice
+  const claimed = await tx.transaction.updateMany({
+    where: { id: transaction.id, status: "pending" },
+    data: { status: "approved", posted_at: now },
+  });
+  if (claimed.count !== 1) {
+    return null;
+  }
+
+  for (const hold of transaction.funds_holds ?? []) {
+    await releaseHold(tx, hold, now);
+  }
+
+  // The hold already reserved outbound funds, so this posting is not guarded
+  const account = { internal_account_id: transaction.internal_account_id };
+  const posting = await postTransfer(tx, {
+    from:
+      transaction.direction === "outbound"
+        ? account
+        : { system_account: clearing },
+    to:
+      transaction.direction === "outbound"
+        ? { system_account: clearing }
+        : account,
+    amount: new Decimal(transaction.amount).abs(),
+    description: `Settlement of pending ${transaction.transaction_type} #${transaction.id}`,
+  });
+
+  return await tx.transaction.update({
+    where: { id: transaction.id },
+    data: { journal_entry_id: posting.journal_entry.id },
+  });
+}
+
+/**
+ * Return a pending transaction before it posts (for example, the receiving bank rejected it).
+ * Releases any hold; the ledger is never touched.
+ * @returns The updated transaction, or null if it was not pending
+ */
+export async function returnPendingTransaction(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  transaction_id: number,
+  now: Date = new Date(),
+) {
+  const transaction: PendingTransaction | null =
+    await tx.transaction.findUnique({
+      where: { id: transaction_id },
+      include: { funds_holds: true },
+    });
+
+  if (!transaction || transaction.status !== "pending") {
+    return null;
+  }
+
+  const claimed = await tx.transaction.updateMany({
+    where: { id: transaction.id, status: "pending" },
+    data: { status: "returned" },
+  });
+  if (claimed.count !== 1) {
+    return null;
+  }
+
+  for (const hold of transaction.funds_holds ?? []) {
+    await releaseHold(tx, hold, now);
+  }
+
+  return await tx.transaction.findUnique({ where: { id: transaction.id } });
+}
+
+/**
+ * Post every pending transaction whose settlement date has passed. Each transaction settles in its
+ * own database transaction so one failure does not hold up the rest.
+ */
+export async function settleDueTransactions(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  now: Date = new Date(),
+): Promise<{ posted: number[]; failed: { id: number; error: string }[] }> {
+  // A check deposit under review waits for the manager's decision instead (see check-reviews.ts)
+  const pending: PendingTransaction[] = await prisma.transaction.findMany({
+    where: { status: "pending", check_review: { is: null } },
+    include: { ach_batch: { select: { status: true } } },
+    orderBy: { created_at: "asc" },
+  });
+
+  const posted: number[] = [];
+  const failed: { id: number; error: string }[] = [];
+
+  for (const transaction of pending) {
+    if (
+      getSettlementDate(transaction.transaction_type, transaction.created_at) >
+        now ||
+      isAwaitingAchFile(transaction)
+    ) {
+      continue;
+    }
+
+    try {
+      const result = await prisma.$transaction(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        async (tx: any) => postPendingTransaction(tx, transaction.id, now),
+      );
+      if (result) {
+        posted.push(transaction.id);
+      }
+    } catch (error) {
+      failed.push({
+        id: transaction.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { posted, failed };
+}
@@ -0,0 +1,160 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { TransactionTypeEnum } from "@prisma/client";
+import type { StatementLine, StatementTypeTotals } from "./statements";
+
+export type StatementPdfInput = {
+  period_start: Date;
+  period_end: Date;
+  opening_balance: string | number | { toString(): string };
+  closing_balance: string | number | { toString(): string };
+  total_credits: string | number | { toString(): string };
+  total_debits: string | number | { toString(): string };
+  totals_by_type: Partial<Record<TransactionTypeEnum, StatementTypeTotals>>;
+  lines: StatementLine[];
+  account: {
+    account_number: string;
+    routing_number: string;
+    account_type: string;
+  };
+  holder: {
+    first_name: string;
+    last_name: string;
+    street_address: string;
+    address_line_2: string | null;
+    city: string;
+    state_or_territory: string;
+    postal_code: string;
+  };
+};
+
+/**
+ * Render a stored statement as a PDF.
+ * @returns The PDF file contents
+ */
+export function renderStatementPdf(statement: StatementPdfInput): ArrayBuffer {
+  const doc = new jsPDF();
+
+  // Add title
+  doc.setFontSize(20);
+  doc.text("Account Statement", 14, 22);
+
+  doc.setFontSize(10);
+  doc.text(
+    `${formatStatementDate(statement.period_start)} - ${formatStatementDate(statement.period_end)}`,
+    14,
+    30,
+  );
+
+  // Account holder and account
+  const { holder, account } = statement;
+  doc.text(
+    [
+      `${holder.first_name} ${holder.last_name}`,
+      holder.street_address,
+      ...(holder.address_line_2 ? [holder.address_line_2] : []),
+      `${holder.city}, ${holder.state_or_territory} ${holder.postal_code}`,
+    ],
+    14,
+    40,
+  );
+  doc.text(
+    [
+      `${account.account_type.charAt(0).toUpperCase()}${account.account_type.slice(1)} account ****${account.account_number.slice(-4)}`,
+      `Routing number ${account.routing_number}`,
+    ],
+    120,
+    40,
+  );
+
+  // Summary
+  autoTable(doc, {
+    head: [["Opening Balance", "Credits", "Debits", "Closing Balance"]],
+    body: [
+      [
+        formatStatementAmount(statement.opening_balance),
+        formatStatementAmount(statement.total_credits),
+        formatStatementAmount(statement.total_debits),
+        formatStatementAmount(statement.closing_balance),
+      ],
+    ],
+    startY: 62,
+    styles: { fontSize: 9, cellPadding: 3 },
+    headStyles: {
+      fillColor: [41, 128, 185],
+      textColor: 255,
+      fontStyle: "bold",
+    },
+  });
+
+  // Totals by type
+  autoTable(doc, {
+    head: [["Type", "Count", "Credits", "Debits"]],
+    body: Object.entries(statement.totals_by_type).map(([type, totals]) => [
+      type.replace("_", " ").toUpperCase(),
+      totals.count.toString(),
+      formatStatementAmount(totals.credits),
+      formatStatementAmount(totals.debits),
+    ]),
+    styles: { fontSize: 8, cellPadding: 2 },
+    headStyles: {
+      fillColor: [41, 128, 185],
+      textColor: 255,
+      fontStyle: "bold",
+    },
+  });
+
+  // Transactions with running balance
+  autoTable(doc, {
+    head: [["Date", "Description", "Amount", "Balance"]],
+    body:
+      statement.lines.length > 0
+        ? statement.lines.map((line) => [
+            formatStatementDate(line.posted_at),
+            line.description,
+            formatStatementAmount(line.amount),
+            formatStatementAmount(line.running_balance),
+          ])
+        : [["", "No transactions this period", "", ""]],
+    styles: { fontSize: 8, cellPadding: 3 },
+    headStyles: {
+      fillColor: [41, 128, 185],
+      textColor: 255,
+      fontStyle: "bold",
+    },
+    alternateRowStyles: {
+      fillColor: [245, 245, 245],
+    },
+    columnStyles: {
+      0: { cellWidth: 25 },
+      2: { cellWidth: 30, halign: "right" },
+      3: { cellWidth: 30, halign: "right" },
+    },
+  });
+
+  return doc.output("arraybuffer");
+}
+
+/**
+ * Format a statement date (stored as a UTC date) for display
+ */
+function formatStatementDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Format a signed amount as currency
+ */
+function formatStatementAmount(
+  amount: string | number | { toString(): string },
+): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(Number(amount.toString()));
+}
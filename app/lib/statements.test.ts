@@ -0,0 +1,331 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  buildStatement,
+  cutMonthlyStatements,
+  cutStatement,
+  describeTransaction,
+  getStatementDownloadPath,
+  getStatementPeriod,
+  verifyStatementDownload,
+} from "./statements";
+
+const novemberTransactions = [
+  {
+    id: 11,
+    amount: new Decimal(500),
+    transaction_type: "deposit",
+    direction: "inbound",
+    posted_at: new Date("2025-11-03T15:00:00Z"),
+    check_number: "1001",
+    external_nickname: null,
+    external_account_number: null,
+    reversal_of_id: null,
+  },
+  {
+    id: 12,
+    amount: new Decimal("-120.25"),
+    transaction_type: "billpay",
+    direction: "outbound",
+    posted_at: new Date("2025-11-10T09:30:00Z"),
+    check_number: null,
+    external_nickname: "PG&E",
+    external_account_number: "000123456789",
+    reversal_of_id: null,
+  },
+  {
+    id: 13,
+    amount: new Decimal(-40),
+    transaction_type: "internal_transfer",
+    direction: "outbound",
+    posted_at: new Date("2025-11-20T12:00:00Z"),
+    check_number: null,
+    external_nickname: null,
+    external_account_number: null,
+    reversal_of_id: null,
+  },
+  {
+    id: 14,
+    amount: new Decimal("1.37"),
+    transaction_type: "interest",
+    direction: "inbound",
+    posted_at: new Date("2025-11-30T23:59:00Z"),
+    check_number: null,
+    external_nickname: null,
+    external_account_number: null,
+    reversal_of_id: null,
+  },
+];
+
+function createMockPrisma() {
+  return {
+    transaction: {
+      aggregate: vi
+        .fn()
+        .mockResolvedValue({ _sum: { amount: new Decimal(1000) } }),
+      findMany: vi.fn().mockResolvedValue(novemberTransactions),
+    },
+    accountStatement: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      upsert: vi
+        .fn()
+        .mockImplementation(async ({ create }) => ({ id: 5, ...create })),
+    },
+    internalAccount: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+  };
+}
+
+describe("Monthly statements", () => {
+  beforeEach(() => {
+    process.env.STATEMENT_SIGNING_SECRET = "test-secret";
+  });
+
+  describe("getStatementPeriod", () => {
+    it("should cover the whole UTC calendar month", () => {
+      const { start, end } = getStatementPeriod(
+        new Date("2025-12-31T23:59:59Z"),
+      );
+
+      expect(start.toISOString()).toBe("2025-12-01T00:00:00.000Z");
+      expect(end.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    });
+  });
+
+  describe("describeTransaction", () => {
+    it("should name reversals after the original transaction", () => {
+      expect(
+        describeTransaction({
+          ...novemberTransactions[0],
+          check_number: null,
+          reversal_of_id: 9,
+        } as never),
+      ).toBe("Reversal of #9");
+    });
+
+    it("should mask external account numbers", () => {
+      expect(
+        describeTransaction({
+          ...novemberTransactions[1],
+          external_nickname: null,
+        } as never),
+      ).toBe("Bill payment - ****6789");
+    });
+  });
+
+  describe("buildStatement", () => {
+    it("should compute running balances and totals from the opening balance", async () => {
+      const prisma = createMockPrisma();
+
+      const statement = await buildStatement(
+        prisma,
+        1,
+        new Date("2025-11-15T00:00:00Z"),
+      );
+
+      expect(prisma.transaction.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            internal_account_id: 1,
+            posted_at: { lt: new Date("2025-11-01T00:00:00Z") },
+          }),
+        }),
+      );
+      expect(statement.period_start.toISOString()).toBe(
+        "2025-11-01T00:00:00.000Z",
+      );
+      expect(statement.period_end.toISOString()).toBe(
+        "2025-11-30T00:00:00.000Z",
+      );
+      expect(statement.opening_balance.toString()).toBe("1000");
+      expect(statement.closing_balance.toString()).toBe("1341.12");
+      expect(statement.total_credits.toString()).toBe("501.37");
+      expect(statement.total_debits.toString()).toBe("160.25");
+      expect(statement.transaction_count).toBe(4);
+      expect(statement.lines.map((line) => line.running_balance)).toEqual([
+        "1500.00",
+        "1379.75",
+        "1339.75",
+        "1341.12",
+      ]);
+      expect(statement.lines.map((line) => line.description)).toEqual([
+        "Deposit - check 1001",
+        "Bill payment - PG&E",
+        "Internal transfer out",
+        "Interest paid",
+      ]);
+      expect(statement.totals_by_type).toEqual({
+        deposit: { count: 1, credits: "500.00", debits: "0.00" },
+        billpay: { count: 1, credits: "0.00", debits: "120.25" },
+        internal_transfer: { count: 1, credits: "0.00", debits: "40.00" },
+        interest: { count: 1, credits: "1.37", debits: "0.00" },
+      });
+    });
+
+    it("should carry the opening balance through a month with no activity", async () => {
+      const prisma = createMockPrisma();
+      prisma.transaction.findMany.mockResolvedValue([]);
+
+      const statement = await buildStatement(
+        prisma,
+        1,
+        new Date("2025-11-01T00:00:00Z"),
+      );
+
+      expect(statement.closing_balance.toString()).toBe("1000");
+      expect(statement.lines).toEqual([]);
+      expect(statement.totals_by_type).toEqual({});
+    });
+  });
+
+  describe("cutStatement", () => {
+    it("should refuse to cut a month that is not over", async () => {
+      const prisma = createMockPrisma();
+
+      await expect(
+        cutStatement(
+          prisma,
+          1,
+          new Date("2025-11-01T00:00:00Z"),
+          new Date("2025-11-30T12:00:00Z"),
+        ),
+      ).rejects.toThrow("before the month is over");
+      expect(prisma.accountStatement.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should return an existing statement unchanged", async () => {
+      const prisma = createMockPrisma();
+      const existing = { id: 3, internal_account_id: 1 };
+      prisma.accountStatement.findUnique.mockResolvedValue(existing);
+
+      const statement = await cutStatement(
+        prisma,
+        1,
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-12-01T00:10:00Z"),
+      );
+
+      expect(statement).toBe(existing);
+      expect(prisma.transaction.findMany).not.toHaveBeenCalled();
+      expect(prisma.accountStatement.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should store the computed statement", async () => {
+      const prisma = createMockPrisma();
+
+      const statement = await cutStatement(
+        prisma,
+        1,
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-12-01T00:10:00Z"),
+      );
+
+      expect(statement.id).toBe(5);
+      expect(prisma.accountStatement.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            internal_account_id_period_start: {
+              internal_account_id: 1,
+              period_start: new Date("2025-11-01T00:00:00Z"),
+            },
+          },
+          update: {},
+        }),
+      );
+    });
+  });
+
+  describe("cutMonthlyStatements", () => {
+    it("should cut last month for accounts opened before this month and report failures", async () => {
+      const prisma = createMockPrisma();
+      prisma.internalAccount.findMany.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+      prisma.transaction.findMany
+        .mockResolvedValueOnce(novemberTransactions)
+        .mockRejectedValueOnce(new Error("connection lost"));
+
+      const result = await cutMonthlyStatements(
+        prisma,
+        new Date("2025-12-01T00:10:00Z"),
+      );
+
+      expect(prisma.internalAccount.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { created_at: { lt: new Date("2025-12-01T00:00:00Z") } },
+        }),
+      );
+      expect(result.period_start.toISOString()).toBe(
+        "2025-11-01T00:00:00.000Z",
+      );
+      expect(result.cut).toEqual([1]);
+      expect(result.failed).toEqual([
+        { internal_account_id: 2, error: "connection lost" },
+      ]);
+    });
+
+    it("should cut December in January", async () => {
+      const prisma = createMockPrisma();
+
+      const result = await cutMonthlyStatements(
+        prisma,
+        new Date("2026-01-01T00:10:00Z"),
+      );
+
+      expect(result.period_start.toISOString()).toBe(
+        "2025-12-01T00:00:00.000Z",
+      );
+    });
+  });
+
+  describe("signed downloads", () => {
+    it("should accept its own link until it expires", () => {
+      const now = new Date("2025-12-01T00:00:00Z");
+      const { path } = getStatementDownloadPath(7, now);
+      const url = new URL(path, "http://localhost:3000");
+      const expires = url.searchParams.get("expires");
+      const signature = url.searchParams.get("signature");
+
+      expect(url.pathname).toBe("/api/statements/7/pdf");
+      expect(verifyStatementDownload(7, expires, signature, now)).toBe(true);
+      expect(
+        verifyStatementDownload(
+          7,
+          expires,
+          signature,
+          new Date("2025-12-01T00:06:00Z"),
+        ),
+      ).toBe(false);
+    });
+
+    it("should reject a link for another statement or a tampered expiry", () => {
+      const now = new Date("2025-12-01T00:00:00Z");
+      const url = new URL(
+        getStatementDownloadPath(7, now).path,
+        "http://localhost:3000",
+      );
+      const expires = url.searchParams.get("expires");
+      const signature = url.searchParams.get("signature");
+
+      expect(verifyStatementDownload(8, expires, signature, now)).toBe(false);
+      expect(
+        verifyStatementDownload(
+          7,
+          String(Number(expires) + 60000),
+          signature,
+          now,
+        ),
+      ).toBe(false);
+      expect(verifyStatementDownload(7, expires, null, now)).toBe(false);
+    });
+
+    it("should refuse to sign without a statement signing secret", () => {
+      delete process.env.STATEMENT_SIGNING_SECRET;
+      vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "service-role-key");
+
+      expect(() => getStatementDownloadPath(7)).toThrow(
+        "STATEMENT_SIGNING_SECRET must be set to sign statement downloads",
+      );
+      vi.unstubAllEnvs();
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import type { TransactionTypeEnum } from "@prisma/client";
+import { createHmac, timingSafeEqual } from "crypto";
+import { POSTED_STATUSES } from "./reconciliation";
+
+/* ============================================================================================================================
+   MONTHLY STATEMENTS
+   ----------------------------------------------------------------------------------------------------------------------------
+   A statement covers one InternalAccount for one calendar month (UTC) and lists every transaction that posted in the
+   month, by posted_at, with a running balance. The opening balance is the sum of everything that posted before the
+   month, so a statement agrees with the balance reconciliation. Statements are cut once, after the month ends, and
+   keep a snapshot of their lines.
+
+   PDFs are rendered on request from the stored statement. Downloads go through a short-lived signed link so that the
+   mobile app can hand the PDF to the system browser, which cannot send the bearer token. Links are signed with
+   STATEMENT_SIGNING_SECRET, which must be set.
+   ============================================================================================================================ */
+
+const DOWNLOAD_LINK_TTL_MS = 5 * 60 * 1000;
+
+export type StatementLine = {
+  transaction_id: number;
+  posted_at: string;
+  description: string;
+  transaction_type: TransactionTypeEnum;
+  amount: string;
+  running_balance: string;
+};
+
+export type StatementTypeTotals = {
+  count: number;
+  credits: string;
+  debits: string; // Always positive
+};
+
+export type StatementData = {
+  internal_account_id: number;
+  period_start: Date;
+  period_end: Date;
+  opening_balance: Decimal;
+  closing_balance: Decimal;
+  total_credits: Decimal;
+  total_debits: Decimal;
+  transaction_count: number;
+  totals_by_type: Partial<Record<TransactionTypeEnum, StatementTypeTotals>>;
+  lines: StatementLine[];
+};
+
+type PostedTransaction = {
+  id: number;
+  amount: Decimal;
+  transaction_type: TransactionTypeEnum;
+  direction: "inbound" | "outbound";
+  posted_at: Date;
+  check_number: string | null;
+  external_nickname: string | null;
+  external_account_number: string | null;
+  reversal_of_id: number | null;
+};
+
+const TYPE_LABELS: Record<TransactionTypeEnum, string> = {
+  internal_transfer: "Internal transfer",
+  external_transfer: "External transfer",
+  billpay: "Bill payment",
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  interest: "Interest paid",
+};
+
+/**
+ * The calendar month (UTC) containing `date`: its first day and the first day of the next month.
+ */
+export function getStatementPeriod(date: Date): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * One-line description of a transaction as it appears on a statement.
+ */
+export function describeTransaction(transaction: PostedTransaction): string {
+  const label =
+    transaction.reversal_of_id !== null
+      ? `Reversal of #${transaction.reversal_of_id}`
+      : TYPE_LABELS[transaction.transaction_type];
+
+  if (transaction.check_number) {
+    return `${label} - check ${transaction.check_number}`;
+  }
+  if (transaction.external_nickname) {
+    return `${label} - ${transaction.external_nickname}`;
+  }
+  if (transaction.external_account_number) {
+    return `${label} - ****${transaction.external_account_number.slice(-4)}`;
+  }
+  if (transaction.transaction_type === "internal_transfer") {
+    return `${label} ${transaction.direction === "inbound" ? "in" : "out"}`;
+  }
+  return label;
+}
+
+/**
+ * Compute the statement for one account and month from its posted transactions. Read-only.
+ * @param period_start - Any date in the month; the whole calendar month is covered
+ */
+export async function buildStatement(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  internal_account_id: number,
+  period_start: Date,
+): Promise<StatementData> {
+  const { start, end } = getStatementPeriod(period_start);
+
+  const before: { _sum: { amount: Decimal | null } } =
+    await prisma.transaction.aggregate({
+      where: {
+        internal_account_id,
+        status: { in: POSTED_STATUSES },
+        posted_at: { lt: start },
+      },
+      _sum: { amount: true },
+    });
+
+  const transactions: PostedTransaction[] = await prisma.transaction.findMany({
+    where: {
+      internal_account_id,
+      status: { in: POSTED_STATUSES },
+      posted_at: { gte: start, lt: end },
+    },
+    select: {
+      id: true,
+      amount: true,
+      transaction_type: true,
+      direction: true,
+      posted_at: true,
+      check_number: true,
+      external_nickname: true,
+      external_account_number: true,
+      reversal_of_id: true,
+    },
+    orderBy: [{ posted_at: "asc" }, { id: "asc" }],
+  });
+
+  const opening_balance = new Decimal(before._sum.amount ?? 0);
+  let balance = opening_balance;
+  let total_credits = new Decimal(0);
+  let total_debits = new Decimal(0);
+  const totals = new Map<
+    TransactionTypeEnum,
+    { count: number; credits: Decimal; debits: Decimal }
+  >();
+
+  const lines = transactions.map((transaction) => {
+    const amount = new Decimal(transaction.amount);
+    balance = balance.add(amount);
+
+    const typeTotals = totals.get(transaction.transaction_type) ?? {
+      count: 0,
+      credits: new Decimal(0),
+      debits: new Decimal(0),
+    };
+    typeTotals.count++;
+    if (amount.isNegative()) {
+      typeTotals.debits = typeTotals.debits.add(amount.abs());
+      total_debits = total_debits.add(amount.abs());
+    } else {
+      typeTotals.credits = typeTotals.credits.add(amount);
+      total_credits = total_credits.add(amount);
+    }
+    totals.set(transaction.transaction_type, typeTotals);
+
+    return {
+      transaction_id: transaction.id,
+      posted_at: new Date(transaction.posted_at).toISOString(),
+      description: describeTransaction(transaction),
+      transaction_type: transaction.transaction_type,
+      amount: amount.toFixed(2),
+      running_balance: balance.toFixed(2),
+    };
+  });
+
+  const totals_by_type: StatementData["totals_by_type"] = {};
+  for (const [type, typeTotals] of totals) {
+    totals_by_type[type] = {
+      count: typeTotals.count,
+      credits: typeTotals.credits.toFixed(2),
+      debits: typeTotals.debits.toFixed(2),
+    };
+  }
+
+  const period_end = new Date(end);
+  period_end.setUTCDate(period_end.getUTCDate() - 1);
+
+  return {
+    internal_account_id,
+    period_start: start,
+    period_end,
+    opening_balance,
+    closing_balance: balance,
+    total_credits,
+    total_debits,
+    transaction_count: lines.length,
+    totals_by_type,
+    lines,
+  };
+}
+
+/**
+ * Cut and store the statement for one account and month. A statement that already exists is returned unchanged.
+ * @param period_start - Any date in the month; the month must be over
+ */
+export async function cutStatement(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  internal_account_id: number,
+  period_start: Date,
+  now: Date = new Date(),
+) {
+  const { start, end } = getStatementPeriod(period_start);
+  if (end > now) {
+    throw new Error(
+      `Cannot cut a statement for ${start.toISOString().slice(0, 7)} before the month is over`,
+    );
+  }
+
+  const existing = await prisma.accountStatement.findUnique({
+    where: {
+      internal_account_id_period_start: {
+        internal_account_id,
+        period_start: start,
+      },
+    },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const statement = await buildStatement(prisma, internal_account_id, start);
+
+  return await prisma.accountStatement.upsert({
+    where: {
+      internal_account_id_period_start: {
+        internal_account_id,
+        period_start: start,
+      },
+    },
+    create: statement,
+    update: {},
+  });
+}
+
+/**
+ * Cut last month's statement for every account opened before the month ended. Each account is cut
+ * separately so one failure does not hold up the rest. Safe to re-run.
+ */
+export async function cutMonthlyStatements(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  prisma: any,
+  now: Date = new Date(),
+): Promise<{
+  period_start: Date;
+  cut: number[];
+  failed: { internal_account_id: number; error: string }[];
+}> {
+  const { start: currentMonth } = getStatementPeriod(now);
+  const period_start = new Date(currentMonth);
+  period_start.setUTCMonth(period_start.getUTCMonth() - 1);
+
+  const accounts: { id: number }[] = await prisma.internalAccount.findMany({
+    where: { created_at: { lt: currentMonth } },
+    select: { id: true },
+    orderBy: { id: "asc" },
+  });
+
+  const cut: number[] = [];
+  const failed: { internal_account_id: number; error: string }[] = [];
+
+  for (const account of accounts) {
+    try {
+      await cutStatement(prisma, account.id, period_start, now);
+      cut.push(account.id);
+    } catch (error) {
+      failed.push({
+        internal_account_id: account.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { period_start, cut, failed };
+}
+
+// A key of its own, so a leaked download link says nothing about any other credential
+function getSigningSecret(): string {
+  const secret = process.env.STATEMENT_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error(
+      "STATEMENT_SIGNING_SECRET must be set to sign statement downloads",
+    );
+  }
+  return secret;
+}
+
+function signStatementDownload(statement_id: number, expires: number): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(`statement:${statement_id}:${expires}`)
+    .digest("hex");
+}
+
+/**
+ * A short-lived link to a statement's PDF that works without the bearer token.
+ */
+export function getStatementDownloadPath(
+  statement_id: number,
+  now: Date = new Date(),
+): { path: string; expires_at: Date } {
+  const expires = now.getTime() + DOWNLOAD_LINK_TTL_MS;
+  const signature = signStatementDownload(statement_id, expires);
+  return {
+    path: `/api/statements/${statement_id}/pdf?expires=${expires}&signature=${signature}`,
+    expires_at: new Date(expires),
+  };
+}
+
+/**
+ * Check a signed statement link.
+ */
+export function verifyStatementDownload(
+  statement_id: number,
+  expires: string | null,
+  signature: string | null,
+  now: Date = new Date(),
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signStatementDownload(statement_id, expiresAt));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -7,6 +7,7 @@ import {
   createDeniedTransaction,
   findExistingTransaction,
   createApprovedTransaction,
+  createPendingTransaction,
 } from "./transactions";
 
 describe("Transaction Library Helpers", () => {
@@ -320,6 +321,7 @@ describe("Transaction Library Helpers", () => {
         data: {
           ...data,
           status: "approved",
+          posted_at: expect.any(Date),
         },
       });
     });
@@ -436,6 +438,7 @@ describe("Transaction Library Helpers", () => {
         data: {
           ...data,
           status: "approved",
+          posted_at: expect.any(Date),
         },
       });
     });
@@ -462,8 +465,110 @@ describe("Transaction Library Helpers", () => {
         data: {
           ...data,
           status: "approved",
+          posted_at: expect.any(Date),
         },
       });
     });
   });
+
+  describe("createPendingTransaction", () => {
+    it("should create a pending inbound transaction without a hold", async () => {
+      const mockTx = {
+        transaction: {
+          create: vi.fn().mockResolvedValue({ id: 5, status: "pending" }),
+        },
+        internalAccount: { updateMany: vi.fn() },
+        fundsHold: { create: vi.fn() },
+      };
+
+      const result = await createPendingTransaction(mockTx, {
+        internal_account_id: 1,
+        amount: new Decimal(250),
+        transaction_type: "deposit",
+        direction: "inbound",
+      });
+
+      expect(result).toEqual({
+        ok: true,
+        transaction: { id: 5, status: "pending" },
+      });
+      expect(mockTx.transaction.create).toHaveBeenCalledWith({
+        data: {
+          internal_account_id: 1,
+          amount: new Decimal(250),
+          transaction_type: "deposit",
+          direction: "inbound",
+          status: "pending",
+        },
+      });
+      expect(mockTx.internalAccount.updateMany).not.toHaveBeenCalled();
+      expect(mockTx.fundsHold.create).not.toHaveBeenCalled();
+    });
+
+    it("should hold funds for a pending outbound transaction", async () => {
+      const mockTx = {
+        transaction: {
+          create: vi.fn().mockResolvedValue({ id: 6, status: "pending" }),
+          update: vi.fn(),
+        },
+        internalAccount: {
+          updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        },
+        fundsHold: { create: vi.fn().mockResolvedValue({ id: 9 }) },
+      };
+
+      const result = await createPendingTransaction(mockTx, {
+        internal_account_id: 1,
+        amount: new Decimal(-80),
+        transaction_type: "billpay",
+        direction: "outbound",
+        bill_pay_rule_id: 3,
+      });
+
+      expect(result.ok).toBe(true);
+      expect(mockTx.internalAccount.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, available_balance: { gte: new Decimal(80) } },
+        data: { available_balance: { decrement: new Decimal(80) } },
+      });
+      expect(mockTx.fundsHold.create).toHaveBeenCalledWith({
+        data: {
+          internal_account_id: 1,
+          transaction_id: 6,
+          amount: new Decimal(80),
+          release_at: null,
+        },
+      });
+      expect(mockTx.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it("should deny the transaction when available funds cannot cover the hold", async () => {
+      const mockTx = {
+        transaction: {
+          create: vi.fn().mockResolvedValue({ id: 7, status: "pending" }),
+          update: vi.fn().mockResolvedValue({ id: 7, status: "denied" }),
+        },
+        internalAccount: {
+          updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+        },
+        fundsHold: { create: vi.fn() },
+      };
+
+      const result = await createPendingTransaction(mockTx, {
+        internal_account_id: 1,
+        amount: new Decimal(-80),
+        transaction_type: "external_transfer",
+        direction: "outbound",
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        transaction: { id: 7, status: "denied" },
+      });
+      expect(mockTx.transaction.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { status: "denied", denial_reason: "Insufficient funds" },
+      });
+      expect(mockTx.fundsHold.create).not.toHaveBeenCalled();
+    });
+  });
 });
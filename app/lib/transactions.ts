@@ -1,6 +1,9 @@
 import { Decimal } from "@prisma/client/runtime/library";
 import { Prisma } from "@prisma/client";
 import { z } from "zod";
+import { postTransfer } from "./ledger";
+import { placeHold } from "./holds";
+import type { Money } from "@/lib/money";
 
 /* ============================================================================================================================
    HELPER FUNCTIONS FOR TRANSACTION PROCESSING
@@ -13,6 +16,11 @@ export function json(status: number, body: unknown) {
   });
 }
 
+// Money as a Prisma Decimal (dollars) for ledger postings and database writes
+export function toDecimal(money: Money): Decimal {
+  return new Decimal(money.toString());
+}
+
 // Amount validation to avoid floating point issues
 export const Amount = z
   .union([z.string(), z.number()])
@@ -33,6 +41,10 @@ export async function createDeniedTransaction(
     idempotency_key?: string | null;
     bill_pay_rule_id?: number;
     transfer_rule_id?: number;
+    denial_reason?: string;
+    external_routing_number?: string;
+    external_account_number?: string;
+    external_nickname?: string;
   },
 ) {
   return await tx.transaction.create({
@@ -90,6 +102,7 @@ export async function createApprovedTransaction(
     external_routing_number?: string;
     external_account_number?: string;
     external_nickname?: string;
+    journal_entry_id?: number;
   },
   successMessage: string,
 ) {
@@ -98,6 +111,7 @@ export async function createApprovedTransaction(
       data: {
         ...data,
         status: "approved" as const,
+        posted_at: new Date(),
       },
     });
     return { success: true, message: successMessage, transaction };
@@ -126,3 +140,78 @@ export async function createApprovedTransaction(
     throw e;
   }
 }
+
+// Helper to create a pending transaction that posts to the ledger later (see settlement.ts).
+// Outbound transactions reserve their funds with a hold; if the account cannot cover it the
+// transaction is recorded as denied instead.
+export async function createPendingTransaction(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  data: {
+    internal_account_id: number;
+    amount: Decimal;
+    transaction_type: string;
+    direction: string;
+    idempotency_key?: string | null;
+    bill_pay_rule_id?: number;
+    transfer_rule_id?: number;
+    external_routing_number?: string;
+    external_account_number?: string;
+    external_nickname?: string;
+  },
+) {
+  const transaction = await tx.transaction.create({
+    data: {
+      ...data,
+      status: "pending" as const,
+    },
+  });
+
+  if (data.direction !== "outbound") {
+    return { ok: true as const, transaction };
+  }
+
+  const hold = await placeHold(tx, {
+    internal_account_id: data.internal_account_id,
+    amount: data.amount.abs(),
+    transaction_id: transaction.id,
+    guard_sufficient_funds: true,
+  });
+
+  if (!hold) {
+    const denied = await tx.transaction.update({
+      where: { id: transaction.id },
+      data: { status: "denied" as const, denial_reason: "Insufficient funds" },
+    });
+    return { ok: false as const, transaction: denied };
+  }
+
+  return { ok: true as const, transaction };
+}
+
+// Helper to fund a newly opened account through the journal (cash clearing -> account)
+export async function postOpeningDeposit(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  internal_account_id: number,
+  amount: Decimal,
+) {
+  const posting = await postTransfer(tx, {
+    from: { system_account: "cash_clearing" },
+    to: { internal_account_id },
+    amount,
+    description: "Opening deposit",
+  });
+
+  return await tx.transaction.create({
+    data: {
+      internal_account_id,
+      amount,
+      transaction_type: "deposit",
+      direction: "inbound",
+      status: "approved" as const,
+      posted_at: new Date(),
+      journal_entry_id: posting.journal_entry.id,
+    },
+  });
+}
@@ -0,0 +1,333 @@
+import { describe, it, expect, vi } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import {
+  getFirstRunAt,
+  getNextRunAt,
+  runTransferRule,
+  runTransferRuleOccurrence,
+  type DueTransferRule,
+} from "./transfer-rules";
+
+const checking = {
+  id: 1,
+  user_id: 10,
+  account_number: "1000000001",
+  account_type: "checking" as const,
+  is_active: true,
+  overdraft_protection_account_id: null,
+};
+const savings = {
+  ...checking,
+  id: 2,
+  account_number: "1000000002",
+  account_type: "savings" as const,
+};
+
+function createRule(overrides: Partial<DueTransferRule> = {}): DueTransferRule {
+  return {
+    id: 7,
+    user_id: 10,
+    transfer_kind: "recurring",
+    frequency: "0 9 1 * *",
+    start_time: new Date("2025-11-01T00:00:00Z"),
+    end_time: null,
+    run_at: null,
+    amount: new Decimal("100.00"),
+    source_internal: checking,
+    destination_internal: savings,
+    destination_external: null,
+    ...overrides,
+  };
+}
+
+function createMockTx({ funded = 1, rule = createRule() } = {}) {
+  return {
+    transferRule: {
+      findUnique: vi.fn().mockResolvedValue({ is_active: true, ...rule }),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    transaction: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: 300, ...data })),
+      update: vi
+        .fn()
+        .mockImplementation(async ({ data }) => ({ id: 300, ...data })),
+      aggregate: vi.fn().mockResolvedValue({ _sum: { amount: null } }),
+    },
+    transactionLimit: { findMany: vi.fn().mockResolvedValue([]) },
+    userTransactionLimit: { findMany: vi.fn().mockResolvedValue([]) },
+    $queryRaw: vi.fn().mockResolvedValue([]),
+    $executeRaw: vi.fn().mockResolvedValue(0),
+    internalAccount: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 1,
+        available_balance: new Decimal(1000),
+        overdraft_protection_account: null,
+      }),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: funded }),
+    },
+    journalEntry: {
+      create: vi.fn().mockResolvedValue({ id: 77 }),
+    },
+    fundsHold: {
+      create: vi.fn().mockResolvedValue({ id: 5 }),
+    },
+  };
+}
+
+describe("Scheduled transfer rules", () => {
+  describe("getFirstRunAt", () => {
+    it("should run a one-off rule at run_at", () => {
+      const run_at = new Date("2026-01-15T12:00:00Z");
+
+      expect(
+        getFirstRunAt({
+          transfer_kind: "one_off",
+          frequency: null,
+          start_time: run_at,
+          end_time: null,
+          run_at,
+        }),
+      ).toEqual(run_at);
+    });
+
+    it("should include a recurring rule's start time", () => {
+      expect(
+        getFirstRunAt(
+          createRule({ start_time: new Date("2026-01-01T09:00:00Z") }),
+          new Date("2025-12-04T00:00:00Z"),
+        ),
+      ).toEqual(new Date("2026-01-01T09:00:00Z"));
+    });
+
+    it("should not schedule a rescheduled rule in the past", () => {
+      expect(
+        getFirstRunAt(createRule(), new Date("2025-12-04T00:00:00Z")),
+      ).toEqual(new Date("2026-01-01T09:00:00Z"));
+    });
+  });
+
+  describe("getNextRunAt", () => {
+    it("should stop after the end time", () => {
+      const rule = createRule({ end_time: new Date("2025-12-31T00:00:00Z") });
+
+      expect(getNextRunAt(rule, new Date("2025-11-01T09:00:00Z"))).toEqual(
+        new Date("2025-12-01T09:00:00Z"),
+      );
+      expect(getNextRunAt(rule, new Date("2025-12-01T09:00:00Z"))).toBeNull();
+    });
+
+    it("should never repeat a one-off rule", () => {
+      expect(
+        getNextRunAt(createRule({ transfer_kind: "one_off" }), new Date()),
+      ).toBeNull();
+    });
+  });
+
+  describe("runTransferRule", () => {
+    const scheduled_for = new Date("2025-12-01T09:00:00Z");
+    const now = new Date("2025-12-01T09:02:00Z");
+
+    it("should post an internal transfer", async () => {
+      const tx = createMockTx();
+
+      const run = await runTransferRule(tx, createRule(), scheduled_for, now);
+
+      expect(run.status).toBe("approved");
+      expect(tx.journalEntry.create).toHaveBeenCalledOnce();
+
+      const rows = tx.transaction.create.mock.calls.map(([{ data }]) => data);
+      expect(rows).toMatchObject([
+        {
+          internal_account_id: 1,
+          direction: "outbound",
+          status: "approved",
+          idempotency_key: "transfer_rule_7_2025-12-01T09:00:00.000Z",
+        },
+        {
+          internal_account_id: 2,
+          direction: "inbound",
+          status: "approved",
+          idempotency_key: "transfer_rule_7_2025-12-01T09:00:00.000Z-inbound",
+        },
+      ]);
+      expect(rows[0].amount.toString()).toBe("-100");
+    });
+
+    it("should hold funds for an external transfer until it settles", async () => {
+      const tx = createMockTx();
+      const rule = createRule({
+        destination_internal: null,
+        destination_external: {
+          id: 3,
+          nickname: "Credit union",
+          account_number: "555000111",
+          routing_number: "021000021",
+        },
+      });
+
+      const run = await runTransferRule(tx, rule, scheduled_for, now);
+
+      expect(run.status).toBe("pending");
+      expect(tx.fundsHold.create).toHaveBeenCalledOnce();
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transaction_type: "external_transfer",
+          status: "pending",
+          external_routing_number: "021000021",
+          external_nickname: "Credit union",
+        }),
+      });
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should deny the transfer when funds are short", async () => {
+      const tx = createMockTx({ funded: 0 });
+
+      const run = await runTransferRule(tx, createRule(), scheduled_for, now);
+
+      expect(run).toMatchObject({
+        status: "denied",
+        reason: "Insufficient funds",
+      });
+      expect(tx.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: "denied" }),
+      });
+    });
+
+    it("should roll back the overdraft sweep when the transfer is still denied", async () => {
+      const tx = createMockTx({ funded: 0 });
+
+      const run = await runTransferRule(tx, createRule(), scheduled_for, now);
+
+      expect(run).toMatchObject({ status: "denied" });
+      expect(tx.$executeRaw.mock.calls.map(([sql]) => sql[0])).toEqual([
+        "SAVEPOINT overdraft_protection_sweep",
+        "ROLLBACK TO SAVEPOINT overdraft_protection_sweep",
+      ]);
+      // The denial is recorded after the rollback, so it is kept
+      expect(tx.transaction.create.mock.invocationCallOrder[0]).toBeGreaterThan(
+        tx.$executeRaw.mock.invocationCallOrder[1],
+      );
+    });
+
+    it("should not sweep a transfer into the protecting savings account", async () => {
+      const tx = createMockTx();
+      const rule = createRule({
+        source_internal: { ...checking, overdraft_protection_account_id: 2 },
+      });
+
+      await runTransferRule(tx, rule, scheduled_for, now);
+
+      expect(tx.$executeRaw).not.toHaveBeenCalled();
+      expect(tx.internalAccount.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should deny transfers to an inactive account", async () => {
+      const tx = createMockTx();
+      const rule = createRule({
+        destination_internal: { ...savings, is_active: false },
+      });
+
+      const run = await runTransferRule(tx, rule, scheduled_for, now);
+
+      expect(run).toMatchObject({
+        status: "denied",
+        reason: "Destination account is inactive",
+      });
+      expect(tx.journalEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should not run an occurrence twice", async () => {
+      const tx = createMockTx();
+      tx.transaction.findFirst.mockResolvedValue({ id: 299 });
+
+      const run = await runTransferRule(tx, createRule(), scheduled_for, now);
+
+      expect(run).toEqual({ status: "skipped", transaction_id: 299 });
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("runTransferRuleOccurrence", () => {
+    const scheduled_for = new Date("2025-12-01T09:00:00Z");
+    const now = new Date("2025-12-01T09:02:00Z");
+
+    it("should run the transfer and return the next run", async () => {
+      const tx = createMockTx();
+
+      const occurrence = await runTransferRuleOccurrence(
+        tx,
+        7,
+        scheduled_for,
+        now,
+      );
+
+      expect(occurrence).toMatchObject({
+        status: "approved",
+        next_run_at: new Date("2026-01-01T09:00:00Z"),
+      });
+      expect(tx.transferRule.update).not.toHaveBeenCalled();
+    });
+
+    it("should finish a one-off rule after it runs", async () => {
+      const tx = createMockTx({
+        rule: createRule({
+          transfer_kind: "one_off",
+          frequency: null,
+          run_at: scheduled_for,
+        }),
+      });
+
+      const occurrence = await runTransferRuleOccurrence(
+        tx,
+        7,
+        scheduled_for,
+        now,
+      );
+
+      expect(occurrence.next_run_at).toBeNull();
+      expect(tx.transferRule.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { is_active: false },
+      });
+    });
+
+    it("should skip missed runs rather than catch up on each", async () => {
+      const tx = createMockTx();
+
+      const occurrence = await runTransferRuleOccurrence(
+        tx,
+        7,
+        scheduled_for,
+        new Date("2026-02-15T00:00:00Z"),
+      );
+
+      expect(occurrence.next_run_at).toEqual(new Date("2026-03-01T09:00:00Z"));
+    });
+
+    it("should not run a canceled rule", async () => {
+      const tx = createMockTx();
+      tx.transferRule.findUnique.mockResolvedValue({
+        ...createRule(),
+        is_active: false,
+      });
+
+      const occurrence = await runTransferRuleOccurrence(
+        tx,
+        7,
+        scheduled_for,
+        now,
+      );
+
+      expect(occurrence).toMatchObject({
+        status: "skipped",
+        next_run_at: null,
+      });
+      expect(tx.transaction.create).not.toHaveBeenCalled();
+    });
+  });
+});
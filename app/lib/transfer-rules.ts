@@ -0,0 +1,310 @@
+import { Decimal } from "@prisma/client/runtime/library";
+import { nextCronRun } from "@/lib/cron";
+import { Money } from "@/lib/money";
+import { postTransfer } from "./ledger";
+import { checkTransactionLimits } from "./limits";
+import { sweepOverdraftProtectionUndoably } from "./overdraft";
+import type { ScheduledOccurrence } from "./scheduler";
+import {
+  createApprovedTransaction,
+  createDeniedTransaction,
+  createPendingTransaction,
+  findExistingTransaction,
+} from "./transactions";
+
+/* ============================================================================================================================
+   SCHEDULED TRANSFER RULES
+   ----------------------------------------------------------------------------------------------------------------------------
+   A TransferRule moves a fixed amount from one of the user's accounts to another of their accounts or to a saved external
+   account. A one-off rule runs once at run_at; a recurring rule runs on its cron frequency from start_time until end_time.
+   The scheduler (scheduler.ts) keeps each rule's next run on its ScheduledJob and calls runTransferRuleOccurrence when
+   it is due.
+
+   Runs that fall behind catch up with a single transfer rather than one per missed occurrence. Internal transfers post
+   immediately; external transfers hold the funds and post when the ACH settles (see settlement.ts).
+   ============================================================================================================================ */
+
+export type TransferRuleSchedule = {
+  transfer_kind: "one_off" | "recurring";
+  frequency: string | null;
+  start_time: Date;
+  end_time: Date | null;
+  run_at: Date | null;
+};
+
+type RuleAccount = {
+  id: number;
+  account_number: string;
+  account_type: "checking" | "savings";
+  is_active: boolean;
+  overdraft_protection_account_id: number | null;
+};
+
+export type DueTransferRule = TransferRuleSchedule & {
+  id: number;
+  user_id: number;
+  amount: Decimal;
+  source_internal: RuleAccount & { user_id: number };
+  destination_internal: RuleAccount | null;
+  destination_external: {
+    id: number;
+    nickname: string | null;
+    account_number: string;
+    routing_number: string;
+  } | null;
+};
+
+export type TransferRuleRun = Omit<ScheduledOccurrence, "next_run_at">;
+
+// Relations a rule needs to run or be shown to its owner
+export const TRANSFER_RULE_INCLUDE = {
+  source_internal: true,
+  destination_internal: true,
+  destination_external: true,
+  scheduled_job: true,
+} as const;
+
+/**
+ * When a new or rescheduled rule should first run: run_at for a one-off rule, or the first time its frequency
+ * fires at or after start_time (and after `now`) for a recurring one.
+ * @returns The first run, or null if the rule would never run (e.g. it ends before its frequency fires)
+ */
+export function getFirstRunAt(
+  schedule: TransferRuleSchedule,
+  now: Date = new Date(),
+): Date | null {
+  if (schedule.transfer_kind === "one_off") {
+    return schedule.run_at;
+  }
+  const justBeforeStart = new Date(schedule.start_time.getTime() - 1);
+  return getNextRunAt(schedule, justBeforeStart > now ? justBeforeStart : now);
+}
+
+/**
+ * The next time a recurring rule fires strictly after `after`, within its end_time.
+ * @returns The next run, or null for one-off rules and rules with no runs left
+ */
+export function getNextRunAt(
+  schedule: TransferRuleSchedule,
+  after: Date,
+): Date | null {
+  if (schedule.transfer_kind === "one_off" || !schedule.frequency) {
+    return null;
+  }
+  const next = nextCronRun(schedule.frequency, after);
+  if (!next || (schedule.end_time && next > schedule.end_time)) {
+    return null;
+  }
+  return next;
+}
+
+/**
+ * A rule as returned by the /api/transfers/rules endpoints.
+ */
+export function formatTransferRule(
+  rule: TransferRuleSchedule & {
+    id: number;
+    source_internal_id: number;
+    destination_internal_id: number | null;
+    destination_external_id: number | null;
+    amount: Decimal;
+    scheduled_job?: {
+      next_run_at: Date | null;
+      last_run_at: Date | null;
+    } | null;
+    destination_internal?: { account_number: string } | null;
+    destination_external?: {
+      nickname: string | null;
+      account_number: string;
+    } | null;
+  },
+) {
+  const destinationNumber =
+    rule.destination_internal?.account_number ??
+    rule.destination_external?.account_number ??
+    "";
+
+  return {
+    id: rule.id,
+    transfer_kind: rule.transfer_kind,
+    source_internal_id: rule.source_internal_id,
+    destination_internal_id: rule.destination_internal_id,
+    destination_external_id: rule.destination_external_id,
+    destination_label:
+      rule.destination_external?.nickname ||
+      `****${destinationNumber.slice(-4)}`,
+    amount: Money.from(rule.amount),
+    frequency: rule.frequency,
+    run_at: rule.run_at?.toISOString() ?? null,
+    start_time: rule.start_time.toISOString(),
+    end_time: rule.end_time?.toISOString() ?? null,
+    next_run_at: rule.scheduled_job?.next_run_at?.toISOString() ?? null,
+    last_run_at: rule.scheduled_job?.last_run_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Run a rule's occurrence at `scheduled_for`. Must be called inside a Prisma interactive transaction.
+ * A transfer that cannot go through is recorded as a denied transaction; an occurrence that already ran is not
+ * run again.
+ */
+export async function runTransferRule(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule: DueTransferRule,
+  scheduled_for: Date,
+  now: Date = new Date(),
+): Promise<TransferRuleRun> {
+  const source = rule.source_internal;
+  const destination = rule.destination_internal;
+  const external = rule.destination_external;
+  const transaction_type = destination
+    ? "internal_transfer"
+    : "external_transfer";
+  const idempotency_key = `transfer_rule_${rule.id}_${scheduled_for.toISOString()}`;
+  const outbound = {
+    internal_account_id: source.id,
+    amount: rule.amount.neg(),
+    transaction_type,
+    direction: "outbound",
+    transfer_rule_id: rule.id,
+    idempotency_key,
+  };
+
+  const deny = async (reason: string): Promise<TransferRuleRun> => {
+    const denied = await createDeniedTransaction(tx, outbound);
+    return {
+      status: "denied",
+      transaction_id: denied.id,
+      reason,
+    };
+  };
+
+  const existing = await findExistingTransaction(tx, outbound);
+  if (existing) {
+    return {
+      status: "skipped",
+      transaction_id: existing.id,
+    };
+  }
+
+  if (!source.is_active) {
+    return deny("Source account is inactive");
+  }
+  if (!destination && !external) {
+    return deny("Destination account not found");
+  }
+  if (destination && !destination.is_active) {
+    return deny("Destination account is inactive");
+  }
+
+  const limitCheck = await checkTransactionLimits(
+    tx,
+    source,
+    transaction_type,
+    rule.amount,
+    now,
+  );
+  if (!limitCheck.ok) {
+    return deny(limitCheck.error);
+  }
+
+  // No sweep when paying into the protecting savings account itself
+  const undoSweep =
+    !destination || destination.id !== source.overdraft_protection_account_id
+      ? await sweepOverdraftProtectionUndoably(tx, source.id, rule.amount, now)
+      : null;
+
+  if (!destination) {
+    // Hold the funds now; the transfer posts once the ACH settles
+    const pending = await createPendingTransaction(tx, {
+      ...outbound,
+      external_routing_number: external!.routing_number,
+      external_account_number: external!.account_number,
+      external_nickname: external!.nickname ?? undefined,
+    });
+    if (!pending.ok) {
+      await undoSweep?.();
+      return deny("Insufficient funds");
+    }
+    return {
+      status: "pending",
+      transaction_id: pending.transaction.id,
+    };
+  }
+
+  const posting = await postTransfer(tx, {
+    from: { internal_account_id: source.id },
+    to: { internal_account_id: destination.id },
+    amount: rule.amount,
+    description: "Scheduled transfer",
+    guard_sufficient_funds: true,
+  });
+  if (!posting.ok) {
+    await undoSweep?.();
+    return deny("Insufficient funds");
+  }
+
+  const approved = await createApprovedTransaction(
+    tx,
+    { ...outbound, journal_entry_id: posting.journal_entry.id },
+    "Scheduled transfer completed",
+  );
+  await tx.transaction.create({
+    data: {
+      internal_account_id: destination.id,
+      amount: rule.amount,
+      transaction_type,
+      direction: "inbound",
+      status: "approved",
+      posted_at: now,
+      transfer_rule_id: rule.id,
+      idempotency_key: `${idempotency_key}-inbound`,
+      journal_entry_id: posting.journal_entry.id,
+    },
+  });
+
+  return {
+    status: "approved",
+    transaction_id: approved.transaction.id,
+  };
+}
+
+/**
+ * Scheduler handler: run a rule's occurrence at `scheduled_for` and work out its next run. A rule with no runs
+ * left is finished. Must be called inside a Prisma interactive transaction.
+ */
+export async function runTransferRuleOccurrence(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  tx: any,
+  rule_id: number,
+  scheduled_for: Date,
+  now: Date,
+): Promise<ScheduledOccurrence> {
+  const rule: (DueTransferRule & { is_active: boolean }) | null =
+    await tx.transferRule.findUnique({
+      where: { id: rule_id },
+      include: TRANSFER_RULE_INCLUDE,
+    });
+  if (!rule || !rule.is_active) {
+    return {
+      status: "skipped",
+      reason: "Rule is not active",
+      next_run_at: null,
+    };
+  }
+
+  const next_run_at = getNextRunAt(
+    rule,
+    scheduled_for > now ? scheduled_for : now,
+  );
+  if (!next_run_at) {
+    await tx.transferRule.update({
+      where: { id: rule.id },
+      data: { is_active: false },
+    });
+  }
+
+  const run = await runTransferRule(tx, rule, scheduled_for, now);
+  return { ...run, next_run_at };
+}
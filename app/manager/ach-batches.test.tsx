@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { AchBatches } from "./ach-batches";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  getAchBatches: vi.fn(),
+  generateAchFile: vi.fn(),
+  getAchFile: vi.fn(),
+  markAchBatchSent: vi.fn(),
+}));
+
+vi.mock("./export-utils", () => ({
+  downloadAchFile: vi.fn(),
+}));
+
+import {
+  getAchBatches,
+  generateAchFile,
+  getAchFile,
+  markAchBatchSent,
+} from "./actions";
+import { downloadAchFile } from "./export-utils";
+
+const generatedBatch = {
+  id: 7,
+  created_at: new Date("2025-12-10T18:30:00Z"),
+  kind: "origination" as const,
+  status: "generated" as const,
+  sent_at: null,
+  effective_date: new Date("2025-12-11T00:00:00Z"),
+  file_id_modifier: "A",
+  entry_count: 2,
+  total_credit: 334.12,
+};
+
+describe("AchBatches", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAchBatches).mockResolvedValue({
+      batches: [generatedBatch],
+      unbatched: 3,
+    });
+    vi.mocked(generateAchFile).mockResolvedValue({
+      success: true,
+      batch_id: 8,
+      skipped: 0,
+    });
+    vi.mocked(getAchFile).mockResolvedValue({
+      filename: "ach-20251210-A.txt",
+      contents: "101 011000015 724722907...",
+    });
+    vi.mocked(markAchBatchSent).mockResolvedValue({ success: true });
+  });
+
+  it("should list batches with their totals", async () => {
+    render(<AchBatches />);
+
+    await waitFor(() => {
+      expect(screen.getByText("#7 (A)")).toBeInTheDocument();
+    });
+    expect(screen.getByText("$334.12")).toBeInTheDocument();
+    expect(screen.getByText("Generated")).toBeInTheDocument();
+    expect(
+      screen.getByText(/3 outbound payment\(s\) waiting/),
+    ).toBeInTheDocument();
+  });
+
+  it("should label files that return inbound entries", async () => {
+    vi.mocked(getAchBatches).mockResolvedValue({
+      batches: [
+        { ...generatedBatch, id: 8, kind: "returns", file_id_modifier: "B" },
+        generatedBatch,
+      ],
+      unbatched: 0,
+    });
+    render(<AchBatches />);
+
+    await screen.findByText("#7 (A)");
+    expect(screen.getAllByText("Returns")).toHaveLength(1);
+  });
+
+  it("should generate a file and report skipped payments", async () => {
+    vi.mocked(generateAchFile).mockResolvedValue({
+      success: true,
+      batch_id: 8,
+      skipped: 1,
+    });
+    render(<AchBatches />);
+
+    // The button is enabled once the waiting payments are counted
+    await screen.findByText("#7 (A)");
+    fireEvent.click(screen.getByRole("button", { name: /Generate File/ }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText(/1 payment\(s\) were left out/),
+      ).toBeInTheDocument();
+    });
+    expect(getAchBatches).toHaveBeenCalledTimes(2);
+  });
+
+  it("should download a batch's file", async () => {
+    render(<AchBatches />);
+
+    fireEvent.click(await screen.findByRole("button", { name: /Download/ }));
+
+    await waitFor(() => {
+      expect(downloadAchFile).toHaveBeenCalledWith(
+        "101 011000015 724722907...",
+        "ach-20251210-A.txt",
+      );
+    });
+  });
+
+  it("should mark a generated batch as sent", async () => {
+    render(<AchBatches />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Mark Sent" }));
+
+    await waitFor(() => {
+      expect(markAchBatchSent).toHaveBeenCalledWith(7);
+    });
+  });
+
+  it("should show errors from generating a file", async () => {
+    vi.mocked(generateAchFile).mockResolvedValue({
+      success: false,
+      error: "No outbound payments are waiting to be sent",
+    });
+    render(<AchBatches />);
+
+    // The button is enabled once the waiting payments are counted
+    await screen.findByText("#7 (A)");
+    fireEvent.click(screen.getByRole("button", { name: /Generate File/ }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("No outbound payments are waiting to be sent"),
+      ).toBeInTheDocument();
+    });
+  });
+});
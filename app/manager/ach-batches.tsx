@@ -0,0 +1,255 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Download, FileText } from "lucide-react";
+import {
+  getAchBatches,
+  generateAchFile,
+  getAchFile,
+  markAchBatchSent,
+  type ManagerAchBatch,
+} from "./actions";
+import { downloadAchFile } from "./export-utils";
+
+export function AchBatches() {
+  const [batches, setBatches] = useState<ManagerAchBatch[]>([]);
+  const [unbatched, setUnbatched] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadBatches = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getAchBatches();
+      setBatches(result.batches);
+      setUnbatched(result.unbatched);
+    } catch (error) {
+      console.error("Failed to load ACH batches:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to load ACH batches",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  const generateFile = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await generateAchFile();
+      if (result.success) {
+        if (result.skipped) {
+          setNotice(
+            `${result.skipped} payment(s) were left out because their routing or account number is invalid.`,
+          );
+        }
+        await loadBatches();
+      } else {
+        setError(result.error || "Failed to generate ACH file");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to generate ACH file",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const downloadFile = async (batch: ManagerAchBatch) => {
+    setError(null);
+    try {
+      const file = await getAchFile(batch.id);
+      if (file) {
+        downloadAchFile(file.contents, file.filename);
+      } else {
+        setError("Batch not found");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to download ACH file",
+      );
+    }
+  };
+
+  const markSent = async (batch: ManagerAchBatch) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await markAchBatchSent(batch.id);
+      if (result.success) {
+        await loadBatches();
+      } else {
+        setError(result.error || "Failed to mark batch as sent");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to mark batch as sent",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(date));
+  };
+
+  // Effective dates are calendar days (UTC)
+  const formatEffectiveDate = (date: Date) => {
+    return new Intl.DateTimeFormat("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    }).format(new Date(date));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>ACH Origination</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {unbatched} outbound payment(s) waiting for the next file.
+              Download each file, transmit it to the ACH operator and mark it as
+              sent.
+            </p>
+          </div>
+          <Button onClick={generateFile} disabled={saving || unbatched === 0}>
+            <FileText className="h-4 w-4 mr-2" />
+            Generate File
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="mb-4 rounded-md border p-3">
+            <p className="text-sm">{notice}</p>
+          </div>
+        )}
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : batches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No ACH files yet.</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead className="text-right">Entries</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="font-medium">
+                      #{batch.id} ({batch.file_id_modifier})
+                      {batch.kind === "returns" && (
+                        <Badge variant="outline" className="ml-2">
+                          Returns
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(batch.created_at)}</TableCell>
+                    <TableCell>
+                      {formatEffectiveDate(batch.effective_date)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {batch.entry_count}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(batch.total_credit)}
+                    </TableCell>
+                    <TableCell>
+                      {batch.status === "sent" && batch.sent_at ? (
+                        <Badge variant="secondary">
+                          Sent {formatDate(batch.sent_at)}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">Generated</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => downloadFile(batch)}
+                        >
+                          <Download className="h-4 w-4 mr-2" />
+                          Download
+                        </Button>
+                        {batch.status === "generated" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => markSent(batch)}
+                            disabled={saving}
+                          >
+                            Mark Sent
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
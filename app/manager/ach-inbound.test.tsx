@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { AchInbound } from "./ach-inbound";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  uploadInboundAchFile: vi.fn(),
+}));
+
+import { uploadInboundAchFile } from "./actions";
+
+function chooseFile(contents: string) {
+  const file = new File([contents], "inbound-20251216.ach", {
+    type: "text/plain",
+  });
+  fireEvent.change(screen.getByTestId("ach-inbound-file"), {
+    target: { files: [file] },
+  });
+}
+
+describe("AchInbound", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(uploadInboundAchFile).mockResolvedValue({
+      success: true,
+      summary: {
+        outcomes: [
+          {
+            trace_number: "021000020000001",
+            account_number: "1234567890",
+            amount_cents: 185000,
+            originator: "ACME PAYROLL",
+            status: "posted",
+            transaction_id: 301,
+          },
+          {
+            trace_number: "021000020000002",
+            account_number: "5555555555",
+            amount_cents: 2500,
+            originator: "ACME PAYROLL",
+            status: "returned",
+            transaction_id: null,
+            return_code: "R03",
+          },
+        ],
+        return_batch_id: 9,
+      },
+    });
+  });
+
+  it("should upload the chosen file and list what was posted and returned", async () => {
+    render(<AchInbound />);
+
+    chooseFile("101 724722907 021000020...");
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("inbound-20251216.ach: posted 1 of 2 entries."),
+      ).toBeInTheDocument();
+    });
+    expect(uploadInboundAchFile).toHaveBeenCalledWith(
+      "101 724722907 021000020...",
+    );
+    expect(screen.getByText("$1,850.00")).toBeInTheDocument();
+    expect(screen.getByText("Returned (R03)")).toBeInTheDocument();
+    expect(
+      screen.getByText(/Returns file #9 holds 1 returned entries/),
+    ).toBeInTheDocument();
+  });
+
+  it("should show errors from ingesting the file", async () => {
+    vi.mocked(uploadInboundAchFile).mockResolvedValue({
+      success: false,
+      error: "This file has already been ingested",
+    });
+    render(<AchInbound />);
+
+    chooseFile("101 724722907 021000020...");
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("This file has already been ingested"),
+      ).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Upload } from "lucide-react";
+import { uploadInboundAchFile, type ManagerAchInboundSummary } from "./actions";
+import { readFileAsText } from "./ach-returns";
+import type { InboundAchOutcome } from "@/app/lib/ach-inbound";
+
+const STATUS_LABELS: Record<InboundAchOutcome["status"], string> = {
+  posted: "Posted",
+  already_posted: "Already posted",
+  prenote: "Prenote",
+  returned: "Returned",
+  already_returned: "Already returned",
+  skipped: "Skipped",
+};
+
+export function AchInbound() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [summary, setSummary] = useState<ManagerAchInboundSummary | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFileInputChange = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = e.target.files?.[0];
+    // Let the same file be chosen again
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    setSummary(null);
+    setFileName(file.name);
+    try {
+      const result = await uploadInboundAchFile(await readFileAsText(file));
+      if (result.success && result.summary) {
+        setSummary(result.summary);
+      } else {
+        setError(result.error || "Failed to ingest ACH file");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to ingest ACH file",
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const formatCurrency = (cents: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(cents / 100);
+  };
+
+  const posted = summary
+    ? summary.outcomes.filter((outcome) => outcome.status === "posted").length
+    : 0;
+  const returned = summary
+    ? summary.outcomes.filter((outcome) => outcome.return_code).length
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Inbound ACH</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Upload a file of incoming credits from the ACH operator. Each
+              entry is posted to the account it names; entries for unknown or
+              closed accounts are put in a returns file.
+            </p>
+          </div>
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {uploading ? "Posting..." : "Upload Inbound File"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ach,.txt,text/plain"
+            onChange={handleFileInputChange}
+            className="hidden"
+            data-testid="ach-inbound-file"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        {summary ? (
+          <>
+            <p className="text-sm">
+              {fileName}: posted {posted} of {summary.outcomes.length} entries.
+            </p>
+            {summary.return_batch_id !== null && (
+              <p className="text-sm">
+                Returns file #{summary.return_batch_id} holds {returned}{" "}
+                returned entries. Download and send it from ACH Origination.
+              </p>
+            )}
+            {summary.outcomes.length > 0 && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Trace Number</TableHead>
+                      <TableHead>Originator</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.outcomes.map((outcome, index) => (
+                      <TableRow key={`${outcome.trace_number}-${index}`}>
+                        <TableCell className="font-mono text-sm">
+                          {outcome.trace_number}
+                        </TableCell>
+                        <TableCell>{outcome.originator}</TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {outcome.account_number}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(outcome.amount_cents)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={
+                              outcome.status === "posted"
+                                ? "secondary"
+                                : "outline"
+                            }
+                          >
+                            {STATUS_LABELS[outcome.status]}
+                            {outcome.return_code && ` (${outcome.return_code})`}
+                          </Badge>
+                          {outcome.message && (
+                            <div className="mt-1 text-sm text-muted-foreground">
+                              {outcome.message}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        ) : (
+          !error && (
+            <p className="text-sm text-muted-foreground">
+              No inbound file uploaded yet.
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { AchReturns } from "./ach-returns";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  uploadAchReturnFile: vi.fn(),
+}));
+
+import { uploadAchReturnFile } from "./actions";
+
+function chooseFile(contents: string) {
+  const file = new File([contents], "returns-20251212.ach", {
+    type: "text/plain",
+  });
+  fireEvent.change(screen.getByTestId("ach-return-file"), {
+    target: { files: [file] },
+  });
+}
+
+describe("AchReturns", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(uploadAchReturnFile).mockResolvedValue({
+      success: true,
+      summary: {
+        returns: [
+          {
+            trace_number: "724722900000101",
+            code: "R03",
+            description: "No account or unable to locate account",
+            transaction_id: 101,
+            status: "applied",
+          },
+        ],
+        changes: [
+          {
+            trace_number: "724722900000102",
+            code: "C01",
+            description: "Incorrect account number",
+            transaction_id: 102,
+            status: "skipped",
+            message: "The external account has been changed or removed",
+          },
+        ],
+      },
+    });
+  });
+
+  it("should upload the chosen file and summarize what was applied", async () => {
+    render(<AchReturns />);
+
+    chooseFile("101 724722907 021000020...");
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("returns-20251212.ach: applied 1 of 2 entries."),
+      ).toBeInTheDocument();
+    });
+    expect(uploadAchReturnFile).toHaveBeenCalledWith(
+      "101 724722907 021000020...",
+    );
+    expect(screen.getByText("R03")).toBeInTheDocument();
+    expect(screen.getByText("Applied")).toBeInTheDocument();
+    expect(
+      screen.getByText("The external account has been changed or removed"),
+    ).toBeInTheDocument();
+  });
+
+  it("should show errors from applying the file", async () => {
+    vi.mocked(uploadAchReturnFile).mockResolvedValue({
+      success: false,
+      error: "Line 1 is not a NACHA record",
+    });
+    render(<AchReturns />);
+
+    chooseFile("hello world");
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Line 1 is not a NACHA record"),
+      ).toBeInTheDocument();
+    });
+  });
+});
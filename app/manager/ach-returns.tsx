@@ -0,0 +1,200 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Upload } from "lucide-react";
+import { uploadAchReturnFile, type ManagerAchReturnSummary } from "./actions";
+import type { AchReturnOutcome } from "@/app/lib/ach-returns";
+
+const STATUS_LABELS: Record<AchReturnOutcome["status"], string> = {
+  applied: "Applied",
+  already_applied: "Already applied",
+  unmatched: "Unmatched",
+  skipped: "Skipped",
+};
+
+function OutcomeTable({
+  title,
+  outcomes,
+}: {
+  title: string;
+  outcomes: AchReturnOutcome[];
+}) {
+  if (outcomes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Trace Number</TableHead>
+              <TableHead>Code</TableHead>
+              <TableHead>Transaction</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {outcomes.map((outcome, index) => (
+              <TableRow key={`${outcome.trace_number}-${index}`}>
+                <TableCell className="font-mono text-sm">
+                  {outcome.trace_number}
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{outcome.code}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {outcome.description}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {outcome.transaction_id !== null ? (
+                    `#${outcome.transaction_id}`
+                  ) : (
+                    <span className="text-muted-foreground">None</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={
+                      outcome.status === "applied" ? "secondary" : "outline"
+                    }
+                  >
+                    {STATUS_LABELS[outcome.status]}
+                  </Badge>
+                  {outcome.message && (
+                    <div className="mt-1 text-sm text-muted-foreground">
+                      {outcome.message}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read the file"));
+    reader.readAsText(file);
+  });
+}
+
+export function AchReturns() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [summary, setSummary] = useState<ManagerAchReturnSummary | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFileInputChange = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = e.target.files?.[0];
+    // Let the same file be chosen again
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    setSummary(null);
+    setFileName(file.name);
+    try {
+      const result = await uploadAchReturnFile(await readFileAsText(file));
+      if (result.success && result.summary) {
+        setSummary(result.summary);
+      } else {
+        setError(result.error || "Failed to apply return file");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to apply return file",
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const applied = summary
+    ? [...summary.returns, ...summary.changes].filter(
+        (outcome) => outcome.status === "applied",
+      ).length
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>ACH Returns</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Upload a return file from the ACH operator. Returned payments are
+              refunded to the customer and notifications of change update the
+              saved account or payee.
+            </p>
+          </div>
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {uploading ? "Applying..." : "Upload Return File"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ach,.txt,text/plain"
+            onChange={handleFileInputChange}
+            className="hidden"
+            data-testid="ach-return-file"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        {summary ? (
+          <>
+            <p className="text-sm">
+              {fileName}: applied {applied} of{" "}
+              {summary.returns.length + summary.changes.length} entries.
+            </p>
+            <OutcomeTable title="Returns" outcomes={summary.returns} />
+            <OutcomeTable
+              title="Notifications of Change"
+              outcomes={summary.changes}
+            />
+          </>
+        ) : (
+          !error && (
+            <p className="text-sm text-muted-foreground">
+              No return file uploaded yet.
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,7 +7,15 @@ import {
   getUserTransactions,
   openAccountForUser,
   closeAccountForUser,
+  reverseTransaction,
+  getReconciliationReport,
+  getInterestReport,
+  getUserLimits,
+  setUserLimit,
 } from "./actions";
+import { reverseTransaction as postReversal } from "@/app/lib/reversals";
+import { revalidateTag } from "next/cache";
+import { Decimal } from "@prisma/client/runtime/library";
 
 // Mock Prisma client
 const mockPrisma = {
@@ -20,12 +28,36 @@ const mockPrisma = {
     findUnique: vi.fn(),
     findMany: vi.fn(),
     count: vi.fn(),
+    create: vi.fn(),
+    groupBy: vi.fn(),
   },
   internalAccount: {
     findUnique: vi.fn(),
+    findMany: vi.fn(),
     create: vi.fn(),
     update: vi.fn(),
   },
+  journalLine: {
+    groupBy: vi.fn(),
+  },
+  journalEntry: {
+    create: vi.fn(),
+  },
+  interestRateTier: {
+    findMany: vi.fn(),
+  },
+  interestAccrual: {
+    groupBy: vi.fn(),
+  },
+  transactionLimit: {
+    findMany: vi.fn(),
+  },
+  userTransactionLimit: {
+    findMany: vi.fn(),
+    upsert: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
 };
 
 // Mock getPrisma function
@@ -49,9 +81,18 @@ vi.mock("next/cache", () => ({
   revalidateTag: vi.fn(),
 }));
 
+// Mock the reversal engine (covered by app/lib/reversals.test.ts)
+vi.mock("@/app/lib/reversals", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/app/lib/reversals")>()),
+  reverseTransaction: vi.fn(),
+}));
+
 describe("Manager Actions", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation(
+      async (fn: (tx: typeof mockPrisma) => unknown) => fn(mockPrisma),
+    );
     // Mock successful auth by default
     vi.mocked(mockSupabaseClient.auth.getUser).mockResolvedValue({
       data: {
@@ -177,7 +218,7 @@ describe("Manager Actions", () => {
             id: 1,
             account_number: "1234567890",
             account_type: "checking",
-            balance: 1000,
+            balance: "1000.00",
             is_active: true,
           },
         ],
@@ -226,7 +267,7 @@ describe("Manager Actions", () => {
         {
           id: 1,
           created_at: new Date("2023-01-01"),
-          amount: 100,
+          amount: "100.00",
           status: "approved" as const,
           transaction_type: "internal_transfer" as const,
           direction: "inbound" as const,
@@ -317,7 +358,7 @@ describe("Manager Actions", () => {
       const mockTransaction = {
         id: 1,
         created_at: new Date("2023-01-01"),
-        amount: 100,
+        amount: "100.00",
         status: "approved" as const,
         transaction_type: "internal_transfer" as const,
         direction: "inbound" as const,
@@ -373,7 +414,7 @@ describe("Manager Actions", () => {
         {
           id: 1,
           created_at: new Date("2023-01-01"),
-          amount: 100,
+          amount: "100.00",
           status: "approved" as const,
           transaction_type: "internal_transfer" as const,
           direction: "inbound" as const,
@@ -455,6 +496,7 @@ describe("Manager Actions", () => {
       mockPrisma.user.findUnique.mockResolvedValueOnce(mockUser);
       mockPrisma.internalAccount.findUnique.mockResolvedValue(null);
       mockPrisma.internalAccount.create.mockResolvedValue(mockAccount);
+      mockPrisma.journalEntry.create.mockResolvedValue({ id: 1 });
 
       const result = await openAccountForUser(1, "checking", 100);
 
@@ -520,18 +562,46 @@ describe("Manager Actions", () => {
       mockPrisma.internalAccount.findUnique.mockResolvedValue(null);
       mockPrisma.internalAccount.create.mockResolvedValue(mockAccount);
 
+      mockPrisma.journalEntry.create.mockResolvedValue({ id: 42 });
+
       const result = await openAccountForUser(1, "savings", 500);
 
       expect(result.success).toBe(true);
+      expect(result.account?.balance).toBe("500.00");
+      // The account opens empty and is funded through the journal
       expect(mockPrisma.internalAccount.create).toHaveBeenCalledWith({
         data: {
           account_type: "savings",
           account_number: expect.any(String),
-          balance: 500,
+          balance: 0,
           user_id: 1,
           is_active: true,
         },
       });
+      expect(mockPrisma.journalEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          lines: {
+            create: [
+              expect.objectContaining({
+                system_account: "cash_clearing",
+                side: "debit",
+              }),
+              expect.objectContaining({
+                internal_account_id: 1,
+                side: "credit",
+              }),
+            ],
+          },
+        }),
+      });
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          internal_account_id: 1,
+          transaction_type: "deposit",
+          status: "approved",
+          journal_entry_id: 42,
+        }),
+      });
     });
   });
 
@@ -597,4 +667,312 @@ describe("Manager Actions", () => {
       expect(mockPrisma.internalAccount.update).not.toHaveBeenCalled();
     });
   });
+
+  describe("reverseTransaction", () => {
+    it("should reverse the transaction and invalidate both users' caches", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "bank_manager" });
+      vi.mocked(postReversal).mockResolvedValue({
+        ok: true,
+        reversed: [
+          { id: 100, internal_account: { user_id: 10 } },
+          { id: 101, internal_account: { user_id: 20 } },
+        ] as never,
+        contra_transactions: [{ id: 200 }, { id: 201 }],
+        journal_entry_id: 8,
+      });
+
+      const result = await reverseTransaction(100, "posted_in_error");
+
+      expect(result.success).toBe(true);
+      expect(postReversal).toHaveBeenCalledWith(mockPrisma, {
+        transaction_id: 100,
+        reason: "posted_in_error",
+      });
+      expect(revalidateTag).toHaveBeenCalledWith("accounts-10");
+      expect(revalidateTag).toHaveBeenCalledWith("accounts-20");
+    });
+
+    it("should return the refusal from the reversal engine", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "bank_manager" });
+      vi.mocked(postReversal).mockResolvedValue({
+        ok: false,
+        reason: "already_reversed",
+        error: "Transaction has already been reversed",
+      });
+
+      const result = await reverseTransaction(100, "duplicate");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Transaction has already been reversed");
+      expect(revalidateTag).not.toHaveBeenCalled();
+    });
+
+    it("should return error when user is not a manager", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "customer" });
+
+      const result = await reverseTransaction(100, "fraud");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Unauthorized: Manager role required");
+      expect(postReversal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getReconciliationReport", () => {
+    it("should return discrepancies with amounts converted to numbers", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "bank_manager" });
+      mockPrisma.internalAccount.findMany.mockResolvedValue([
+        {
+          id: 1,
+          account_number: "12345678901234567",
+          user_id: 5,
+          is_active: true,
+          balance: new Decimal("99.99"),
+        },
+      ]);
+      mockPrisma.transaction.groupBy.mockResolvedValue([
+        { internal_account_id: 1, _sum: { amount: new Decimal("100") } },
+      ]);
+      mockPrisma.journalLine.groupBy.mockResolvedValue([
+        {
+          internal_account_id: 1,
+          side: "credit",
+          _sum: { amount: new Decimal("100") },
+        },
+      ]);
+
+      const report = await getReconciliationReport();
+
+      expect(report.accounts_checked).toBe(1);
+      expect(report.discrepancies).toEqual([
+        {
+          internal_account_id: 1,
+          account_number: "12345678901234567",
+          user_id: 5,
+          is_active: true,
+          stored_balance: 99.99,
+          transaction_balance: 100,
+          journal_balance: 100,
+          difference: -0.01,
+        },
+      ]);
+      expect(report.total_difference).toBe(-0.01);
+    });
+
+    it("should throw error when user is not a manager", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "customer" });
+
+      await expect(getReconciliationReport()).rejects.toThrow(
+        "Unauthorized: Manager role required",
+      );
+    });
+  });
+
+  describe("getInterestReport", () => {
+    it("should return tiers and accrued interest per savings account", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "bank_manager" });
+      mockPrisma.interestRateTier.findMany.mockResolvedValue([
+        { min_balance: new Decimal(0), apy: new Decimal("0.035") },
+        { min_balance: new Decimal(10000), apy: new Decimal("0.04") },
+      ]);
+      mockPrisma.internalAccount.findMany.mockResolvedValue([
+        {
+          id: 1,
+          account_number: "12345678901234567",
+          is_active: true,
+          balance: new Decimal("12000"),
+          user: {
+            id: 5,
+            username: "saver",
+            first_name: "Sam",
+            last_name: "Saver",
+          },
+        },
+        {
+          id: 2,
+          account_number: "76543210987654321",
+          is_active: true,
+          balance: new Decimal("0"),
+          user: {
+            id: 6,
+            username: "empty",
+            first_name: "Em",
+            last_name: "Pty",
+          },
+        },
+      ]);
+      mockPrisma.interestAccrual.groupBy.mockResolvedValue([
+        {
+          internal_account_id: 1,
+          _sum: { amount: new Decimal("1.2891") },
+          _count: { _all: 3 },
+          _min: { accrual_date: new Date("2025-12-01T00:00:00Z") },
+        },
+      ]);
+
+      const report = await getInterestReport();
+
+      expect(mockPrisma.internalAccount.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { account_type: "savings" } }),
+      );
+      expect(report.tiers).toEqual([
+        { min_balance: 0, apy: 0.035 },
+        { min_balance: 10000, apy: 0.04 },
+      ]);
+      expect(report.accounts[0]).toMatchObject({
+        internal_account_id: 1,
+        balance: 12000,
+        apy: 0.04,
+        accrued: 1.2891,
+        accrued_days: 3,
+      });
+      expect(report.accounts[1]).toMatchObject({
+        internal_account_id: 2,
+        accrued: 0,
+        accrued_days: 0,
+        accrued_since: null,
+      });
+      expect(report.total_accrued).toBe(1.2891);
+    });
+
+    it("should throw error when user is not a manager", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "customer" });
+
+      await expect(getInterestReport()).rejects.toThrow(
+        "Unauthorized: Manager role required",
+      );
+    });
+  });
+
+  describe("getUserLimits", () => {
+    it("should return defaults and overrides for each account type", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "bank_manager" });
+      mockPrisma.transactionLimit.findMany.mockResolvedValue([
+        {
+          account_type: "checking",
+          limit_type: "daily_withdrawal",
+          amount: new Decimal(5000),
+        },
+        {
+          account_type: "savings",
+          limit_type: "daily_withdrawal",
+          amount: new Decimal(2500),
+        },
+      ]);
+      mockPrisma.userTransactionLimit.findMany.mockResolvedValue([
+        {
+          account_type: "checking",
+          limit_type: "daily_withdrawal",
+          amount: new Decimal(800),
+        },
+      ]);
+
+      const limits = await getUserLimits(5);
+
+      expect(mockPrisma.userTransactionLimit.findMany).toHaveBeenCalledWith({
+        where: { user_id: 5 },
+      });
+      expect(limits).toHaveLength(8);
+      expect(limits).toContainEqual({
+        account_type: "checking",
+        limit_type: "daily_withdrawal",
+        default_amount: 5000,
+        override_amount: 800,
+      });
+      expect(limits).toContainEqual({
+        account_type: "savings",
+        limit_type: "daily_withdrawal",
+        default_amount: 2500,
+        override_amount: null,
+      });
+      expect(limits).toContainEqual({
+        account_type: "savings",
+        limit_type: "per_transaction",
+        default_amount: null,
+        override_amount: null,
+      });
+    });
+
+    it("should throw error when user is not a manager", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "customer" });
+
+      await expect(getUserLimits(5)).rejects.toThrow(
+        "Unauthorized: Manager role required",
+      );
+    });
+  });
+
+  describe("setUserLimit", () => {
+    it("should upsert an override rounded to cents", async () => {
+      mockPrisma.user.findUnique
+        .mockResolvedValueOnce({ role: "bank_manager" })
+        .mockResolvedValueOnce({ id: 5 });
+
+      const result = await setUserLimit(
+        5,
+        "checking",
+        "daily_withdrawal",
+        750.555,
+      );
+
+      expect(result).toEqual({ success: true });
+      expect(mockPrisma.userTransactionLimit.upsert).toHaveBeenCalledWith({
+        where: {
+          user_id_account_type_limit_type: {
+            user_id: 5,
+            account_type: "checking",
+            limit_type: "daily_withdrawal",
+          },
+        },
+        create: {
+          user_id: 5,
+          account_type: "checking",
+          limit_type: "daily_withdrawal",
+          amount: new Decimal("750.56"),
+        },
+        update: { amount: new Decimal("750.56") },
+      });
+    });
+
+    it("should remove the override when the amount is null", async () => {
+      mockPrisma.user.findUnique
+        .mockResolvedValueOnce({ role: "bank_manager" })
+        .mockResolvedValueOnce({ id: 5 });
+
+      const result = await setUserLimit(5, "savings", "per_transaction", null);
+
+      expect(result).toEqual({ success: true });
+      expect(mockPrisma.userTransactionLimit.deleteMany).toHaveBeenCalledWith({
+        where: {
+          user_id: 5,
+          account_type: "savings",
+          limit_type: "per_transaction",
+        },
+      });
+      expect(mockPrisma.userTransactionLimit.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should reject a negative amount", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "bank_manager" });
+
+      const result = await setUserLimit(5, "checking", "per_transaction", -1);
+
+      expect(result).toEqual({
+        success: false,
+        error: "Limit must be a valid non-negative number",
+      });
+      expect(mockPrisma.userTransactionLimit.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should return error when user is not a manager", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ role: "customer" });
+
+      const result = await setUserLimit(5, "checking", "per_transaction", 100);
+
+      expect(result).toEqual({
+        success: false,
+        error: "Unauthorized: Manager role required",
+      });
+    });
+  });
 });
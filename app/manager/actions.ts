@@ -2,7 +2,53 @@
 
 import { getPrisma } from "@/app/lib/prisma";
 import { createClient } from "@/utils/supabase/server";
-import { User, Transaction, InternalAccount } from "@prisma/client";
+import {
+  User,
+  Transaction,
+  InternalAccount,
+  BillPayPayee,
+  AchBatch,
+  PartnerBank,
+  PartnerRequest,
+  DuplicateCheckHit,
+  CheckReview,
+  Prisma,
+  type AccountTypeEnum,
+  type TransactionLimitTypeEnum,
+} from "@prisma/client";
+import { Decimal } from "@prisma/client/runtime/library";
+import { postOpeningDeposit } from "@/app/lib/transactions";
+import {
+  reverseTransaction as postReversal,
+  REVERSAL_REASONS,
+  type ReversalReasonEnum,
+} from "@/app/lib/reversals";
+import { reconcileBalances } from "@/app/lib/reconciliation";
+import { findInterestTier, getAccruedInterest } from "@/app/lib/interest";
+import { LIMIT_TYPES } from "@/app/lib/limits";
+import { Money } from "@/lib/money";
+import { BillCreateSchema } from "@/lib/schemas/billpay";
+import { PartnerBankCreateSchema } from "@/lib/schemas/transfer";
+import { presentBill } from "@/app/lib/billpay";
+import { toDecimal } from "@/app/lib/transactions";
+import { generateApiKey, getKeyPrefix, hashApiKey } from "@/lib/api-key-utils";
+import {
+  originateAchBatch,
+  markAchBatchSent as recordAchBatchSent,
+} from "@/app/lib/ach";
+import {
+  applyAchReturnFile,
+  type AchReturnOutcome,
+} from "@/app/lib/ach-returns";
+import {
+  ingestInboundAchFile,
+  type InboundAchOutcome,
+} from "@/app/lib/ach-inbound";
+import { generatePartnerSecret } from "@/app/lib/partner-banks";
+import { lookupRoutingNumber } from "@/app/lib/routing-directory";
+import { approveCheckReview, rejectCheckReview } from "@/app/lib/check-reviews";
+import { getCheckImageUrl } from "@/app/lib/checks";
+import { MoneySchema } from "@/lib/money";
 
 // Use Prisma generated types with select fields
 export type ManagerUser = Pick<
@@ -23,9 +69,14 @@ export type ManagerUser = Pick<
 
 export type ManagerTransaction = Pick<
   Transaction,
-  "id" | "created_at" | "status" | "transaction_type" | "direction"
+  | "id"
+  | "created_at"
+  | "status"
+  | "transaction_type"
+  | "direction"
+  | "reversal_of_id"
 > & {
-  amount: number; // Converted from Decimal to number for client components
+  amount: string; // Signed dollars from Money, e.g. "-25.00"
   internal_account: {
     account_number: string;
     user: Pick<User, "id" | "username" | "first_name" | "last_name">;
@@ -53,7 +104,7 @@ export type DetailedUser = Pick<
     InternalAccount,
     "id" | "account_number" | "account_type" | "is_active"
   > & {
-    balance: number; // Converted from Decimal to number for client components
+    balance: string; // Dollars from Money, e.g. "1250.00"
   })[];
   _count: {
     internal_accounts: number;
@@ -72,13 +123,173 @@ export type DetailedTransaction = Pick<
   | "external_account_number"
   | "external_nickname"
 > & {
-  amount: number; // Converted from Decimal to number for client components
+  amount: string; // Signed dollars from Money, e.g. "-25.00"
   internal_account: {
     account_number: string;
     user: Pick<User, "id" | "username" | "first_name" | "last_name" | "email">;
   };
 };
 
+export type ReconciliationDiscrepancy = {
+  internal_account_id: number;
+  account_number: string;
+  user_id: number;
+  is_active: boolean;
+  // Converted from Decimal to number for client components
+  stored_balance: number;
+  transaction_balance: number;
+  journal_balance: number;
+  difference: number;
+};
+
+export type ManagerReconciliationReport = {
+  generated_at: Date;
+  accounts_checked: number;
+  discrepancies: ReconciliationDiscrepancy[];
+  total_difference: number;
+};
+
+export type InterestAccount = {
+  internal_account_id: number;
+  account_number: string;
+  is_active: boolean;
+  user: Pick<User, "id" | "username" | "first_name" | "last_name">;
+  // Converted from Decimal to number for client components
+  balance: number;
+  apy: number | null; // Current tier's APY as a fraction; null if the balance is below every tier
+  accrued: number; // Accrued but not yet posted
+  accrued_days: number;
+  accrued_since: Date | null;
+};
+
+export type ManagerInterestReport = {
+  tiers: { min_balance: number; apy: number }[];
+  accounts: InterestAccount[];
+  total_accrued: number;
+};
+
+export type ManagerUserLimit = {
+  account_type: AccountTypeEnum;
+  limit_type: TransactionLimitTypeEnum;
+  // Converted from Decimal to number for client components
+  default_amount: number | null; // Null when the account type has no default
+  override_amount: number | null; // Null when the user has no override
+};
+
+export type ManagerPayee = Pick<
+  BillPayPayee,
+  "id" | "business_name" | "email" | "is_active" | "api_key_prefix"
+> & {
+  open_bills: number;
+};
+
+export type ManagerAchBatch = Pick<
+  AchBatch,
+  | "id"
+  | "created_at"
+  | "kind"
+  | "status"
+  | "sent_at"
+  | "effective_date"
+  | "file_id_modifier"
+  | "entry_count"
+> & {
+  total_credit: number; // Converted from Decimal to number for client components
+};
+
+export type ManagerAchReturnSummary = {
+  returns: AchReturnOutcome[];
+  changes: AchReturnOutcome[];
+};
+
+export type ManagerAchInboundSummary = {
+  outcomes: InboundAchOutcome[];
+  return_batch_id: number | null;
+};
+
+// An earlier check deposit by the same customer
+export type ManagerCheckHistory = Pick<
+  Transaction,
+  "id" | "created_at" | "status"
+> & {
+  amount: number;
+};
+
+export type ManagerCheckReview = Pick<
+  CheckReview,
+  | "id"
+  | "created_at"
+  | "status"
+  | "reasons"
+  | "payee_name"
+  | "payor_name"
+  | "endorsement"
+  | "rejection_reason"
+  | "decided_at"
+> & {
+  transaction_id: number;
+  amount: number; // As read from the check
+  entered_amount: number | null; // As entered by the customer
+  approved_amount: number | null;
+  image_url: string | null; // Pre-signed for an hour when the image is in our storage bucket
+  back_image_url: string | null;
+  routing_number: string | null;
+  account_number: string | null;
+  check_number: string | null;
+  customer: {
+    name: string;
+    email: string;
+    account_number: string;
+    account_opened_at: Date;
+  };
+  history: ManagerCheckHistory[]; // The customer's 5 most recent earlier check deposits
+};
+
+// One side of a duplicate check hit
+export type ManagerCheckDeposit = Pick<
+  Transaction,
+  "id" | "created_at" | "status"
+> & {
+  account_number: string;
+  customer: string; // First and last name
+};
+
+export type ManagerDuplicateCheckHit = Pick<
+  DuplicateCheckHit,
+  "id" | "created_at" | "match" | "reviewed_at"
+> & {
+  amount: number; // Converted from Decimal to number for client components
+  routing_number: string | null;
+  account_number: string | null;
+  check_number: string | null;
+  deposit: ManagerCheckDeposit;
+  original: ManagerCheckDeposit;
+};
+
+export type ManagerPartnerBank = Pick<
+  PartnerBank,
+  "id" | "name" | "routing_number" | "secret_prefix" | "is_active"
+> & {
+  // Converted from Decimal to number for client components
+  per_transfer_limit: number;
+  daily_limit: number;
+};
+
+export type ManagerPartnerRequest = Pick<
+  PartnerRequest,
+  | "id"
+  | "received_at"
+  | "status"
+  | "http_status"
+  | "error"
+  | "destination_account_number"
+  | "source_routing_number"
+  | "transaction_id"
+> & {
+  partner_name: string | null; // Null when the request did not name a registered partner
+  amount: number | null; // Converted from Decimal to number for client components
+};
+
 // Helper function to verify manager role
 async function verifyManagerRole(): Promise<boolean> {
   try {
@@ -218,7 +429,7 @@ export async function getUserById(
         ...user,
         internal_accounts: user.internal_accounts.map((account) => ({
           ...account,
-          balance: Number(account.balance),
+          balance: Money.from(account.balance).toString(),
         })),
       }
     : null;
@@ -282,6 +493,7 @@ export async function getTransactions(params: {
         status: true,
         transaction_type: true,
         direction: true,
+        reversal_of_id: true,
         internal_account: {
           select: {
             account_number: true,
@@ -306,7 +518,7 @@ export async function getTransactions(params: {
   // Convert Decimal amounts to numbers for client components
   const transactionsWithNumbers = transactions.map((transaction) => ({
     ...transaction,
-    amount: Number(transaction.amount),
+    amount: Money.from(transaction.amount).toString(),
   }));
 
   return { transactions: transactionsWithNumbers, total };
@@ -356,7 +568,7 @@ export async function getTransactionById(
   return transaction
     ? {
         ...transaction,
-        amount: Number(transaction.amount),
+        amount: Money.from(transaction.amount).toString(),
       }
     : null;
 }
@@ -385,6 +597,7 @@ export async function getUserTransactions(
       status: true,
       transaction_type: true,
       direction: true,
+      reversal_of_id: true,
       internal_account: {
         select: {
           account_number: true,
@@ -406,7 +619,7 @@ export async function getUserTransactions(
   // Convert Decimal amounts to numbers for client components
   const transactionsWithNumbers = transactions.map((transaction) => ({
     ...transaction,
-    amount: Number(transaction.amount),
+    amount: Money.from(transaction.amount).toString(),
   }));
 
   return transactionsWithNumbers;
@@ -452,7 +665,7 @@ export async function openAccountForUser(
     account_number: string;
     routing_number: string;
     account_type: "checking" | "savings";
-    balance: number;
+    balance: string;
     is_active: boolean;
     created_at: Date;
   };
@@ -491,15 +704,25 @@ export async function openAccountForUser(
   try {
     const accountNumber = await generateUniqueAccountNumber();
 
-    // Create account
-    const account = await prisma.internalAccount.create({
-      data: {
-        account_type: accountType,
-        account_number: accountNumber,
-        balance: initialDeposit || 0,
-        user_id: userId,
-        is_active: true,
-      },
+    // Create account; any initial deposit is posted through the journal
+    const openingDeposit = new Decimal(String(initialDeposit || 0));
+    const account = await prisma.$transaction(async (tx) => {
+      const created = await tx.internalAccount.create({
+        data: {
+          account_type: accountType,
+          account_number: accountNumber,
+          balance: 0,
+          user_id: userId,
+          is_active: true,
+        },
+      });
+
+      if (openingDeposit.lte(0)) {
+        return created;
+      }
+
+      await postOpeningDeposit(tx, created.id, openingDeposit);
+      return { ...created, balance: openingDeposit };
     });
 
     // Invalidate cache for the user
@@ -514,7 +737,7 @@ export async function openAccountForUser(
         account_number: account.account_number,
         routing_number: account.routing_number,
         account_type: account.account_type,
-        balance: Number(account.balance),
+        balance: Money.from(account.balance).toString(),
         is_active: account.is_active,
         created_at: account.created_at,
       },
@@ -558,7 +781,7 @@ export async function closeAccountForUser(accountId: number): Promise<{
     }
 
     // Check if account has zero balance
-    if (Number(account.balance) !== 0) {
+    if (!Money.from(account.balance).isZero()) {
       return {
         success: false,
         error: "Account must have zero balance before closing",
@@ -586,3 +809,1167 @@ export async function closeAccountForUser(accountId: number): Promise<{
     };
   }
 }
+
+// Reverse a posted transaction with a contra entry (manager only)
+export async function reverseTransaction(
+  transactionId: number,
+  reason: ReversalReasonEnum,
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  if (!REVERSAL_REASONS.includes(reason)) {
+    return {
+      success: false,
+      error: "Invalid reversal reason",
+    };
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const result = await prisma.$transaction(async (tx) =>
+      postReversal(tx, { transaction_id: transactionId, reason }),
+    );
+
+    if (!result.ok) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    // Invalidate cache for every user whose balance moved
+    const { revalidateTag } = await import("next/cache");
+    const userIds = new Set(
+      result.reversed.map(
+        (transaction) => transaction.internal_account.user_id,
+      ),
+    );
+    for (const userId of userIds) {
+      await revalidateTag(`user-${userId}`);
+      await revalidateTag(`transactions-${userId}`);
+      await revalidateTag(`accounts-${userId}`);
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to reverse transaction",
+    };
+  }
+}
+
+// Recompute balances from posted transactions and report accounts that disagree
+export async function getReconciliationReport(): Promise<ManagerReconciliationReport> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const report = await reconcileBalances(getPrisma());
+
+  // Convert Decimal amounts to numbers for client components
+  return {
+    generated_at: report.generated_at,
+    accounts_checked: report.accounts_checked,
+    discrepancies: report.discrepancies.map((account) => ({
+      ...account,
+      stored_balance: Number(account.stored_balance),
+      transaction_balance: Number(account.transaction_balance),
+      journal_balance: Number(account.journal_balance),
+      difference: Number(account.difference),
+    })),
+    total_difference: Number(report.total_difference),
+  };
+}
+
+// Get savings interest tiers and each savings account's accrued-but-unpaid interest (manager only)
+export async function getInterestReport(): Promise<ManagerInterestReport> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const prisma = getPrisma();
+
+  const [tiers, accounts, accruals] = await Promise.all([
+    prisma.interestRateTier.findMany({ orderBy: { min_balance: "asc" } }),
+    prisma.internalAccount.findMany({
+      where: { account_type: "savings" },
+      select: {
+        id: true,
+        account_number: true,
+        is_active: true,
+        balance: true,
+        user: {
+          select: {
+            id: true,
+            username: true,
+            first_name: true,
+            last_name: true,
+          },
+        },
+      },
+      orderBy: { id: "asc" },
+    }),
+    getAccruedInterest(prisma),
+  ]);
+
+  const accruedByAccount = new Map(
+    accruals.map((accrual) => [accrual.internal_account_id, accrual]),
+  );
+
+  // Convert Decimal amounts to numbers for client components
+  const interestAccounts = accounts.map((account) => {
+    const accrual = accruedByAccount.get(account.id);
+    const tier = findInterestTier(tiers, new Decimal(account.balance));
+    return {
+      internal_account_id: account.id,
+      account_number: account.account_number,
+      is_active: account.is_active,
+      user: account.user,
+      balance: Number(account.balance),
+      apy: tier ? Number(tier.apy) : null,
+      accrued: accrual ? Number(accrual.accrued) : 0,
+      accrued_days: accrual?.days ?? 0,
+      accrued_since: accrual?.since ?? null,
+    };
+  });
+
+  return {
+    tiers: tiers.map((tier) => ({
+      min_balance: Number(tier.min_balance),
+      apy: Number(tier.apy),
+    })),
+    accounts: interestAccounts,
+    total_accrued: Number(
+      accruals.reduce(
+        (sum, accrual) => sum.add(accrual.accrued),
+        new Decimal(0),
+      ),
+    ),
+  };
+}
+
+// Get the default and overridden transaction limits for a user's checking and savings accounts (manager only)
+export async function getUserLimits(
+  userId: number,
+): Promise<ManagerUserLimit[]> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const prisma = getPrisma();
+
+  const [defaults, overrides] = await Promise.all([
+    prisma.transactionLimit.findMany(),
+    prisma.userTransactionLimit.findMany({ where: { user_id: userId } }),
+  ]);
+
+  const accountTypes: AccountTypeEnum[] = ["checking", "savings"];
+  return accountTypes.flatMap((account_type) =>
+    LIMIT_TYPES.map((limit_type) => {
+      const defaultLimit = defaults.find(
+        (limit) =>
+          limit.account_type === account_type &&
+          limit.limit_type === limit_type,
+      );
+      const override = overrides.find(
+        (limit) =>
+          limit.account_type === account_type &&
+          limit.limit_type === limit_type,
+      );
+      return {
+        account_type,
+        limit_type,
+        default_amount: defaultLimit ? Number(defaultLimit.amount) : null,
+        override_amount: override ? Number(override.amount) : null,
+      };
+    }),
+  );
+}
+
+// Override one of a user's transaction limits, or pass null to go back to the default (manager only)
+export async function setUserLimit(
+  userId: number,
+  accountType: AccountTypeEnum,
+  limitType: TransactionLimitTypeEnum,
+  amount: number | null,
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  if (
+    !["checking", "savings"].includes(accountType) ||
+    !LIMIT_TYPES.includes(limitType)
+  ) {
+    return {
+      success: false,
+      error: "Invalid limit",
+    };
+  }
+
+  if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+    return {
+      success: false,
+      error: "Limit must be a valid non-negative number",
+    };
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return {
+        success: false,
+        error: "User not found",
+      };
+    }
+
+    if (amount === null) {
+      await prisma.userTransactionLimit.deleteMany({
+        where: {
+          user_id: userId,
+          account_type: accountType,
+          limit_type: limitType,
+        },
+      });
+    } else {
+      const limitAmount = new Decimal(amount).toDecimalPlaces(2);
+      await prisma.userTransactionLimit.upsert({
+        where: {
+          user_id_account_type_limit_type: {
+            user_id: userId,
+            account_type: accountType,
+            limit_type: limitType,
+          },
+        },
+        create: {
+          user_id: userId,
+          account_type: accountType,
+          limit_type: limitType,
+          amount: limitAmount,
+        },
+        update: { amount: limitAmount },
+      });
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update limit",
+    };
+  }
+}
+
+// Bill pay payees, with whether they have an API key for presenting bills (manager only)
+export async function getBillPayPayees(): Promise<ManagerPayee[]> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const payees = await getPrisma().billPayPayee.findMany({
+    select: {
+      id: true,
+      business_name: true,
+      email: true,
+      is_active: true,
+      api_key_prefix: true,
+      _count: { select: { bills: { where: { status: "open" } } } },
+    },
+    orderBy: { business_name: "asc" },
+  });
+
+  return payees.map(({ _count, ...payee }) => ({
+    ...payee,
+    open_bills: _count.bills,
+  }));
+}
+
+// Issue a payee a new API key for presenting bills, replacing any key it had (manager only)
+export async function issuePayeeApiKey(payeeId: number): Promise<{
+  success: boolean;
+  api_key?: string; // Only ever returned here; the payee must store it
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const apiKey = generateApiKey();
+    const updated = await getPrisma().billPayPayee.updateMany({
+      where: { id: payeeId },
+      data: {
+        api_key_hash: hashApiKey(apiKey),
+        api_key_prefix: getKeyPrefix(apiKey),
+      },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: false,
+        error: "Payee not found",
+      };
+    }
+
+    return {
+      success: true,
+      api_key: apiKey,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to issue API key",
+    };
+  }
+}
+
+// Present a bill to a customer on behalf of a payee (manager only)
+export async function presentBillForPayee(
+  payeeId: number,
+  bill: {
+    customer_email: string;
+    amount_due: string;
+    due_date: string;
+    reference?: string;
+  },
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  const parseResult = BillCreateSchema.safeParse(bill);
+  if (!parseResult.success) {
+    return {
+      success: false,
+      error: parseResult.error.issues[0]?.message || "Invalid bill",
+    };
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const payee = await prisma.billPayPayee.findUnique({
+      where: { id: payeeId },
+    });
+
+    if (!payee) {
+      return {
+        success: false,
+        error: "Payee not found",
+      };
+    }
+
+    const customer = await prisma.user.findUnique({
+      where: { email: parseResult.data.customer_email },
+    });
+
+    if (!customer || customer.role !== "customer") {
+      return {
+        success: false,
+        error: "Customer not found",
+      };
+    }
+
+    await prisma.$transaction((tx) =>
+      presentBill(tx, {
+        payee_id: payee.id,
+        user_id: customer.id,
+        amount_due: toDecimal(parseResult.data.amount_due),
+        due_date: new Date(parseResult.data.due_date),
+        reference: parseResult.data.reference ?? null,
+      }),
+    );
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to present bill",
+    };
+  }
+}
+
+// Get ACH batches, newest first, and how many outbound payments are waiting for the next file (manager only)
+export async function getAchBatches(): Promise<{
+  batches: ManagerAchBatch[];
+  unbatched: number;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const prisma = getPrisma();
+  const [batches, unbatched] = await Promise.all([
+    prisma.achBatch.findMany({
+      select: {
+        id: true,
+        created_at: true,
+        kind: true,
+        status: true,
+        sent_at: true,
+        effective_date: true,
+        file_id_modifier: true,
+        entry_count: true,
+        total_credit: true,
+      },
+      orderBy: { created_at: "desc" },
+    }),
+    prisma.transaction.count({
+      where: {
+        status: "pending",
+        direction: "outbound",
+        transaction_type: { in: ["external_transfer", "billpay"] },
+        ach_batch_id: null,
+        external_routing_number: { not: null },
+      },
+    }),
+  ]);
+
+  return {
+    batches: batches.map((batch) => ({
+      ...batch,
+      total_credit: batch.total_credit.toNumber(),
+    })),
+    unbatched,
+  };
+}
+
+// Generate a NACHA file from the outbound payments not yet sent (manager only)
+export async function generateAchFile(): Promise<{
+  success: boolean;
+  batch_id?: number;
+  skipped?: number; // Payments left out because their account details are invalid
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const result = await getPrisma().$transaction((tx) =>
+      originateAchBatch(tx),
+    );
+
+    if (!result) {
+      return {
+        success: false,
+        error: "No outbound payments are waiting to be sent",
+      };
+    }
+
+    return {
+      success: true,
+      batch_id: result.batch_id,
+      skipped: result.skipped.length,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to generate ACH file",
+    };
+  }
+}
+
+// Get a batch's NACHA file for download (manager only)
+export async function getAchFile(
+  batchId: number,
+): Promise<{ filename: string; contents: string } | null> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const batch = await getPrisma().achBatch.findUnique({
+    where: { id: batchId },
+    select: { created_at: true, file_id_modifier: true, file_contents: true },
+  });
+
+  if (!batch) {
+    return null;
+  }
+
+  const date = batch.created_at.toISOString().slice(0, 10).replace(/-/g, "");
+  return {
+    filename: `ach-${date}-${batch.file_id_modifier}.txt`,
+    contents: batch.file_contents,
+  };
+}
+
+// Record that a batch's file was transmitted to the ACH operator (manager only)
+export async function markAchBatchSent(batchId: number): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const marked = await recordAchBatchSent(getPrisma(), batchId);
+
+    if (!marked) {
+      return {
+        success: false,
+        error: "Batch not found or already sent",
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to mark batch as sent",
+    };
+  }
+}
+
+// Apply the returns and notifications of change in a NACHA return file (manager only)
+export async function uploadAchReturnFile(contents: string): Promise<{
+  success: boolean;
+  summary?: ManagerAchReturnSummary;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const summary = await applyAchReturnFile(getPrisma(), contents);
+
+    if (summary.returns.length === 0 && summary.changes.length === 0) {
+      return {
+        success: false,
+        error: "The file has no returns or notifications of change",
+      };
+    }
+
+    return {
+      success: true,
+      summary,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to apply return file",
+    };
+  }
+}
+
+// Post the credits in an inbound ACH file and queue a returns file for the entries that cannot be posted (manager only)
+export async function uploadInboundAchFile(contents: string): Promise<{
+  success: boolean;
+  summary?: ManagerAchInboundSummary;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const { outcomes, return_batch_id } = await ingestInboundAchFile(
+      getPrisma(),
+      contents,
+    );
+
+    return {
+      success: true,
+      summary: { outcomes, return_batch_id },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to ingest ACH file",
+    };
+  }
+}
+
+// Partner banks allowed to send inbound credits over the partner channel (manager only)
+export async function getPartnerBanks(): Promise<ManagerPartnerBank[]> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const partners = await getPrisma().partnerBank.findMany({
+    select: {
+      id: true,
+      name: true,
+      routing_number: true,
+      secret_prefix: true,
+      is_active: true,
+      per_transfer_limit: true,
+      daily_limit: true,
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return partners.map((partner) => ({
+    ...partner,
+    per_transfer_limit: Number(partner.per_transfer_limit),
+    daily_limit: Number(partner.daily_limit),
+  }));
+}
+
+// Register a partner bank and issue its signing secret (manager only)
+export async function registerPartnerBank(partner: {
+  name: string;
+  routing_number: string;
+  per_transfer_limit: string;
+  daily_limit: string;
+}): Promise<{
+  success: boolean;
+  signing_secret?: string; // Only ever returned here; the partner must store it
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  const parseResult = PartnerBankCreateSchema.safeParse(partner);
+  if (!parseResult.success) {
+    return {
+      success: false,
+      error: parseResult.error.issues[0]?.message || "Invalid partner bank",
+    };
+  }
+
+  const prisma = getPrisma();
+
+  try {
+    const bank = await lookupRoutingNumber(
+      prisma,
+      parseResult.data.routing_number,
+    );
+    if (!bank.ok) {
+      return {
+        success: false,
+        error: bank.error,
+      };
+    }
+
+    const signingSecret = generatePartnerSecret();
+    await prisma.partnerBank.create({
+      data: {
+        name: parseResult.data.name,
+        routing_number: parseResult.data.routing_number,
+        signing_secret: signingSecret,
+        secret_prefix: getKeyPrefix(signingSecret),
+        per_transfer_limit: toDecimal(parseResult.data.per_transfer_limit),
+        daily_limit: toDecimal(parseResult.data.daily_limit),
+      },
+    });
+
+    return {
+      success: true,
+      signing_secret: signingSecret,
+    };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return {
+        success: false,
+        error: "A partner bank with this routing number is already registered",
+      };
+    }
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to register partner bank",
+    };
+  }
+}
+
+// Issue a partner bank a new signing secret, replacing the one it had (manager only)
+export async function issuePartnerSecret(partnerId: number): Promise<{
+  success: boolean;
+  signing_secret?: string; // Only ever returned here; the partner must store it
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const signingSecret = generatePartnerSecret();
+    const updated = await getPrisma().partnerBank.updateMany({
+      where: { id: partnerId },
+      data: {
+        signing_secret: signingSecret,
+        secret_prefix: getKeyPrefix(signingSecret),
+      },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: false,
+        error: "Partner bank not found",
+      };
+    }
+
+    return {
+      success: true,
+      signing_secret: signingSecret,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to issue secret",
+    };
+  }
+}
+
+// Suspend a partner bank's access to the partner channel, or restore it (manager only)
+export async function setPartnerBankActive(
+  partnerId: number,
+  isActive: boolean,
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const updated = await getPrisma().partnerBank.updateMany({
+      where: { id: partnerId },
+      data: { is_active: isActive },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: false,
+        error: "Partner bank not found",
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update partner bank",
+    };
+  }
+}
+
+// The most recent requests to the partner channel, accepted or not (manager only)
+export async function getPartnerRequests(): Promise<ManagerPartnerRequest[]> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const requests = await getPrisma().partnerRequest.findMany({
+    select: {
+      id: true,
+      received_at: true,
+      status: true,
+      http_status: true,
+      error: true,
+      destination_account_number: true,
+      source_routing_number: true,
+      transaction_id: true,
+      amount: true,
+      partner_bank: { select: { name: true } },
+    },
+    orderBy: { id: "desc" },
+    take: 50,
+  });
+
+  return requests.map(({ partner_bank, ...request }) => ({
+    ...request,
+    partner_name: partner_bank?.name ?? null,
+    amount: request.amount === null ? null : Number(request.amount),
+  }));
+}
+
+// Check deposits that repeat an earlier deposit of the same check, unreviewed first (manager only)
+export async function getDuplicateCheckHits(): Promise<
+  ManagerDuplicateCheckHit[]
+> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const depositSelect = {
+    id: true,
+    created_at: true,
+    status: true,
+    amount: true,
+    external_routing_number: true,
+    external_account_number: true,
+    check_number: true,
+    internal_account: {
+      select: {
+        account_number: true,
+        user: { select: { first_name: true, last_name: true } },
+      },
+    },
+  } as const;
+
+  const hits = await getPrisma().duplicateCheckHit.findMany({
+    select: {
+      id: true,
+      created_at: true,
+      match: true,
+      reviewed_at: true,
+      transaction: { select: depositSelect },
+      original_transaction: { select: depositSelect },
+    },
+    orderBy: [
+      { reviewed_at: { sort: "desc", nulls: "first" } },
+      { id: "desc" },
+    ],
+    take: 50,
+  });
+
+  const toDeposit = (
+    deposit: (typeof hits)[number]["transaction"],
+  ): ManagerCheckDeposit => ({
+    id: deposit.id,
+    created_at: deposit.created_at,
+    status: deposit.status,
+    account_number: deposit.internal_account.account_number,
+    customer: `${deposit.internal_account.user.first_name} ${deposit.internal_account.user.last_name}`,
+  });
+
+  return hits.map((hit) => ({
+    id: hit.id,
+    created_at: hit.created_at,
+    match: hit.match,
+    reviewed_at: hit.reviewed_at,
+    amount: Number(hit.transaction.amount),
+    routing_number: hit.transaction.external_routing_number,
+    account_number: hit.transaction.external_account_number,
+    check_number: hit.transaction.check_number,
+    deposit: toDeposit(hit.transaction),
+    original: toDeposit(hit.original_transaction),
+  }));
+}
+
+// Mark a duplicate check hit as reviewed (manager only)
+export async function reviewDuplicateCheckHit(hitId: number): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const updated = await getPrisma().duplicateCheckHit.updateMany({
+      where: { id: hitId, reviewed_at: null },
+      data: { reviewed_at: new Date() },
+    });
+
+    if (updated.count === 0) {
+      return {
+        success: false,
+        error: "Duplicate check not found or already reviewed",
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to review duplicate check",
+    };
+  }
+}
+
+// Check deposits sent for review, open ones first (manager only)
+export async function getCheckReviews(): Promise<ManagerCheckReview[]> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    throw new Error("Unauthorized: Manager role required");
+  }
+
+  const prisma = getPrisma();
+  const reviews = await prisma.checkReview.findMany({
+    include: {
+      transaction: {
+        include: {
+          internal_account: {
+            select: {
+              account_number: true,
+              created_at: true,
+              user: {
+                select: {
+                  id: true,
+                  first_name: true,
+                  last_name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    orderBy: [{ status: "asc" }, { id: "desc" }],
+    take: 50,
+  });
+
+  return await Promise.all(
+    reviews.map(async (review) => {
+      const { transaction } = review;
+      const { internal_account: account } = transaction;
+
+      const history = await prisma.transaction.findMany({
+        where: {
+          id: { lt: transaction.id },
+          internal_account: { user_id: account.user.id },
+          transaction_type: "deposit",
+          check_image_url: { not: null },
+        },
+        select: { id: true, created_at: true, status: true, amount: true },
+        orderBy: { id: "desc" },
+        take: 5,
+      });
+
+      return {
+        id: review.id,
+        created_at: review.created_at,
+        status: review.status,
+        reasons: review.reasons,
+        payee_name: review.payee_name,
+        payor_name: review.payor_name,
+        endorsement: review.endorsement,
+        rejection_reason: review.rejection_reason,
+        decided_at: review.decided_at,
+        transaction_id: transaction.id,
+        amount: Number(review.extracted_amount),
+        entered_amount:
+          review.entered_amount === null ? null : Number(review.entered_amount),
+        approved_amount:
+          review.approved_amount === null
+            ? null
+            : Number(review.approved_amount),
+        image_url: transaction.check_image_url
+          ? await getCheckImageUrl(transaction.check_image_url)
+          : null,
+        back_image_url: transaction.check_back_image_url
+          ? await getCheckImageUrl(transaction.check_back_image_url)
+          : null,
+        routing_number: transaction.external_routing_number,
+        account_number: transaction.external_account_number,
+        check_number: transaction.check_number,
+        customer: {
+          name: `${account.user.first_name} ${account.user.last_name}`,
+          email: account.user.email,
+          account_number: account.account_number,
+          account_opened_at: account.created_at,
+        },
+        history: history.map((deposit) => ({
+          ...deposit,
+          amount: Number(deposit.amount),
+        })),
+      };
+    }),
+  );
+}
+
+// Approve a check deposit under review, optionally at an adjusted amount (manager only)
+export async function approveCheckDeposit(
+  reviewId: number,
+  amount: string,
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  const parsedAmount = MoneySchema.safeParse(amount);
+  if (!parsedAmount.success) {
+    return {
+      success: false,
+      error: parsedAmount.error.issues[0]?.message || "Invalid amount",
+    };
+  }
+
+  try {
+    const result = await getPrisma().$transaction((tx) =>
+      approveCheckReview(tx, reviewId, toDecimal(parsedAmount.data)),
+    );
+
+    if (!result.ok) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    const { revalidateTag } = await import("next/cache");
+    await revalidateTag(`user-${result.user_id}`);
+    await revalidateTag(`transactions-${result.user_id}`);
+    await revalidateTag(`accounts-${result.user_id}`);
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to approve check deposit",
+    };
+  }
+}
+
+// Reject a check deposit under review with a reason the customer sees (manager only)
+export async function rejectCheckDeposit(
+  reviewId: number,
+  reason: string,
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const isManager = await verifyManagerRole();
+  if (!isManager) {
+    return {
+      success: false,
+      error: "Unauthorized: Manager role required",
+    };
+  }
+
+  try {
+    const result = await getPrisma().$transaction((tx) =>
+      rejectCheckReview(tx, reviewId, reason),
+    );
+
+    if (!result.ok) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    const { revalidateTag } = await import("next/cache");
+    await revalidateTag(`user-${result.user_id}`);
+    await revalidateTag(`transactions-${result.user_id}`);
+    await revalidateTag(`accounts-${result.user_id}`);
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to reject check deposit",
+    };
+  }
+}
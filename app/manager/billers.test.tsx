@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { Billers } from "./billers";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  getBillPayPayees: vi.fn(),
+  issuePayeeApiKey: vi.fn(),
+  presentBillForPayee: vi.fn(),
+}));
+
+import {
+  getBillPayPayees,
+  issuePayeeApiKey,
+  presentBillForPayee,
+} from "./actions";
+
+const payees = [
+  {
+    id: 6,
+    business_name: "City Water",
+    email: "billing@citywater.example",
+    is_active: true,
+    api_key_prefix: null,
+    open_bills: 2,
+  },
+];
+
+describe("Billers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBillPayPayees).mockResolvedValue(payees);
+    vi.mocked(issuePayeeApiKey).mockResolvedValue({
+      success: true,
+      api_key: "cs_160abcdef",
+    });
+    vi.mocked(presentBillForPayee).mockResolvedValue({ success: true });
+  });
+
+  it("should list payees with their open bills", async () => {
+    render(<Billers />);
+
+    await waitFor(() => {
+      expect(screen.getByText("City Water")).toBeInTheDocument();
+    });
+    expect(screen.getByText("2")).toBeInTheDocument();
+    expect(screen.getByText("None")).toBeInTheDocument();
+  });
+
+  it("should show a newly issued key once", async () => {
+    render(<Billers />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Issue Key" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("cs_160abcdef")).toBeInTheDocument();
+    });
+    expect(issuePayeeApiKey).toHaveBeenCalledWith(6);
+  });
+
+  it("should present a bill due at the start of its due date", async () => {
+    render(<Billers />);
+
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Present Bill" }),
+    );
+    fireEvent.change(screen.getByLabelText("Customer email"), {
+      target: { value: "jane@example.com" },
+    });
+    fireEvent.change(screen.getByLabelText("Amount due"), {
+      target: { value: "84.12" },
+    });
+    fireEvent.change(screen.getByLabelText("Due date"), {
+      target: { value: "2026-01-15" },
+    });
+    // The table behind the dialog is hidden while it is open
+    fireEvent.click(screen.getByRole("button", { name: "Present Bill" }));
+
+    await waitFor(() => {
+      expect(presentBillForPayee).toHaveBeenCalledWith(6, {
+        customer_email: "jane@example.com",
+        amount_due: "84.12",
+        due_date: "2026-01-15T00:00:00.000Z",
+        reference: undefined,
+      });
+    });
+  });
+});
@@ -0,0 +1,306 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, KeyRound } from "lucide-react";
+import {
+  getBillPayPayees,
+  issuePayeeApiKey,
+  presentBillForPayee,
+  type ManagerPayee,
+} from "./actions";
+
+const EMPTY_BILL = {
+  customer_email: "",
+  amount_due: "",
+  due_date: "",
+  reference: "",
+};
+
+export function Billers() {
+  const [payees, setPayees] = useState<ManagerPayee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [issuedKey, setIssuedKey] = useState<{
+    payee: string;
+    api_key: string;
+  } | null>(null);
+  const [billPayee, setBillPayee] = useState<ManagerPayee | null>(null);
+  const [bill, setBill] = useState(EMPTY_BILL);
+  const [billError, setBillError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadPayees = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPayees(await getBillPayPayees());
+    } catch (error) {
+      console.error("Failed to load billers:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to load billers",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPayees();
+  }, [loadPayees]);
+
+  const issueKey = async (payee: ManagerPayee) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await issuePayeeApiKey(payee.id);
+      if (result.success && result.api_key) {
+        setIssuedKey({ payee: payee.business_name, api_key: result.api_key });
+        await loadPayees();
+      } else {
+        setError(result.error || "Failed to issue API key");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to issue API key",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const closeBillDialog = () => {
+    setBillPayee(null);
+    setBill(EMPTY_BILL);
+    setBillError(null);
+  };
+
+  const submitBill = async () => {
+    if (!billPayee) return;
+
+    setSaving(true);
+    setBillError(null);
+    try {
+      const result = await presentBillForPayee(billPayee.id, {
+        customer_email: bill.customer_email,
+        amount_due: bill.amount_due,
+        // Bills fall due at the start of their due date (UTC)
+        due_date: bill.due_date
+          ? new Date(`${bill.due_date}T00:00:00Z`).toISOString()
+          : "",
+        reference: bill.reference || undefined,
+      });
+      if (result.success) {
+        closeBillDialog();
+        await loadPayees();
+      } else {
+        setBillError(result.error || "Failed to present bill");
+      }
+    } catch (error) {
+      setBillError(
+        error instanceof Error ? error.message : "Failed to present bill",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Billers</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Payees present bills to customers with their API key, or you can
+          present a bill on a payee&apos;s behalf.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        {issuedKey && (
+          <div className="mb-4 rounded-md border p-3 space-y-1">
+            <p className="text-sm flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              New API key for {issuedKey.payee}. It will not be shown again.
+            </p>
+            <code className="block break-all text-sm">{issuedKey.api_key}</code>
+          </div>
+        )}
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : payees.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payees yet.</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payee</TableHead>
+                  <TableHead>API Key</TableHead>
+                  <TableHead className="text-right">Open Bills</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payees.map((payee) => (
+                  <TableRow key={payee.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {payee.business_name}{" "}
+                        {!payee.is_active && (
+                          <Badge variant="outline">Inactive</Badge>
+                        )}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {payee.email}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {payee.api_key_prefix ? (
+                        <code className="text-sm">
+                          {payee.api_key_prefix}...
+                        </code>
+                      ) : (
+                        <span className="text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {payee.open_bills}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => issueKey(payee)}
+                          disabled={saving}
+                        >
+                          {payee.api_key_prefix ? "Replace Key" : "Issue Key"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setBillPayee(payee)}
+                          disabled={saving}
+                        >
+                          Present Bill
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+      <Dialog
+        open={billPayee !== null}
+        onOpenChange={(open) => !open && closeBillDialog()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Present Bill</DialogTitle>
+            <DialogDescription>
+              Present a bill from {billPayee?.business_name} to a customer. The
+              customer&apos;s statement balance rules for this payee pay it on
+              its due date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="bill-customer-email">Customer email</Label>
+              <Input
+                id="bill-customer-email"
+                type="email"
+                value={bill.customer_email}
+                onChange={(e) =>
+                  setBill({ ...bill, customer_email: e.target.value })
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor="bill-amount-due">Amount due</Label>
+              <Input
+                id="bill-amount-due"
+                inputMode="decimal"
+                placeholder="0.00"
+                value={bill.amount_due}
+                onChange={(e) =>
+                  setBill({ ...bill, amount_due: e.target.value })
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor="bill-due-date">Due date</Label>
+              <Input
+                id="bill-due-date"
+                type="date"
+                value={bill.due_date}
+                onChange={(e) => setBill({ ...bill, due_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="bill-reference">Reference (optional)</Label>
+              <Input
+                id="bill-reference"
+                maxLength={64}
+                value={bill.reference}
+                onChange={(e) =>
+                  setBill({ ...bill, reference: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          {billError && (
+            <div className="rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+              <p className="text-sm text-destructive">{billError}</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeBillDialog}
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={submitBill} disabled={saving}>
+              {saving ? "Presenting..." : "Present Bill"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { CheckReviews } from "./check-reviews";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  getCheckReviews: vi.fn(),
+  approveCheckDeposit: vi.fn(),
+  rejectCheckDeposit: vi.fn(),
+}));
+
+import {
+  approveCheckDeposit,
+  getCheckReviews,
+  rejectCheckDeposit,
+} from "./actions";
+
+const reviews = [
+  {
+    id: 3,
+    created_at: new Date("2025-12-21T15:00:00Z"),
+    status: "open" as const,
+    reasons: ["large_amount" as const, "first_deposit" as const],
+    payee_name: "Jane Smith",
+    payor_name: "Acme Corp",
+    endorsement: "For Mobile Deposit Only",
+    rejection_reason: null,
+    decided_at: null,
+    transaction_id: 42,
+    amount: 7500,
+    entered_amount: 750,
+    approved_amount: null,
+    image_url: "https://storage.example.com/check-42.jpg?token=abc",
+    back_image_url: "https://storage.example.com/check-42-back.jpg?token=abc",
+    routing_number: "121000358",
+    account_number: "000123456789",
+    check_number: "1042",
+    customer: {
+      name: "Jane Smith",
+      email: "jane@example.com",
+      account_number: "1234567890",
+      account_opened_at: new Date("2024-01-01T00:00:00Z"),
+    },
+    history: [
+      {
+        id: 30,
+        created_at: new Date("2025-11-01T15:00:00Z"),
+        status: "denied" as const,
+        amount: 120,
+      },
+    ],
+  },
+];
+
+describe("CheckReviews", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getCheckReviews).mockResolvedValue(reviews);
+    vi.mocked(approveCheckDeposit).mockResolvedValue({ success: true });
+    vi.mocked(rejectCheckDeposit).mockResolvedValue({ success: true });
+  });
+
+  it("should list check deposits waiting for review", async () => {
+    render(<CheckReviews />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Jane Smith")).toBeInTheDocument();
+    });
+    expect(screen.getByText("$7,500.00")).toBeInTheDocument();
+    expect(screen.getByText("Large amount")).toBeInTheDocument();
+    expect(screen.getByText("First deposit")).toBeInTheDocument();
+    expect(screen.getByText("Open")).toBeInTheDocument();
+  });
+
+  it("should show the check image, fields and history when reviewing", async () => {
+    render(<CheckReviews />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Review" }));
+
+    expect(screen.getByAltText("Check image")).toHaveAttribute(
+      "src",
+      reviews[0].image_url,
+    );
+    expect(screen.getByAltText("Back of check")).toHaveAttribute(
+      "src",
+      reviews[0].back_image_url,
+    );
+    expect(screen.getByText("Acme Corp")).toBeInTheDocument();
+    expect(screen.getByText("$750.00")).toBeInTheDocument();
+    expect(screen.getByText("For Mobile Deposit Only")).toBeInTheDocument();
+    expect(screen.getByText("1042")).toBeInTheDocument();
+    expect(screen.getByText("$120.00")).toBeInTheDocument();
+    expect(screen.getByLabelText("Amount to post")).toHaveValue("7500.00");
+  });
+
+  it("should approve a deposit at an adjusted amount", async () => {
+    render(<CheckReviews />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Review" }));
+    fireEvent.change(screen.getByLabelText("Amount to post"), {
+      target: { value: "750.00" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Approve" }));
+
+    await waitFor(() => {
+      expect(approveCheckDeposit).toHaveBeenCalledWith(3, "750.00");
+    });
+    expect(getCheckReviews).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject a deposit only with a reason", async () => {
+    render(<CheckReviews />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Review" }));
+    const reject = screen.getByRole("button", { name: "Reject" });
+    expect(reject).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Reason for rejecting"), {
+      target: { value: "Check is not endorsed" },
+    });
+    fireEvent.click(reject);
+
+    await waitFor(() => {
+      expect(rejectCheckDeposit).toHaveBeenCalledWith(
+        3,
+        "Check is not endorsed",
+      );
+    });
+  });
+
+  it("should show an error when a decision fails", async () => {
+    vi.mocked(approveCheckDeposit).mockResolvedValue({
+      success: false,
+      error: "Check deposit has already been reviewed",
+    });
+
+    render(<CheckReviews />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Review" }));
+    fireEvent.click(screen.getByRole("button", { name: "Approve" }));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Check deposit has already been reviewed"),
+      ).toBeInTheDocument();
+    });
+  });
+});
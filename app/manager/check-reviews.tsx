@@ -0,0 +1,344 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle } from "lucide-react";
+import {
+  approveCheckDeposit,
+  getCheckReviews,
+  rejectCheckDeposit,
+  type ManagerCheckReview,
+} from "./actions";
+
+const REASON_LABELS: Record<ManagerCheckReview["reasons"][number], string> = {
+  large_amount: "Large amount",
+  first_deposit: "First deposit",
+  missing_micr: "Missing MICR",
+  possible_duplicate: "Possible duplicate",
+  amount_mismatch: "Amount mismatch",
+  unrestricted_endorsement: "Unrestricted endorsement",
+};
+
+const STATUS_LABELS: Record<ManagerCheckReview["status"], string> = {
+  open: "Open",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+};
+
+export function CheckReviews() {
+  const [reviews, setReviews] = useState<ManagerCheckReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<ManagerCheckReview | null>(null);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReviews(await getCheckReviews());
+    } catch (error) {
+      console.error("Failed to load check reviews:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to load check reviews",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const openReview = (review: ManagerCheckReview) => {
+    setReviewing(review);
+    setAmount(review.amount.toFixed(2));
+    setReason("");
+    setDecisionError(null);
+  };
+
+  const closeReview = () => {
+    setReviewing(null);
+    setDecisionError(null);
+  };
+
+  const decide = async (decision: "approve" | "reject") => {
+    if (!reviewing) return;
+    setSaving(true);
+    setDecisionError(null);
+    try {
+      const result =
+        decision === "approve"
+          ? await approveCheckDeposit(reviewing.id, amount)
+          : await rejectCheckDeposit(reviewing.id, reason);
+      if (result.success) {
+        closeReview();
+        await loadReviews();
+      } else {
+        setDecisionError(result.error || "Failed to review check deposit");
+      }
+    } catch (error) {
+      setDecisionError(
+        error instanceof Error
+          ? error.message
+          : "Failed to review check deposit",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Check Review Queue</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Check deposits that are large, a customer&apos;s first, missing MICR
+          data or a possible duplicate wait here, unposted, until they are
+          approved or rejected.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No check deposits to review.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Reasons</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reviews.map((review) => (
+                  <TableRow key={review.id}>
+                    <TableCell className="text-sm">
+                      {new Date(review.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{review.customer.name}</div>
+                      <div className="text-sm text-muted-foreground font-mono">
+                        {review.customer.account_number}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(review.approved_amount ?? review.amount)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {review.reasons.map((reason) => (
+                          <Badge key={reason} variant="outline">
+                            {REASON_LABELS[reason]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          review.status === "open" ? "secondary" : "outline"
+                        }
+                      >
+                        {STATUS_LABELS[review.status]}
+                      </Badge>
+                      {review.rejection_reason && (
+                        <div className="mt-1 text-sm text-muted-foreground">
+                          {review.rejection_reason}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {review.status === "open" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openReview(review)}
+                        >
+                          Review
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+      <Dialog
+        open={reviewing !== null}
+        onOpenChange={(open) => !open && closeReview()}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          {reviewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  Review Check Deposit #{reviewing.transaction_id}
+                </DialogTitle>
+                <DialogDescription>
+                  {reviewing.customer.name} ({reviewing.customer.email}),
+                  account opened{" "}
+                  {new Date(
+                    reviewing.customer.account_opened_at,
+                  ).toLocaleDateString()}
+                </DialogDescription>
+              </DialogHeader>
+              {reviewing.image_url ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={reviewing.image_url}
+                  alt="Check image"
+                  className="w-full rounded-md border object-contain"
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">No check image.</p>
+              )}
+              {reviewing.back_image_url && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={reviewing.back_image_url}
+                  alt="Back of check"
+                  className="w-full rounded-md border object-contain"
+                />
+              )}
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <dt className="text-muted-foreground">Amount read</dt>
+                <dd>{formatCurrency(reviewing.amount)}</dd>
+                <dt className="text-muted-foreground">Amount entered</dt>
+                <dd>
+                  {reviewing.entered_amount === null
+                    ? "-"
+                    : formatCurrency(reviewing.entered_amount)}
+                </dd>
+                <dt className="text-muted-foreground">Endorsement</dt>
+                <dd>{reviewing.endorsement ?? "-"}</dd>
+                <dt className="text-muted-foreground">Payor</dt>
+                <dd>{reviewing.payor_name ?? "-"}</dd>
+                <dt className="text-muted-foreground">Payee</dt>
+                <dd>{reviewing.payee_name ?? "-"}</dd>
+                <dt className="text-muted-foreground">Routing</dt>
+                <dd className="font-mono">{reviewing.routing_number ?? "-"}</dd>
+                <dt className="text-muted-foreground">Account</dt>
+                <dd className="font-mono">{reviewing.account_number ?? "-"}</dd>
+                <dt className="text-muted-foreground">Check number</dt>
+                <dd className="font-mono">{reviewing.check_number ?? "-"}</dd>
+              </dl>
+              <div>
+                <p className="mb-1 text-sm font-medium">
+                  Earlier check deposits
+                </p>
+                {reviewing.history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">None.</p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {reviewing.history.map((deposit) => (
+                      <li key={deposit.id} className="flex justify-between">
+                        <span>
+                          {new Date(deposit.created_at).toLocaleDateString()}{" "}
+                          &middot; {deposit.status}
+                        </span>
+                        <span>{formatCurrency(deposit.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="space-y-3">
+                <div>
+                  <Label htmlFor="check-review-amount">Amount to post</Label>
+                  <Input
+                    id="check-review-amount"
+                    inputMode="decimal"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="check-review-reason">
+                    Reason for rejecting
+                  </Label>
+                  <Input
+                    id="check-review-reason"
+                    maxLength={255}
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                </div>
+              </div>
+              {decisionError && (
+                <div className="rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+                  <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+                  <p className="text-sm text-destructive">{decisionError}</p>
+                </div>
+              )}
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => decide("reject")}
+                  disabled={saving || !reason.trim()}
+                >
+                  Reject
+                </Button>
+                <Button onClick={() => decide("approve")} disabled={saving}>
+                  {saving ? "Saving..." : "Approve"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
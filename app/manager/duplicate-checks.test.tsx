@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { DuplicateChecks } from "./duplicate-checks";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  getDuplicateCheckHits: vi.fn(),
+  reviewDuplicateCheckHit: vi.fn(),
+}));
+
+import { getDuplicateCheckHits, reviewDuplicateCheckHit } from "./actions";
+
+const hits = [
+  {
+    id: 5,
+    created_at: new Date("2025-12-19T15:00:00Z"),
+    match: "exact" as const,
+    reviewed_at: null,
+    amount: 250,
+    routing_number: "121000358",
+    account_number: "000123456789",
+    check_number: "1042",
+    deposit: {
+      id: 20,
+      created_at: new Date("2025-12-19T15:00:00Z"),
+      status: "denied" as const,
+      account_number: "1234567890",
+      customer: "Jane Smith",
+    },
+    original: {
+      id: 10,
+      created_at: new Date("2025-12-18T15:00:00Z"),
+      status: "approved" as const,
+      account_number: "5555555555",
+      customer: "John Doe",
+    },
+  },
+];
+
+describe("DuplicateChecks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getDuplicateCheckHits).mockResolvedValue(hits);
+    vi.mocked(reviewDuplicateCheckHit).mockResolvedValue({ success: true });
+  });
+
+  it("should list duplicate checks with both deposits", async () => {
+    render(<DuplicateChecks />);
+
+    await waitFor(() => {
+      expect(screen.getByText("#20 Jane Smith")).toBeInTheDocument();
+    });
+    expect(screen.getByText("#10 John Doe")).toBeInTheDocument();
+    expect(screen.getByText("$250.00")).toBeInTheDocument();
+    expect(screen.getByText("Exact")).toBeInTheDocument();
+  });
+
+  it("should mark a duplicate check reviewed", async () => {
+    render(<DuplicateChecks />);
+
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Mark Reviewed" }),
+    );
+
+    await waitFor(() => {
+      expect(reviewDuplicateCheckHit).toHaveBeenCalledWith(5);
+    });
+    expect(getDuplicateCheckHits).toHaveBeenCalledTimes(2);
+  });
+
+  it("should show an error when loading fails", async () => {
+    vi.mocked(getDuplicateCheckHits).mockRejectedValue(
+      new Error("Unauthorized: Manager role required"),
+    );
+
+    render(<DuplicateChecks />);
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Unauthorized: Manager role required"),
+      ).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle } from "lucide-react";
+import {
+  getDuplicateCheckHits,
+  reviewDuplicateCheckHit,
+  type ManagerCheckDeposit,
+  type ManagerDuplicateCheckHit,
+} from "./actions";
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+};
+
+function DepositCell({ deposit }: { deposit: ManagerCheckDeposit }) {
+  return (
+    <TableCell>
+      <div className="font-medium">
+        #{deposit.id} {deposit.customer}
+      </div>
+      <div className="text-sm text-muted-foreground">
+        <span className="font-mono">{deposit.account_number}</span> &middot;{" "}
+        {new Date(deposit.created_at).toLocaleDateString()} &middot;{" "}
+        {deposit.status}
+      </div>
+    </TableCell>
+  );
+}
+
+export function DuplicateChecks() {
+  const [hits, setHits] = useState<ManagerDuplicateCheckHit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadHits = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setHits(await getDuplicateCheckHits());
+    } catch (error) {
+      console.error("Failed to load duplicate checks:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load duplicate checks",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHits();
+  }, [loadHits]);
+
+  const markReviewed = async (hit: ManagerDuplicateCheckHit) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await reviewDuplicateCheckHit(hit.id);
+      if (result.success) {
+        await loadHits();
+      } else {
+        setError(result.error || "Failed to review duplicate check");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to review duplicate check",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Duplicate Checks</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Check deposits that repeat an earlier deposit by any customer. Exact
+          matches were denied; fuzzy matches, where part of the MICR line was
+          unreadable or misread, were sent to the check review queue.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : hits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No duplicate checks found.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Check</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Deposit</TableHead>
+                  <TableHead>Original</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hits.map((hit) => (
+                  <TableRow key={hit.id}>
+                    <TableCell className="font-mono text-sm">
+                      <div>{hit.routing_number ?? "-"}</div>
+                      <div>{hit.account_number ?? "-"}</div>
+                      <div>#{hit.check_number ?? "-"}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(hit.amount)}
+                    </TableCell>
+                    <DepositCell deposit={hit.deposit} />
+                    <DepositCell deposit={hit.original} />
+                    <TableCell>
+                      <Badge
+                        variant={
+                          hit.match === "exact" ? "destructive" : "outline"
+                        }
+                      >
+                        {hit.match === "exact" ? "Exact" : "Fuzzy"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {hit.reviewed_at ? (
+                        <span className="text-sm text-muted-foreground">
+                          Reviewed
+                        </span>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => markReviewed(hit)}
+                          disabled={saving}
+                        >
+                          Mark Reviewed
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
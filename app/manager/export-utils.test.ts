@@ -144,10 +144,11 @@ describe("export-utils", () => {
         {
           id: 1,
           created_at: new Date("2024-01-01"),
-          amount: 100.5,
+          amount: "100.50",
           status: "approved",
           transaction_type: "deposit",
           direction: "inbound",
+          reversal_of_id: null,
           internal_account: {
             account_number: "1234567890",
             user: {
@@ -161,10 +162,11 @@ describe("export-utils", () => {
         {
           id: 2,
           created_at: new Date("2024-01-02"),
-          amount: 50.25,
+          amount: "-50.25",
           status: "denied",
           transaction_type: "withdrawal",
           direction: "outbound",
+          reversal_of_id: null,
           internal_account: {
             account_number: "0987654321",
             user: {
@@ -201,10 +203,11 @@ describe("export-utils", () => {
         {
           id: 1,
           created_at: new Date("2024-01-01"),
-          amount: 100.5,
+          amount: "100.50",
           status: "approved",
           transaction_type: "deposit",
           direction: "inbound",
+          reversal_of_id: null,
           internal_account: {
             account_number: "1234567890",
             user: {
@@ -1,6 +1,7 @@
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import { ManagerUser, ManagerTransaction } from "./actions";
+import { Money } from "@/lib/money";
 
 // Extend jsPDF type to include autoTable
 declare module "jspdf" {
@@ -199,6 +200,13 @@ export function exportTransactionsToPDF(
   doc.save("transactions-report.pdf");
 }
 
+/**
+ * Download a batch's NACHA file for transmission to the ACH operator
+ */
+export function downloadAchFile(contents: string, filename: string): void {
+  downloadFile(contents, filename, "text/plain");
+}
+
 /**
  * Helper function to download a file
  */
@@ -248,13 +256,10 @@ function formatDateForPDF(date: Date): string {
  * Format currency for CSV export
  */
 function formatCurrencyForCSV(
-  amount: number,
+  amount: string,
   direction: "inbound" | "outbound",
 ): string {
-  const formatted = new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-  }).format(amount);
+  const formatted = Money.from(amount).abs().format();
 
   return direction === "inbound" ? `+${formatted}` : `-${formatted}`;
 }
@@ -263,13 +268,10 @@ function formatCurrencyForCSV(
  * Format currency for PDF export
  */
 function formatCurrencyForPDF(
-  amount: number,
+  amount: string,
   direction: "inbound" | "outbound",
 ): string {
-  const formatted = new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-  }).format(amount);
+  const formatted = Money.from(amount).abs().format();
 
   return direction === "inbound" ? `+${formatted}` : `-${formatted}`;
 }
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import { InterestReport } from "./interest-report";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  getInterestReport: vi.fn(),
+}));
+
+import { getInterestReport } from "./actions";
+
+const report = {
+  tiers: [
+    { min_balance: 0, apy: 0.035 },
+    { min_balance: 10000, apy: 0.04 },
+  ],
+  accounts: [
+    {
+      internal_account_id: 1,
+      account_number: "12345678901234567",
+      is_active: true,
+      user: { id: 5, username: "saver", first_name: "Sam", last_name: "Saver" },
+      balance: 12000,
+      apy: 0.04,
+      accrued: 1.2891,
+      accrued_days: 3,
+      accrued_since: new Date("2025-12-01T00:00:00Z"),
+    },
+  ],
+  total_accrued: 1.2891,
+};
+
+describe("InterestReport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list accrued interest per savings account", async () => {
+    vi.mocked(getInterestReport).mockResolvedValue(report);
+
+    render(<InterestReport />);
+
+    await waitFor(() => {
+      expect(screen.getByText("****4567")).toBeInTheDocument();
+    });
+    expect(screen.getByText("Sam Saver")).toBeInTheDocument();
+    expect(screen.getByText("4.00%")).toBeInTheDocument();
+    expect(screen.getAllByText("$1.2891")).toHaveLength(2);
+    expect(screen.getByText("Dec 1, 2025 (3 days)")).toBeInTheDocument();
+  });
+
+  it("should show the rate tiers", async () => {
+    vi.mocked(getInterestReport).mockResolvedValue(report);
+
+    render(<InterestReport />);
+
+    await waitFor(() => {
+      expect(screen.getByText("$10,000+ earns 4.00% APY")).toBeInTheDocument();
+    });
+    expect(screen.getByText("$0+ earns 3.50% APY")).toBeInTheDocument();
+  });
+
+  it("should show an error when the report fails to load", async () => {
+    vi.mocked(getInterestReport).mockRejectedValue(
+      new Error("Unauthorized: Manager role required"),
+    );
+
+    render(<InterestReport />);
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Unauthorized: Manager role required"),
+      ).toBeInTheDocument();
+    });
+  });
+});
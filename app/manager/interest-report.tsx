@@ -0,0 +1,175 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle } from "lucide-react";
+import { getInterestReport, type ManagerInterestReport } from "./actions";
+
+export function InterestReport() {
+  const [report, setReport] = useState<ManagerInterestReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await getInterestReport());
+    } catch (error) {
+      console.error("Failed to load interest report:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load interest report",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const formatCurrency = (amount: number, maximumFractionDigits = 2) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      minimumFractionDigits: Math.min(2, maximumFractionDigits),
+      maximumFractionDigits,
+    }).format(amount);
+  };
+
+  const formatApy = (apy: number) => {
+    return `${(apy * 100).toFixed(2)}%`;
+  };
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    }).format(new Date(date));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Savings Interest</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={loadReport}
+            disabled={loading}
+          >
+            {loading ? "Loading..." : "Refresh"}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Interest accrues daily on savings balances and is paid at the start of
+          each month.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        ) : report ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="text-center">
+                <p className="text-2xl font-bold">
+                  {formatCurrency(report.total_accrued, 4)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Accrued, Not Yet Paid
+                </p>
+              </div>
+              <div className="flex flex-wrap justify-center gap-2">
+                {report.tiers.map((tier) => (
+                  <Badge key={tier.min_balance} variant="outline">
+                    {formatCurrency(tier.min_balance, 0)}+ earns{" "}
+                    {formatApy(tier.apy)} APY
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {report.accounts.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground">No savings accounts</p>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      <TableHead className="text-right">APY</TableHead>
+                      <TableHead className="text-right">Accrued</TableHead>
+                      <TableHead>Since</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.accounts.map((account) => (
+                      <TableRow key={account.internal_account_id}>
+                        <TableCell className="font-mono text-sm">
+                          ****{account.account_number.slice(-4)}
+                          {!account.is_active && (
+                            <Badge variant="secondary" className="ml-2">
+                              Inactive
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {account.user.first_name} {account.user.last_name}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(account.balance)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {account.apy === null ? "—" : formatApy(account.apy)}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(account.accrued, 4)}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {account.accrued_since
+                            ? `${formatDate(account.accrued_since)} (${account.accrued_days} days)`
+                            : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,12 +13,59 @@ vi.mock("./transactions-table", () => ({
   ),
 }));
 
+vi.mock("./reconciliation-report", () => ({
+  ReconciliationReport: () => (
+    <div data-testid="reconciliation-report">Reconciliation Report</div>
+  ),
+}));
+
+vi.mock("./interest-report", () => ({
+  InterestReport: () => (
+    <div data-testid="interest-report">Interest Report</div>
+  ),
+}));
+
+vi.mock("./billers", () => ({
+  Billers: () => <div data-testid="billers">Billers</div>,
+}));
+
+vi.mock("./ach-batches", () => ({
+  AchBatches: () => <div data-testid="ach-batches">ACH Batches</div>,
+}));
+
+vi.mock("./ach-returns", () => ({
+  AchReturns: () => <div data-testid="ach-returns">ACH Returns</div>,
+}));
+
+vi.mock("./ach-inbound", () => ({
+  AchInbound: () => <div data-testid="ach-inbound">ACH Inbound</div>,
+}));
+
+vi.mock("./partner-banks", () => ({
+  PartnerBanks: () => <div data-testid="partner-banks">Partner Banks</div>,
+}));
+
+vi.mock("./check-reviews", () => ({
+  CheckReviews: () => <div data-testid="check-reviews">Check Reviews</div>,
+}));
+
+vi.mock("./duplicate-checks", () => ({
+  DuplicateChecks: () => (
+    <div data-testid="duplicate-checks">Duplicate Checks</div>
+  ),
+}));
+
 describe("ManagerPage", () => {
   it("should render manager page with tabs", () => {
     render(<ManagerPage />);
 
     expect(screen.getByText("Users")).toBeInTheDocument();
     expect(screen.getByText("Transactions")).toBeInTheDocument();
+    expect(screen.getByText("Reconciliation")).toBeInTheDocument();
+    expect(screen.getByText("Interest")).toBeInTheDocument();
+    expect(screen.getByText("Billers")).toBeInTheDocument();
+    expect(screen.getByText("ACH")).toBeInTheDocument();
+    expect(screen.getByText("Partners")).toBeInTheDocument();
   });
 
   it("should show users table by default", () => {
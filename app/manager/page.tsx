@@ -3,21 +3,54 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { UsersTable } from "./users-table";
 import { TransactionsTable } from "./transactions-table";
+import { ReconciliationReport } from "./reconciliation-report";
+import { InterestReport } from "./interest-report";
+import { Billers } from "./billers";
+import { AchBatches } from "./ach-batches";
+import { AchReturns } from "./ach-returns";
+import { AchInbound } from "./ach-inbound";
+import { PartnerBanks } from "./partner-banks";
+import { DuplicateChecks } from "./duplicate-checks";
+import { CheckReviews } from "./check-reviews";
 
 export default function ManagerPage() {
   return (
     <div className="space-y-6">
       <Tabs defaultValue="users" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="users">Users</TabsTrigger>
           <TabsTrigger value="transactions">Transactions</TabsTrigger>
+          <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
+          <TabsTrigger value="interest">Interest</TabsTrigger>
+          <TabsTrigger value="billers">Billers</TabsTrigger>
+          <TabsTrigger value="ach">ACH</TabsTrigger>
+          <TabsTrigger value="partners">Partners</TabsTrigger>
         </TabsList>
         <TabsContent value="users" className="space-y-4">
           <UsersTable />
         </TabsContent>
         <TabsContent value="transactions" className="space-y-4">
+          <CheckReviews />
+          <DuplicateChecks />
           <TransactionsTable />
         </TabsContent>
+        <TabsContent value="reconciliation" className="space-y-4">
+          <ReconciliationReport />
+        </TabsContent>
+        <TabsContent value="interest" className="space-y-4">
+          <InterestReport />
+        </TabsContent>
+        <TabsContent value="billers" className="space-y-4">
+          <Billers />
+        </TabsContent>
+        <TabsContent value="ach" className="space-y-4">
+          <AchBatches />
+          <AchInbound />
+          <AchReturns />
+        </TabsContent>
+        <TabsContent value="partners" className="space-y-4">
+          <PartnerBanks />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { PartnerBanks } from "./partner-banks";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  getPartnerBanks: vi.fn(),
+  getPartnerRequests: vi.fn(),
+  issuePartnerSecret: vi.fn(),
+  registerPartnerBank: vi.fn(),
+  setPartnerBankActive: vi.fn(),
+}));
+
+import {
+  getPartnerBanks,
+  getPartnerRequests,
+  registerPartnerBank,
+  setPartnerBankActive,
+} from "./actions";
+
+const partners = [
+  {
+    id: 3,
+    name: "Chase",
+    routing_number: "021000021",
+    secret_prefix: "cs_160ps_a",
+    is_active: true,
+    per_transfer_limit: 1000,
+    daily_limit: 5000,
+  },
+];
+
+const requests = [
+  {
+    id: 41,
+    received_at: new Date("2025-12-18T15:00:00Z"),
+    status: "rejected" as const,
+    http_status: 401,
+    error: "Invalid signature",
+    destination_account_number: null,
+    source_routing_number: null,
+    transaction_id: null,
+    partner_name: "Chase",
+    amount: null,
+  },
+];
+
+describe("PartnerBanks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPartnerBanks).mockResolvedValue(partners);
+    vi.mocked(getPartnerRequests).mockResolvedValue(requests);
+    vi.mocked(registerPartnerBank).mockResolvedValue({
+      success: true,
+      signing_secret: "cs_160ps_abcdef",
+    });
+    vi.mocked(setPartnerBankActive).mockResolvedValue({ success: true });
+  });
+
+  it("should list partners and the audit trail", async () => {
+    render(<PartnerBanks />);
+
+    await waitFor(() => {
+      expect(screen.getByText("021000021")).toBeInTheDocument();
+    });
+    expect(screen.getByText("$1,000.00")).toBeInTheDocument();
+    expect(screen.getByText("Rejected (401)")).toBeInTheDocument();
+    expect(screen.getByText("Invalid signature")).toBeInTheDocument();
+  });
+
+  it("should register a partner and show its secret once", async () => {
+    render(<PartnerBanks />);
+
+    fireEvent.click(
+      await screen.findByRole("button", { name: "Register Partner" }),
+    );
+    fireEvent.change(screen.getByLabelText("Name"), {
+      target: { value: "Bank of America" },
+    });
+    fireEvent.change(screen.getByLabelText("Routing number"), {
+      target: { value: "121000358" },
+    });
+    fireEvent.change(screen.getByLabelText("Per-transfer limit"), {
+      target: { value: "2500" },
+    });
+    fireEvent.change(screen.getByLabelText("Daily limit"), {
+      target: { value: "10000" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Register" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("cs_160ps_abcdef")).toBeInTheDocument();
+    });
+    expect(registerPartnerBank).toHaveBeenCalledWith({
+      name: "Bank of America",
+      routing_number: "121000358",
+      per_transfer_limit: "2500",
+      daily_limit: "10000",
+    });
+  });
+
+  it("should suspend a partner", async () => {
+    render(<PartnerBanks />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Suspend" }));
+
+    await waitFor(() => {
+      expect(setPartnerBankActive).toHaveBeenCalledWith(3, false);
+    });
+  });
+});
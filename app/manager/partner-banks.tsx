@@ -0,0 +1,440 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, KeyRound, Plus } from "lucide-react";
+import {
+  getPartnerBanks,
+  getPartnerRequests,
+  issuePartnerSecret,
+  registerPartnerBank,
+  setPartnerBankActive,
+  type ManagerPartnerBank,
+  type ManagerPartnerRequest,
+} from "./actions";
+
+const EMPTY_PARTNER = {
+  name: "",
+  routing_number: "",
+  per_transfer_limit: "",
+  daily_limit: "",
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+};
+
+export function PartnerBanks() {
+  const [partners, setPartners] = useState<ManagerPartnerBank[]>([]);
+  const [requests, setRequests] = useState<ManagerPartnerRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [issuedSecret, setIssuedSecret] = useState<{
+    partner: string;
+    signing_secret: string;
+  } | null>(null);
+  const [registering, setRegistering] = useState(false);
+  const [partner, setPartner] = useState(EMPTY_PARTNER);
+  const [registerError, setRegisterError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadPartners = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [partnerBanks, partnerRequests] = await Promise.all([
+        getPartnerBanks(),
+        getPartnerRequests(),
+      ]);
+      setPartners(partnerBanks);
+      setRequests(partnerRequests);
+    } catch (error) {
+      console.error("Failed to load partner banks:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to load partner banks",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPartners();
+  }, [loadPartners]);
+
+  const issueSecret = async (bank: ManagerPartnerBank) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await issuePartnerSecret(bank.id);
+      if (result.success && result.signing_secret) {
+        setIssuedSecret({
+          partner: bank.name,
+          signing_secret: result.signing_secret,
+        });
+        await loadPartners();
+      } else {
+        setError(result.error || "Failed to issue secret");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to issue secret",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (bank: ManagerPartnerBank) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await setPartnerBankActive(bank.id, !bank.is_active);
+      if (result.success) {
+        await loadPartners();
+      } else {
+        setError(result.error || "Failed to update partner bank");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to update partner bank",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const closeRegisterDialog = () => {
+    setRegistering(false);
+    setPartner(EMPTY_PARTNER);
+    setRegisterError(null);
+  };
+
+  const submitPartner = async () => {
+    setSaving(true);
+    setRegisterError(null);
+    try {
+      const result = await registerPartnerBank(partner);
+      if (result.success && result.signing_secret) {
+        setIssuedSecret({
+          partner: partner.name.trim(),
+          signing_secret: result.signing_secret,
+        });
+        closeRegisterDialog();
+        await loadPartners();
+      } else {
+        setRegisterError(result.error || "Failed to register partner bank");
+      }
+    } catch (error) {
+      setRegisterError(
+        error instanceof Error
+          ? error.message
+          : "Failed to register partner bank",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Partner Banks</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Partner banks credit customers in real time by signing each
+                request with their secret. Credits must come from the
+                partner&apos;s own routing number and fit its limits.
+              </p>
+            </div>
+            <Button onClick={() => setRegistering(true)} disabled={saving}>
+              <Plus className="h-4 w-4 mr-2" />
+              Register Partner
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+          {issuedSecret && (
+            <div className="mb-4 rounded-md border p-3 space-y-1">
+              <p className="text-sm flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                New signing secret for {issuedSecret.partner}. It will not be
+                shown again.
+              </p>
+              <code className="block break-all text-sm">
+                {issuedSecret.signing_secret}
+              </code>
+            </div>
+          )}
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : partners.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No partner banks yet.
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Partner</TableHead>
+                    <TableHead>Secret</TableHead>
+                    <TableHead className="text-right">Per Transfer</TableHead>
+                    <TableHead className="text-right">Daily</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {partners.map((bank) => (
+                    <TableRow key={bank.id}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {bank.name}{" "}
+                          {!bank.is_active && (
+                            <Badge variant="outline">Suspended</Badge>
+                          )}
+                        </div>
+                        <div className="text-sm text-muted-foreground font-mono">
+                          {bank.routing_number}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-sm">{bank.secret_prefix}...</code>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(bank.per_transfer_limit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(bank.daily_limit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => issueSecret(bank)}
+                            disabled={saving}
+                          >
+                            Replace Secret
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => toggleActive(bank)}
+                            disabled={saving}
+                          >
+                            {bank.is_active ? "Suspend" : "Restore"}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+        <Dialog
+          open={registering}
+          onOpenChange={(open) => !open && closeRegisterDialog()}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Register Partner Bank</DialogTitle>
+              <DialogDescription>
+                The routing number must be in the routing directory. The
+                partner&apos;s signing secret is shown once after it is
+                registered.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3">
+              <div>
+                <Label htmlFor="partner-name">Name</Label>
+                <Input
+                  id="partner-name"
+                  maxLength={100}
+                  value={partner.name}
+                  onChange={(e) =>
+                    setPartner({ ...partner, name: e.target.value })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="partner-routing-number">Routing number</Label>
+                <Input
+                  id="partner-routing-number"
+                  inputMode="numeric"
+                  maxLength={9}
+                  value={partner.routing_number}
+                  onChange={(e) =>
+                    setPartner({ ...partner, routing_number: e.target.value })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="partner-per-transfer-limit">
+                  Per-transfer limit
+                </Label>
+                <Input
+                  id="partner-per-transfer-limit"
+                  inputMode="decimal"
+                  placeholder="0.00"
+                  value={partner.per_transfer_limit}
+                  onChange={(e) =>
+                    setPartner({
+                      ...partner,
+                      per_transfer_limit: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="partner-daily-limit">Daily limit</Label>
+                <Input
+                  id="partner-daily-limit"
+                  inputMode="decimal"
+                  placeholder="0.00"
+                  value={partner.daily_limit}
+                  onChange={(e) =>
+                    setPartner({ ...partner, daily_limit: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            {registerError && (
+              <div className="rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+                <p className="text-sm text-destructive">{registerError}</p>
+              </div>
+            )}
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={closeRegisterDialog}
+                disabled={saving}
+              >
+                Cancel
+              </Button>
+              <Button onClick={submitPartner} disabled={saving}>
+                {saving ? "Registering..." : "Register"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Partner Requests</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            The 50 most recent requests to the partner channel, including the
+            ones that were refused.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No requests yet.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Partner</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell className="text-sm">
+                        {new Date(request.received_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {request.partner_name ?? (
+                          <span className="text-muted-foreground">Unknown</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {request.destination_account_number ?? "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {request.amount === null
+                          ? "-"
+                          : formatCurrency(request.amount)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            request.status === "accepted"
+                              ? "secondary"
+                              : "outline"
+                          }
+                        >
+                          {request.status === "accepted"
+                            ? "Accepted"
+                            : "Rejected"}{" "}
+                          ({request.http_status})
+                        </Badge>
+                        {request.error && (
+                          <div className="mt-1 text-sm text-muted-foreground">
+                            {request.error}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
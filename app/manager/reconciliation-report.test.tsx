@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { ReconciliationReport } from "./reconciliation-report";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  getReconciliationReport: vi.fn(),
+}));
+
+import { getReconciliationReport } from "./actions";
+
+const cleanReport = {
+  generated_at: new Date("2025-12-04T09:00:00Z"),
+  accounts_checked: 12,
+  discrepancies: [],
+  total_difference: 0,
+};
+
+describe("ReconciliationReport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should show a clean report when every balance matches", async () => {
+    vi.mocked(getReconciliationReport).mockResolvedValue(cleanReport);
+
+    render(<ReconciliationReport />);
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("All balances match their transactions"),
+      ).toBeInTheDocument();
+    });
+    expect(screen.getByText("12")).toBeInTheDocument();
+  });
+
+  it("should list accounts that are out of balance", async () => {
+    vi.mocked(getReconciliationReport).mockResolvedValue({
+      ...cleanReport,
+      discrepancies: [
+        {
+          internal_account_id: 3,
+          account_number: "12345678901234567",
+          user_id: 7,
+          is_active: true,
+          stored_balance: 99.99,
+          transaction_balance: 100,
+          journal_balance: 100,
+          difference: -0.01,
+        },
+      ],
+      total_difference: -0.01,
+    });
+
+    render(<ReconciliationReport />);
+
+    await waitFor(() => {
+      expect(screen.getByText("****4567")).toBeInTheDocument();
+    });
+    expect(screen.getByText("$99.99")).toBeInTheDocument();
+    expect(screen.getAllByText("-$0.01")).toHaveLength(2);
+  });
+
+  it("should run the reconciliation again on demand", async () => {
+    vi.mocked(getReconciliationReport).mockResolvedValue(cleanReport);
+
+    render(<ReconciliationReport />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Run Again")).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText("Run Again"));
+
+    await waitFor(() => {
+      expect(getReconciliationReport).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it("should show an error when the reconciliation fails", async () => {
+    vi.mocked(getReconciliationReport).mockRejectedValue(
+      new Error("Unauthorized: Manager role required"),
+    );
+
+    render(<ReconciliationReport />);
+
+    await waitFor(() => {
+      expect(
+        screen.getByText("Unauthorized: Manager role required"),
+      ).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle } from "lucide-react";
+import {
+  getReconciliationReport,
+  type ManagerReconciliationReport,
+} from "./actions";
+
+export function ReconciliationReport() {
+  const [report, setReport] = useState<ManagerReconciliationReport | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await getReconciliationReport());
+    } catch (error) {
+      console.error("Failed to run reconciliation:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to run reconciliation",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 4,
+    }).format(amount);
+  };
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(date));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Balance Reconciliation</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={loadReport}
+            disabled={loading}
+          >
+            {loading ? "Running..." : "Run Again"}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Recomputes each account balance from its posted transactions and lists
+          the accounts that disagree.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        ) : report ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="text-center">
+                <p className="text-2xl font-bold">{report.accounts_checked}</p>
+                <p className="text-sm text-muted-foreground">
+                  Accounts Checked
+                </p>
+              </div>
+              <div className="text-center">
+                <p
+                  className={`text-2xl font-bold ${
+                    report.discrepancies.length > 0
+                      ? "text-destructive"
+                      : "text-success"
+                  }`}
+                >
+                  {report.discrepancies.length}
+                </p>
+                <p className="text-sm text-muted-foreground">Discrepancies</p>
+              </div>
+              <div className="text-center">
+                <p className="text-2xl font-bold">
+                  {formatCurrency(report.total_difference)}
+                </p>
+                <p className="text-sm text-muted-foreground">Net Difference</p>
+              </div>
+            </div>
+
+            {report.discrepancies.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground">
+                  All balances match their transactions
+                </p>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead>User ID</TableHead>
+                      <TableHead className="text-right">Stored</TableHead>
+                      <TableHead className="text-right">Transactions</TableHead>
+                      <TableHead className="text-right">Journal</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.discrepancies.map((account) => (
+                      <TableRow key={account.internal_account_id}>
+                        <TableCell className="font-mono text-sm">
+                          ****{account.account_number.slice(-4)}
+                          {!account.is_active && (
+                            <Badge variant="secondary" className="ml-2">
+                              Inactive
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{account.user_id}</TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(account.stored_balance)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(account.transaction_balance)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(account.journal_balance)}
+                        </TableCell>
+                        <TableCell className="text-right font-medium text-destructive">
+                          {formatCurrency(account.difference)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Generated {formatDate(report.generated_at)}
+            </p>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { AlertCircle } from "lucide-react";
+import { reverseTransaction, type ManagerTransaction } from "./actions";
+import { Money } from "@/lib/money";
+
+type ReversalReason =
+  | "duplicate"
+  | "posted_in_error"
+  | "fraud"
+  | "customer_dispute"
+  | "other";
+
+const REASON_LABELS: Record<ReversalReason, string> = {
+  duplicate: "Duplicate",
+  posted_in_error: "Posted in error",
+  fraud: "Fraud",
+  customer_dispute: "Customer dispute",
+  other: "Other",
+};
+
+// Only posted transactions that are not themselves reversals can be reversed
+export function canReverse(transaction: ManagerTransaction) {
+  return (
+    transaction.status === "approved" && transaction.reversal_of_id === null
+  );
+}
+
+interface ReverseTransactionDialogProps {
+  transaction: ManagerTransaction | null;
+  onClose: () => void;
+  onReversed: () => void;
+}
+
+export function ReverseTransactionDialog({
+  transaction,
+  onClose,
+  onReversed,
+}: ReverseTransactionDialogProps) {
+  const [reason, setReason] = useState<ReversalReason>("posted_in_error");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setReason("posted_in_error");
+    setError(null);
+    onClose();
+  };
+
+  const handleReverse = async () => {
+    if (!transaction) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await reverseTransaction(transaction.id, reason);
+
+      if (result.success) {
+        handleClose();
+        onReversed();
+      } else {
+        setError(result.error || "Failed to reverse transaction");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to reverse transaction",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={transaction !== null}
+      onOpenChange={(open) => !open && handleClose()}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reverse Transaction</DialogTitle>
+          <DialogDescription>
+            Post a contra entry that undoes this transaction and restores both
+            sides&apos; balances. The full amount is reversed and this cannot be
+            undone.
+          </DialogDescription>
+        </DialogHeader>
+        {transaction && (
+          <p className="text-sm text-muted-foreground">
+            {transaction.transaction_type.replace("_", " ").toUpperCase()} of{" "}
+            {Money.from(transaction.amount).abs().format()} for{" "}
+            {transaction.internal_account.user.first_name}{" "}
+            {transaction.internal_account.user.last_name}
+          </p>
+        )}
+        <div>
+          <Label htmlFor="reversal-reason">Reason</Label>
+          <Select
+            value={reason}
+            onValueChange={(value) => setReason(value as ReversalReason)}
+          >
+            <SelectTrigger id="reversal-reason">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(REASON_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {error && (
+          <div className="rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleReverse}
+            disabled={loading}
+          >
+            {loading ? "Reversing..." : "Reverse"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import {
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+  within,
+} from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { TransactionsTable } from "./transactions-table";
 
@@ -8,6 +14,7 @@ const user = userEvent.setup();
 // Mock the actions
 vi.mock("./actions", () => ({
   getTransactions: vi.fn(),
+  reverseTransaction: vi.fn(),
 }));
 
 // Mock the export utilities
@@ -16,17 +23,18 @@ vi.mock("./export-utils", () => ({
   exportTransactionsToPDF: vi.fn(),
 }));
 
-import { getTransactions } from "./actions";
+import { getTransactions, reverseTransaction } from "./actions";
 import * as exportUtils from "./export-utils";
 
 const mockTransactions = [
   {
     id: 1,
     created_at: new Date("2023-01-01T10:00:00Z"),
-    amount: 100.5,
+    amount: "100.50",
     status: "approved" as const,
     transaction_type: "internal_transfer" as const,
     direction: "inbound" as const,
+    reversal_of_id: null,
     internal_account: {
       account_number: "1234567890",
       user: {
@@ -40,10 +48,11 @@ const mockTransactions = [
   {
     id: 2,
     created_at: new Date("2023-01-02T14:30:00Z"),
-    amount: 250.75,
+    amount: "-250.75",
     status: "denied" as const,
     transaction_type: "external_transfer" as const,
     direction: "outbound" as const,
+    reversal_of_id: null,
     internal_account: {
       account_number: "0987654321",
       user: {
@@ -398,4 +407,30 @@ describe("TransactionsTable", () => {
       mockTransactions,
     );
   });
+
+  it("should reverse an approved transaction with a reason", async () => {
+    vi.mocked(reverseTransaction).mockResolvedValue({ success: true });
+
+    render(<TransactionsTable />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Test User")).toBeInTheDocument();
+    });
+
+    // Only the approved transaction can be reversed
+    const reverseButtons = screen.getAllByRole("button", { name: "Reverse" });
+    expect(reverseButtons).toHaveLength(1);
+
+    await user.click(reverseButtons[0]);
+
+    const dialog = await screen.findByRole("dialog");
+    expect(within(dialog).getByText("Reverse Transaction")).toBeInTheDocument();
+
+    await user.click(within(dialog).getByRole("button", { name: "Reverse" }));
+
+    await waitFor(() => {
+      expect(reverseTransaction).toHaveBeenCalledWith(1, "posted_in_error");
+    });
+    expect(getTransactions).toHaveBeenCalledTimes(2);
+  });
 });
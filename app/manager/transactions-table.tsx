@@ -32,6 +32,11 @@ import {
   exportTransactionsToCSV,
   exportTransactionsToPDF,
 } from "./export-utils";
+import {
+  ReverseTransactionDialog,
+  canReverse,
+} from "./reverse-transaction-dialog";
+import { Money } from "@/lib/money";
 
 export function TransactionsTable() {
   const [transactions, setTransactions] = useState<ManagerTransaction[]>([]);
@@ -42,6 +47,7 @@ export function TransactionsTable() {
   const [typeFilter, setTypeFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
   const [directionFilter, setDirectionFilter] = useState("all");
+  const [reversing, setReversing] = useState<ManagerTransaction | null>(null);
 
   const limit = 10;
 
@@ -90,13 +96,6 @@ export function TransactionsTable() {
     setPage(1);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
-
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat("en-US", {
       year: "numeric",
@@ -107,8 +106,19 @@ export function TransactionsTable() {
     }).format(new Date(date));
   };
 
-  const getStatusBadgeVariant = (status: "approved" | "denied") => {
-    return status === "approved" ? "default" : "destructive";
+  const getStatusBadgeVariant = (
+    status: "pending" | "approved" | "denied" | "reversed" | "returned",
+  ) => {
+    switch (status) {
+      case "approved":
+        return "default";
+      case "denied":
+        return "destructive";
+      case "pending":
+        return "outline";
+      default:
+        return "secondary";
+    }
   };
 
   const getTransactionTypeBadgeVariant = (
@@ -117,7 +127,8 @@ export function TransactionsTable() {
       | "external_transfer"
       | "billpay"
       | "deposit"
-      | "withdrawal",
+      | "withdrawal"
+      | "interest",
   ) => {
     const variants: Record<string, "default" | "secondary" | "outline"> = {
       internal_transfer: "default",
@@ -125,6 +136,7 @@ export function TransactionsTable() {
       billpay: "outline",
       deposit: "default",
       withdrawal: "secondary",
+      interest: "default",
     };
     return variants[type] || "outline";
   };
@@ -186,6 +198,7 @@ export function TransactionsTable() {
               <SelectItem value="billpay">Bill Pay</SelectItem>
               <SelectItem value="deposit">Deposit</SelectItem>
               <SelectItem value="withdrawal">Withdrawal</SelectItem>
+              <SelectItem value="interest">Interest</SelectItem>
             </SelectContent>
           </Select>
           <Select value={statusFilter} onValueChange={handleStatusFilter}>
@@ -194,8 +207,11 @@ export function TransactionsTable() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
               <SelectItem value="approved">Approved</SelectItem>
               <SelectItem value="denied">Denied</SelectItem>
+              <SelectItem value="reversed">Reversed</SelectItem>
+              <SelectItem value="returned">Returned</SelectItem>
             </SelectContent>
           </Select>
           <Select value={directionFilter} onValueChange={handleDirectionFilter}>
@@ -230,6 +246,7 @@ export function TransactionsTable() {
                     <TableHead>Status</TableHead>
                     <TableHead>Direction</TableHead>
                     <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -261,7 +278,7 @@ export function TransactionsTable() {
                           }
                         >
                           {transaction.direction === "inbound" ? "+" : "-"}
-                          {formatCurrency(Number(transaction.amount))}
+                          {Money.from(transaction.amount).abs().format()}
                         </span>
                       </TableCell>
                       <TableCell>
@@ -295,6 +312,17 @@ export function TransactionsTable() {
                         ****
                         {transaction.internal_account.account_number.slice(-4)}
                       </TableCell>
+                      <TableCell className="text-right">
+                        {canReverse(transaction) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setReversing(transaction)}
+                          >
+                            Reverse
+                          </Button>
+                        )}
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -337,6 +365,12 @@ export function TransactionsTable() {
           </>
         )}
       </CardContent>
+
+      <ReverseTransactionDialog
+        transaction={reversing}
+        onClose={() => setReversing(null)}
+        onReversed={loadTransactions}
+      />
     </Card>
   );
 }
@@ -6,6 +6,12 @@ import { UserDetailsModal } from "./user-details-modal";
 vi.mock("./actions", () => ({
   getUserById: vi.fn(),
   getUserTransactions: vi.fn(),
+  reverseTransaction: vi.fn(),
+}));
+
+// Limits are covered in user-limits.test.tsx
+vi.mock("./user-limits", () => ({
+  UserLimits: () => null,
 }));
 
 import { getUserById, getUserTransactions } from "./actions";
@@ -30,14 +36,14 @@ const mockUser = {
       id: 1,
       account_number: "1234567890",
       account_type: "checking" as const,
-      balance: 1000.5,
+      balance: "1000.50",
       is_active: true,
     },
     {
       id: 2,
       account_number: "0987654321",
       account_type: "savings" as const,
-      balance: 2500.75,
+      balance: "2500.75",
       is_active: true,
     },
   ],
@@ -48,10 +54,11 @@ const mockTransactions = [
   {
     id: 1,
     created_at: new Date("2023-01-01T10:00:00Z"),
-    amount: 100.5,
+    amount: "100.50",
     status: "approved" as const,
     transaction_type: "internal_transfer" as const,
     direction: "inbound" as const,
+    reversal_of_id: null,
     internal_account: {
       account_number: "1234567890",
       user: {
@@ -65,10 +72,11 @@ const mockTransactions = [
   {
     id: 2,
     created_at: new Date("2023-01-02T14:30:00Z"),
-    amount: 250.75,
+    amount: "250.75",
     status: "denied" as const,
     transaction_type: "external_transfer" as const,
     direction: "outbound" as const,
+    reversal_of_id: null,
     internal_account: {
       account_number: "0987654321",
       user: {
@@ -174,6 +182,16 @@ describe("UserDetailsModal", () => {
     expect(screen.getByText("OUTBOUND")).toBeInTheDocument();
   });
 
+  it("should offer to reverse only posted transactions", async () => {
+    render(<UserDetailsModal userId={1} isOpen={true} onClose={() => {}} />);
+
+    await waitFor(() => {
+      expect(screen.getByText("Recent Transactions")).toBeInTheDocument();
+    });
+
+    expect(screen.getAllByRole("button", { name: "Reverse" })).toHaveLength(1);
+  });
+
   it("should show no transactions message when no recent transactions", async () => {
     vi.mocked(getUserTransactions).mockResolvedValue([]);
 
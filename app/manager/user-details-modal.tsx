@@ -37,6 +37,12 @@ import {
   type DetailedUser,
   type ManagerTransaction,
 } from "./actions";
+import {
+  ReverseTransactionDialog,
+  canReverse,
+} from "./reverse-transaction-dialog";
+import { UserLimits } from "./user-limits";
+import { Money } from "@/lib/money";
 import { AlertCircle, X } from "lucide-react";
 
 interface UserDetailsModalProps {
@@ -67,6 +73,7 @@ export function UserDetailsModal({
   const [actionLoading, setActionLoading] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
   const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+  const [reversing, setReversing] = useState<ManagerTransaction | null>(null);
 
   const loadUserDetails = useCallback(async () => {
     if (!userId) return;
@@ -171,10 +178,10 @@ export function UserDetailsModal({
 
   const handleCloseAccountClick = (accountId: number) => {
     const account = user?.internal_accounts?.find((a) => a.id === accountId);
-    if (account && Number(account.balance) !== 0) {
+    if (account && !Money.from(account.balance).isZero()) {
       setActionError(
         "Account must have zero balance before closing. Current balance: " +
-          formatCurrency(Number(account.balance)),
+          formatCurrency(account.balance),
       );
       return;
     }
@@ -182,11 +189,8 @@ export function UserDetailsModal({
     setShowCloseAccountDialog(true);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
+  const formatCurrency = (amount: string) => {
+    return Money.from(amount).format();
   };
 
   const formatDate = (date: Date) => {
@@ -203,8 +207,19 @@ export function UserDetailsModal({
     return role === "bank_manager" ? "default" : "secondary";
   };
 
-  const getStatusBadgeVariant = (status: "approved" | "denied") => {
-    return status === "approved" ? "default" : "destructive";
+  const getStatusBadgeVariant = (
+    status: "pending" | "approved" | "denied" | "reversed" | "returned",
+  ) => {
+    switch (status) {
+      case "approved":
+        return "default";
+      case "denied":
+        return "destructive";
+      case "pending":
+        return "outline";
+      default:
+        return "secondary";
+    }
   };
 
   const getTransactionTypeBadgeVariant = (
@@ -213,7 +228,8 @@ export function UserDetailsModal({
       | "external_transfer"
       | "billpay"
       | "deposit"
-      | "withdrawal",
+      | "withdrawal"
+      | "interest",
   ) => {
     const variants: Record<string, "default" | "secondary" | "outline"> = {
       internal_transfer: "default",
@@ -221,15 +237,16 @@ export function UserDetailsModal({
       billpay: "outline",
       deposit: "default",
       withdrawal: "secondary",
+      interest: "default",
     };
     return variants[type] || "outline";
   };
 
   const totalBalance =
     user?.internal_accounts.reduce(
-      (sum, account) => sum + Number(account.balance),
-      0,
-    ) || 0;
+      (sum, account) => sum.add(Money.from(account.balance)),
+      Money.ZERO,
+    ) ?? Money.ZERO;
 
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
@@ -348,7 +365,7 @@ export function UserDetailsModal({
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
                   <div className="text-center">
                     <p className="text-2xl font-bold text-success">
-                      {formatCurrency(totalBalance)}
+                      {totalBalance.format()}
                     </p>
                     <p className="text-sm text-muted-foreground">
                       Total Balance
@@ -395,7 +412,7 @@ export function UserDetailsModal({
                         <div className="flex items-center gap-3">
                           <div className="text-right">
                             <p className="font-medium">
-                              {formatCurrency(Number(account.balance))}
+                              {formatCurrency(account.balance)}
                             </p>
                             <Badge
                               variant={
@@ -425,6 +442,9 @@ export function UserDetailsModal({
               </CardContent>
             </Card>
 
+            {/* Transaction Limits */}
+            <UserLimits userId={user.id} />
+
             {/* Recent Transactions */}
             <Card>
               <CardHeader>
@@ -440,7 +460,7 @@ export function UserDetailsModal({
                       >
                         <div>
                           <p className="font-medium">
-                            {formatCurrency(Number(transaction.amount))}
+                            {formatCurrency(transaction.amount)}
                           </p>
                           <p className="text-sm text-muted-foreground">
                             {transaction.transaction_type
@@ -468,6 +488,16 @@ export function UserDetailsModal({
                           <p className="text-sm text-muted-foreground">
                             {formatDate(transaction.created_at)}
                           </p>
+                          {canReverse(transaction) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="mt-1"
+                              onClick={() => setReversing(transaction)}
+                            >
+                              Reverse
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -487,6 +517,17 @@ export function UserDetailsModal({
         )}
       </SheetContent>
 
+      {/* Reverse Transaction Dialog */}
+      <ReverseTransactionDialog
+        transaction={reversing}
+        onClose={() => setReversing(null)}
+        onReversed={() => {
+          setActionSuccess("Transaction reversed successfully");
+          loadUserDetails();
+          setTimeout(() => setActionSuccess(null), 3000);
+        }}
+      />
+
       {/* Open Account Dialog */}
       <Dialog
         open={showOpenAccountDialog}
@@ -577,11 +618,9 @@ export function UserDetailsModal({
                 <p className="text-sm text-muted-foreground">
                   Account Balance:{" "}
                   {formatCurrency(
-                    Number(
-                      user?.internal_accounts?.find(
-                        (a) => a.id === selectedAccountId,
-                      )?.balance,
-                    ),
+                    user?.internal_accounts?.find(
+                      (a) => a.id === selectedAccountId,
+                    )?.balance ?? "0",
                   )}
                 </p>
               )}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { UserLimits } from "./user-limits";
+
+// Mock the actions
+vi.mock("./actions", () => ({
+  getUserLimits: vi.fn(),
+  setUserLimit: vi.fn(),
+}));
+
+import { getUserLimits, setUserLimit } from "./actions";
+
+const limits = [
+  {
+    account_type: "checking" as const,
+    limit_type: "daily_withdrawal" as const,
+    default_amount: 5000,
+    override_amount: null,
+  },
+  {
+    account_type: "savings" as const,
+    limit_type: "per_transaction" as const,
+    default_amount: 25000,
+    override_amount: 1000,
+  },
+];
+
+describe("UserLimits", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getUserLimits).mockResolvedValue(limits);
+    vi.mocked(setUserLimit).mockResolvedValue({ success: true });
+  });
+
+  it("should show defaults and overrides", async () => {
+    render(<UserLimits userId={1} />);
+
+    await waitFor(() => {
+      expect(screen.getByText("$5,000.00")).toBeInTheDocument();
+    });
+    expect(getUserLimits).toHaveBeenCalledWith(1);
+    expect(screen.getByText("$25,000.00")).toBeInTheDocument();
+    expect(screen.getByText("$1,000.00")).toBeInTheDocument();
+  });
+
+  it("should save an override", async () => {
+    render(<UserLimits userId={1} />);
+
+    const [overrideButton] = await screen.findAllByRole("button", {
+      name: "Override",
+    });
+    fireEvent.click(overrideButton);
+    fireEvent.change(
+      screen.getByLabelText("checking Daily withdrawals override"),
+      { target: { value: "7500" } },
+    );
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => {
+      expect(setUserLimit).toHaveBeenCalledWith(
+        1,
+        "checking",
+        "daily_withdrawal",
+        7500,
+      );
+    });
+    expect(getUserLimits).toHaveBeenCalledTimes(2);
+  });
+
+  it("should remove an override", async () => {
+    render(<UserLimits userId={1} />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Use Default" }));
+
+    await waitFor(() => {
+      expect(setUserLimit).toHaveBeenCalledWith(
+        1,
+        "savings",
+        "per_transaction",
+        null,
+      );
+    });
+  });
+
+  it("should show an error when saving fails", async () => {
+    vi.mocked(setUserLimit).mockResolvedValue({
+      success: false,
+      error: "User not found",
+    });
+
+    render(<UserLimits userId={1} />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Use Default" }));
+
+    await waitFor(() => {
+      expect(screen.getByText("User not found")).toBeInTheDocument();
+    });
+  });
+});
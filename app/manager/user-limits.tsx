@@ -0,0 +1,226 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle } from "lucide-react";
+import { getUserLimits, setUserLimit, type ManagerUserLimit } from "./actions";
+
+const LIMIT_LABELS: Record<ManagerUserLimit["limit_type"], string> = {
+  per_transaction: "Per transaction",
+  daily_withdrawal: "Daily withdrawals",
+  daily_external_transfer: "Daily external transfers",
+  daily_check_deposit: "Daily check deposits",
+};
+
+interface UserLimitsProps {
+  userId: number;
+}
+
+export function UserLimits({ userId }: UserLimitsProps) {
+  const [limits, setLimits] = useState<ManagerUserLimit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadLimits = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setLimits(await getUserLimits(userId));
+    } catch (error) {
+      console.error("Failed to load limits:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to load limits",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadLimits();
+  }, [loadLimits]);
+
+  const limitKey = (limit: ManagerUserLimit) =>
+    `${limit.account_type}-${limit.limit_type}`;
+
+  const saveLimit = async (limit: ManagerUserLimit, amount: number | null) => {
+    if (amount !== null && (isNaN(amount) || amount < 0)) {
+      setError("Limit must be a valid non-negative number");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await setUserLimit(
+        userId,
+        limit.account_type,
+        limit.limit_type,
+        amount,
+      );
+      if (result.success) {
+        setEditing(null);
+        await loadLimits();
+      } else {
+        setError(result.error || "Failed to update limit");
+      }
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to update limit",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (amount: number | null) => {
+    if (amount === null) {
+      return "No limit";
+    }
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transaction Limits</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Overrides apply to all of this user&apos;s accounts of that type.
+          Daily limits reset at midnight UTC.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="mb-4 rounded-md border border-destructive bg-destructive/10 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
+            <p className="text-sm text-destructive">{error}</p>
+          </div>
+        )}
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Limit</TableHead>
+                  <TableHead className="text-right">Default</TableHead>
+                  <TableHead className="text-right">This User</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {limits.map((limit) => (
+                  <TableRow key={limitKey(limit)}>
+                    <TableCell>
+                      <span className="capitalize">{limit.account_type}</span>{" "}
+                      <span className="text-muted-foreground">
+                        {LIMIT_LABELS[limit.limit_type].toLowerCase()}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatCurrency(limit.default_amount)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {editing === limitKey(limit) ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={draft}
+                          onChange={(e) => setDraft(e.target.value)}
+                          aria-label={`${limit.account_type} ${LIMIT_LABELS[limit.limit_type]} override`}
+                          className="ml-auto w-32 text-right"
+                        />
+                      ) : limit.override_amount !== null ? (
+                        <Badge variant="outline">
+                          {formatCurrency(limit.override_amount)}
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">Default</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {editing === limitKey(limit) ? (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setEditing(null)}
+                            disabled={saving}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => saveLimit(limit, parseFloat(draft))}
+                            disabled={saving || draft === ""}
+                          >
+                            Save
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex justify-end gap-2">
+                          {limit.override_amount !== null && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => saveLimit(limit, null)}
+                              disabled={saving}
+                            >
+                              Use Default
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setEditing(limitKey(limit));
+                              setDraft(
+                                String(
+                                  limit.override_amount ??
+                                    limit.default_amount ??
+                                    "",
+                                ),
+                              );
+                              setError(null);
+                            }}
+                            disabled={saving}
+                          >
+                            Override
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
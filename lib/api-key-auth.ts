@@ -1,5 +1,5 @@
 import { getPrisma } from "@/app/lib/prisma";
-import { verifyApiKey } from "./api-key-utils";
+import { hashApiKey, verifyApiKey } from "./api-key-utils";
 
 export type ApiKeyAuthResult =
   | {
@@ -84,6 +84,57 @@ export async function validateApiKey(
     };
   }
 }
+
+export type PayeeApiKeyAuthResult =
+  | { ok: true; payeeId: number }
+  | { ok: false; status: number; body: { message: string } };
+
+/**
+ * Validates a bill pay payee's API key from the access_token query parameter
+ * Payees use their key to present bills to customers
+ * @param apiKey The API key from the query parameter
+ * @returns Auth result with the payee ID if valid, error response otherwise
+ */
+export async function validatePayeeApiKey(
+  apiKey: string,
+): Promise<PayeeApiKeyAuthResult> {
+  if (!apiKey || apiKey.trim().length === 0) {
+    return { ok: false, status: 401, body: { message: "API key required" } };
+  }
+
+  try {
+    // Payee keys are looked up by hash, which is unique
+    const payee = await getPrisma().billPayPayee.findUnique({
+      where: { api_key_hash: hashApiKey(apiKey) },
+    });
+
+    if (!payee) {
+      return {
+        ok: false,
+        status: 401,
+        body: { message: "Invalid API key" },
+      };
+    }
+
+    if (!payee.is_active) {
+      return {
+        ok: false,
+        status: 403,
+        body: { message: "Payee is inactive" },
+      };
+    }
+
+    return { ok: true, payeeId: payee.id };
+  } catch (error) {
+    console.error("Error validating payee API key:", error);
+    return {
+      ok: false,
+      status: 500,
+      body: { message: "Internal server error" },
+    };
+  }
+}
+
 /**
  * Helper to extract API key from request query parameters
  */
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { nextCronRun, parseCronExpression } from "./cron";
+
+describe("Cron schedules", () => {
+  describe("parseCronExpression", () => {
+    it("should parse lists, ranges and steps", () => {
+      const schedule = parseCronExpression("0,30 9-17/4 1 * 1-5");
+
+      expect(schedule).not.toBeNull();
+      expect([...schedule!.minutes]).toEqual([0, 30]);
+      expect([...schedule!.hours]).toEqual([9, 13, 17]);
+      expect([...schedule!.days_of_week]).toEqual([1, 2, 3, 4, 5]);
+      expect(schedule!.any_day_of_month).toBe(false);
+    });
+
+    it("should count a stepped day-of-month over * as unrestricted", () => {
+      const schedule = parseCronExpression("0 9 */2 * 1-5")!;
+
+      expect(schedule.any_day_of_month).toBe(true);
+      expect(schedule.any_day_of_week).toBe(false);
+      expect([...schedule.days_of_month]).toContain(31);
+      expect(schedule.days_of_month.has(2)).toBe(false);
+    });
+
+    it("should treat day-of-week 7 as Sunday", () => {
+      expect(parseCronExpression("0 0 * * 7")!.days_of_week.has(0)).toBe(true);
+    });
+
+    it("should reject malformed expressions", () => {
+      expect(parseCronExpression("* * * *")).toBeNull();
+      expect(parseCronExpression("60 * * * *")).toBeNull();
+      expect(parseCronExpression("0 0 0 * *")).toBeNull();
+      expect(parseCronExpression("0 0 * * mon")).toBeNull();
+      expect(parseCronExpression("*/0 * * * *")).toBeNull();
+      expect(parseCronExpression("5-1 * * * *")).toBeNull();
+    });
+  });
+
+  describe("nextCronRun", () => {
+    it("should return the next matching minute strictly after the given time", () => {
+      const after = new Date("2025-12-04T09:00:00Z");
+
+      expect(nextCronRun("0 9 * * *", after)).toEqual(
+        new Date("2025-12-05T09:00:00Z"),
+      );
+      expect(nextCronRun("*/15 * * * *", after)).toEqual(
+        new Date("2025-12-04T09:15:00Z"),
+      );
+    });
+
+    it("should roll over months and years", () => {
+      expect(
+        nextCronRun("0 0 1 * *", new Date("2025-12-15T00:00:00Z")),
+      ).toEqual(new Date("2026-01-01T00:00:00Z"));
+      expect(
+        nextCronRun("0 12 29 2 *", new Date("2025-03-01T00:00:00Z")),
+      ).toEqual(new Date("2028-02-29T12:00:00Z"));
+    });
+
+    it("should match either day field when both are restricted", () => {
+      // 2025-12-04 is a Thursday; the next Monday is the 8th, before the 15th
+      expect(
+        nextCronRun("0 9 15 * 1", new Date("2025-12-04T00:00:00Z")),
+      ).toEqual(new Date("2025-12-08T09:00:00Z"));
+    });
+
+    it("should match both day fields when one starts with *", () => {
+      // Odd days that are Mondays: the 8th is even, so the 15th
+      expect(
+        nextCronRun("0 9 */2 * 1", new Date("2025-12-04T00:00:00Z")),
+      ).toEqual(new Date("2025-12-15T09:00:00Z"));
+    });
+
+    it("should not run a stepped day-of-month on other days of a restricted week", () => {
+      // Odd days of the month that are also Fridays, not every odd day and every Friday
+      expect(
+        nextCronRun("30 6 */2 * 5", new Date("2025-12-01T00:00:00Z")),
+      ).toEqual(new Date("2025-12-05T06:30:00Z"));
+      // The 12th is a Friday but an even day, so the next run is on the 19th
+      expect(
+        nextCronRun("30 6 */2 * 5", new Date("2025-12-06T00:00:00Z")),
+      ).toEqual(new Date("2025-12-19T06:30:00Z"));
+    });
+
+    it("should return null for schedules that never fire", () => {
+      expect(
+        nextCronRun("0 0 30 2 *", new Date("2025-12-04T00:00:00Z")),
+      ).toBeNull();
+    });
+
+    it("should throw on invalid expressions", () => {
+      expect(() => nextCronRun("not a cron", new Date())).toThrow(RangeError);
+    });
+  });
+});
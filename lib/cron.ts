@@ -0,0 +1,136 @@
+/* ============================================================================================================================
+   CRON SCHEDULES
+   ----------------------------------------------------------------------------------------------------------------------------
+   Recurring transfers and bill payments are scheduled with standard 5-field cron expressions (minute hour day-of-month
+   month day-of-week), evaluated in UTC like pg_cron. Each field takes *, a number, a range (1-5) or a comma-separated
+   list of those, optionally followed by a step (0-59/15, 9/2). Day-of-week runs 0-7 with both 0 and 7 meaning Sunday.
+   As in cron, when both the day-of-month and day-of-week are restricted a day matches if either does. A field is
+   restricted unless it starts with *, so a step over * (every other day of the month, say) is not.
+   ============================================================================================================================ */
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days_of_month: Set<number>;
+  months: Set<number>;
+  days_of_week: Set<number>;
+  // Whether the day fields start with "*"; a restricted pair matches on either field
+  any_day_of_month: boolean;
+  any_day_of_week: boolean;
+};
+
+// Give up looking for the next run after this many years (e.g. "0 0 30 2 *" never runs)
+const SEARCH_LIMIT_YEARS = 5;
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week
+];
+
+function parseField(field: string, min: number, max: number) {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    const [, range, start, end, step] = match;
+    let from = min;
+    let to = max;
+    if (range !== "*") {
+      from = Number(start);
+      // "5/15" means every 15 from 5 to the end of the range
+      to = end !== undefined ? Number(end) : step !== undefined ? max : from;
+    }
+    const increment = step !== undefined ? Number(step) : 1;
+    if (from < min || to > max || from > to || increment < 1) {
+      return null;
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression.
+ * @returns The schedule, or null if the expression is not valid
+ */
+export function parseCronExpression(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return null;
+  }
+
+  const parsed = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1]),
+  );
+  if (parsed.some((values) => values === null)) {
+    return null;
+  }
+  const [minutes, hours, days_of_month, months, days_of_week] =
+    parsed as Set<number>[];
+
+  if (days_of_week.has(7)) {
+    days_of_week.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days_of_month,
+    months,
+    days_of_week,
+    any_day_of_month: fields[2].startsWith("*"),
+    any_day_of_week: fields[4].startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.days_of_month.has(date.getUTCDate());
+  const dayOfWeek = schedule.days_of_week.has(date.getUTCDay());
+  if (schedule.any_day_of_month || schedule.any_day_of_week) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` (to the minute, UTC) that the schedule fires.
+ * @returns The next run, or null if the schedule never fires again within the search limit
+ * @throws RangeError if the expression is not valid
+ */
+export function nextCronRun(expression: string, after: Date): Date | null {
+  const schedule = parseCronExpression(expression);
+  if (!schedule) {
+    throw new RangeError(`Invalid cron expression: ${expression}`);
+  }
+
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  const limit = after.getUTCFullYear() + SEARCH_LIMIT_YEARS;
+
+  // Skip whole months, days and hours that cannot match before stepping through minutes
+  while (candidate.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { Decimal } from "@prisma/client/runtime/library";
+import { Money, MoneySchema, sanitizeMoneyInput } from "./money";
+
+describe("Money", () => {
+  describe("parse", () => {
+    it("should parse dollar amounts exactly", () => {
+      expect(Money.parse("12")?.toCents()).toBe(1200);
+      expect(Money.parse("12.5")?.toCents()).toBe(1250);
+      expect(Money.parse("0.10")?.toCents()).toBe(10);
+      expect(Money.parse("-12.50")?.toCents()).toBe(-1250);
+      expect(Money.parse(" 1.01 ")?.toCents()).toBe(101);
+    });
+
+    it("should reject anything that is not a plain amount", () => {
+      expect(Money.parse("abc")).toBeNull();
+      expect(Money.parse("")).toBeNull();
+      expect(Money.parse("1.005")).toBeNull();
+      expect(Money.parse("1e3")).toBeNull();
+      expect(Money.parse("$5")).toBeNull();
+      expect(Money.parse("1,000")).toBeNull();
+    });
+  });
+
+  describe("from", () => {
+    it("should convert Decimals, numbers and strings", () => {
+      expect(Money.from(new Decimal("1234.5")).toCents()).toBe(123450);
+      expect(Money.from(0.1 + 0.2).toCents()).toBe(30);
+      expect(Money.from("-25").toCents()).toBe(-2500);
+    });
+
+    it("should round half away from zero", () => {
+      expect(Money.from("1.005").toCents()).toBe(101);
+      expect(Money.from("1.004").toCents()).toBe(100);
+      expect(Money.from("-1.005").toCents()).toBe(-101);
+      expect(Money.from(new Decimal("0.12345")).toCents()).toBe(12);
+    });
+
+    it("should throw on invalid input", () => {
+      expect(() => Money.from("abc")).toThrow(RangeError);
+    });
+  });
+
+  describe("formatting", () => {
+    it("should serialize as a signed string with two decimal places", () => {
+      expect(Money.fromCents(123450).toString()).toBe("1234.50");
+      expect(Money.fromCents(-5).toString()).toBe("-0.05");
+      expect(JSON.stringify({ amount: Money.fromCents(-2500) })).toBe(
+        '{"amount":"-25.00"}',
+      );
+    });
+
+    it("should format for display", () => {
+      expect(Money.fromCents(123456789).format()).toBe("$1,234,567.89");
+      expect(Money.fromCents(-123450).format()).toBe("-$1,234.50");
+      expect(Money.ZERO.format()).toBe("$0.00");
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("should add and compare exactly", () => {
+      const total = Money.from("0.10").add(Money.from("0.20"));
+
+      expect(total.eq(Money.from("0.30"))).toBe(true);
+      expect(total.sub(Money.from("0.30")).isZero()).toBe(true);
+      expect(Money.from("5").gt(Money.from("4.99"))).toBe(true);
+      expect(Money.from("5").lt(Money.from("4.99"))).toBe(false);
+      expect(Money.from("5").compare(Money.from("5.00"))).toBe(0);
+    });
+
+    it("should sign amounts by direction", () => {
+      const amount = Money.from("25.50");
+
+      expect(amount.signedFor("outbound").toString()).toBe("-25.50");
+      expect(amount.signedFor("inbound").toString()).toBe("25.50");
+      expect(amount.neg().signedFor("inbound").toString()).toBe("25.50");
+      expect(amount.neg().signedFor("outbound").toString()).toBe("-25.50");
+    });
+
+    it("should not produce negative zero", () => {
+      expect(Money.ZERO.neg().toString()).toBe("0.00");
+      expect(Money.ZERO.signedFor("outbound").isNegative()).toBe(false);
+    });
+  });
+
+  describe("sanitizeMoneyInput", () => {
+    it("should keep digits and one decimal point with at most two places", () => {
+      expect(sanitizeMoneyInput("12.345")).toBe("12.34");
+      expect(sanitizeMoneyInput("$1,000.5")).toBe("1000.5");
+      expect(sanitizeMoneyInput("1.2.3")).toBe("1.23");
+      expect(sanitizeMoneyInput("abc")).toBe("");
+      expect(sanitizeMoneyInput("5.")).toBe("5.");
+    });
+  });
+
+  describe("MoneySchema", () => {
+    it("should parse valid amounts into Money", () => {
+      const result = MoneySchema.safeParse("100.50");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.toCents()).toBe(10050);
+      }
+    });
+
+    it("should reject amounts outside the allowed range", () => {
+      const cases: [string, string][] = [
+        ["0", "Amount must be at least $0.01"],
+        ["-5", "Amount must be at least $0.01"],
+        ["10000000", "Amount cannot exceed $9,999,999.99"],
+        [
+          "1.999",
+          "Amount must be a valid number with at most 2 decimal places",
+        ],
+      ];
+
+      for (const [input, message] of cases) {
+        const result = MoneySchema.safeParse(input);
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe(message);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { z } from "zod";
+
+/* ============================================================================================================================
+   MONEY
+   ----------------------------------------------------------------------------------------------------------------------------
+   An amount of US dollars held as a whole number of cents, so adding and comparing amounts is exact. Parse input with
+   Money.parse (never parseFloat), convert database Decimals with Money.from, and send amounts over JSON as strings with
+   two decimal places ("-12.50"); JSON.stringify does that through toJSON.
+
+   Signs follow the ledger: inbound amounts are positive and outbound amounts negative. Keep amounts positive until a
+   transaction is written, then use signedFor(direction). Show them with abs() and the direction, or with format().
+
+   Mirrored in mobile/lib/money.ts; keep the two in step.
+   ============================================================================================================================ */
+
+export type MoneyDirection = "inbound" | "outbound";
+
+// Largest amount a customer can move in one request ($9,999,999.99)
+export const MAX_AMOUNT_CENTS = 999999999;
+
+const STRICT_PATTERN = /^(-)?(\d+)(?:\.(\d{1,2}))?$/;
+const ROUNDING_PATTERN = /^(-)?(\d+)(?:\.(\d*))?$/;
+
+export class Money {
+  private constructor(private readonly cents: number) {}
+
+  static readonly ZERO = new Money(0);
+
+  static fromCents(cents: number): Money {
+    if (!Number.isSafeInteger(cents)) {
+      throw new RangeError(`Invalid number of cents: ${cents}`);
+    }
+    return new Money(cents === 0 ? 0 : cents); // No negative zero
+  }
+
+  /**
+   * Parse a dollar amount such as "12", "12.5" or "-12.50". Rejects anything with more than two decimal places.
+   * @returns The amount, or null if the input is not a valid amount
+   */
+  static parse(input: string): Money | null {
+    const match = STRICT_PATTERN.exec(input.trim());
+    if (!match) {
+      return null;
+    }
+    const [, minus, dollars, fraction = ""] = match;
+    const cents = Number(dollars) * 100 + Number(fraction.padEnd(2, "0"));
+    if (!Number.isSafeInteger(cents)) {
+      return null;
+    }
+    return Money.fromCents(minus ? -cents : cents);
+  }
+
+  /**
+   * Convert a stored amount to Money, rounding half away from zero to the nearest cent. Accepts a Prisma Decimal
+   * (anything with toFixed), a number or a decimal string.
+   */
+  static from(
+    value: string | number | { toFixed(decimalPlaces: number): string },
+  ): Money {
+    const text = typeof value === "string" ? value.trim() : value.toFixed(2);
+    const match = ROUNDING_PATTERN.exec(text);
+    if (!match) {
+      throw new RangeError(`Invalid amount: ${text}`);
+    }
+    const [, minus, dollars, fraction = ""] = match;
+    let cents =
+      Number(dollars) * 100 + Number(fraction.slice(0, 2).padEnd(2, "0"));
+    if (Number(fraction.charAt(2) || "0") >= 5) {
+      cents += 1;
+    }
+    return Money.fromCents(minus ? -cents : cents);
+  }
+
+  toCents(): number {
+    return this.cents;
+  }
+
+  // "1234.50" or "-1234.50"
+  toString(): string {
+    const sign = this.cents < 0 ? "-" : "";
+    const cents = Math.abs(this.cents);
+    const dollars = Math.floor(cents / 100);
+    return `${sign}${dollars}.${String(cents % 100).padStart(2, "0")}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  // "$1,234.50" or "-$1,234.50"
+  format(): string {
+    const [dollars, fraction] = this.abs().toString().split(".");
+    const grouped = dollars.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    return `${this.cents < 0 ? "-" : ""}$${grouped}.${fraction}`;
+  }
+
+  add(other: Money): Money {
+    return Money.fromCents(this.cents + other.cents);
+  }
+
+  sub(other: Money): Money {
+    return Money.fromCents(this.cents - other.cents);
+  }
+
+  neg(): Money {
+    return Money.fromCents(-this.cents);
+  }
+
+  abs(): Money {
+    return Money.fromCents(Math.abs(this.cents));
+  }
+
+  /**
+   * The amount with the ledger's sign for a transaction in `direction`: positive inbound, negative outbound.
+   */
+  signedFor(direction: MoneyDirection): Money {
+    return direction === "outbound" ? this.abs().neg() : this.abs();
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    return this.cents < other.cents ? -1 : this.cents > other.cents ? 1 : 0;
+  }
+
+  eq(other: Money): boolean {
+    return this.cents === other.cents;
+  }
+
+  gt(other: Money): boolean {
+    return this.cents > other.cents;
+  }
+
+  lt(other: Money): boolean {
+    return this.cents < other.cents;
+  }
+
+  isZero(): boolean {
+    return this.cents === 0;
+  }
+
+  isNegative(): boolean {
+    return this.cents < 0;
+  }
+}
+
+/**
+ * Clean up what a user is typing into an amount field: digits and one decimal point, at most two decimal places.
+ */
+export function sanitizeMoneyInput(text: string): string {
+  const cleaned = text.replace(/[^\d.]/g, "");
+  const [whole, ...rest] = cleaned.split(".");
+  if (rest.length === 0) {
+    return whole;
+  }
+  return `${whole}.${rest.join("").slice(0, 2)}`;
+}
+
+// A positive dollar amount sent as a string ("100.50"), parsed exactly into Money
+export const MoneySchema = z
+  .string()
+  .transform((val, ctx) => {
+    const money = Money.parse(val);
+    if (!money) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Amount must be a valid number with at most 2 decimal places",
+      });
+      return z.NEVER;
+    }
+    return money;
+  })
+  .refine((money) => money.toCents() >= 1, "Amount must be at least $0.01")
+  .refine(
+    (money) => money.toCents() <= MAX_AMOUNT_CENTS,
+    "Amount cannot exceed $9,999,999.99",
+  );
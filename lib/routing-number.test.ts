@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { getRoutingCheckDigit, isValidRoutingNumber } from "./routing-number";
+
+describe("getRoutingCheckDigit", () => {
+  it("should weight the first eight digits 3, 7, 1", () => {
+    expect(getRoutingCheckDigit("02100002")).toBe("1");
+    expect(getRoutingCheckDigit("72472290")).toBe("7");
+    expect(getRoutingCheckDigit("12345678")).toBe("0");
+  });
+});
+
+describe("isValidRoutingNumber", () => {
+  it("should accept routing numbers with a matching check digit", () => {
+    expect(isValidRoutingNumber("021000021")).toBe(true);
+    expect(isValidRoutingNumber("121000358")).toBe(true);
+    expect(isValidRoutingNumber("724722907")).toBe(true);
+  });
+
+  it("should reject a wrong check digit", () => {
+    expect(isValidRoutingNumber("021000022")).toBe(false);
+    expect(isValidRoutingNumber("123456789")).toBe(false);
+  });
+
+  it("should reject anything that is not nine digits", () => {
+    expect(isValidRoutingNumber("02100002")).toBe(false);
+    expect(isValidRoutingNumber("0210000210")).toBe(false);
+    expect(isValidRoutingNumber("02100002a")).toBe(false);
+    expect(isValidRoutingNumber("")).toBe(false);
+  });
+});
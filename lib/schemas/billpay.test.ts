@@ -18,7 +18,7 @@ describe("Billpay Schemas", () => {
         postal_code: "94102",
         country: "United States",
         account_number: "1234567890",
-        routing_number: "123456789",
+        routing_number: "121000358",
       };
 
       const result = BillPayPayeeSchema.safeParse(validData);
@@ -36,7 +36,7 @@ describe("Billpay Schemas", () => {
         state_or_territory: "CA",
         postal_code: "94102",
         account_number: "1234567890",
-        routing_number: "123456789",
+        routing_number: "121000358",
       };
 
       const result = BillPayPayeeSchema.safeParse(validData);
@@ -53,7 +53,7 @@ describe("Billpay Schemas", () => {
         state_or_territory: "CA",
         postal_code: "94102",
         account_number: "1234567890",
-        routing_number: "123456789",
+        routing_number: "121000358",
       };
 
       const result = BillPayPayeeSchema.safeParse(invalidData);
@@ -77,6 +77,28 @@ describe("Billpay Schemas", () => {
       expect(result.success).toBe(false);
     });
 
+    it("should reject routing number that fails the checksum", () => {
+      const invalidData = {
+        business_name: "Test Company",
+        email: "test@example.com",
+        phone: "+1234567890",
+        street_address: "123 Main St",
+        city: "San Francisco",
+        state_or_territory: "CA",
+        postal_code: "94102",
+        account_number: "1234567890",
+        routing_number: "123456789", // Check digit should be 0
+      };
+
+      const result = BillPayPayeeSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe(
+          "Routing number is not valid",
+        );
+      }
+    });
+
     it("should reject invalid account number (non-numeric)", () => {
       const invalidData = {
         business_name: "Test Company",
@@ -87,7 +109,7 @@ describe("Billpay Schemas", () => {
         state_or_territory: "CA",
         postal_code: "94102",
         account_number: "abc123", // Invalid: not all digits
-        routing_number: "123456789",
+        routing_number: "121000358",
       };
 
       const result = BillPayPayeeSchema.safeParse(invalidData);
@@ -108,7 +130,7 @@ describe("Billpay Schemas", () => {
       const result = BillPayRuleCreateSchema.safeParse(validData);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.amount).toBe(10000); // Should be converted to cents
+        expect(result.data.amount?.toString()).toBe("100.00"); // Parsed exactly into Money
       }
     });
 
@@ -124,7 +146,7 @@ describe("Billpay Schemas", () => {
           state_or_territory: "CA",
           postal_code: "94102",
           account_number: "1234567890",
-          routing_number: "123456789",
+          routing_number: "121000358",
         },
         amount: "50.50",
         frequency: "0 0 * * *", // Daily at midnight
@@ -135,7 +157,7 @@ describe("Billpay Schemas", () => {
       const result = BillPayRuleCreateSchema.safeParse(validData);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.amount).toBe(5050); // Should be converted to cents
+        expect(result.data.amount?.toString()).toBe("50.50"); // Parsed exactly into Money
       }
     });
 
@@ -177,6 +199,49 @@ describe("Billpay Schemas", () => {
       expect(result.success).toBe(false);
     });
 
+    it("should validate a statement balance rule without amount or frequency", () => {
+      const result = BillPayRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        payee_id: 1,
+        mode: "statement_balance",
+        max_amount: "500.00",
+        start_time: "2025-12-01T09:00:00Z",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a statement balance rule without a maximum amount", () => {
+      const result = BillPayRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        payee_id: 1,
+        mode: "statement_balance",
+        start_time: "2025-12-01T09:00:00Z",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a statement balance rule with an amount", () => {
+      const result = BillPayRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        payee_id: 1,
+        mode: "statement_balance",
+        amount: "100.00",
+        max_amount: "500.00",
+        start_time: "2025-12-01T09:00:00Z",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a fixed amount rule without a frequency", () => {
+      const result = BillPayRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        payee_id: 1,
+        amount: "100.00",
+        start_time: "2025-12-01T09:00:00Z",
+      });
+      expect(result.success).toBe(false);
+    });
+
     it("should validate valid cron expressions", () => {
       const validCrons = [
         "0 9 * * 1", // Every Monday at 9 AM
@@ -210,7 +275,7 @@ describe("Billpay Schemas", () => {
       const result = BillPayRuleUpdateSchema.safeParse(validData);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.amount).toBe(15000); // Should be converted to cents
+        expect(result.data.amount?.toString()).toBe("150.00"); // Parsed exactly into Money
       }
     });
 
@@ -224,7 +289,7 @@ describe("Billpay Schemas", () => {
       const result = BillPayRuleUpdateSchema.safeParse(validData);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.amount).toBe(20000);
+        expect(result.data.amount?.toString()).toBe("200.00");
         expect(result.data.source_account_id).toBe(2);
         expect(result.data.frequency).toBe("0 10 * * *");
       }
@@ -243,7 +308,7 @@ describe("Billpay Schemas", () => {
       const result = BillPayRuleUpdateSchema.safeParse(validData);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.amount).toBe(7550);
+        expect(result.data.amount?.toString()).toBe("75.50");
       }
     });
 
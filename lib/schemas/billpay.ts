@@ -1,26 +1,7 @@
 import { z } from "zod";
-
-// Amount validation - accepts string input and converts to cents (integers)
-const AmountSchema = z
-  .string()
-  .transform((val, ctx) => {
-    const num = parseFloat(val);
-    if (isNaN(num)) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "Amount must be a valid number",
-      });
-      return z.NEVER;
-    }
-    return Math.round(num * 100); // Convert to cents
-  })
-  .pipe(
-    z
-      .number()
-      .int("Amount must be a whole number")
-      .min(1, "Amount must be at least $0.01")
-      .max(999999999, "Amount cannot exceed $9,999,999.99"),
-  );
+import { MoneySchema } from "@/lib/money";
+import { parseCronExpression } from "@/lib/cron";
+import { isValidRoutingNumber } from "@/lib/routing-number";
 
 // Account number validation (up to 17 characters as per ACH standards)
 const AccountNumberSchema = z
@@ -29,7 +10,7 @@ const AccountNumberSchema = z
   .max(17, "Account number cannot exceed 17 characters")
   .regex(/^\d+$/, "Account number must contain only digits");
 
-// Routing number validation (exactly 9 digits)
+// Routing number validation (exactly 9 digits with a valid ABA check digit)
 const RoutingNumberSchema = z
   .string()
   .min(1, "Routing number is required")
@@ -38,6 +19,9 @@ const RoutingNumberSchema = z
   })
   .refine((val) => val.length === 9, {
     message: "Routing number must be exactly 9 digits",
+  })
+  .refine((val) => !/^\d{9}$/.test(val) || isValidRoutingNumber(val), {
+    message: "Routing number is not valid",
   });
 
 // US State/Territory enum (matching schema.prisma)
@@ -100,23 +84,14 @@ const USStateTerritorySchema = z.enum([
   "MP",
 ]);
 
-// Cron expression validation (5-part format: minute hour day month weekday)
+// Cron expression validation (5-part format: minute hour day month weekday, in UTC)
 // Format: * * * * * (minute hour day-of-month month day-of-week)
-const CronExpressionSchema = z.string().refine(
-  (val) => {
-    const parts = val.trim().split(/\s+/);
-    if (parts.length !== 5) return false;
-
-    // Basic validation: each part should contain valid cron characters
-    // Allowed: numbers, *, -, /, ,
-    const cronPartRegex = /^[\d\*\-\,\/]+$/;
-    return parts.every((part) => cronPartRegex.test(part));
-  },
-  {
+const CronExpressionSchema = z
+  .string()
+  .refine((val) => parseCronExpression(val) !== null, {
     message:
       "Frequency must be a valid cron expression (5 parts: minute hour day month weekday)",
-  },
-);
+  });
 
 // BillPayPayee schema (for creating payees)
 export const BillPayPayeeSchema = z.object({
@@ -135,6 +110,9 @@ export const BillPayPayeeSchema = z.object({
 
 export type BillPayPayeeData = z.infer<typeof BillPayPayeeSchema>;
 
+// fixed_amount rules pay amount on their frequency; statement_balance rules pay the bills their payee presents
+const BillPayRuleModeSchema = z.enum(["fixed_amount", "statement_balance"]);
+
 // BillPayRule creation schema
 export const BillPayRuleCreateSchema = z
   .object({
@@ -144,14 +122,42 @@ export const BillPayRuleCreateSchema = z
       .positive("Source account ID is required"),
     payee_id: z.number().int().positive().optional(), // Optional if creating new payee
     payee: BillPayPayeeSchema.optional(), // Payee data if creating new payee
-    amount: AmountSchema,
-    frequency: CronExpressionSchema,
+    mode: BillPayRuleModeSchema.default("fixed_amount"),
+    amount: MoneySchema.optional(), // Required for fixed_amount rules
+    frequency: CronExpressionSchema.optional(), // Required for fixed_amount rules
+    max_amount: MoneySchema.optional(), // Required for statement_balance rules: the most a bill may be to be paid
     start_time: z.string().datetime("Invalid start time format"),
     end_time: z.string().datetime("Invalid end time format").optional(),
   })
   .refine((data) => data.payee_id || data.payee, {
     message: "Must provide either payee_id or payee information",
     path: ["payee_id"],
+  })
+  .refine((data) => data.mode !== "fixed_amount" || data.amount, {
+    message: "Amount is required for fixed amount rules",
+    path: ["amount"],
+  })
+  .refine((data) => data.mode !== "fixed_amount" || data.frequency, {
+    message: "Frequency is required for fixed amount rules",
+    path: ["frequency"],
+  })
+  .refine(
+    (data) =>
+      data.mode !== "statement_balance" ||
+      (data.amount === undefined && data.frequency === undefined),
+    {
+      message:
+        "Statement balance rules pay each bill's amount due on its due date; leave out amount and frequency",
+      path: ["mode"],
+    },
+  )
+  .refine((data) => data.mode !== "statement_balance" || data.max_amount, {
+    message: "Maximum amount is required for statement balance rules",
+    path: ["max_amount"],
+  })
+  .refine((data) => data.mode !== "fixed_amount" || !data.max_amount, {
+    message: "Fixed amount rules pay amount; leave out max_amount",
+    path: ["max_amount"],
   });
 
 export type BillPayRuleCreateData = z.infer<typeof BillPayRuleCreateSchema>;
@@ -161,8 +167,9 @@ export const BillPayRuleUpdateSchema = z
   .object({
     source_account_id: z.number().int().positive().optional(),
     payee_id: z.number().int().positive().optional(),
-    amount: AmountSchema.optional(),
+    amount: MoneySchema.optional(),
     frequency: CronExpressionSchema.optional(),
+    max_amount: MoneySchema.optional(),
     start_time: z.string().datetime("Invalid start time format").optional(),
     end_time: z
       .string()
@@ -176,6 +183,7 @@ export const BillPayRuleUpdateSchema = z
       data.payee_id !== undefined ||
       data.amount !== undefined ||
       data.frequency !== undefined ||
+      data.max_amount !== undefined ||
       data.start_time !== undefined ||
       data.end_time !== undefined,
     {
@@ -210,11 +218,62 @@ export const BillPayRuleResponseSchema = z.object({
   user_id: z.number(),
   source_internal_id: z.number(),
   payee_id: z.number(),
-  amount: z.number(), // in dollars (Decimal converted to number)
-  frequency: z.string(),
+  mode: BillPayRuleModeSchema,
+  amount: z.string().nullable(), // Dollars, e.g. "25.00"; null for statement_balance rules
+  frequency: z.string().nullable(), // Null for statement_balance rules
+  max_amount: z.string().nullable(), // Dollars; null for fixed_amount rules
   start_time: z.string().datetime(),
   end_time: z.string().datetime().nullable(),
+  status: z.enum(["active", "paused"]),
+  skip_count: z.number(), // Scheduled payments left to skip
   created_at: z.string().datetime().optional(),
 });
 
 export type BillPayRuleResponse = z.infer<typeof BillPayRuleResponseSchema>;
+
+// BillPayRule history query schema (past executions are paginated; upcoming runs are previewed)
+export const BillPayRuleHistoryQuerySchema = z.object({
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(100).default(20),
+  upcoming: z.number().int().min(1).max(24).default(5),
+});
+
+export type BillPayRuleHistoryQueryData = z.infer<
+  typeof BillPayRuleHistoryQuerySchema
+>;
+
+// BillPayRule schedule actions: pause, resume, or skip the next `count` payments
+export const BillPayRuleActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("pause") }),
+  z.object({ action: z.literal("resume") }),
+  z.object({
+    action: z.literal("skip"),
+    count: z.number().int().min(1).max(12).default(1),
+  }),
+]);
+
+export type BillPayRuleActionData = z.infer<typeof BillPayRuleActionSchema>;
+
+// Bill a payee presents to a customer, who is identified by the email they bank with
+export const BillCreateSchema = z.object({
+  customer_email: z.string().email("Invalid email address"),
+  amount_due: MoneySchema,
+  due_date: z.string().datetime("Invalid due date format"),
+  reference: z.string().max(64).optional(), // The payee's statement or invoice number
+});
+
+export type BillCreateData = z.infer<typeof BillCreateSchema>;
+
+// Paying a bill one-off
+export const BillPaymentSchema = z.object({
+  source_account_id: z.number().int().positive("Source account ID is required"),
+});
+
+export type BillPaymentData = z.infer<typeof BillPaymentSchema>;
+
+// Customer's bills query schema
+export const BillsQuerySchema = z.object({
+  status: z.enum(["open", "paid"]).optional(),
+});
+
+export type BillsQueryData = z.infer<typeof BillsQuerySchema>;
@@ -4,6 +4,9 @@ import {
   ExternalTransferSchema,
   ExternalAccountSchema,
   TransferHistoryQuerySchema,
+  ReversalSchema,
+  TransferRuleCreateSchema,
+  TransferRuleUpdateSchema,
 } from "./transfer";
 
 describe("Transfer Schemas", () => {
@@ -18,7 +21,7 @@ describe("Transfer Schemas", () => {
       const result = InternalTransferSchema.safeParse(validData);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.amount).toBe(10000); // Should be converted to cents
+        expect(result.data.amount.toString()).toBe("100.00"); // Parsed exactly into Money
       }
     });
 
@@ -65,7 +68,7 @@ describe("Transfer Schemas", () => {
       expect(result.success).toBe(false);
       if (!result.success) {
         expect(result.error.issues[0].message).toBe(
-          "Amount must be a valid number",
+          "Amount must be a valid number with at most 2 decimal places",
         );
       }
     });
@@ -93,7 +96,7 @@ describe("Transfer Schemas", () => {
       const result = ExternalTransferSchema.safeParse(validData);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.amount).toBe(10000); // Should be converted to cents
+        expect(result.data.amount.toString()).toBe("100.00"); // Parsed exactly into Money
         expect(result.data.recipient_email).toBe("recipient@example.com");
       }
     });
@@ -158,7 +161,7 @@ describe("Transfer Schemas", () => {
       const validData = {
         nickname: "My Savings Account",
         account_number: "1234567890",
-        routing_number: "123456789",
+        routing_number: "121000358",
       };
 
       const result = ExternalAccountSchema.safeParse(validData);
@@ -168,7 +171,7 @@ describe("Transfer Schemas", () => {
     it("should validate external account without nickname", () => {
       const validData = {
         account_number: "1234567890",
-        routing_number: "123456789",
+        routing_number: "121000358",
       };
 
       const result = ExternalAccountSchema.safeParse(validData);
@@ -180,7 +183,7 @@ describe("Transfer Schemas", () => {
         nickname:
           "This nickname is way too long and exceeds the 30 character limit",
         account_number: "1234567890",
-        routing_number: "123456789",
+        routing_number: "121000358",
       };
 
       const result = ExternalAccountSchema.safeParse(invalidData);
@@ -201,6 +204,21 @@ describe("Transfer Schemas", () => {
       const result = ExternalAccountSchema.safeParse(invalidData);
       expect(result.success).toBe(false);
     });
+
+    it("should reject routing number that fails the checksum", () => {
+      const invalidData = {
+        account_number: "1234567890",
+        routing_number: "123456789",
+      };
+
+      const result = ExternalAccountSchema.safeParse(invalidData);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe(
+          "Routing number is not valid",
+        );
+      }
+    });
   });
 
   describe("TransferHistoryQuerySchema", () => {
@@ -284,4 +302,124 @@ describe("Transfer Schemas", () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe("ReversalSchema", () => {
+    it("should accept a reason code with an optional amount", () => {
+      const result = ReversalSchema.safeParse({
+        reason: "duplicate",
+        amount: "25.50",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.amount?.toString()).toBe("25.50");
+      }
+    });
+
+    it("should reject unknown reason codes", () => {
+      const result = ReversalSchema.safeParse({ reason: "changed_my_mind" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("TransferRuleCreateSchema", () => {
+    it("should validate a recurring transfer to an internal account", () => {
+      const result = TransferRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        destination_account_id: 2,
+        amount: "250.00",
+        transfer_kind: "recurring",
+        frequency: "0 9 1 * *",
+        start_time: "2026-01-01T00:00:00Z",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should validate a one-off transfer to a saved external account", () => {
+      const result = TransferRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        destination_external_account_id: 5,
+        amount: "75.25",
+        transfer_kind: "one_off",
+        run_at: "2026-01-15T12:00:00Z",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should require exactly one destination", () => {
+      const base = {
+        source_account_id: 1,
+        amount: "10.00",
+        transfer_kind: "one_off" as const,
+        run_at: "2026-01-15T12:00:00Z",
+      };
+
+      expect(TransferRuleCreateSchema.safeParse(base).success).toBe(false);
+      expect(
+        TransferRuleCreateSchema.safeParse({
+          ...base,
+          destination_account_id: 2,
+          destination_external_account_id: 5,
+        }).success,
+      ).toBe(false);
+    });
+
+    it("should require the fields for the transfer kind", () => {
+      const oneOff = TransferRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        destination_account_id: 2,
+        amount: "10.00",
+        transfer_kind: "one_off",
+      });
+      const recurring = TransferRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        destination_account_id: 2,
+        amount: "10.00",
+        transfer_kind: "recurring",
+        start_time: "2026-01-01T00:00:00Z",
+      });
+
+      expect(oneOff.success).toBe(false);
+      if (!oneOff.success) {
+        expect(oneOff.error.issues[0].message).toBe(
+          "One-off transfers require run_at",
+        );
+      }
+      expect(recurring.success).toBe(false);
+      if (!recurring.success) {
+        expect(recurring.error.issues[0].message).toBe(
+          "Recurring transfers require frequency and start_time",
+        );
+      }
+    });
+
+    it("should reject invalid cron frequencies", () => {
+      const result = TransferRuleCreateSchema.safeParse({
+        source_account_id: 1,
+        destination_account_id: 2,
+        amount: "10.00",
+        transfer_kind: "recurring",
+        frequency: "every monday",
+        start_time: "2026-01-01T00:00:00Z",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("TransferRuleUpdateSchema", () => {
+    it("should accept a partial update and a cleared end time", () => {
+      const result = TransferRuleUpdateSchema.safeParse({
+        amount: "99.99",
+        end_time: null,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.amount?.toString()).toBe("99.99");
+        expect(result.data.end_time).toBeNull();
+      }
+    });
+
+    it("should reject an empty update", () => {
+      expect(TransferRuleUpdateSchema.safeParse({}).success).toBe(false);
+    });
+  });
 });
@@ -1,26 +1,7 @@
 import { z } from "zod";
-
-// Amount validation - accepts string input and converts to cents (integers)
-const AmountSchema = z
-  .string()
-  .transform((val, ctx) => {
-    const num = parseFloat(val);
-    if (isNaN(num)) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "Amount must be a valid number",
-      });
-      return z.NEVER;
-    }
-    return Math.round(num * 100); // Convert to cents
-  })
-  .pipe(
-    z
-      .number()
-      .int("Amount must be a whole number")
-      .min(1, "Amount must be at least $0.01")
-      .max(999999999, "Amount cannot exceed $9,999,999.99"),
-  );
+import { MoneySchema } from "@/lib/money";
+import { parseCronExpression } from "@/lib/cron";
+import { isValidRoutingNumber } from "@/lib/routing-number";
 
 // Account number validation (up to 17 characters as per ACH standards)
 const AccountNumberSchema = z
@@ -29,11 +10,14 @@ const AccountNumberSchema = z
   .max(17, "Account number cannot exceed 17 characters")
   .regex(/^\d+$/, "Account number must contain only digits");
 
-// Routing number validation (exactly 9 digits)
+// Routing number validation (exactly 9 digits with a valid ABA check digit)
 const RoutingNumberSchema = z
   .string()
   .length(9, "Routing number must be exactly 9 digits")
-  .regex(/^\d{9}$/, "Routing number must contain only digits");
+  .regex(/^\d{9}$/, "Routing number must contain only digits")
+  .refine((val) => !/^\d{9}$/.test(val) || isValidRoutingNumber(val), {
+    message: "Routing number is not valid",
+  });
 
 // Internal transfer schema
 export const InternalTransferSchema = z
@@ -46,7 +30,7 @@ export const InternalTransferSchema = z
       .number()
       .int()
       .positive("Destination account ID is required"),
-    amount: AmountSchema,
+    amount: MoneySchema,
   })
   .refine((data) => data.source_account_id !== data.destination_account_id, {
     message: "Source and destination accounts must be different",
@@ -74,7 +58,7 @@ export const ExternalTransferSchema = z
       .number()
       .int()
       .positive("Source account ID is required"),
-    amount: AmountSchema,
+    amount: MoneySchema,
     // Transfer to user in same bank by email/phone lookup
     recipient_email: z.string().email().optional(),
     recipient_phone: z.string().optional(),
@@ -97,6 +81,89 @@ export const ExternalTransferSchema = z
 
 export type ExternalTransferData = z.infer<typeof ExternalTransferSchema>;
 
+// Cron expression for recurring transfer rules (5 parts: minute hour day month weekday, in UTC)
+const TransferFrequencySchema = z
+  .string()
+  .refine((val) => parseCronExpression(val) !== null, {
+    message:
+      "Frequency must be a valid cron expression (5 parts: minute hour day month weekday)",
+  });
+
+// Scheduled transfer rule schema. A one-off rule runs once at run_at; a recurring rule runs on its
+// frequency from start_time until end_time. The destination is one of the user's own accounts or a
+// saved external account.
+export const TransferRuleCreateSchema = z
+  .object({
+    source_account_id: z
+      .number()
+      .int()
+      .positive("Source account ID is required"),
+    destination_account_id: z.number().int().positive().optional(),
+    destination_external_account_id: z.number().int().positive().optional(),
+    amount: MoneySchema,
+    transfer_kind: z.enum(["one_off", "recurring"]),
+    run_at: z.string().datetime("Invalid run time format").optional(),
+    frequency: TransferFrequencySchema.optional(),
+    start_time: z.string().datetime("Invalid start time format").optional(),
+    end_time: z.string().datetime("Invalid end time format").optional(),
+  })
+  .refine(
+    (data) =>
+      (data.destination_account_id === undefined) !==
+      (data.destination_external_account_id === undefined),
+    {
+      message:
+        "Must provide either destination_account_id or destination_external_account_id",
+      path: ["destination_account_id"],
+    },
+  )
+  .refine((data) => data.source_account_id !== data.destination_account_id, {
+    message: "Source and destination accounts must be different",
+    path: ["destination_account_id"],
+  })
+  .refine((data) => data.transfer_kind !== "one_off" || data.run_at, {
+    message: "One-off transfers require run_at",
+    path: ["run_at"],
+  })
+  .refine(
+    (data) =>
+      data.transfer_kind !== "recurring" || (data.frequency && data.start_time),
+    {
+      message: "Recurring transfers require frequency and start_time",
+      path: ["frequency"],
+    },
+  );
+
+export type TransferRuleCreateData = z.infer<typeof TransferRuleCreateSchema>;
+
+// Transfer rule update schema (all fields optional). The source and destination cannot change;
+// cancel the rule and create a new one instead.
+export const TransferRuleUpdateSchema = z
+  .object({
+    amount: MoneySchema.optional(),
+    run_at: z.string().datetime("Invalid run time format").optional(),
+    frequency: TransferFrequencySchema.optional(),
+    start_time: z.string().datetime("Invalid start time format").optional(),
+    end_time: z
+      .string()
+      .datetime("Invalid end time format")
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.amount !== undefined ||
+      data.run_at !== undefined ||
+      data.frequency !== undefined ||
+      data.start_time !== undefined ||
+      data.end_time !== undefined,
+    {
+      message: "At least one field must be provided for update",
+    },
+  );
+
+export type TransferRuleUpdateData = z.infer<typeof TransferRuleUpdateSchema>;
+
 // Transfer history query schema
 // Helper to transform date strings (YYYY-MM-DD) to datetime strings (ISO 8601)
 const dateToDatetimeStart = z
@@ -149,7 +216,7 @@ export const InternalAccountResponseSchema = z.object({
   account_number: z.string(),
   routing_number: z.string(),
   account_type: z.enum(["checking", "savings"]),
-  balance: z.number(),
+  balance: z.string(), // Dollars from Money, e.g. "1250.00"
   is_active: z.boolean(),
   created_at: z.string().optional(),
 });
@@ -163,6 +230,7 @@ export const ExternalAccountResponseSchema = z.object({
   nickname: z.string().nullable(),
   account_number: z.string(),
   routing_number: z.string(),
+  bank_name: z.string().nullable(), // From the routing directory
 });
 
 export type ExternalAccountResponse = z.infer<
@@ -172,8 +240,8 @@ export type ExternalAccountResponse = z.infer<
 export const TransferHistoryItemSchema = z.object({
   id: z.number(),
   created_at: z.string().datetime(),
-  amount: z.number(),
-  status: z.enum(["approved", "denied"]),
+  amount: z.string(), // Signed dollars, e.g. "-25.00" for outbound
+  status: z.enum(["pending", "approved", "denied", "reversed", "returned"]),
   transaction_type: z.enum([
     "internal_transfer",
     "external_transfer",
@@ -195,7 +263,62 @@ export const TransferResponseSchema = z.object({
   success: z.boolean(),
   message: z.string(),
   transaction_id: z.number().optional(),
-  amount: z.number().optional(),
+  amount: z.string().optional(), // Dollars, e.g. "25.00"
 });
 
 export type TransferResponse = z.infer<typeof TransferResponseSchema>;
+
+export const TransferRuleResponseSchema = z.object({
+  id: z.number(),
+  transfer_kind: z.enum(["one_off", "recurring"]),
+  source_internal_id: z.number(),
+  destination_internal_id: z.number().nullable(),
+  destination_external_id: z.number().nullable(),
+  destination_label: z.string(), // "****1234" or the external account's nickname
+  amount: z.string(), // Dollars, e.g. "25.00"
+  frequency: z.string().nullable(),
+  run_at: z.string().datetime().nullable(),
+  start_time: z.string().datetime(),
+  end_time: z.string().datetime().nullable(),
+  next_run_at: z.string().datetime().nullable(),
+  last_run_at: z.string().datetime().nullable(),
+});
+
+export type TransferRuleResponse = z.infer<typeof TransferRuleResponseSchema>;
+
+// Manager reversal schema. Amount is optional; when given it must be the full transaction amount.
+export const ReversalSchema = z.object({
+  reason: z.enum([
+    "duplicate",
+    "posted_in_error",
+    "fraud",
+    "customer_dispute",
+    "other",
+  ]),
+  amount: MoneySchema.optional(),
+});
+
+export type ReversalData = z.infer<typeof ReversalSchema>;
+
+// Manager registering a partner bank for the partner channel
+export const PartnerBankCreateSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Name is required")
+      .max(100, "Name cannot exceed 100 characters"),
+    routing_number: RoutingNumberSchema,
+    per_transfer_limit: MoneySchema,
+    daily_limit: MoneySchema,
+  })
+  .refine((data) => !data.per_transfer_limit.isNegative(), {
+    message: "Limits cannot be negative",
+    path: ["per_transfer_limit"],
+  })
+  .refine((data) => !data.per_transfer_limit.gt(data.daily_limit), {
+    message: "Per-transfer limit cannot exceed the daily limit",
+    path: ["per_transfer_limit"],
+  });
+
+export type PartnerBankCreateData = z.infer<typeof PartnerBankCreateSchema>;
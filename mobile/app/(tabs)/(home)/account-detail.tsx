@@ -10,13 +10,24 @@ import { useMemo } from "react";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Clipboard from "expo-clipboard";
 import Toast from "react-native-toast-message";
+import { openBrowserAsync } from "expo-web-browser";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import { IconSymbol } from "@/components/ui/icon-symbol";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
-import { useAccounts, useTransactions } from "@/lib/queries";
+import {
+  useAccounts,
+  useTransactions,
+  useSetOverdraftProtection,
+  useStatements,
+} from "@/lib/queries";
+import { api } from "@/lib/api";
+import { Money } from "@/lib/money";
+import type { AccountStatement } from "@/lib/types";
 import { TransactionItem } from "@/components/dashboard/transaction-item";
+import { OverdraftProtection } from "@/components/dashboard/overdraft-protection";
+import { AccountStatements } from "@/components/dashboard/account-statements";
 
 export default function AccountDetailScreen() {
   const params = useLocalSearchParams();
@@ -30,6 +41,8 @@ export default function AccountDetailScreen() {
   const { data: accountsData, isLoading: accountsLoading } = useAccounts();
   const { data: transactionsData, isLoading: transactionsLoading } =
     useTransactions(50);
+  const setOverdraftProtection = useSetOverdraftProtection();
+  const { data: statementsData } = useStatements(accountId);
 
   const account = useMemo(() => {
     return accountsData?.accounts.find((acc) => acc.id === accountId);
@@ -45,12 +58,7 @@ export default function AccountDetailScreen() {
   const isLoading = accountsLoading || transactionsLoading;
   const error = !account && !isLoading ? "Account not found" : null;
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
+  const formatCurrency = (amount: string) => Money.from(amount).format();
 
   const getCensoredAccountNumber = (accountNumber: string) => {
     if (!accountNumber || accountNumber.length < 4) {
@@ -77,6 +85,47 @@ export default function AccountDetailScreen() {
     }
   };
 
+  const handleOverdraftChange = (savingsAccountId: number | null) => {
+    setOverdraftProtection.mutate(
+      { accountId, savingsAccountId },
+      {
+        onSuccess: () => {
+          Toast.show({
+            type: "success",
+            text1: "Overdraft protection updated",
+            text2:
+              savingsAccountId === null
+                ? "Savings account unlinked"
+                : "Shortfalls will be covered from savings",
+          });
+        },
+        onError: (err) => {
+          Toast.show({
+            type: "error",
+            text1: "Error",
+            text2:
+              err instanceof Error
+                ? err.message
+                : "Failed to update overdraft protection",
+          });
+        },
+      },
+    );
+  };
+
+  const handleOpenStatement = async (statement: AccountStatement) => {
+    try {
+      // The system browser cannot send the bearer token, so hand it the signed link
+      await openBrowserAsync(api.getStatementDownloadUrl(statement));
+    } catch {
+      Toast.show({
+        type: "error",
+        text1: "Error",
+        text2: "Failed to open statement",
+      });
+    }
+  };
+
   if (isLoading) {
     return (
       <ThemedView style={styles.loadingContainer}>
@@ -179,8 +228,15 @@ export default function AccountDetailScreen() {
             {getCensoredAccountNumber(account.account_number)}
           </ThemedText>
           <ThemedText style={[styles.balance, { color: colors.success }]}>
-            {formatCurrency(account.balance)}
+            {formatCurrency(account.available_balance)}
           </ThemedText>
+          <ThemedText style={styles.balanceLabel}>Available balance</ThemedText>
+          {account.available_balance !== account.balance && (
+            <ThemedText style={styles.balanceLabel}>
+              Ledger balance {formatCurrency(account.balance)} (includes funds
+              on hold)
+            </ThemedText>
+          )}
         </ThemedView>
 
         {/* Account Details */}
@@ -249,6 +305,32 @@ export default function AccountDetailScreen() {
           </ThemedView>
         </View>
 
+        {/* Overdraft Protection */}
+        {account.account_type === "checking" && account.is_active && (
+          <View style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Overdraft Protection
+            </ThemedText>
+            <OverdraftProtection
+              account={account}
+              accounts={accountsData?.accounts ?? []}
+              onChange={handleOverdraftChange}
+              disabled={setOverdraftProtection.isPending}
+            />
+          </View>
+        )}
+
+        {/* Statements */}
+        <View style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Statements
+          </ThemedText>
+          <AccountStatements
+            statements={statementsData?.statements ?? []}
+            onOpen={handleOpenStatement}
+          />
+        </View>
+
         {/* Transaction History */}
         <View style={styles.section}>
           <ThemedText type="subtitle" style={styles.sectionTitle}>
@@ -346,6 +428,11 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     lineHeight: 40,
   },
+  balanceLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
   section: {
     marginBottom: 24,
   },
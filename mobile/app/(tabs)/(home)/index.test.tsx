@@ -29,7 +29,8 @@ describe("DashboardScreen", () => {
       account_number: "1234567890",
       routing_number: "123456789",
       account_type: "checking" as const,
-      balance: 1000,
+      balance: "1000.00",
+      available_balance: "1000.00",
       is_active: true,
       created_at: "2024-01-01",
       updated_at: "2024-01-01",
@@ -39,7 +40,8 @@ describe("DashboardScreen", () => {
       account_number: "0987654321",
       routing_number: "123456789",
       account_type: "savings" as const,
-      balance: 5000,
+      balance: "5000.00",
+      available_balance: "5000.00",
       is_active: true,
       created_at: "2024-01-01",
       updated_at: "2024-01-01",
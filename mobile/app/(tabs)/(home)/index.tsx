@@ -18,6 +18,7 @@ import {
   useProfile,
   useAccountBalancePolling,
 } from "@/lib/queries";
+import { Money } from "@/lib/money";
 import { BalanceCard } from "@/components/dashboard/balance-card";
 import { AccountCard } from "@/components/dashboard/account-card";
 import { TransactionItem } from "@/components/dashboard/transaction-item";
@@ -71,7 +72,10 @@ export default function DashboardScreen() {
   };
 
   const totalBalance = useMemo(
-    () => accounts.reduce((sum, acc) => sum + acc.balance, 0),
+    () =>
+      accounts
+        .reduce((sum, acc) => sum.add(Money.from(acc.balance)), Money.ZERO)
+        .toString(),
     [accounts],
   );
 
@@ -49,6 +49,30 @@ export default function TransfersLayout() {
           headerBackTitle: "",
         }}
       />
+      <Stack.Screen
+        name="billpay-rule-history"
+        options={{
+          headerShown: true,
+          animation: "slide_from_right",
+          headerBackTitle: "",
+        }}
+      />
+      <Stack.Screen
+        name="schedule-transfer"
+        options={{
+          headerShown: true,
+          animation: "slide_from_right",
+          headerBackTitle: "",
+        }}
+      />
+      <Stack.Screen
+        name="scheduled-transfers"
+        options={{
+          headerShown: true,
+          animation: "slide_from_right",
+          headerBackTitle: "",
+        }}
+      />
       <Stack.Screen
         name="check-deposit"
         options={{
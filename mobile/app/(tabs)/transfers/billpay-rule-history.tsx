@@ -0,0 +1,506 @@
+import { Stack, useLocalSearchParams } from "expo-router";
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  ScrollView,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { useTheme } from "@/contexts/theme-context";
+import { Colors } from "@/constants/theme";
+import {
+  api,
+  type BillPayExecution,
+  type BillPayRuleEvent,
+  type BillPayRuleStatus,
+} from "@/lib/api";
+import { Money } from "@/lib/money";
+
+function formatDateTime(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  approved: "Paid",
+  pending: "Processing",
+  denied: "Denied",
+  reversed: "Reversed",
+  returned: "Returned",
+};
+
+function describeEvent(event: BillPayRuleEvent): string {
+  switch (event.event_type) {
+    case "paused":
+      return "Payments paused";
+    case "resumed":
+      return "Payments resumed";
+    case "skip_requested":
+      return event.skip_count === 1
+        ? "Asked to skip the next payment"
+        : `Asked to skip the next ${event.skip_count} payments`;
+    case "payment_skipped":
+      return `Skipped the payment due ${formatDateTime(event.occurrence_at!)}`;
+  }
+}
+
+export default function BillPayRuleHistoryScreen() {
+  const params = useLocalSearchParams<{ ruleId: string }>();
+  const ruleId = parseInt(params.ruleId, 10);
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const [executions, setExecutions] = useState<BillPayExecution[]>([]);
+  const [upcomingRuns, setUpcomingRuns] = useState<string[]>([]);
+  const [status, setStatus] = useState<BillPayRuleStatus>("active");
+  const [skipCount, setSkipCount] = useState(0);
+  const [events, setEvents] = useState<BillPayRuleEvent[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(
+    async (pageToLoad: number) => {
+      try {
+        setError(null);
+        const result = await api.getBillPayRuleHistory(ruleId, {
+          page: pageToLoad,
+        });
+        setExecutions((prev) =>
+          pageToLoad === 1
+            ? result.executions
+            : [...prev, ...result.executions],
+        );
+        setUpcomingRuns(result.upcoming_runs);
+        setStatus(result.status);
+        setSkipCount(result.skip_count);
+        setEvents(result.events);
+        setPage(result.pagination.page);
+        setTotalPages(result.pagination.total_pages);
+      } catch (err) {
+        console.error("Failed to fetch payment history:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load payment history",
+        );
+      } finally {
+        setLoading(false);
+        setLoadingMore(false);
+        setRefreshing(false);
+      }
+    },
+    [ruleId],
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchHistory(1);
+    }, [fetchHistory]),
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    fetchHistory(1);
+  };
+
+  const handleLoadMore = () => {
+    setLoadingMore(true);
+    fetchHistory(page + 1);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "approved":
+        return colors.success;
+      case "pending":
+        return colors.warning;
+      case "denied":
+        return colors.destructive;
+      default:
+        return colors.mutedForeground;
+    }
+  };
+
+  const screenOptions = {
+    title: "Payment History",
+    headerShown: true,
+    headerBackTitle: "",
+  };
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={screenOptions} />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" />
+          <ThemedText style={styles.loadingText}>Loading history...</ThemedText>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  if (error) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={screenOptions} />
+        <View style={styles.errorContainer}>
+          <IconSymbol
+            name="exclamationmark.triangle.fill"
+            size={48}
+            color={colors.destructive}
+          />
+          <ThemedText style={[styles.errorText, { color: colors.destructive }]}>
+            {error}
+          </ThemedText>
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: colors.accent }]}
+            onPress={() => fetchHistory(1)}
+          >
+            <ThemedText
+              style={[
+                styles.retryButtonText,
+                { color: colors.accentForeground },
+              ]}
+            >
+              Retry
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={screenOptions} />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      >
+        <ThemedText style={styles.sectionTitle}>Upcoming Payments</ThemedText>
+        {status === "paused" ? (
+          <ThemedText
+            style={[styles.emptyText, { color: colors.mutedForeground }]}
+          >
+            Payments are paused. Resume the rule to schedule its next payment.
+          </ThemedText>
+        ) : upcomingRuns.length === 0 ? (
+          <ThemedText
+            style={[styles.emptyText, { color: colors.mutedForeground }]}
+          >
+            No more payments are scheduled for this rule.
+          </ThemedText>
+        ) : (
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, borderColor: colors.border },
+            ]}
+          >
+            {upcomingRuns.map((run, index) => (
+              <View
+                key={run}
+                style={[
+                  styles.row,
+                  index > 0 && {
+                    borderTopWidth: 1,
+                    borderTopColor: colors.border,
+                  },
+                ]}
+              >
+                <ThemedText
+                  style={[
+                    styles.rowText,
+                    index < skipCount && {
+                      color: colors.mutedForeground,
+                      textDecorationLine: "line-through",
+                    },
+                  ]}
+                >
+                  {formatDateTime(run)}
+                </ThemedText>
+                {index < skipCount && (
+                  <View
+                    style={[
+                      styles.badge,
+                      { backgroundColor: colors.mutedForeground + "20" },
+                    ]}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.badgeText,
+                        { color: colors.mutedForeground },
+                      ]}
+                    >
+                      Skipped
+                    </ThemedText>
+                  </View>
+                )}
+                {index === skipCount && (
+                  <View
+                    style={[
+                      styles.badge,
+                      { backgroundColor: colors.accent + "20" },
+                    ]}
+                  >
+                    <ThemedText
+                      style={[styles.badgeText, { color: colors.accent }]}
+                    >
+                      Next
+                    </ThemedText>
+                  </View>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        <ThemedText style={styles.sectionTitle}>Past Payments</ThemedText>
+        {executions.length === 0 ? (
+          <ThemedText
+            style={[styles.emptyText, { color: colors.mutedForeground }]}
+          >
+            This rule has not made any payments yet.
+          </ThemedText>
+        ) : (
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, borderColor: colors.border },
+            ]}
+          >
+            {executions.map((execution, index) => {
+              const statusColor = getStatusColor(execution.status);
+              return (
+                <View
+                  key={execution.id}
+                  style={[
+                    styles.row,
+                    index > 0 && {
+                      borderTopWidth: 1,
+                      borderTopColor: colors.border,
+                    },
+                  ]}
+                >
+                  <View style={styles.rowLeft}>
+                    <ThemedText style={styles.rowText}>
+                      {formatDateTime(execution.created_at)}
+                    </ThemedText>
+                    {execution.denial_reason && (
+                      <ThemedText
+                        style={[
+                          styles.denialReason,
+                          { color: colors.destructive },
+                        ]}
+                      >
+                        {execution.denial_reason}
+                      </ThemedText>
+                    )}
+                  </View>
+                  <View style={styles.rowRight}>
+                    <ThemedText style={styles.amount}>
+                      {Money.from(execution.amount).format()}
+                    </ThemedText>
+                    <View
+                      style={[
+                        styles.badge,
+                        { backgroundColor: statusColor + "20" },
+                      ]}
+                    >
+                      <ThemedText
+                        style={[styles.badgeText, { color: statusColor }]}
+                      >
+                        {STATUS_LABELS[execution.status] ?? execution.status}
+                      </ThemedText>
+                    </View>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {page < totalPages && (
+          <TouchableOpacity
+            style={[styles.loadMoreButton, { borderColor: colors.border }]}
+            onPress={handleLoadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <ThemedText style={styles.loadMoreText}>
+                Show older payments
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {events.length > 0 && (
+          <>
+            <ThemedText style={[styles.sectionTitle, styles.activityTitle]}>
+              Activity
+            </ThemedText>
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, borderColor: colors.border },
+              ]}
+            >
+              {events.map((event, index) => (
+                <View
+                  key={event.id}
+                  style={[
+                    styles.row,
+                    index > 0 && {
+                      borderTopWidth: 1,
+                      borderTopColor: colors.border,
+                    },
+                  ]}
+                >
+                  <ThemedText style={[styles.rowText, styles.rowLeft]}>
+                    {describeEvent(event)}
+                  </ThemedText>
+                  <ThemedText
+                    style={[
+                      styles.eventDate,
+                      { color: colors.mutedForeground },
+                    ]}
+                  >
+                    {formatDateTime(event.created_at)}
+                  </ThemedText>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 16,
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 16,
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 16,
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  retryButton: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  rowLeft: {
+    flex: 1,
+    gap: 2,
+  },
+  rowRight: {
+    alignItems: "flex-end",
+    gap: 4,
+  },
+  rowText: {
+    fontSize: 14,
+  },
+  denialReason: {
+    fontSize: 13,
+  },
+  amount: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  badge: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  loadMoreButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 12,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  activityTitle: {
+    marginTop: 16,
+  },
+  eventDate: {
+    fontSize: 12,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
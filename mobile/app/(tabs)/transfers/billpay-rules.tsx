@@ -18,6 +18,7 @@ import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
 import { useAccounts } from "@/lib/queries";
 import { api } from "@/lib/api";
+import { Money } from "@/lib/money";
 import Toast from "react-native-toast-message";
 
 interface BillPayRule {
@@ -25,10 +26,14 @@ interface BillPayRule {
   user_id: number;
   source_internal_id: number;
   payee_id: number;
-  amount: number;
-  frequency: string;
+  mode: "fixed_amount" | "statement_balance";
+  amount: string | null; // Null for statement_balance rules
+  frequency: string | null; // Null for statement_balance rules
+  max_amount: string | null; // Null for fixed_amount rules
   start_time: string;
   end_time: string | null;
+  status: "active" | "paused";
+  skip_count: number;
 }
 
 interface BillPayPayee {
@@ -54,18 +59,13 @@ const FREQUENCY_PRESETS = [
   { label: "Monthly (1st)", value: "0 9 1 * *" },
 ];
 
-function getFrequencyLabel(frequency: string): string {
+function getFrequencyLabel(frequency: string | null): string {
+  // Statement balance rules pay each bill on its due date
+  if (!frequency) return "Due date";
   const preset = FREQUENCY_PRESETS.find((p) => p.value === frequency);
   return preset ? preset.label : frequency;
 }
 
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-  }).format(amount);
-}
-
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
   return date.toLocaleDateString("en-US", {
@@ -125,6 +125,43 @@ export default function BillPayRulesScreen() {
     });
   };
 
+  const handleViewHistory = (ruleId: number) => {
+    router.push({
+      pathname: "/(tabs)/transfers/billpay-rule-history",
+      params: { ruleId: ruleId.toString() },
+    });
+  };
+
+  const handleScheduleAction = async (
+    rule: BillPayRule,
+    action: "pause" | "resume" | "skip",
+  ) => {
+    try {
+      await api.updateBillPayRuleSchedule(
+        rule.id,
+        action === "skip" ? { action, count: 1 } : { action },
+      );
+      Toast.show({
+        type: "success",
+        text1: "Success",
+        text2:
+          action === "pause"
+            ? "Payments paused"
+            : action === "resume"
+              ? "Payments resumed"
+              : "One more upcoming payment will be skipped",
+      });
+      fetchRules();
+    } catch (err) {
+      Toast.show({
+        type: "error",
+        text1: "Error",
+        text2:
+          err instanceof Error ? err.message : "Failed to update bill pay rule",
+      });
+    }
+  };
+
   const handleDeleteRule = async (ruleId: number) => {
     Alert.alert(
       "Delete Rule",
@@ -198,7 +235,11 @@ export default function BillPayRulesScreen() {
                 },
               ]}
             >
-              {formatCurrency(rule.amount)}
+              {rule.amount
+                ? Money.from(rule.amount).format()
+                : rule.max_amount
+                  ? `Statement balance up to ${Money.from(rule.max_amount).format()}`
+                  : "Statement balance"}
             </ThemedText>
             <View
               style={[
@@ -219,6 +260,27 @@ export default function BillPayRulesScreen() {
                 {getFrequencyLabel(rule.frequency)}
               </ThemedText>
             </View>
+            {rule.status === "paused" && (
+              <View
+                style={[
+                  styles.frequencyBadge,
+                  {
+                    backgroundColor: colors.warning + "20",
+                  },
+                ]}
+              >
+                <ThemedText
+                  style={[
+                    styles.frequencyBadgeText,
+                    {
+                      color: colors.warning,
+                    },
+                  ]}
+                >
+                  Paused
+                </ThemedText>
+              </View>
+            )}
           </View>
         </View>
 
@@ -249,6 +311,43 @@ export default function BillPayRulesScreen() {
             • Starts {formatDate(rule.start_time)}
             {rule.end_time && ` • Ends ${formatDate(rule.end_time)}`}
           </ThemedText>
+          {rule.skip_count > 0 && (
+            <ThemedText
+              style={[
+                styles.ruleDetailText,
+                {
+                  color: colors.mutedForeground,
+                  fontSize: 13,
+                },
+              ]}
+            >
+              {rule.skip_count === 1
+                ? "Skipping the next payment"
+                : `Skipping the next ${rule.skip_count} payments`}
+            </ThemedText>
+          )}
+        </View>
+
+        <View style={styles.ruleActions}>
+          <TouchableOpacity
+            style={[styles.ruleActionButton, { borderColor: colors.border }]}
+            onPress={() =>
+              handleScheduleAction(
+                rule,
+                rule.status === "paused" ? "resume" : "pause",
+              )
+            }
+          >
+            <ThemedText style={styles.ruleActionText}>
+              {rule.status === "paused" ? "Resume" : "Pause"}
+            </ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.ruleActionButton, { borderColor: colors.border }]}
+            onPress={() => handleScheduleAction(rule, "skip")}
+          >
+            <ThemedText style={styles.ruleActionText}>Skip next</ThemedText>
+          </TouchableOpacity>
         </View>
       </TouchableOpacity>
     );
@@ -270,6 +369,35 @@ export default function BillPayRulesScreen() {
 
     return (
       <View style={styles.rowBack}>
+        <TouchableOpacity
+          style={[
+            styles.backRightBtn,
+            styles.backRightBtnHistory,
+            {
+              backgroundColor: colors.secondary,
+            },
+          ]}
+          onPress={() => {
+            closeRow(rowMap, rowKey);
+            handleViewHistory(rule.id);
+          }}
+        >
+          <IconSymbol
+            name="clock.arrow.circlepath"
+            size={20}
+            color={colors.secondaryForeground}
+          />
+          <ThemedText
+            style={[
+              styles.backTextWhite,
+              {
+                color: colors.secondaryForeground,
+              },
+            ]}
+          >
+            History
+          </ThemedText>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[
             styles.backRightBtn,
@@ -455,8 +583,8 @@ export default function BillPayRulesScreen() {
           data={rules}
           renderItem={renderItem}
           renderHiddenItem={renderHiddenItem}
-          rightOpenValue={-160}
-          stopRightSwipe={-160}
+          rightOpenValue={-240}
+          stopRightSwipe={-240}
           disableRightSwipe={false}
           keyExtractor={(item) => item.id.toString()}
           contentContainerStyle={styles.listContent}
@@ -605,6 +733,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  ruleActions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  ruleActionButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  ruleActionText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
   swipeActions: {
     flexDirection: "row",
     alignItems: "stretch",
@@ -652,6 +795,9 @@ const styles = StyleSheet.create({
     paddingVertical: 16,
     gap: 6,
   },
+  backRightBtnHistory: {
+    right: 160,
+  },
   backRightBtnLeft: {
     right: 80,
     borderTopLeftRadius: 0,
@@ -16,6 +16,7 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
 import { api } from "@/lib/api";
+import { isValidRoutingNumber } from "@/lib/routing-number";
 import { USStateTerritorySchema } from "@/lib/schemas/user";
 import { FrequencySelector } from "@/components/transfers/frequency-selector";
 
@@ -98,6 +99,8 @@ export default function CreatePayeeScreen() {
   const params = useLocalSearchParams<{ onSuccess?: string }>();
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // The bank the entered routing number belongs to, from the routing directory
+  const [bankName, setBankName] = useState<string | null>(null);
 
   const form = useForm({
     defaultValues: {
@@ -592,8 +595,24 @@ export default function CreatePayeeScreen() {
               if (!/^\d{9}$/.test(value)) {
                 return "Routing number must contain only digits";
               }
+              if (!isValidRoutingNumber(value)) {
+                return "Routing number is not valid";
+              }
               return undefined;
             },
+            onChangeAsyncDebounceMs: 300,
+            onChangeAsync: async ({ value }) => {
+              setBankName(null);
+              try {
+                const bank = await api.lookupRoutingNumber(value);
+                setBankName(bank.bank_name);
+                return undefined;
+              } catch (err) {
+                return err instanceof Error
+                  ? err.message
+                  : "Failed to look up routing number";
+              }
+            },
           }}
         >
           {(field) => (
@@ -617,6 +636,13 @@ export default function CreatePayeeScreen() {
                 keyboardType="numeric"
                 maxLength={9}
               />
+              {field.state.meta.errors.length === 0 && bankName && (
+                <ThemedText
+                  style={[styles.hintText, { color: colors.mutedForeground }]}
+                >
+                  {bankName}
+                </ThemedText>
+              )}
               {field.state.meta.errors.length > 0 && (
                 <ThemedText
                   style={[
@@ -755,5 +781,9 @@ const styles = StyleSheet.create({
     marginTop: 4,
     flex: 1,
   },
+  hintText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
 });
 
@@ -55,6 +55,22 @@ export default function TransfersScreen() {
       color: colors.warning,
       route: "/(tabs)/transfers/billpay-rules",
     },
+    {
+      id: "schedule",
+      label: "Schedule Transfer",
+      icon: "calendar",
+      description: "Transfer later or on a schedule",
+      color: colors.success,
+      route: "/(tabs)/transfers/schedule-transfer",
+    },
+    {
+      id: "scheduled-transfers",
+      label: "Scheduled Transfers",
+      icon: "calendar.badge.clock",
+      description: "View and cancel upcoming transfers",
+      color: colors.success,
+      route: "/(tabs)/transfers/scheduled-transfers",
+    },
     {
       id: "check",
       label: "Check Deposit",
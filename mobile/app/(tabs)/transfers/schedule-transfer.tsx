@@ -0,0 +1,21 @@
+import { Stack, useLocalSearchParams } from "expo-router";
+import { ThemedView } from "@/components/themed-view";
+import { ScheduledTransferForm } from "@/components/transfers/scheduled-transfer-form";
+
+export default function ScheduleTransferScreen() {
+  const params = useLocalSearchParams<{ ruleId?: string }>();
+  const ruleId = params.ruleId ? parseInt(params.ruleId, 10) : undefined;
+
+  return (
+    <ThemedView style={{ flex: 1 }}>
+      <Stack.Screen
+        options={{
+          title: ruleId ? "Edit Scheduled Transfer" : "Schedule Transfer",
+          headerShown: true,
+          headerBackTitle: "",
+        }}
+      />
+      <ScheduledTransferForm ruleId={ruleId} />
+    </ThemedView>
+  );
+}
@@ -14,6 +14,7 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
 import { useTransferHistoryInfinite } from "@/lib/queries";
+import { Money } from "@/lib/money";
 import type { TransferHistoryItem } from "@/lib/schemas/transfer";
 
 interface TransferHistoryItemComponentProps {
@@ -26,13 +27,6 @@ function TransferHistoryItemComponent({
   const { theme } = useTheme();
   const colors = Colors[theme];
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount / 100);
-  };
-
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -88,7 +82,15 @@ function TransferHistoryItemComponent({
   const isInbound = transfer.direction === "inbound";
   const amountColor = isInbound ? colors.success : colors.warning;
   const statusColor =
-    transfer.status === "approved" ? colors.success : colors.destructive;
+    transfer.status === "approved"
+      ? colors.success
+      : transfer.status === "pending"
+        ? colors.warning
+        : transfer.status === "denied"
+          ? colors.destructive
+          : colors.mutedForeground;
+  const statusLabel =
+    transfer.status.charAt(0).toUpperCase() + transfer.status.slice(1);
 
   return (
     <ThemedView
@@ -118,7 +120,7 @@ function TransferHistoryItemComponent({
         </View>
         <ThemedText style={[styles.transferAmount, { color: amountColor }]}>
           {isInbound ? "+" : "-"}
-          {formatCurrency(Math.abs(transfer.amount))}
+          {Money.from(transfer.amount).abs().format()}
         </ThemedText>
       </View>
       <View style={styles.transferDetails}>
@@ -149,7 +151,7 @@ function TransferHistoryItemComponent({
               },
             ]}
           >
-            {transfer.status === "approved" ? "Approved" : "Denied"}
+            {statusLabel}
           </ThemedText>
         </View>
       </View>
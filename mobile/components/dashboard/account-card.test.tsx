@@ -14,7 +14,8 @@ const mockAccount = {
   account_number: '1234567890',
   routing_number: '123456789',
   account_type: 'checking' as const,
-  balance: 1234.56,
+  balance: '1234.56',
+  available_balance: '1234.56',
   is_active: true,
   created_at: '2024-01-01T00:00:00Z',
   updated_at: '2024-01-01T00:00:00Z',
@@ -56,6 +57,14 @@ describe('AccountCard', () => {
     expect(getByText('$1,234.56')).toBeTruthy();
   });
 
+  it('shows the available balance when funds are on hold', () => {
+    const heldAccount = { ...mockAccount, available_balance: '1000.00' };
+    const { getByText } = renderWithProviders(<AccountCard account={heldAccount} />);
+
+    expect(getByText('$1,234.56')).toBeTruthy();
+    expect(getByText('$1,000.00 available')).toBeTruthy();
+  });
+
   it('handles account with short number', () => {
     const shortAccount = { ...mockAccount, account_number: '123' };
     const { getByText } = renderWithProviders(<AccountCard account={shortAccount} />);
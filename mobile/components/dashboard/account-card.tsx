@@ -6,6 +6,7 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
 import type { InternalAccount } from "@/lib/types";
+import { Money } from "@/lib/money";
 
 interface AccountCardProps {
   account: InternalAccount;
@@ -15,12 +16,7 @@ export function AccountCard({ account }: AccountCardProps) {
   const router = useRouter();
   const { theme } = useTheme();
   const colors = Colors[theme];
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
+  const formatCurrency = (amount: string) => Money.from(amount).format();
 
   const getCensoredAccountNumber = (accountNumber: string) => {
     if (!accountNumber || accountNumber.length < 4) {
@@ -87,6 +83,11 @@ export function AccountCard({ account }: AccountCardProps) {
         <ThemedText style={styles.accountNumber}>
           {getCensoredAccountNumber(account.account_number)}
         </ThemedText>
+        {account.available_balance !== account.balance && (
+          <ThemedText style={styles.available}>
+            {formatCurrency(account.available_balance)} available
+          </ThemedText>
+        )}
       </ThemedView>
     </TouchableOpacity>
   );
@@ -142,4 +143,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  available: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
 });
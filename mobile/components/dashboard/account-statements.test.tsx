@@ -0,0 +1,48 @@
+import React from 'react';
+import { fireEvent } from '@testing-library/react-native';
+import { AccountStatements } from './account-statements';
+import { renderWithProviders } from '@/test-utils';
+import type { AccountStatement } from '@/lib/types';
+
+const statement: AccountStatement = {
+  id: 7,
+  period_start: '2025-11-01T00:00:00.000Z',
+  period_end: '2025-11-30T00:00:00.000Z',
+  opening_balance: '100.00',
+  closing_balance: '250.50',
+  total_credits: '200.50',
+  total_debits: '50.00',
+  transaction_count: 1,
+  download_url: '/api/statements/7/pdf?expires=1&signature=abc',
+  download_expires_at: '2025-12-01T00:05:00.000Z',
+};
+
+describe('AccountStatements', () => {
+  it('lists statements by month with their balances', () => {
+    const { getByText } = renderWithProviders(
+      <AccountStatements statements={[statement]} onOpen={jest.fn()} />
+    );
+
+    expect(getByText('November 2025')).toBeTruthy();
+    expect(getByText(/\$100\.00 → \$250\.50 · 1 transaction$/)).toBeTruthy();
+  });
+
+  it('opens the chosen statement', () => {
+    const onOpen = jest.fn();
+    const { getByText } = renderWithProviders(
+      <AccountStatements statements={[statement]} onOpen={onOpen} />
+    );
+
+    fireEvent.press(getByText('November 2025'));
+
+    expect(onOpen).toHaveBeenCalledWith(statement);
+  });
+
+  it('explains when no statements have been issued', () => {
+    const { getByText } = renderWithProviders(
+      <AccountStatements statements={[]} onOpen={jest.fn()} />
+    );
+
+    expect(getByText('Statements are issued after the end of each month.')).toBeTruthy();
+  });
+});
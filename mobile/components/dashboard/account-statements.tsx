@@ -0,0 +1,108 @@
+import React from "react";
+import { View, StyleSheet, TouchableOpacity } from "react-native";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { useTheme } from "@/contexts/theme-context";
+import { Colors } from "@/constants/theme";
+import type { AccountStatement } from "@/lib/types";
+import { Money } from "@/lib/money";
+
+interface AccountStatementsProps {
+  statements: AccountStatement[];
+  onOpen: (statement: AccountStatement) => void;
+}
+
+export function AccountStatements({
+  statements,
+  onOpen,
+}: AccountStatementsProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  const formatCurrency = (amount: string) => Money.from(amount).format();
+
+  const formatPeriod = (periodStart: string) => {
+    return new Date(periodStart).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      timeZone: "UTC",
+    });
+  };
+
+  return (
+    <ThemedView
+      style={[
+        styles.card,
+        { backgroundColor: colors.card, borderColor: colors.border },
+      ]}
+    >
+      {statements.length === 0 ? (
+        <ThemedText style={styles.empty}>
+          Statements are issued after the end of each month.
+        </ThemedText>
+      ) : (
+        <View>
+          {statements.map((statement, index) => (
+            <TouchableOpacity
+              key={statement.id}
+              style={[
+                styles.row,
+                index < statements.length - 1 && {
+                  borderBottomColor: colors.border,
+                  borderBottomWidth: 1,
+                },
+              ]}
+              onPress={() => onOpen(statement)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.details}>
+                <ThemedText style={styles.period}>
+                  {formatPeriod(statement.period_start)}
+                </ThemedText>
+                <ThemedText style={styles.summary}>
+                  {formatCurrency(statement.opening_balance)} →{" "}
+                  {formatCurrency(statement.closing_balance)} ·{" "}
+                  {statement.transaction_count} transaction
+                  {statement.transaction_count === 1 ? "" : "s"}
+                </ThemedText>
+              </View>
+              <IconSymbol name="doc.text" size={20} color={colors.accent} />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+  },
+  empty: {
+    fontSize: 14,
+    opacity: 0.6,
+    paddingVertical: 10,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  details: {
+    flex: 1,
+  },
+  period: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  summary: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+});
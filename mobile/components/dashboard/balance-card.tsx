@@ -3,21 +3,17 @@ import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
+import { Money } from "@/lib/money";
 
 interface BalanceCardProps {
-  balance: number;
+  balance: string;
 }
 
 export function BalanceCard({ balance }: BalanceCardProps) {
   const { theme } = useTheme();
   const colors = Colors[theme];
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
+  const formatCurrency = (amount: string) => Money.from(amount).format();
 
   return (
     <ThemedView
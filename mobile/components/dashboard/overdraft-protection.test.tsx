@@ -0,0 +1,69 @@
+import React from 'react';
+import { fireEvent } from '@testing-library/react-native';
+import { OverdraftProtection } from './overdraft-protection';
+import { renderWithProviders } from '@/test-utils';
+import type { InternalAccount } from '@/lib/types';
+
+const checking: InternalAccount = {
+  id: 1,
+  account_number: '1234567890',
+  routing_number: '724722907',
+  account_type: 'checking',
+  balance: '100.00',
+  available_balance: '100.00',
+  overdraft_protection_account_id: null,
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const savings: InternalAccount = {
+  ...checking,
+  id: 2,
+  account_number: '0987654321',
+  account_type: 'savings',
+  balance: '5000.00',
+  available_balance: '5000.00',
+};
+
+describe('OverdraftProtection', () => {
+  it('lists active savings accounts as protection options', () => {
+    const { getByText } = renderWithProviders(
+      <OverdraftProtection account={checking} accounts={[checking, savings]} onChange={jest.fn()} />
+    );
+
+    expect(getByText('Not linked')).toBeTruthy();
+    expect(getByText('Savings ****4321')).toBeTruthy();
+  });
+
+  it('links the chosen savings account', () => {
+    const onChange = jest.fn();
+    const { getByText } = renderWithProviders(
+      <OverdraftProtection account={checking} accounts={[checking, savings]} onChange={onChange} />
+    );
+
+    fireEvent.press(getByText('Savings ****4321'));
+
+    expect(onChange).toHaveBeenCalledWith(2);
+  });
+
+  it('unlinks when "Not linked" is chosen', () => {
+    const onChange = jest.fn();
+    const linked = { ...checking, overdraft_protection_account_id: 2 };
+    const { getByText } = renderWithProviders(
+      <OverdraftProtection account={linked} accounts={[linked, savings]} onChange={onChange} />
+    );
+
+    fireEvent.press(getByText('Not linked'));
+
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+
+  it('explains when there is no savings account to link', () => {
+    const { getByText } = renderWithProviders(
+      <OverdraftProtection account={checking} accounts={[checking]} onChange={jest.fn()} />
+    );
+
+    expect(getByText('Open a savings account to use overdraft protection.')).toBeTruthy();
+  });
+});
@@ -0,0 +1,123 @@
+import React from "react";
+import { View, StyleSheet, TouchableOpacity } from "react-native";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { useTheme } from "@/contexts/theme-context";
+import { Colors } from "@/constants/theme";
+import type { InternalAccount } from "@/lib/types";
+
+interface OverdraftProtectionProps {
+  account: InternalAccount;
+  accounts: InternalAccount[];
+  onChange: (savingsAccountId: number | null) => void;
+  disabled?: boolean;
+}
+
+export function OverdraftProtection({
+  account,
+  accounts,
+  onChange,
+  disabled = false,
+}: OverdraftProtectionProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+
+  const savingsAccounts = accounts.filter(
+    (acc) => acc.account_type === "savings" && acc.is_active,
+  );
+  const linkedId = account.overdraft_protection_account_id ?? null;
+
+  const options: { id: number | null; label: string }[] = [
+    { id: null, label: "Not linked" },
+    ...savingsAccounts.map((acc) => ({
+      id: acc.id,
+      label: `Savings ****${acc.account_number.slice(-4)}`,
+    })),
+  ];
+
+  return (
+    <ThemedView
+      style={[
+        styles.card,
+        { backgroundColor: colors.card, borderColor: colors.border },
+      ]}
+    >
+      <ThemedText style={styles.description}>
+        Cover shortfalls on this account automatically from a linked savings
+        account.
+      </ThemedText>
+      {savingsAccounts.length === 0 ? (
+        <ThemedText style={styles.empty}>
+          Open a savings account to use overdraft protection.
+        </ThemedText>
+      ) : (
+        <View>
+          {options.map((option, index) => {
+            const isSelected = option.id === linkedId;
+            return (
+              <TouchableOpacity
+                key={option.id ?? "none"}
+                style={[
+                  styles.option,
+                  index < options.length - 1 && {
+                    borderBottomColor: colors.border,
+                    borderBottomWidth: 1,
+                  },
+                  disabled && styles.disabled,
+                ]}
+                disabled={disabled || isSelected}
+                onPress={() => onChange(option.id)}
+                activeOpacity={0.7}
+              >
+                <ThemedText style={styles.optionLabel}>
+                  {option.label}
+                </ThemedText>
+                {isSelected && (
+                  <View testID="overdraft-selected">
+                    <IconSymbol
+                      name="checkmark.circle.fill"
+                      size={20}
+                      color={colors.accent}
+                    />
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+  },
+  description: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  empty: {
+    fontSize: 14,
+    opacity: 0.6,
+    paddingVertical: 10,
+  },
+  option: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
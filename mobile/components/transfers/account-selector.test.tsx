@@ -25,7 +25,8 @@ const mockAccounts: InternalAccount[] = [
     account_number: "1234567890",
     routing_number: "123456789",
     account_type: "checking",
-    balance: 1000.0,
+    balance: "1000.00",
+    available_balance: "1000.00",
     is_active: true,
     created_at: "2024-01-01T00:00:00Z",
     updated_at: "2024-01-01T00:00:00Z",
@@ -35,7 +36,8 @@ const mockAccounts: InternalAccount[] = [
     account_number: "0987654321",
     routing_number: "987654321",
     account_type: "savings",
-    balance: 2000.0,
+    balance: "2000.00",
+    available_balance: "2000.00",
     is_active: true,
     created_at: "2024-01-01T00:00:00Z",
     updated_at: "2024-01-01T00:00:00Z",
@@ -10,6 +10,7 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
 import type { InternalAccount } from "@/lib/types";
+import { Money } from "@/lib/money";
 
 interface AccountSelectorProps {
   accounts: InternalAccount[];
@@ -34,12 +35,7 @@ export function AccountSelector({
   const colors = Colors[theme];
   const bottomSheetModalRef = useRef<BottomSheetModal>(null);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
+  const formatCurrency = (amount: string) => Money.from(amount).format();
 
   const getCensoredAccountNumber = (accountNumber: string) => {
     if (!accountNumber || accountNumber.length < 4) {
@@ -1,5 +1,6 @@
 import React from 'react';
 import { BillPayForm } from './billpay-form';
+import { fireEvent } from '@testing-library/react-native';
 import { renderWithProviders } from '@/test-utils';
 
 // Mock expo-router - must be before component import
@@ -35,6 +36,7 @@ jest.mock('@/lib/api', () => ({
   api: {
     setSession: jest.fn(),
     getBillPayees: jest.fn(() => Promise.resolve({ payees: [] })),
+    getBills: jest.fn(() => Promise.resolve({ bills: [] })),
     createBillPayRule: jest.fn(),
   },
 }));
@@ -114,7 +116,8 @@ const mockAccounts = [
     id: 1,
     account_number: '1234567890',
     account_type: 'checking',
-    balance: 1000.00,
+    balance: '1000.00',
+    available_balance: '1000.00',
     is_active: true,
     created_at: '2024-01-01T00:00:00Z',
   },
@@ -168,5 +171,21 @@ describe('BillPayForm', () => {
     expect(getByTestId('frequency-selector')).toBeTruthy();
     expect(getByTestId('amount-input')).toBeTruthy();
   });
+
+  it('asks for the largest bill to pay instead of an amount and frequency for statement balance rules', () => {
+    const { getByText, getAllByTestId, queryByTestId } = renderWithProviders(
+      <BillPayForm />,
+    );
+
+    fireEvent.press(getByText('Statement Balance'));
+
+    expect(getAllByTestId('amount-input')).toHaveLength(1);
+    expect(queryByTestId('frequency-selector')).toBeNull();
+    expect(
+      getByText('Each bill this payee presents is paid in full on its due date.'),
+    ).toBeTruthy();
+    expect(getByText('Pay Bills Up To')).toBeTruthy();
+    expect(getByText('A larger bill is left for you to pay.')).toBeTruthy();
+  });
 });
 
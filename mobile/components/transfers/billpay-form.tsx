@@ -18,12 +18,14 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
 import { useAccounts } from "@/lib/queries";
-import { api } from "@/lib/api";
+import { api, type BillPayRuleMode } from "@/lib/api";
+import { MAX_AMOUNT_CENTS, Money } from "@/lib/money";
 import { CurrencyInput } from "./currency-input";
 import { AccountSelector } from "./account-selector";
 import { PayeeSelector } from "./payee-selector";
 import { FrequencySelector } from "./frequency-selector";
 import { TransferReviewScreen } from "./transfer-review-screen";
+import { BillsInbox } from "./bills-inbox";
 
 type FormState =
   | "idle"
@@ -40,6 +42,11 @@ const FREQUENCY_PRESETS = [
   { label: "Monthly (1st)", value: "0 9 1 * *" },
 ];
 
+const MODE_OPTIONS: { label: string; value: BillPayRuleMode }[] = [
+  { label: "Fixed Amount", value: "fixed_amount" },
+  { label: "Statement Balance", value: "statement_balance" },
+];
+
 interface BillPayFormData {
   source_account_id: number | null;
   payee_id?: number;
@@ -58,6 +65,7 @@ interface BillPayFormData {
   };
   amount: string;
   frequency: string;
+  max_amount: string;
   start_time: string;
   end_time?: string;
 }
@@ -75,10 +83,11 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
   const [error, setError] = useState<string | null>(null);
   const [payees, setPayees] = useState<any[]>([]);
   const [frequencyPreset, setFrequencyPreset] = useState("0 9 * * *");
+  const [mode, setMode] = useState<BillPayRuleMode>("fixed_amount");
   const [isLoadingRule, setIsLoadingRule] = useState(false);
   const [successData, setSuccessData] = useState<{
     rule_id: number;
-    amount: number;
+    amount: string | null;
     payee_name: string;
   } | null>(null);
 
@@ -101,6 +110,7 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
       payee: undefined,
       amount: "",
       frequency: "0 9 * * *",
+      max_amount: "",
       start_time: "", // Will be set on submit to ensure it's in the future
       end_time: "",
     } as BillPayFormData,
@@ -116,14 +126,21 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
         if (!value.payee_id && !value.payee) {
           throw new Error("Payee is required");
         }
-        if (!value.amount || value.amount.trim() === "") {
+        const isFixedAmount = mode === "fixed_amount";
+        if (isFixedAmount && (!value.amount || value.amount.trim() === "")) {
           throw new Error("Amount is required");
         }
+        if (
+          !isFixedAmount &&
+          (!value.max_amount || value.max_amount.trim() === "")
+        ) {
+          throw new Error("Maximum amount is required");
+        }
 
         const frequency =
           frequencyPreset === "custom" ? value.frequency : frequencyPreset;
 
-        if (!frequency || frequency.trim() === "") {
+        if (isFixedAmount && (!frequency || frequency.trim() === "")) {
           throw new Error("Frequency is required");
         }
 
@@ -135,6 +152,7 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
             payee_id?: number;
             amount?: string;
             frequency?: string;
+            max_amount?: string;
             start_time?: string;
             end_time?: string | null;
           } = {};
@@ -146,12 +164,15 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
           if (value.payee_id) {
             updateData.payee_id = value.payee_id;
           }
-          if (value.amount) {
+          if (isFixedAmount && value.amount) {
             updateData.amount = value.amount;
           }
-          if (frequency) {
+          if (isFixedAmount && frequency) {
             updateData.frequency = frequency;
           }
+          if (!isFixedAmount && value.max_amount) {
+            updateData.max_amount = value.max_amount;
+          }
           if (value.start_time) {
             updateData.start_time = value.start_time;
           }
@@ -180,12 +201,15 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
             }
           }
 
+          // Statement balance rules pay each presented bill on its due date, up to their maximum
           result = await api.createBillPayRule({
             source_account_id: value.source_account_id!,
             payee_id: value.payee_id,
             payee: value.payee,
-            amount: formattedAmount,
-            frequency,
+            mode,
+            amount: isFixedAmount ? formattedAmount : undefined,
+            frequency: isFixedAmount ? frequency : undefined,
+            max_amount: isFixedAmount ? undefined : value.max_amount,
             start_time: startTimeToUse,
             end_time: value.end_time && value.end_time.trim() !== "" ? value.end_time : undefined,
           });
@@ -250,20 +274,29 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
             // Pre-populate form with existing rule data
             form.setFieldValue("source_account_id", rule.source_internal_id);
             form.setFieldValue("payee_id", rule.payee_id);
-            form.setFieldValue(
-              "amount",
-              rule.amount.toFixed(2),
-            );
-            form.setFieldValue("frequency", rule.frequency);
             form.setFieldValue("start_time", rule.start_time);
             form.setFieldValue("end_time", rule.end_time || "");
+            setMode(rule.mode);
+            if (rule.max_amount) {
+              form.setFieldValue(
+                "max_amount",
+                Money.from(rule.max_amount).toString(),
+              );
+            }
 
-            // Set frequency preset if it matches
-            const preset = FREQUENCY_PRESETS.find((p) => p.value === rule.frequency);
-            if (preset) {
-              setFrequencyPreset(preset.value);
-            } else {
-              setFrequencyPreset("custom");
+            if (rule.amount && rule.frequency) {
+              form.setFieldValue("amount", Money.from(rule.amount).toString());
+              form.setFieldValue("frequency", rule.frequency);
+
+              // Set frequency preset if it matches
+              const preset = FREQUENCY_PRESETS.find(
+                (p) => p.value === rule.frequency,
+              );
+              if (preset) {
+                setFrequencyPreset(preset.value);
+              } else {
+                setFrequencyPreset("custom");
+              }
             }
 
             setFormState("filling");
@@ -298,8 +331,14 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
     const payeeId = form.getFieldValue("payee_id");
     const payee = form.getFieldValue("payee");
     const amount = form.getFieldValue("amount");
-
-    if (!sourceId || (!payeeId && !payee) || !amount) {
+    const maxAmount = form.getFieldValue("max_amount");
+
+    if (
+      !sourceId ||
+      (!payeeId && !payee) ||
+      (mode === "fixed_amount" && !amount) ||
+      (mode === "statement_balance" && !maxAmount)
+    ) {
       setError("Please fill in all required fields");
       return;
     }
@@ -315,18 +354,12 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
 
   const handleReset = () => {
     form.reset();
+    setMode("fixed_amount");
     setFormState("filling");
     setError(null);
     setSuccessData(null);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
-
   if (accountsLoading || isLoadingRule || accounts.length === 0) {
     return (
       <ThemedView style={styles.loadingContainer}>
@@ -390,7 +423,9 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
                 </View>
                 <View style={styles.successAmountContainer}>
                   <ThemedText style={styles.successAmount}>
-                    {formatCurrency(successData.amount)}
+                    {successData.amount
+                      ? Money.from(successData.amount).format()
+                      : "Statement Balance"}
                   </ThemedText>
                 </View>
                 <View style={styles.successDetails}>
@@ -476,6 +511,7 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
     const payeeId = form.getFieldValue("payee_id");
     const payee = form.getFieldValue("payee");
     const amount = form.getFieldValue("amount");
+    const maxAmount = form.getFieldValue("max_amount");
     const frequency = frequencyPreset === "custom" ? form.getFieldValue("frequency") : frequencyPreset;
 
     const payeeName =
@@ -494,15 +530,29 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
         label: "Payee",
         value: payeeName,
       },
-      {
-        label: "Amount",
-        value: formatCurrency(parseFloat(amount) || 0),
-        isAmount: true,
-      },
-      {
-        label: "Frequency",
-        value: FREQUENCY_PRESETS.find((p) => p.value === frequency)?.label || frequency,
-      },
+      ...(mode === "fixed_amount"
+        ? [
+            {
+              label: "Amount",
+              value: (Money.parse(amount) ?? Money.ZERO).format(),
+              isAmount: true,
+            },
+            {
+              label: "Frequency",
+              value:
+                FREQUENCY_PRESETS.find((p) => p.value === frequency)?.label ||
+                frequency,
+            },
+          ]
+        : [
+            { label: "Amount", value: "Statement balance" },
+            {
+              label: "Pay Bills Up To",
+              value: (Money.parse(maxAmount) ?? Money.ZERO).format(),
+              isAmount: true,
+            },
+            { label: "Frequency", value: "On each bill's due date" },
+          ]),
     ];
 
     return (
@@ -523,6 +573,8 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
       contentContainerStyle={styles.content}
       keyboardShouldPersistTaps="handled"
     >
+      {!isEditMode && <BillsInbox accounts={accounts} />}
+
       <form.Field
         name="source_account_id"
         validators={{
@@ -572,49 +624,130 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
         )}
       </form.Field>
 
-      <form.Field
-        name="amount"
-        validators={{
-          onChange: ({ value }) => {
-            if (!value || value.trim() === "") return "Amount is required";
-            const numValue = parseFloat(value);
-            if (isNaN(numValue) || numValue <= 0)
-              return "Amount must be greater than $0.00";
-            if (numValue < 0.01) return "Amount must be at least $0.01";
-            if (numValue > 9999999.99)
-              return "Amount cannot exceed $9,999,999.99";
-            return undefined;
-          },
-        }}
-      >
-        {(field) => (
-          <View style={styles.field}>
-            <ThemedText style={styles.label}>Amount</ThemedText>
-            <CurrencyInput
-              value={field.state.value}
-              onChange={field.handleChange}
-              placeholder="0.00"
-              error={
-                field.state.meta.errors.length > 0
-                  ? field.state.meta.errors[0]
-                  : undefined
-              }
-            />
-          </View>
+      <View style={styles.field}>
+        <ThemedText style={styles.label}>Pay</ThemedText>
+        <View style={styles.modeToggle}>
+          {MODE_OPTIONS.map((option) => {
+            const selected = mode === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.modeOption,
+                  {
+                    backgroundColor: selected ? colors.accent : colors.card,
+                    borderColor: selected ? colors.accent : colors.border,
+                  },
+                ]}
+                onPress={() => setMode(option.value)}
+                // The API does not change a rule's mode once it is created
+                disabled={isEditMode}
+              >
+                <ThemedText
+                  style={{
+                    color: selected ? colors.accentForeground : colors.text,
+                  }}
+                >
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {mode === "statement_balance" && (
+          <ThemedText
+            style={[styles.modeHint, { color: colors.mutedForeground }]}
+          >
+            Each bill this payee presents is paid in full on its due date.
+          </ThemedText>
         )}
-      </form.Field>
+      </View>
 
-      <View style={styles.field}>
-        <FrequencySelector
-          options={FREQUENCY_PRESETS}
-          selectedValue={frequencyPreset}
-          onSelect={(value) => {
-            setFrequencyPreset(value);
-            form.setFieldValue("frequency", value);
+      {mode === "statement_balance" && (
+        <form.Field
+          name="max_amount"
+          validators={{
+            onChange: ({ value }) => {
+              if (!value || value.trim() === "")
+                return "Maximum amount is required";
+              const money = Money.parse(value);
+              if (!money || money.toCents() <= 0)
+                return "Maximum amount must be greater than $0.00";
+              if (money.toCents() > MAX_AMOUNT_CENTS)
+                return "Maximum amount cannot exceed $9,999,999.99";
+              return undefined;
+            },
           }}
-          label="Frequency"
-        />
-      </View>
+        >
+          {(field) => (
+            <View style={styles.field}>
+              <ThemedText style={styles.label}>Pay Bills Up To</ThemedText>
+              <CurrencyInput
+                value={field.state.value}
+                onChange={field.handleChange}
+                placeholder="0.00"
+                error={
+                  field.state.meta.errors.length > 0
+                    ? field.state.meta.errors[0]
+                    : undefined
+                }
+              />
+              <ThemedText
+                style={[styles.modeHint, { color: colors.mutedForeground }]}
+              >
+                A larger bill is left for you to pay.
+              </ThemedText>
+            </View>
+          )}
+        </form.Field>
+      )}
+
+      {mode === "fixed_amount" && (
+        <>
+          <form.Field
+            name="amount"
+            validators={{
+              onChange: ({ value }) => {
+                if (!value || value.trim() === "") return "Amount is required";
+                const money = Money.parse(value);
+                if (!money || money.toCents() <= 0)
+                  return "Amount must be greater than $0.00";
+                if (money.toCents() > MAX_AMOUNT_CENTS)
+                  return "Amount cannot exceed $9,999,999.99";
+                return undefined;
+              },
+            }}
+          >
+            {(field) => (
+              <View style={styles.field}>
+                <ThemedText style={styles.label}>Amount</ThemedText>
+                <CurrencyInput
+                  value={field.state.value}
+                  onChange={field.handleChange}
+                  placeholder="0.00"
+                  error={
+                    field.state.meta.errors.length > 0
+                      ? field.state.meta.errors[0]
+                      : undefined
+                  }
+                />
+              </View>
+            )}
+          </form.Field>
+
+          <View style={styles.field}>
+            <FrequencySelector
+              options={FREQUENCY_PRESETS}
+              selectedValue={frequencyPreset}
+              onSelect={(value) => {
+                setFrequencyPreset(value);
+                form.setFieldValue("frequency", value);
+              }}
+              label="Frequency"
+            />
+          </View>
+        </>
+      )}
 
       {error && (
         <ThemedView
@@ -650,13 +783,16 @@ export function BillPayForm({ ruleId }: BillPayFormProps = {}) {
           state.values.payee_id,
           state.values.payee,
           state.values.amount,
+          state.values.max_amount,
         ]}
       >
         {(formValues) => {
           const sourceAccountId = formValues[0] as number | null;
           const payeeId = formValues[1] as number | undefined;
           const payee = formValues[2] as object | undefined;
-          const amount = formValues[3] as string;
+          const amount = (
+            mode === "fixed_amount" ? formValues[3] : formValues[4]
+          ) as string;
 
           const isFormValid =
             formState !== "submitting" &&
@@ -725,6 +861,21 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     marginBottom: 8,
   },
+  modeToggle: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  modeOption: {
+    flex: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  modeHint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
   button: {
     borderRadius: 8,
     paddingVertical: 14,
@@ -0,0 +1,234 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import Toast from "react-native-toast-message";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useTheme } from "@/contexts/theme-context";
+import { Colors } from "@/constants/theme";
+import { api, type Bill } from "@/lib/api";
+import type { InternalAccount } from "@/lib/types";
+import { Money } from "@/lib/money";
+import { AccountSelector } from "./account-selector";
+
+interface BillsInboxProps {
+  accounts: InternalAccount[];
+}
+
+function formatDueDate(dateString: string): string {
+  // Bills fall due at the start of their due date (UTC)
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Open bills presented by payees, each payable now from a chosen account
+export function BillsInbox({ accounts }: BillsInboxProps) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [payingBillId, setPayingBillId] = useState<number | null>(null);
+  const [sourceAccountId, setSourceAccountId] = useState<number | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+
+  const fetchBills = useCallback(async () => {
+    try {
+      const result = await api.getBills({ status: "open" });
+      setBills(result.bills);
+    } catch (err) {
+      console.error("Failed to fetch bills:", err);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchBills();
+      return () => {};
+    }, [fetchBills]),
+  );
+
+  const handlePay = async (bill: Bill) => {
+    if (!sourceAccountId) return;
+
+    setIsPaying(true);
+    try {
+      await api.payBill(bill.id, { source_account_id: sourceAccountId });
+      Toast.show({
+        type: "success",
+        text1: "Bill Paid",
+        text2: `${Money.from(bill.amount_due).format()} to ${bill.payee_name}`,
+      });
+      setPayingBillId(null);
+      setSourceAccountId(null);
+      await fetchBills();
+    } catch (err) {
+      Toast.show({
+        type: "error",
+        text1: "Error",
+        text2: err instanceof Error ? err.message : "Failed to pay bill",
+      });
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  if (bills.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.title}>Bills</ThemedText>
+      {bills.map((bill) => (
+        <ThemedView
+          key={bill.id}
+          style={[
+            styles.billCard,
+            {
+              backgroundColor: colors.card,
+              borderColor: colors.border,
+            },
+          ]}
+        >
+          <View style={styles.billHeader}>
+            <View style={styles.billInfo}>
+              <ThemedText style={styles.billAmount}>
+                {Money.from(bill.amount_due).format()}
+              </ThemedText>
+              <ThemedText
+                style={[styles.billDetail, { color: colors.mutedForeground }]}
+              >
+                {bill.payee_name} • Due {formatDueDate(bill.due_date)}
+              </ThemedText>
+              {bill.autopay_rule_id !== null && (
+                <ThemedText
+                  style={[styles.billDetail, { color: colors.accent }]}
+                >
+                  Autopay
+                </ThemedText>
+              )}
+            </View>
+            {payingBillId !== bill.id && (
+              <TouchableOpacity
+                style={[styles.payButton, { borderColor: colors.accent }]}
+                onPress={() => {
+                  setPayingBillId(bill.id);
+                  setSourceAccountId(null);
+                }}
+              >
+                <ThemedText style={{ color: colors.accent }}>Pay</ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+          {payingBillId === bill.id && (
+            <View style={styles.payPanel}>
+              <AccountSelector
+                accounts={accounts}
+                selectedAccountId={sourceAccountId}
+                onSelect={setSourceAccountId}
+                label="Pay From"
+              />
+              <View style={styles.payActions}>
+                <TouchableOpacity
+                  style={[
+                    styles.actionButton,
+                    {
+                      backgroundColor: colors.card,
+                      borderColor: colors.border,
+                      borderWidth: 1,
+                    },
+                  ]}
+                  onPress={() => setPayingBillId(null)}
+                  disabled={isPaying}
+                >
+                  <ThemedText>Cancel</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.actionButton,
+                    {
+                      backgroundColor: colors.accent,
+                      opacity: sourceAccountId && !isPaying ? 1 : 0.6,
+                    },
+                  ]}
+                  onPress={() => handlePay(bill)}
+                  disabled={!sourceAccountId || isPaying}
+                >
+                  {isPaying ? (
+                    <ActivityIndicator color={colors.accentForeground} />
+                  ) : (
+                    <ThemedText style={{ color: colors.accentForeground }}>
+                      Pay Bill
+                    </ThemedText>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </ThemedView>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  billCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+  },
+  billHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  billInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  billAmount: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  billDetail: {
+    fontSize: 14,
+  },
+  payButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  payPanel: {
+    marginTop: 16,
+    gap: 12,
+  },
+  payActions: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: 44,
+  },
+});
@@ -20,9 +20,27 @@ import { ThemedView } from "@/components/themed-view";
 import { IconSymbol } from "@/components/ui/icon-symbol";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
-import { useAccounts, queryKeys } from "@/lib/queries";
+import {
+  useAccounts,
+  useCheckHolds,
+  useCheckReviews,
+  queryKeys,
+} from "@/lib/queries";
 import { api } from "@/lib/api";
+import { Money } from "@/lib/money";
 import { AccountSelector } from "./account-selector";
+import { CurrencyInput } from "./currency-input";
+
+type CheckSide = "front" | "back";
+
+const CHECK_SIDES: { side: CheckSide; label: string; hint?: string }[] = [
+  { side: "front", label: "Front of Check" },
+  {
+    side: "back",
+    label: "Back of Check",
+    hint: 'Sign the back and write "For Mobile Deposit Only" under your signature.',
+  },
+];
 
 type FormState =
   | "idle"
@@ -38,15 +56,22 @@ export function CheckDepositForm() {
   const insets = useSafeAreaInsets();
   const queryClient = useQueryClient();
   const { data: accountsData, isLoading: accountsLoading } = useAccounts();
+  const { data: holdsData } = useCheckHolds();
+  const { data: reviewsData } = useCheckReviews();
   const [formState, setFormState] = useState<FormState>("idle");
   const [selectedAccountId, setSelectedAccountId] = useState<number | null>(
     null,
   );
-  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [imageUris, setImageUris] = useState<
+    Record<CheckSide, string | null>
+  >({ front: null, back: null });
+  const [amount, setAmount] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [successData, setSuccessData] = useState<{
     transaction_id?: number;
     amount?: number;
+    under_review?: boolean;
+    availability?: { amount: number; available_at: string }[];
     validation_result?: {
       extracted_amount: number;
       routing_number?: string;
@@ -94,7 +119,11 @@ export function CheckDepositForm() {
     }
   }, [accounts, selectedAccountId]);
 
-  const handleTakePhoto = async () => {
+  const setImageUri = (side: CheckSide, uri: string | null) => {
+    setImageUris((current) => ({ ...current, [side]: uri }));
+  };
+
+  const handleTakePhoto = async (side: CheckSide) => {
     try {
       const result = await ImagePicker.launchCameraAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
@@ -104,7 +133,7 @@ export function CheckDepositForm() {
       });
 
       if (!result.canceled && result.assets[0]) {
-        setImageUri(result.assets[0].uri);
+        setImageUri(side, result.assets[0].uri);
         setError(null);
       }
     } catch {
@@ -117,7 +146,7 @@ export function CheckDepositForm() {
     }
   };
 
-  const handlePickImage = async () => {
+  const handlePickImage = async (side: CheckSide) => {
     try {
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
@@ -127,7 +156,7 @@ export function CheckDepositForm() {
       });
 
       if (!result.canceled && result.assets[0]) {
-        setImageUri(result.assets[0].uri);
+        setImageUri(side, result.assets[0].uri);
         setError(null);
       }
     } catch {
@@ -140,9 +169,36 @@ export function CheckDepositForm() {
     }
   };
 
+  const uploadImage = async (side: CheckSide, uri: string) => {
+    // Determine file type from URI
+    const fileExtension = uri.split(".").pop()?.toLowerCase() || "jpg";
+    const mimeType =
+      fileExtension === "png"
+        ? "image/png"
+        : fileExtension === "webp"
+          ? "image/webp"
+          : "image/jpeg";
+
+    const uploadResult = await api.uploadCheckImage(
+      {
+        uri,
+        type: mimeType,
+        name: `check-${side}-${Date.now()}.${fileExtension}`,
+      },
+      side,
+    );
+    return uploadResult.image_url;
+  };
+
   const handleUpload = async () => {
-    if (!imageUri || !selectedAccountId) {
-      setError("Please select an account and upload a check image");
+    if (!imageUris.front || !imageUris.back || !selectedAccountId) {
+      setError("Please select an account and upload both sides of the check");
+      return;
+    }
+
+    const enteredAmount = Money.parse(amount);
+    if (!enteredAmount || enteredAmount.toCents() <= 0) {
+      setError("Please enter the amount of the check");
       return;
     }
 
@@ -157,27 +213,17 @@ export function CheckDepositForm() {
         throw new Error("Selected account not found");
       }
 
-      // Determine file type from URI
-      const fileExtension = imageUri.split(".").pop()?.toLowerCase() || "jpg";
-      const mimeType =
-        fileExtension === "png"
-          ? "image/png"
-          : fileExtension === "webp"
-            ? "image/webp"
-            : "image/jpeg";
-
-      // Upload image
-      const uploadResult = await api.uploadCheckImage({
-        uri: imageUri,
-        type: mimeType,
-        name: `check-${Date.now()}.${fileExtension}`,
-      });
+      // Upload both sides of the check
+      const frontImageUrl = await uploadImage("front", imageUris.front);
+      const backImageUrl = await uploadImage("back", imageUris.back);
 
       // Process deposit
       setFormState("processing");
 
       const depositResult = await api.depositCheck({
-        check_image_url: uploadResult.image_url,
+        check_image_url: frontImageUrl,
+        check_back_image_url: backImageUrl,
+        amount: enteredAmount.toString(),
         destination_account_number: selectedAccount.account_number,
       });
 
@@ -189,12 +235,16 @@ export function CheckDepositForm() {
       setSuccessData({
         transaction_id: depositResult.transaction_id,
         amount: depositResult.amount,
+        under_review: depositResult.under_review,
+        availability: depositResult.availability,
         validation_result: depositResult.validation_result,
       });
 
       // Invalidate account and transaction queries to refresh balances
       queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
       queryClient.invalidateQueries({ queryKey: queryKeys.transactions() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.checkHolds });
+      queryClient.invalidateQueries({ queryKey: queryKeys.checkReviews });
       // Invalidate all transfer history queries
       queryClient.invalidateQueries({ queryKey: ["transferHistory"] });
 
@@ -202,7 +252,9 @@ export function CheckDepositForm() {
       Toast.show({
         type: "success",
         text1: "Success",
-        text2: "Check deposit processed successfully",
+        text2: depositResult.under_review
+          ? "Check deposit received for review"
+          : "Check deposit processed successfully",
       });
     } catch (err) {
       const errorMessage =
@@ -218,19 +270,26 @@ export function CheckDepositForm() {
   };
 
   const handleReset = () => {
-    setImageUri(null);
+    setImageUris({ front: null, back: null });
+    setAmount("");
     setFormState("idle");
     setError(null);
     setSuccessData(null);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
+  const formatCurrency = (amount: string) => Money.from(amount).format();
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
   };
 
+  const holds = holdsData?.holds || [];
+  const reviews = reviewsData?.reviews || [];
+
   if (accountsLoading || accounts.length === 0) {
     return (
       <ThemedView style={styles.loadingContainer}>
@@ -285,7 +344,9 @@ export function CheckDepositForm() {
                 />
                 <View style={styles.successTitleContainer}>
                   <ThemedText type="title" style={styles.successTitle}>
-                    Check Deposit Successful!
+                    {successData.under_review
+                      ? "Check Deposit Received"
+                      : "Check Deposit Successful!"}
                   </ThemedText>
                 </View>
                 <View style={styles.successAmountContainer}>
@@ -337,6 +398,21 @@ export function CheckDepositForm() {
                       Transaction ID: {successData.transaction_id}
                     </ThemedText>
                   )}
+                  {successData.availability?.map((tranche) => (
+                    <ThemedText
+                      key={tranche.available_at}
+                      style={styles.successDetail}
+                    >
+                      {formatCurrency(tranche.amount)} available{" "}
+                      {formatDate(tranche.available_at)}
+                    </ThemedText>
+                  ))}
+                  {successData.under_review && (
+                    <ThemedText style={styles.successDetail}>
+                      This deposit is being reviewed. You will see the outcome
+                      below the deposit form.
+                    </ThemedText>
+                  )}
                 </View>
                 <View style={styles.successButtons}>
                   <TouchableOpacity
@@ -408,75 +484,96 @@ export function CheckDepositForm() {
       </View>
 
       <View style={styles.field}>
-        <ThemedText style={styles.label}>Check Image</ThemedText>
-        {!imageUri ? (
-          <View style={styles.imageButtons}>
-            <TouchableOpacity
-              style={[
-                styles.imageButton,
-                {
-                  backgroundColor: colors.accent,
-                },
-              ]}
-              onPress={handleTakePhoto}
+        <ThemedText style={styles.label}>Check Amount</ThemedText>
+        <CurrencyInput value={amount} onChange={setAmount} placeholder="0.00" />
+      </View>
+
+      {CHECK_SIDES.map(({ side, label, hint }) => (
+        <View key={side} style={styles.field}>
+          <ThemedText style={styles.label}>{label}</ThemedText>
+          {hint && (
+            <ThemedText
+              style={[styles.holdsNote, { color: colors.mutedForeground }]}
             >
-              <IconSymbol
-                name="camera.fill"
-                size={24}
-                color={colors.accentForeground}
-              />
-              <ThemedText
+              {hint}
+            </ThemedText>
+          )}
+          {!imageUris[side] ? (
+            <View style={styles.imageButtons}>
+              <TouchableOpacity
                 style={[
-                  styles.imageButtonText,
+                  styles.imageButton,
                   {
-                    color: colors.accentForeground,
+                    backgroundColor: colors.accent,
                   },
                 ]}
+                onPress={() => handleTakePhoto(side)}
               >
-                Take Photo
-              </ThemedText>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.imageButton,
-                {
-                  backgroundColor: colors.card,
-                  borderWidth: 1,
-                  borderColor: colors.border,
-                },
-              ]}
-              onPress={handlePickImage}
-            >
-              <IconSymbol name="photo.fill" size={24} color={colors.text} />
-              <ThemedText
+                <IconSymbol
+                  name="camera.fill"
+                  size={24}
+                  color={colors.accentForeground}
+                />
+                <ThemedText
+                  style={[
+                    styles.imageButtonText,
+                    {
+                      color: colors.accentForeground,
+                    },
+                  ]}
+                >
+                  Take Photo
+                </ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
                 style={[
-                  styles.imageButtonText,
+                  styles.imageButton,
                   {
-                    color: colors.text,
+                    backgroundColor: colors.card,
+                    borderWidth: 1,
+                    borderColor: colors.border,
                   },
                 ]}
+                onPress={() => handlePickImage(side)}
               >
-                Select Photo
-              </ThemedText>
-            </TouchableOpacity>
-          </View>
-        ) : (
-          <View style={styles.imagePreviewContainer}>
-            <Image source={{ uri: imageUri }} style={styles.imagePreview} />
-            <TouchableOpacity
-              style={[
-                styles.removeImageButton,
-                {
-                  backgroundColor: colors.destructive,
-                },
-              ]}
-              onPress={() => setImageUri(null)}
-            >
-              <IconSymbol name="xmark" size={20} color="#ffffff" />
-            </TouchableOpacity>
-          </View>
-        )}
-      </View>
+                <IconSymbol
+                  name="photo.fill"
+                  size={24}
+                  color={colors.text}
+                />
+                <ThemedText
+                  style={[
+                    styles.imageButtonText,
+                    {
+                      color: colors.text,
+                    },
+                  ]}
+                >
+                  Select Photo
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.imagePreviewContainer}>
+              <Image
+                source={{ uri: imageUris[side] }}
+                style={styles.imagePreview}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.removeImageButton,
+                  {
+                    backgroundColor: colors.destructive,
+                  },
+                ]}
+                onPress={() => setImageUri(side, null)}
+              >
+                <IconSymbol name="xmark" size={20} color="#ffffff" />
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      ))}
 
       {error && (
         <ThemedView
@@ -514,7 +611,9 @@ export function CheckDepositForm() {
             opacity:
               formState === "uploading" ||
               formState === "processing" ||
-              !imageUri ||
+              !imageUris.front ||
+              !imageUris.back ||
+              !amount ||
               !selectedAccountId
                 ? 0.6
                 : 1,
@@ -524,7 +623,9 @@ export function CheckDepositForm() {
         disabled={
           formState === "uploading" ||
           formState === "processing" ||
-          !imageUri ||
+          !imageUris.front ||
+          !imageUris.back ||
+          !amount ||
           !selectedAccountId
         }
       >
@@ -556,6 +657,79 @@ export function CheckDepositForm() {
           </ThemedText>
         )}
       </TouchableOpacity>
+
+      {holds.length > 0 && (
+        <View style={styles.holds}>
+          <ThemedText style={styles.label}>Funds on Hold</ThemedText>
+          <ThemedText
+            style={[styles.holdsNote, { color: colors.mutedForeground }]}
+          >
+            Deposited checks are added to your balance right away. Each amount
+            below can be spent from the date shown.
+          </ThemedText>
+          {holds.map((hold) => (
+            <View
+              key={hold.id}
+              style={[styles.holdRow, { borderColor: colors.border }]}
+            >
+              <ThemedText>{formatCurrency(hold.amount)}</ThemedText>
+              <ThemedText style={{ color: colors.mutedForeground }}>
+                Available {formatDate(hold.available_at)}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {reviews.length > 0 && (
+        <View style={styles.holds}>
+          <ThemedText style={styles.label}>Deposits Under Review</ThemedText>
+          <ThemedText
+            style={[styles.holdsNote, { color: colors.mutedForeground }]}
+          >
+            Some check deposits are checked by our team before they are added
+            to your balance. The outcome of each is shown below.
+          </ThemedText>
+          {reviews.map((review) => (
+            <View
+              key={review.id}
+              style={[styles.reviewRow, { borderColor: colors.border }]}
+            >
+              <View style={styles.reviewSummary}>
+                <ThemedText>
+                  {formatCurrency(review.approved_amount ?? review.amount)}
+                </ThemedText>
+                <ThemedText style={{ color: colors.mutedForeground }}>
+                  {review.status === "open"
+                    ? "In review"
+                    : review.status === "approved"
+                      ? "Approved"
+                      : "Rejected"}
+                </ThemedText>
+              </View>
+              {review.approved_amount !== null &&
+                review.approved_amount !== review.amount && (
+                  <ThemedText
+                    style={[
+                      styles.holdsNote,
+                      { color: colors.mutedForeground },
+                    ]}
+                  >
+                    Adjusted from {formatCurrency(review.amount)} to match the
+                    check.
+                  </ThemedText>
+                )}
+              {review.rejection_reason && (
+                <ThemedText
+                  style={[styles.holdsNote, { color: colors.mutedForeground }]}
+                >
+                  {review.rejection_reason}
+                </ThemedText>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
     </ScrollView>
   );
 }
@@ -654,6 +828,27 @@ const styles = StyleSheet.create({
     fontSize: 14,
     flex: 1,
   },
+  holds: {
+    marginTop: 24,
+  },
+  holdsNote: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  holdRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  reviewRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  reviewSummary: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
   successModalContainer: {
     flex: 1,
   },
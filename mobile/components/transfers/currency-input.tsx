@@ -8,6 +8,7 @@ import {
 import { ThemedText } from "@/components/themed-text";
 import { useTheme } from "@/contexts/theme-context";
 import { Colors } from "@/constants/theme";
+import { sanitizeMoneyInput } from "@/lib/money";
 
 interface CurrencyInputProps {
   value: string;
@@ -27,27 +28,8 @@ export function CurrencyInput({
   const { theme } = useTheme();
   const colors = Colors[theme];
 
-  const formatDisplayValue = (val: string): string => {
-    // Remove all non-digit characters except decimal point
-    const cleaned = val.replace(/[^\d.]/g, "");
-
-    // Ensure only one decimal point
-    const parts = cleaned.split(".");
-    if (parts.length > 2) {
-      return parts[0] + "." + parts.slice(1).join("");
-    }
-
-    // Limit to 2 decimal places
-    if (parts[1] && parts[1].length > 2) {
-      return parts[0] + "." + parts[1].slice(0, 2);
-    }
-
-    return cleaned;
-  };
-
   const handleChange = (text: string) => {
-    const formatted = formatDisplayValue(text);
-    onChange(formatted);
+    onChange(sanitizeMoneyInput(text));
   };
 
   return (
@@ -73,7 +73,8 @@ const mockAccounts = [
     id: 1,
     account_number: '1234567890',
     account_type: 'checking',
-    balance: 1000.00,
+    balance: '1000.00',
+    available_balance: '1000.00',
     is_active: true,
     created_at: '2024-01-01T00:00:00Z',
   },
@@ -21,6 +21,7 @@ import { Colors } from "@/constants/theme";
 import { useAccounts, queryKeys } from "@/lib/queries";
 import { api } from "@/lib/api";
 import { ExternalTransferSchema } from "@/lib/schemas/transfer";
+import { MAX_AMOUNT_CENTS, Money } from "@/lib/money";
 import { CurrencyInput } from "./currency-input";
 import { AccountSelector } from "./account-selector";
 import { TransferReviewScreen } from "./transfer-review-screen";
@@ -69,7 +70,7 @@ export function ExternalTransferForm() {
   const [lookupError, setLookupError] = useState<string | null>(null);
   const [successData, setSuccessData] = useState<{
     transaction_id: number;
-    amount: number;
+    amount: string;
     recipient_name: string;
   } | null>(null);
 
@@ -223,12 +224,7 @@ export function ExternalTransferForm() {
     setLookupError(null);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
+  const formatCurrency = (amount: string) => Money.from(amount).format();
 
   const getAccountDisplay = (accountId: number | undefined) => {
     if (!accountId) return "Unknown Account";
@@ -300,7 +296,7 @@ export function ExternalTransferForm() {
                 </View>
                 <View style={styles.successAmountContainer}>
                   <ThemedText style={styles.successAmount}>
-                    {formatCurrency(successData.amount / 100)}
+                    {Money.from(successData.amount).format()}
                   </ThemedText>
                 </View>
                 <View style={styles.successDetails}>
@@ -404,7 +400,7 @@ export function ExternalTransferForm() {
       },
       {
         label: "Amount",
-        value: formatCurrency(parseFloat(amount) || 0),
+        value: (Money.parse(amount) ?? Money.ZERO).format(),
         isAmount: true,
       },
       ...(sourceAccount
@@ -655,17 +651,16 @@ export function ExternalTransferForm() {
           onChange: ({ value }) => {
             if (!value || value.trim() === "") return "Amount is required";
 
-            const numValue = parseFloat(value);
-            if (isNaN(numValue) || numValue <= 0)
+            const money = Money.parse(value);
+            if (!money || money.toCents() <= 0)
               return "Amount must be greater than $0.00";
-            if (numValue < 0.01) return "Amount must be at least $0.01";
-            if (numValue > 9999999.99)
+            if (money.toCents() > MAX_AMOUNT_CENTS)
               return "Amount cannot exceed $9,999,999.99";
 
             const sourceId = form.getFieldValue("source_account_id");
             if (sourceId) {
               const sourceAccount = accounts.find((acc) => acc.id === sourceId);
-              if (sourceAccount && numValue > sourceAccount.balance) {
+              if (sourceAccount && money.gt(Money.from(sourceAccount.balance))) {
                 return "Insufficient funds";
               }
             }
@@ -20,6 +20,7 @@ import { Colors } from "@/constants/theme";
 import { useAccounts, queryKeys } from "@/lib/queries";
 import { api } from "@/lib/api";
 import { InternalTransferSchema } from "@/lib/schemas/transfer";
+import { MAX_AMOUNT_CENTS, Money } from "@/lib/money";
 import { CurrencyInput } from "./currency-input";
 import { AccountSelector } from "./account-selector";
 import { TransferReviewScreen } from "./transfer-review-screen";
@@ -48,7 +49,7 @@ export function InternalTransferForm() {
   const [error, setError] = useState<string | null>(null);
   const [successData, setSuccessData] = useState<{
     transaction_id: number;
-    amount: number;
+    amount: string;
     source_account: string;
     destination_account: string;
   } | null>(null);
@@ -154,12 +155,7 @@ export function InternalTransferForm() {
     setSuccessData(null);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
+  const formatCurrency = (amount: string) => Money.from(amount).format();
 
   const getAccountDisplay = (accountId: number | null) => {
     if (!accountId) return "Unknown Account";
@@ -261,7 +257,7 @@ export function InternalTransferForm() {
                 </View>
                 <View style={styles.successAmountContainer}>
                   <ThemedText style={styles.successAmount}>
-                    {formatCurrency(successData.amount / 100)}
+                    {Money.from(successData.amount).format()}
                   </ThemedText>
                 </View>
                 <View style={styles.successDetails}>
@@ -379,7 +375,7 @@ export function InternalTransferForm() {
       },
       {
         label: "Amount",
-        value: formatCurrency(parseFloat(amount) || 0),
+        value: (Money.parse(amount) ?? Money.ZERO).format(),
         isAmount: true,
       },
       ...(sourceAccount
@@ -495,18 +491,17 @@ export function InternalTransferForm() {
                 onChange: ({ value }) => {
                   if (!value || value.trim() === "") return "Amount is required";
 
-                  const numValue = parseFloat(value);
-                  if (isNaN(numValue) || numValue <= 0)
+                  const money = Money.parse(value);
+                  if (!money || money.toCents() <= 0)
                     return "Amount must be greater than $0.00";
-                  if (numValue < 0.01) return "Amount must be at least $0.01";
-                  if (numValue > 9999999.99)
+                  if (money.toCents() > MAX_AMOUNT_CENTS)
                     return "Amount cannot exceed $9,999,999.99";
 
                   if (sourceAccountId) {
                     const sourceAccount = accounts.find(
                       (acc) => acc.id === sourceAccountId,
                     );
-                    if (sourceAccount && numValue > sourceAccount.balance) {
+                    if (sourceAccount && money.gt(Money.from(sourceAccount.balance))) {
                       return "Insufficient funds";
                     }
                   }
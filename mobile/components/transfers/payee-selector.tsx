@@ -16,6 +16,7 @@ interface Payee {
   business_name: string;
   email?: string;
   phone?: string;
+  bank_name?: string | null;
 }
 
 interface PayeeSelectorProps {
@@ -146,6 +147,18 @@ export function PayeeSelector({
                   {payee.email || payee.phone}
                 </ThemedText>
               )}
+              {payee.bank_name && (
+                <ThemedText
+                  style={[
+                    styles.payeeItemDetail,
+                    {
+                      color: colors.mutedForeground,
+                    },
+                  ]}
+                >
+                  {payee.bank_name}
+                </ThemedText>
+              )}
             </View>
           </View>
           {isSelected && (
@@ -190,6 +203,11 @@ export function PayeeSelector({
                   {selectedPayee.email || selectedPayee.phone}
                 </ThemedText>
               )}
+              {selectedPayee.bank_name && (
+                <ThemedText style={styles.payeeDetail}>
+                  {selectedPayee.bank_name}
+                </ThemedText>
+              )}
             </View>
           </View>
         ) : (
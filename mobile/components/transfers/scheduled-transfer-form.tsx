@@ -0,0 +1,680 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+} from "react-native";
+import { useForm } from "@tanstack/react-form";
+import { router } from "expo-router";
+import Toast from "react-native-toast-message";
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { useTheme } from "@/contexts/theme-context";
+import { Colors } from "@/constants/theme";
+import { useAccounts } from "@/lib/queries";
+import { api, type ExternalAccount, type TransferRule } from "@/lib/api";
+import { MAX_AMOUNT_CENTS, Money } from "@/lib/money";
+import { CurrencyInput } from "./currency-input";
+import { AccountSelector } from "./account-selector";
+import { FrequencySelector } from "./frequency-selector";
+
+// Recurring schedules run at 09:00 UTC
+export const TRANSFER_FREQUENCY_PRESETS = [
+  { label: "Weekly (Monday)", value: "0 9 * * 1" },
+  { label: "Twice a month (1st and 15th)", value: "0 9 1,15 * *" },
+  { label: "Monthly (1st)", value: "0 9 1 * *" },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Dates are entered as YYYY-MM-DD and sent as 9am local time on that day
+function dateToISO(date: string): string {
+  return new Date(`${date}T09:00:00`).toISOString();
+}
+
+function isoToDate(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function validateDate(value: string, required: boolean): string | undefined {
+  if (!value) return required ? "Date is required" : undefined;
+  if (
+    !DATE_PATTERN.test(value) ||
+    isNaN(new Date(`${value}T09:00:00`).getTime())
+  )
+    return "Use the format YYYY-MM-DD";
+  return undefined;
+}
+
+interface ScheduledTransferFormData {
+  source_account_id: number | null;
+  destination_account_id: number | null;
+  destination_external_account_id: number | null;
+  amount: string;
+  transfer_kind: "one_off" | "recurring";
+  run_date: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface ScheduledTransferFormProps {
+  ruleId?: number;
+}
+
+export function ScheduledTransferForm({
+  ruleId,
+}: ScheduledTransferFormProps = {}) {
+  const { theme } = useTheme();
+  const colors = Colors[theme];
+  const { data: accountsData, isLoading: accountsLoading } = useAccounts();
+  const [externalAccounts, setExternalAccounts] = useState<ExternalAccount[]>(
+    [],
+  );
+  const [destinationType, setDestinationType] = useState<
+    "internal" | "external"
+  >("internal");
+  const [frequency, setFrequency] = useState("0 9 1 * *");
+  const [editingRule, setEditingRule] = useState<TransferRule | null>(null);
+  const [isLoadingRule, setIsLoadingRule] = useState(!!ruleId);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const accounts = (accountsData?.accounts || []).filter(
+    (acc) => acc.is_active,
+  );
+  const isEditMode = !!ruleId;
+
+  const form = useForm({
+    defaultValues: {
+      source_account_id: null,
+      destination_account_id: null,
+      destination_external_account_id: null,
+      amount: "",
+      transfer_kind: "one_off",
+      run_date: "",
+      start_date: "",
+      end_date: "",
+    } as ScheduledTransferFormData,
+    onSubmit: async ({ value }) => {
+      setSubmitting(true);
+      setError(null);
+
+      try {
+        if (isEditMode && editingRule) {
+          // Only the amount and schedule can change; the accounts are fixed
+          const updateData: {
+            amount?: string;
+            run_at?: string;
+            frequency?: string;
+            end_time?: string | null;
+          } = {};
+
+          if (
+            !Money.from(editingRule.amount).eq(
+              Money.parse(value.amount) ?? Money.ZERO,
+            )
+          ) {
+            updateData.amount = value.amount;
+          }
+          if (editingRule.transfer_kind === "one_off") {
+            if (value.run_date !== isoToDate(editingRule.run_at)) {
+              updateData.run_at = dateToISO(value.run_date);
+            }
+          } else {
+            if (frequency !== editingRule.frequency) {
+              updateData.frequency = frequency;
+            }
+            if (value.end_date !== isoToDate(editingRule.end_time)) {
+              updateData.end_time = value.end_date
+                ? dateToISO(value.end_date)
+                : null;
+            }
+          }
+
+          if (Object.keys(updateData).length > 0) {
+            await api.updateTransferRule(editingRule.id, updateData);
+          }
+        } else {
+          await api.createTransferRule({
+            source_account_id: value.source_account_id!,
+            ...(destinationType === "internal"
+              ? { destination_account_id: value.destination_account_id! }
+              : {
+                  destination_external_account_id:
+                    value.destination_external_account_id!,
+                }),
+            amount: value.amount,
+            transfer_kind: value.transfer_kind,
+            ...(value.transfer_kind === "one_off"
+              ? { run_at: dateToISO(value.run_date) }
+              : {
+                  frequency,
+                  start_time: dateToISO(value.start_date),
+                  end_time: value.end_date
+                    ? dateToISO(value.end_date)
+                    : undefined,
+                }),
+          });
+        }
+
+        Toast.show({
+          type: "success",
+          text1: "Success",
+          text2: isEditMode
+            ? "Scheduled transfer updated successfully"
+            : "Transfer scheduled successfully",
+        });
+        router.replace("/(tabs)/transfers/scheduled-transfers");
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error
+            ? err.message
+            : isEditMode
+              ? "Failed to update scheduled transfer"
+              : "Failed to schedule transfer";
+        setError(errorMessage);
+        Toast.show({
+          type: "error",
+          text1: "Error",
+          text2: errorMessage,
+        });
+      } finally {
+        setSubmitting(false);
+      }
+    },
+  });
+
+  useEffect(() => {
+    api
+      .getExternalAccounts()
+      .then((result) => setExternalAccounts(result.accounts))
+      .catch((err) => console.error("Failed to fetch external accounts:", err));
+  }, []);
+
+  // Fetch rule data when in edit mode
+  useEffect(() => {
+    if (!isEditMode || !ruleId) return;
+
+    const fetchRule = async () => {
+      try {
+        const result = await api.getTransferRules();
+        const rule = result.rules.find((r) => r.id === ruleId);
+
+        if (rule) {
+          setEditingRule(rule);
+          form.setFieldValue("source_account_id", rule.source_internal_id);
+          form.setFieldValue(
+            "destination_account_id",
+            rule.destination_internal_id,
+          );
+          form.setFieldValue(
+            "destination_external_account_id",
+            rule.destination_external_id,
+          );
+          form.setFieldValue("amount", Money.from(rule.amount).toString());
+          form.setFieldValue("transfer_kind", rule.transfer_kind);
+          form.setFieldValue("run_date", isoToDate(rule.run_at));
+          form.setFieldValue("start_date", isoToDate(rule.start_time));
+          form.setFieldValue("end_date", isoToDate(rule.end_time));
+          setDestinationType(
+            rule.destination_external_id ? "external" : "internal",
+          );
+          if (rule.frequency) {
+            setFrequency(rule.frequency);
+          }
+        } else {
+          setError("Scheduled transfer not found");
+        }
+      } catch (err) {
+        console.error("Failed to fetch scheduled transfer:", err);
+        setError("Failed to load scheduled transfer");
+      } finally {
+        setIsLoadingRule(false);
+      }
+    };
+    fetchRule();
+  }, [isEditMode, ruleId, form]);
+
+  const renderDateField = (
+    name: "run_date" | "start_date" | "end_date",
+    label: string,
+    required: boolean,
+  ) => (
+    <form.Field
+      name={name}
+      validators={{
+        onChange: ({ value }) => validateDate(value, required),
+      }}
+    >
+      {(field) => (
+        <View style={styles.field}>
+          <ThemedText style={styles.label}>{label}</ThemedText>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                backgroundColor: colors.card,
+                borderColor:
+                  field.state.meta.errors.length > 0
+                    ? colors.destructive
+                    : colors.border,
+                color: colors.text,
+              },
+            ]}
+            value={field.state.value}
+            onChangeText={field.handleChange}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.mutedForeground}
+            keyboardType="numbers-and-punctuation"
+            autoCapitalize="none"
+          />
+          {field.state.meta.errors.length > 0 && (
+            <ThemedText
+              style={[styles.fieldError, { color: colors.destructive }]}
+            >
+              {field.state.meta.errors[0]}
+            </ThemedText>
+          )}
+        </View>
+      )}
+    </form.Field>
+  );
+
+  const renderToggle = (
+    options: { label: string; value: string }[],
+    selected: string,
+    onSelect: (value: string) => void,
+    disabled: boolean,
+  ) => (
+    <View style={styles.toggle}>
+      {options.map((option) => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.toggleOption,
+              {
+                backgroundColor: isSelected ? colors.accent : colors.card,
+                borderColor: isSelected ? colors.accent : colors.border,
+                opacity: disabled && !isSelected ? 0.5 : 1,
+              },
+            ]}
+            onPress={() => onSelect(option.value)}
+            disabled={disabled}
+          >
+            <ThemedText
+              style={[
+                styles.toggleText,
+                { color: isSelected ? colors.accentForeground : colors.text },
+              ]}
+            >
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  if (accountsLoading || isLoadingRule) {
+    return (
+      <ThemedView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" />
+        <ThemedText style={styles.loadingText}>
+          {isLoadingRule
+            ? "Loading scheduled transfer..."
+            : "Loading accounts..."}
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <form.Field name="source_account_id">
+        {(field) => (
+          <View style={styles.field}>
+            <AccountSelector
+              accounts={accounts}
+              selectedAccountId={field.state.value}
+              onSelect={field.handleChange}
+              label="From Account"
+              disabled={isEditMode}
+            />
+          </View>
+        )}
+      </form.Field>
+
+      <View style={styles.field}>
+        <ThemedText style={styles.label}>To</ThemedText>
+        {renderToggle(
+          [
+            { label: "My account", value: "internal" },
+            { label: "External account", value: "external" },
+          ],
+          destinationType,
+          (value) => setDestinationType(value as "internal" | "external"),
+          isEditMode,
+        )}
+      </View>
+
+      {destinationType === "internal" ? (
+        <form.Subscribe selector={(state) => state.values.source_account_id}>
+          {(sourceAccountId) => (
+            <form.Field name="destination_account_id">
+              {(field) => (
+                <View style={styles.field}>
+                  <AccountSelector
+                    accounts={accounts}
+                    selectedAccountId={field.state.value}
+                    onSelect={field.handleChange}
+                    label="To Account"
+                    excludeAccountId={sourceAccountId ?? undefined}
+                    disabled={isEditMode}
+                  />
+                </View>
+              )}
+            </form.Field>
+          )}
+        </form.Subscribe>
+      ) : (
+        <form.Field name="destination_external_account_id">
+          {(field) => (
+            <View style={styles.field}>
+              {externalAccounts.length === 0 ? (
+                <ThemedText
+                  style={[styles.hint, { color: colors.mutedForeground }]}
+                >
+                  Save an external account with an external transfer to schedule
+                  transfers to it.
+                </ThemedText>
+              ) : (
+                externalAccounts.map((account) => {
+                  const isSelected = field.state.value === account.id;
+                  return (
+                    <TouchableOpacity
+                      key={account.id}
+                      style={[
+                        styles.externalOption,
+                        {
+                          backgroundColor: colors.card,
+                          borderColor: isSelected
+                            ? colors.accent
+                            : colors.border,
+                        },
+                      ]}
+                      onPress={() => field.handleChange(account.id)}
+                      disabled={isEditMode}
+                    >
+                      <ThemedText style={styles.externalName}>
+                        {account.nickname || "External account"}
+                      </ThemedText>
+                      <ThemedText style={{ color: colors.mutedForeground }}>
+                        {account.bank_name
+                          ? `${account.bank_name} ****${account.account_number.slice(-4)}`
+                          : `****${account.account_number.slice(-4)}`}
+                      </ThemedText>
+                      {isSelected && (
+                        <IconSymbol
+                          name="checkmark.circle.fill"
+                          size={20}
+                          color={colors.accent}
+                        />
+                      )}
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </View>
+          )}
+        </form.Field>
+      )}
+
+      <form.Field
+        name="amount"
+        validators={{
+          onChange: ({ value }) => {
+            if (!value || value.trim() === "") return "Amount is required";
+            const money = Money.parse(value);
+            if (!money || money.toCents() <= 0)
+              return "Amount must be greater than $0.00";
+            if (money.toCents() > MAX_AMOUNT_CENTS)
+              return "Amount cannot exceed $9,999,999.99";
+            return undefined;
+          },
+        }}
+      >
+        {(field) => (
+          <View style={styles.field}>
+            <ThemedText style={styles.label}>Amount</ThemedText>
+            <CurrencyInput
+              value={field.state.value}
+              onChange={field.handleChange}
+              placeholder="0.00"
+              error={
+                field.state.meta.errors.length > 0
+                  ? field.state.meta.errors[0]
+                  : undefined
+              }
+            />
+          </View>
+        )}
+      </form.Field>
+
+      <form.Field name="transfer_kind">
+        {(field) => (
+          <>
+            <View style={styles.field}>
+              <ThemedText style={styles.label}>When</ThemedText>
+              {renderToggle(
+                [
+                  { label: "One time", value: "one_off" },
+                  { label: "Recurring", value: "recurring" },
+                ],
+                field.state.value,
+                (value) => field.handleChange(value as "one_off" | "recurring"),
+                isEditMode,
+              )}
+            </View>
+
+            {field.state.value === "one_off" ? (
+              renderDateField("run_date", "Transfer On", true)
+            ) : (
+              <>
+                <View style={styles.field}>
+                  <FrequencySelector
+                    options={TRANSFER_FREQUENCY_PRESETS}
+                    selectedValue={frequency}
+                    onSelect={setFrequency}
+                    label="Frequency"
+                  />
+                </View>
+                {!isEditMode && renderDateField("start_date", "Starting", true)}
+                {renderDateField("end_date", "Ending (optional)", false)}
+              </>
+            )}
+          </>
+        )}
+      </form.Field>
+
+      {error && (
+        <ThemedView
+          style={[
+            styles.errorCard,
+            {
+              backgroundColor: colors.destructive + "20",
+              borderColor: colors.destructive,
+            },
+          ]}
+        >
+          <IconSymbol
+            name="exclamationmark.triangle.fill"
+            size={20}
+            color={colors.destructive}
+          />
+          <ThemedText style={[styles.errorText, { color: colors.destructive }]}>
+            {error}
+          </ThemedText>
+        </ThemedView>
+      )}
+
+      <form.Subscribe
+        selector={(state) => [state.values, state.canSubmit] as const}
+      >
+        {([values, canSubmit]) => {
+          const hasDestination =
+            destinationType === "internal"
+              ? values.destination_account_id !== null
+              : values.destination_external_account_id !== null;
+          const hasDates =
+            values.transfer_kind === "one_off"
+              ? !!values.run_date
+              : isEditMode || !!values.start_date;
+          const isFormValid =
+            canSubmit &&
+            !submitting &&
+            values.source_account_id !== null &&
+            hasDestination &&
+            !!Money.parse(values.amount)?.toCents() &&
+            hasDates;
+
+          return (
+            <TouchableOpacity
+              style={[
+                styles.button,
+                {
+                  backgroundColor: colors.accent,
+                  opacity: isFormValid ? 1 : 0.6,
+                },
+              ]}
+              onPress={() => form.handleSubmit()}
+              disabled={!isFormValid}
+            >
+              {submitting ? (
+                <ActivityIndicator color={colors.accentForeground} />
+              ) : (
+                <ThemedText
+                  style={[
+                    styles.buttonText,
+                    { color: colors.accentForeground },
+                  ]}
+                >
+                  {isEditMode ? "Save Changes" : "Schedule Transfer"}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          );
+        }}
+      </form.Subscribe>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 16,
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+  },
+  field: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+  },
+  input: {
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    minHeight: 48,
+  },
+  fieldError: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  toggle: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  toggleOption: {
+    flex: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  externalOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderRadius: 8,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 8,
+    gap: 8,
+  },
+  externalName: {
+    flex: 1,
+    fontWeight: "500",
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 8,
+    minHeight: 48,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  errorCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 8,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    flex: 1,
+  },
+});
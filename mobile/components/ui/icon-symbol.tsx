@@ -28,6 +28,9 @@ const MAPPING = {
   "person.fill": "person",
   "gearshape.fill": "settings",
   "arrow.right.square": "exit-to-app",
+  "checkmark.circle.fill": "check-circle",
+  "doc.text": "description",
+  "clock.arrow.circlepath": "history",
 } as IconMapping;
 
 /**
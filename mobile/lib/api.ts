@@ -26,7 +26,9 @@ export interface InternalAccount {
   account_number: string;
   routing_number: string;
   account_type: "checking" | "savings";
-  balance: number;
+  balance: string; // Dollars from Money, e.g. "1250.00"
+  available_balance: string;
+  overdraft_protection_account_id?: number | null; // Savings account that covers shortfalls (checking only)
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -38,7 +40,7 @@ export interface Transaction {
   amount: number;
   transaction_type: string;
   direction: "inbound" | "outbound";
-  status: "approved" | "denied" | "pending";
+  status: "pending" | "approved" | "denied" | "reversed" | "returned";
   created_at: string;
 }
 
@@ -58,6 +60,101 @@ export interface UserProfile {
   created_at: string;
 }
 
+export interface AccountStatement {
+  id: number;
+  period_start: string;
+  period_end: string;
+  opening_balance: string; // Dollars from Money, e.g. "1250.00"
+  closing_balance: string;
+  total_credits: string;
+  total_debits: string;
+  transaction_count: number;
+  download_url: string; // Signed path to the PDF; works without the bearer token until download_expires_at
+  download_expires_at: string;
+}
+
+// Deposited check funds that cannot be spent until available_at
+export interface CheckHold {
+  id: number;
+  transaction_id: number | null;
+  account_number: string;
+  amount: string;
+  available_at: string;
+}
+
+// A check deposit held for a manager's review, and its outcome once decided
+export interface CheckReview {
+  id: number;
+  transaction_id: number;
+  account_number: string;
+  status: "open" | "approved" | "rejected";
+  amount: string; // As read from the check
+  approved_amount: string | null; // Differs from amount when the manager adjusted it
+  rejection_reason: string | null;
+  submitted_at: string;
+  decided_at: string | null;
+}
+
+export interface ExternalAccount {
+  id: number;
+  nickname: string | null;
+  account_number: string;
+  routing_number: string;
+  bank_name: string | null; // From the routing directory
+}
+
+export interface TransferRule {
+  id: number;
+  transfer_kind: "one_off" | "recurring";
+  source_internal_id: number;
+  destination_internal_id: number | null;
+  destination_external_id: number | null;
+  destination_label: string;
+  amount: string; // Dollars, e.g. "250.00"
+  frequency: string | null; // Cron expression (UTC) for recurring transfers
+  run_at: string | null;
+  start_time: string;
+  end_time: string | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+}
+
+export interface BillPayExecution {
+  id: number;
+  created_at: string;
+  posted_at: string | null;
+  amount: string; // Signed dollars, e.g. "-80.00"
+  status: string;
+  denial_reason: string | null;
+}
+
+export type BillPayRuleStatus = "active" | "paused";
+
+// statement_balance rules pay each presented bill on its due date
+export type BillPayRuleMode = "fixed_amount" | "statement_balance";
+
+export interface Bill {
+  id: number;
+  payee_id: number;
+  payee_name: string;
+  amount_due: string; // Dollars, e.g. "84.12"
+  due_date: string;
+  reference: string | null;
+  status: "open" | "paid";
+  transaction_id: number | null;
+  paid_at: string | null;
+  autopay_rule_id: number | null; // Statement balance rule that will pay it
+  created_at: string;
+}
+
+export interface BillPayRuleEvent {
+  id: number;
+  event_type: "paused" | "resumed" | "skip_requested" | "payment_skipped";
+  skip_count: number | null;
+  occurrence_at: string | null;
+  created_at: string;
+}
+
 export interface ApiError {
   message: string;
   errors?: Record<string, string[]>;
@@ -272,7 +369,8 @@ class ApiClient {
     accounts: {
       id: number;
       account_number: string;
-      balance: number;
+      balance: string;
+      available_balance: string;
       created_at: string;
     }[];
     timestamp: string;
@@ -281,7 +379,8 @@ class ApiClient {
       accounts: {
         id: number;
         account_number: string;
-        balance: number;
+        balance: string;
+        available_balance: string;
         created_at: string;
       }[];
       timestamp: string;
@@ -301,6 +400,41 @@ class ApiClient {
     );
   }
 
+  async setOverdraftProtection(
+    accountId: number,
+    savingsAccountId: number | null,
+  ): Promise<{
+    message: string;
+    account_id: number;
+    overdraft_protection_account_id: number | null;
+  }> {
+    return this.request<{
+      message: string;
+      account_id: number;
+      overdraft_protection_account_id: number | null;
+    }>(
+      `/api/accounts/internal/${accountId}/overdraft-protection`,
+      savingsAccountId === null
+        ? { method: "DELETE" }
+        : {
+            method: "PUT",
+            body: JSON.stringify({ savings_account_id: savingsAccountId }),
+          },
+    );
+  }
+
+  async getStatements(
+    accountId: number,
+  ): Promise<{ statements: AccountStatement[] }> {
+    return this.request<{ statements: AccountStatement[] }>(
+      `/api/accounts/internal/${accountId}/statements`,
+    );
+  }
+
+  getStatementDownloadUrl(statement: AccountStatement): string {
+    return `${API_URL}${statement.download_url}`;
+  }
+
   // Transactions API
   async getTransactions(
     limit?: number,
@@ -422,7 +556,7 @@ class ApiClient {
   ): Promise<{
     status: string;
     transaction_id?: number;
-    amount: number;
+    amount: string; // Dollars from Money, e.g. "100.50"
   }> {
     // This endpoint uses API key auth, not JWT, so we don't use this.request()
     const queryParams = new URLSearchParams();
@@ -467,13 +601,13 @@ class ApiClient {
     success: boolean;
     message: string;
     transaction_id: number;
-    amount: number;
+    amount: string;
   }> {
     return this.request<{
       success: boolean;
       message: string;
       transaction_id: number;
-      amount: number;
+      amount: string;
     }>("/api/transfers/internal", {
       method: "POST",
       body: JSON.stringify(data),
@@ -490,14 +624,14 @@ class ApiClient {
     success: boolean;
     message: string;
     transaction_id: number;
-    amount: number;
+    amount: string;
     recipient_name: string;
   }> {
     return this.request<{
       success: boolean;
       message: string;
       transaction_id: number;
-      amount: number;
+      amount: string;
       recipient_name: string;
     }>("/api/transfers/external", {
       method: "POST",
@@ -505,6 +639,20 @@ class ApiClient {
     });
   }
 
+  async lookupRoutingNumber(routingNumber: string): Promise<{
+    routing_number: string;
+    bank_name: string;
+    city: string;
+    state: string;
+  }> {
+    return this.request<{
+      routing_number: string;
+      bank_name: string;
+      city: string;
+      state: string;
+    }>(`/api/routing-numbers/${encodeURIComponent(routingNumber)}`);
+  }
+
   async lookupRecipient(params: {
     email?: string;
     phone?: string;
@@ -559,6 +707,7 @@ class ApiClient {
       country: string;
       account_number: string;
       routing_number: string;
+      bank_name: string | null;
       is_active: boolean;
     }[];
   }> {
@@ -582,6 +731,7 @@ class ApiClient {
         country: string;
         account_number: string;
         routing_number: string;
+        bank_name: string | null;
         is_active: boolean;
       }[];
     }>(`/api/billpay/payees${queryString ? `?${queryString}` : ""}`);
@@ -613,6 +763,7 @@ class ApiClient {
       country: string;
       account_number: string;
       routing_number: string;
+      bank_name: string | null;
       is_active: boolean;
     };
   }> {
@@ -630,6 +781,7 @@ class ApiClient {
         country: string;
         account_number: string;
         routing_number: string;
+        bank_name: string | null;
         is_active: boolean;
       };
     }>("/api/billpay/payees", {
@@ -644,10 +796,14 @@ class ApiClient {
       user_id: number;
       source_internal_id: number;
       payee_id: number;
-      amount: number;
-      frequency: string;
+      mode: BillPayRuleMode;
+      amount: string | null;
+      frequency: string | null;
+      max_amount: string | null;
       start_time: string;
       end_time: string | null;
+      status: BillPayRuleStatus;
+      skip_count: number;
     }[];
   }> {
     return this.request<{
@@ -656,10 +812,14 @@ class ApiClient {
         user_id: number;
         source_internal_id: number;
         payee_id: number;
-        amount: number;
-        frequency: string;
+        mode: BillPayRuleMode;
+        amount: string | null;
+        frequency: string | null;
+        max_amount: string | null;
         start_time: string;
         end_time: string | null;
+        status: BillPayRuleStatus;
+        skip_count: number;
       }[];
     }>("/api/billpay/rules");
   }
@@ -680,8 +840,10 @@ class ApiClient {
       account_number: string;
       routing_number: string;
     };
-    amount: string; // Amount as string
-    frequency: string; // Cron expression
+    mode?: BillPayRuleMode; // Defaults to fixed_amount
+    amount?: string; // Amount as string; fixed_amount only
+    frequency?: string; // Cron expression; fixed_amount only
+    max_amount?: string; // Largest bill to pay; statement_balance only
     start_time: string; // ISO datetime string
     end_time?: string; // ISO datetime string
   }): Promise<{
@@ -690,8 +852,10 @@ class ApiClient {
       user_id: number;
       source_internal_id: number;
       payee_id: number;
-      amount: number;
-      frequency: string;
+      mode: BillPayRuleMode;
+      amount: string | null;
+      frequency: string | null;
+      max_amount: string | null;
       start_time: string;
       end_time: string | null;
     };
@@ -702,8 +866,10 @@ class ApiClient {
         user_id: number;
         source_internal_id: number;
         payee_id: number;
-        amount: number;
-        frequency: string;
+        mode: BillPayRuleMode;
+        amount: string | null;
+        frequency: string | null;
+        max_amount: string | null;
         start_time: string;
         end_time: string | null;
       };
@@ -720,6 +886,7 @@ class ApiClient {
       payee_id?: number;
       amount?: string; // Amount as string
       frequency?: string; // Cron expression
+      max_amount?: string; // Largest bill to pay; statement_balance only
       start_time?: string; // ISO datetime string
       end_time?: string | null; // ISO datetime string or null
     },
@@ -729,8 +896,10 @@ class ApiClient {
       user_id: number;
       source_internal_id: number;
       payee_id: number;
-      amount: number;
-      frequency: string;
+      mode: BillPayRuleMode;
+      amount: string | null;
+      frequency: string | null;
+      max_amount: string | null;
       start_time: string;
       end_time: string | null;
     };
@@ -741,8 +910,10 @@ class ApiClient {
         user_id: number;
         source_internal_id: number;
         payee_id: number;
-        amount: number;
-        frequency: string;
+        mode: BillPayRuleMode;
+        amount: string | null;
+        frequency: string | null;
+        max_amount: string | null;
         start_time: string;
         end_time: string | null;
       };
@@ -758,12 +929,155 @@ class ApiClient {
     });
   }
 
+  // Pause or resume a rule, or skip its next `count` payments
+  async updateBillPayRuleSchedule(
+    ruleId: number,
+    data:
+      | { action: "pause" }
+      | { action: "resume" }
+      | { action: "skip"; count: number },
+  ): Promise<{
+    rule: {
+      id: number;
+      status: BillPayRuleStatus;
+      skip_count: number;
+    };
+  }> {
+    return this.request<{
+      rule: {
+        id: number;
+        status: BillPayRuleStatus;
+        skip_count: number;
+      };
+    }>(`/api/billpay/rules/${ruleId}/schedule`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getBillPayRuleHistory(
+    ruleId: number,
+    params?: { page?: number; limit?: number; upcoming?: number },
+  ): Promise<{
+    executions: BillPayExecution[];
+    upcoming_runs: string[];
+    status: BillPayRuleStatus;
+    skip_count: number;
+    events: BillPayRuleEvent[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      total_pages: number;
+    };
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append("page", params.page.toString());
+    if (params?.limit) queryParams.append("limit", params.limit.toString());
+    if (params?.upcoming) {
+      queryParams.append("upcoming", params.upcoming.toString());
+    }
+
+    const queryString = queryParams.toString();
+    const url = `/api/billpay/rules/${ruleId}/history${queryString ? `?${queryString}` : ""}`;
+
+    return this.request<{
+      executions: BillPayExecution[];
+      upcoming_runs: string[];
+      status: BillPayRuleStatus;
+      skip_count: number;
+      events: BillPayRuleEvent[];
+      pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        total_pages: number;
+      };
+    }>(url);
+  }
+
+  async getBills(params?: { status?: "open" | "paid" }): Promise<{
+    bills: Bill[];
+  }> {
+    const queryString = params?.status ? `?status=${params.status}` : "";
+    return this.request<{ bills: Bill[] }>(`/api/billpay/bills${queryString}`);
+  }
+
+  async payBill(
+    billId: number,
+    data: { source_account_id: number },
+  ): Promise<{ status: string; transaction_id: number }> {
+    return this.request<{ status: string; transaction_id: number }>(
+      `/api/billpay/bills/${billId}/pay`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+    );
+  }
+
+  // Scheduled transfer API methods
+  async getExternalAccounts(): Promise<{ accounts: ExternalAccount[] }> {
+    return this.request<{ accounts: ExternalAccount[] }>(
+      "/api/transfers/external-accounts",
+    );
+  }
+
+  async getTransferRules(): Promise<{ rules: TransferRule[] }> {
+    return this.request<{ rules: TransferRule[] }>("/api/transfers/rules");
+  }
+
+  async createTransferRule(data: {
+    source_account_id: number;
+    destination_account_id?: number;
+    destination_external_account_id?: number;
+    amount: string; // Amount as string
+    transfer_kind: "one_off" | "recurring";
+    run_at?: string; // ISO datetime string, one-off transfers
+    frequency?: string; // Cron expression, recurring transfers
+    start_time?: string; // ISO datetime string, recurring transfers
+    end_time?: string; // ISO datetime string, recurring transfers
+  }): Promise<{ rule: TransferRule }> {
+    return this.request<{ rule: TransferRule }>("/api/transfers/rules", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateTransferRule(
+    ruleId: number,
+    data: {
+      amount?: string; // Amount as string
+      run_at?: string; // ISO datetime string, one-off transfers
+      frequency?: string; // Cron expression, recurring transfers
+      start_time?: string; // ISO datetime string, recurring transfers
+      end_time?: string | null; // ISO datetime string or null, recurring transfers
+    },
+  ): Promise<{ rule: TransferRule }> {
+    return this.request<{ rule: TransferRule }>(
+      `/api/transfers/rules/${ruleId}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(data),
+      },
+    );
+  }
+
+  async cancelTransferRule(ruleId: number): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/api/transfers/rules/${ruleId}`, {
+      method: "DELETE",
+    });
+  }
+
   // Check deposit API methods
-  async uploadCheckImage(file: {
-    uri: string;
-    type: string;
-    name: string;
-  }): Promise<{
+  async uploadCheckImage(
+    file: {
+      uri: string;
+      type: string;
+      name: string;
+    },
+    side: "front" | "back" = "front",
+  ): Promise<{
     image_url: string;
     upload_id: string;
   }> {
@@ -779,6 +1093,7 @@ class ApiClient {
       type: file.type,
       name: file.name,
     } as any);
+    formData.append("side", side);
 
     const response = await fetch(`${API_URL}/api/checks/upload`, {
       method: "POST",
@@ -801,13 +1116,19 @@ class ApiClient {
 
   async depositCheck(data: {
     check_image_url: string;
+    check_back_image_url: string;
+    amount: string; // As entered by the customer, e.g. "125.50"
     destination_account_number: string;
   }): Promise<{
     status: string;
     transaction_id?: number;
-    amount?: number;
+    amount?: string; // Dollars from Money, e.g. "125.50"
+    under_review?: boolean;
+    availability?: { amount: string; available_at: string }[];
     validation_result?: {
-      extracted_amount: number;
+      extracted_amount: string;
+      entered_amount?: string;
+      endorsement?: string;
       routing_number?: string;
       account_number?: string;
       check_number?: string;
@@ -820,9 +1141,13 @@ class ApiClient {
     return this.request<{
       status: string;
       transaction_id?: number;
-      amount?: number;
+      amount?: string;
+      under_review?: boolean;
+      availability?: { amount: string; available_at: string }[];
       validation_result?: {
-        extracted_amount: number;
+        extracted_amount: string;
+        entered_amount?: string;
+        endorsement?: string;
         routing_number?: string;
         account_number?: string;
         check_number?: string;
@@ -837,6 +1162,14 @@ class ApiClient {
     });
   }
 
+  async getCheckHolds(): Promise<{ holds: CheckHold[] }> {
+    return this.request<{ holds: CheckHold[] }>("/api/checks/holds");
+  }
+
+  async getCheckReviews(): Promise<{ reviews: CheckReview[] }> {
+    return this.request<{ reviews: CheckReview[] }>("/api/checks/reviews");
+  }
+
   // Transfer history API methods
   async getTransferHistory(params?: {
     page?: number;
@@ -848,7 +1181,7 @@ class ApiClient {
     transfers: {
       id: number;
       created_at: string;
-      amount: number;
+      amount: string;
       status: "approved" | "denied";
       transaction_type: "internal_transfer" | "external_transfer" | "deposit";
       direction: "inbound" | "outbound";
@@ -881,7 +1214,7 @@ class ApiClient {
       transfers: {
         id: number;
         created_at: string;
-        amount: number;
+        amount: string;
         status: "approved" | "denied";
         transaction_type: "internal_transfer" | "external_transfer";
         direction: "inbound" | "outbound";
@@ -42,8 +42,8 @@ describe("useAccountBalancePolling", () => {
   it("should poll balances when enabled", async () => {
     const mockBalances = {
       accounts: [
-        { id: 1, account_number: "12345", balance: 100, created_at: "2024-01-01" },
-        { id: 2, account_number: "67890", balance: 200, created_at: "2024-01-01" },
+        { id: 1, account_number: "12345", balance: "100.00", created_at: "2024-01-01" },
+        { id: 2, account_number: "67890", balance: "200.00", created_at: "2024-01-01" },
       ],
       timestamp: "2024-01-01T00:00:00Z",
     };
@@ -102,7 +102,7 @@ describe("useAccountBalancePolling", () => {
   it("should stop polling when component unmounts", async () => {
     const mockBalances = {
       accounts: [
-        { id: 1, account_number: "12345", balance: 100, created_at: "2024-01-01" },
+        { id: 1, account_number: "12345", balance: "100.00", created_at: "2024-01-01" },
       ],
       timestamp: "2024-01-01T00:00:00Z",
     };
@@ -127,14 +127,14 @@ describe("useAccountBalancePolling", () => {
   it("should invalidate queries when balances change", async () => {
     const initialBalances = {
       accounts: [
-        { id: 1, account_number: "12345", balance: 100, created_at: "2024-01-01" },
+        { id: 1, account_number: "12345", balance: "100.00", created_at: "2024-01-01" },
       ],
       timestamp: "2024-01-01T00:00:00Z",
     };
 
     const updatedBalances = {
       accounts: [
-        { id: 1, account_number: "12345", balance: 150, created_at: "2024-01-01" },
+        { id: 1, account_number: "12345", balance: "150.00", created_at: "2024-01-01" },
       ],
       timestamp: "2024-01-01T00:01:00Z",
     };
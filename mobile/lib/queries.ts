@@ -19,6 +19,9 @@ export const queryKeys = {
   account: (id: number) => ["accounts", id] as const,
   transactions: (limit?: number) =>
     limit ? ["transactions", limit] : ["transactions"] as const,
+  statements: (accountId: number) => ["statements", accountId] as const,
+  checkHolds: ["checkHolds"] as const,
+  checkReviews: ["checkReviews"] as const,
   profile: ["profile"] as const,
   transferHistory: (params?: {
     page?: number;
@@ -79,6 +82,39 @@ export function useTransactions(limit?: number) {
   });
 }
 
+export function useStatements(accountId: number) {
+  const { session } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.statements(accountId),
+    queryFn: () => api.getStatements(accountId),
+    enabled: !!session && !isNaN(accountId),
+    staleTime: 60 * 1000, // 1 minute
+    refetchInterval: 4 * 60 * 1000, // Download links expire after 5 minutes
+  });
+}
+
+// Deposited check funds on hold
+export function useCheckHolds() {
+  const { session } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.checkHolds,
+    queryFn: () => api.getCheckHolds(),
+    enabled: !!session,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+// Check deposits held for review, and their outcomes
+export function useCheckReviews() {
+  const { session } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.checkReviews,
+    queryFn: () => api.getCheckReviews(),
+    enabled: !!session,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
 // Transfer history queries
 export function useTransferHistory(params?: {
   page?: number;
@@ -168,6 +204,20 @@ export function useCreateAccount() {
   });
 }
 
+export function useSetOverdraftProtection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: {
+      accountId: number;
+      savingsAccountId: number | null;
+    }) => api.setOverdraftProtection(params.accountId, params.savingsAccountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.accounts });
+    },
+  });
+}
+
 // API Key mutations
 export function useMakeApiKeyTransaction() {
   const queryClient = useQueryClient();
@@ -200,7 +250,7 @@ export function useAccountBalancePolling(
   enabled: boolean = true,
 ) {
   const queryClient = useQueryClient();
-  const previousBalancesRef = useRef<Map<number, number>>(new Map());
+  const previousBalancesRef = useRef<Map<number, string>>(new Map());
   const consecutiveErrorsRef = useRef(0);
   const intervalIdRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
@@ -219,7 +269,7 @@ export function useAccountBalancePolling(
     const pollBalances = async () => {
       try {
         const balanceData = await api.getAccountBalances();
-        const currentBalances = new Map<number, number>();
+        const currentBalances = new Map<number, string>();
 
         // Reset error counter on success
         consecutiveErrorsRef.current = 0;
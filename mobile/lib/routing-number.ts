@@ -0,0 +1,32 @@
+/* ============================================================================================================================
+   ROUTING NUMBERS
+   ----------------------------------------------------------------------------------------------------------------------------
+   An ABA routing number is eight digits naming the bank followed by a check digit. The check digit makes the sum of the
+   digits weighted 3, 7, 1, 3, 7, 1, 3, 7, 1 a multiple of 10, which catches any single mistyped digit and most swapped
+   pairs. A number that passes may still not belong to a bank; the routing directory on the server says
+   which ones do.
+
+   Mirror of lib/routing-number.ts in the web app; keep the two in step.
+   ============================================================================================================================ */
+
+const WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7];
+
+/**
+ * The check digit that completes the first 8 digits of a routing number.
+ */
+export function getRoutingCheckDigit(routing: string): string {
+  const sum = WEIGHTS.reduce(
+    (total, weight, index) => total + weight * Number(routing[index]),
+    0,
+  );
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Whether `routing` is 9 digits ending in the right check digit.
+ */
+export function isValidRoutingNumber(routing: string): boolean {
+  return (
+    /^\d{9}$/.test(routing) && getRoutingCheckDigit(routing) === routing[8]
+  );
+}
@@ -1,26 +1,6 @@
 import { z } from "zod";
-
-// Amount validation - accepts string input and converts to cents (integers)
-const AmountSchema = z
-  .string()
-  .transform((val, ctx) => {
-    const num = parseFloat(val);
-    if (isNaN(num)) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "Amount must be a valid number",
-      });
-      return z.NEVER;
-    }
-    return Math.round(num * 100); // Convert to cents
-  })
-  .pipe(
-    z
-      .number()
-      .int("Amount must be a whole number")
-      .min(1, "Amount must be at least $0.01")
-      .max(999999999, "Amount cannot exceed $9,999,999.99"),
-  );
+import { MoneySchema } from "@/lib/money";
+import { isValidRoutingNumber } from "@/lib/routing-number";
 
 // Account number validation (up to 17 characters as per ACH standards)
 const AccountNumberSchema = z
@@ -29,11 +9,14 @@ const AccountNumberSchema = z
   .max(17, "Account number cannot exceed 17 characters")
   .regex(/^\d+$/, "Account number must contain only digits");
 
-// Routing number validation (exactly 9 digits)
+// Routing number validation (exactly 9 digits with a valid ABA check digit)
 const RoutingNumberSchema = z
   .string()
   .length(9, "Routing number must be exactly 9 digits")
-  .regex(/^\d{9}$/, "Routing number must contain only digits");
+  .regex(/^\d{9}$/, "Routing number must contain only digits")
+  .refine((val) => !/^\d{9}$/.test(val) || isValidRoutingNumber(val), {
+    message: "Routing number is not valid",
+  });
 
 // Internal transfer schema
 export const InternalTransferSchema = z
@@ -46,7 +29,7 @@ export const InternalTransferSchema = z
       .number()
       .int()
       .positive("Destination account ID is required"),
-    amount: AmountSchema,
+    amount: MoneySchema,
   })
   .refine((data) => data.source_account_id !== data.destination_account_id, {
     message: "Source and destination accounts must be different",
@@ -74,7 +57,7 @@ export const ExternalTransferSchema = z
       .number()
       .int()
       .positive("Source account ID is required"),
-    amount: AmountSchema,
+    amount: MoneySchema,
     // Transfer to user in same bank by email/phone lookup
     recipient_email: z.string().email().optional(),
     recipient_phone: z.string().optional(),
@@ -116,7 +99,7 @@ export const InternalAccountResponseSchema = z.object({
   account_number: z.string(),
   routing_number: z.string(),
   account_type: z.enum(["checking", "savings"]),
-  balance: z.number(),
+  balance: z.string(), // Dollars from Money, e.g. "1250.00"
   is_active: z.boolean(),
   created_at: z.string().optional(),
 });
@@ -130,6 +113,7 @@ export const ExternalAccountResponseSchema = z.object({
   nickname: z.string().nullable(),
   account_number: z.string(),
   routing_number: z.string(),
+  bank_name: z.string().nullable(), // From the routing directory
 });
 
 export type ExternalAccountResponse = z.infer<
@@ -139,8 +123,8 @@ export type ExternalAccountResponse = z.infer<
 export const TransferHistoryItemSchema = z.object({
   id: z.number(),
   created_at: z.string().datetime(),
-  amount: z.number(),
-  status: z.enum(["approved", "denied"]),
+  amount: z.string(), // Signed dollars, e.g. "-25.00" for outbound
+  status: z.enum(["pending", "approved", "denied", "reversed", "returned"]),
   transaction_type: z.enum(["internal_transfer", "external_transfer", "deposit"]),
   direction: z.enum(["inbound", "outbound"]),
   source_account_number: z.string().optional(),
@@ -158,7 +142,7 @@ export const TransferResponseSchema = z.object({
   success: z.boolean(),
   message: z.string(),
   transaction_id: z.number().optional(),
-  amount: z.number().optional(),
+  amount: z.string().optional(), // Dollars, e.g. "25.00"
 });
 
 export type TransferResponse = z.infer<typeof TransferResponseSchema>;
@@ -9,6 +9,11 @@ export type {
   Transaction,
   UserProfile,
   ApiError,
+  AccountStatement,
+  ExternalAccount,
+  TransferRule,
+  CheckHold,
+  CheckReview,
 } from "./api";
 
 // Re-export ATM types
@@ -29,7 +34,7 @@ import type { InternalAccount, Transaction, UserProfile } from "./api";
 export interface DashboardData {
   accounts: InternalAccount[];
   transactions: Transaction[];
-  totalBalance: number;
+  totalBalance: string;
   userProfile: UserProfile | null;
 }
 
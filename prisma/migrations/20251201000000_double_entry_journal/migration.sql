@@ -0,0 +1,79 @@
+-- CreateEnum
+CREATE TYPE "public"."EntrySide" AS ENUM ('debit', 'credit');
+
+-- CreateEnum
+CREATE TYPE "public"."SystemLedgerAccount" AS ENUM ('cash_clearing', 'check_clearing', 'ach_clearing', 'billpay_clearing', 'suspense');
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "journal_entry_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."journal_entries" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "description" VARCHAR(255) NOT NULL,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."journal_lines" (
+    "id" SERIAL NOT NULL,
+    "journal_entry_id" INTEGER NOT NULL,
+    "internal_account_id" INTEGER,
+    "system_account" "public"."SystemLedgerAccount",
+    "side" "public"."EntrySide" NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+
+    CONSTRAINT "journal_lines_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "journal_lines_one_account_check" CHECK (("internal_account_id" IS NULL) <> ("system_account" IS NULL)),
+    CONSTRAINT "journal_lines_positive_amount_check" CHECK ("amount" > 0)
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_journal_entry_id_idx" ON "public"."transactions"("journal_entry_id");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_created_at_idx" ON "public"."journal_entries"("created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "journal_lines_journal_entry_id_idx" ON "public"."journal_lines"("journal_entry_id");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_internal_account_id_idx" ON "public"."journal_lines"("internal_account_id");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_system_account_idx" ON "public"."journal_lines"("system_account");
+
+-- AddForeignKey
+ALTER TABLE "public"."transactions" ADD CONSTRAINT "transactions_journal_entry_id_fkey" FOREIGN KEY ("journal_entry_id") REFERENCES "public"."journal_entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."journal_lines" ADD CONSTRAINT "journal_lines_journal_entry_id_fkey" FOREIGN KEY ("journal_entry_id") REFERENCES "public"."journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."journal_lines" ADD CONSTRAINT "journal_lines_internal_account_id_fkey" FOREIGN KEY ("internal_account_id") REFERENCES "public"."internal_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: carry existing balances into the journal as a single opening entry offset against suspense,
+-- so that every InternalAccount.balance is explained by journal lines from day one.
+WITH opening AS (
+  INSERT INTO "public"."journal_entries" ("description")
+  SELECT 'Opening balances carried forward from internal_accounts.balance'
+  WHERE EXISTS (SELECT 1 FROM "public"."internal_accounts" WHERE "balance" <> 0)
+  RETURNING "id"
+), customer_lines AS (
+  INSERT INTO "public"."journal_lines" ("journal_entry_id", "internal_account_id", "side", "amount")
+  SELECT opening."id", a."id",
+         CASE WHEN a."balance" > 0 THEN 'credit'::"public"."EntrySide" ELSE 'debit'::"public"."EntrySide" END,
+         ABS(a."balance")
+  FROM opening, "public"."internal_accounts" a
+  WHERE a."balance" <> 0
+  RETURNING "side", "amount"
+)
+INSERT INTO "public"."journal_lines" ("journal_entry_id", "system_account", "side", "amount")
+SELECT opening."id", 'suspense'::"public"."SystemLedgerAccount",
+       CASE WHEN net > 0 THEN 'debit'::"public"."EntrySide" ELSE 'credit'::"public"."EntrySide" END,
+       ABS(net)
+FROM opening,
+     (SELECT SUM(CASE WHEN "side" = 'credit' THEN "amount" ELSE -"amount" END) AS net FROM customer_lines) totals
+WHERE net <> 0;
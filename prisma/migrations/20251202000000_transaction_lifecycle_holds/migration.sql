@@ -0,0 +1,151 @@
+-- AlterEnum
+ALTER TYPE "public"."TransactionStatusEnum" ADD VALUE 'pending' BEFORE 'approved';
+ALTER TYPE "public"."TransactionStatusEnum" ADD VALUE 'reversed';
+ALTER TYPE "public"."TransactionStatusEnum" ADD VALUE 'returned';
+
+-- CreateEnum
+CREATE TYPE "public"."HoldStatusEnum" AS ENUM ('active', 'released');
+
+-- AlterTable
+ALTER TABLE "public"."internal_accounts" ADD COLUMN     "available_balance" DECIMAL(19,4) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "posted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."funds_holds" (
+    "id" SERIAL NOT NULL,
+    "internal_account_id" INTEGER NOT NULL,
+    "transaction_id" INTEGER,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "status" "public"."HoldStatusEnum" NOT NULL DEFAULT 'active',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "release_at" TIMESTAMP(3),
+    "released_at" TIMESTAMP(3),
+
+    CONSTRAINT "funds_holds_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "funds_holds_positive_amount_check" CHECK ("amount" > 0)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "funds_holds_transaction_id_key" ON "public"."funds_holds"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "funds_holds_internal_account_id_status_idx" ON "public"."funds_holds"("internal_account_id", "status");
+
+-- CreateIndex
+CREATE INDEX "funds_holds_status_release_at_idx" ON "public"."funds_holds"("status", "release_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."funds_holds" ADD CONSTRAINT "funds_holds_internal_account_id_fkey" FOREIGN KEY ("internal_account_id") REFERENCES "public"."internal_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."funds_holds" ADD CONSTRAINT "funds_holds_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: nothing is held yet, so available equals ledger, and every approved transaction has already posted
+UPDATE "public"."internal_accounts" SET "available_balance" = "balance";
+UPDATE "public"."transactions" SET "posted_at" = "created_at" WHERE "status" = 'approved';
+
+-- Scheduled bill payments now start as pending: reserve the funds with a hold and let settlement post them to the ledger
+CREATE OR REPLACE FUNCTION process_billpay_rule(rule_id_param INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_record RECORD;
+  source_account_record RECORD;
+  payee_record RECORD;
+  current_time TIMESTAMPTZ := NOW();
+  idempotency_key_value TEXT;
+  amount_decimal DECIMAL(19, 4);
+  pending_transaction_id INTEGER;
+BEGIN
+  SELECT * INTO rule_record FROM billpay_rules WHERE id = rule_id_param;
+
+  IF rule_record IS NULL THEN
+    RAISE WARNING 'Billpay rule % not found', rule_id_param;
+    RETURN;
+  END IF;
+
+  IF current_time < rule_record.start_time::TIMESTAMPTZ THEN
+    RAISE NOTICE 'Billpay rule % not yet started (start_time: %)', rule_id_param, rule_record.start_time;
+    RETURN;
+  END IF;
+
+  IF rule_record.end_time IS NOT NULL AND current_time > rule_record.end_time::TIMESTAMPTZ THEN
+    RAISE NOTICE 'Billpay rule % has expired (end_time: %)', rule_id_param, rule_record.end_time;
+    RETURN;
+  END IF;
+
+  SELECT * INTO source_account_record FROM internal_accounts WHERE id = rule_record.source_internal_id;
+
+  IF source_account_record IS NULL THEN
+    RAISE WARNING 'Source account % not found for billpay rule %', rule_record.source_internal_id, rule_id_param;
+    RETURN;
+  END IF;
+
+  IF NOT source_account_record.is_active THEN
+    RAISE WARNING 'Source account % is inactive for billpay rule %', rule_record.source_internal_id, rule_id_param;
+    RETURN;
+  END IF;
+
+  SELECT * INTO payee_record FROM billpay_payees WHERE id = rule_record.payee_id;
+
+  IF payee_record IS NULL THEN
+    RAISE WARNING 'Payee % not found for billpay rule %', rule_record.payee_id, rule_id_param;
+    RETURN;
+  END IF;
+
+  IF NOT payee_record.is_active THEN
+    RAISE WARNING 'Payee % is inactive for billpay rule %', rule_record.payee_id, rule_id_param;
+    RETURN;
+  END IF;
+
+  idempotency_key_value := 'billpay_cron_' || rule_id_param || '_' || EXTRACT(EPOCH FROM current_time)::BIGINT;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE transactions.idempotency_key = idempotency_key_value
+    AND transaction_type = 'billpay'
+    AND bill_pay_rule_id = rule_id_param
+  ) THEN
+    RAISE NOTICE 'Billpay rule % already processed (idempotency key exists)', rule_id_param;
+    RETURN;
+  END IF;
+
+  amount_decimal := rule_record.amount;
+
+  -- Reserve the funds against the available balance; the ledger balance moves when the payment posts
+  UPDATE internal_accounts
+  SET available_balance = available_balance - amount_decimal
+  WHERE id = rule_record.source_internal_id
+  AND available_balance >= amount_decimal;
+
+  IF NOT FOUND THEN
+    INSERT INTO transactions (
+      internal_account_id, amount, status, transaction_type, direction, bill_pay_rule_id, idempotency_key,
+      external_routing_number, external_account_number, external_nickname, created_at, updated_at
+    ) VALUES (
+      rule_record.source_internal_id, -amount_decimal, 'denied', 'billpay', 'outbound', rule_id_param, idempotency_key_value,
+      payee_record.routing_number, payee_record.account_number, payee_record.business_name, current_time, current_time
+    );
+    RAISE WARNING 'Insufficient funds for billpay rule %', rule_id_param;
+    RETURN;
+  END IF;
+
+  INSERT INTO transactions (
+    internal_account_id, amount, status, transaction_type, direction, bill_pay_rule_id, idempotency_key,
+    external_routing_number, external_account_number, external_nickname, created_at, updated_at
+  ) VALUES (
+    rule_record.source_internal_id, -amount_decimal, 'pending', 'billpay', 'outbound', rule_id_param, idempotency_key_value,
+    payee_record.routing_number, payee_record.account_number, payee_record.business_name, current_time, current_time
+  )
+  RETURNING id INTO pending_transaction_id;
+
+  INSERT INTO funds_holds (internal_account_id, transaction_id, amount, status, created_at)
+  VALUES (rule_record.source_internal_id, pending_transaction_id, amount_decimal, 'active', current_time);
+
+  RAISE NOTICE 'Billpay rule % queued as pending transaction %', rule_id_param, pending_transaction_id;
+END;
+$$;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "public"."ReversalReasonEnum" AS ENUM ('duplicate', 'posted_in_error', 'fraud', 'customer_dispute', 'other');
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "reversal_of_id" INTEGER,
+ADD COLUMN     "reversal_reason" "public"."ReversalReasonEnum";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_reversal_of_id_key" ON "public"."transactions"("reversal_of_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."transactions" ADD CONSTRAINT "transactions_reversal_of_id_fkey" FOREIGN KEY ("reversal_of_id") REFERENCES "public"."transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
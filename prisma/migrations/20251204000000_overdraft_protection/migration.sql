@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."internal_accounts" ADD COLUMN     "overdraft_protection_account_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "internal_accounts_overdraft_protection_account_id_idx" ON "public"."internal_accounts"("overdraft_protection_account_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."internal_accounts" ADD CONSTRAINT "internal_accounts_overdraft_protection_account_id_fkey" FOREIGN KEY ("overdraft_protection_account_id") REFERENCES "public"."internal_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- AlterEnum
+ALTER TYPE "public"."TransactionTypeEnum" ADD VALUE 'interest';
+
+-- AlterEnum
+ALTER TYPE "public"."SystemLedgerAccount" ADD VALUE 'interest_expense' BEFORE 'suspense';
+
+-- CreateTable
+CREATE TABLE "public"."interest_rate_tiers" (
+    "id" SERIAL NOT NULL,
+    "min_balance" DECIMAL(19,4) NOT NULL,
+    "apy" DECIMAL(7,6) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "interest_rate_tiers_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "interest_rate_tiers_min_balance_check" CHECK ("min_balance" >= 0),
+    CONSTRAINT "interest_rate_tiers_apy_check" CHECK ("apy" >= 0)
+);
+
+-- CreateTable
+CREATE TABLE "public"."interest_accruals" (
+    "id" SERIAL NOT NULL,
+    "internal_account_id" INTEGER NOT NULL,
+    "accrual_date" DATE NOT NULL,
+    "balance" DECIMAL(19,4) NOT NULL,
+    "apy" DECIMAL(7,6) NOT NULL,
+    "amount" DECIMAL(19,10) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "posted_at" TIMESTAMP(3),
+    "transaction_id" INTEGER,
+
+    CONSTRAINT "interest_accruals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "interest_rate_tiers_min_balance_key" ON "public"."interest_rate_tiers"("min_balance");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "interest_accruals_internal_account_id_accrual_date_key" ON "public"."interest_accruals"("internal_account_id", "accrual_date");
+
+-- CreateIndex
+CREATE INDEX "interest_accruals_posted_at_idx" ON "public"."interest_accruals"("posted_at");
+
+-- CreateIndex
+CREATE INDEX "interest_accruals_transaction_id_idx" ON "public"."interest_accruals"("transaction_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."interest_accruals" ADD CONSTRAINT "interest_accruals_internal_account_id_fkey" FOREIGN KEY ("internal_account_id") REFERENCES "public"."internal_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."interest_accruals" ADD CONSTRAINT "interest_accruals_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Default tiers: balances under $10,000 earn 3.50%, $10,000 to $50,000 earn 4.00%, $50,000 and up earn 4.25%
+INSERT INTO "public"."interest_rate_tiers" ("min_balance", "apy", "updated_at") VALUES
+    (0, 0.035, CURRENT_TIMESTAMP),
+    (10000, 0.04, CURRENT_TIMESTAMP),
+    (50000, 0.0425, CURRENT_TIMESTAMP);
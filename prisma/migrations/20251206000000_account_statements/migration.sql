@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."account_statements" (
+    "id" SERIAL NOT NULL,
+    "internal_account_id" INTEGER NOT NULL,
+    "period_start" DATE NOT NULL,
+    "period_end" DATE NOT NULL,
+    "opening_balance" DECIMAL(19,4) NOT NULL,
+    "closing_balance" DECIMAL(19,4) NOT NULL,
+    "total_credits" DECIMAL(19,4) NOT NULL,
+    "total_debits" DECIMAL(19,4) NOT NULL,
+    "transaction_count" INTEGER NOT NULL,
+    "totals_by_type" JSONB NOT NULL,
+    "lines" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_statements_internal_account_id_period_start_key" ON "public"."account_statements"("internal_account_id", "period_start");
+
+-- AddForeignKey
+ALTER TABLE "public"."account_statements" ADD CONSTRAINT "account_statements_internal_account_id_fkey" FOREIGN KEY ("internal_account_id") REFERENCES "public"."internal_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,178 @@
+-- CreateEnum
+CREATE TYPE "public"."TransactionLimitTypeEnum" AS ENUM ('per_transaction', 'daily_withdrawal', 'daily_external_transfer', 'daily_check_deposit');
+
+-- CreateTable
+CREATE TABLE "public"."transaction_limits" (
+    "id" SERIAL NOT NULL,
+    "account_type" "public"."AccountTypeEnum" NOT NULL,
+    "limit_type" "public"."TransactionLimitTypeEnum" NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transaction_limits_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "transaction_limits_amount_check" CHECK ("amount" >= 0)
+);
+
+-- CreateTable
+CREATE TABLE "public"."user_transaction_limits" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "account_type" "public"."AccountTypeEnum" NOT NULL,
+    "limit_type" "public"."TransactionLimitTypeEnum" NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_transaction_limits_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "user_transaction_limits_amount_check" CHECK ("amount" >= 0)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transaction_limits_account_type_limit_type_key" ON "public"."transaction_limits"("account_type", "limit_type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_transaction_limits_user_id_account_type_limit_type_key" ON "public"."user_transaction_limits"("user_id", "account_type", "limit_type");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_transaction_limits" ADD CONSTRAINT "user_transaction_limits_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default limits: $25,000 per transaction; per day $5,000 ($2,500 from savings) in withdrawals,
+-- $10,000 ($5,000 from savings) in outbound external transfers and $10,000 in check deposits
+INSERT INTO "public"."transaction_limits" ("account_type", "limit_type", "amount", "updated_at") VALUES
+    ('checking', 'per_transaction', 25000, CURRENT_TIMESTAMP),
+    ('checking', 'daily_withdrawal', 5000, CURRENT_TIMESTAMP),
+    ('checking', 'daily_external_transfer', 10000, CURRENT_TIMESTAMP),
+    ('checking', 'daily_check_deposit', 10000, CURRENT_TIMESTAMP),
+    ('savings', 'per_transaction', 25000, CURRENT_TIMESTAMP),
+    ('savings', 'daily_withdrawal', 2500, CURRENT_TIMESTAMP),
+    ('savings', 'daily_external_transfer', 5000, CURRENT_TIMESTAMP),
+    ('savings', 'daily_check_deposit', 10000, CURRENT_TIMESTAMP);
+
+-- Scheduled bill payments are subject to the per-transaction limit
+CREATE OR REPLACE FUNCTION process_billpay_rule(rule_id_param INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_record RECORD;
+  source_account_record RECORD;
+  payee_record RECORD;
+  current_time TIMESTAMPTZ := NOW();
+  idempotency_key_value TEXT;
+  amount_decimal DECIMAL(19, 4);
+  pending_transaction_id INTEGER;
+  per_transaction_limit DECIMAL(19, 4);
+BEGIN
+  SELECT * INTO rule_record FROM billpay_rules WHERE id = rule_id_param;
+
+  IF rule_record IS NULL THEN
+    RAISE WARNING 'Billpay rule % not found', rule_id_param;
+    RETURN;
+  END IF;
+
+  IF current_time < rule_record.start_time::TIMESTAMPTZ THEN
+    RAISE NOTICE 'Billpay rule % not yet started (start_time: %)', rule_id_param, rule_record.start_time;
+    RETURN;
+  END IF;
+
+  IF rule_record.end_time IS NOT NULL AND current_time > rule_record.end_time::TIMESTAMPTZ THEN
+    RAISE NOTICE 'Billpay rule % has expired (end_time: %)', rule_id_param, rule_record.end_time;
+    RETURN;
+  END IF;
+
+  SELECT * INTO source_account_record FROM internal_accounts WHERE id = rule_record.source_internal_id;
+
+  IF source_account_record IS NULL THEN
+    RAISE WARNING 'Source account % not found for billpay rule %', rule_record.source_internal_id, rule_id_param;
+    RETURN;
+  END IF;
+
+  IF NOT source_account_record.is_active THEN
+    RAISE WARNING 'Source account % is inactive for billpay rule %', rule_record.source_internal_id, rule_id_param;
+    RETURN;
+  END IF;
+
+  SELECT * INTO payee_record FROM billpay_payees WHERE id = rule_record.payee_id;
+
+  IF payee_record IS NULL THEN
+    RAISE WARNING 'Payee % not found for billpay rule %', rule_record.payee_id, rule_id_param;
+    RETURN;
+  END IF;
+
+  IF NOT payee_record.is_active THEN
+    RAISE WARNING 'Payee % is inactive for billpay rule %', rule_record.payee_id, rule_id_param;
+    RETURN;
+  END IF;
+
+  idempotency_key_value := 'billpay_cron_' || rule_id_param || '_' || EXTRACT(EPOCH FROM current_time)::BIGINT;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE transactions.idempotency_key = idempotency_key_value
+    AND transaction_type = 'billpay'
+    AND bill_pay_rule_id = rule_id_param
+  ) THEN
+    RAISE NOTICE 'Billpay rule % already processed (idempotency key exists)', rule_id_param;
+    RETURN;
+  END IF;
+
+  amount_decimal := rule_record.amount;
+
+  -- A user override takes precedence over the default for the account type
+  SELECT COALESCE(
+    (SELECT amount FROM user_transaction_limits
+      WHERE user_id = rule_record.user_id
+      AND account_type = source_account_record.account_type
+      AND limit_type = 'per_transaction'),
+    (SELECT amount FROM transaction_limits
+      WHERE account_type = source_account_record.account_type
+      AND limit_type = 'per_transaction')
+  ) INTO per_transaction_limit;
+
+  IF per_transaction_limit IS NOT NULL AND amount_decimal > per_transaction_limit THEN
+    INSERT INTO transactions (
+      internal_account_id, amount, status, transaction_type, direction, bill_pay_rule_id, idempotency_key,
+      external_routing_number, external_account_number, external_nickname, created_at, updated_at
+    ) VALUES (
+      rule_record.source_internal_id, -amount_decimal, 'denied', 'billpay', 'outbound', rule_id_param, idempotency_key_value,
+      payee_record.routing_number, payee_record.account_number, payee_record.business_name, current_time, current_time
+    );
+    RAISE WARNING 'Billpay rule % exceeds the per-transaction limit of %', rule_id_param, per_transaction_limit;
+    RETURN;
+  END IF;
+
+  -- Reserve the funds against the available balance; the ledger balance moves when the payment posts
+  UPDATE internal_accounts
+  SET available_balance = available_balance - amount_decimal
+  WHERE id = rule_record.source_internal_id
+  AND available_balance >= amount_decimal;
+
+  IF NOT FOUND THEN
+    INSERT INTO transactions (
+      internal_account_id, amount, status, transaction_type, direction, bill_pay_rule_id, idempotency_key,
+      external_routing_number, external_account_number, external_nickname, created_at, updated_at
+    ) VALUES (
+      rule_record.source_internal_id, -amount_decimal, 'denied', 'billpay', 'outbound', rule_id_param, idempotency_key_value,
+      payee_record.routing_number, payee_record.account_number, payee_record.business_name, current_time, current_time
+    );
+    RAISE WARNING 'Insufficient funds for billpay rule %', rule_id_param;
+    RETURN;
+  END IF;
+
+  INSERT INTO transactions (
+    internal_account_id, amount, status, transaction_type, direction, bill_pay_rule_id, idempotency_key,
+    external_routing_number, external_account_number, external_nickname, created_at, updated_at
+  ) VALUES (
+    rule_record.source_internal_id, -amount_decimal, 'pending', 'billpay', 'outbound', rule_id_param, idempotency_key_value,
+    payee_record.routing_number, payee_record.account_number, payee_record.business_name, current_time, current_time
+  )
+  RETURNING id INTO pending_transaction_id;
+
+  INSERT INTO funds_holds (internal_account_id, transaction_id, amount, status, created_at)
+  VALUES (rule_record.source_internal_id, pending_transaction_id, amount_decimal, 'active', current_time);
+
+  RAISE NOTICE 'Billpay rule % queued as pending transaction %', rule_id_param, pending_transaction_id;
+END;
+$$;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."idempotency_records" (
+    "id" SERIAL NOT NULL,
+    "scope" VARCHAR(255) NOT NULL,
+    "key" VARCHAR(255) NOT NULL,
+    "request_method" VARCHAR(10) NOT NULL,
+    "request_path" TEXT NOT NULL,
+    "request_hash" VARCHAR(64) NOT NULL,
+    "response_status" INTEGER,
+    "response_body" TEXT,
+    "response_content_type" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "idempotency_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idempotency_records_scope_key_key" ON "public"."idempotency_records"("scope", "key");
+
+-- CreateIndex
+CREATE INDEX "idempotency_records_expires_at_idx" ON "public"."idempotency_records"("expires_at");
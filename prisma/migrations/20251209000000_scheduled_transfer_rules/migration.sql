@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."transfer_rules" ADD COLUMN     "is_active" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "last_run_at" TIMESTAMP(3),
+ADD COLUMN     "next_run_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "transfer_rules_is_active_next_run_at_idx" ON "public"."transfer_rules"("is_active", "next_run_at");
+
+-- Rules created before scheduling existed were one-off transfers executed on the spot
+UPDATE "public"."transfer_rules" SET "is_active" = false;
@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "public"."ScheduledJobType" AS ENUM ('billpay_rule', 'transfer_rule');
+
+-- CreateTable
+CREATE TABLE "public"."scheduled_jobs" (
+    "id" SERIAL NOT NULL,
+    "job_type" "public"."ScheduledJobType" NOT NULL,
+    "bill_pay_rule_id" INTEGER,
+    "transfer_rule_id" INTEGER,
+    "next_run_at" TIMESTAMP(3),
+    "last_run_at" TIMESTAMP(3),
+    "lease_owner" TEXT,
+    "lease_expires_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_jobs_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "scheduled_jobs_rule_check" CHECK (
+        ("job_type" = 'billpay_rule' AND "bill_pay_rule_id" IS NOT NULL AND "transfer_rule_id" IS NULL) OR
+        ("job_type" = 'transfer_rule' AND "transfer_rule_id" IS NOT NULL AND "bill_pay_rule_id" IS NULL)
+    )
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_jobs_bill_pay_rule_id_key" ON "public"."scheduled_jobs"("bill_pay_rule_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_jobs_transfer_rule_id_key" ON "public"."scheduled_jobs"("transfer_rule_id");
+
+-- CreateIndex
+CREATE INDEX "scheduled_jobs_next_run_at_idx" ON "public"."scheduled_jobs"("next_run_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_jobs" ADD CONSTRAINT "scheduled_jobs_bill_pay_rule_id_fkey" FOREIGN KEY ("bill_pay_rule_id") REFERENCES "public"."billpay_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_jobs" ADD CONSTRAINT "scheduled_jobs_transfer_rule_id_fkey" FOREIGN KEY ("transfer_rule_id") REFERENCES "public"."transfer_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the transfer rule scheduler state onto the rules' jobs. Rules that never ran from the scheduler need none.
+INSERT INTO "public"."scheduled_jobs" ("job_type", "transfer_rule_id", "next_run_at", "last_run_at", "updated_at")
+SELECT 'transfer_rule', "id", "next_run_at", "last_run_at", CURRENT_TIMESTAMP
+FROM "public"."transfer_rules"
+WHERE "is_active" = true OR "last_run_at" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "public"."transfer_rules_is_active_next_run_at_idx";
+
+-- AlterTable
+ALTER TABLE "public"."transfer_rules" DROP COLUMN "last_run_at",
+DROP COLUMN "next_run_at";
+
+-- Bill pay rules no longer run from pg_cron. The in-app scheduler gives existing rules a job on its first tick,
+-- since their next runs are worked out from the cron expression in TypeScript.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobname) FROM cron.job WHERE jobname LIKE 'billpay_rule_%';
+  END IF;
+END
+$$;
+
+DROP FUNCTION IF EXISTS process_billpay_rule(INTEGER);
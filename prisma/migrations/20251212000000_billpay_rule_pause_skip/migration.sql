@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."BillPayRuleStatus" AS ENUM ('active', 'paused');
+
+-- CreateEnum
+CREATE TYPE "public"."BillPayRuleEventType" AS ENUM ('paused', 'resumed', 'skip_requested', 'payment_skipped');
+
+-- AlterTable
+ALTER TABLE "public"."billpay_rules" ADD COLUMN     "skip_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "status" "public"."BillPayRuleStatus" NOT NULL DEFAULT 'active';
+
+-- CreateTable
+CREATE TABLE "public"."billpay_rule_events" (
+    "id" SERIAL NOT NULL,
+    "bill_pay_rule_id" INTEGER NOT NULL,
+    "event_type" "public"."BillPayRuleEventType" NOT NULL,
+    "skip_count" INTEGER,
+    "occurrence_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "billpay_rule_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "billpay_rule_events_bill_pay_rule_id_created_at_idx" ON "public"."billpay_rule_events"("bill_pay_rule_id", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "public"."billpay_rule_events" ADD CONSTRAINT "billpay_rule_events_bill_pay_rule_id_fkey" FOREIGN KEY ("bill_pay_rule_id") REFERENCES "public"."billpay_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
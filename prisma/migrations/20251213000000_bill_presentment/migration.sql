@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."BillPayRuleMode" AS ENUM ('fixed_amount', 'statement_balance');
+
+-- CreateEnum
+CREATE TYPE "public"."BillStatus" AS ENUM ('open', 'paid');
+
+-- AlterTable
+ALTER TABLE "public"."billpay_rules" ADD COLUMN     "mode" "public"."BillPayRuleMode" NOT NULL DEFAULT 'fixed_amount',
+ALTER COLUMN "amount" DROP NOT NULL,
+ALTER COLUMN "frequency" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."billpay_payees" ADD COLUMN     "api_key_hash" VARCHAR(255),
+ADD COLUMN     "api_key_prefix" VARCHAR(20);
+
+-- CreateTable
+CREATE TABLE "public"."bills" (
+    "id" SERIAL NOT NULL,
+    "payee_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "amount_due" DECIMAL(19,4) NOT NULL,
+    "due_date" TIMESTAMP(3) NOT NULL,
+    "reference" VARCHAR(64),
+    "status" "public"."BillStatus" NOT NULL DEFAULT 'open',
+    "transaction_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "paid_at" TIMESTAMP(3),
+
+    CONSTRAINT "bills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billpay_payees_api_key_hash_key" ON "public"."billpay_payees"("api_key_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bills_transaction_id_key" ON "public"."bills"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "bills_user_id_status_due_date_idx" ON "public"."bills"("user_id", "status", "due_date");
+
+-- CreateIndex
+CREATE INDEX "bills_payee_id_idx" ON "public"."bills"("payee_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."bills" ADD CONSTRAINT "bills_payee_id_fkey" FOREIGN KEY ("payee_id") REFERENCES "public"."billpay_payees"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bills" ADD CONSTRAINT "bills_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bills" ADD CONSTRAINT "bills_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
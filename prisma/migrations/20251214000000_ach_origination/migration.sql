@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."AchBatchStatus" AS ENUM ('generated', 'sent');
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "ach_batch_id" INTEGER,
+ADD COLUMN     "ach_trace_number" CHAR(15);
+
+-- CreateTable
+CREATE TABLE "public"."ach_batches" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" "public"."AchBatchStatus" NOT NULL DEFAULT 'generated',
+    "sent_at" TIMESTAMP(3),
+    "effective_date" DATE NOT NULL,
+    "file_id_modifier" CHAR(1) NOT NULL,
+    "entry_count" INTEGER NOT NULL,
+    "total_credit" DECIMAL(19,4) NOT NULL,
+    "file_contents" TEXT NOT NULL,
+
+    CONSTRAINT "ach_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_ach_trace_number_key" ON "public"."transactions"("ach_trace_number");
+
+-- CreateIndex
+CREATE INDEX "transactions_ach_batch_id_idx" ON "public"."transactions"("ach_batch_id");
+
+-- CreateIndex
+CREATE INDEX "ach_batches_created_at_idx" ON "public"."ach_batches"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."transactions" ADD CONSTRAINT "transactions_ach_batch_id_fkey" FOREIGN KEY ("ach_batch_id") REFERENCES "public"."ach_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."ReversalReasonEnum" ADD VALUE 'ach_return';
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "ach_return_code" CHAR(3);
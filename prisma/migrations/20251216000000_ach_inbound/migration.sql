@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."AchBatchKind" AS ENUM ('origination', 'returns');
+
+-- AlterTable
+ALTER TABLE "public"."ach_batches" ADD COLUMN     "kind" "public"."AchBatchKind" NOT NULL DEFAULT 'origination';
+
+-- CreateTable
+CREATE TABLE "public"."ach_inbound_files" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "file_hash" CHAR(64) NOT NULL,
+    "file_contents" TEXT NOT NULL,
+    "entry_count" INTEGER NOT NULL,
+    "posted_count" INTEGER NOT NULL,
+    "returned_count" INTEGER NOT NULL,
+    "total_posted" DECIMAL(19,4) NOT NULL,
+    "return_batch_id" INTEGER,
+
+    CONSTRAINT "ach_inbound_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ach_inbound_files_file_hash_key" ON "public"."ach_inbound_files"("file_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ach_inbound_files_return_batch_id_key" ON "public"."ach_inbound_files"("return_batch_id");
+
+-- CreateIndex
+CREATE INDEX "ach_inbound_files_created_at_idx" ON "public"."ach_inbound_files"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."ach_inbound_files" ADD CONSTRAINT "ach_inbound_files_return_batch_id_fkey" FOREIGN KEY ("return_batch_id") REFERENCES "public"."ach_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "public"."routing_directory" (
+    "routing_number" CHAR(9) NOT NULL,
+    "bank_name" VARCHAR(36) NOT NULL,
+    "city" VARCHAR(20) NOT NULL,
+    "state" CHAR(2) NOT NULL,
+    "new_routing_number" CHAR(9),
+    "change_date" DATE,
+    "loaded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "routing_directory_pkey" PRIMARY KEY ("routing_number")
+);
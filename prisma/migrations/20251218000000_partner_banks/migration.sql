@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "public"."PartnerRequestStatus" AS ENUM ('accepted', 'rejected');
+
+-- CreateTable
+CREATE TABLE "public"."partner_banks" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" VARCHAR(100) NOT NULL,
+    "routing_number" CHAR(9) NOT NULL,
+    "signing_secret" VARCHAR(255) NOT NULL,
+    "secret_prefix" VARCHAR(20) NOT NULL,
+    "per_transfer_limit" DECIMAL(19,4) NOT NULL,
+    "daily_limit" DECIMAL(19,4) NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "partner_banks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."partner_requests" (
+    "id" SERIAL NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "partner_bank_id" INTEGER,
+    "nonce" VARCHAR(64),
+    "signed_at" TIMESTAMP(3),
+    "status" "public"."PartnerRequestStatus" NOT NULL,
+    "http_status" INTEGER NOT NULL,
+    "error" VARCHAR(255),
+    "destination_account_number" VARCHAR(17),
+    "source_account_number" VARCHAR(17),
+    "source_routing_number" CHAR(9),
+    "amount" DECIMAL(19,4),
+    "transaction_id" INTEGER,
+
+    CONSTRAINT "partner_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "partner_banks_routing_number_key" ON "public"."partner_banks"("routing_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "partner_requests_transaction_id_key" ON "public"."partner_requests"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "partner_requests_partner_bank_id_received_at_idx" ON "public"."partner_requests"("partner_bank_id", "received_at");
+
+-- CreateIndex
+CREATE INDEX "partner_requests_received_at_idx" ON "public"."partner_requests"("received_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "partner_requests_partner_bank_id_nonce_key" ON "public"."partner_requests"("partner_bank_id", "nonce");
+
+-- AddForeignKey
+ALTER TABLE "public"."partner_requests" ADD CONSTRAINT "partner_requests_partner_bank_id_fkey" FOREIGN KEY ("partner_bank_id") REFERENCES "public"."partner_banks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."partner_requests" ADD CONSTRAINT "partner_requests_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
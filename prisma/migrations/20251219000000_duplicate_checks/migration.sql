@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."DuplicateCheckMatch" AS ENUM ('exact', 'fuzzy');
+
+-- CreateTable
+CREATE TABLE "public"."duplicate_check_hits" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "transaction_id" INTEGER NOT NULL,
+    "original_transaction_id" INTEGER NOT NULL,
+    "match" "public"."DuplicateCheckMatch" NOT NULL,
+    "reviewed_at" TIMESTAMP(3),
+
+    CONSTRAINT "duplicate_check_hits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_external_account_number_check_number_idx" ON "public"."transactions"("external_account_number", "check_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "duplicate_check_hits_transaction_id_key" ON "public"."duplicate_check_hits"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "duplicate_check_hits_original_transaction_id_idx" ON "public"."duplicate_check_hits"("original_transaction_id");
+
+-- CreateIndex
+CREATE INDEX "duplicate_check_hits_reviewed_at_created_at_idx" ON "public"."duplicate_check_hits"("reviewed_at", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."duplicate_check_hits" ADD CONSTRAINT "duplicate_check_hits_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."duplicate_check_hits" ADD CONSTRAINT "duplicate_check_hits_original_transaction_id_fkey" FOREIGN KEY ("original_transaction_id") REFERENCES "public"."transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
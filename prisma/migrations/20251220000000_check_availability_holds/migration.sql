@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "public"."funds_holds_transaction_id_key";
+
+-- CreateIndex
+CREATE INDEX "funds_holds_transaction_id_idx" ON "public"."funds_holds"("transaction_id");
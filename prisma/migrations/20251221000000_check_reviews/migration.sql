@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."CheckReviewReason" AS ENUM ('large_amount', 'first_deposit', 'missing_micr', 'possible_duplicate');
+
+-- CreateEnum
+CREATE TYPE "public"."CheckReviewStatus" AS ENUM ('open', 'approved', 'rejected');
+
+-- CreateTable
+CREATE TABLE "public"."check_reviews" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "transaction_id" INTEGER NOT NULL,
+    "reasons" "public"."CheckReviewReason"[],
+    "status" "public"."CheckReviewStatus" NOT NULL DEFAULT 'open',
+    "extracted_amount" DECIMAL(19,4) NOT NULL,
+    "payee_name" VARCHAR(100),
+    "payor_name" VARCHAR(100),
+    "approved_amount" DECIMAL(19,4),
+    "rejection_reason" VARCHAR(255),
+    "decided_at" TIMESTAMP(3),
+
+    CONSTRAINT "check_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "check_reviews_transaction_id_key" ON "public"."check_reviews"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "check_reviews_status_created_at_idx" ON "public"."check_reviews"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."check_reviews" ADD CONSTRAINT "check_reviews_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "public"."CheckReviewReason" ADD VALUE 'amount_mismatch';
+ALTER TYPE "public"."CheckReviewReason" ADD VALUE 'unrestricted_endorsement';
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN "check_back_image_url" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."check_reviews" ADD COLUMN "entered_amount" DECIMAL(19,4),
+ADD COLUMN "endorsement" VARCHAR(255);
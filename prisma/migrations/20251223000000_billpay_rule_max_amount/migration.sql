@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."billpay_rules" ADD COLUMN     "max_amount" DECIMAL(19,4);
@@ -0,0 +1,5 @@
+-- CreateSequence
+-- The 7-digit sequence number of every trace number in the ACH files we send, origination and returns alike.
+-- It starts after the ones already taken from transaction ids.
+CREATE SEQUENCE "public"."ach_trace_number_seq" MINVALUE 1 MAXVALUE 9999999 CYCLE;
+SELECT setval('"public"."ach_trace_number_seq"', COALESCE((SELECT MAX("id") FROM "public"."transactions"), 0) % 9999999 + 1, false);
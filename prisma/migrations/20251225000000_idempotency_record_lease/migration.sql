@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."idempotency_records" ADD COLUMN     "locked_until" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."internal_accounts" ADD COLUMN     "interest_carried_forward" DECIMAL(19,10) NOT NULL DEFAULT 0;
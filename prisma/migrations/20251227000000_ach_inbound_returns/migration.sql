@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "public"."ach_inbound_returns" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "trace_number" CHAR(15) NOT NULL,
+    "return_code" CHAR(3) NOT NULL,
+
+    CONSTRAINT "ach_inbound_returns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ach_inbound_returns_trace_number_key" ON "public"."ach_inbound_returns"("trace_number");
@@ -6,8 +6,14 @@ import {
   TransactionTypeEnum,
   PaymentDirection,
   USStateTerritory,
+  EntrySide,
+  SystemLedgerAccount,
+  Prisma,
 } from "@prisma/client";
 import { createClient } from "@supabase/supabase-js";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { loadRoutingDirectory } from "../app/lib/routing-directory";
 
 const prisma = new PrismaClient();
 
@@ -17,6 +23,7 @@ async function main() {
   try {
     await prisma.$transaction([
       prisma.transaction.deleteMany({}),
+      prisma.journalEntry.deleteMany({}),
       prisma.transferRule.deleteMany({}),
       prisma.billPayRule.deleteMany({}),
       prisma.billPayPayee.deleteMany({}),
@@ -183,6 +190,7 @@ async function main() {
           account_type: AccountTypeEnum.checking,
           is_active: true,
           balance: 100000,
+          available_balance: 100000,
         },
       }),
       prisma.internalAccount.create({
@@ -192,6 +200,7 @@ async function main() {
           account_type: AccountTypeEnum.checking,
           is_active: true,
           balance: 2500.5,
+          available_balance: 2500.5,
         },
       }),
       prisma.internalAccount.create({
@@ -201,6 +210,7 @@ async function main() {
           account_type: AccountTypeEnum.savings,
           is_active: true,
           balance: 5000,
+          available_balance: 5000,
         },
       }),
       prisma.internalAccount.create({
@@ -210,10 +220,41 @@ async function main() {
           account_type: AccountTypeEnum.checking,
           is_active: true,
           balance: 1250.75,
+          available_balance: 1250.75,
         },
       }),
     ]);
 
+  // Carry the seeded balances into the journal so every balance is explained by journal lines
+  const seededAccounts = [
+    _bankOpsAccount,
+    avaChecking,
+    _avaSavings,
+    liamChecking,
+  ];
+  await prisma.journalEntry.create({
+    data: {
+      description: "Seed opening balances",
+      lines: {
+        create: [
+          ...seededAccounts.map((account) => ({
+            internal_account_id: account.id,
+            side: EntrySide.credit,
+            amount: account.balance,
+          })),
+          {
+            system_account: SystemLedgerAccount.suspense,
+            side: EntrySide.debit,
+            amount: seededAccounts.reduce(
+              (sum, account) => sum.add(account.balance),
+              new Prisma.Decimal(0),
+            ),
+          },
+        ],
+      },
+    },
+  });
+
   // Transactions
   await prisma.$transaction([
     // Ava transfers to savings (internal)
@@ -222,6 +263,7 @@ async function main() {
         internal_account_id: avaChecking.id,
         amount: 500,
         status: TransactionStatusEnum.approved,
+        posted_at: new Date(),
         transaction_type: TransactionTypeEnum.internal_transfer,
         direction: PaymentDirection.outbound,
       },
@@ -232,6 +274,7 @@ async function main() {
         internal_account_id: avaChecking.id,
         amount: 1000,
         status: TransactionStatusEnum.approved,
+        posted_at: new Date(),
         transaction_type: TransactionTypeEnum.external_transfer,
         direction: PaymentDirection.inbound,
         external_routing_number: "121000000",
@@ -254,6 +297,7 @@ async function main() {
         internal_account_id: liamChecking.id,
         amount: 200,
         status: TransactionStatusEnum.approved,
+        posted_at: new Date(),
         transaction_type: TransactionTypeEnum.deposit,
         direction: PaymentDirection.inbound,
       },
@@ -264,12 +308,19 @@ async function main() {
         internal_account_id: avaChecking.id,
         amount: 75,
         status: TransactionStatusEnum.approved,
+        posted_at: new Date(),
         transaction_type: TransactionTypeEnum.withdrawal,
         direction: PaymentDirection.outbound,
       },
     }),
   ]);
 
+  // Banks that external accounts and payees can use
+  await loadRoutingDirectory(
+    prisma,
+    readFileSync(resolve(__dirname, "data/FedACHdir.txt"), "utf8"),
+  );
+
   console.log("Database seeded successfully");
 }
 
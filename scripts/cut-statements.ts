@@ -0,0 +1,45 @@
+/**
+ * Script to cut monthly account statements
+ * Usage: pnpm tsx scripts/cut-statements.ts
+ *
+ * Run once a month shortly after midnight UTC on the 1st, after run-interest.ts so last month's interest is on the
+ * statement. Cuts last month's statement for every account; accounts that already have one are left alone.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { config } from "dotenv";
+import { resolve } from "path";
+import { cutMonthlyStatements } from "../app/lib/statements";
+
+// Load environment variables
+config({ path: resolve(process.cwd(), ".env.local") });
+config({ path: resolve(process.cwd(), ".env") });
+
+const prisma = new PrismaClient();
+
+async function main() {
+  try {
+    const { period_start, cut, failed } = await cutMonthlyStatements(prisma);
+
+    console.log(
+      `\n🔍 Cut statements for ${period_start.toISOString().slice(0, 7)}`,
+    );
+    console.log(`   ✓ ${cut.length} account(s)`);
+    for (const failure of failed) {
+      console.error(
+        `   ⚠️  Account ${failure.internal_account_id}: ${failure.error}`,
+      );
+    }
+
+    if (failed.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -172,6 +172,18 @@ async function deleteUserData(email: string) {
       });
       console.log(`   ✓ Deleted ${transactionCount.count} transaction(s)`);
 
+      // Delete journal entries that touch the user's accounts (lines cascade from entries)
+      const journalEntryCount = await tx.journalEntry.deleteMany({
+        where: {
+          lines: {
+            some: { internal_account: { user_id: dbUser!.id } },
+          },
+        },
+      });
+      console.log(
+        `   ✓ Deleted ${journalEntryCount.count} journal entr(y/ies)`,
+      );
+
       // Delete transfer rules
       const transferRuleCount = await tx.transferRule.deleteMany({
         where: { user_id: dbUser!.id },
@@ -0,0 +1,43 @@
+/**
+ * Script to load the routing directory from a FedACH participant file
+ * Usage: pnpm tsx scripts/load-routing-directory.ts [path/to/FedACHdir.txt]
+ *
+ * Replaces the routing directory with the file's records. Without a path it loads the copy bundled at
+ * prisma/data/FedACHdir.txt; pass the Fed's current file to update it.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { config } from "dotenv";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { loadRoutingDirectory } from "../app/lib/routing-directory";
+
+// Load environment variables
+config({ path: resolve(process.cwd(), ".env.local") });
+config({ path: resolve(process.cwd(), ".env") });
+
+const prisma = new PrismaClient();
+
+async function main() {
+  try {
+    const path = resolve(
+      process.cwd(),
+      process.argv[2] ?? "prisma/data/FedACHdir.txt",
+    );
+    console.log(`\n🔍 Loading the routing directory from ${path}`);
+
+    const loaded = await loadRoutingDirectory(
+      prisma,
+      readFileSync(path, "utf8"),
+    );
+
+    console.log(`   ✓ Loaded ${loaded} routing number(s)`);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
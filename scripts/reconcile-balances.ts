@@ -0,0 +1,56 @@
+/**
+ * Script to reconcile account balances against posted transactions
+ * Usage: pnpm tsx scripts/reconcile-balances.ts
+ *
+ * Recomputes each account's balance from its approved transactions and lists every account where the
+ * stored balance disagrees (with the journal balance alongside). Read-only; exits non-zero on any discrepancy.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { config } from "dotenv";
+import { resolve } from "path";
+import { reconcileBalances } from "../app/lib/reconciliation";
+
+// Load environment variables
+config({ path: resolve(process.cwd(), ".env.local") });
+config({ path: resolve(process.cwd(), ".env") });
+
+const prisma = new PrismaClient();
+
+async function main() {
+  try {
+    console.log(`\n🔍 Reconciling account balances`);
+
+    const report = await reconcileBalances(prisma);
+
+    console.log(`   Checked ${report.accounts_checked} account(s)`);
+
+    if (report.discrepancies.length === 0) {
+      console.log(`   ✓ All balances match their transactions`);
+      return;
+    }
+
+    console.error(
+      `   ⚠️  ${report.discrepancies.length} account(s) out of balance (net difference ${report.total_difference.toFixed(4)})`,
+    );
+    console.table(
+      report.discrepancies.map((account) => ({
+        account_id: account.internal_account_id,
+        account_number: account.account_number,
+        user_id: account.user_id,
+        stored: account.stored_balance.toFixed(4),
+        transactions: account.transaction_balance.toFixed(4),
+        journal: account.journal_balance.toFixed(4),
+        difference: account.difference.toFixed(4),
+      })),
+    );
+    process.exitCode = 1;
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,58 @@
+/**
+ * Script to accrue and post savings interest
+ * Usage: pnpm tsx scripts/run-interest.ts
+ *
+ * Run once a day shortly after midnight UTC. Accrues the day that just ended on every savings account, along with any
+ * days missed since the last run, then credits any interest accrued before the current month (so the first run of
+ * each month pays out last month).
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { config } from "dotenv";
+import { resolve } from "path";
+import { accrueDailyInterest, postMonthlyInterest } from "../app/lib/interest";
+
+// Load environment variables
+config({ path: resolve(process.cwd(), ".env.local") });
+config({ path: resolve(process.cwd(), ".env") });
+
+const prisma = new PrismaClient();
+
+async function main() {
+  try {
+    const now = new Date();
+
+    const accrual = await accrueDailyInterest(prisma, now);
+    const days = accrual.accrual_dates.map((day) =>
+      day.toISOString().slice(0, 10),
+    );
+    console.log(
+      days.length > 0
+        ? `\n🔍 Accrued interest for ${days.join(", ")}`
+        : "\n🔍 Interest already accrued through yesterday",
+    );
+    console.log(
+      `   ✓ ${accrual.accrued} account(s), ${accrual.total.toFixed(4)} total`,
+    );
+
+    const { posted, failed } = await postMonthlyInterest(prisma, now);
+
+    console.log(`   ✓ Posted interest to ${posted.length} account(s)`);
+    for (const failure of failed) {
+      console.error(
+        `   ⚠️  Account ${failure.internal_account_id}: ${failure.error}`,
+      );
+    }
+
+    if (failed.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,52 @@
+/**
+ * Script to run scheduled bill payments and transfers that are due
+ * Usage: pnpm tsx scripts/run-scheduler.ts
+ *
+ * Run every minute. Each run is one scheduler tick: it runs every bill pay and transfer rule whose next run has
+ * passed and moves it on to its next occurrence (see app/lib/scheduler.ts). Overlapping runs, including runs on
+ * other machines, are safe: each job is leased to one worker at a time.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { config } from "dotenv";
+import { resolve } from "path";
+import { runSchedulerTick } from "../app/lib/scheduler";
+
+// Load environment variables
+config({ path: resolve(process.cwd(), ".env.local") });
+config({ path: resolve(process.cwd(), ".env") });
+
+const prisma = new PrismaClient();
+
+async function main() {
+  try {
+    const { runs, failed } = await runSchedulerTick(prisma);
+
+    console.log(`\n🔍 Ran ${runs.length} scheduled job(s)`);
+    for (const status of ["approved", "pending", "denied", "skipped"]) {
+      const count = runs.filter((run) => run.status === status).length;
+      if (count > 0) {
+        console.log(`   ✓ ${count} ${status}`);
+      }
+    }
+    for (const run of runs) {
+      if (run.status === "denied") {
+        console.log(`   ✗ ${run.job_type} ${run.rule_id}: ${run.reason}`);
+      }
+    }
+    for (const failure of failed) {
+      console.error(`   ⚠️  Job ${failure.job_id}: ${failure.error}`);
+    }
+
+    if (failed.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
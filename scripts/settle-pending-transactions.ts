@@ -0,0 +1,53 @@
+/**
+ * Script to post pending transactions whose settlement date has passed and release check deposit holds that are due
+ * Usage: pnpm tsx scripts/settle-pending-transactions.ts
+ *
+ * External transfers and bill payments start as pending and hold their funds; check deposits hold their funds
+ * until they become available. Run this on a schedule (for example once each business day) to move pending
+ * transactions onto the ledger and make deposited funds available.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { config } from "dotenv";
+import { resolve } from "path";
+import { settleDueTransactions } from "../app/lib/settlement";
+import { releaseDueHolds } from "../app/lib/holds";
+
+// Load environment variables
+config({ path: resolve(process.cwd(), ".env.local") });
+config({ path: resolve(process.cwd(), ".env") });
+
+const prisma = new PrismaClient();
+
+async function main() {
+  try {
+    console.log(
+      `\n🔍 Settling pending transactions due by ${new Date().toISOString()}`,
+    );
+
+    const { posted, failed } = await settleDueTransactions(prisma);
+
+    console.log(`   ✓ Posted ${posted.length} transaction(s)`);
+    for (const failure of failed) {
+      console.error(`   ⚠️  Transaction ${failure.id}: ${failure.error}`);
+    }
+
+    const holds = await releaseDueHolds(prisma);
+
+    console.log(`   ✓ Released ${holds.released.length} hold(s)`);
+    for (const failure of holds.failed) {
+      console.error(`   ⚠️  Hold ${failure.id}: ${failure.error}`);
+    }
+
+    if (failed.length > 0 || holds.failed.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();